@@ -0,0 +1,162 @@
+import {
+  buildDashboard,
+  getPackPerformance,
+  getWeekStart,
+  getWeeklyTrends,
+} from '@/lib/api/dashboard';
+import type { SessionSummaryRecord } from '@/lib/api/types';
+
+describe('dashboard', () => {
+  // Wednesday
+  const NOW = Date.parse('2025-09-03T12:00:00Z');
+
+  const summary = (
+    startedAt: string,
+    updates: Partial<SessionSummaryRecord> = {}
+  ): SessionSummaryRecord => ({
+    sessionId: `session-${startedAt}`,
+    userId: 'user-1',
+    packId: 'pack-1',
+    packTitle: 'NGSL',
+    difficulty: 'NORMAL',
+    startedAt,
+    endedAt: startedAt,
+    durationSec: 300,
+    result: 'WIN',
+    avgWpm: 30,
+    avgAcc: 0.9,
+    maxCombo: 5,
+    totalDamage: 100,
+    totalHealing: 20,
+    totalAttempts: 12,
+    ...updates,
+  });
+
+  describe('getWeekStart', () => {
+    it('should return midnight UTC on Monday', () => {
+      expect(new Date(getWeekStart(NOW)).toISOString()).toBe(
+        '2025-09-01T00:00:00.000Z'
+      );
+      expect(
+        new Date(getWeekStart(Date.parse('2025-08-31T23:59:59Z'))).toISOString()
+      ).toBe('2025-08-25T00:00:00.000Z');
+    });
+  });
+
+  describe('getWeeklyTrends', () => {
+    it('should average each week and leave empty weeks without values', () => {
+      const weeks = getWeeklyTrends(
+        [
+          summary('2025-09-02T10:00:00Z', { avgWpm: 40, avgAcc: 1 }),
+          summary('2025-09-01T00:00:00Z', {
+            avgWpm: 20,
+            avgAcc: 0.8,
+            result: 'LOSE',
+          }),
+          summary('2025-08-18T09:00:00Z'),
+          summary('2025-07-01T09:00:00Z'), // Before the window
+        ],
+        NOW,
+        3
+      );
+
+      expect(weeks).toEqual([
+        {
+          weekStart: '2025-08-18',
+          sessions: 1,
+          wins: 1,
+          averageWpm: 30,
+          averageAccuracy: 0.9,
+        },
+        {
+          weekStart: '2025-08-25',
+          sessions: 0,
+          wins: 0,
+          averageWpm: null,
+          averageAccuracy: null,
+        },
+        {
+          weekStart: '2025-09-01',
+          sessions: 2,
+          wins: 1,
+          averageWpm: 30,
+          averageAccuracy: 0.9,
+        },
+      ]);
+    });
+  });
+
+  describe('getPackPerformance', () => {
+    it('should group by pack and difficulty, most played first', () => {
+      const packs = getPackPerformance([
+        summary('2025-09-01T10:00:00Z', { difficulty: 'HARD', result: 'LOSE' }),
+        summary('2025-09-01T11:00:00Z', {
+          packId: 'pack-2',
+          packTitle: 'TOEIC',
+          avgWpm: null,
+        }),
+        summary('2025-09-01T12:00:00Z', { difficulty: 'HARD' }),
+      ]);
+
+      expect(packs).toEqual([
+        {
+          packId: 'pack-1',
+          packTitle: 'NGSL',
+          difficulty: 'HARD',
+          sessions: 2,
+          wins: 1,
+          winRate: 0.5,
+          averageWpm: 30,
+          averageAccuracy: 0.9,
+        },
+        expect.objectContaining({
+          packTitle: 'TOEIC',
+          sessions: 1,
+          winRate: 1,
+          averageWpm: null,
+        }),
+      ]);
+    });
+  });
+
+  describe('buildDashboard', () => {
+    it('should total every ended session and list the latest first', () => {
+      const dashboard = buildDashboard(
+        [
+          summary('2025-01-01T10:00:00Z', { result: 'LOSE' }),
+          summary('2025-09-02T10:00:00Z', { avgWpm: 50 }),
+          summary('2025-09-03T10:00:00Z', { result: null }), // Still open
+        ],
+        NOW
+      );
+
+      expect(dashboard.totals).toEqual({
+        sessions: 2,
+        wins: 1,
+        winRate: 0.5,
+        averageWpm: 40,
+        averageAccuracy: 0.9,
+        totalDamage: 200,
+        totalHealing: 40,
+        wordsTyped: 24,
+        timePlayedSec: 600,
+      });
+      expect(dashboard.weeks).toHaveLength(12);
+      expect(
+        dashboard.recentSessions.map(session => session.startedAt)
+      ).toEqual(['2025-09-02T10:00:00Z', '2025-01-01T10:00:00Z']);
+    });
+
+    it('should return empty totals without sessions', () => {
+      const dashboard = buildDashboard([], NOW, 1);
+
+      expect(dashboard.totals).toMatchObject({
+        sessions: 0,
+        winRate: 0,
+        averageWpm: null,
+      });
+      expect(dashboard.packs).toEqual([]);
+      expect(dashboard.recentSessions).toEqual([]);
+    });
+  });
+});
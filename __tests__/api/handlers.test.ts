@@ -0,0 +1,1411 @@
+/**
+ * @jest-environment node
+ */
+import { ApiError } from '@/lib/api/errors';
+import { signGuestToken } from '@/lib/api/guestToken';
+import {
+  claimGuestSessions,
+  createSession,
+  endSession,
+  getDashboard,
+  getLeaderboard,
+  getSessionReport,
+  importWordPack,
+  recordAttempt,
+  recordAttemptBatch,
+} from '@/lib/api/handlers';
+import { InMemoryGameRepository } from '@/lib/api/repository/InMemoryGameRepository';
+import type { ApiContext } from '@/lib/api/types';
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { ReplayRecorder } from '@/lib/game/replay/ReplayRecorder';
+import { ManualClock } from '@/lib/game/utils/clock';
+import {
+  CLASSIC_COMBAT_PROFILE,
+  PRD_MVP_COMBAT_PROFILE,
+} from '@/lib/game/utils/combatProfile';
+import { toSessionWords } from '@/lib/game/utils/packWords';
+import { DEFAULT_PLAYER_STATS } from '@/lib/game/utils/progression';
+
+describe('API handlers', () => {
+  const PACK_ID = '550e8400-e29b-41d4-a716-446655440000';
+  const INACTIVE_PACK_ID = '550e8400-e29b-41d4-a716-446655440001';
+  const OTHER_PACK_ID = '550e8400-e29b-41d4-a716-446655440002';
+  const WORD_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+  const OTHER_PACK_WORD_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae8';
+  const USER_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const OTHER_USER_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a12';
+
+  let repository: InMemoryGameRepository;
+  let clock: ManualClock;
+
+  const contextFor = (
+    userId: string | null,
+    guestToken: string | null = null
+  ): ApiContext => ({
+    repository,
+    userId,
+    guestToken,
+    clock,
+  });
+
+  const asGuest = (sessionId: string) =>
+    contextFor(null, signGuestToken(sessionId));
+
+  const attemptBody = (sessionId: string, overrides = {}) => ({
+    sessionId,
+    type: 'ATTACK',
+    wordId: WORD_ID,
+    targetText: 'dragon',
+    ms: 2400,
+    errors: 0,
+    accuracy: 1,
+    score: 45,
+    combo: 5,
+    ...overrides,
+  });
+
+  const endBody = (sessionId: string, overrides = {}) => ({
+    sessionId,
+    result: 'WIN',
+    durationSec: 420,
+    stats: {
+      wpm: 28.5,
+      acc: 0.92,
+      comboMax: 15,
+      atkCount: 12,
+      healCount: 3,
+      guardRate: 0.8,
+      damage: 480,
+      damageTaken: 120,
+    },
+    ...overrides,
+  });
+
+  const startSession = async (userId: string | null) => {
+    const { body } = await createSession(contextFor(userId), {
+      packId: PACK_ID,
+      difficulty: 'NORMAL',
+    });
+    return body.sessionId;
+  };
+
+  const expectApiError = async (
+    promise: Promise<unknown>,
+    status: number,
+    message: string
+  ) => {
+    const error = (await promise.catch(e => e)) as ApiError;
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(status);
+    expect(error.message).toBe(message);
+  };
+
+  beforeAll(() => {
+    process.env.GUEST_TOKEN_SECRET = 'test-guest-token-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.GUEST_TOKEN_SECRET;
+  });
+
+  beforeEach(() => {
+    clock = new ManualClock(Date.parse('2025-08-24T10:30:00Z'));
+    repository = new InMemoryGameRepository({
+      wordPacks: [
+        { id: PACK_ID, title: 'NGSL', isActive: true },
+        { id: INACTIVE_PACK_ID, title: 'Retired', isActive: false },
+        { id: OTHER_PACK_ID, title: 'TOEIC', isActive: true },
+      ],
+      words: [
+        { id: WORD_ID, packId: PACK_ID, text: 'dragon', level: 2 },
+        {
+          id: OTHER_PACK_WORD_ID,
+          packId: OTHER_PACK_ID,
+          text: 'invoice',
+          level: 3,
+        },
+      ],
+    });
+  });
+
+  describe('createSession', () => {
+    it('should create a guest session with a null user', async () => {
+      const result = await createSession(contextFor(null), {
+        packId: PACK_ID,
+        difficulty: 'EASY',
+        settingsSnapshot: { theme: 'light', fontSize: 14 },
+      });
+
+      expect(result.status).toBe(201);
+      expect(result.body.message).toBe('Session created successfully');
+      expect(result.body.guestToken).toBe(
+        signGuestToken(result.body.sessionId)
+      );
+
+      const session = await repository.findSession(result.body.sessionId);
+      expect(session).toMatchObject({
+        userId: null,
+        packId: PACK_ID,
+        difficulty: 'EASY',
+        startedAt: '2025-08-24T10:30:00.000Z',
+        endedAt: null,
+        settings: { theme: 'light', fontSize: 14 },
+      });
+    });
+
+    it('should attach the authenticated user', async () => {
+      const sessionId = await startSession(USER_ID);
+
+      expect((await repository.findSession(sessionId))?.userId).toBe(USER_ID);
+    });
+
+    it('should only give guests a guest token', async () => {
+      const result = await createSession(contextFor(USER_ID), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+      });
+
+      expect(result.body.guestToken).toBeUndefined();
+    });
+
+    it('should snapshot the default combat profile into the settings', async () => {
+      const result = await createSession(contextFor(null), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+      });
+
+      expect(result.body.combatProfile).toEqual(CLASSIC_COMBAT_PROFILE);
+      const session = await repository.findSession(result.body.sessionId);
+      expect(session?.settings.combatProfile).toEqual(CLASSIC_COMBAT_PROFILE);
+    });
+
+    it('should prefer the session combat profile over the pack one', async () => {
+      const customProfile = { ...PRD_MVP_COMBAT_PROFILE, id: 'custom' };
+      repository.addWordPack({
+        id: '550e8400-e29b-41d4-a716-446655440003',
+        title: 'Balanced',
+        isActive: true,
+        combatProfile: customProfile,
+      });
+
+      const fromPack = await createSession(contextFor(null), {
+        packId: '550e8400-e29b-41d4-a716-446655440003',
+        difficulty: 'NORMAL',
+      });
+      const fromSession = await createSession(contextFor(null), {
+        packId: '550e8400-e29b-41d4-a716-446655440003',
+        difficulty: 'NORMAL',
+        combatProfile: 'prd-mvp',
+      });
+
+      expect(fromPack.body.combatProfile).toEqual(customProfile);
+      expect(fromSession.body.combatProfile).toEqual(PRD_MVP_COMBAT_PROFILE);
+    });
+
+    it('should snapshot the equipped skills into the settings', async () => {
+      const result = await createSession(contextFor(null), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+        skills: ['power-strike', 'heal-boost'],
+      });
+
+      expect(result.body.skills).toEqual(['power-strike', 'heal-boost']);
+      const session = await repository.findSession(result.body.sessionId);
+      expect(session?.settings.skills).toEqual(['power-strike', 'heal-boost']);
+    });
+
+    it("should only rank sessions played with the pack's balance", async () => {
+      const ranked = await startSession(USER_ID);
+      const withSkills = await createSession(contextFor(USER_ID), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+        skills: ['power-strike'],
+      });
+      const withProfile = await createSession(contextFor(USER_ID), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+        combatProfile: 'prd-mvp',
+      });
+
+      const rankedOf = async (sessionId: string) =>
+        (await repository.findSession(sessionId))?.settings.ranked;
+      expect(await rankedOf(ranked)).toBe(true);
+      expect(await rankedOf(withSkills.body.sessionId)).toBe(false);
+      expect(await rankedOf(withProfile.body.sessionId)).toBe(false);
+    });
+
+    it('should give the session a seed of its own', async () => {
+      const result = await createSession(contextFor(null), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+        settingsSnapshot: { rngSeed: 42 },
+      });
+
+      expect(typeof result.body.rngSeed).toBe('number');
+      const session = await repository.findSession(result.body.sessionId);
+      expect(session?.settings.rngSeed).toBe(result.body.rngSeed);
+    });
+
+    it("should snapshot the learner's stored stats, profile and pack reviews", async () => {
+      const review = (wordId: string) => ({
+        wordId,
+        easeFactor: 2.5,
+        intervalDays: 1,
+        repetitions: 1,
+        lapses: 0,
+        dueAt: clock.now(),
+        lastReviewedAt: clock.now(),
+      });
+      const keystrokeProfile = {
+        keys: {
+          a: { count: 4, errors: 1, totalLatencyMs: 800, timedCount: 4 },
+        },
+        bigrams: {},
+      };
+      repository.setLearnerData(USER_ID, {
+        playerStats: { ...DEFAULT_PLAYER_STATS, level: 4, experience: 900 },
+        reviews: [review(WORD_ID), review(OTHER_PACK_WORD_ID)],
+        keystrokeProfile,
+      });
+
+      const result = await createSession(contextFor(USER_ID), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+      });
+
+      expect(result.body.playerStats?.level).toBe(4);
+      expect(result.body.reviewSchedule).toEqual({
+        asOf: clock.now(),
+        reviews: [review(WORD_ID)],
+      });
+      expect(result.body.keystrokeProfile).toEqual(keystrokeProfile);
+      const session = await repository.findSession(result.body.sessionId);
+      expect(session?.settings).toMatchObject({
+        playerStats: result.body.playerStats,
+        reviewSchedule: result.body.reviewSchedule,
+        keystrokeProfile,
+      });
+    });
+
+    it('should not let a guest set learner data through the settings snapshot', async () => {
+      const result = await createSession(contextFor(null), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+        settingsSnapshot: {
+          playerStats: { ...DEFAULT_PLAYER_STATS, level: 500 },
+        },
+      });
+
+      expect(result.body.playerStats).toBeUndefined();
+      const session = await repository.findSession(result.body.sessionId);
+      expect(session?.settings.playerStats).toBeUndefined();
+    });
+
+    it('should snapshot the prompt mode, campaign and adaptive difficulty', async () => {
+      const result = await createSession(contextFor(USER_ID), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+        promptMode: 'PHRASE',
+        campaignId: 'tower',
+        adaptiveDifficulty: true,
+      });
+
+      const session = await repository.findSession(result.body.sessionId);
+      expect(session?.settings).toMatchObject({
+        promptMode: 'PHRASE',
+        campaignId: 'tower',
+        adaptiveDifficulty: true,
+      });
+      await expectApiError(
+        createSession(contextFor(USER_ID), {
+          packId: PACK_ID,
+          difficulty: 'NORMAL',
+          campaignId: 'moon',
+        }),
+        400,
+        'Unknown campaign'
+      );
+    });
+
+    it('should snapshot the battle length, 5 minutes by default', async () => {
+      const result = await createSession(contextFor(null), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+        durationSec: 180,
+        settingsSnapshot: { durationSec: 5 },
+      });
+      const byDefault = await createSession(contextFor(null), {
+        packId: PACK_ID,
+        difficulty: 'NORMAL',
+      });
+
+      expect(result.body.durationSec).toBe(180);
+      const session = await repository.findSession(result.body.sessionId);
+      expect(session?.settings.durationSec).toBe(180);
+      expect(byDefault.body.durationSec).toBe(300);
+    });
+
+    it('should reject a battle length the settings do not offer', async () => {
+      await expectApiError(
+        createSession(contextFor(null), {
+          packId: PACK_ID,
+          difficulty: 'NORMAL',
+          durationSec: 1,
+        }),
+        400,
+        'durationSec must be one of 180, 300, 600'
+      );
+    });
+
+    it('should reject an invalid skill loadout', async () => {
+      await expectApiError(
+        createSession(contextFor(null), {
+          packId: PACK_ID,
+          difficulty: 'NORMAL',
+          skills: ['power-strike', 'power-strike'],
+        }),
+        400,
+        'Invalid skills: skills[1] is already equipped'
+      );
+    });
+
+    it('should reject an unknown or invalid combat profile', async () => {
+      await expectApiError(
+        createSession(contextFor(null), {
+          packId: PACK_ID,
+          difficulty: 'NORMAL',
+          combatProfile: 'overpowered',
+        }),
+        400,
+        'Unknown combat profile'
+      );
+      await expectApiError(
+        createSession(contextFor(null), {
+          packId: PACK_ID,
+          difficulty: 'NORMAL',
+          combatProfile: { ...CLASSIC_COMBAT_PROFILE, successAccuracy: 2 },
+        }),
+        400,
+        'Invalid combat profile: successAccuracy must be at most 1'
+      );
+    });
+
+    it('should reject an invalid difficulty', async () => {
+      const error = await createSession(contextFor(null), {
+        packId: PACK_ID,
+        difficulty: 'INVALID',
+      }).catch(e => e);
+
+      expect(error.status).toBe(400);
+      expect(error.toResponse('now')).toEqual({
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid difficulty level',
+        details: {
+          field: 'difficulty',
+          constraint: 'enum',
+          received: 'INVALID',
+        },
+        timestamp: 'now',
+      });
+    });
+
+    it('should return 404 for an unknown or inactive pack', async () => {
+      await expectApiError(
+        createSession(contextFor(null), {
+          packId: '00000000-0000-4000-8000-000000000000',
+          difficulty: 'NORMAL',
+        }),
+        404,
+        'Word pack not found or inactive'
+      );
+      await expectApiError(
+        createSession(contextFor(null), {
+          packId: INACTIVE_PACK_ID,
+          difficulty: 'NORMAL',
+        }),
+        404,
+        'Word pack not found or inactive'
+      );
+    });
+  });
+
+  describe('recordAttempt', () => {
+    it('should record an attempt and return the calculated wpm', async () => {
+      const sessionId = await startSession(null);
+
+      const result = await recordAttempt(
+        asGuest(sessionId),
+        attemptBody(sessionId)
+      );
+
+      expect(result.status).toBe(201);
+      expect(result.body).toEqual({
+        attemptId: 1,
+        wpm: 30,
+        message: 'Attempt recorded successfully',
+      });
+    });
+
+    it('should reject an attempt typed faster than humanly possible', async () => {
+      const sessionId = await startSession(null);
+
+      await expectApiError(
+        recordAttempt(asGuest(sessionId), attemptBody(sessionId, { ms: 90 })),
+        400,
+        'Attempt is faster than humanly possible'
+      );
+    });
+
+    it('should default errors and combo to zero', async () => {
+      const sessionId = await startSession(null);
+      const body: Record<string, unknown> = attemptBody(sessionId);
+      delete body.errors;
+      delete body.combo;
+
+      await recordAttempt(asGuest(sessionId), body);
+
+      const [attempt] = await repository.listAttempts(sessionId);
+      expect(attempt.errors).toBe(0);
+      expect(attempt.combo).toBe(0);
+    });
+
+    it('should return 404 for an unknown session', async () => {
+      await expectApiError(
+        recordAttempt(
+          contextFor(null),
+          attemptBody('00000000-0000-4000-8000-000000000000')
+        ),
+        404,
+        'Session not found'
+      );
+    });
+
+    it('should return 404 for a word outside the session pack', async () => {
+      const sessionId = await startSession(null);
+
+      await expectApiError(
+        recordAttempt(
+          asGuest(sessionId),
+          attemptBody(sessionId, { wordId: OTHER_PACK_WORD_ID })
+        ),
+        404,
+        'Word not found in specified pack'
+      );
+    });
+
+    it('should return 403 for another user session', async () => {
+      const sessionId = await startSession(USER_ID);
+
+      await expectApiError(
+        recordAttempt(contextFor(OTHER_USER_ID), attemptBody(sessionId)),
+        403,
+        'Cannot access session belonging to another user'
+      );
+    });
+
+    it('should return 401 when a guest writes to a user session', async () => {
+      const sessionId = await startSession(USER_ID);
+
+      await expectApiError(
+        recordAttempt(contextFor(null), attemptBody(sessionId)),
+        401,
+        'Authentication required for this operation'
+      );
+    });
+
+    it('should require the guest token to write to a guest session', async () => {
+      const sessionId = await startSession(null);
+      const otherSessionId = await startSession(null);
+
+      for (const context of [
+        contextFor(null),
+        contextFor(USER_ID),
+        contextFor(null, signGuestToken(otherSessionId)),
+        contextFor(null, 'forged-token'),
+      ]) {
+        const error = (await recordAttempt(
+          context,
+          attemptBody(sessionId)
+        ).catch(e => e)) as ApiError;
+        expect(error.status).toBe(403);
+        expect(error.details).toEqual({
+          reason: 'GUEST_TOKEN_INVALID',
+          resource: 'session',
+        });
+      }
+
+      const result = await recordAttempt(
+        contextFor(USER_ID, signGuestToken(sessionId)),
+        attemptBody(sessionId)
+      );
+      expect(result.status).toBe(201);
+    });
+  });
+
+  describe('recordAttemptBatch', () => {
+    const CLIENT_IDS = [
+      'f47ac10b-58cc-4372-a567-0e02b2c3d471',
+      'f47ac10b-58cc-4372-a567-0e02b2c3d472',
+      'f47ac10b-58cc-4372-a567-0e02b2c3d473',
+    ];
+
+    const batchItem = (clientAttemptId: string, overrides = {}) => ({
+      clientAttemptId,
+      type: 'ATTACK',
+      wordId: WORD_ID,
+      targetText: 'dragon',
+      ms: 2400,
+      accuracy: 1,
+      score: 45,
+      ...overrides,
+    });
+
+    it('should store valid items in order and report each one', async () => {
+      const sessionId = await startSession(null);
+
+      const result = await recordAttemptBatch(asGuest(sessionId), {
+        sessionId,
+        attempts: [
+          batchItem(CLIENT_IDS[0]),
+          batchItem(CLIENT_IDS[1], { ms: 0 }),
+          batchItem(CLIENT_IDS[2], { wordId: OTHER_PACK_WORD_ID }),
+          batchItem(CLIENT_IDS[0]),
+        ],
+      });
+
+      expect(result.status).toBe(200);
+      expect(result.body).toMatchObject({
+        sessionId,
+        created: 1,
+        duplicates: 1,
+        invalid: 2,
+      });
+      expect(result.body.results).toEqual([
+        {
+          index: 0,
+          clientAttemptId: CLIENT_IDS[0],
+          status: 'CREATED',
+          attemptId: 1,
+          wpm: 30,
+        },
+        {
+          index: 1,
+          clientAttemptId: CLIENT_IDS[1],
+          status: 'INVALID',
+          error: expect.objectContaining({
+            error: 'VALIDATION_ERROR',
+            details: expect.objectContaining({
+              field: 'attempts[1].ms',
+              constraint: 'minimum',
+            }),
+          }),
+        },
+        expect.objectContaining({
+          index: 2,
+          status: 'INVALID',
+          error: expect.objectContaining({ error: 'NOT_FOUND' }),
+        }),
+        {
+          index: 3,
+          clientAttemptId: CLIENT_IDS[0],
+          status: 'DUPLICATE',
+          attemptId: 1,
+          wpm: 30,
+        },
+      ]);
+      expect(await repository.listAttempts(sessionId)).toHaveLength(1);
+    });
+
+    it('should not store a resent batch again', async () => {
+      const sessionId = await startSession(USER_ID);
+      const body = {
+        sessionId,
+        attempts: [batchItem(CLIENT_IDS[0]), batchItem(CLIENT_IDS[1])],
+      };
+
+      await recordAttemptBatch(contextFor(USER_ID), body);
+      const resent = await recordAttemptBatch(contextFor(USER_ID), body);
+
+      expect(resent.body).toMatchObject({ created: 0, duplicates: 2 });
+      expect(resent.body.results.map(item => item.attemptId)).toEqual([1, 2]);
+      expect(await repository.listAttempts(sessionId)).toHaveLength(2);
+    });
+
+    it('should report an item without a valid client id', async () => {
+      const sessionId = await startSession(null);
+
+      const result = await recordAttemptBatch(asGuest(sessionId), {
+        sessionId,
+        attempts: [batchItem('not-a-uuid')],
+      });
+
+      expect(result.body.results[0]).toMatchObject({
+        clientAttemptId: null,
+        status: 'INVALID',
+        error: { details: { field: 'attempts[0].clientAttemptId' } },
+      });
+    });
+
+    it('should reject a batch for an ended session', async () => {
+      const sessionId = await startSession(null);
+      await endSession(asGuest(sessionId), endBody(sessionId));
+
+      await expectApiError(
+        recordAttemptBatch(asGuest(sessionId), {
+          sessionId,
+          attempts: [batchItem(CLIENT_IDS[0])],
+        }),
+        403,
+        'Session has already ended'
+      );
+    });
+  });
+
+  describe('endSession', () => {
+    it('should store the result and total the attempt scores', async () => {
+      const sessionId = await startSession(USER_ID);
+      await recordAttempt(contextFor(USER_ID), attemptBody(sessionId));
+      await recordAttempt(
+        contextFor(USER_ID),
+        attemptBody(sessionId, { type: 'HEAL', score: 25 })
+      );
+      clock.advance(420_000);
+
+      const result = await endSession(contextFor(USER_ID), endBody(sessionId));
+
+      expect(result.status).toBe(200);
+      expect(result.body).toEqual({
+        sessionId,
+        finalStats: { wpm: 28.5, accuracy: 0.92, totalScore: 70, comboMax: 15 },
+        riskLevel: 'MEDIUM',
+        message: 'Session ended successfully',
+      });
+
+      const session = await repository.findSession(sessionId);
+      expect(session).toMatchObject({
+        endedAt: '2025-08-24T10:37:00.000Z',
+        durationSec: 420,
+        result: 'WIN',
+        stats: endBody(sessionId).stats,
+        riskLevel: 'MEDIUM',
+        riskFlags: ['unverified'],
+      });
+    });
+
+    it("should store the server's numbers for a reproduced replay", async () => {
+      const pack = await repository.createWordPack(
+        {
+          title: 'Orchard',
+          description: null,
+          lang: 'en',
+          tags: [],
+          levelMin: 1,
+          levelMax: 3,
+          combatProfile: null,
+          createdBy: null,
+        },
+        ['apple', 'bread', 'cloud', 'dance', 'eagle', 'forest'].map(
+          (text, index) => ({
+            text,
+            level: [1, 1, 2, 2, 2, 3][index],
+            category: null,
+            pronunciation: null,
+            meaning: null,
+          })
+        )
+      );
+      const { body: created } = await createSession(contextFor(USER_ID), {
+        packId: pack.id,
+        difficulty: 'NORMAL',
+        durationSec: 180,
+      });
+
+      // Play a few words at a human pace with the server's seed and words
+      const adapter = new HeadlessAdapter({ clock: new ManualClock(0) });
+      const recorder = new ReplayRecorder(adapter);
+      await adapter.mount(null, {
+        width: 800,
+        height: 600,
+        difficulty: 'NORMAL',
+        packId: pack.id,
+        sessionId: created.sessionId,
+        durationSec: created.durationSec,
+      });
+      await adapter.start({
+        sessionId: created.sessionId,
+        packId: pack.id,
+        difficulty: 'NORMAL',
+        words: toSessionWords(await repository.listWords(pack.id)),
+        rngSeed: created.rngSeed,
+        combatProfile: created.combatProfile,
+        skills: created.skills,
+        playerStats: created.playerStats,
+        reviewSchedule: created.reviewSchedule,
+        keystrokeProfile: created.keystrokeProfile,
+      });
+      for (let i = 0; i < 3; i++) {
+        const { attack, guard } = adapter.getState().currentWords;
+        for (const key of Array.from((guard ?? attack).text)) {
+          adapter.advanceTime(180);
+          await adapter.processKeystroke(key);
+        }
+        adapter.advanceTime(500);
+      }
+      const stats = adapter.getState().stats;
+      const replay = recorder.getReplay();
+      recorder.detach();
+      adapter.destroy();
+
+      const claimed = {
+        wpm: stats.wpm + 0.4,
+        acc: stats.accuracy,
+        comboMax: stats.maxCombo,
+        atkCount: stats.attackCount,
+        healCount: stats.healCount,
+        guardRate: 0,
+        damage: Math.round(stats.totalDamage) + 3,
+        damageTaken: Math.round(stats.damageTaken),
+      };
+      await endSession(contextFor(USER_ID), {
+        sessionId: created.sessionId,
+        result: 'ABORT',
+        durationSec: Math.max(1, Math.round(replay.durationMs / 1000)),
+        stats: claimed,
+        replay,
+      });
+
+      const session = await repository.findSession(created.sessionId);
+      expect(session?.riskFlags).not.toContain('unverified');
+      expect(session?.stats).toEqual({
+        ...claimed,
+        wpm: stats.wpm,
+        damage: Math.round(stats.totalDamage),
+      });
+    });
+
+    it('should store HIGH risk for an impossible reported WPM', async () => {
+      const sessionId = await startSession(null);
+      const body = endBody(sessionId);
+
+      const result = await endSession(asGuest(sessionId), {
+        ...body,
+        stats: { ...body.stats, wpm: 420 },
+      });
+
+      expect(result.body.riskLevel).toBe('HIGH');
+      expect((await repository.findSession(sessionId))?.riskFlags).toEqual([
+        'impossible_speed',
+      ]);
+    });
+
+    it('should reject a replay without an rngSeed', async () => {
+      const sessionId = await startSession(null);
+      const replay = {
+        version: 1,
+        recordedAt: '2025-08-24T10:37:00.000Z',
+        config: {
+          width: 800,
+          height: 600,
+          difficulty: 'NORMAL',
+          packId: PACK_ID,
+          sessionId,
+          durationSec: 60,
+        },
+        sessionSeed: {
+          sessionId,
+          packId: PACK_ID,
+          difficulty: 'NORMAL',
+          words: [{ id: WORD_ID, text: 'dragon', level: 2, length: 6 }],
+        },
+        keystrokes: [],
+        markers: [],
+        durationMs: 1000,
+      };
+
+      const error = (await endSession(
+        asGuest(sessionId),
+        endBody(sessionId, { replay })
+      ).catch(e => e)) as ApiError;
+
+      expect(error.status).toBe(400);
+      expect(error.details).toEqual({
+        field: 'replay.sessionSeed.rngSeed',
+        constraint: 'required',
+      });
+    });
+
+    it('should reject a replay longer than any battle', async () => {
+      const sessionId = await startSession(null);
+      const replay = {
+        version: 1,
+        recordedAt: '2025-08-24T10:37:00.000Z',
+        config: {
+          width: 800,
+          height: 600,
+          difficulty: 'NORMAL',
+          packId: PACK_ID,
+          sessionId,
+          durationSec: 600,
+        },
+        sessionSeed: {
+          sessionId,
+          packId: PACK_ID,
+          difficulty: 'NORMAL',
+          words: [{ id: WORD_ID, text: 'dragon', level: 2, length: 6 }],
+          rngSeed: 1,
+        },
+        keystrokes: [],
+        markers: [],
+        durationMs: 1e12,
+      };
+
+      const error = (await endSession(
+        asGuest(sessionId),
+        endBody(sessionId, { replay })
+      ).catch(e => e)) as ApiError;
+
+      expect(error.status).toBe(400);
+      expect(error.details).toMatchObject({
+        field: 'replay.durationMs',
+        constraint: 'maximum',
+      });
+    });
+
+    it('should reject replays with malformed entries as bad requests', async () => {
+      const sessionId = await startSession(null);
+      const replay = {
+        version: 1,
+        recordedAt: '2025-08-24T10:37:00.000Z',
+        config: {
+          width: 800,
+          height: 600,
+          difficulty: 'NORMAL',
+          packId: PACK_ID,
+          sessionId,
+          durationSec: 60,
+        },
+        sessionSeed: {
+          sessionId,
+          packId: PACK_ID,
+          difficulty: 'NORMAL',
+          words: [{ id: WORD_ID, text: 'dragon', level: 2, length: 6 }],
+          rngSeed: 1,
+        },
+        keystrokes: [],
+        markers: [],
+        durationMs: 1000,
+      };
+      const malformed = [
+        { ...replay, keystrokes: [null] },
+        { ...replay, keystrokes: [1] },
+        { ...replay, markers: [null] },
+        {
+          ...replay,
+          sessionSeed: {
+            ...replay.sessionSeed,
+            words: [{ text: 'dragon', level: 2, length: 6 }],
+          },
+        },
+      ];
+
+      for (const body of malformed) {
+        const error = (await endSession(
+          asGuest(sessionId),
+          endBody(sessionId, { replay: body })
+        ).catch(e => e)) as ApiError;
+
+        expect(error.status).toBe(400);
+        expect(error.details).toMatchObject({
+          field: 'replay',
+          constraint: 'format',
+        });
+      }
+    });
+
+    it('should refuse to end a session twice', async () => {
+      const sessionId = await startSession(null);
+      await endSession(asGuest(sessionId), endBody(sessionId));
+
+      await expectApiError(
+        endSession(asGuest(sessionId), endBody(sessionId)),
+        403,
+        'Session has already ended'
+      );
+    });
+
+    it('should refuse attempts after the session ended', async () => {
+      const sessionId = await startSession(null);
+      await endSession(
+        asGuest(sessionId),
+        endBody(sessionId, { result: 'ABORT' })
+      );
+
+      await expectApiError(
+        recordAttempt(asGuest(sessionId), attemptBody(sessionId)),
+        403,
+        'Session has already ended'
+      );
+    });
+
+    it('should return 403 for another user session', async () => {
+      const sessionId = await startSession(USER_ID);
+
+      await expectApiError(
+        endSession(contextFor(OTHER_USER_ID), endBody(sessionId)),
+        403,
+        'Cannot access session belonging to another user'
+      );
+    });
+  });
+
+  describe('getSessionReport', () => {
+    const breakdown = ['Base damage (L2, 6 chars): 12.0', 'Final damage: 45'];
+
+    const playSession = async (userId: string | null) => {
+      const sessionId = await startSession(userId);
+      const context = userId ? contextFor(userId) : asGuest(sessionId);
+      await recordAttempt(context, attemptBody(sessionId, { breakdown }));
+      await recordAttempt(
+        context,
+        attemptBody(sessionId, {
+          type: 'HEAL',
+          ms: 4800,
+          errors: 2,
+          accuracy: 0.75,
+          score: 20,
+        })
+      );
+      await endSession(context, endBody(sessionId));
+      return sessionId;
+    };
+
+    it('should report the stored stats and every attempt', async () => {
+      const sessionId = await playSession(USER_ID);
+
+      const result = await getSessionReport(contextFor(USER_ID), sessionId);
+
+      expect(result.status).toBe(200);
+      expect(result.body.riskLevel).toBe('MEDIUM');
+      expect(result.body.report).toMatchObject({
+        sessionId,
+        result: 'WIN',
+        durationSec: 420,
+        accuracy: 0.92,
+        averageWpm: 28.5,
+        longestCombo: 15,
+        attackCount: 12,
+        healCount: 3,
+        damageDealt: 480,
+        damageTaken: 120,
+        guardSuccessRate: 0.8,
+        suggestion: 'Review the words you missed: dragon',
+      });
+      expect(result.body.report.words).toEqual([
+        {
+          text: 'dragon',
+          type: 'ATTACK',
+          timeMs: 2400,
+          errors: 0,
+          accuracy: 1,
+          wpm: 30,
+          value: 45,
+          critical: false,
+          breakdown,
+        },
+        expect.objectContaining({ type: 'HEAL', errors: 2, breakdown: [] }),
+      ]);
+      expect(result.body.report.slowestWords[0].type).toBe('HEAL');
+      expect(result.body.report.mostMissedWords).toHaveLength(1);
+    });
+
+    it('should let the guest token holder read a guest session', async () => {
+      const sessionId = await playSession(null);
+
+      const result = await getSessionReport(asGuest(sessionId), sessionId);
+
+      expect(result.body.report.words).toHaveLength(2);
+      await expectApiError(
+        getSessionReport(contextFor(USER_ID), sessionId),
+        403,
+        'Guest token is missing or invalid'
+      );
+    });
+
+    it('should refuse another user session', async () => {
+      const sessionId = await playSession(USER_ID);
+
+      await expectApiError(
+        getSessionReport(contextFor(OTHER_USER_ID), sessionId),
+        403,
+        'Cannot access session belonging to another user'
+      );
+      await expectApiError(
+        getSessionReport(contextFor(null), sessionId),
+        401,
+        'Authentication required for this operation'
+      );
+    });
+
+    it('should refuse a session that has not ended', async () => {
+      const sessionId = await startSession(null);
+
+      await expectApiError(
+        getSessionReport(asGuest(sessionId), sessionId),
+        403,
+        'Session has not ended yet'
+      );
+    });
+
+    it('should reject an invalid session id', async () => {
+      await expectApiError(
+        getSessionReport(contextFor(null), 'not-a-uuid'),
+        400,
+        'Invalid UUID format'
+      );
+    });
+  });
+
+  describe('claimGuestSessions', () => {
+    const claimFor = (
+      sessionId: string,
+      guestToken = signGuestToken(sessionId)
+    ) => ({
+      sessionId,
+      guestToken,
+    });
+
+    it('should move guest sessions and their attempts to the user', async () => {
+      const sessionId = await startSession(null);
+      await recordAttempt(asGuest(sessionId), attemptBody(sessionId));
+
+      const result = await claimGuestSessions(contextFor(USER_ID), {
+        sessions: [claimFor(sessionId)],
+      });
+
+      expect(result.status).toBe(200);
+      expect(result.body).toEqual({
+        claimed: [sessionId],
+        skipped: [],
+        message: 'Guest sessions claimed',
+      });
+      expect((await repository.findSession(sessionId))?.userId).toBe(USER_ID);
+      expect(await repository.listAttempts(sessionId)).toHaveLength(1);
+
+      await endSession(contextFor(USER_ID), endBody(sessionId));
+      await expectApiError(
+        getSessionReport(asGuest(sessionId), sessionId),
+        401,
+        'Authentication required for this operation'
+      );
+    });
+
+    it('should skip forged tokens and sessions that cannot be claimed', async () => {
+      const guestSessionId = await startSession(null);
+      const claimedSessionId = await startSession(null);
+      const userSessionId = await startSession(OTHER_USER_ID);
+      await claimGuestSessions(contextFor(OTHER_USER_ID), {
+        sessions: [claimFor(claimedSessionId)],
+      });
+
+      const result = await claimGuestSessions(contextFor(USER_ID), {
+        sessions: [
+          claimFor(guestSessionId, signGuestToken(claimedSessionId)),
+          claimFor(claimedSessionId),
+          claimFor(userSessionId),
+          claimFor('00000000-0000-4000-8000-000000000000'),
+        ],
+      });
+
+      expect(result.body.claimed).toEqual([]);
+      expect(result.body.skipped).toEqual([
+        { sessionId: guestSessionId, reason: 'INVALID_TOKEN' },
+        { sessionId: claimedSessionId, reason: 'NOT_CLAIMABLE' },
+        { sessionId: userSessionId, reason: 'NOT_CLAIMABLE' },
+        {
+          sessionId: '00000000-0000-4000-8000-000000000000',
+          reason: 'NOT_CLAIMABLE',
+        },
+      ]);
+      expect((await repository.findSession(guestSessionId))?.userId).toBeNull();
+      expect((await repository.findSession(claimedSessionId))?.userId).toBe(
+        OTHER_USER_ID
+      );
+    });
+
+    it('should require a signed-in user', async () => {
+      const sessionId = await startSession(null);
+
+      await expectApiError(
+        claimGuestSessions(asGuest(sessionId), {
+          sessions: [claimFor(sessionId)],
+        }),
+        401,
+        'Authentication required for this operation'
+      );
+    });
+  });
+
+  describe('getDashboard', () => {
+    const playSession = async (
+      userId: string,
+      result: 'WIN' | 'LOSE',
+      packId = PACK_ID
+    ) => {
+      const { body } = await createSession(contextFor(userId), {
+        packId,
+        difficulty: 'NORMAL',
+      });
+      await endSession(contextFor(userId), endBody(body.sessionId, { result }));
+      return body.sessionId;
+    };
+
+    it("should aggregate the learner's ended sessions", async () => {
+      await playSession(USER_ID, 'WIN');
+      clock.advance(60_000);
+      await playSession(USER_ID, 'LOSE', OTHER_PACK_ID);
+      clock.advance(60_000);
+      const latest = await playSession(USER_ID, 'WIN');
+      await startSession(USER_ID); // Still open
+      await playSession(OTHER_USER_ID, 'WIN');
+
+      const result = await getDashboard(
+        contextFor(USER_ID),
+        new URLSearchParams('weeks=4')
+      );
+
+      expect(result.status).toBe(200);
+      expect(result.body.totals).toMatchObject({
+        sessions: 3,
+        wins: 2,
+        averageWpm: 28.5,
+        timePlayedSec: 1260,
+      });
+      expect(result.body.weeks).toHaveLength(4);
+      expect(result.body.weeks[3]).toMatchObject({
+        weekStart: '2025-08-18',
+        sessions: 3,
+      });
+      expect(
+        result.body.packs.map(pack => [pack.packTitle, pack.winRate])
+      ).toEqual([
+        ['NGSL', 1],
+        ['TOEIC', 0],
+      ]);
+      expect(result.body.recentSessions[0].sessionId).toBe(latest);
+    });
+
+    it('should require a signed-in learner', async () => {
+      await expectApiError(
+        getDashboard(contextFor(null), new URLSearchParams()),
+        401,
+        'Authentication required for this operation'
+      );
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    const THIRD_USER_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a13';
+
+    // Ends the session as verified; the handlers only rate replayed
+    // sessions LOW
+    const playRanked = async (
+      userId: string | null,
+      stats: { damage: number; acc?: number },
+      riskLevel: 'LOW' | 'MEDIUM' = 'LOW'
+    ) => {
+      const sessionId = await startSession(userId);
+      await repository.endSession(sessionId, {
+        endedAt: new Date(clock.now()).toISOString(),
+        durationSec: 60,
+        result: 'WIN',
+        stats: { wpm: 30, acc: 0.95, ...stats },
+        riskLevel,
+        riskFlags: [],
+      });
+      return sessionId;
+    };
+
+    const query = (params: string) =>
+      new URLSearchParams(`packId=${PACK_ID}&difficulty=NORMAL&${params}`);
+
+    it("should rank each player's best verified session", async () => {
+      await playRanked(USER_ID, { damage: 100 });
+      const best = await playRanked(USER_ID, { damage: 150 });
+      await playRanked(OTHER_USER_ID, { damage: 120 });
+      await playRanked(OTHER_USER_ID, { damage: 500 }, 'MEDIUM');
+      await playRanked(THIRD_USER_ID, { damage: 900, acc: 0.8 });
+      await playRanked(null, { damage: 900 });
+
+      const result = await getLeaderboard(contextFor(null), query(''));
+
+      expect(result.status).toBe(200);
+      expect(result.body).toMatchObject({
+        window: 'weekly',
+        since: '2025-08-18T00:00:00.000Z',
+        total: 2,
+        viewer: null,
+      });
+      expect(
+        result.body.entries.map(entry => [entry.rank, entry.score])
+      ).toEqual([
+        [1, 150],
+        [2, 120],
+      ]);
+      expect(result.body.entries[0]).toEqual({
+        rank: 1,
+        displayName: null,
+        sessionId: best,
+        score: 150,
+        accuracy: 0.95,
+        wpm: 30,
+        damage: 150,
+        durationSec: 60,
+        endedAt: '2025-08-24T10:30:00.000Z',
+      });
+    });
+
+    it('should only count sessions in the window', async () => {
+      await playRanked(USER_ID, { damage: 300 });
+      clock.advance(24 * 60 * 60 * 1000); // Monday
+      await playRanked(OTHER_USER_ID, { damage: 100 });
+
+      const ranked = async (window: string) => {
+        const { body } = await getLeaderboard(
+          contextFor(null),
+          query(`window=${window}`)
+        );
+        return body.entries.map(entry => entry.score);
+      };
+
+      expect(await ranked('daily')).toEqual([100]);
+      expect(await ranked('weekly')).toEqual([100]);
+      expect(await ranked('all-time')).toEqual([300, 100]);
+    });
+
+    it("should page the entries and include the viewer's own", async () => {
+      await playRanked(USER_ID, { damage: 100 });
+      await playRanked(OTHER_USER_ID, { damage: 200 });
+      await playRanked(THIRD_USER_ID, { damage: 300 });
+
+      const result = await getLeaderboard(
+        contextFor(USER_ID),
+        query('page=2&pageSize=2')
+      );
+
+      expect(result.body).toMatchObject({ page: 2, pageSize: 2, total: 3 });
+      expect(result.body.entries.map(entry => entry.rank)).toEqual([3]);
+      expect(result.body.viewer).toMatchObject({ rank: 3, score: 100 });
+    });
+
+    it('should reject an unknown window', async () => {
+      await expectApiError(
+        getLeaderboard(contextFor(null), query('window=monthly')),
+        400,
+        'Invalid leaderboard window'
+      );
+    });
+  });
+
+  describe('importWordPack', () => {
+    const importBody = (overrides = {}) => ({
+      format: 'csv',
+      content:
+        'text,level,category\ndragon,2,NGSL\nknight,3,NGSL\nDragon,1,NGSL\n',
+      pack: { title: 'Fantasy', tags: ['rpg'] },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      process.env.ADMIN_USER_IDS = `a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a13, ${USER_ID}`;
+    });
+
+    afterEach(() => {
+      delete process.env.ADMIN_USER_IDS;
+    });
+
+    it('should import a valid pack for an admin', async () => {
+      const result = await importWordPack(contextFor(USER_ID), importBody());
+
+      expect(result.status).toBe(201);
+      expect(result.body.report.summary).toMatchObject({
+        accepted: 2,
+        duplicates: 1,
+      });
+
+      const packId = result.body.packId as string;
+      expect(await repository.findWordPack(packId)).toMatchObject({
+        title: 'Fantasy',
+        isActive: true,
+      });
+      expect(
+        (await repository.listWords(packId)).map(word => word.text).sort()
+      ).toEqual(['dragon', 'knight']);
+    });
+
+    it('should return the report without importing on a dry run', async () => {
+      const result = await importWordPack(
+        contextFor(USER_ID),
+        importBody({ dryRun: true })
+      );
+
+      expect(result.status).toBe(200);
+      expect(result.body.packId).toBeNull();
+      expect(result.body.report.valid).toBe(true);
+    });
+
+    it('should reject a pack with invalid lines and include the report', async () => {
+      const error = (await importWordPack(
+        contextFor(USER_ID),
+        importBody({ content: 'dragon,2\nknight,9\n' })
+      ).catch(e => e)) as ApiError;
+
+      expect(error.status).toBe(400);
+      expect(error.message).toBe('Word pack has invalid lines');
+      expect(error.details?.report).toMatchObject({
+        lines: [
+          { line: 1, status: 'ok' },
+          { line: 2, status: 'invalid' },
+        ],
+      });
+    });
+
+    it('should take the title from a JSON pack', async () => {
+      const result = await importWordPack(contextFor(USER_ID), {
+        format: 'json',
+        content: JSON.stringify({
+          title: 'Business',
+          words: [{ text: 'invoice', level: 3 }],
+        }),
+      });
+
+      expect(
+        await repository.findWordPack(result.body.packId as string)
+      ).toMatchObject({ title: 'Business' });
+    });
+
+    it('should require a title', async () => {
+      const error = (await importWordPack(
+        contextFor(USER_ID),
+        importBody({ pack: {} })
+      ).catch(e => e)) as ApiError;
+
+      expect(error.details).toEqual({
+        field: 'pack.title',
+        constraint: 'required',
+      });
+    });
+
+    it('should only allow admins', async () => {
+      await expectApiError(
+        importWordPack(contextFor(null), importBody()),
+        401,
+        'Authentication required for this operation'
+      );
+      await expectApiError(
+        importWordPack(contextFor(OTHER_USER_ID), importBody()),
+        403,
+        'Admin access required'
+      );
+    });
+  });
+});
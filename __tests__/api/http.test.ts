@@ -0,0 +1,246 @@
+/**
+ * @jest-environment node
+ */
+import { createSession } from '@/lib/api/handlers';
+import { ApiDependencies, handleApiRequest } from '@/lib/api/http';
+import { InMemoryGameRepository } from '@/lib/api/repository/InMemoryGameRepository';
+import type { ApiContext } from '@/lib/api/types';
+import { ManualClock } from '@/lib/game/utils/clock';
+
+describe('handleApiRequest', () => {
+  const PACK_ID = '550e8400-e29b-41d4-a716-446655440000';
+  const USER_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+  let repository: InMemoryGameRepository;
+  let dependencies: ApiDependencies;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    new Request('http://localhost:3000/api/session', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  beforeAll(() => {
+    process.env.GUEST_TOKEN_SECRET = 'test-guest-token-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.GUEST_TOKEN_SECRET;
+  });
+
+  beforeEach(() => {
+    repository = new InMemoryGameRepository({
+      wordPacks: [{ id: PACK_ID, title: 'NGSL', isActive: true }],
+    });
+    dependencies = {
+      authenticate: jest.fn(async (token: string) =>
+        token === 'valid-token' ? USER_ID : null
+      ),
+      createRepository: jest.fn(() => repository),
+      clock: new ManualClock(Date.parse('2025-08-24T10:30:00Z')),
+    };
+  });
+
+  it('should create a guest session without an Authorization header', async () => {
+    const response = await handleApiRequest(
+      post({ packId: PACK_ID, difficulty: 'EASY' }),
+      createSession,
+      dependencies
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(dependencies.authenticate).not.toHaveBeenCalled();
+    expect((await repository.findSession(body.sessionId))?.userId).toBeNull();
+  });
+
+  it('should resolve the user from a bearer token', async () => {
+    const response = await handleApiRequest(
+      post(
+        { packId: PACK_ID, difficulty: 'HARD' },
+        { authorization: 'Bearer valid-token' }
+      ),
+      createSession,
+      dependencies
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect((await repository.findSession(body.sessionId))?.userId).toBe(
+      USER_ID
+    );
+  });
+
+  it('should return 401 for an invalid token', async () => {
+    const response = await handleApiRequest(
+      post(
+        { packId: PACK_ID, difficulty: 'HARD' },
+        { authorization: 'Bearer expired-token' }
+      ),
+      createSession,
+      dependencies
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: 'UNAUTHORIZED',
+      message: 'Invalid or expired authentication token',
+      timestamp: '2025-08-24T10:30:00.000Z',
+    });
+  });
+
+  it('should return 400 for a body that is not JSON', async () => {
+    const response = await handleApiRequest(
+      post('{not json'),
+      createSession,
+      dependencies
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({
+      field: 'body',
+      constraint: 'format',
+    });
+  });
+
+  it('should not read a body for GET requests', async () => {
+    const handler = jest.fn(async (_context: unknown, body: unknown) => ({
+      status: 200,
+      body: { received: body ?? null },
+    }));
+
+    const response = await handleApiRequest(
+      new Request('http://localhost:3000/api/session/some-id'),
+      handler,
+      dependencies
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: null });
+  });
+
+  it('should pass the guest token to the handler and the repository', async () => {
+    const handler = jest.fn(async (context: ApiContext) => ({
+      status: 200,
+      body: { guestToken: context.guestToken },
+    }));
+
+    const response = await handleApiRequest(
+      new Request('http://localhost:3000/api/session/some-id', {
+        headers: { 'x-guest-token': 'guest-token' },
+      }),
+      handler,
+      dependencies
+    );
+
+    expect(await response.json()).toEqual({ guestToken: 'guest-token' });
+    expect(dependencies.createRepository).toHaveBeenCalledWith(
+      null,
+      'guest-token'
+    );
+  });
+
+  it('should return the stored response when a request is retried', async () => {
+    const headers = { 'idempotency-key': 'key-1' };
+
+    const first = await handleApiRequest(
+      post({ packId: PACK_ID, difficulty: 'EASY' }, headers),
+      createSession,
+      dependencies
+    );
+    const retried = await handleApiRequest(
+      post({ packId: PACK_ID, difficulty: 'EASY' }, headers),
+      createSession,
+      dependencies
+    );
+
+    expect(retried.status).toBe(201);
+    expect(retried.headers.get('idempotent-replayed')).toBe('true');
+    expect(await retried.json()).toEqual(await first.json());
+    expect(first.headers.get('idempotent-replayed')).toBeNull();
+  });
+
+  it('should run a request again when its first attempt failed', async () => {
+    const headers = { 'idempotency-key': 'key-2' };
+
+    const failed = await handleApiRequest(
+      post({ packId: PACK_ID }, headers),
+      createSession,
+      dependencies
+    );
+    const retried = await handleApiRequest(
+      post({ packId: PACK_ID, difficulty: 'EASY' }, headers),
+      createSession,
+      dependencies
+    );
+
+    expect(failed.status).toBe(400);
+    expect(retried.status).toBe(201);
+  });
+
+  it('should reject a key used by another user', async () => {
+    await handleApiRequest(
+      post(
+        { packId: PACK_ID, difficulty: 'EASY' },
+        { 'idempotency-key': 'key-3' }
+      ),
+      createSession,
+      dependencies
+    );
+
+    const response = await handleApiRequest(
+      post(
+        { packId: PACK_ID, difficulty: 'EASY' },
+        { 'idempotency-key': 'key-3', authorization: 'Bearer valid-token' }
+      ),
+      createSession,
+      dependencies
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({
+      field: 'Idempotency-Key',
+      constraint: 'unique',
+    });
+  });
+
+  it('should reject a malformed idempotency key', async () => {
+    const response = await handleApiRequest(
+      post(
+        { packId: PACK_ID, difficulty: 'EASY' },
+        { 'idempotency-key': 'x'.repeat(256) }
+      ),
+      createSession,
+      dependencies
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toMatchObject({
+      field: 'Idempotency-Key',
+      constraint: 'format',
+    });
+  });
+
+  it('should hide unexpected errors behind a 500', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest
+      .spyOn(repository, 'findWordPack')
+      .mockRejectedValue(new Error('connection refused'));
+
+    const response = await handleApiRequest(
+      post({ packId: PACK_ID, difficulty: 'EASY' }),
+      createSession,
+      dependencies
+    );
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      error: 'INTERNAL_SERVER_ERROR',
+      message: 'An unexpected error occurred',
+      timestamp: '2025-08-24T10:30:00.000Z',
+    });
+
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  calculateLeaderboardScore,
+  getLeaderboardWindowStart,
+  rankLeaderboard,
+  toLeaderboardScore,
+} from '@/lib/api/leaderboard';
+import type { LeaderboardScoreRecord, SessionRecord } from '@/lib/api/types';
+
+describe('leaderboard', () => {
+  // Wednesday
+  const NOW = Date.parse('2025-09-03T12:00:00Z');
+
+  const session = (updates: Partial<SessionRecord> = {}): SessionRecord => ({
+    id: 'session-1',
+    userId: 'user-1',
+    packId: 'pack-1',
+    difficulty: 'NORMAL',
+    settings: { ranked: true },
+    startedAt: '2025-09-03T11:50:00Z',
+    endedAt: '2025-09-03T11:55:00Z',
+    durationSec: 300,
+    result: 'WIN',
+    stats: { wpm: 30, acc: 0.95, damage: 500 },
+    riskLevel: 'LOW',
+    riskFlags: [],
+    ...updates,
+  });
+
+  const score = (
+    userId: string,
+    value: number,
+    endedAt: string
+  ): LeaderboardScoreRecord => ({
+    sessionId: `${userId}-${endedAt}`,
+    userId,
+    packId: 'pack-1',
+    difficulty: 'NORMAL',
+    endedAt,
+    score: value,
+    damage: value,
+    durationSec: 60,
+    accuracy: 0.95,
+    wpm: 30,
+  });
+
+  describe('calculateLeaderboardScore', () => {
+    it('should score damage per minute to two decimals', () => {
+      expect(calculateLeaderboardScore(500, 300)).toBe(100);
+      expect(calculateLeaderboardScore(100, 7)).toBe(857.14);
+      expect(calculateLeaderboardScore(100, 0)).toBe(0);
+    });
+  });
+
+  describe('toLeaderboardScore', () => {
+    it("should score a signed-in player's verified session", () => {
+      expect(toLeaderboardScore(session())).toMatchObject({
+        sessionId: 'session-1',
+        userId: 'user-1',
+        score: 100,
+        accuracy: 0.95,
+        wpm: 30,
+      });
+    });
+
+    it('should leave out sessions that do not qualify', () => {
+      expect(toLeaderboardScore(session({ userId: null }))).toBeNull();
+      expect(toLeaderboardScore(session({ endedAt: null }))).toBeNull();
+      expect(toLeaderboardScore(session({ riskLevel: 'MEDIUM' }))).toBeNull();
+      expect(
+        toLeaderboardScore(session({ settings: { ranked: false } }))
+      ).toBeNull();
+      expect(toLeaderboardScore(session({ settings: {} }))).toBeNull();
+      expect(
+        toLeaderboardScore(session({ stats: { acc: 0.89, damage: 500 } }))
+      ).toBeNull();
+      expect(toLeaderboardScore(session({ stats: { acc: 1 } }))).toBeNull();
+    });
+  });
+
+  describe('getLeaderboardWindowStart', () => {
+    it('should start days at midnight and weeks on Monday, UTC', () => {
+      expect(getLeaderboardWindowStart('daily', NOW)).toBe(
+        '2025-09-03T00:00:00.000Z'
+      );
+      expect(getLeaderboardWindowStart('weekly', NOW)).toBe(
+        '2025-09-01T00:00:00.000Z'
+      );
+      expect(getLeaderboardWindowStart('all-time', NOW)).toBeNull();
+    });
+  });
+
+  describe('rankLeaderboard', () => {
+    it("should rank each player's best score", () => {
+      const ranked = rankLeaderboard([
+        score('user-1', 80, '2025-09-01T10:00:00Z'),
+        score('user-2', 90, '2025-09-01T11:00:00Z'),
+        score('user-1', 120, '2025-09-02T10:00:00Z'),
+      ]);
+
+      expect(ranked.map(entry => [entry.rank, entry.userId])).toEqual([
+        [1, 'user-1'],
+        [2, 'user-2'],
+      ]);
+      expect(ranked[0].score).toBe(120);
+    });
+
+    it('should share ranks on ties and list the earlier score first', () => {
+      const ranked = rankLeaderboard([
+        score('user-1', 90, '2025-09-02T10:00:00Z'),
+        score('user-2', 90, '2025-09-01T10:00:00Z'),
+        score('user-3', 70, '2025-09-01T09:00:00Z'),
+      ]);
+
+      expect(ranked.map(entry => [entry.rank, entry.userId])).toEqual([
+        [1, 'user-2'],
+        [1, 'user-1'],
+        [3, 'user-3'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * @jest-environment node
+ */
+import {
+  assessUnverifiedSession,
+  isImpossibleAttempt,
+  MAX_REPLAY_PAUSE_MS,
+  SessionClaim,
+  verifySession,
+} from '@/lib/api/sessionVerification';
+import type { SessionRecord, SessionStats } from '@/lib/api/types';
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { ReplayRecorder } from '@/lib/game/replay/ReplayRecorder';
+import { TOWER_CAMPAIGN } from '@/lib/game/utils/campaign';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type { PlayerStats, SessionReplay, Word } from '@/lib/game/types';
+
+describe('sessionVerification', () => {
+  const SESSION_ID = '123e4567-e89b-12d3-a456-426614174000';
+  const PACK_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+  const words: Word[] = [
+    { id: '1', text: 'apple', level: 1, length: 5 },
+    { id: '2', text: 'bread', level: 1, length: 5 },
+    { id: '3', text: 'cloud', level: 2, length: 5 },
+    { id: '4', text: 'dance', level: 2, length: 5 },
+    { id: '5', text: 'eagle', level: 2, length: 5 },
+    { id: '6', text: 'forest', level: 3, length: 6 },
+    { id: '7', text: 'garden', level: 1, length: 6 },
+    { id: '8', text: 'honey', level: 1, length: 5 },
+    { id: '9', text: 'island', level: 2, length: 6 },
+    { id: '10', text: 'jungle', level: 3, length: 6 },
+  ];
+
+  const session: SessionRecord = {
+    id: SESSION_ID,
+    userId: null,
+    packId: PACK_ID,
+    difficulty: 'NORMAL',
+    startedAt: '2025-08-24T10:30:00.000Z',
+    endedAt: null,
+    durationSec: null,
+    result: null,
+    stats: {},
+    settings: { durationSec: 20, rngSeed: 8080 },
+    riskLevel: null,
+    riskFlags: [],
+  };
+
+  const playerStats = (level: number): PlayerStats => ({
+    level,
+    experience: 0,
+    averageWPM: 0,
+    averageAccuracy: 0,
+    gamesPlayed: 0,
+    gamesWon: 0,
+  });
+
+  // Plays a short human-paced session and returns its replay and true stats
+  const recordSession = async (learnerStats?: PlayerStats) => {
+    const adapter = new HeadlessAdapter({ clock: new ManualClock(5_000) });
+    const recorder = new ReplayRecorder(adapter);
+
+    await adapter.mount(null, {
+      width: 800,
+      height: 600,
+      difficulty: 'NORMAL',
+      packId: PACK_ID,
+      sessionId: SESSION_ID,
+      durationSec: 20,
+    });
+    await adapter.start({
+      sessionId: SESSION_ID,
+      packId: PACK_ID,
+      difficulty: 'NORMAL',
+      words,
+      rngSeed: 8080,
+      playerStats: learnerStats,
+    });
+
+    for (let i = 0; i < 4 && adapter.isRunning(); i++) {
+      const { attack, guard } = adapter.getState().currentWords;
+      const target = guard ?? attack;
+      for (const [index, key] of Array.from(target.text).entries()) {
+        adapter.advanceTime(140 + ((index * 37 + i * 53) % 90));
+        await adapter.processKeystroke(key);
+      }
+      adapter.advanceTime(600);
+    }
+    adapter.advanceTime(20_000);
+
+    const stats = adapter.getState().stats;
+    const claimedStats: SessionStats = {
+      wpm: stats.wpm,
+      acc: stats.accuracy,
+      comboMax: stats.maxCombo,
+      atkCount: stats.attackCount,
+      healCount: stats.healCount,
+      guardRate: 0,
+      damage: stats.totalDamage,
+      damageTaken: stats.damageTaken,
+    };
+    const replay = recorder.getReplay();
+    const { result, duration } = adapter.getSessionResult()!;
+
+    recorder.detach();
+    adapter.destroy();
+    return { replay, claimedStats, result, durationSec: duration };
+  };
+
+  const claimFor = (
+    stats: SessionStats,
+    result: SessionClaim['result']
+  ): SessionClaim => ({
+    session,
+    result,
+    durationSec: recorded.durationSec,
+    stats,
+    attempts: [],
+  });
+
+  let recorded: {
+    replay: SessionReplay;
+    claimedStats: SessionStats;
+    result: SessionClaim['result'];
+    durationSec: number;
+  };
+
+  beforeEach(async () => {
+    recorded = await recordSession();
+  });
+
+  describe('verifySession', () => {
+    it('should accept stats that the replay reproduces', async () => {
+      const verification = await verifySession(
+        recorded.replay,
+        claimFor(recorded.claimedStats, recorded.result),
+        words
+      );
+
+      expect(verification.reproduced).toBe(true);
+      expect(verification.riskLevel).not.toBe('HIGH');
+    });
+
+    it("should report the server's own numbers for a reproduced session", async () => {
+      const verification = await verifySession(
+        recorded.replay,
+        claimFor(
+          {
+            ...recorded.claimedStats,
+            damage: recorded.claimedStats.damage + 3,
+            wpm: recorded.claimedStats.wpm + 0.4,
+          },
+          recorded.result
+        ),
+        words
+      );
+
+      expect(verification.reproduced).toBe(true);
+      expect(verification.replayed).toEqual({
+        durationSec: recorded.durationSec,
+        stats: {
+          ...recorded.claimedStats,
+          damage: Math.round(recorded.claimedStats.damage),
+          damageTaken: Math.round(recorded.claimedStats.damageTaken),
+        },
+      });
+    });
+
+    it('should flag inflated damage as HIGH risk', async () => {
+      const verification = await verifySession(
+        recorded.replay,
+        claimFor(
+          {
+            ...recorded.claimedStats,
+            damage: recorded.claimedStats.damage + 500,
+          },
+          recorded.result
+        ),
+        words
+      );
+
+      expect(verification.riskLevel).toBe('HIGH');
+      expect(verification.reproduced).toBe(false);
+      expect(verification.flags).toContain('damage_mismatch');
+    });
+
+    it('should flag accuracy, speed and max combo the replay does not reach', async () => {
+      const verification = await verifySession(
+        recorded.replay,
+        claimFor(
+          {
+            ...recorded.claimedStats,
+            acc: recorded.claimedStats.acc - 0.2,
+            wpm: recorded.claimedStats.wpm + 20,
+            comboMax: recorded.claimedStats.comboMax + 5,
+          },
+          recorded.result
+        ),
+        words
+      );
+
+      expect(verification.flags).toEqual(
+        expect.arrayContaining([
+          'accuracy_mismatch',
+          'wpm_mismatch',
+          'combo_mismatch',
+        ])
+      );
+    });
+
+    it('should flag a claimed duration the replay does not last', async () => {
+      const verification = await verifySession(
+        recorded.replay,
+        {
+          ...claimFor(recorded.claimedStats, recorded.result),
+          durationSec: recorded.durationSec + 30,
+        },
+        words
+      );
+
+      expect(verification.riskLevel).toBe('HIGH');
+      expect(verification.flags).toContain('duration_mismatch');
+    });
+
+    it('should reject a replay played without the skills snapshotted at session start', async () => {
+      const verification = await verifySession(
+        recorded.replay,
+        {
+          ...claimFor(recorded.claimedStats, recorded.result),
+          session: {
+            ...session,
+            settings: { ...session.settings, skills: ['keen-edge'] },
+          },
+        },
+        words
+      );
+
+      expect(verification.flags).toEqual(['replay_session_mismatch']);
+    });
+
+    it('should replay with the player stats stored for the session', async () => {
+      const leveled = await recordSession(playerStats(3));
+      const verification = await verifySession(
+        leveled.replay,
+        {
+          ...claimFor(leveled.claimedStats, leveled.result),
+          durationSec: leveled.durationSec,
+          session: {
+            ...session,
+            settings: { ...session.settings, playerStats: playerStats(3) },
+          },
+        },
+        words
+      );
+
+      expect(verification.reproduced).toBe(true);
+      expect(verification.riskLevel).not.toBe('HIGH');
+    });
+
+    it('should reject a replay played at a level the session was not started with', async () => {
+      const forged = await recordSession(playerStats(500));
+      const verification = await verifySession(
+        forged.replay,
+        {
+          ...claimFor(forged.claimedStats, forged.result),
+          durationSec: forged.durationSec,
+          session: {
+            ...session,
+            settings: { ...session.settings, playerStats: playerStats(1) },
+          },
+        },
+        words
+      );
+
+      expect(verification).toEqual({
+        riskLevel: 'HIGH',
+        flags: ['replay_session_mismatch'],
+        reproduced: false,
+      });
+    });
+
+    it('should reject a replay played with a campaign the session did not start', async () => {
+      const verification = await verifySession(
+        {
+          ...recorded.replay,
+          sessionSeed: {
+            ...recorded.replay.sessionSeed,
+            campaign: TOWER_CAMPAIGN,
+          },
+        },
+        claimFor(recorded.claimedStats, recorded.result),
+        words
+      );
+
+      expect(verification.flags).toEqual(['replay_session_mismatch']);
+    });
+
+    it('should flag a claimed win the replay does not reach', async () => {
+      const verification = await verifySession(
+        recorded.replay,
+        claimFor(
+          recorded.claimedStats,
+          recorded.result === 'WIN' ? 'LOSE' : 'WIN'
+        ),
+        words
+      );
+
+      expect(verification.flags).toContain('result_mismatch');
+    });
+
+    it('should reject a replay recorded for another session', async () => {
+      const verification = await verifySession(
+        {
+          ...recorded.replay,
+          sessionSeed: { ...recorded.replay.sessionSeed, sessionId: 'other' },
+        },
+        claimFor(recorded.claimedStats, recorded.result),
+        words
+      );
+
+      expect(verification).toEqual({
+        riskLevel: 'HIGH',
+        flags: ['replay_session_mismatch'],
+        reproduced: false,
+      });
+    });
+
+    it('should reject a replay played with another seed', async () => {
+      const verification = await verifySession(
+        {
+          ...recorded.replay,
+          sessionSeed: { ...recorded.replay.sessionSeed, rngSeed: 1 },
+        },
+        claimFor(recorded.claimedStats, recorded.result),
+        words
+      );
+
+      expect(verification.flags).toEqual(['replay_session_mismatch']);
+    });
+
+    it('should not verify a session the server gave no seed', async () => {
+      const verification = await verifySession(
+        recorded.replay,
+        {
+          ...claimFor(recorded.claimedStats, recorded.result),
+          session: { ...session, settings: { durationSec: 20 } },
+        },
+        words
+      );
+
+      expect(verification).toEqual({
+        riskLevel: 'MEDIUM',
+        flags: ['unverified'],
+        reproduced: false,
+      });
+    });
+
+    it('should reject a replay played with words from outside the pack', async () => {
+      const verification = await verifySession(
+        {
+          ...recorded.replay,
+          sessionSeed: {
+            ...recorded.replay.sessionSeed,
+            words: words.map(word => ({ ...word, text: 'a', length: 1 })),
+          },
+        },
+        claimFor(recorded.claimedStats, recorded.result),
+        words
+      );
+
+      expect(verification.flags).toEqual(['replay_session_mismatch']);
+    });
+
+    it('should replay with the battle length stored for the session', async () => {
+      const verification = await verifySession(
+        {
+          ...recorded.replay,
+          config: { ...recorded.replay.config, durationSec: 600 },
+        },
+        claimFor(recorded.claimedStats, recorded.result),
+        words
+      );
+
+      expect(verification.reproduced).toBe(true);
+    });
+
+    it('should refuse a replay longer than the battle before playing it', async () => {
+      const tooLong: SessionReplay = {
+        ...recorded.replay,
+        durationMs: 20_000 + MAX_REPLAY_PAUSE_MS + 1,
+      };
+      const lateKeystroke: SessionReplay = {
+        ...recorded.replay,
+        keystrokes: [
+          ...recorded.replay.keystrokes,
+          {
+            key: 'a',
+            timestamp: recorded.replay.durationMs + 1,
+            inputLength: 1,
+            isCorrection: false,
+          },
+        ],
+      };
+
+      for (const replay of [tooLong, lateKeystroke]) {
+        const verification = await verifySession(
+          replay,
+          claimFor(recorded.claimedStats, recorded.result),
+          words
+        );
+
+        expect(verification.flags).toEqual(['replay_out_of_bounds']);
+      }
+    });
+
+    it('should flag keystrokes replayed at inhuman speed', async () => {
+      const squashed: SessionReplay = {
+        ...recorded.replay,
+        keystrokes: recorded.replay.keystrokes.map((keystroke, index) => ({
+          ...keystroke,
+          timestamp: 1000 + index * 10,
+        })),
+      };
+
+      const verification = await verifySession(
+        squashed,
+        claimFor(recorded.claimedStats, recorded.result),
+        words
+      );
+
+      expect(verification.riskLevel).toBe('HIGH');
+    });
+  });
+
+  describe('assessUnverifiedSession', () => {
+    it('should mark sessions without a replay as MEDIUM risk', () => {
+      expect(
+        assessUnverifiedSession(claimFor(recorded.claimedStats, 'WIN'))
+      ).toEqual({
+        riskLevel: 'MEDIUM',
+        flags: ['unverified'],
+        reproduced: false,
+      });
+    });
+
+    it('should mark an impossible average WPM as HIGH risk', () => {
+      const verification = assessUnverifiedSession(
+        claimFor({ ...recorded.claimedStats, wpm: 400 }, 'WIN')
+      );
+
+      expect(verification.riskLevel).toBe('HIGH');
+      expect(verification.flags).toEqual(['impossible_speed']);
+    });
+  });
+
+  describe('isImpossibleAttempt', () => {
+    it('should accept a fast but human attempt', () => {
+      expect(isImpossibleAttempt('dragon', 600)).toBe(false);
+    });
+
+    it('should reject attempts below the minimum time per character', () => {
+      expect(isImpossibleAttempt('dragon', 120)).toBe(true);
+    });
+  });
+});
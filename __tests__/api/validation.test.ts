@@ -0,0 +1,397 @@
+import { ApiError } from '@/lib/api/errors';
+import {
+  MAX_BATCH_ATTEMPTS,
+  MAX_GUEST_CLAIMS,
+  validateAttemptBatchItem,
+  validateClaimGuestSessionsRequest,
+  validateCreateSessionRequest,
+  validateDashboardQuery,
+  validateEndSessionRequest,
+  validateLeaderboardQuery,
+  validateRecordAttemptBatchRequest,
+  validateRecordAttemptRequest,
+} from '@/lib/api/validation';
+
+describe('API validation', () => {
+  const SESSION_ID = '123e4567-e89b-12d3-a456-426614174000';
+  const WORD_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  const detailsOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ApiError);
+      return (error as ApiError).details;
+    }
+    throw new Error('Expected validation to fail');
+  };
+
+  describe('validateCreateSessionRequest', () => {
+    it('should accept the documented example', () => {
+      const request = validateCreateSessionRequest({
+        packId: '550e8400-e29b-41d4-a716-446655440000',
+        difficulty: 'NORMAL',
+        settingsSnapshot: {
+          theme: 'dark',
+          fontSize: 16,
+          soundEnabled: true,
+          accessibilityMode: false,
+          customFlag: 'kept',
+        },
+      });
+
+      expect(request.difficulty).toBe('NORMAL');
+      expect(request.settingsSnapshot?.customFlag).toBe('kept');
+    });
+
+    it('should report a malformed packId', () => {
+      expect(
+        detailsOf(() =>
+          validateCreateSessionRequest({
+            packId: 'invalid-uuid',
+            difficulty: 'EASY',
+          })
+        )
+      ).toEqual({
+        field: 'packId',
+        constraint: 'format',
+        received: 'invalid-uuid',
+      });
+    });
+
+    it('should enforce the settings fontSize range', () => {
+      expect(
+        detailsOf(() =>
+          validateCreateSessionRequest({
+            packId: '550e8400-e29b-41d4-a716-446655440000',
+            difficulty: 'EASY',
+            settingsSnapshot: { fontSize: 30 },
+          })
+        )
+      ).toEqual({
+        field: 'settingsSnapshot.fontSize',
+        constraint: 'maximum',
+        received: 30,
+      });
+    });
+
+    it('should accept a skill loadout', () => {
+      const request = validateCreateSessionRequest({
+        packId: '550e8400-e29b-41d4-a716-446655440000',
+        difficulty: 'EASY',
+        skills: ['keen-edge', 'auto-guard'],
+      });
+
+      expect(request.skills).toEqual(['keen-edge', 'auto-guard']);
+    });
+
+    it('should report an invalid skill loadout', () => {
+      expect(
+        detailsOf(() =>
+          validateCreateSessionRequest({
+            packId: '550e8400-e29b-41d4-a716-446655440000',
+            difficulty: 'EASY',
+            skills: ['keen-edge', 'fireball'],
+          })
+        )
+      ).toEqual({ field: 'skills', constraint: 'skills' });
+    });
+
+    it('should reject a non-object body', () => {
+      expect(detailsOf(() => validateCreateSessionRequest([]))).toMatchObject({
+        field: 'body',
+        constraint: 'type',
+      });
+    });
+  });
+
+  describe('validateRecordAttemptRequest', () => {
+    const attempt = {
+      sessionId: SESSION_ID,
+      type: 'GUARD',
+      wordId: WORD_ID,
+      targetText: "don't stop",
+      ms: 1800,
+      accuracy: 0.83,
+      score: 30,
+    };
+
+    it('should accept an attempt and apply defaults', () => {
+      expect(validateRecordAttemptRequest(attempt)).toEqual({
+        ...attempt,
+        errors: 0,
+        combo: 0,
+      });
+    });
+
+    it('should accept a combat breakdown of strings', () => {
+      expect(
+        validateRecordAttemptRequest({
+          ...attempt,
+          breakdown: ['Base damage (L1, 3 chars): 11.5'],
+        }).breakdown
+      ).toEqual(['Base damage (L1, 3 chars): 11.5']);
+      expect(
+        detailsOf(() =>
+          validateRecordAttemptRequest({ ...attempt, breakdown: [42] })
+        )
+      ).toMatchObject({ field: 'breakdown[0]', constraint: 'type' });
+    });
+
+    it('should report the missing field', () => {
+      const body: Record<string, unknown> = { ...attempt };
+      delete body.sessionId;
+
+      expect(detailsOf(() => validateRecordAttemptRequest(body))).toEqual({
+        field: 'sessionId',
+        constraint: 'required',
+      });
+    });
+
+    it('should reject unsupported characters in targetText', () => {
+      expect(
+        detailsOf(() =>
+          validateRecordAttemptRequest({ ...attempt, targetText: 'drag0n' })
+        )
+      ).toMatchObject({ field: 'targetText', constraint: 'pattern' });
+    });
+
+    it('should enforce ms bounds and integers', () => {
+      expect(
+        detailsOf(() => validateRecordAttemptRequest({ ...attempt, ms: 0 }))
+      ).toMatchObject({ field: 'ms', constraint: 'minimum' });
+      expect(
+        detailsOf(() => validateRecordAttemptRequest({ ...attempt, ms: 12.5 }))
+      ).toMatchObject({ field: 'ms', constraint: 'type' });
+    });
+
+    it('should keep accuracy within 0-1', () => {
+      expect(
+        detailsOf(() =>
+          validateRecordAttemptRequest({ ...attempt, accuracy: 1.2 })
+        )
+      ).toMatchObject({ field: 'accuracy', constraint: 'maximum' });
+    });
+  });
+
+  describe('validateRecordAttemptBatchRequest', () => {
+    const item = {
+      clientAttemptId: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+      type: 'ATTACK',
+      wordId: WORD_ID,
+      targetText: 'dragon',
+      ms: 2400,
+      accuracy: 1,
+      score: 45,
+    };
+
+    it('should accept a batch and leave its items to be checked one by one', () => {
+      expect(
+        validateRecordAttemptBatchRequest({
+          sessionId: SESSION_ID,
+          attempts: [item, 'not an attempt'],
+        })
+      ).toEqual({ sessionId: SESSION_ID, attempts: [item, 'not an attempt'] });
+    });
+
+    it('should limit the number of attempts', () => {
+      expect(
+        detailsOf(() =>
+          validateRecordAttemptBatchRequest({
+            sessionId: SESSION_ID,
+            attempts: [],
+          })
+        )
+      ).toEqual({ field: 'attempts', constraint: 'length' });
+      expect(
+        detailsOf(() =>
+          validateRecordAttemptBatchRequest({
+            sessionId: SESSION_ID,
+            attempts: Array(MAX_BATCH_ATTEMPTS + 1).fill(item),
+          })
+        )
+      ).toEqual({ field: 'attempts', constraint: 'length' });
+    });
+
+    it('should validate an item and name its fields by index', () => {
+      expect(validateAttemptBatchItem(item, 0)).toEqual({
+        ...item,
+        errors: 0,
+        combo: 0,
+      });
+      expect(
+        detailsOf(() => validateAttemptBatchItem({ ...item, ms: 0 }, 3))
+      ).toMatchObject({ field: 'attempts[3].ms', constraint: 'minimum' });
+      expect(
+        detailsOf(() =>
+          validateAttemptBatchItem({ ...item, clientAttemptId: undefined }, 1)
+        )
+      ).toEqual({
+        field: 'attempts[1].clientAttemptId',
+        constraint: 'required',
+      });
+    });
+  });
+
+  describe('validateEndSessionRequest', () => {
+    const stats = {
+      wpm: 18.2,
+      acc: 0.75,
+      comboMax: 5,
+      atkCount: 8,
+      healCount: 2,
+      guardRate: 0.4,
+      damage: 200,
+      damageTaken: 350,
+    };
+
+    it('should accept a complete request', () => {
+      const request = validateEndSessionRequest({
+        sessionId: SESSION_ID,
+        result: 'LOSE',
+        durationSec: 180,
+        stats,
+      });
+
+      expect(request.stats).toEqual(stats);
+    });
+
+    it('should report nested stats fields', () => {
+      const partial: Record<string, unknown> = { ...stats };
+      delete partial.guardRate;
+
+      expect(
+        detailsOf(() =>
+          validateEndSessionRequest({
+            sessionId: SESSION_ID,
+            result: 'LOSE',
+            durationSec: 180,
+            stats: partial,
+          })
+        )
+      ).toEqual({ field: 'stats.guardRate', constraint: 'required' });
+    });
+
+    it('should reject an unknown result', () => {
+      expect(
+        detailsOf(() =>
+          validateEndSessionRequest({
+            sessionId: SESSION_ID,
+            result: 'DRAW',
+            durationSec: 180,
+            stats,
+          })
+        )
+      ).toMatchObject({ field: 'result', constraint: 'enum' });
+    });
+  });
+
+  describe('validateClaimGuestSessionsRequest', () => {
+    const claim = { sessionId: SESSION_ID, guestToken: 'signed-token' };
+
+    it('should accept sessions with their guest tokens', () => {
+      expect(validateClaimGuestSessionsRequest({ sessions: [claim] })).toEqual({
+        sessions: [claim],
+      });
+    });
+
+    it('should limit the number of sessions and name bad fields by index', () => {
+      expect(
+        detailsOf(() =>
+          validateClaimGuestSessionsRequest({
+            sessions: Array(MAX_GUEST_CLAIMS + 1).fill(claim),
+          })
+        )
+      ).toEqual({ field: 'sessions', constraint: 'length' });
+      expect(
+        detailsOf(() =>
+          validateClaimGuestSessionsRequest({
+            sessions: [claim, { sessionId: 'not-a-uuid', guestToken: 'x' }],
+          })
+        )
+      ).toEqual({
+        field: 'sessions[1].sessionId',
+        constraint: 'format',
+        received: 'not-a-uuid',
+      });
+      expect(
+        detailsOf(() =>
+          validateClaimGuestSessionsRequest({
+            sessions: [{ sessionId: SESSION_ID }],
+          })
+        )
+      ).toEqual({ field: 'sessions[0].guestToken', constraint: 'required' });
+    });
+  });
+
+  describe('validateDashboardQuery', () => {
+    it('should default to twelve weeks', () => {
+      expect(validateDashboardQuery(new URLSearchParams())).toEqual({
+        weeks: 12,
+      });
+      expect(validateDashboardQuery(new URLSearchParams('weeks=4'))).toEqual({
+        weeks: 4,
+      });
+    });
+
+    it('should reject weeks that are not a whole number in range', () => {
+      expect(
+        detailsOf(() => validateDashboardQuery(new URLSearchParams('weeks=x')))
+      ).toMatchObject({ field: 'weeks', constraint: 'type' });
+      expect(
+        detailsOf(() =>
+          validateDashboardQuery(new URLSearchParams('weeks=1.5'))
+        )
+      ).toMatchObject({ field: 'weeks', constraint: 'type' });
+      expect(
+        detailsOf(() => validateDashboardQuery(new URLSearchParams('weeks=53')))
+      ).toMatchObject({ field: 'weeks', constraint: 'maximum' });
+    });
+  });
+
+  describe('validateLeaderboardQuery', () => {
+    const PACK_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+    it('should default to the first page of the weekly board', () => {
+      expect(
+        validateLeaderboardQuery(
+          new URLSearchParams(`packId=${PACK_ID}&difficulty=HARD`)
+        )
+      ).toEqual({
+        packId: PACK_ID,
+        difficulty: 'HARD',
+        window: 'weekly',
+        page: 1,
+        pageSize: 20,
+      });
+    });
+
+    it('should reject a missing pack or difficulty', () => {
+      expect(
+        detailsOf(() =>
+          validateLeaderboardQuery(new URLSearchParams('difficulty=HARD'))
+        )
+      ).toMatchObject({ field: 'packId' });
+      expect(
+        detailsOf(() =>
+          validateLeaderboardQuery(new URLSearchParams(`packId=${PACK_ID}`))
+        )
+      ).toMatchObject({ field: 'difficulty' });
+    });
+
+    it('should reject an unknown window and pages out of range', () => {
+      const query = (params: string) =>
+        new URLSearchParams(`packId=${PACK_ID}&difficulty=EASY&${params}`);
+
+      expect(
+        detailsOf(() => validateLeaderboardQuery(query('window=monthly')))
+      ).toMatchObject({ field: 'window' });
+      expect(
+        detailsOf(() => validateLeaderboardQuery(query('page=0')))
+      ).toMatchObject({ field: 'page', constraint: 'minimum' });
+      expect(
+        detailsOf(() => validateLeaderboardQuery(query('pageSize=101')))
+      ).toMatchObject({ field: 'pageSize', constraint: 'maximum' });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import BattleSetup from '@/components/game/BattleSetup';
+import { SKILLS } from '@/lib/game/skills/skills';
+import { TOWER_CAMPAIGN } from '@/lib/game/utils/campaign';
+
+describe('BattleSetup', () => {
+  it('should start a word battle by default', () => {
+    const onStart = jest.fn();
+    render(<BattleSetup onStart={onStart} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start battle' }));
+
+    expect(onStart).toHaveBeenCalledWith({
+      promptMode: 'WORD',
+      skills: [],
+      adaptiveDifficulty: false,
+    });
+  });
+
+  it('should start a phrase battle once phrases are chosen', () => {
+    const onStart = jest.fn();
+    render(<BattleSetup onStart={onStart} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Phrases' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Start battle' }));
+
+    expect(screen.getByRole('button', { name: 'Phrases' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(onStart).toHaveBeenCalledWith({
+      promptMode: 'PHRASE',
+      skills: [],
+      adaptiveDifficulty: false,
+    });
+  });
+
+  it('should start the chosen campaign and list its stages', () => {
+    const onStart = jest.fn();
+    render(<BattleSetup onStart={onStart} />);
+
+    fireEvent.click(screen.getByRole('button', { name: TOWER_CAMPAIGN.name }));
+    fireEvent.click(screen.getByRole('button', { name: 'Start battle' }));
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(
+      TOWER_CAMPAIGN.stages.length
+    );
+    expect(onStart).toHaveBeenCalledWith({
+      promptMode: 'WORD',
+      campaign: TOWER_CAMPAIGN,
+      skills: [],
+      adaptiveDifficulty: false,
+    });
+  });
+
+  it('should equip at most three skills', () => {
+    const onStart = jest.fn();
+    render(<BattleSetup onStart={onStart} />);
+    const checkbox = (id: keyof typeof SKILLS) =>
+      screen.getByRole('checkbox', { name: new RegExp(SKILLS[id].name) });
+
+    fireEvent.click(checkbox('keen-edge'));
+    fireEvent.click(checkbox('heal-boost'));
+    fireEvent.click(checkbox('power-strike'));
+
+    expect(checkbox('auto-guard')).toBeDisabled();
+    expect(
+      screen.getByText('Battles with skills are not ranked')
+    ).toBeVisible();
+
+    fireEvent.click(checkbox('heal-boost'));
+    fireEvent.click(checkbox('auto-guard'));
+    fireEvent.click(screen.getByRole('button', { name: 'Start battle' }));
+
+    expect(onStart).toHaveBeenCalledWith({
+      promptMode: 'WORD',
+      skills: ['keen-edge', 'power-strike', 'auto-guard'],
+      adaptiveDifficulty: false,
+    });
+  });
+
+  it('should start with adaptive difficulty once it is turned on', () => {
+    const onStart = jest.fn();
+    render(<BattleSetup onStart={onStart} />);
+
+    fireEvent.click(
+      screen.getByRole('checkbox', { name: 'Adaptive difficulty' })
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Start battle' }));
+
+    expect(onStart).toHaveBeenCalledWith(
+      expect.objectContaining({ adaptiveDifficulty: true })
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { render, screen } from '@testing-library/react';
+import SessionReportView from '@/components/results/SessionReportView';
+import type { DifficultyEstimate, SessionReport } from '@/lib/game/types';
+
+describe('SessionReportView', () => {
+  const createReport = (difficulty?: DifficultyEstimate): SessionReport => ({
+    sessionId: 'report-session',
+    result: 'WIN',
+    durationSec: 125,
+    accuracy: 0.95,
+    averageWpm: 42,
+    longestCombo: 12,
+    attackCount: 10,
+    healCount: 2,
+    damageDealt: 300,
+    damageTaken: 40,
+    guardSuccessRate: 0.5,
+    words: [],
+    slowestWords: [],
+    mostMissedWords: [],
+    suggestion: 'Keep it up',
+    difficulty,
+  });
+
+  const difficulty: DifficultyEstimate = {
+    levelShift: 1,
+    lengthShift: 0,
+    wpm: 48,
+    accuracy: 0.97,
+    averageWordTimeMs: 900,
+    sampleSize: 8,
+    reasons: ['Speed is steady'],
+    adjustments: [
+      {
+        direction: 'UP',
+        wordsCompleted: 8,
+        levelShift: 1,
+        reasons: ['Accuracy above 95%', 'Speed above 45 WPM'],
+      },
+    ],
+  };
+
+  it('should explain each adaptive difficulty change', () => {
+    render(<SessionReportView report={createReport(difficulty)} />);
+
+    expect(screen.getByText('Adaptive difficulty')).toBeInTheDocument();
+    expect(screen.getByText('Harder after 8 words')).toBeInTheDocument();
+    expect(screen.getByText('Accuracy above 95%')).toBeInTheDocument();
+    expect(screen.getByText('Speed above 45 WPM')).toBeInTheDocument();
+    expect(screen.getByText('Last check: Speed is steady')).toBeInTheDocument();
+  });
+
+  it('should say the difficulty was kept when nothing changed', () => {
+    render(
+      <SessionReportView
+        report={createReport({ ...difficulty, adjustments: [] })}
+      />
+    );
+
+    expect(screen.getByText('Kept the same difficulty')).toBeInTheDocument();
+  });
+
+  it('should leave adaptive difficulty out of reports played without it', () => {
+    render(<SessionReportView report={createReport()} />);
+
+    expect(screen.queryByText('Adaptive difficulty')).not.toBeInTheDocument();
+  });
+});
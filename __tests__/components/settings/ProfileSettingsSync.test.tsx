@@ -0,0 +1,81 @@
+import { render, waitFor } from '@testing-library/react';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import ProfileSettingsSync from '@/components/settings/ProfileSettingsSync';
+import {
+  getGameSettings,
+  settingsStore,
+} from '@/lib/game/settings/settingsStore';
+import { createBrowserSupabaseClient } from '@/lib/supabase/client';
+import { DEFAULT_GAME_SETTINGS } from '@/lib/game/utils/settings';
+
+jest.mock('../../../lib/supabase/client', () => ({
+  createBrowserSupabaseClient: jest.fn(),
+}));
+
+const mockCreateClient = jest.mocked(createBrowserSupabaseClient);
+
+// A client signed in as the given user whose profile holds the given settings
+function createClient(userId: string | null, settings: object) {
+  const query = {
+    select: jest.fn().mockReturnThis(),
+    eq: jest.fn().mockReturnThis(),
+    maybeSingle: jest.fn().mockResolvedValue({
+      data: { settings },
+      error: null,
+    }),
+    upsert: jest.fn().mockResolvedValue({ error: null }),
+  };
+
+  return {
+    auth: {
+      getUser: jest.fn().mockResolvedValue({
+        data: { user: userId ? { id: userId } : null },
+      }),
+    },
+    from: jest.fn().mockReturnValue(query),
+  };
+}
+
+describe('ProfileSettingsSync', () => {
+  beforeEach(() => {
+    settingsStore.getState().replaceSettings(DEFAULT_GAME_SETTINGS);
+    mockCreateClient.mockReset();
+  });
+
+  it('should apply the profile settings without visiting /settings', async () => {
+    const client = createClient('player-1', {
+      ...DEFAULT_GAME_SETTINGS,
+      battleLength: 10,
+      keyboardLayout: 'azerty',
+    });
+    mockCreateClient.mockReturnValue(client as unknown as SupabaseClient);
+
+    const { unmount } = render(<ProfileSettingsSync />);
+
+    await waitFor(() =>
+      expect(getGameSettings(settingsStore.getState())).toEqual({
+        ...DEFAULT_GAME_SETTINGS,
+        battleLength: 10,
+        keyboardLayout: 'azerty',
+      })
+    );
+    expect(client.from).toHaveBeenCalledWith('profiles');
+
+    unmount();
+  });
+
+  it('should leave a guest with their local settings', async () => {
+    const client = createClient(null, { battleLength: 10 });
+    mockCreateClient.mockReturnValue(client as unknown as SupabaseClient);
+
+    const { unmount } = render(<ProfileSettingsSync />);
+
+    await waitFor(() => expect(client.auth.getUser).toHaveBeenCalled());
+    expect(client.from).not.toHaveBeenCalled();
+    expect(getGameSettings(settingsStore.getState())).toEqual(
+      DEFAULT_GAME_SETTINGS
+    );
+
+    unmount();
+  });
+});
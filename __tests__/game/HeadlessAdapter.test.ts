@@ -0,0 +1,987 @@
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type {
+  Campaign,
+  EnemyAbility,
+  EnemyBehaviour,
+  EnemyDefinition,
+  GameConfig,
+  SessionSeed,
+  StageState,
+  Word,
+} from '@/lib/game/types';
+
+describe('HeadlessAdapter', () => {
+  let adapter: HeadlessAdapter;
+  let clock: ManualClock;
+  let config: GameConfig;
+  let sessionSeed: SessionSeed;
+
+  const words: Word[] = [
+    { id: '1', text: 'apple', level: 1, length: 5, category: 'basic' },
+    { id: '2', text: 'bread', level: 1, length: 5, category: 'basic' },
+    { id: '3', text: 'cloud', level: 2, length: 5, category: 'common' },
+    { id: '4', text: 'dance', level: 2, length: 5, category: 'common' },
+    { id: '5', text: 'eagle', level: 2, length: 5, category: 'common' },
+    { id: '6', text: 'forest', level: 3, length: 6, category: 'common' },
+    { id: '7', text: 'garden', level: 1, length: 6, category: 'basic' },
+    { id: '8', text: 'honey', level: 1, length: 5, category: 'basic' },
+    { id: '9', text: 'island', level: 2, length: 6, category: 'common' },
+    { id: '10', text: 'jungle', level: 3, length: 6, category: 'action' },
+    { id: '11', text: 'kettle', level: 2, length: 6, category: 'common' },
+    { id: '12', text: 'lemon', level: 1, length: 5, category: 'basic' },
+    { id: '13', text: 'mirror', level: 2, length: 6, category: 'common' },
+    { id: '14', text: 'noble', level: 3, length: 5, category: 'action' },
+    { id: '15', text: 'orange', level: 1, length: 6, category: 'basic' },
+    { id: '16', text: 'pencil', level: 2, length: 6, category: 'common' },
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    clock = new ManualClock(1_000_000);
+    adapter = new HeadlessAdapter({ clock });
+
+    config = {
+      width: 800,
+      height: 600,
+      difficulty: 'EASY',
+      packId: 'test-pack',
+      sessionId: 'test-session',
+      durationSec: 60,
+    };
+
+    sessionSeed = {
+      sessionId: 'test-session',
+      packId: 'test-pack',
+      difficulty: 'EASY',
+      words,
+    };
+  });
+
+  afterEach(() => {
+    adapter.destroy();
+    jest.restoreAllMocks();
+  });
+
+  const startSession = async () => {
+    await adapter.mount(null, config);
+    await adapter.start(sessionSeed);
+  };
+
+  describe('Lifecycle', () => {
+    it('should become READY after mount without a DOM element', async () => {
+      await adapter.mount(null, config);
+
+      expect(adapter.isMounted()).toBe(true);
+      expect(adapter.getState().status).toBe('READY');
+      expect(adapter.getState().timeLeft).toBe(60);
+    });
+
+    it('should refuse to start before mount', async () => {
+      await expect(adapter.start(sessionSeed)).rejects.toThrow(
+        'HeadlessAdapter: mount() must be called before start()'
+      );
+    });
+
+    it('should present attack and heal words when started', async () => {
+      await startSession();
+      const state = adapter.getState();
+
+      expect(state.status).toBe('PLAYING');
+      expect(adapter.isRunning()).toBe(true);
+      expect(state.currentWords.attack.text).not.toBe('');
+      expect(state.currentWords.heal.text).not.toBe('');
+    });
+
+    it('should notify state subscribers of every state change', async () => {
+      const subscriber = jest.fn();
+      adapter.subscribe(subscriber);
+
+      await startSession();
+
+      expect(subscriber).toHaveBeenCalled();
+      expect(subscriber.mock.calls.at(-1)[0].status).toBe('PLAYING');
+    });
+  });
+
+  describe('Typing', () => {
+    beforeEach(async () => {
+      await startSession();
+    });
+
+    it('should ignore keys that do not start an offered word', async () => {
+      const { attack, heal } = adapter.getState().currentWords;
+      const unused = 'zqxv'
+        .split('')
+        .find(
+          key => !attack.text.startsWith(key) && !heal.text.startsWith(key)
+        )!;
+
+      await adapter.processKeystroke(unused);
+
+      expect(adapter.getState().locked).toBeNull();
+      expect(adapter.getInputBuffer()).toBe('');
+    });
+
+    it('should lock the word the first key starts', async () => {
+      const wordStarted = jest.fn();
+      adapter.on('word-started', wordStarted);
+      const attack = adapter.getState().currentWords.attack;
+
+      await adapter.processKeystroke(attack.text[0]);
+
+      expect(adapter.getState().locked).toBe('attack');
+      expect(wordStarted).toHaveBeenCalledWith({
+        word: attack,
+        type: 'ATTACK',
+      });
+    });
+
+    it('should deal damage when the attack word is completed', async () => {
+      const damageDealt = jest.fn();
+      const wordCompleted = jest.fn();
+      adapter.on('damage-dealt', damageDealt);
+      adapter.on('word-completed', wordCompleted);
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+      const state = adapter.getState();
+
+      expect(damageDealt).toHaveBeenCalledTimes(1);
+      expect(wordCompleted).toHaveBeenCalledTimes(1);
+      expect(state.hp.enemy).toBeLessThan(100);
+      expect(state.stats.attackCount).toBe(1);
+      expect(state.stats.wordsCompleted).toBe(1);
+      expect(state.locked).toBeNull();
+      expect(state.round).toBe(2);
+      expect(adapter.getInputBuffer()).toBe('');
+    });
+
+    it('should measure typing speed with the injected clock', async () => {
+      const attack = adapter.getState().currentWords.attack;
+
+      await adapter.typeText(attack.text, 200);
+      const [attempt] = adapter.getAttempts();
+
+      // First key starts the timer, so n keys take (n - 1) intervals
+      expect(attempt.timeMs).toBe((attack.text.length - 1) * 200);
+      expect(adapter.getState().stats.wpm).toBe(attempt.wpm);
+    });
+
+    it('should emit combo changes as words are completed', async () => {
+      const comboChanged = jest.fn();
+      adapter.on('combo-changed', comboChanged);
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+
+      expect(comboChanged).toHaveBeenCalledWith({ oldCombo: 0, newCombo: 1 });
+      expect(adapter.getState().stats.maxCombo).toBe(1);
+    });
+
+    it('should complete a mistyped word on Enter', async () => {
+      const attack = adapter.getState().currentWords.attack;
+
+      await adapter.typeText(attack.text[0] + 'zz');
+      await adapter.processKeystroke('Enter');
+      const [attempt] = adapter.getAttempts();
+
+      expect(attempt.typedText).toBe(attack.text[0] + 'zz');
+      expect(attempt.accuracy).toBeLessThan(1);
+    });
+
+    it('should remove characters on Backspace', async () => {
+      const attack = adapter.getState().currentWords.attack;
+
+      await adapter.typeText(attack.text.slice(0, 2));
+      await adapter.processKeystroke('Backspace');
+
+      expect(adapter.getInputBuffer()).toBe(attack.text[0]);
+    });
+  });
+
+  describe('Phrase mode', () => {
+    const phrases: Word[] = [
+      {
+        id: 'p1',
+        text: "Don't panic!",
+        level: 1,
+        length: 12,
+        category: 'action',
+      },
+      {
+        id: 'p2',
+        text: 'Rest, then run.',
+        level: 1,
+        length: 15,
+        category: 'medical',
+      },
+      {
+        id: 'p3',
+        text: 'Hold the Line.',
+        level: 2,
+        length: 14,
+        category: 'defense',
+      },
+      {
+        id: 'p4',
+        text: 'Keep Calm now',
+        level: 2,
+        length: 13,
+        category: 'common',
+      },
+    ];
+
+    beforeEach(async () => {
+      await adapter.mount(null, config);
+      await adapter.start({
+        ...sessionSeed,
+        words: phrases,
+        promptMode: 'PHRASE',
+      });
+    });
+
+    it('should accept capitals, punctuation and apostrophes', async () => {
+      const attack = adapter.getState().currentWords.attack;
+      const damageDealt = jest.fn();
+      adapter.on('damage-dealt', damageDealt);
+
+      await adapter.typeText(attack.text);
+
+      expect(damageDealt).toHaveBeenCalledTimes(1);
+      expect(adapter.getAttempts()[0].typedText).toBe(attack.text);
+    });
+
+    it('should report progress word by word', async () => {
+      const attack = adapter.getState().currentWords.attack;
+      const typingProgress = jest.fn();
+      adapter.on('typing-progress', typingProgress);
+
+      const firstWord = attack.text.split(' ')[0];
+      await adapter.typeText(firstWord + ' ');
+
+      const { progress, input, type } = typingProgress.mock.calls.at(-1)[0];
+      expect(type).toBe('ATTACK');
+      expect(input).toBe(firstWord + ' ');
+      expect(progress.totalWords).toBe(attack.text.split(' ').length);
+      expect(progress.completedWords).toBe(1);
+      expect(progress.currentWordIndex).toBe(1);
+    });
+
+    it('should measure speed over the whole phrase', async () => {
+      const attack = adapter.getState().currentWords.attack;
+
+      await adapter.typeText(attack.text, 100);
+      const [attempt] = adapter.getAttempts();
+
+      expect(attempt.timeMs).toBe((attack.text.length - 1) * 100);
+    });
+  });
+
+  describe('Timer', () => {
+    beforeEach(async () => {
+      await startSession();
+    });
+
+    it('should count down as the clock advances', () => {
+      adapter.advanceTime(5_000);
+
+      expect(adapter.getState().timeLeft).toBe(55);
+    });
+
+    it('should freeze the countdown while paused', () => {
+      adapter.advanceTime(2_000);
+      adapter.pause();
+      adapter.advanceTime(10_000);
+      adapter.resume();
+      adapter.advanceTime(1_000);
+
+      expect(adapter.getState().timeLeft).toBe(57);
+    });
+
+    it('should ignore keystrokes while paused', async () => {
+      adapter.pause();
+      await adapter.processKeystroke(
+        adapter.getState().currentWords.attack.text[0]
+      );
+
+      expect(adapter.getState().locked).toBeNull();
+    });
+
+    it('should end the session when time runs out', () => {
+      const gameOver = jest.fn();
+      const sessionEnded = jest.fn();
+      adapter.on('game-over', gameOver);
+      adapter.on('session-ended', sessionEnded);
+
+      adapter.advanceTime(60_000);
+
+      expect(adapter.getState().status).toBe('ENDED');
+      expect(adapter.isRunning()).toBe(false);
+      expect(gameOver).toHaveBeenCalledWith(
+        expect.objectContaining({ result: 'LOSE' })
+      );
+      expect(sessionEnded).toHaveBeenCalledTimes(1);
+      expect(sessionEnded.mock.calls[0][0].sessionResult).toMatchObject({
+        sessionId: 'test-session',
+        result: 'LOSE',
+        duration: 60,
+        attempts: [],
+      });
+    });
+  });
+
+  describe('Enemy attacks', () => {
+    // EASY: attacks land every 6s after a 2.5s telegraph
+    beforeEach(async () => {
+      await startSession();
+    });
+
+    it('should open a guard window when the telegraph starts', () => {
+      const telegraph = jest.fn();
+      adapter.on('enemy-telegraph', telegraph);
+
+      adapter.advanceTime(3_400);
+      expect(adapter.getState().enemyAttack).toBeNull();
+      expect(adapter.getState().currentWords.guard).toBeUndefined();
+
+      adapter.advanceTime(100);
+      const state = adapter.getState();
+
+      expect(telegraph).toHaveBeenCalledTimes(1);
+      expect(state.enemyAttack).toMatchObject({
+        etaMs: 2_500,
+        telegraphMs: 2_500,
+      });
+      expect(state.enemyAttack!.damage).toBeGreaterThan(0);
+      expect(state.currentWords.guard).toEqual(state.enemyAttack!.guardWord);
+    });
+
+    it('should count down the ETA while the window is open', () => {
+      adapter.advanceTime(4_500);
+
+      expect(adapter.getState().enemyAttack?.etaMs).toBe(1_500);
+    });
+
+    it('should keep the guard word off the letters already on screen', () => {
+      adapter.advanceTime(3_500);
+      const { attack, heal, guard } = adapter.getState().currentWords;
+
+      expect(guard!.text[0]).not.toBe(attack.text[0]);
+      expect(guard!.text[0]).not.toBe(heal.text[0]);
+    });
+
+    it('should apply full damage when the attack is not guarded', () => {
+      const enemyAttack = jest.fn();
+      adapter.on('enemy-attack', enemyAttack);
+
+      adapter.advanceTime(3_500);
+      const { damage } = adapter.getState().enemyAttack!;
+      adapter.advanceTime(2_500);
+      const state = adapter.getState();
+
+      expect(enemyAttack).toHaveBeenCalledWith({
+        damage,
+        playerHp: 100 - damage,
+        guarded: false,
+      });
+      expect(state.hp.player).toBe(100 - damage);
+      expect(state.stats.damageTaken).toBe(damage);
+      expect(state.enemyAttack).toBeNull();
+      expect(state.currentWords.guard).toBeUndefined();
+    });
+
+    it('should drop a half-typed guard word when the attack lands', async () => {
+      adapter.advanceTime(3_500);
+      const guard = adapter.getState().currentWords.guard!;
+
+      await adapter.typeText(guard.text.slice(0, 2), 100);
+      expect(adapter.getState().locked).toBe('guard');
+
+      adapter.advanceTime(2_500);
+
+      expect(adapter.getState().locked).toBeNull();
+      expect(adapter.getInputBuffer()).toBe('');
+    });
+
+    it('should reduce damage when the guard word is typed in time', async () => {
+      const enemyAttack = jest.fn();
+      adapter.on('enemy-attack', enemyAttack);
+
+      adapter.advanceTime(3_500);
+      const { damage, guardWord } = adapter.getState().enemyAttack!;
+      await adapter.typeText(guardWord.text, 150);
+      const state = adapter.getState();
+
+      expect(enemyAttack).toHaveBeenCalledTimes(1);
+      expect(enemyAttack.mock.calls[0][0].guarded).toBe(true);
+      expect(state.hp.player).toBeGreaterThan(100 - damage);
+      expect(state.stats.guardCount).toBe(1);
+      expect(state.stats.damageBlocked).toBeGreaterThan(0);
+      expect(state.enemyAttack).toBeNull();
+
+      // The guarded attack does not land again when its window would close
+      adapter.advanceTime(2_000);
+      expect(enemyAttack).toHaveBeenCalledTimes(1);
+    });
+
+    it('should freeze the attack countdown while paused', () => {
+      adapter.advanceTime(4_000);
+      adapter.pause();
+      adapter.advanceTime(30_000);
+      adapter.resume();
+
+      expect(adapter.getState().hp.player).toBe(100);
+      expect(adapter.getState().enemyAttack?.etaMs).toBe(2_000);
+    });
+
+    it('should use an enemy attack override when one is given', async () => {
+      adapter.destroy();
+      adapter = new HeadlessAdapter({
+        clock,
+        enemyAttack: { damage: 100 },
+      });
+      const gameOver = jest.fn();
+      adapter.on('game-over', gameOver);
+
+      await startSession();
+      adapter.advanceTime(6_000);
+
+      expect(adapter.getState().hp.player).toBe(0);
+      expect(gameOver).toHaveBeenCalledWith(
+        expect.objectContaining({ result: 'LOSE' })
+      );
+    });
+  });
+
+  describe('Campaign', () => {
+    const createEnemy = (
+      id: string,
+      maxHp: number,
+      attackPower = 10
+    ): EnemyDefinition => ({
+      id,
+      name: id,
+      maxHp,
+      attackPower,
+      attackIntervalMs: 30000,
+      levelBias: 0,
+      categories: [],
+    });
+
+    const campaign: Campaign = {
+      id: 'test-campaign',
+      name: 'Test Campaign',
+      stages: [
+        { id: 'cellar', name: 'Cellar', enemy: createEnemy('rat', 20) },
+        { id: 'den', name: 'Den', enemy: createEnemy('wolf', 30, 20) },
+      ],
+    };
+
+    const defeatEnemy = async () => {
+      const stage = adapter.getState().stage?.index;
+      for (
+        let i = 0;
+        i < 20 &&
+        adapter.isRunning() &&
+        adapter.getState().stage?.index === stage;
+        i++
+      ) {
+        await adapter.typeText(adapter.getState().currentWords.attack.text);
+      }
+    };
+
+    beforeEach(() => {
+      sessionSeed = { ...sessionSeed, campaign };
+    });
+
+    it('should fight the default enemy without a campaign', async () => {
+      sessionSeed = { ...sessionSeed, campaign: undefined };
+      await startSession();
+
+      const state = adapter.getState();
+      expect(state.stage).toBeNull();
+      expect(state.enemy.id).toBe('enemy');
+      expect(state.hp.enemyMax).toBe(100);
+    });
+
+    it('should start on the first stage', async () => {
+      await startSession();
+
+      const state = adapter.getState();
+      expect(state.stage).toEqual({
+        campaignId: 'test-campaign',
+        index: 0,
+        total: 2,
+        id: 'cellar',
+        name: 'Cellar',
+      });
+      expect(state.enemy.id).toBe('rat');
+      expect(state.hp).toMatchObject({ enemy: 20, enemyMax: 20 });
+    });
+
+    it('should bring on the next enemy when one is defeated', async () => {
+      const cleared: { stage: StageState; nextStage: StageState }[] = [];
+      adapter.on('stage-cleared', data => cleared.push(data));
+      await startSession();
+
+      await defeatEnemy();
+
+      const state = adapter.getState();
+      expect(cleared).toHaveLength(1);
+      expect(cleared[0].stage.id).toBe('cellar');
+      expect(cleared[0].nextStage.id).toBe('den');
+      expect(state.status).toBe('PLAYING');
+      expect(state.enemy.id).toBe('wolf');
+      expect(state.hp).toMatchObject({ player: 100, enemy: 30, enemyMax: 30 });
+    });
+
+    it("should attack with the stage enemy's power", async () => {
+      await startSession();
+      await defeatEnemy();
+
+      const landed: number[] = [];
+      adapter.on('enemy-attack', ({ damage }) => landed.push(damage));
+      adapter.advanceTime(40000);
+
+      // 20 attack power scaled for EASY
+      expect(landed[0]).toBe(16);
+    });
+
+    it('should complete the campaign when the last enemy falls', async () => {
+      await startSession();
+      await defeatEnemy();
+      await defeatEnemy();
+
+      const result = adapter.getSessionResult();
+      expect(result?.result).toBe('WIN');
+      expect(result?.campaign).toEqual({
+        campaignId: 'test-campaign',
+        totalStages: 2,
+        stagesCleared: 2,
+        reachedStageId: 'den',
+        completed: true,
+      });
+    });
+
+    it('should record how far the run got when time runs out', async () => {
+      await startSession();
+      await defeatEnemy();
+      adapter.advanceTime(60000);
+
+      const result = adapter.getSessionResult();
+      expect(result?.result).toBe('LOSE');
+      expect(result?.campaign).toMatchObject({
+        stagesCleared: 1,
+        reachedStageId: 'den',
+        completed: false,
+      });
+    });
+
+    it('should reject an invalid campaign', async () => {
+      sessionSeed = { ...sessionSeed, campaign: { ...campaign, stages: [] } };
+      await adapter.mount(null, config);
+
+      await expect(adapter.start(sessionSeed)).rejects.toThrow(
+        'GameAdapter: Invalid campaign: stages must be a non-empty array'
+      );
+    });
+  });
+
+  describe('Enemy Behaviours', () => {
+    const fightEnemy = (behaviours: EnemyBehaviour[], maxHp = 100) => {
+      sessionSeed = {
+        ...sessionSeed,
+        campaign: {
+          id: 'behaviours',
+          name: 'Behaviours',
+          stages: [
+            {
+              id: 'arena',
+              name: 'Arena',
+              enemy: {
+                id: 'champion',
+                name: 'Champion',
+                maxHp,
+                attackPower: 10,
+                attackIntervalMs: 4500,
+                levelBias: 0,
+                categories: [],
+                behaviours,
+              },
+            },
+          ],
+        },
+      };
+      return startSession();
+    };
+
+    it('should enrage below the threshold and attack sooner', async () => {
+      const abilities: EnemyAbility[] = [];
+      adapter.on('enemy-ability', ({ ability }) => abilities.push(ability));
+      await fightEnemy(
+        [{ type: 'enrage', hpThreshold: 0.99, intervalMultiplier: 0.5 }],
+        500
+      );
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+
+      expect(adapter.getState().enemyStatus.enraged).toBe(true);
+      expect(abilities).toEqual([{ type: 'enrage', intervalMultiplier: 0.5 }]);
+      // 4500ms scaled for EASY, then halved
+      expect(adapter.getEnemyAttackScheduler()?.getProfile().intervalMs).toBe(
+        3000
+      );
+    });
+
+    it('should let short words deal only part of their damage', async () => {
+      const dealt: number[] = [];
+      adapter.on('damage-dealt', ({ damage }) => dealt.push(damage));
+      await fightEnemy([
+        { type: 'shield', minWordLength: 10, damageMultiplier: 0.5 },
+      ]);
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+
+      const { hp, stats } = adapter.getState();
+      expect(dealt).toHaveLength(1);
+      expect(100 - hp.enemy).toBe(dealt[0]);
+      expect(stats.totalDamage).toBe(dealt[0]);
+    });
+
+    it('should not bring the enemy back when the shield takes a lethal hit', async () => {
+      const ended: string[] = [];
+      adapter.on('game-over', ({ result }) => ended.push(result));
+      await fightEnemy(
+        [{ type: 'shield', minWordLength: 10, damageMultiplier: 0.5 }],
+        1
+      );
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+
+      expect(adapter.getState().hp.enemy).toBe(0);
+      expect(ended).toEqual(['WIN']);
+    });
+
+    it('should heal itself when it attacks', async () => {
+      await fightEnemy([{ type: 'regenerate', amount: 3 }]);
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+      const hurt = adapter.getState().hp.enemy;
+
+      adapter.advanceTime(6_000);
+
+      expect(adapter.getState().hp.player).toBeLessThan(100);
+      expect(adapter.getState().hp.enemy).toBe(hurt + 3);
+    });
+
+    it('should scramble the words for a moment after an attack', async () => {
+      await fightEnemy([{ type: 'scramble', durationMs: 1500 }]);
+      const startedAt = clock.now();
+
+      adapter.advanceTime(6_000);
+      expect(adapter.getState().enemyStatus.scrambledUntil).toBe(
+        startedAt + 7_500
+      );
+
+      adapter.advanceTime(2_000);
+      expect(adapter.getState().enemyStatus.scrambledUntil).toBeNull();
+    });
+  });
+
+  describe('Skills', () => {
+    it('should start with the equipped loadout', async () => {
+      sessionSeed = { ...sessionSeed, skills: ['keen-edge', 'power-strike'] };
+      await startSession();
+
+      expect(adapter.getState().skills).toEqual([
+        { id: 'keen-edge', charged: true },
+        { id: 'power-strike', charged: false },
+      ]);
+    });
+
+    it('should charge power strike with a perfect word and spend it on the next attack', async () => {
+      const events: string[] = [];
+      adapter.on('skill-charged', ({ skillId, trigger }) =>
+        events.push(`charged ${skillId} by ${trigger}`)
+      );
+      adapter.on('skill-used', ({ skillId, action }) =>
+        events.push(`used ${skillId} on ${action}`)
+      );
+      sessionSeed = { ...sessionSeed, skills: ['power-strike'] };
+      await startSession();
+
+      await adapter.typeText(adapter.getState().currentWords.heal.text);
+      expect(adapter.getState().skills).toEqual([
+        { id: 'power-strike', charged: true },
+      ]);
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+
+      expect(events).toEqual([
+        'charged power-strike by perfect-word',
+        'used power-strike on ATTACK',
+        'charged power-strike by perfect-word',
+      ]);
+    });
+
+    it('should leave attacks unchanged without skills', async () => {
+      const events: string[] = [];
+      adapter.on('skill-used', ({ skillId }) => events.push(skillId));
+      await startSession();
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+
+      expect(adapter.getState().skills).toEqual([]);
+      expect(events).toEqual([]);
+    });
+
+    it('should reject an invalid loadout', async () => {
+      sessionSeed = {
+        ...sessionSeed,
+        skills: ['keen-edge', 'keen-edge'],
+      };
+      await adapter.mount(null, config);
+
+      await expect(adapter.start(sessionSeed)).rejects.toThrow(
+        'GameAdapter: Invalid skills: skills[1] is already equipped'
+      );
+    });
+  });
+
+  describe('Status Effects', () => {
+    const startWithCategory = (category: string) => {
+      sessionSeed = {
+        ...sessionSeed,
+        words: words.map(word => ({ ...word, category })),
+      };
+      return startSession();
+    };
+
+    it('should poison the enemy with an action word', async () => {
+      const ticks: number[] = [];
+      const expired: string[] = [];
+      adapter.on('status-effect-tick', ({ hpChange }) => ticks.push(hpChange));
+      adapter.on('status-effect-expired', ({ target, type }) =>
+        expired.push(`${target} ${type}`)
+      );
+      await startWithCategory('action');
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+      const { hp, stats } = adapter.getState();
+      expect(adapter.getState().statusEffects.enemy).toEqual([
+        { type: 'poison', stacks: 1, remaining: 4 },
+      ]);
+
+      adapter.advanceTime(4_000);
+
+      expect(ticks).toEqual([-2, -2, -2, -2]);
+      expect(expired).toEqual(['enemy poison']);
+      expect(adapter.getState().hp.enemy).toBe(hp.enemy - 8);
+      expect(adapter.getState().stats.totalDamage).toBe(stats.totalDamage + 8);
+      expect(adapter.getState().statusEffects.enemy).toEqual([]);
+    });
+
+    it('should hold the enemy attacks while it is stunned', async () => {
+      let recoveredAt = 0;
+      adapter.on('status-effect-expired', () => (recoveredAt = clock.now()));
+      await startWithCategory('power');
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+      const scheduler = adapter.getEnemyAttackScheduler()!;
+      expect(scheduler.isPaused()).toBe(true);
+      const etaMs = scheduler.getTimeUntilImpact(clock.now())!;
+
+      adapter.advanceTime(2_000);
+
+      // The stun counts down on the game timer's whole seconds
+      expect(adapter.getState().statusEffects.enemy).toEqual([]);
+      expect(scheduler.isPaused()).toBe(false);
+      expect(scheduler.getTimeUntilImpact(clock.now())).toBe(
+        etaMs - (clock.now() - recoveredAt)
+      );
+    });
+
+    it('should leave plain words without effects', async () => {
+      await startSession();
+
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+
+      expect(adapter.getState().statusEffects).toEqual({
+        player: [],
+        enemy: [],
+      });
+    });
+  });
+
+  describe('Adaptive Difficulty', () => {
+    const typeHealWords = async (count: number) => {
+      for (let i = 0; i < count; i++) {
+        await adapter.typeText(adapter.getState().currentWords.heal.text);
+      }
+    };
+
+    it('should offer harder words after fluent, accurate typing', async () => {
+      const adjusted = jest.fn();
+      adapter.on('difficulty-adjusted', adjusted);
+      sessionSeed = { ...sessionSeed, adaptiveDifficulty: true };
+      await startSession();
+
+      await typeHealWords(4);
+
+      expect(adjusted).toHaveBeenCalledTimes(1);
+      expect(adjusted.mock.calls[0][0].adjustment).toMatchObject({
+        direction: 'UP',
+        wordsCompleted: 4,
+        levelShift: 1,
+      });
+      const { attack, heal } = adapter.getState().currentWords;
+      expect(attack.level).toBeGreaterThanOrEqual(2);
+      expect(heal.level).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should explain the difficulty in the session result', async () => {
+      sessionSeed = { ...sessionSeed, adaptiveDifficulty: true };
+      await startSession();
+
+      await typeHealWords(4);
+      adapter.advanceTime(60_000);
+
+      const result = adapter.getSessionResult();
+      expect(result?.difficulty?.levelShift).toBe(1);
+      expect(result?.difficulty?.adjustments[0].reasons).toEqual([
+        'Accuracy 100% is above the 85%-92% target',
+      ]);
+    });
+
+    it('should stay off unless the session asks for it', async () => {
+      const adjusted = jest.fn();
+      adapter.on('difficulty-adjusted', adjusted);
+      await startSession();
+
+      await typeHealWords(4);
+
+      expect(adjusted).not.toHaveBeenCalled();
+      expect(adapter.getDifficultyEstimate()).toBeNull();
+    });
+  });
+
+  describe('Player Level', () => {
+    const playerStats = (level: number) => ({
+      level,
+      experience: 0,
+      averageWPM: 0,
+      averageAccuracy: 0,
+      gamesPlayed: 0,
+      gamesWon: 0,
+    });
+
+    const attackDamage = async () => {
+      await startSession();
+      await adapter.typeText(adapter.getState().currentWords.attack.text);
+      return adapter.getState().stats.totalDamage;
+    };
+
+    it('should scale attack damage with the stored level', async () => {
+      const levelOneDamage = await attackDamage();
+      adapter.destroy();
+
+      adapter = new HeadlessAdapter({ clock: new ManualClock(1_000_000) });
+      sessionSeed = { ...sessionSeed, playerStats: playerStats(4) };
+
+      expect(await attackDamage()).toBeGreaterThan(levelOneDamage);
+    });
+
+    it('should offer harder words to higher levels', async () => {
+      sessionSeed = { ...sessionSeed, playerStats: playerStats(10) };
+      await startSession();
+
+      const { attack, heal } = adapter.getState().currentWords;
+      expect(attack.level).toBe(3);
+      expect(heal.level).toBe(3);
+    });
+
+    it('should reject an invalid level', async () => {
+      sessionSeed = { ...sessionSeed, playerStats: playerStats(0) };
+      await adapter.mount(null, config);
+
+      await expect(adapter.start(sessionSeed)).rejects.toThrow(
+        'playerStats level must be a whole number'
+      );
+    });
+  });
+
+  describe('Full session', () => {
+    it('should play a scripted battle to victory', async () => {
+      const events: string[] = [];
+      adapter.on('game-over', () => events.push('game-over'));
+      adapter.on('session-ended', () => events.push('session-ended'));
+
+      sessionSeed = { ...sessionSeed, rngSeed: 2024 };
+      await startSession();
+
+      for (let i = 0; i < 50 && adapter.isRunning(); i++) {
+        await adapter.typeText(adapter.getState().currentWords.attack.text);
+      }
+
+      const result = adapter.getSessionResult();
+      expect(adapter.getState().hp.enemy).toBe(0);
+      expect(result?.result).toBe('WIN');
+      expect(result?.attempts.length).toBe(
+        adapter.getState().stats.wordsCompleted
+      );
+      expect(result?.finalStats.totalDamage).toBeGreaterThanOrEqual(100);
+      expect(events).toEqual(['game-over', 'session-ended']);
+    });
+
+    it('should reproduce a session from the same rngSeed', async () => {
+      const playSeededSession = async () => {
+        const seededClock = new ManualClock(1_000_000);
+        const seededAdapter = new HeadlessAdapter({ clock: seededClock });
+        const words: string[] = [];
+
+        await seededAdapter.mount(null, config);
+        await seededAdapter.start({ ...sessionSeed, rngSeed: 99 });
+
+        for (let i = 0; i < 8 && seededAdapter.isRunning(); i++) {
+          const { attack, heal } = seededAdapter.getState().currentWords;
+          const target = i % 3 === 2 ? heal : attack;
+          words.push(target.text);
+          await seededAdapter.typeText(target.text, 120 + i * 10);
+          seededAdapter.advanceTime(400);
+        }
+
+        const outcome = {
+          words,
+          state: seededAdapter.getState(),
+          attempts: seededAdapter.getAttempts(),
+        };
+        seededAdapter.destroy();
+        return outcome;
+      };
+
+      // Math.random is mocked to a constant, so unseeded runs would also
+      // match; restore it to prove the seed alone drives the session
+      jest.restoreAllMocks();
+      const first = await playSeededSession();
+      const second = await playSeededSession();
+
+      expect(second.words).toEqual(first.words);
+      expect(second.attempts).toEqual(first.attempts);
+      expect(second.state.stats).toEqual(first.state.stats);
+      expect(second.state.hp).toEqual(first.state.hp);
+    });
+
+    it('should report a low anti-cheat risk for human-paced typing', async () => {
+      await startSession();
+
+      for (let i = 0; i < 3; i++) {
+        await adapter.typeText(
+          adapter.getState().currentWords.attack.text,
+          180
+        );
+        adapter.advanceTime(500);
+      }
+
+      expect(adapter.getAntiCheatReport().riskLevel).not.toBe('HIGH');
+    });
+  });
+});
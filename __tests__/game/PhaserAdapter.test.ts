@@ -0,0 +1,184 @@
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { PhaserAdapter } from '@/lib/game/PhaserAdapter';
+import { ReplayRecorder } from '@/lib/game/replay/ReplayRecorder';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type { GameConfig, SessionSeed, Word } from '@/lib/game/types';
+
+// A game whose scene is ready at once, so the adapter runs without a canvas
+jest.mock('phaser', () => {
+  const scene = {
+    input: { keyboard: { on: jest.fn(), removeAllListeners: jest.fn() } },
+    scene: { pause: jest.fn(), resume: jest.fn() },
+    events: { emit: jest.fn() },
+    updateGameState: jest.fn(),
+    updateCurrentInput: jest.fn(),
+  };
+
+  return {
+    AUTO: 0,
+    Scale: { FIT: 0, CENTER_BOTH: 0 },
+    Game: jest.fn().mockImplementation(() => ({
+      scene: { isActive: () => true, getScene: () => scene },
+      events: { on: jest.fn(), off: jest.fn() },
+      scale: { resize: jest.fn() },
+      destroy: jest.fn(),
+    })),
+  };
+});
+
+describe('PhaserAdapter', () => {
+  let adapter: PhaserAdapter;
+  let recorder: ReplayRecorder;
+
+  const words: Word[] = [
+    { id: '1', text: 'apple', level: 1, length: 5 },
+    { id: '2', text: 'bread', level: 1, length: 5 },
+    { id: '3', text: 'cloud', level: 2, length: 5 },
+    { id: '4', text: 'dance', level: 2, length: 5 },
+    { id: '5', text: 'eagle', level: 2, length: 5 },
+    { id: '6', text: 'forest', level: 3, length: 6 },
+    { id: '7', text: 'garden', level: 1, length: 6 },
+    { id: '8', text: 'honey', level: 1, length: 5 },
+    { id: '9', text: 'island', level: 2, length: 6 },
+    { id: '10', text: 'jungle', level: 3, length: 6 },
+    { id: '11', text: 'kettle', level: 2, length: 6 },
+    { id: '12', text: 'lemon', level: 1, length: 5 },
+  ];
+
+  const config: GameConfig = {
+    width: 800,
+    height: 600,
+    difficulty: 'NORMAL',
+    packId: 'test-pack',
+    sessionId: 'phaser-session',
+    durationSec: 20,
+  };
+
+  const sessionSeed: SessionSeed = {
+    sessionId: 'phaser-session',
+    packId: 'test-pack',
+    difficulty: 'NORMAL',
+    words,
+    rngSeed: 4242,
+  };
+
+  beforeAll(() => {
+    global.ResizeObserver = class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    };
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    adapter = new PhaserAdapter();
+    recorder = new ReplayRecorder(adapter);
+
+    const mounted = adapter.mount(document.createElement('div'), config);
+    await jest.advanceTimersByTimeAsync(0);
+    await mounted;
+  });
+
+  afterEach(() => {
+    recorder.detach();
+    adapter.destroy();
+    jest.useRealTimers();
+  });
+
+  // Keys land between the 100ms polls, so telegraphs fall due mid-word
+  const typeText = async (text: string, msPerKey: number) => {
+    for (const key of text) {
+      await jest.advanceTimersByTimeAsync(msPerKey);
+      await adapter.processKeystroke(key);
+    }
+  };
+
+  it('should keep counting down across a pause', async () => {
+    await adapter.start(sessionSeed);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    adapter.pause();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(adapter.getState().timeLeft).toBe(17);
+
+    adapter.resume();
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(adapter.getState().status).toBe('PLAYING');
+    expect(adapter.getState().timeLeft).toBe(15);
+
+    await jest.advanceTimersByTimeAsync(15000);
+
+    expect(adapter.getState().status).toBe('ENDED');
+  });
+
+  it('should land an attack due between polls before the next keystroke', async () => {
+    const startedAt = Date.now();
+    await adapter.start(sessionSeed);
+
+    // A 50ms pause moves the attack cycle off the poll's 100ms grid
+    await jest.advanceTimersByTimeAsync(50);
+    adapter.pause();
+    await jest.advanceTimersByTimeAsync(50);
+    adapter.resume();
+
+    // The attack telegraphs at 2550ms and lands at 4550ms
+    await jest.advanceTimersByTimeAsync(2500);
+    const guardWord = adapter.getState().currentWords.guard!;
+    await typeText(guardWord.text.slice(0, -1), 150);
+
+    // The last key comes 20ms after the attack lands, before the next poll
+    await jest.advanceTimersByTimeAsync(startedAt + 4570 - Date.now());
+    await adapter.processKeystroke(guardWord.text.slice(-1));
+
+    expect(adapter.getState().stats.guardCount).toBe(0);
+    expect(adapter.getState().stats.damageTaken).toBeGreaterThan(0);
+
+    await jest.advanceTimersByTimeAsync(config.durationSec * 1000);
+
+    const playback = new HeadlessAdapter({ clock: new ManualClock(1_000_000) });
+    await playback.playReplay(recorder.getReplay());
+
+    expect(playback.getState().stats).toEqual(adapter.getState().stats);
+    expect(playback.getState().hp).toEqual(adapter.getState().hp);
+
+    playback.destroy();
+  });
+
+  it('should replay headless to the same outcome it played live', async () => {
+    await adapter.start(sessionSeed);
+
+    for (let i = 0; adapter.isRunning() && i < 40; i++) {
+      // Mostly heal, so the enemy outlasts several attack cycles
+      const { attack, heal, guard } = adapter.getState().currentWords;
+      const target = guard ?? (i % 4 === 3 ? attack : heal);
+      await typeText(target.text, 130 + (i % 4) * 17);
+
+      // Pausing moves the attack cycle off the poll's 100ms grid
+      if (i === 0) {
+        adapter.pause();
+        await jest.advanceTimersByTimeAsync(1550);
+        adapter.resume();
+      }
+    }
+    await jest.advanceTimersByTimeAsync(config.durationSec * 1000);
+
+    const replay = recorder.getReplay();
+    const playback = new HeadlessAdapter({ clock: new ManualClock(1_000_000) });
+    await playback.playReplay(replay);
+
+    expect(adapter.getState().status).toBe('ENDED');
+    expect(playback.getState().status).toBe('ENDED');
+    expect(playback.getState().stats).toEqual(adapter.getState().stats);
+    expect(playback.getState().hp).toEqual(adapter.getState().hp);
+    expect(playback.getState().enemyStatus).toEqual(
+      adapter.getState().enemyStatus
+    );
+
+    playback.destroy();
+  });
+});
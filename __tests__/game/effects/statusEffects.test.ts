@@ -0,0 +1,168 @@
+import {
+  STATUS_EFFECTS,
+  addStatusEffect,
+  getDamageTakenMultiplier,
+  getStatusEffectsForResult,
+  hasStatusEffect,
+  tickStatusEffects,
+} from '@/lib/game/effects/statusEffects';
+import type {
+  ActionResult,
+  CompletedWord,
+  StatusEffect,
+} from '@/lib/game/types';
+
+describe('statusEffects', () => {
+  const word: CompletedWord = {
+    id: '1',
+    text: 'strike',
+    level: 2,
+    length: 6,
+    typedText: 'strike',
+    timeMs: 1000,
+    errors: 0,
+    accuracy: 1,
+    wpm: 60,
+    score: 100,
+  };
+
+  const resultFor = (updates: Partial<ActionResult> = {}): ActionResult => ({
+    success: true,
+    type: 'ATTACK',
+    word,
+    value: 10,
+    critical: false,
+    combo: 1,
+    ...updates,
+  });
+
+  describe('addStatusEffect', () => {
+    it('should start a new effect with one stack and its full duration', () => {
+      const { effects, effect } = addStatusEffect([], 'poison');
+
+      expect(effect).toEqual({ type: 'poison', stacks: 1, remaining: 4 });
+      expect(effects).toEqual([effect]);
+    });
+
+    it('should add a stack and restart the duration when reapplied', () => {
+      const active: StatusEffect[] = [
+        { type: 'regen', stacks: 1, remaining: 4 },
+        { type: 'poison', stacks: 1, remaining: 1 },
+      ];
+
+      expect(addStatusEffect(active, 'poison').effects).toEqual([
+        { type: 'regen', stacks: 1, remaining: 4 },
+        { type: 'poison', stacks: 2, remaining: 4 },
+      ]);
+    });
+
+    it('should not stack past the maximum', () => {
+      const stun: StatusEffect[] = [{ type: 'stun', stacks: 1, remaining: 1 }];
+
+      expect(addStatusEffect(stun, 'stun').effect).toEqual({
+        type: 'stun',
+        stacks: STATUS_EFFECTS.stun.maxStacks,
+        remaining: 2,
+      });
+    });
+  });
+
+  describe('tickStatusEffects', () => {
+    it('should change HP by each stack every second', () => {
+      const { ticks } = tickStatusEffects(
+        [
+          { type: 'poison', stacks: 2, remaining: 3 },
+          { type: 'regen', stacks: 1, remaining: 3 },
+        ],
+        'seconds'
+      );
+
+      expect(ticks).toEqual([
+        { type: 'poison', hpChange: -4 },
+        { type: 'regen', hpChange: 2 },
+      ]);
+    });
+
+    it('should expire an effect on its last tick', () => {
+      const result = tickStatusEffects(
+        [
+          { type: 'stun', stacks: 1, remaining: 1 },
+          { type: 'poison', stacks: 1, remaining: 2 },
+        ],
+        'seconds'
+      );
+
+      expect(result.effects).toEqual([
+        { type: 'poison', stacks: 1, remaining: 1 },
+      ]);
+      expect(result.expired).toEqual(['stun']);
+    });
+
+    it('should only count down effects measured in the unit', () => {
+      const poison: StatusEffect = { type: 'poison', stacks: 1, remaining: 2 };
+      const vulnerability: StatusEffect = {
+        type: 'vulnerability',
+        stacks: 1,
+        remaining: 2,
+      };
+
+      const result = tickStatusEffects([poison, vulnerability], 'words');
+
+      expect(result.effects).toEqual([
+        poison,
+        { ...vulnerability, remaining: 1 },
+      ]);
+      expect(result.ticks).toEqual([]);
+    });
+  });
+
+  describe('queries', () => {
+    it('should find an active effect', () => {
+      const effects: StatusEffect[] = [
+        { type: 'stun', stacks: 1, remaining: 2 },
+      ];
+
+      expect(hasStatusEffect(effects, 'stun')).toBe(true);
+      expect(hasStatusEffect(effects, 'poison')).toBe(false);
+    });
+
+    it('should raise the damage taken with each vulnerability stack', () => {
+      expect(getDamageTakenMultiplier([])).toBe(1);
+      expect(
+        getDamageTakenMultiplier([
+          { type: 'vulnerability', stacks: 2, remaining: 1 },
+          { type: 'poison', stacks: 3, remaining: 1 },
+        ])
+      ).toBe(1.5);
+    });
+  });
+
+  describe('getStatusEffectsForResult', () => {
+    it('should make the enemy vulnerable after a critical hit', () => {
+      expect(getStatusEffectsForResult(resultFor({ critical: true }))).toEqual([
+        { target: 'enemy', type: 'vulnerability' },
+      ]);
+    });
+
+    it('should apply effects by word category', () => {
+      const poisonWord = { ...word, category: 'action' };
+      const medicalWord = { ...word, category: 'medical' };
+
+      expect(
+        getStatusEffectsForResult(resultFor({ word: poisonWord }))
+      ).toEqual([{ target: 'enemy', type: 'poison' }]);
+      expect(
+        getStatusEffectsForResult(
+          resultFor({ type: 'HEAL', word: medicalWord, critical: true })
+        )
+      ).toEqual([{ target: 'player', type: 'regen' }]);
+    });
+
+    it('should not apply effects from a failed action or a plain word', () => {
+      expect(
+        getStatusEffectsForResult(resultFor({ success: false, critical: true }))
+      ).toEqual([]);
+      expect(getStatusEffectsForResult(resultFor())).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  EnemyBehaviourHost,
+  EnemyBehaviours,
+  INITIAL_ENEMY_STATUS,
+  checkEnrage,
+  checkRegenerate,
+  checkScramble,
+  checkShield,
+  validateEnemyBehaviours,
+} from '@/lib/game/enemies/EnemyBehaviours';
+import { DEFAULT_ENEMY } from '@/lib/game/utils/campaign';
+import type {
+  EnemyAbility,
+  EnemyBehaviour,
+  GameEvent,
+  GameEventData,
+  GameState,
+  Word,
+} from '@/lib/game/types';
+
+const word = (text: string): Word => ({
+  id: text,
+  text,
+  level: 1,
+  length: text.length,
+});
+
+function createState(
+  enemyHp: number,
+  behaviours: EnemyBehaviour[] = []
+): GameState {
+  return {
+    status: 'PLAYING',
+    hp: { player: 100, enemy: enemyHp, playerMax: 100, enemyMax: 100 },
+    currentWords: { attack: word('apple'), heal: word('bread') },
+    locked: null,
+    combo: 0,
+    stats: {
+      wpm: 0,
+      accuracy: 1,
+      totalDamage: 0,
+      totalHealing: 0,
+      attackCount: 0,
+      healCount: 0,
+      guardCount: 0,
+      maxCombo: 0,
+      wordsCompleted: 0,
+      damageTaken: 0,
+      damageBlocked: 0,
+    },
+    timeLeft: 60,
+    round: 1,
+    enemyAttack: null,
+    enemy: { ...DEFAULT_ENEMY, behaviours },
+    stage: null,
+    enemyStatus: INITIAL_ENEMY_STATUS,
+    skills: [],
+    statusEffects: { player: [], enemy: [] },
+  };
+}
+
+describe('EnemyBehaviours', () => {
+  describe('enrage', () => {
+    const enrage = {
+      type: 'enrage' as const,
+      hpThreshold: 0.3,
+      intervalMultiplier: 0.6,
+    };
+
+    it('should enrage below the HP threshold', () => {
+      expect(checkEnrage(enrage, createState(29))).toEqual({
+        type: 'enrage',
+        intervalMultiplier: 0.6,
+      });
+    });
+
+    it('should stay calm at or above the threshold', () => {
+      expect(checkEnrage(enrage, createState(30))).toBeNull();
+    });
+
+    it('should enrage only once', () => {
+      const state = createState(10);
+      state.enemyStatus = { ...state.enemyStatus, enraged: true };
+
+      expect(checkEnrage(enrage, state)).toBeNull();
+    });
+
+    it('should not enrage a defeated enemy', () => {
+      expect(checkEnrage(enrage, createState(0))).toBeNull();
+    });
+  });
+
+  describe('shield', () => {
+    const shield = {
+      type: 'shield' as const,
+      minWordLength: 6,
+      damageMultiplier: 0.5,
+    };
+
+    it('should absorb part of a hit from a short word', () => {
+      expect(checkShield(shield, 15, word('apple'))).toEqual({
+        type: 'shield',
+        absorbed: 7,
+      });
+    });
+
+    it('should let long words deal full damage', () => {
+      expect(checkShield(shield, 15, word('garden'))).toBeNull();
+    });
+
+    it('should ignore a hit without a word', () => {
+      expect(checkShield(shield, 15, undefined)).toBeNull();
+    });
+  });
+
+  describe('regenerate', () => {
+    const regenerate = { type: 'regenerate' as const, amount: 5 };
+
+    it('should heal by its amount', () => {
+      expect(checkRegenerate(regenerate, createState(50))).toEqual({
+        type: 'regenerate',
+        healed: 5,
+      });
+    });
+
+    it('should not heal past full HP', () => {
+      expect(checkRegenerate(regenerate, createState(98))).toEqual({
+        type: 'regenerate',
+        healed: 2,
+      });
+      expect(checkRegenerate(regenerate, createState(100))).toBeNull();
+    });
+
+    it('should not heal a defeated enemy', () => {
+      expect(checkRegenerate(regenerate, createState(0))).toBeNull();
+    });
+  });
+
+  describe('scramble', () => {
+    const scramble = { type: 'scramble' as const, durationMs: 1500 };
+
+    it('should scramble after an unguarded attack', () => {
+      expect(checkScramble(scramble, false)).toEqual({
+        type: 'scramble',
+        durationMs: 1500,
+      });
+    });
+
+    it('should not scramble after a guarded attack', () => {
+      expect(checkScramble(scramble, true)).toBeNull();
+    });
+  });
+
+  describe('controller', () => {
+    let state: GameState;
+    let now: number;
+    type Listener<T extends GameEvent> = (data: GameEventData[T]) => void;
+
+    let listeners: Map<GameEvent, Listener<never>>;
+    let used: EnemyAbility[];
+    let controller: EnemyBehaviours;
+
+    // Each listener was registered for its own event's payload
+    const emit = <T extends GameEvent>(event: T, data: GameEventData[T]) =>
+      (listeners.get(event) as Listener<T> | undefined)?.(data);
+
+    beforeEach(() => {
+      state = createState(100, [
+        { type: 'shield', minWordLength: 6, damageMultiplier: 0.5 },
+        { type: 'enrage', hpThreshold: 0.3, intervalMultiplier: 0.6 },
+        { type: 'regenerate', amount: 5 },
+        { type: 'scramble', durationMs: 1500 },
+      ]);
+      now = 1000;
+      listeners = new Map();
+      used = [];
+
+      const host: EnemyBehaviourHost = {
+        on: (event, callback) => {
+          listeners.set(event, callback);
+          return () => listeners.delete(event);
+        },
+        getState: () => state,
+        now: () => now,
+        useAbility: ability => used.push(ability),
+        clearScramble: () => {
+          state = {
+            ...state,
+            enemyStatus: { ...state.enemyStatus, scrambledUntil: null },
+          };
+        },
+      };
+      controller = new EnemyBehaviours(host);
+      controller.attach();
+    });
+
+    it('should enrage when damage is dealt', () => {
+      state = { ...state, hp: { ...state.hp, enemy: 20 } };
+      emit('damage-dealt', {
+        damage: 10,
+        critical: false,
+        enemyHp: 20,
+        word: word('apple'),
+      });
+
+      expect(used).toEqual([{ type: 'enrage', intervalMultiplier: 0.6 }]);
+    });
+
+    it('should shield a hit from a short word before it lands', () => {
+      expect(controller.shieldDamage(10, word('apple'))).toBe(5);
+      expect(controller.shieldDamage(10, word('garden'))).toBe(10);
+      expect(used).toEqual([{ type: 'shield', absorbed: 5 }]);
+    });
+
+    it('should regenerate and scramble when the enemy attacks', () => {
+      state = { ...state, hp: { ...state.hp, enemy: 50 } };
+      emit('enemy-attack', { damage: 10, playerHp: 90, guarded: false });
+
+      expect(used).toEqual([
+        { type: 'regenerate', healed: 5 },
+        { type: 'scramble', durationMs: 1500 },
+      ]);
+    });
+
+    it('should clear the scramble once it runs out', () => {
+      state = {
+        ...state,
+        enemyStatus: { ...state.enemyStatus, scrambledUntil: 2500 },
+      };
+      emit('state-change', { oldState: state, newState: state });
+      expect(state.enemyStatus.scrambledUntil).toBe(2500);
+
+      now = 2500;
+      emit('state-change', { oldState: state, newState: state });
+      expect(state.enemyStatus.scrambledUntil).toBeNull();
+    });
+
+    it('should do nothing for an enemy without behaviours', () => {
+      state = createState(10);
+      emit('damage-dealt', {
+        damage: 10,
+        critical: false,
+        enemyHp: 10,
+        word: word('apple'),
+      });
+      emit('enemy-attack', { damage: 10, playerHp: 90, guarded: false });
+
+      expect(used).toEqual([]);
+    });
+
+    it('should stay quiet outside play', () => {
+      state = { ...state, status: 'ENDED' };
+      emit('enemy-attack', { damage: 10, playerHp: 0, guarded: false });
+
+      expect(used).toEqual([]);
+    });
+
+    it('should stop listening once detached', () => {
+      controller.detach();
+
+      expect(listeners.size).toBe(0);
+    });
+  });
+
+  describe('validateEnemyBehaviours', () => {
+    it('should accept every behaviour type', () => {
+      expect(
+        validateEnemyBehaviours([
+          { type: 'enrage', hpThreshold: 0.3, intervalMultiplier: 0.6 },
+          { type: 'shield', minWordLength: 6, damageMultiplier: 0.5 },
+          { type: 'regenerate', amount: 4 },
+          { type: 'scramble', durationMs: 1500 },
+        ])
+      ).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should name each invalid field', () => {
+      expect(
+        validateEnemyBehaviours([
+          { type: 'enrage', hpThreshold: 1.5, intervalMultiplier: 0.6 },
+          { type: 'regenerate', amount: -1 },
+          { type: 'teleport' },
+        ]).errors
+      ).toEqual([
+        'behaviours[0].hpThreshold must be a number between 0 and 1',
+        'behaviours[1].amount must be a positive integer',
+        'behaviours[2].type must be one of: enrage, shield, regenerate, scramble',
+      ]);
+    });
+
+    it('should reject a behaviour listed twice', () => {
+      expect(
+        validateEnemyBehaviours([
+          { type: 'scramble', durationMs: 1000 },
+          { type: 'scramble', durationMs: 2000 },
+        ]).errors
+      ).toEqual([
+        'behaviours[1].type scramble is used by an earlier behaviour',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { claimGuestSessions } from '@/lib/game/guest/claimGuestSessions';
+import { LocalStorageGuestSessionStore } from '@/lib/game/guest/guestSessionStore';
+
+describe('claimGuestSessions', () => {
+  const FIRST_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const SECOND_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a12';
+  const KEY = 'test:guest-sessions';
+
+  const respond = (status: number, body: unknown) =>
+    ({ ok: status < 300, status, json: async () => body }) as Response;
+
+  let store: LocalStorageGuestSessionStore;
+
+  beforeEach(async () => {
+    store = new LocalStorageGuestSessionStore(window.localStorage, KEY);
+    await store.save({ sessionId: FIRST_ID, guestToken: 'first-token' });
+    await store.save({ sessionId: SECOND_ID, guestToken: 'second-token' });
+  });
+
+  afterEach(() => {
+    window.localStorage.removeItem(KEY);
+  });
+
+  it('should send every stored session and forget the answered ones', async () => {
+    const fetchStub = jest.fn(async () =>
+      respond(200, {
+        claimed: [FIRST_ID],
+        skipped: [{ sessionId: SECOND_ID, reason: 'INVALID_TOKEN' }],
+        message: 'Guest sessions claimed',
+      })
+    );
+
+    const result = await claimGuestSessions(store, 'access-token', {
+      fetch: fetchStub,
+    });
+
+    expect(fetchStub).toHaveBeenCalledWith(
+      '/api/session/claim',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({
+          Authorization: 'Bearer access-token',
+        }),
+        body: JSON.stringify({
+          sessions: [
+            { sessionId: FIRST_ID, guestToken: 'first-token' },
+            { sessionId: SECOND_ID, guestToken: 'second-token' },
+          ],
+        }),
+      })
+    );
+    expect(result?.claimed).toEqual([FIRST_ID]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should keep the sessions when the claim fails', async () => {
+    const fetchStub = jest.fn(async () =>
+      respond(503, { message: 'Unavailable' })
+    );
+
+    await expect(
+      claimGuestSessions(store, 'access-token', { fetch: fetchStub })
+    ).rejects.toThrow('claimGuestSessions: Claim failed with 503');
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it('should not send a request without guest sessions', async () => {
+    const fetchStub = jest.fn();
+    await store.remove([FIRST_ID, SECOND_ID]);
+
+    expect(
+      await claimGuestSessions(store, 'access-token', { fetch: fetchStub })
+    ).toBeNull();
+    expect(fetchStub).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { KeystrokeProfileTracker } from '@/lib/game/keystrokes/KeystrokeProfileTracker';
+import {
+  LOCAL_KEYSTROKE_PROFILE_KEY,
+  LocalStorageKeystrokeProfileStore,
+} from '@/lib/game/keystrokes/keystrokeProfileStore';
+import { EMPTY_KEYSTROKE_PROFILE } from '@/lib/game/utils/keystrokeProfile';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type { KeystrokeProfile, Word } from '@/lib/game/types';
+
+describe('KeystrokeProfileTracker', () => {
+  const words: Word[] = [
+    { id: '1', text: 'apple', level: 1, length: 5 },
+    { id: '2', text: 'bread', level: 1, length: 5 },
+    { id: '3', text: 'cloud', level: 2, length: 5 },
+    { id: '4', text: 'dance', level: 2, length: 5 },
+    { id: '5', text: 'eagle', level: 2, length: 5 },
+    { id: '6', text: 'forest', level: 3, length: 6 },
+    { id: '7', text: 'garden', level: 1, length: 6 },
+    { id: '8', text: 'honey', level: 1, length: 5 },
+  ];
+
+  let adapter: HeadlessAdapter;
+  let store: LocalStorageKeystrokeProfileStore;
+  let tracker: KeystrokeProfileTracker;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    adapter = new HeadlessAdapter({
+      clock: new ManualClock(Date.parse('2025-09-01T00:00:00Z')),
+    });
+    store = new LocalStorageKeystrokeProfileStore(window.localStorage);
+    tracker = new KeystrokeProfileTracker(adapter, store);
+  });
+
+  afterEach(() => {
+    tracker.detach();
+    adapter.destroy();
+  });
+
+  const startSession = async () => {
+    const keystrokeProfile = await tracker.attach();
+
+    await adapter.mount(null, {
+      width: 800,
+      height: 600,
+      difficulty: 'EASY',
+      packId: 'test-pack',
+      sessionId: 'test-session',
+      durationSec: 10,
+    });
+    await adapter.start({
+      sessionId: 'test-session',
+      packId: 'test-pack',
+      difficulty: 'EASY',
+      words,
+      rngSeed: 5,
+      keystrokeProfile,
+    });
+  };
+
+  it('should add each completed word to the profile', async () => {
+    await startSession();
+    const attack = adapter.getState().currentWords.attack;
+
+    await adapter.typeText(attack.text, 200);
+
+    // Every key after the first is timed from the one before it
+    const keys = Object.values(tracker.getProfile().keys);
+    const total = (field: 'count' | 'timedCount' | 'totalLatencyMs') =>
+      keys.reduce((sum, stats) => sum + stats[field], 0);
+    expect(total('count')).toBe(attack.text.length);
+    expect(total('timedCount')).toBe(attack.text.length - 1);
+    expect(total('totalLatencyMs')).toBe(200 * (attack.text.length - 1));
+    expect(tracker.getProfile().bigrams[attack.text.slice(0, 2)]).toEqual({
+      count: 1,
+      errors: 0,
+      totalLatencyMs: 200,
+      timedCount: 1,
+    });
+  });
+
+  it('should save the profile to the store when the session ends', async () => {
+    await startSession();
+    await adapter.typeText(adapter.getState().currentWords.attack.text, 200);
+
+    adapter.advanceTime(10_000);
+    await Promise.resolve();
+
+    await expect(store.load()).resolves.toEqual(tracker.getProfile());
+  });
+
+  it('should add to the stored profile and keep the session apart', async () => {
+    const stored: KeystrokeProfile = {
+      keys: { z: { count: 4, errors: 2, totalLatencyMs: 1200, timedCount: 3 } },
+      bigrams: {},
+    };
+    await store.save(stored);
+
+    await startSession();
+    await adapter.typeText(adapter.getState().currentWords.attack.text, 200);
+
+    expect(tracker.getProfile().keys.z).toEqual(stored.keys.z);
+    expect(tracker.getSessionProfile().keys.z).toBeUndefined();
+    expect(Object.keys(tracker.getSessionProfile().keys).length).toBe(
+      Object.keys(tracker.getProfile().keys).length - 1
+    );
+  });
+
+  describe('LocalStorageKeystrokeProfileStore', () => {
+    it('should ignore corrupt stored data', async () => {
+      window.localStorage.setItem(LOCAL_KEYSTROKE_PROFILE_KEY, '{oops');
+      await expect(store.load()).resolves.toEqual(EMPTY_KEYSTROKE_PROFILE);
+
+      window.localStorage.setItem(
+        LOCAL_KEYSTROKE_PROFILE_KEY,
+        JSON.stringify({ keys: { a: { count: 'many' } }, bigrams: {} })
+      );
+      await expect(store.load()).resolves.toEqual(EMPTY_KEYSTROKE_PROFILE);
+    });
+
+    it('should do nothing without storage', async () => {
+      const noStorage = new LocalStorageKeystrokeProfileStore(null);
+      await noStorage.save(EMPTY_KEYSTROKE_PROFILE);
+
+      await expect(noStorage.load()).resolves.toEqual(EMPTY_KEYSTROKE_PROFILE);
+    });
+  });
+});
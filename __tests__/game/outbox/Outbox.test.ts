@@ -0,0 +1,426 @@
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { LocalStorageGuestSessionStore } from '@/lib/game/guest/guestSessionStore';
+import { Outbox } from '@/lib/game/outbox/Outbox';
+import { OutboxRecorder } from '@/lib/game/outbox/OutboxRecorder';
+import { ReplayRecorder } from '@/lib/game/replay/ReplayRecorder';
+import { MemoryOutboxStore } from '@/lib/game/outbox/outboxStore';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type { Word } from '@/lib/game/types';
+
+describe('Outbox', () => {
+  const PACK_ID = '550e8400-e29b-41d4-a716-446655440000';
+  const WORD_ID = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+  const SERVER_SESSION_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+  const attempt = {
+    type: 'ATTACK' as const,
+    wordId: WORD_ID,
+    targetText: 'apple',
+    ms: 1200,
+    errors: 0,
+    accuracy: 1,
+    score: 12,
+    combo: 1,
+  };
+  const end = {
+    result: 'WIN' as const,
+    durationSec: 60,
+    stats: {
+      wpm: 40,
+      acc: 1,
+      comboMax: 1,
+      atkCount: 1,
+      healCount: 0,
+      guardRate: 0,
+      damage: 12,
+      damageTaken: 0,
+    },
+  };
+
+  const respond = (status: number, body: unknown = {}) =>
+    ({ ok: status < 300, status, json: async () => body }) as Response;
+
+  const createFetchStub = () =>
+    jest.fn(async (url: string) =>
+      url === '/api/session'
+        ? respond(201, { sessionId: SERVER_SESSION_ID })
+        : respond(200)
+    );
+
+  let store: MemoryOutboxStore;
+  let connectivity: EventTarget;
+  let fetchStub: ReturnType<typeof createFetchStub>;
+  let outbox: Outbox;
+  let keyCount: number;
+
+  interface SentRequest {
+    url: string;
+    key: string;
+    body: Record<string, unknown>;
+  }
+
+  const sent = (): SentRequest[] =>
+    fetchStub.mock.calls.map(([url, init]: [string, RequestInit]) => ({
+      url,
+      key: (init.headers as Record<string, string>)['Idempotency-Key'],
+      body: JSON.parse(init.body as string),
+    }));
+
+  const queueBattle = async () => {
+    await outbox.enqueue('local-1', {
+      kind: 'session-start',
+      payload: { packId: PACK_ID, difficulty: 'NORMAL' },
+    });
+    await outbox.enqueue('local-1', { kind: 'attempt', payload: attempt });
+    await outbox.enqueue('local-1', { kind: 'session-end', payload: end });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new MemoryOutboxStore();
+    connectivity = new EventTarget();
+    keyCount = 0;
+    fetchStub = createFetchStub();
+    outbox = new Outbox(store, {
+      fetch: fetchStub,
+      getAccessToken: async () => 'token',
+      createKey: () => `key-${++keyCount}`,
+      connectivity,
+    });
+  });
+
+  afterEach(() => {
+    outbox.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should send entries in order with the server session id', async () => {
+    await queueBattle();
+    await outbox.flush();
+
+    expect(sent()).toEqual([
+      {
+        url: '/api/session',
+        key: 'key-1',
+        body: { packId: PACK_ID, difficulty: 'NORMAL' },
+      },
+      {
+        url: '/api/attempt',
+        key: 'key-2',
+        body: { ...attempt, sessionId: SERVER_SESSION_ID },
+      },
+      {
+        url: '/api/session/end',
+        key: 'key-3',
+        body: { ...end, sessionId: SERVER_SESSION_ID },
+      },
+    ]);
+    expect(fetchStub.mock.calls[0][1].headers.Authorization).toBe(
+      'Bearer token'
+    );
+    expect(await outbox.getPending()).toEqual([]);
+    expect(await store.getServerSession('local-1')).toBeNull();
+  });
+
+  it('should send a guest token with later entries and keep it for claiming', async () => {
+    const guestSessions = new LocalStorageGuestSessionStore(
+      window.localStorage,
+      'test:guest-sessions'
+    );
+    outbox = new Outbox(store, {
+      fetch: fetchStub,
+      createKey: () => `key-${++keyCount}`,
+      connectivity,
+      guestSessions,
+    });
+    fetchStub.mockResolvedValueOnce(
+      respond(201, { sessionId: SERVER_SESSION_ID, guestToken: 'guest-token' })
+    );
+
+    await queueBattle();
+    await outbox.flush();
+
+    const headers = fetchStub.mock.calls.map(
+      ([, init]: [string, RequestInit]) =>
+        init.headers as Record<string, string>
+    );
+    expect(headers[0]['X-Guest-Token']).toBeUndefined();
+    expect(headers[1]['X-Guest-Token']).toBe('guest-token');
+    expect(headers[2]['X-Guest-Token']).toBe('guest-token');
+    expect(headers[1].Authorization).toBeUndefined();
+    expect(await guestSessions.list()).toEqual([
+      { sessionId: SERVER_SESSION_ID, guestToken: 'guest-token' },
+    ]);
+
+    window.localStorage.removeItem('test:guest-sessions');
+  });
+
+  it('should retry a failed send with the same key and exponential backoff', async () => {
+    await queueBattle();
+    fetchStub.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    fetchStub.mockResolvedValueOnce(respond(503));
+
+    outbox.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+    expect(outbox.getRetryDelay()).toBe(1000);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchStub).toHaveBeenCalledTimes(2);
+    expect(outbox.getRetryDelay()).toBe(2000);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fetchStub).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(sent().map(request => request.key)).toEqual([
+      'key-1',
+      'key-1',
+      'key-1',
+      'key-2',
+      'key-3',
+    ]);
+    expect(await outbox.getPending()).toEqual([]);
+  });
+
+  it('should resend straight away when the browser comes back online', async () => {
+    await queueBattle();
+    fetchStub.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    outbox.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await outbox.getPending()).toHaveLength(3);
+
+    connectivity.dispatchEvent(new Event('online'));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchStub).toHaveBeenCalledTimes(4);
+    expect(await outbox.getPending()).toEqual([]);
+  });
+
+  it('should drop a rejected session with its attempts', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await queueBattle();
+    await outbox.enqueue('local-2', {
+      kind: 'session-start',
+      payload: { packId: PACK_ID, difficulty: 'EASY' },
+    });
+    fetchStub.mockResolvedValueOnce(respond(400));
+
+    await outbox.flush();
+
+    expect(sent().map(request => request.url)).toEqual([
+      '/api/session',
+      '/api/session',
+    ]);
+    expect(sent()[1].body.difficulty).toBe('EASY');
+    expect(await outbox.getPending()).toEqual([]);
+    expect(await store.getServerSession('local-2')).toEqual({
+      sessionId: SERVER_SESSION_ID,
+      guestToken: null,
+    });
+  });
+
+  it('should open a session straight away and send later entries with its id', async () => {
+    const created = await outbox.openSession('local-1', {
+      packId: PACK_ID,
+      difficulty: 'NORMAL',
+    });
+    await outbox.enqueue('local-1', { kind: 'attempt', payload: attempt });
+    await outbox.flush();
+
+    expect(created).toEqual({ sessionId: SERVER_SESSION_ID });
+    expect(sent().map(request => request.url)).toEqual([
+      '/api/session',
+      '/api/attempt',
+    ]);
+    expect(sent()[1].body.sessionId).toBe(SERVER_SESSION_ID);
+    expect(await outbox.getPending()).toEqual([]);
+  });
+
+  it('should queue a session it could not open with the same key', async () => {
+    fetchStub.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const created = await outbox.openSession('local-1', {
+      packId: PACK_ID,
+      difficulty: 'NORMAL',
+    });
+    await outbox.flush();
+
+    expect(created).toBeNull();
+    expect(sent().map(request => request.key)).toEqual(['key-1', 'key-1']);
+    expect(await store.getServerSession('local-1')).toEqual({
+      sessionId: SERVER_SESSION_ID,
+      guestToken: null,
+    });
+  });
+
+  it('should cap the retry delay', async () => {
+    outbox = new Outbox(store, {
+      fetch: jest.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+      retryDelayMs: 1000,
+      maxRetryDelayMs: 5000,
+      connectivity,
+    });
+    await outbox.enqueue('local-1', {
+      kind: 'session-start',
+      payload: { packId: PACK_ID, difficulty: 'NORMAL' },
+    });
+
+    for (let i = 0; i < 5; i++) await outbox.flush();
+
+    expect(outbox.getRetryDelay()).toBe(5000);
+  });
+
+  describe('OutboxRecorder', () => {
+    const words: Word[] = [
+      { id: '1', text: 'apple', level: 1, length: 5 },
+      { id: '2', text: 'bread', level: 1, length: 5 },
+      { id: '3', text: 'cloud', level: 2, length: 5 },
+      { id: '4', text: 'dance', level: 2, length: 5 },
+      { id: '5', text: 'eagle', level: 2, length: 5 },
+      { id: '6', text: 'forest', level: 3, length: 6 },
+    ];
+
+    it('should queue the session start, each attempt and the session end', async () => {
+      jest.useRealTimers();
+      const adapter = new HeadlessAdapter({
+        clock: new ManualClock(Date.parse('2025-09-01T00:00:00Z')),
+      });
+      const recorder = new OutboxRecorder(adapter, outbox, () => 'local-1');
+      recorder.attach();
+
+      await adapter.mount(null, {
+        width: 800,
+        height: 600,
+        difficulty: 'EASY',
+        packId: PACK_ID,
+        sessionId: 'test-session',
+        durationSec: 10,
+      });
+      await adapter.start({
+        sessionId: 'test-session',
+        packId: PACK_ID,
+        difficulty: 'EASY',
+        words,
+        rngSeed: 5,
+      });
+      await adapter.typeText(adapter.getState().currentWords.attack.text, 150);
+      adapter.advanceTime(10_000);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const pending = await outbox.getPending();
+      expect(pending.map(entry => entry.kind)).toEqual([
+        'session-start',
+        'attempt',
+        'session-end',
+      ]);
+      expect(pending[0].payload).toEqual({
+        packId: PACK_ID,
+        difficulty: 'EASY',
+      });
+      expect(pending[1].payload).toMatchObject({
+        type: 'ATTACK',
+        accuracy: 1,
+        combo: 1,
+      });
+      expect(pending[2].payload).toMatchObject({
+        durationSec: 10,
+        stats: { atkCount: 1, healCount: 0, guardRate: 0 },
+      });
+      expect(pending.every(entry => entry.localSessionId === 'local-1')).toBe(
+        true
+      );
+
+      recorder.detach();
+      adapter.destroy();
+    });
+
+    it('should not queue the start of a battle it opened', async () => {
+      jest.useRealTimers();
+      const adapter = new HeadlessAdapter();
+      const recorder = new OutboxRecorder(adapter, outbox, () => 'local-1');
+      recorder.attach();
+
+      await adapter.mount(null, {
+        width: 800,
+        height: 600,
+        difficulty: 'EASY',
+        packId: PACK_ID,
+        sessionId: 'test-session',
+        durationSec: 10,
+      });
+      const created = await recorder.openSession({
+        packId: PACK_ID,
+        difficulty: 'EASY',
+      });
+      await adapter.start({
+        sessionId: created!.sessionId,
+        packId: PACK_ID,
+        difficulty: 'EASY',
+        words,
+      });
+      await adapter.typeText(adapter.getState().currentWords.attack.text, 150);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect((await outbox.getPending()).map(entry => entry.kind)).toEqual([
+        'attempt',
+      ]);
+      expect(await store.getServerSession('local-1')).toEqual({
+        sessionId: SERVER_SESSION_ID,
+        guestToken: null,
+      });
+
+      recorder.detach();
+      adapter.destroy();
+    });
+
+    it('should queue a replay with the session end', async () => {
+      jest.useRealTimers();
+      const adapter = new HeadlessAdapter();
+      const replayRecorder = new ReplayRecorder(adapter);
+      const recorder = new OutboxRecorder(adapter, outbox, () => 'local-1');
+
+      await adapter.mount(null, {
+        width: 800,
+        height: 600,
+        difficulty: 'EASY',
+        packId: PACK_ID,
+        sessionId: 'test-session',
+        durationSec: 10,
+      });
+      await recorder.openSession({ packId: PACK_ID, difficulty: 'EASY' });
+      await adapter.start({
+        sessionId: SERVER_SESSION_ID,
+        packId: PACK_ID,
+        difficulty: 'EASY',
+        words,
+        rngSeed: 5,
+      });
+      await adapter.typeText(adapter.getState().currentWords.attack.text, 150);
+
+      const replay = replayRecorder.getReplay();
+      recorder.recordEnd(
+        {
+          sessionId: SERVER_SESSION_ID,
+          result: 'ABORT',
+          finalStats: adapter.getState().stats,
+          duration: 1,
+          attempts: [],
+          actions: [],
+        },
+        replay
+      );
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const [ended] = await outbox.getPending();
+      expect(ended.kind).toBe('session-end');
+      expect(ended.payload).toMatchObject({ result: 'ABORT', replay });
+      expect(replay.keystrokes.length).toBeGreaterThan(0);
+
+      replayRecorder.detach();
+      adapter.destroy();
+    });
+  });
+});
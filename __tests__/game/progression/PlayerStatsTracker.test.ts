@@ -0,0 +1,133 @@
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { PlayerStatsTracker } from '@/lib/game/progression/PlayerStatsTracker';
+import {
+  LOCAL_PLAYER_STATS_KEY,
+  LocalStoragePlayerStatsStore,
+} from '@/lib/game/progression/playerStatsStore';
+import { DEFAULT_PLAYER_STATS } from '@/lib/game/utils/progression';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type { PlayerStats, Word } from '@/lib/game/types';
+
+describe('PlayerStatsTracker', () => {
+  const words: Word[] = [
+    { id: '1', text: 'apple', level: 1, length: 5 },
+    { id: '2', text: 'bread', level: 1, length: 5 },
+    { id: '3', text: 'cloud', level: 2, length: 5 },
+    { id: '4', text: 'dance', level: 2, length: 5 },
+    { id: '5', text: 'eagle', level: 2, length: 5 },
+    { id: '6', text: 'forest', level: 3, length: 6 },
+    { id: '7', text: 'garden', level: 1, length: 6 },
+    { id: '8', text: 'honey', level: 1, length: 5 },
+  ];
+
+  let adapter: HeadlessAdapter;
+  let store: LocalStoragePlayerStatsStore;
+  let tracker: PlayerStatsTracker;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    adapter = new HeadlessAdapter({
+      clock: new ManualClock(Date.parse('2025-09-01T00:00:00Z')),
+    });
+    store = new LocalStoragePlayerStatsStore(window.localStorage);
+    tracker = new PlayerStatsTracker(adapter, store, {
+      baseXp: 20,
+      growth: 1,
+      maxLevel: 10,
+    });
+  });
+
+  afterEach(() => {
+    tracker.detach();
+    adapter.destroy();
+  });
+
+  const playSession = async (wordsToType: number) => {
+    const playerStats = await tracker.attach();
+
+    await adapter.mount(null, {
+      width: 800,
+      height: 600,
+      difficulty: 'EASY',
+      packId: 'test-pack',
+      sessionId: 'test-session',
+      durationSec: 10,
+    });
+    await adapter.start({
+      sessionId: 'test-session',
+      packId: 'test-pack',
+      difficulty: 'EASY',
+      words,
+      rngSeed: 5,
+      playerStats,
+    });
+
+    for (let i = 0; i < wordsToType; i++) {
+      await adapter.typeText(adapter.getState().currentWords.heal.text, 100);
+    }
+    adapter.advanceTime(10_000);
+    await Promise.resolve();
+  };
+
+  it('should award experience and save the stats when the battle ends', async () => {
+    await playSession(3);
+
+    const gain = tracker.getLastGain();
+    expect(gain).not.toBeNull();
+    expect(gain!.experience).toBeGreaterThanOrEqual(30);
+    expect(gain!.previousLevel).toBe(1);
+    expect(gain!.level).toBeGreaterThan(1);
+    expect(tracker.getStats()).toMatchObject({
+      experience: gain!.experience,
+      gamesPlayed: 1,
+    });
+    await expect(store.load()).resolves.toEqual(tracker.getStats());
+  });
+
+  it('should add to the stored stats', async () => {
+    const stored: PlayerStats = {
+      level: 3,
+      experience: 45,
+      averageWPM: 30,
+      averageAccuracy: 0.9,
+      gamesPlayed: 4,
+      gamesWon: 2,
+    };
+    await store.save(stored);
+
+    await playSession(0);
+
+    expect(tracker.getStats()).toMatchObject({
+      level: 3,
+      gamesPlayed: 5,
+    });
+    expect(tracker.getStats().averageWPM).toBeLessThan(stored.averageWPM);
+  });
+
+  it('should award nothing before a battle ends', async () => {
+    await tracker.attach();
+
+    expect(tracker.getLastGain()).toBeNull();
+    expect(tracker.getStats()).toEqual(DEFAULT_PLAYER_STATS);
+  });
+
+  describe('LocalStoragePlayerStatsStore', () => {
+    it('should ignore corrupt stored data', async () => {
+      window.localStorage.setItem(LOCAL_PLAYER_STATS_KEY, '{oops');
+      await expect(store.load()).resolves.toEqual(DEFAULT_PLAYER_STATS);
+
+      window.localStorage.setItem(
+        LOCAL_PLAYER_STATS_KEY,
+        JSON.stringify({ ...DEFAULT_PLAYER_STATS, level: 0 })
+      );
+      await expect(store.load()).resolves.toEqual(DEFAULT_PLAYER_STATS);
+    });
+
+    it('should do nothing without storage', async () => {
+      const noStorage = new LocalStoragePlayerStatsStore(null);
+      await noStorage.save({ ...DEFAULT_PLAYER_STATS, level: 2 });
+
+      await expect(noStorage.load()).resolves.toEqual(DEFAULT_PLAYER_STATS);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { ReplayRecorder } from '@/lib/game/replay/ReplayRecorder';
+import { parseReplay, serializeReplay } from '@/lib/game/replay/replayFormat';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type { GameConfig, SessionSeed, Word } from '@/lib/game/types';
+
+describe('ReplayRecorder', () => {
+  let adapter: HeadlessAdapter;
+  let recorder: ReplayRecorder;
+
+  const words: Word[] = [
+    { id: '1', text: 'apple', level: 1, length: 5 },
+    { id: '2', text: 'bread', level: 1, length: 5 },
+    { id: '3', text: 'cloud', level: 2, length: 5 },
+    { id: '4', text: 'dance', level: 2, length: 5 },
+    { id: '5', text: 'eagle', level: 2, length: 5 },
+    { id: '6', text: 'forest', level: 3, length: 6 },
+    { id: '7', text: 'garden', level: 1, length: 6 },
+    { id: '8', text: 'honey', level: 1, length: 5 },
+    { id: '9', text: 'island', level: 2, length: 6 },
+    { id: '10', text: 'jungle', level: 3, length: 6 },
+    { id: '11', text: 'kettle', level: 2, length: 6 },
+    { id: '12', text: 'lemon', level: 1, length: 5 },
+  ];
+
+  const config: GameConfig = {
+    width: 800,
+    height: 600,
+    difficulty: 'NORMAL',
+    packId: 'test-pack',
+    sessionId: 'replay-session',
+    durationSec: 30,
+  };
+
+  const sessionSeed: SessionSeed = {
+    sessionId: 'replay-session',
+    packId: 'test-pack',
+    difficulty: 'NORMAL',
+    words,
+    rngSeed: 31337,
+  };
+
+  beforeEach(() => {
+    adapter = new HeadlessAdapter({ clock: new ManualClock(1_000_000) });
+    recorder = new ReplayRecorder(adapter);
+  });
+
+  afterEach(() => {
+    recorder.detach();
+    adapter.destroy();
+  });
+
+  const playSession = async () => {
+    await adapter.mount(null, config);
+    await adapter.start(sessionSeed);
+    await playWords();
+  };
+
+  const playWords = async () => {
+    for (let i = 0; i < 6 && adapter.isRunning(); i++) {
+      const { attack, heal, guard } = adapter.getState().currentWords;
+      const target = guard ?? (i % 3 === 2 ? heal : attack);
+
+      // A typo and its correction on every other word
+      if (i % 2 === 1) {
+        await adapter.typeText(target.text.slice(0, 2) + 'q', 130);
+        adapter.advanceTime(90);
+        await adapter.processKeystroke('Backspace');
+        await adapter.typeText(target.text.slice(2), 140);
+      } else {
+        await adapter.typeText(target.text, 120 + i * 15);
+      }
+      adapter.advanceTime(500);
+    }
+  };
+
+  it('should refuse to build a replay before the session starts', () => {
+    expect(() => recorder.getReplay()).toThrow(
+      'ReplayRecorder: No session has been recorded'
+    );
+  });
+
+  it('should record keystrokes relative to the session start', async () => {
+    await adapter.mount(null, config);
+    await adapter.start(sessionSeed);
+    await adapter.typeText('ab', 200);
+
+    const replay = recorder.getReplay();
+
+    expect(recorder.isRecording()).toBe(true);
+    expect(replay.sessionSeed.rngSeed).toBe(31337);
+    expect(replay.keystrokes.map(k => [k.key, k.timestamp])).toEqual([
+      ['a', 200],
+      ['b', 400],
+    ]);
+  });
+
+  it('should record pause and resume markers', async () => {
+    await adapter.mount(null, config);
+    await adapter.start(sessionSeed);
+
+    adapter.advanceTime(1000);
+    adapter.pause();
+    adapter.advanceTime(5000);
+    adapter.resume();
+
+    expect(recorder.getReplay().markers).toEqual([
+      { type: 'pause', timestamp: 1000 },
+      { type: 'resume', timestamp: 6000 },
+    ]);
+  });
+
+  it('should finish recording when the session ends', async () => {
+    await playSession();
+    adapter.advanceTime(config.durationSec * 1000);
+
+    const replay = recorder.getReplay();
+
+    expect(recorder.isRecording()).toBe(false);
+    expect(replay.result).toBe(adapter.getSessionResult()!.result);
+    expect(replay.durationMs).toBeGreaterThan(0);
+  });
+
+  it('should play a recorded session back to the same outcome', async () => {
+    await playSession();
+    adapter.pause();
+    adapter.advanceTime(2000);
+    adapter.resume();
+    adapter.advanceTime(config.durationSec * 1000);
+
+    const replay = parseReplay(serializeReplay(recorder.getReplay()));
+    const playback = new HeadlessAdapter({ clock: new ManualClock(1_000_000) });
+
+    await playback.playReplay(replay);
+
+    expect(playback.getState().status).toBe('ENDED');
+    expect(playback.getAttempts()).toEqual(adapter.getAttempts());
+    expect(playback.getState().stats).toEqual(adapter.getState().stats);
+    expect(playback.getState().hp).toEqual(adapter.getState().hp);
+    expect(playback.getSessionResult()).toEqual(adapter.getSessionResult());
+
+    playback.destroy();
+  });
+
+  it('should apply pauses in the middle of a session', async () => {
+    await adapter.mount(null, config);
+    await adapter.start(sessionSeed);
+    await adapter.typeText(adapter.getState().currentWords.attack.text, 150);
+    adapter.pause();
+    adapter.advanceTime(4000);
+    adapter.resume();
+    await playWords();
+    adapter.advanceTime(config.durationSec * 1000);
+
+    const replay = recorder.getReplay();
+    const playback = new HeadlessAdapter({ clock: new ManualClock(1_000_000) });
+
+    await playback.playReplay(replay);
+
+    expect(replay.markers.map(marker => marker.type)).toEqual([
+      'pause',
+      'resume',
+    ]);
+    expect(playback.getState().status).toBe('ENDED');
+    expect(playback.getState().stats.totalDamage).toBe(
+      adapter.getState().stats.totalDamage
+    );
+    expect(playback.getSessionResult()).toEqual(adapter.getSessionResult());
+
+    playback.destroy();
+  });
+
+  it('should reject replaying on an adapter that has already started', async () => {
+    await playSession();
+    const replay = recorder.getReplay();
+
+    await expect(adapter.playReplay(replay)).rejects.toThrow(
+      'HeadlessAdapter: playReplay() needs an adapter that has not started'
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  REPLAY_FORMAT_VERSION,
+  getReplaySteps,
+  parseReplay,
+  serializeReplay,
+  validateReplay,
+} from '@/lib/game/replay/replayFormat';
+import type { SessionReplay } from '@/lib/game/types';
+
+describe('replayFormat', () => {
+  const createReplay = (
+    overrides: Partial<SessionReplay> = {}
+  ): SessionReplay => ({
+    version: REPLAY_FORMAT_VERSION,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    config: {
+      width: 800,
+      height: 600,
+      difficulty: 'EASY',
+      packId: 'test-pack',
+      sessionId: 'test-session',
+      durationSec: 60,
+    },
+    sessionSeed: {
+      sessionId: 'test-session',
+      packId: 'test-pack',
+      difficulty: 'EASY',
+      words: [{ id: '1', text: 'cat', level: 1, length: 3 }],
+      rngSeed: 1,
+    },
+    keystrokes: [
+      { key: 'c', timestamp: 100, inputLength: 0, isCorrection: false },
+      { key: 'a', timestamp: 250, inputLength: 1, isCorrection: false },
+    ],
+    markers: [],
+    durationMs: 1000,
+    ...overrides,
+  });
+
+  describe('validateReplay', () => {
+    it('should accept a well formed replay', () => {
+      expect(validateReplay(createReplay())).toEqual({
+        valid: true,
+        errors: [],
+      });
+    });
+
+    it('should reject an unsupported version', () => {
+      const result = validateReplay(createReplay({ version: 99 }));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Unsupported replay version: 99');
+    });
+
+    it('should reject out of order keystrokes', () => {
+      const result = validateReplay(
+        createReplay({
+          keystrokes: [
+            { key: 'c', timestamp: 300, inputLength: 0, isCorrection: false },
+            { key: 'a', timestamp: 200, inputLength: 1, isCorrection: false },
+          ],
+        })
+      );
+
+      expect(result.errors).toContain('Keystroke 1 is out of order');
+    });
+
+    it('should reject keystrokes and markers that are not objects', () => {
+      const result = validateReplay({
+        ...createReplay(),
+        keystrokes: [null, 1],
+        markers: [null],
+      });
+
+      expect(result.errors).toEqual([
+        'Keystroke 0 must be an object',
+        'Keystroke 1 must be an object',
+        'Marker 0 must be an object',
+      ]);
+    });
+
+    it('should reject a marker without a type or timestamp', () => {
+      const result = validateReplay({
+        ...createReplay(),
+        markers: [{ type: 'rewind', timestamp: -1 }],
+      });
+
+      expect(result.errors).toEqual([
+        'Marker 0 has an invalid type',
+        'Marker 0 has an invalid timestamp',
+      ]);
+    });
+
+    it('should reject seed words without a string id', () => {
+      const replay = createReplay();
+      const result = validateReplay({
+        ...replay,
+        sessionSeed: {
+          ...replay.sessionSeed,
+          words: [{ text: 'cat', level: 1, length: 3 }],
+        },
+      });
+
+      expect(result.errors).toEqual([
+        'Replay word 0 needs a string id and text',
+      ]);
+    });
+
+    it('should reject a replay that is not an object', () => {
+      expect(validateReplay(null)).toEqual({
+        valid: false,
+        errors: ['Replay must be an object'],
+      });
+    });
+  });
+
+  describe('parseReplay', () => {
+    it('should round-trip through serializeReplay', () => {
+      const replay = createReplay();
+
+      expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => parseReplay('{not json')).toThrow(
+        'parseReplay: Invalid JSON'
+      );
+    });
+
+    it('should throw on an invalid replay', () => {
+      expect(() =>
+        parseReplay(serializeReplay(createReplay({ durationMs: -1 })))
+      ).toThrow('parseReplay: Invalid replay duration: -1');
+    });
+  });
+
+  describe('getReplaySteps', () => {
+    it('should merge keystrokes and markers in time order', () => {
+      const steps = getReplaySteps(
+        createReplay({
+          markers: [
+            { type: 'pause', timestamp: 250 },
+            { type: 'resume', timestamp: 100 },
+          ],
+        })
+      );
+
+      expect(steps).toEqual([
+        { at: 100, type: 'resume' },
+        { at: 100, type: 'keystroke', key: 'c' },
+        { at: 250, type: 'keystroke', key: 'a' },
+        { at: 250, type: 'pause' },
+      ]);
+    });
+  });
+});
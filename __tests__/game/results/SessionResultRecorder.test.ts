@@ -0,0 +1,150 @@
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { SessionResultRecorder } from '@/lib/game/results/SessionResultRecorder';
+import {
+  LOCAL_SESSION_RESULTS_KEY,
+  LocalStorageSessionResultStore,
+} from '@/lib/game/results/sessionResultStore';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type { SessionResult, Word } from '@/lib/game/types';
+
+describe('SessionResultRecorder', () => {
+  const words: Word[] = [
+    { id: '1', text: 'apple', level: 1, length: 5 },
+    { id: '2', text: 'bread', level: 1, length: 5 },
+    { id: '3', text: 'cloud', level: 2, length: 5 },
+    { id: '4', text: 'dance', level: 2, length: 5 },
+    { id: '5', text: 'eagle', level: 2, length: 5 },
+    { id: '6', text: 'forest', level: 3, length: 6 },
+    { id: '7', text: 'garden', level: 1, length: 6 },
+    { id: '8', text: 'honey', level: 1, length: 5 },
+  ];
+
+  let adapter: HeadlessAdapter;
+  let store: LocalStorageSessionResultStore;
+  let recorder: SessionResultRecorder;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    adapter = new HeadlessAdapter({
+      clock: new ManualClock(Date.parse('2025-09-01T00:00:00Z')),
+    });
+    store = new LocalStorageSessionResultStore(window.localStorage);
+    recorder = new SessionResultRecorder(adapter, store);
+    recorder.attach();
+  });
+
+  afterEach(() => {
+    recorder.detach();
+    adapter.destroy();
+  });
+
+  const playSession = async (sessionId = 'test-session') => {
+    await adapter.mount(null, {
+      width: 800,
+      height: 600,
+      difficulty: 'EASY',
+      packId: 'test-pack',
+      sessionId,
+      durationSec: 10,
+    });
+    await adapter.start({
+      sessionId,
+      packId: 'test-pack',
+      difficulty: 'EASY',
+      words,
+      rngSeed: 5,
+    });
+
+    await adapter.typeText(adapter.getState().currentWords.attack.text, 150);
+    await adapter.typeText(adapter.getState().currentWords.heal.text, 150);
+    adapter.advanceTime(10_000);
+    await Promise.resolve();
+  };
+
+  it('should save the finished session with each action and its breakdown', async () => {
+    await playSession();
+
+    const result = recorder.getResult();
+    expect(result).toMatchObject({
+      sessionId: 'test-session',
+      duration: 10,
+    });
+    expect(result!.actions.map(action => action.type)).toEqual([
+      'ATTACK',
+      'HEAL',
+    ]);
+    expect(result!.actions[0].breakdown).toEqual(
+      expect.arrayContaining([expect.stringMatching(/^Base damage/)])
+    );
+
+    const stored = await store.load('test-session');
+    expect(stored?.actions).toHaveLength(2);
+    // Keystroke patterns are left out of storage
+    expect(stored?.attempts[0].keystrokePattern).toBeUndefined();
+    expect(result!.attempts[0].keystrokePattern).toBeDefined();
+  });
+
+  it('should start a fresh result for each session', async () => {
+    await playSession('first');
+    adapter.destroy();
+    adapter = new HeadlessAdapter({
+      clock: new ManualClock(Date.parse('2025-09-01T01:00:00Z')),
+    });
+    recorder.detach();
+    recorder = new SessionResultRecorder(adapter, store);
+    recorder.attach();
+
+    await playSession('second');
+
+    expect(recorder.getResult()?.actions).toHaveLength(2);
+    expect((await store.list()).map(result => result.sessionId)).toEqual([
+      'second',
+      'first',
+    ]);
+  });
+
+  describe('LocalStorageSessionResultStore', () => {
+    const result = (sessionId: string): SessionResult => ({
+      sessionId,
+      result: 'WIN',
+      finalStats: {
+        wpm: 0,
+        accuracy: 1,
+        totalDamage: 0,
+        totalHealing: 0,
+        attackCount: 0,
+        healCount: 0,
+        guardCount: 0,
+        maxCombo: 0,
+        wordsCompleted: 0,
+        damageTaken: 0,
+        damageBlocked: 0,
+      },
+      duration: 30,
+      attempts: [],
+      actions: [],
+    });
+
+    it('should keep only the latest results', async () => {
+      for (let i = 0; i < 25; i++) {
+        await store.save(result(`session-${i}`));
+      }
+
+      const stored = await store.list();
+      expect(stored).toHaveLength(20);
+      expect(stored[0].sessionId).toBe('session-24');
+      await expect(store.load('session-0')).resolves.toBeNull();
+    });
+
+    it('should ignore corrupt stored data', async () => {
+      window.localStorage.setItem(LOCAL_SESSION_RESULTS_KEY, '{oops');
+      await expect(store.list()).resolves.toEqual([]);
+
+      window.localStorage.setItem(
+        LOCAL_SESSION_RESULTS_KEY,
+        JSON.stringify([{ sessionId: 'broken' }, result('valid')])
+      );
+      await expect(store.list()).resolves.toEqual([result('valid')]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { HeadlessAdapter } from '@/lib/game/HeadlessAdapter';
+import { ReviewTracker } from '@/lib/game/reviews/ReviewTracker';
+import {
+  LOCAL_REVIEWS_KEY,
+  LocalStorageReviewStore,
+} from '@/lib/game/reviews/reviewStore';
+import { ManualClock } from '@/lib/game/utils/clock';
+import type { Word } from '@/lib/game/types';
+
+describe('ReviewTracker', () => {
+  const words: Word[] = [
+    { id: '1', text: 'apple', level: 1, length: 5 },
+    { id: '2', text: 'bread', level: 1, length: 5 },
+    { id: '3', text: 'cloud', level: 2, length: 5 },
+    { id: '4', text: 'dance', level: 2, length: 5 },
+    { id: '5', text: 'eagle', level: 2, length: 5 },
+    { id: '6', text: 'forest', level: 3, length: 6 },
+    { id: '7', text: 'garden', level: 1, length: 6 },
+    { id: '8', text: 'honey', level: 1, length: 5 },
+  ];
+
+  let adapter: HeadlessAdapter;
+  let store: LocalStorageReviewStore;
+  let tracker: ReviewTracker;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    adapter = new HeadlessAdapter({
+      clock: new ManualClock(Date.parse('2025-09-01T00:00:00Z')),
+    });
+    store = new LocalStorageReviewStore(window.localStorage);
+    tracker = new ReviewTracker(adapter, store);
+  });
+
+  afterEach(() => {
+    tracker.detach();
+    adapter.destroy();
+  });
+
+  const startSession = async () => {
+    const reviewSchedule = await tracker.attach();
+
+    await adapter.mount(null, {
+      width: 800,
+      height: 600,
+      difficulty: 'EASY',
+      packId: 'test-pack',
+      sessionId: 'test-session',
+      durationSec: 10,
+    });
+    await adapter.start({
+      sessionId: 'test-session',
+      packId: 'test-pack',
+      difficulty: 'EASY',
+      words,
+      rngSeed: 5,
+      reviewSchedule,
+    });
+  };
+
+  it('should review each completed word', async () => {
+    await startSession();
+    const attack = adapter.getState().currentWords.attack;
+
+    await adapter.typeText(attack.text, 200);
+
+    expect(tracker.getReviews()).toEqual([
+      expect.objectContaining({ wordId: attack.id, repetitions: 1 }),
+    ]);
+  });
+
+  it('should save reviews to the store when the session ends', async () => {
+    await startSession();
+    const attack = adapter.getState().currentWords.attack;
+    await adapter.typeText(attack.text, 200);
+
+    adapter.advanceTime(10_000);
+    await Promise.resolve();
+
+    const saved = await store.load();
+    expect(saved.map(review => review.wordId)).toEqual([attack.id]);
+  });
+
+  it('should hand stored reviews to the next session', async () => {
+    await store.save([
+      {
+        wordId: '3',
+        easeFactor: 1.5,
+        intervalDays: 1,
+        repetitions: 0,
+        lapses: 2,
+        dueAt: 0,
+        lastReviewedAt: 0,
+      },
+    ]);
+
+    const schedule = await tracker.attach();
+
+    expect(schedule.asOf).toBe(Date.parse('2025-09-01T00:00:00Z'));
+    expect(schedule.reviews.map(review => review.wordId)).toEqual(['3']);
+  });
+
+  describe('LocalStorageReviewStore', () => {
+    it('should ignore corrupt stored data', async () => {
+      window.localStorage.setItem(LOCAL_REVIEWS_KEY, '{oops');
+
+      await expect(store.load()).resolves.toEqual([]);
+    });
+
+    it('should do nothing without storage', async () => {
+      const noStorage = new LocalStorageReviewStore(null);
+      await noStorage.save([]);
+
+      await expect(noStorage.load()).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  LOCAL_SETTINGS_KEY,
+  createSettingsStore,
+  getGameSettings,
+} from '@/lib/game/settings/settingsStore';
+import {
+  ProfileSettingsStore,
+  SettingsSync,
+} from '@/lib/game/settings/SettingsSync';
+import type { GameSettings } from '@/lib/game/types';
+import { DEFAULT_GAME_SETTINGS } from '@/lib/game/utils/settings';
+
+describe('settingsStore', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should start with the default settings', () => {
+    const store = createSettingsStore(window.localStorage);
+
+    expect(getGameSettings(store.getState())).toEqual(DEFAULT_GAME_SETTINGS);
+  });
+
+  it('should persist changes for the next visit', () => {
+    const store = createSettingsStore(window.localStorage);
+    store.getState().setBattleLength(10);
+    store.getState().setKeyboardLayout('azerty');
+    store.getState().updateA11y({ highContrast: true });
+    store.getState().updateSound({ volume: 0.3 });
+
+    const reloaded = createSettingsStore(window.localStorage);
+
+    expect(getGameSettings(reloaded.getState())).toEqual({
+      ...DEFAULT_GAME_SETTINGS,
+      battleLength: 10,
+      keyboardLayout: 'azerty',
+      a11y: { ...DEFAULT_GAME_SETTINGS.a11y, highContrast: true },
+      sound: { ...DEFAULT_GAME_SETTINGS.sound, volume: 0.3 },
+    });
+  });
+
+  it('should ignore invalid stored settings', () => {
+    window.localStorage.setItem(
+      LOCAL_SETTINGS_KEY,
+      JSON.stringify({
+        state: { difficulty: 'HARD', battleLength: 42 },
+        version: 1,
+      })
+    );
+
+    const store = createSettingsStore(window.localStorage);
+
+    expect(store.getState().difficulty).toBe('HARD');
+    expect(store.getState().battleLength).toBe(5);
+  });
+
+  it('should reset to the defaults', () => {
+    const store = createSettingsStore(window.localStorage);
+    store.getState().setDifficulty('EASY');
+    store.getState().resetSettings();
+
+    expect(getGameSettings(store.getState())).toEqual(DEFAULT_GAME_SETTINGS);
+  });
+
+  it('should work without storage', () => {
+    const store = createSettingsStore(null);
+    store.getState().setPackId('pack-1');
+
+    expect(store.getState().packId).toBe('pack-1');
+  });
+
+  describe('SettingsSync', () => {
+    class MemoryProfileSettingsStore implements ProfileSettingsStore {
+      saved: GameSettings[] = [];
+
+      constructor(private stored: GameSettings | null = null) {}
+
+      async load(): Promise<GameSettings | null> {
+        return this.stored;
+      }
+
+      async save(settings: GameSettings): Promise<void> {
+        this.saved.push(settings);
+        this.stored = settings;
+      }
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should replace local settings with the profile's", async () => {
+      const store = createSettingsStore(window.localStorage);
+      const profileSettings: GameSettings = {
+        ...DEFAULT_GAME_SETTINGS,
+        difficulty: 'HARD',
+      };
+      const profile = new MemoryProfileSettingsStore(profileSettings);
+
+      const settings = await new SettingsSync(store, profile).attach();
+
+      expect(settings).toEqual(profileSettings);
+      expect(store.getState().difficulty).toBe('HARD');
+      expect(profile.saved).toEqual([]);
+    });
+
+    it('should save local settings to a profile without any', async () => {
+      const store = createSettingsStore(window.localStorage);
+      store.getState().setBattleLength(3);
+      const profile = new MemoryProfileSettingsStore();
+
+      await new SettingsSync(store, profile).attach();
+
+      expect(profile.saved).toEqual([
+        { ...DEFAULT_GAME_SETTINGS, battleLength: 3 },
+      ]);
+    });
+
+    it('should save changes once they settle', async () => {
+      const store = createSettingsStore(window.localStorage);
+      const profile = new MemoryProfileSettingsStore(DEFAULT_GAME_SETTINGS);
+      const sync = new SettingsSync(store, profile, 500);
+      await sync.attach();
+
+      store.getState().updateSound({ volume: 0.4 });
+      store.getState().updateSound({ volume: 0.5 });
+      jest.advanceTimersByTime(499);
+      expect(profile.saved).toEqual([]);
+
+      jest.advanceTimersByTime(1);
+      expect(profile.saved).toHaveLength(1);
+      expect(profile.saved[0].sound.volume).toBe(0.5);
+
+      sync.detach();
+      store.getState().setDifficulty('EASY');
+      jest.advanceTimersByTime(500);
+      expect(profile.saved).toHaveLength(1);
+    });
+  });
+});
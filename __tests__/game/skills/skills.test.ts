@@ -0,0 +1,171 @@
+import {
+  MAX_EQUIPPED_SKILLS,
+  SKILLS,
+  applySkills,
+  chargeSkills,
+  createSkillStates,
+  getSkill,
+  getTypingFeats,
+  validateLoadout,
+} from '@/lib/game/skills/skills';
+import type { CombatConfig } from '@/lib/game/utils/combatCalculations';
+import type { CompletedWord } from '@/lib/game/types';
+
+describe('skills', () => {
+  const word: CompletedWord = {
+    id: '1',
+    text: 'apple',
+    level: 1,
+    length: 5,
+    typedText: 'apple',
+    timeMs: 1000,
+    errors: 0,
+    accuracy: 1,
+    wpm: 60,
+    score: 100,
+  };
+
+  const config: CombatConfig = {
+    difficulty: 'NORMAL',
+    playerLevel: 1,
+    combo: 0,
+    timeRemaining: 60,
+    totalTime: 60,
+  };
+
+  describe('registry', () => {
+    it('should key every skill by its id', () => {
+      Object.entries(SKILLS).forEach(([id, skill]) => {
+        expect(skill.id).toBe(id);
+      });
+    });
+
+    it('should return null for an unknown skill', () => {
+      expect(getSkill('power-strike')).toBe(SKILLS['power-strike']);
+      expect(getSkill('toString')).toBeNull();
+    });
+  });
+
+  describe('validateLoadout', () => {
+    it('should accept up to three different skills', () => {
+      expect(
+        validateLoadout(['keen-edge', 'power-strike', 'auto-guard'])
+      ).toEqual({ valid: true, errors: [] });
+      expect(validateLoadout([]).valid).toBe(true);
+    });
+
+    it('should reject too many skills', () => {
+      expect(validateLoadout(Object.keys(SKILLS)).errors).toEqual([
+        `skills can hold at most ${MAX_EQUIPPED_SKILLS} skills`,
+      ]);
+    });
+
+    it('should name unknown and duplicate skills', () => {
+      expect(
+        validateLoadout(['keen-edge', 'fireball', 'keen-edge']).errors
+      ).toEqual([
+        'skills[1] must be one of: keen-edge, heal-boost, power-strike, auto-guard',
+        'skills[2] is already equipped',
+      ]);
+    });
+
+    it('should reject a loadout that is not an array', () => {
+      expect(validateLoadout('keen-edge').errors).toEqual([
+        'skills must be an array',
+      ]);
+    });
+  });
+
+  describe('charges', () => {
+    it('should start passive skills charged and active ones empty', () => {
+      expect(createSkillStates(['keen-edge', 'power-strike'])).toEqual([
+        { id: 'keen-edge', charged: true },
+        { id: 'power-strike', charged: false },
+      ]);
+    });
+
+    it('should detect a perfect word', () => {
+      expect(getTypingFeats(word, 0, 1)).toEqual(['perfect-word']);
+      expect(
+        getTypingFeats({ ...word, errors: 1, accuracy: 0.8 }, 0, 1)
+      ).toEqual([]);
+    });
+
+    it('should detect each new multiple of ten combo', () => {
+      const sloppy = { ...word, errors: 1, accuracy: 0.8 };
+
+      expect(getTypingFeats(sloppy, 9, 10)).toEqual(['combo-10']);
+      expect(getTypingFeats(sloppy, 10, 11)).toEqual([]);
+      expect(getTypingFeats(sloppy, 19, 20)).toEqual(['combo-10']);
+    });
+
+    it('should charge only the skills whose trigger was achieved', () => {
+      const result = chargeSkills(
+        createSkillStates(['power-strike', 'auto-guard']),
+        ['perfect-word']
+      );
+
+      expect(result.skills).toEqual([
+        { id: 'power-strike', charged: true },
+        { id: 'auto-guard', charged: false },
+      ]);
+      expect(result.charged).toEqual([
+        { skillId: 'power-strike', trigger: 'perfect-word' },
+      ]);
+    });
+
+    it('should not report a skill that is already charged', () => {
+      const result = chargeSkills(
+        [{ id: 'power-strike', charged: true }],
+        ['perfect-word']
+      );
+
+      expect(result.charged).toEqual([]);
+    });
+  });
+
+  describe('applySkills', () => {
+    it('should combine the multipliers of skills for the action', () => {
+      const result = applySkills(
+        [
+          { id: 'keen-edge', charged: true },
+          { id: 'power-strike', charged: true },
+          { id: 'heal-boost', charged: true },
+        ],
+        'ATTACK',
+        config
+      );
+
+      expect(result.config.skillMultiplier).toBeCloseTo(2.2);
+      expect(result.config.perfectGuard).toBe(false);
+      expect(result.spent).toEqual(['power-strike']);
+      expect(result.skills).toEqual([
+        { id: 'keen-edge', charged: true },
+        { id: 'power-strike', charged: false },
+        { id: 'heal-boost', charged: true },
+      ]);
+    });
+
+    it('should ignore uncharged skills', () => {
+      const result = applySkills(
+        [{ id: 'power-strike', charged: false }],
+        'ATTACK',
+        config
+      );
+
+      expect(result.config.skillMultiplier).toBe(1);
+      expect(result.spent).toEqual([]);
+    });
+
+    it('should spend a charged auto guard on a perfect guard', () => {
+      const result = applySkills(
+        [{ id: 'auto-guard', charged: true }],
+        'GUARD',
+        config
+      );
+
+      expect(result.config.perfectGuard).toBe(true);
+      expect(result.skills).toEqual([{ id: 'auto-guard', charged: false }]);
+    });
+  });
+});
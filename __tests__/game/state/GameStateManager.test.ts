@@ -1,5 +1,7 @@
 import { GameStateManager } from '@/lib/game/state/GameStateManager';
 import { EventBus } from '@/lib/game/events/EventBus';
+import { DEFAULT_ENEMY } from '@/lib/game/utils/campaign';
+import { INITIAL_ENEMY_STATUS } from '@/lib/game/enemies/EnemyBehaviours';
 import type { GameState, ActionResult, HealthPoints } from '@/lib/game/types';
 
 describe('GameStateManager', () => {
@@ -34,9 +36,17 @@ describe('GameStateManager', () => {
         guardCount: 0,
         maxCombo: 0,
         wordsCompleted: 0,
+        damageTaken: 0,
+        damageBlocked: 0,
       },
       timeLeft: 300,
       round: 1,
+      enemyAttack: null,
+      enemy: DEFAULT_ENEMY,
+      stage: null,
+      enemyStatus: INITIAL_ENEMY_STATUS,
+      skills: [],
+      statusEffects: { player: [], enemy: [] },
     };
 
     gameStateManager = new GameStateManager(initialState, eventBus);
@@ -298,6 +308,45 @@ describe('GameStateManager', () => {
       });
     });
 
+    describe('setEnemyAttack', () => {
+      const guardWord = { id: '3', text: 'block', level: 2 as const, length: 5 };
+
+      it('should open a guard window with the guard word', () => {
+        const result = gameStateManager.setEnemyAttack({ damage: 14, etaMs: 2000, telegraphMs: 2000, guardWord });
+
+        expect(result.valid).toBe(true);
+        const state = gameStateManager.getState();
+        expect(state.enemyAttack?.damage).toBe(14);
+        expect(state.currentWords.guard).toEqual(guardWord);
+      });
+
+      it('should remove the guard word when the window closes', () => {
+        gameStateManager.setEnemyAttack({ damage: 14, etaMs: 2000, telegraphMs: 2000, guardWord });
+        gameStateManager.setEnemyAttack(null);
+
+        const state = gameStateManager.getState();
+        expect(state.enemyAttack).toBeNull();
+        expect(state.currentWords.guard).toBeUndefined();
+      });
+    });
+
+    describe('applyEnemyAttack', () => {
+      it('should damage the player and track damage stats', () => {
+        gameStateManager.applyEnemyAttack(10, 4);
+
+        const state = gameStateManager.getState();
+        expect(state.hp.player).toBe(90);
+        expect(state.stats.damageTaken).toBe(10);
+        expect(state.stats.damageBlocked).toBe(4);
+      });
+
+      it('should not take player HP below zero', () => {
+        gameStateManager.applyEnemyAttack(150);
+
+        expect(gameStateManager.getState().hp.player).toBe(0);
+      });
+    });
+
     describe('setWordLock', () => {
       it('should lock/unlock words correctly', () => {
         const lockResult = gameStateManager.setWordLock('attack');
@@ -0,0 +1,171 @@
+import {
+  AdaptiveDifficulty,
+  DEFAULT_ADAPTIVE_DIFFICULTY,
+  createAdaptiveDifficulty,
+  validateAdaptiveDifficultySettings,
+} from '@/lib/game/utils/adaptiveDifficulty';
+import type { CompletedWord } from '@/lib/game/types';
+
+describe('AdaptiveDifficulty', () => {
+  const word = (updates: Partial<CompletedWord> = {}): CompletedWord => ({
+    id: '1',
+    text: 'apple',
+    level: 2,
+    length: 5,
+    typedText: 'apple',
+    timeMs: 1500,
+    errors: 0,
+    accuracy: 0.9,
+    wpm: 40,
+    score: 100,
+    ...updates,
+  });
+
+  const recordMany = (
+    difficulty: AdaptiveDifficulty,
+    count: number,
+    updates: Partial<CompletedWord> = {}
+  ) => Array.from({ length: count }, () => difficulty.record(word(updates)));
+
+  describe('record', () => {
+    it('should wait for enough words before adjusting', () => {
+      const difficulty = new AdaptiveDifficulty();
+
+      expect(recordMany(difficulty, 3, { accuracy: 1 })).toEqual([
+        null,
+        null,
+        null,
+      ]);
+      expect(difficulty.getEstimate().reasons).toEqual([
+        '3 of 4 words typed at this difficulty',
+      ]);
+    });
+
+    it('should raise the difficulty above the accuracy band at a fluent pace', () => {
+      const difficulty = new AdaptiveDifficulty();
+      const adjustment = recordMany(difficulty, 4, { accuracy: 1 })[3];
+
+      expect(adjustment).toEqual({
+        direction: 'UP',
+        wordsCompleted: 4,
+        levelShift: 1,
+        reasons: ['Accuracy 100% is above the 85%-92% target'],
+      });
+      expect(difficulty.getShift()).toEqual({ level: 1, length: 2 });
+    });
+
+    it('should lower the difficulty below the accuracy band', () => {
+      const difficulty = new AdaptiveDifficulty();
+      const adjustment = recordMany(difficulty, 4, { accuracy: 0.7 })[3];
+
+      expect(adjustment?.direction).toBe('DOWN');
+      expect(adjustment?.reasons).toEqual([
+        'Accuracy 70% is below the 85%-92% target',
+      ]);
+      expect(difficulty.getShift()).toEqual({ level: -1, length: -2 });
+    });
+
+    it('should lower the difficulty for slow words however accurate', () => {
+      const difficulty = new AdaptiveDifficulty();
+      const adjustment = recordMany(difficulty, 4, {
+        accuracy: 1,
+        wpm: 12,
+        timeMs: 6000,
+      })[3];
+
+      expect(adjustment?.direction).toBe('DOWN');
+      expect(adjustment?.reasons).toEqual([
+        'Accuracy 100% is above the 85%-92% target',
+        '12 WPM is below 20 WPM',
+        'Words take 6.0s on average, over 5.0s',
+      ]);
+    });
+
+    it('should hold the difficulty within the band', () => {
+      const difficulty = new AdaptiveDifficulty();
+
+      expect(recordMany(difficulty, 8)).toEqual(Array(8).fill(null));
+      expect(difficulty.getShift().level).toBe(0);
+      expect(difficulty.getEstimate().reasons).toEqual([
+        'Accuracy 90% is within the 85%-92% target',
+      ]);
+    });
+
+    it('should judge the next adjustment only on words at the new difficulty', () => {
+      const difficulty = new AdaptiveDifficulty();
+      recordMany(difficulty, 4, { accuracy: 1 });
+
+      expect(recordMany(difficulty, 3, { accuracy: 1 })).toEqual([
+        null,
+        null,
+        null,
+      ]);
+      expect(difficulty.record(word({ accuracy: 1 }))?.levelShift).toBe(2);
+    });
+
+    it('should not shift past the maximum', () => {
+      const difficulty = new AdaptiveDifficulty({ maxShift: 1 });
+      recordMany(difficulty, 8, { accuracy: 1 });
+
+      expect(difficulty.getShift().level).toBe(1);
+      expect(difficulty.getEstimate().reasons).toContain(
+        'Words are already at the hardest allowed'
+      );
+    });
+  });
+
+  describe('getEstimate', () => {
+    it('should average the recent words and list every adjustment', () => {
+      const difficulty = new AdaptiveDifficulty({ windowSize: 4 });
+      recordMany(difficulty, 4, { accuracy: 0.5, wpm: 30, timeMs: 2000 });
+      recordMany(difficulty, 2, { accuracy: 0.9, wpm: 50, timeMs: 1000 });
+
+      const estimate = difficulty.getEstimate();
+      expect(estimate).toMatchObject({
+        levelShift: -1,
+        lengthShift: -2,
+        wpm: 40,
+        accuracy: 0.7,
+        averageWordTimeMs: 1500,
+        sampleSize: 4,
+      });
+      expect(estimate.adjustments).toHaveLength(1);
+      expect(estimate.adjustments[0].wordsCompleted).toBe(4);
+    });
+  });
+
+  describe('settings', () => {
+    it('should be off unless the session asks for it', () => {
+      expect(createAdaptiveDifficulty(undefined)).toBeNull();
+      expect(createAdaptiveDifficulty(false)).toBeNull();
+      expect(createAdaptiveDifficulty(true)?.getSettings()).toEqual(
+        DEFAULT_ADAPTIVE_DIFFICULTY
+      );
+      expect(
+        createAdaptiveDifficulty({ minWpm: 30 })?.getSettings().minWpm
+      ).toBe(30);
+    });
+
+    it('should name each invalid field', () => {
+      expect(
+        validateAdaptiveDifficultySettings({
+          targetAccuracy: { min: 0.95, max: 0.9 },
+          minWpm: -5,
+          windowSize: 2.5,
+          maxShift: -1,
+        }).errors
+      ).toEqual([
+        'adaptiveDifficulty.targetAccuracy.min must not be above max',
+        'adaptiveDifficulty.minWpm must be a positive number',
+        'adaptiveDifficulty.windowSize must be a positive integer',
+        'adaptiveDifficulty.maxShift must be a non-negative integer',
+      ]);
+    });
+
+    it('should reject needing more samples than the window holds', () => {
+      expect(() => new AdaptiveDifficulty({ windowSize: 3 })).toThrow(
+        'AdaptiveDifficulty: adaptiveDifficulty.minSamples must not be above windowSize'
+      );
+    });
+  });
+});
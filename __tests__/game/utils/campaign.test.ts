@@ -0,0 +1,130 @@
+import {
+  BUILT_IN_CAMPAIGNS,
+  DEFAULT_ENEMY,
+  TOWER_CAMPAIGN,
+  createCampaignResult,
+  getStageState,
+  loadCampaign,
+  validateCampaign,
+  validateEnemy,
+} from '@/lib/game/utils/campaign';
+import type { Campaign } from '@/lib/game/types';
+
+describe('campaign', () => {
+  const clone = (): Campaign => JSON.parse(JSON.stringify(TOWER_CAMPAIGN));
+
+  describe('built-in campaigns', () => {
+    it('should all be valid', () => {
+      Object.values(BUILT_IN_CAMPAIGNS).forEach(campaign => {
+        expect(validateCampaign(campaign)).toEqual({ valid: true, errors: [] });
+      });
+    });
+
+    it('should keep the single battle enemy valid', () => {
+      expect(validateEnemy(DEFAULT_ENEMY).valid).toBe(true);
+    });
+  });
+
+  describe('validateCampaign', () => {
+    it('should reject a campaign without stages', () => {
+      expect(validateCampaign({ ...clone(), stages: [] }).errors).toEqual([
+        'stages must be a non-empty array',
+      ]);
+    });
+
+    it('should name the field of an invalid enemy', () => {
+      const campaign = clone();
+      campaign.stages[1].enemy.maxHp = 0;
+      campaign.stages[2].enemy.levelBias = 7;
+
+      expect(validateCampaign(campaign).errors).toEqual([
+        'stages[1].enemy.maxHp must be a positive integer',
+        'stages[2].enemy.levelBias must be an integer from -4 to 4',
+      ]);
+    });
+
+    it('should reject duplicate stage ids', () => {
+      const campaign = clone();
+      campaign.stages[1].id = campaign.stages[0].id;
+
+      expect(validateCampaign(campaign).errors).toEqual([
+        'stages[1].id is used by an earlier stage',
+      ]);
+    });
+
+    it('should reject categories that are not strings', () => {
+      expect(
+        validateEnemy({ ...DEFAULT_ENEMY, categories: [1] }).errors
+      ).toEqual(['enemy.categories must be an array of strings']);
+    });
+
+    it('should check the colour and behaviours of an enemy', () => {
+      const campaign = clone();
+      campaign.stages[0].enemy.color = 'green';
+      campaign.stages[3].enemy.behaviours = [{ type: 'regenerate', amount: 0 }];
+
+      expect(validateCampaign(campaign).errors).toEqual([
+        'stages[0].enemy.color must be a #rrggbb colour',
+        'stages[3].enemy.behaviours[0].amount must be a positive integer',
+      ]);
+    });
+  });
+
+  describe('loadCampaign', () => {
+    it('should load a built-in campaign by id', () => {
+      expect(loadCampaign('tower')).toBe(TOWER_CAMPAIGN);
+    });
+
+    it('should throw for an unknown id', () => {
+      expect(() => loadCampaign('moon')).toThrow(
+        'Campaign: Unknown campaign: moon'
+      );
+    });
+
+    it('should throw with the first error of an invalid campaign', () => {
+      expect(() => loadCampaign({ ...clone(), name: '' })).toThrow(
+        'Campaign: Invalid campaign: name must be a non-empty string'
+      );
+    });
+  });
+
+  describe('progress', () => {
+    it('should describe a stage', () => {
+      expect(getStageState(TOWER_CAMPAIGN, 1)).toEqual({
+        campaignId: 'tower',
+        index: 1,
+        total: 4,
+        id: 'hall',
+        name: 'Great Hall',
+      });
+    });
+
+    it('should throw for a stage past the end', () => {
+      expect(() => getStageState(TOWER_CAMPAIGN, 4)).toThrow(
+        'Campaign: No stage 4 in tower'
+      );
+    });
+
+    it('should count the stages cleared before a loss', () => {
+      expect(
+        createCampaignResult(getStageState(TOWER_CAMPAIGN, 2), false)
+      ).toEqual({
+        campaignId: 'tower',
+        totalStages: 4,
+        stagesCleared: 2,
+        reachedStageId: 'armory',
+        completed: false,
+      });
+    });
+
+    it('should complete the campaign when the last enemy falls', () => {
+      const result = createCampaignResult(
+        getStageState(TOWER_CAMPAIGN, 3),
+        true
+      );
+
+      expect(result.stagesCleared).toBe(4);
+      expect(result.completed).toBe(true);
+    });
+  });
+});
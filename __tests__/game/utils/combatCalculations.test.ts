@@ -8,6 +8,7 @@ import {
 } from '@/lib/game/utils/combatCalculations';
 
 import type { CompletedWord, CombatConfig } from '@/lib/game/utils/combatCalculations';
+import { CLASSIC_COMBAT_PROFILE, PRD_MVP_COMBAT_PROFILE } from '@/lib/game/utils/combatProfile';
 
 describe('Combat Calculations', () => {
   const mockWord: CompletedWord = {
@@ -110,6 +111,26 @@ describe('Combat Calculations', () => {
       expect(result.breakdown.length).toBeGreaterThan(0);
       expect(result.breakdown[0]).toContain('Base damage');
     });
+
+    it('should roll critical hits with the configured random source', () => {
+      const alwaysCrit = calculateAttackDamage(mockWord, { ...mockConfig, random: () => 0 });
+      const neverCrit = calculateAttackDamage(mockWord, { ...mockConfig, random: () => 0.99 });
+
+      expect(alwaysCrit.isCritical).toBe(true);
+      expect(neverCrit.isCritical).toBe(false);
+      expect(alwaysCrit.finalValue).toBeGreaterThan(neverCrit.finalValue);
+    });
+    it('should scale damage with the number of words in a phrase', () => {
+      const phraseWord = { ...mockWord, text: 'test the gate', length: 13, typedText: 'test the gate' };
+
+      const single = calculateAttackDamage(mockWord, { ...mockConfig, random: () => 0.99 });
+      const phrase = calculateAttackDamage(phraseWord, { ...mockConfig, random: () => 0.99 });
+
+      expect(single.modifiers.phrase).toBe(1);
+      expect(phrase.modifiers.phrase).toBeCloseTo(1.7);
+      expect(phrase.finalValue).toBeGreaterThan(single.finalValue);
+      expect(phrase.breakdown.some(line => line.includes('Phrase modifier'))).toBe(true);
+    });
   });
 
   describe('calculateHealingAmount', () => {
@@ -292,4 +313,104 @@ describe('Combat Calculations', () => {
       expect(isFinite(result.finalValue)).toBe(true);
     });
   });
+
+  describe('Combat Profiles', () => {
+    // L2, 6 letters, one error, 48 WPM
+    const prdWord: CompletedWord = {
+      ...mockWord,
+      text: 'dragon',
+      length: 6,
+      typedText: 'dragon',
+      errors: 1,
+      accuracy: 0.9,
+      wpm: 48,
+    };
+    const prdConfig: CombatConfig = { ...mockConfig, combo: 4, difficulty: 'HARD', profile: PRD_MVP_COMBAT_PROFILE };
+
+    it('should match the classic profile when no profile is given', () => {
+      const config = { ...mockConfig, random: () => 0.99 };
+
+      expect(calculateAttackDamage(mockWord, config)).toEqual(
+        calculateAttackDamage(mockWord, { ...config, profile: CLASSIC_COMBAT_PROFILE })
+      );
+    });
+
+    it('should follow the PRD attack formula', () => {
+      // round((5 + 0.8*2 + 0.2*6) * 0.85 * 1.2 * 1.2) = round(9.55)
+      const result = calculateAttackDamage(prdWord, prdConfig);
+
+      expect(result.baseValue).toBeCloseTo(7.8);
+      expect(result.finalValue).toBe(10);
+      expect(result.isCritical).toBe(false);
+    });
+
+    it('should follow the PRD heal formula', () => {
+      // round((4 + 0.6*2 + 0.15*6) * 0.88 * 1.25) = round(6.71)
+      expect(calculateHealingAmount(prdWord, prdConfig).finalValue).toBe(7);
+    });
+
+    it('should follow the PRD guard formula', () => {
+      // GR = 0.45 * 0.9 * 1.2 = 0.486 of 14 damage
+      const result = calculateGuardEffectiveness(prdWord, 14, prdConfig);
+
+      expect(result.finalValue).toBe(7);
+      expect(result.isCritical).toBe(false);
+    });
+
+    it('should never roll criticals when the profile has none', () => {
+      const random = jest.fn(() => 0);
+
+      const result = calculateAttackDamage(prdWord, { ...prdConfig, random });
+
+      expect(result.isCritical).toBe(false);
+      expect(random).not.toHaveBeenCalled();
+    });
+
+    it('should use the profile success threshold for results', () => {
+      const strict = { ...CLASSIC_COMBAT_PROFILE, successAccuracy: 0.95 };
+      const calculation = calculateAttackDamage(prdWord, prdConfig);
+
+      expect(createAttackResult(prdWord, calculation, 100, 1).success).toBe(true);
+      expect(createAttackResult(prdWord, calculation, 100, 1, strict).success).toBe(false);
+    });
+  });
+
+  describe('Skill Modifiers', () => {
+    const config = { ...mockConfig, random: () => 0.99 };
+
+    it('should scale attack damage by the skill multiplier', () => {
+      const plain = calculateAttackDamage(mockWord, config);
+      const boosted = calculateAttackDamage(mockWord, { ...config, skillMultiplier: 2 });
+
+      // Damage is rounded once, after the skill multiplier
+      expect(Math.abs(boosted.finalValue - plain.finalValue * 2)).toBeLessThanOrEqual(1);
+      expect(boosted.breakdown).toContain('Skill modifier: ×2.00');
+    });
+
+    it('should scale healing by the skill multiplier', () => {
+      const plain = calculateHealingAmount(mockWord, config);
+      const boosted = calculateHealingAmount(mockWord, { ...config, skillMultiplier: 1.25 });
+
+      expect(boosted.finalValue).toBeGreaterThan(plain.finalValue);
+      expect(boosted.breakdown).toContain('Skill modifier: ×1.25');
+      expect(plain.breakdown.some(line => line.startsWith('Skill modifier'))).toBe(false);
+    });
+
+    it('should block the whole attack with a perfect guard skill', () => {
+      const sloppyWord = { ...mockWord, errors: 2, accuracy: 0.6 };
+
+      const result = calculateGuardEffectiveness(sloppyWord, 20, { ...config, perfectGuard: true });
+
+      expect(result.isCritical).toBe(true);
+      expect(result.finalValue).toBe(20);
+    });
+
+    it('should scale attack damage against a vulnerable target', () => {
+      const plain = calculateAttackDamage(mockWord, config);
+      const vulnerable = calculateAttackDamage(mockWord, { ...config, targetMultiplier: 1.5 });
+
+      expect(vulnerable.finalValue).toBeGreaterThan(plain.finalValue);
+      expect(vulnerable.breakdown).toContain('Target modifier: ×1.50');
+    });
+  });
 });
\ No newline at end of file
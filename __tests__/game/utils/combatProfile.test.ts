@@ -0,0 +1,114 @@
+import {
+  BUILT_IN_COMBAT_PROFILES,
+  CLASSIC_COMBAT_PROFILE,
+  PRD_MVP_COMBAT_PROFILE,
+  getBuiltInCombatProfile,
+  loadCombatProfile,
+  validateCombatProfile,
+} from '@/lib/game/utils/combatProfile';
+
+describe('Combat Profiles', () => {
+  const copy = () => JSON.parse(JSON.stringify(CLASSIC_COMBAT_PROFILE));
+
+  describe('built-in profiles', () => {
+    it('should all be valid', () => {
+      Object.values(BUILT_IN_COMBAT_PROFILES).forEach(profile => {
+        expect(validateCombatProfile(profile)).toEqual({
+          valid: true,
+          errors: [],
+        });
+      });
+    });
+
+    it('should survive a JSON round trip', () => {
+      const restored = JSON.parse(JSON.stringify(PRD_MVP_COMBAT_PROFILE));
+
+      expect(restored).toEqual(PRD_MVP_COMBAT_PROFILE);
+      expect(validateCombatProfile(restored).valid).toBe(true);
+    });
+
+    it('should be looked up by id', () => {
+      expect(getBuiltInCombatProfile('classic')).toBe(CLASSIC_COMBAT_PROFILE);
+      expect(getBuiltInCombatProfile('prd-mvp')).toBe(PRD_MVP_COMBAT_PROFILE);
+      expect(getBuiltInCombatProfile('toString')).toBeNull();
+    });
+  });
+
+  describe('validateCombatProfile', () => {
+    it('should reject values that are not objects', () => {
+      expect(validateCombatProfile('classic').errors).toEqual([
+        'profile must be an object',
+      ]);
+      expect(validateCombatProfile(null).valid).toBe(false);
+    });
+
+    it('should name the path of a bad number', () => {
+      const profile = copy();
+      profile.attack.speed.max = 'fast';
+      profile.heal.base.byLevel[3] = -1;
+
+      expect(validateCombatProfile(profile).errors).toEqual([
+        'attack.speed.max must be a number',
+        'heal.base.byLevel.3 must be at least 0',
+      ]);
+    });
+
+    it('should reject unknown formula kinds', () => {
+      const profile = copy();
+      profile.guard.kind = 'magic';
+
+      expect(validateCombatProfile(profile).errors).toContain(
+        'guard.kind must be one of: additive, multiplicative'
+      );
+    });
+
+    it('should require combo tiers to line up', () => {
+      const profile = copy();
+      profile.attack.combo.thresholds = [0, 10, 5];
+      profile.attack.combo.multipliers = [1, 1.5];
+
+      expect(validateCombatProfile(profile).errors).toEqual([
+        'attack.combo.thresholds must be increasing numbers starting at 0',
+        'attack.combo.multipliers must have one number per threshold',
+      ]);
+    });
+
+    it('should keep guard reduction within 0-100%', () => {
+      const profile = copy();
+      profile.guard.max = 1.5;
+
+      expect(validateCombatProfile(profile).errors).toEqual([
+        'guard.max must be at most 1',
+      ]);
+    });
+
+    it('should allow critical hits and combos to be turned off', () => {
+      const profile = copy();
+      profile.critical = null;
+      profile.heal.combo = null;
+
+      expect(validateCombatProfile(profile).valid).toBe(true);
+    });
+  });
+
+  describe('loadCombatProfile', () => {
+    it('should load a built-in profile by id', () => {
+      expect(loadCombatProfile('prd-mvp')).toBe(PRD_MVP_COMBAT_PROFILE);
+    });
+
+    it('should load a valid custom profile', () => {
+      const profile = { ...copy(), id: 'boss-rush', name: 'Boss Rush' };
+
+      expect(loadCombatProfile(profile)).toEqual(profile);
+    });
+
+    it('should throw for unknown ids and invalid profiles', () => {
+      expect(() => loadCombatProfile('overpowered')).toThrow(
+        'CombatProfile: Unknown profile: overpowered'
+      );
+      expect(() => loadCombatProfile({ ...copy(), name: '' })).toThrow(
+        'CombatProfile: Invalid profile: name must be a non-empty string'
+      );
+    });
+  });
+});
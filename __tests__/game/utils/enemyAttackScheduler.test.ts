@@ -0,0 +1,154 @@
+import {
+  EnemyAttackScheduler,
+  getEnemyAttackProfile,
+} from '@/lib/game/utils/enemyAttackScheduler';
+
+describe('EnemyAttackScheduler', () => {
+  const profile = { damage: 14, intervalMs: 4500, telegraphMs: 2000 };
+  let scheduler: EnemyAttackScheduler;
+
+  beforeEach(() => {
+    scheduler = new EnemyAttackScheduler(profile);
+    scheduler.start(0);
+  });
+
+  describe('Profiles', () => {
+    it('should follow the PRD timings for each difficulty', () => {
+      expect(getEnemyAttackProfile('EASY')).toMatchObject({
+        intervalMs: 6000,
+        telegraphMs: 2500,
+      });
+      expect(getEnemyAttackProfile('NORMAL')).toEqual({
+        damage: 14,
+        intervalMs: 4500,
+        telegraphMs: 2000,
+      });
+      expect(getEnemyAttackProfile('HARD')).toMatchObject({
+        intervalMs: 3500,
+        telegraphMs: 1500,
+      });
+    });
+
+    it('should scale damage with difficulty', () => {
+      const easy = getEnemyAttackProfile('EASY').damage;
+      const hard = getEnemyAttackProfile('HARD').damage;
+
+      expect(easy).toBeLessThan(14);
+      expect(hard).toBeGreaterThan(14);
+    });
+
+    it('should scale an enemy attack the same way as the base enemy', () => {
+      const enemy = { attackPower: 20, attackIntervalMs: 3000 };
+
+      expect(getEnemyAttackProfile('NORMAL', enemy)).toEqual({
+        damage: 20,
+        intervalMs: 3000,
+        telegraphMs: 2000,
+      });
+      expect(getEnemyAttackProfile('EASY', enemy)).toEqual({
+        damage: 16,
+        intervalMs: 4000,
+        telegraphMs: 2500,
+      });
+    });
+
+    it('should keep the telegraph within a short enemy interval', () => {
+      const enemy = { attackPower: 5, attackIntervalMs: 1000 };
+
+      expect(getEnemyAttackProfile('NORMAL', enemy).telegraphMs).toBe(1000);
+    });
+
+    it('should reject a telegraph longer than the interval', () => {
+      expect(
+        () =>
+          new EnemyAttackScheduler({
+            damage: 10,
+            intervalMs: 1000,
+            telegraphMs: 2000,
+          })
+      ).toThrow(
+        'EnemyAttackScheduler: telegraphMs must be between 0 and intervalMs'
+      );
+    });
+  });
+
+  describe('Scheduling', () => {
+    it('should telegraph before the attack lands', () => {
+      expect(scheduler.update(2499)).toEqual([]);
+
+      const [telegraph] = scheduler.update(2500);
+      expect(telegraph.phase).toBe('telegraph');
+      expect(telegraph.attack).toMatchObject({ damage: 14, impactAt: 4500 });
+      expect(scheduler.getPendingAttack()?.id).toBe(telegraph.attack.id);
+      expect(scheduler.getTimeUntilImpact(3000)).toBe(1500);
+    });
+
+    it('should land the attack when the telegraph runs out', () => {
+      scheduler.update(2500);
+      const [impact] = scheduler.update(4500);
+
+      expect(impact.phase).toBe('impact');
+      expect(scheduler.getPendingAttack()).toBeNull();
+      expect(scheduler.getTimeUntilImpact(4500)).toBe(4500);
+    });
+
+    it('should report every step when time jumps ahead', () => {
+      const phases = scheduler.update(9000).map(update => update.phase);
+
+      expect(phases).toEqual(['telegraph', 'impact', 'telegraph', 'impact']);
+    });
+
+    it('should keep the rhythm when an attack is guarded early', () => {
+      scheduler.update(3000);
+      const guarded = scheduler.resolvePendingAttack();
+
+      expect(guarded?.impactAt).toBe(4500);
+      expect(scheduler.getPendingAttack()).toBeNull();
+      expect(scheduler.update(4500)).toEqual([]);
+      expect(scheduler.update(7000)[0].attack.impactAt).toBe(9000);
+    });
+
+    it('should not resolve an attack that has not been telegraphed', () => {
+      scheduler.update(1000);
+
+      expect(scheduler.resolvePendingAttack()).toBeNull();
+    });
+
+    it('should use a new interval from the attack after the current one', () => {
+      scheduler.setIntervalMs(1000);
+
+      const impacts = scheduler
+        .update(6500)
+        .filter(update => update.phase === 'impact')
+        .map(update => update.attack.impactAt);
+
+      expect(impacts).toEqual([4500, 5500, 6500]);
+      expect(scheduler.getProfile()).toEqual({
+        damage: 14,
+        intervalMs: 1000,
+        telegraphMs: 1000,
+      });
+    });
+  });
+
+  describe('Pause and Resume', () => {
+    it('should freeze the countdown while paused', () => {
+      scheduler.update(3000);
+      scheduler.pause(3000);
+
+      expect(scheduler.update(10_000)).toEqual([]);
+      expect(scheduler.getTimeUntilImpact(10_000)).toBe(1500);
+
+      scheduler.resume(10_000);
+      expect(scheduler.update(11_499)).toEqual([]);
+      expect(scheduler.update(11_500)[0].phase).toBe('impact');
+    });
+
+    it('should stop producing attacks once stopped', () => {
+      scheduler.stop();
+
+      expect(scheduler.update(60_000)).toEqual([]);
+      expect(scheduler.getTimeUntilImpact(60_000)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  EMPTY_KEYSTROKE_PROFILE,
+  KEYBOARD_LAYOUT_ROWS,
+  KEYBOARD_ROWS,
+  addKeystrokeStats,
+  getKeyboardHeatmap,
+  getKeystrokeStats,
+  getKeystrokeWeight,
+  getWeakSpots,
+} from '@/lib/game/utils/keystrokeProfile';
+import type {
+  KeyboardLayout,
+  KeyStats,
+  KeystrokeEvent,
+  KeystrokeProfile,
+} from '@/lib/game/types';
+
+describe('keystrokeProfile', () => {
+  const keystroke = (
+    key: string,
+    timestamp: number,
+    inputLength: number,
+    isCorrection = false
+  ): KeystrokeEvent => ({ key, timestamp, inputLength, isCorrection });
+
+  const stats = (
+    count: number,
+    errors: number,
+    averageLatencyMs: number
+  ): KeyStats => ({
+    count,
+    errors,
+    totalLatencyMs: averageLatencyMs * count,
+    timedCount: count,
+  });
+
+  describe('getKeystrokeStats', () => {
+    it('should time each key from the key before it', () => {
+      const { keys, bigrams } = getKeystrokeStats('The', [
+        keystroke('T', 0, 1),
+        keystroke('h', 150, 2),
+        keystroke('e', 400, 3),
+      ]);
+
+      expect(keys).toEqual({
+        t: { count: 1, errors: 0, totalLatencyMs: 0, timedCount: 0 },
+        h: { count: 1, errors: 0, totalLatencyMs: 150, timedCount: 1 },
+        e: { count: 1, errors: 0, totalLatencyMs: 250, timedCount: 1 },
+      });
+      expect(bigrams).toEqual({
+        th: { count: 1, errors: 0, totalLatencyMs: 150, timedCount: 1 },
+        he: { count: 1, errors: 0, totalLatencyMs: 250, timedCount: 1 },
+      });
+    });
+
+    it('should count a mistyped key against the expected key', () => {
+      const { keys, bigrams } = getKeystrokeStats('cat', [
+        keystroke('c', 0, 1),
+        keystroke('s', 200, 2, true),
+        keystroke('Backspace', 500, 1, true),
+        keystroke('a', 800, 2),
+        keystroke('t', 1000, 3),
+      ]);
+
+      // The key retyped after the backspace is neither timed nor a bigram
+      expect(keys.a).toEqual({
+        count: 2,
+        errors: 1,
+        totalLatencyMs: 200,
+        timedCount: 1,
+      });
+      expect(keys.s).toBeUndefined();
+      expect(bigrams.ca).toEqual({
+        count: 1,
+        errors: 1,
+        totalLatencyMs: 200,
+        timedCount: 1,
+      });
+      expect(bigrams.at.totalLatencyMs).toBe(200);
+    });
+  });
+
+  describe('addKeystrokeStats', () => {
+    it('should sum the stats of each key and bigram', () => {
+      const profile: KeystrokeProfile = {
+        keys: { a: stats(2, 1, 100) },
+        bigrams: { ab: stats(1, 0, 100) },
+      };
+
+      expect(
+        addKeystrokeStats(profile, {
+          keys: { a: stats(1, 0, 300), b: stats(1, 0, 100) },
+          bigrams: {},
+        })
+      ).toEqual({
+        keys: {
+          a: { count: 3, errors: 1, totalLatencyMs: 500, timedCount: 3 },
+          b: stats(1, 0, 100),
+        },
+        bigrams: { ab: stats(1, 0, 100) },
+      });
+      expect(profile.keys.a).toEqual(stats(2, 1, 100));
+    });
+  });
+
+  describe('getWeakSpots', () => {
+    const profile: KeystrokeProfile = {
+      keys: {
+        a: stats(10, 0, 200),
+        q: stats(10, 5, 200),
+        z: stats(10, 0, 400),
+        x: stats(2, 2, 900), // Too few samples to judge
+      },
+      bigrams: { qu: stats(6, 0, 200) },
+    };
+
+    it('should rank error-prone and slow keys against the learner average', () => {
+      const spots = getWeakSpots(profile);
+
+      expect(spots.map(spot => spot.sequence)).toEqual(['q', 'z']);
+      expect(spots[0]).toMatchObject({ errorRate: 0.5, count: 10 });
+      expect(spots[0].weakness).toBe(1);
+      // The average counts every timed key, x included
+      expect(spots[1].weakness).toBeCloseTo(400 / (9800 / 32) - 1);
+      expect(spots[1].averageLatencyMs).toBe(400);
+    });
+
+    it('should find nothing in an empty profile', () => {
+      expect(getWeakSpots(EMPTY_KEYSTROKE_PROFILE)).toEqual([]);
+    });
+  });
+
+  describe('getKeystrokeWeight', () => {
+    const weakSpots = [
+      {
+        sequence: 'q',
+        weakness: 0.4,
+        errorRate: 0.2,
+        averageLatencyMs: 200,
+        count: 10,
+      },
+      {
+        sequence: 'th',
+        weakness: 0.8,
+        errorRate: 0,
+        averageLatencyMs: 500,
+        count: 10,
+      },
+    ];
+
+    it('should favour words containing weak keys and bigrams', () => {
+      expect(getKeystrokeWeight('queen', weakSpots)).toBeCloseTo(1.4);
+      expect(getKeystrokeWeight('apple', weakSpots)).toBe(1);
+    });
+
+    it('should cap the boost at double weight', () => {
+      expect(getKeystrokeWeight('Quoth', weakSpots)).toBe(2);
+    });
+  });
+
+  describe('getKeyboardHeatmap', () => {
+    it('should lay out every letter with the weakest key hottest', () => {
+      const heatmap = getKeyboardHeatmap({
+        keys: {
+          a: stats(10, 0, 200),
+          q: stats(10, 5, 200),
+          s: stats(2, 2, 900),
+        },
+        bigrams: {},
+      });
+      const key = (letter: string) =>
+        heatmap.flat().find(entry => entry.key === letter)!;
+
+      expect(heatmap.map(row => row.map(entry => entry.key).join(''))).toEqual(
+        KEYBOARD_ROWS
+      );
+      expect(key('q')).toMatchObject({ count: 10, errorRate: 0.5, heat: 1 });
+      expect(key('a').heat).toBe(0);
+      expect(key('s')).toMatchObject({ count: 2, heat: 0 });
+      expect(key('m')).toEqual({
+        key: 'm',
+        count: 0,
+        errorRate: 0,
+        averageLatencyMs: 0,
+        heat: 0,
+      });
+    });
+
+    it('should lay out the keys of every layout', () => {
+      for (const [layout, rows] of Object.entries(KEYBOARD_LAYOUT_ROWS)) {
+        const heatmap = getKeyboardHeatmap(
+          { keys: {}, bigrams: {} },
+          layout as KeyboardLayout
+        );
+        const letters = heatmap.flat().map(entry => entry.key);
+
+        expect(
+          heatmap.map(row => row.map(entry => entry.key).join(''))
+        ).toEqual(rows);
+        expect(new Set(letters).size).toBe(26);
+      }
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { LocalStorageJson } from '@/lib/game/utils/localStorageJson';
+
+describe('LocalStorageJson', () => {
+  const KEY = 'typing-quest:test';
+  const isNumber = (value: unknown): value is number =>
+    typeof value === 'number';
+
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should read back what it wrote', () => {
+    const entry = new LocalStorageJson(KEY);
+    entry.write([1, 2, 3]);
+
+    expect(entry.readList(isNumber)).toEqual([1, 2, 3]);
+    expect(window.localStorage.getItem(KEY)).toBe('[1,2,3]');
+  });
+
+  it('should read missing, corrupt or invalid data as the fallback', () => {
+    const entry = new LocalStorageJson(KEY);
+    expect(entry.read(isNumber, 0)).toBe(0);
+
+    window.localStorage.setItem(KEY, '{not json');
+    expect(entry.read(isNumber, 0)).toBe(0);
+    expect(entry.readList(isNumber)).toEqual([]);
+
+    window.localStorage.setItem(KEY, '[1, "two", 3]');
+    expect(entry.read(isNumber, 0)).toBe(0);
+    expect(entry.readList(isNumber)).toEqual([1, 3]);
+  });
+
+  it('should keep nothing without a storage', () => {
+    const entry = new LocalStorageJson(KEY, null);
+    entry.write(5);
+
+    expect(entry.read(isNumber, 0)).toBe(0);
+    expect(window.localStorage.getItem(KEY)).toBeNull();
+  });
+
+  it('should log rather than throw when the storage is full', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const full = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+    } as unknown as Storage;
+
+    expect(() => new LocalStorageJson(KEY, full).write(5)).not.toThrow();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
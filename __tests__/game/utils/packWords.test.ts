@@ -0,0 +1,27 @@
+import { toSessionWords } from '@/lib/game/utils/packWords';
+
+describe('Pack Words', () => {
+  describe('toSessionWords', () => {
+    it('should list the words in id order', () => {
+      const words = toSessionWords([
+        { id: 'c', text: 'cloud', level: 2 },
+        { id: 'a', text: 'apple', level: 1 },
+        { id: 'b', text: 'bread', level: 1 },
+      ]);
+
+      expect(words.map(word => word.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should give each word its length and keep a category when set', () => {
+      expect(
+        toSessionWords([
+          { id: 'a', text: 'forest', level: 3, category: 'NGSL' },
+          { id: 'b', text: 'honey', level: 1, category: null },
+        ])
+      ).toEqual([
+        { id: 'a', text: 'forest', level: 3, length: 6, category: 'NGSL' },
+        { id: 'b', text: 'honey', level: 1, length: 5 },
+      ]);
+    });
+  });
+});
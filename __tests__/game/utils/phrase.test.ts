@@ -0,0 +1,127 @@
+import {
+  getPhraseLengthMultiplier,
+  getPhraseProgress,
+  getTypingUnitLength,
+  isPhrase,
+  isTypeableCharacter,
+  normalizePromptText,
+  splitPhrase,
+} from '@/lib/game/utils/phrase';
+
+describe('Phrase Helpers', () => {
+  describe('isTypeableCharacter', () => {
+    it('should accept letters, capitals, digits and punctuation', () => {
+      ['a', 'Z', '7', ' ', "'", ',', '.', '!', '?', '"', '-'].forEach(key => {
+        expect(isTypeableCharacter(key)).toBe(true);
+      });
+    });
+
+    it('should reject control keys and non-ASCII characters', () => {
+      ['Enter', 'Backspace', 'Shift', '\n', 'é', '’', ''].forEach(key => {
+        expect(isTypeableCharacter(key)).toBe(false);
+      });
+    });
+  });
+
+  describe('normalizePromptText', () => {
+    it('should replace typographic quotes, dashes and ellipses', () => {
+      expect(normalizePromptText('“Don’t stop” — she said…')).toBe(
+        '"Don\'t stop" - she said...'
+      );
+    });
+
+    it('should collapse and trim whitespace', () => {
+      expect(normalizePromptText('  the \t quick\n fox ')).toBe(
+        'the quick fox'
+      );
+    });
+  });
+
+  describe('splitPhrase and isPhrase', () => {
+    it('should split a sentence into its words', () => {
+      expect(splitPhrase("It's a fine day.")).toEqual([
+        "It's",
+        'a',
+        'fine',
+        'day.',
+      ]);
+    });
+
+    it('should treat single words as non-phrases', () => {
+      expect(isPhrase({ text: 'dragon' })).toBe(false);
+      expect(isPhrase({ text: 'red dragon' })).toBe(true);
+    });
+  });
+
+  describe('getTypingUnitLength', () => {
+    it('should use the word length for single words', () => {
+      expect(getTypingUnitLength({ text: 'dragon', length: 6 })).toBe(6);
+    });
+
+    it('should use the average word length for phrases', () => {
+      expect(getTypingUnitLength({ text: 'the red dragon', length: 14 })).toBe(
+        4
+      );
+    });
+  });
+
+  describe('getPhraseProgress', () => {
+    const target = 'The cat sat.';
+
+    it('should start on the first word', () => {
+      expect(getPhraseProgress(target, '')).toEqual({
+        totalWords: 3,
+        completedWords: 0,
+        currentWordIndex: 0,
+        correctLength: 0,
+        hasError: false,
+      });
+    });
+
+    it('should count a word once the space after it is typed', () => {
+      expect(getPhraseProgress(target, 'The').completedWords).toBe(0);
+
+      const progress = getPhraseProgress(target, 'The ');
+      expect(progress.completedWords).toBe(1);
+      expect(progress.currentWordIndex).toBe(1);
+    });
+
+    it('should complete the last word without a trailing space', () => {
+      const progress = getPhraseProgress(target, target);
+
+      expect(progress.completedWords).toBe(3);
+      expect(progress.currentWordIndex).toBe(2);
+      expect(progress.hasError).toBe(false);
+    });
+
+    it('should stop progress at the first mistake', () => {
+      const progress = getPhraseProgress(target, 'The cot');
+
+      expect(progress.correctLength).toBe(5);
+      expect(progress.completedWords).toBe(1);
+      expect(progress.hasError).toBe(true);
+    });
+
+    it('should be case sensitive', () => {
+      expect(getPhraseProgress(target, 'the').hasError).toBe(true);
+    });
+  });
+
+  describe('getPhraseLengthMultiplier', () => {
+    it('should not scale single words', () => {
+      expect(getPhraseLengthMultiplier({ text: 'dragon' })).toBe(1);
+    });
+
+    it('should scale with each extra word', () => {
+      expect(getPhraseLengthMultiplier({ text: 'the red dragon' })).toBeCloseTo(
+        1.7
+      );
+    });
+
+    it('should cap the bonus for long sentences', () => {
+      const sentence = Array(20).fill('word').join(' ');
+
+      expect(getPhraseLengthMultiplier({ text: sentence })).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  DEFAULT_LEVEL_CURVE,
+  DEFAULT_PLAYER_STATS,
+  applySessionResult,
+  calculateSessionExperience,
+  getExperienceForLevel,
+  getExperienceForLevelUp,
+  getLevelProgress,
+  validateLevelCurve,
+} from '@/lib/game/utils/progression';
+import type { GameStats, LevelCurve, SessionResult } from '@/lib/game/types';
+
+describe('progression', () => {
+  const curve: LevelCurve = { baseXp: 100, growth: 1.5, maxLevel: 5 };
+
+  const finalStats = (
+    wordsCompleted: number,
+    accuracy: number,
+    wpm = 40
+  ): GameStats => ({
+    wpm,
+    accuracy,
+    totalDamage: 0,
+    totalHealing: 0,
+    attackCount: 0,
+    healCount: 0,
+    guardCount: 0,
+    maxCombo: 0,
+    wordsCompleted,
+    damageTaken: 0,
+    damageBlocked: 0,
+  });
+
+  const session = (
+    result: SessionResult['result'],
+    stats: GameStats
+  ): Pick<SessionResult, 'result' | 'finalStats'> => ({
+    result,
+    finalStats: stats,
+  });
+
+  describe('level curve', () => {
+    it('should grow the experience needed for each level', () => {
+      expect(getExperienceForLevelUp(1, curve)).toBe(100);
+      expect(getExperienceForLevelUp(2, curve)).toBe(150);
+      expect(getExperienceForLevelUp(3, curve)).toBe(225);
+      expect(getExperienceForLevel(1, curve)).toBe(0);
+      expect(getExperienceForLevel(4, curve)).toBe(475);
+    });
+
+    it('should report the level and progress toward the next one', () => {
+      expect(getLevelProgress(0, curve)).toEqual({
+        level: 1,
+        experienceIntoLevel: 0,
+        experienceForNextLevel: 100,
+      });
+      expect(getLevelProgress(260, curve)).toEqual({
+        level: 3,
+        experienceIntoLevel: 10,
+        experienceForNextLevel: 225,
+      });
+    });
+
+    it('should stop at the max level', () => {
+      expect(getLevelProgress(10_000, curve)).toEqual({
+        level: 5,
+        experienceIntoLevel: 10_000 - getExperienceForLevel(5, curve),
+        experienceForNextLevel: 0,
+      });
+    });
+
+    it('should validate curves', () => {
+      expect(validateLevelCurve(DEFAULT_LEVEL_CURVE).valid).toBe(true);
+      expect(
+        validateLevelCurve({ baseXp: 0, growth: 0.5, maxLevel: 2.5 }).errors
+      ).toEqual([
+        'levelCurve.baseXp must be a positive number',
+        'levelCurve.growth must be a number of at least 1',
+        'levelCurve.maxLevel must be a whole number of at least 1',
+      ]);
+      expect(validateLevelCurve(null).valid).toBe(false);
+    });
+  });
+
+  describe('calculateSessionExperience', () => {
+    it('should award completed words scaled by accuracy', () => {
+      expect(
+        calculateSessionExperience(session('LOSE', finalStats(10, 1)))
+      ).toBe(100);
+      expect(
+        calculateSessionExperience(session('LOSE', finalStats(10, 0.85)))
+      ).toBe(85);
+    });
+
+    it('should add a bonus for a win', () => {
+      expect(
+        calculateSessionExperience(session('WIN', finalStats(10, 1)))
+      ).toBe(150);
+    });
+
+    it('should award nothing for an aborted session', () => {
+      expect(
+        calculateSessionExperience(session('ABORT', finalStats(10, 1)))
+      ).toBe(0);
+    });
+  });
+
+  describe('applySessionResult', () => {
+    it('should add the experience and level up', () => {
+      const gain = applySessionResult(
+        DEFAULT_PLAYER_STATS,
+        session('WIN', finalStats(10, 1, 50)),
+        curve
+      );
+
+      expect(gain).toEqual({
+        experience: 150,
+        previousLevel: 1,
+        level: 2,
+        stats: {
+          level: 2,
+          experience: 150,
+          averageWPM: 50,
+          averageAccuracy: 1,
+          gamesPlayed: 1,
+          gamesWon: 1,
+        },
+      });
+    });
+
+    it('should average over every game played', () => {
+      const { stats } = applySessionResult(
+        {
+          level: 2,
+          experience: 150,
+          averageWPM: 50,
+          averageAccuracy: 1,
+          gamesPlayed: 1,
+          gamesWon: 1,
+        },
+        session('LOSE', finalStats(4, 0.8, 30)),
+        curve
+      );
+
+      expect(stats).toMatchObject({
+        averageWPM: 40,
+        averageAccuracy: 0.9,
+        gamesPlayed: 2,
+        gamesWon: 1,
+      });
+    });
+
+    it('should never lower a stored level', () => {
+      const gain = applySessionResult(
+        { ...DEFAULT_PLAYER_STATS, level: 4, experience: 10 },
+        session('LOSE', finalStats(1, 1)),
+        curve
+      );
+
+      expect(gain.level).toBe(4);
+      expect(gain.stats.experience).toBe(20);
+    });
+
+    it('should leave the stats alone for an aborted session', () => {
+      const gain = applySessionResult(
+        DEFAULT_PLAYER_STATS,
+        session('ABORT', finalStats(10, 1)),
+        curve
+      );
+
+      expect(gain.experience).toBe(0);
+      expect(gain.stats).toBe(DEFAULT_PLAYER_STATS);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  createSeededRandom,
+  createSessionRandom,
+  generateRngSeed,
+} from '@/lib/game/utils/random';
+import type { SessionSeed } from '@/lib/game/types';
+
+describe('Random', () => {
+  const sample = (random: () => number, count: number) =>
+    Array.from({ length: count }, () => random());
+
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      expect(sample(createSeededRandom(42), 20)).toEqual(
+        sample(createSeededRandom(42), 20)
+      );
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      expect(sample(createSeededRandom(1), 5)).not.toEqual(
+        sample(createSeededRandom(2), 5)
+      );
+    });
+
+    it('should stay within [0, 1)', () => {
+      const values = sample(createSeededRandom(12345), 1000);
+
+      values.forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+
+    it('should reject non-integer seeds', () => {
+      expect(() => createSeededRandom(1.5)).toThrow(
+        'createSeededRandom: Seed must be an integer, got 1.5'
+      );
+    });
+  });
+
+  describe('createSessionRandom', () => {
+    const sessionSeed: SessionSeed = {
+      sessionId: 'test-session',
+      packId: 'test-pack',
+      difficulty: 'NORMAL',
+      words: [{ id: '1', text: 'cat', level: 1, length: 3 }],
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should be seeded when the session has an rngSeed', () => {
+      const random = createSessionRandom({ ...sessionSeed, rngSeed: 7 });
+
+      expect(sample(random, 3)).toEqual(sample(createSeededRandom(7), 3));
+    });
+
+    it('should fall back to Math.random without an rngSeed', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.25);
+
+      expect(createSessionRandom(sessionSeed)()).toBe(0.25);
+    });
+  });
+
+  describe('generateRngSeed', () => {
+    it('should generate an unsigned 32-bit integer', () => {
+      const seed = generateRngSeed();
+
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThan(2 ** 32);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  buildSessionReport,
+  createSessionReport,
+} from '@/lib/game/utils/sessionReport';
+import type {
+  ActionResult,
+  CompletedWord,
+  DifficultyEstimate,
+  GuardResult,
+  ReportWord,
+  SessionReportSummary,
+  SessionResult,
+} from '@/lib/game/types';
+
+describe('sessionReport', () => {
+  const completedWord = (
+    text: string,
+    updates: Partial<CompletedWord> = {}
+  ): CompletedWord => ({
+    id: text,
+    text,
+    level: 1,
+    length: text.length,
+    typedText: text,
+    timeMs: 1000,
+    errors: 0,
+    accuracy: 1,
+    wpm: 60,
+    score: 10,
+    ...updates,
+  });
+
+  const reportWord = (
+    text: string,
+    updates: Partial<ReportWord> = {}
+  ): ReportWord => ({
+    text,
+    type: 'ATTACK',
+    timeMs: 1000,
+    errors: 0,
+    accuracy: 1,
+    wpm: 60,
+    value: 10,
+    critical: false,
+    breakdown: [],
+    ...updates,
+  });
+
+  const summary: SessionReportSummary = {
+    sessionId: 'session-1',
+    result: 'WIN',
+    durationSec: 60,
+    accuracy: 0.9,
+    averageWpm: 40,
+    longestCombo: 4,
+    attackCount: 3,
+    healCount: 1,
+    damageDealt: 100,
+    damageTaken: 20,
+    guardSuccessRate: 0.5,
+  };
+
+  describe('buildSessionReport', () => {
+    it('should list the slowest and most missed words', () => {
+      const report = buildSessionReport(summary, [
+        reportWord('apple', { wpm: 30, errors: 1, accuracy: 0.8 }),
+        reportWord('bread', { wpm: 80 }),
+        reportWord('cloud', { wpm: 20, errors: 3, accuracy: 0.6 }),
+        reportWord('dance', { wpm: 50, errors: 1, accuracy: 0.9 }),
+        reportWord('eagle', { wpm: 25 }),
+      ]);
+
+      expect(report.slowestWords.map(word => word.text)).toEqual([
+        'cloud',
+        'eagle',
+        'apple',
+      ]);
+      expect(report.mostMissedWords.map(word => word.text)).toEqual([
+        'cloud',
+        'apple',
+        'dance',
+      ]);
+      expect(report.suggestion).toBe(
+        'Review the words you missed: cloud, apple, dance'
+      );
+    });
+
+    it('should suggest the least accurate word category', () => {
+      const report = buildSessionReport(summary, [
+        reportWord('apple', { category: 'food', accuracy: 0.7, errors: 2 }),
+        reportWord('bread', { category: 'food', accuracy: 0.9, errors: 1 }),
+        reportWord('cloud', { category: 'nature', accuracy: 0.6, errors: 3 }),
+        reportWord('eagle', { category: 'animals', accuracy: 0.5, errors: 4 }),
+        reportWord('honey', { category: 'animals', accuracy: 1 }),
+      ]);
+
+      // nature has too few words to judge
+      expect(report.suggestion).toBe(
+        'Practise "animals" words next: 75% accuracy across 2 words'
+      );
+    });
+
+    it('should suggest a harder difficulty after a clean session', () => {
+      expect(
+        buildSessionReport(summary, [reportWord('apple')]).suggestion
+      ).toBe('No mistakes this time, try a harder difficulty');
+      expect(buildSessionReport(summary, []).suggestion).toBe(
+        'Complete a few words to get a suggestion for next time'
+      );
+    });
+  });
+
+  describe('createSessionReport', () => {
+    it('should report a local session with its combat breakdowns', () => {
+      const attack: ActionResult = {
+        success: true,
+        type: 'ATTACK',
+        word: completedWord('apple', { category: 'food' }),
+        value: 24,
+        critical: true,
+        combo: 2,
+        breakdown: ['Final damage: 24'],
+      };
+      const guard = (blocked: boolean): GuardResult => ({
+        success: true,
+        type: 'GUARD',
+        word: completedWord('shield', { errors: 1, accuracy: 0.8 }),
+        value: 10,
+        critical: false,
+        combo: 0,
+        blocked,
+        damageBlocked: 10,
+        damageReceived: blocked ? 0 : 5,
+      });
+      const result: SessionResult = {
+        sessionId: 'session-1',
+        result: 'LOSE',
+        finalStats: {
+          wpm: 42,
+          accuracy: 0.85,
+          totalDamage: 24,
+          totalHealing: 0,
+          attackCount: 1,
+          healCount: 0,
+          guardCount: 3,
+          maxCombo: 2,
+          wordsCompleted: 4,
+          damageTaken: 35,
+          damageBlocked: 30,
+        },
+        duration: 75,
+        attempts: [],
+        actions: [attack, guard(true), guard(false), guard(false)],
+      };
+
+      const report = createSessionReport(result);
+
+      expect(report).toMatchObject({
+        sessionId: 'session-1',
+        result: 'LOSE',
+        durationSec: 75,
+        accuracy: 0.85,
+        averageWpm: 42,
+        longestCombo: 2,
+        attackCount: 1,
+        damageDealt: 24,
+        damageTaken: 35,
+      });
+      expect(report.guardSuccessRate).toBeCloseTo(1 / 3);
+      expect(report.words[0]).toEqual({
+        text: 'apple',
+        type: 'ATTACK',
+        category: 'food',
+        timeMs: 1000,
+        errors: 0,
+        accuracy: 1,
+        wpm: 60,
+        value: 24,
+        critical: true,
+        breakdown: ['Final damage: 24'],
+      });
+      expect(report.words[1].breakdown).toEqual([]);
+      expect(report.difficulty).toBeUndefined();
+    });
+
+    it('should keep why adaptive difficulty changed the words', () => {
+      const difficulty: DifficultyEstimate = {
+        levelShift: 1,
+        lengthShift: 1,
+        wpm: 55,
+        accuracy: 0.98,
+        averageWordTimeMs: 900,
+        sampleSize: 8,
+        reasons: ['Accuracy 98% is above the 80%-95% target'],
+        adjustments: [
+          {
+            direction: 'UP',
+            wordsCompleted: 8,
+            levelShift: 1,
+            reasons: ['Accuracy 98% is above the 80%-95% target'],
+          },
+        ],
+      };
+      const result: SessionResult = {
+        sessionId: 'session-2',
+        result: 'WIN',
+        finalStats: {
+          wpm: 55,
+          accuracy: 0.98,
+          totalDamage: 100,
+          totalHealing: 0,
+          attackCount: 8,
+          healCount: 0,
+          guardCount: 0,
+          maxCombo: 8,
+          wordsCompleted: 8,
+          damageTaken: 0,
+          damageBlocked: 0,
+        },
+        duration: 40,
+        attempts: [],
+        actions: [],
+        difficulty,
+      };
+
+      expect(createSessionReport(result).difficulty).toEqual(difficulty);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  DEFAULT_GAME_SETTINGS,
+  getBattleDurationSec,
+  normalizeGameSettings,
+  toGameConfigSettings,
+} from '@/lib/game/utils/settings';
+
+describe('settings', () => {
+  describe('normalizeGameSettings', () => {
+    it('should keep valid stored settings', () => {
+      const stored = {
+        ...DEFAULT_GAME_SETTINGS,
+        packId: 'pack-1',
+        difficulty: 'HARD',
+        battleLength: 10,
+        keyboardLayout: 'dvorak',
+        a11y: { ...DEFAULT_GAME_SETTINGS.a11y, fontSize: 'large' },
+        sound: { ...DEFAULT_GAME_SETTINGS.sound, volume: 0.2 },
+      };
+
+      expect(normalizeGameSettings(stored)).toEqual(stored);
+    });
+
+    it('should fill missing and invalid fields with defaults', () => {
+      const settings = normalizeGameSettings({
+        packId: '',
+        difficulty: 'IMPOSSIBLE',
+        battleLength: 7,
+        a11y: { highContrast: true, fontSize: 'huge' },
+        sound: { volume: 3, music: 'yes' },
+      });
+
+      expect(settings).toEqual({
+        ...DEFAULT_GAME_SETTINGS,
+        a11y: { ...DEFAULT_GAME_SETTINGS.a11y, highContrast: true },
+        sound: { ...DEFAULT_GAME_SETTINGS.sound, volume: 1 },
+      });
+    });
+
+    it('should return the defaults for corrupt data', () => {
+      expect(normalizeGameSettings(null)).toEqual(DEFAULT_GAME_SETTINGS);
+      expect(normalizeGameSettings('settings')).toEqual(DEFAULT_GAME_SETTINGS);
+      expect(normalizeGameSettings([])).toEqual(DEFAULT_GAME_SETTINGS);
+    });
+  });
+
+  describe('game configuration', () => {
+    it('should turn the battle length into seconds', () => {
+      expect(getBattleDurationSec(DEFAULT_GAME_SETTINGS)).toBe(300);
+      expect(
+        getBattleDurationSec({ ...DEFAULT_GAME_SETTINGS, battleLength: 3 })
+      ).toBe(180);
+    });
+
+    it('should pass accessibility, sound and layout to the adapters', () => {
+      expect(toGameConfigSettings(DEFAULT_GAME_SETTINGS)).toEqual({
+        a11y: DEFAULT_GAME_SETTINGS.a11y,
+        sound: DEFAULT_GAME_SETTINGS.sound,
+        keyboardLayout: 'qwerty',
+      });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  createWordReview,
+  getDueReviews,
+  getReviewWeight,
+  gradeCompletedWord,
+  reviewCompletedWord,
+  scheduleReview,
+} from '@/lib/game/utils/spacedRepetition';
+import type { CompletedWord } from '@/lib/game/types';
+
+describe('Spaced Repetition', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const now = Date.parse('2025-09-01T00:00:00Z');
+
+  const completedWord = (
+    overrides: Partial<CompletedWord> = {}
+  ): CompletedWord => ({
+    id: 'w1',
+    text: 'dragon',
+    level: 2,
+    length: 6,
+    typedText: 'dragon',
+    timeMs: 1500,
+    errors: 0,
+    accuracy: 1,
+    wpm: 48,
+    score: 40,
+    ...overrides,
+  });
+
+  describe('gradeCompletedWord', () => {
+    it('should give a clean fast word the top grade', () => {
+      expect(gradeCompletedWord(completedWord())).toBe(5);
+    });
+
+    it('should lower the grade for slow typing', () => {
+      expect(gradeCompletedWord(completedWord({ timeMs: 2500 }))).toBe(4);
+      expect(gradeCompletedWord(completedWord({ timeMs: 4000 }))).toBe(3);
+    });
+
+    it('should fail words with several errors or low accuracy', () => {
+      expect(gradeCompletedWord(completedWord({ errors: 2 }))).toBe(2);
+      expect(gradeCompletedWord(completedWord({ accuracy: 0.5 }))).toBe(1);
+    });
+  });
+
+  describe('scheduleReview', () => {
+    it('should follow the SM-2 interval progression', () => {
+      let review = createWordReview('w1', now);
+
+      review = scheduleReview(review, 4, now);
+      expect(review.intervalDays).toBe(1);
+
+      review = scheduleReview(review, 4, now);
+      expect(review.intervalDays).toBe(6);
+
+      review = scheduleReview(review, 4, now);
+      expect(review.intervalDays).toBe(15);
+      expect(review.repetitions).toBe(3);
+      expect(review.dueAt).toBe(now + 15 * DAY_MS);
+    });
+
+    it('should reset a failed word and count the lapse', () => {
+      let review = createWordReview('w1', now);
+      review = scheduleReview(review, 5, now);
+      review = scheduleReview(review, 5, now);
+
+      const failed = scheduleReview(review, 1, now);
+
+      expect(failed.repetitions).toBe(0);
+      expect(failed.intervalDays).toBe(1);
+      expect(failed.lapses).toBe(1);
+      expect(failed.easeFactor).toBeLessThan(review.easeFactor);
+    });
+
+    it('should never drop the ease factor below 1.3', () => {
+      let review = createWordReview('w1', now);
+      for (let i = 0; i < 10; i++) {
+        review = scheduleReview(review, 0, now);
+      }
+
+      expect(review.easeFactor).toBe(1.3);
+    });
+  });
+
+  describe('reviewCompletedWord', () => {
+    it('should create a review for a word seen for the first time', () => {
+      const review = reviewCompletedWord(undefined, completedWord(), now);
+
+      expect(review.wordId).toBe('w1');
+      expect(review.repetitions).toBe(1);
+    });
+  });
+
+  describe('getReviewWeight', () => {
+    it('should keep unseen words neutral', () => {
+      expect(getReviewWeight(undefined, now)).toBe(1);
+    });
+
+    it('should boost due words over words that are not due', () => {
+      const review = createWordReview('w1', now);
+      const due = { ...review, dueAt: now - DAY_MS };
+      const notDue = { ...review, dueAt: now + DAY_MS };
+
+      expect(getReviewWeight(due, now)).toBeGreaterThan(1);
+      expect(getReviewWeight(notDue, now)).toBeLessThan(1);
+    });
+
+    it('should boost weak words more than easy ones', () => {
+      const review = { ...createWordReview('w1', now), dueAt: now };
+
+      expect(
+        getReviewWeight({ ...review, easeFactor: 1.3 }, now)
+      ).toBeGreaterThan(getReviewWeight(review, now));
+    });
+  });
+
+  describe('getDueReviews', () => {
+    it('should list due reviews, most overdue first', () => {
+      const review = createWordReview('w1', now);
+      const reviews = [
+        { ...review, wordId: 'later', dueAt: now + DAY_MS },
+        { ...review, wordId: 'today', dueAt: now },
+        { ...review, wordId: 'overdue', dueAt: now - DAY_MS },
+      ];
+
+      expect(getDueReviews(reviews, now).map(r => r.wordId)).toEqual([
+        'overdue',
+        'today',
+      ]);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { WordManager } from '@/lib/game/utils/wordManager';
+import { createSeededRandom } from '@/lib/game/utils/random';
 import type { SessionSeed, Word, WordSelection } from '@/lib/game/types';
 
 describe('WordManager', () => {
@@ -129,6 +130,17 @@ describe('WordManager', () => {
       expect(lateRoundSelection.guard).toBeDefined();
     });
 
+    it('should select a guard word that avoids the words on screen', () => {
+      const selection = wordManager.selectWords(defaultOptions);
+      const onScreen = [selection.attack, selection.heal];
+
+      const guard = wordManager.selectGuardWord(defaultOptions, onScreen);
+
+      expect(onScreen.map(word => word.id)).not.toContain(guard.id);
+      expect(onScreen.map(word => word.text[0])).not.toContain(guard.text[0]);
+      expect(wordManager.getCurrentSelection()?.guard).toEqual(guard);
+    });
+
     it('should prefer shorter words for healing', () => {
       const selections = Array.from({ length: 10 }, () => 
         wordManager.selectWords(defaultOptions)
@@ -196,6 +208,79 @@ describe('WordManager', () => {
       // Hard mode allows longer words
       expect(hardSelection.attack.length).toBeGreaterThanOrEqual(5);
     });
+
+    it('should repeat the same selections for the same rngSeed', () => {
+      const seeded = { sessionId: 'test', packId: 'test', difficulty: 'NORMAL' as const, words: mockWords, rngSeed: 1234 };
+      const first = new WordManager(seeded);
+      const second = new WordManager(seeded);
+
+      for (let round = 1; round <= 10; round++) {
+        const options = { ...defaultOptions, round, avoidRecentWords: true };
+        expect(second.selectWords(options)).toEqual(first.selectWords(options));
+      }
+    });
+
+    it('should favour words that are due and weak for the learner', () => {
+      const now = Date.parse('2025-09-01T00:00:00Z');
+      const review = (wordId: string, easeFactor: number, dueAt: number) => ({
+        wordId, easeFactor, intervalDays: 6, repetitions: 2, lapses: 0, dueAt, lastReviewedAt: now,
+      });
+      const reviewSchedule = {
+        asOf: now,
+        reviews: [
+          review('5', 1.3, now - 1000), // Due and weak
+          ...['3', '4', '8', '9', '10'].map(id => review(id, 2.5, now + 86_400_000)),
+        ],
+      };
+
+      const countElephant = (withReviews: boolean) => {
+        let count = 0;
+        for (let rngSeed = 1; rngSeed <= 100; rngSeed++) {
+          const manager = new WordManager({
+            sessionId: 'test', packId: 'test', difficulty: 'NORMAL', words: mockWords, rngSeed,
+            ...(withReviews && { reviewSchedule }),
+          });
+          const selection = manager.selectWords(defaultOptions);
+          if (selection.attack.id === '5' || selection.heal.id === '5') count++;
+        }
+        return count;
+      };
+
+      expect(countElephant(true)).toBeGreaterThan(countElephant(false));
+    });
+
+    it('should favour words with the learner\'s weak keys', () => {
+      const stats = (count: number, errors: number) => ({ count, errors, totalLatencyMs: count * 200, timedCount: count });
+      const keystrokeProfile = {
+        keys: { p: stats(10, 8), a: stats(10, 0), e: stats(10, 0), o: stats(10, 0) },
+        bigrams: {},
+      };
+
+      // computer and elephant are the only words with a p
+      const countWeakKeyWords = (withProfile: boolean) => {
+        let count = 0;
+        for (let rngSeed = 1; rngSeed <= 100; rngSeed++) {
+          const manager = new WordManager({
+            sessionId: 'test', packId: 'test', difficulty: 'NORMAL', words: mockWords, rngSeed,
+            ...(withProfile && { keystrokeProfile }),
+          });
+          const selection = manager.selectWords(defaultOptions);
+          count += [selection.attack, selection.heal].filter(word => word.text.includes('p')).length;
+        }
+        return count;
+      };
+
+      expect(countWeakKeyWords(true)).toBeGreaterThan(countWeakKeyWords(false));
+    });
+
+    it('should use an injected random source', () => {
+      const random = jest.fn(createSeededRandom(99));
+      const seededManager = new WordManager({ sessionId: 'test', packId: 'test', difficulty: 'NORMAL', words: mockWords }, random);
+
+      seededManager.selectWords(defaultOptions);
+
+      expect(random).toHaveBeenCalled();
+    });
   });
 
   describe('Word Lock Manager', () => {
@@ -409,6 +494,138 @@ describe('WordManager', () => {
     });
   });
 
+  describe('Phrase Mode', () => {
+    const phrases: Word[] = [
+      { id: 'p1', text: 'Hold the line!', level: 2, length: 14, category: 'defense' },
+      { id: 'p2', text: "Don’t look back", level: 2, length: 15, category: 'action' },
+      { id: 'p3', text: 'Rest and recover.', level: 1, length: 17, category: 'medical' },
+      { id: 'p4', text: 'Strike while the iron is hot.', level: 3, length: 29, category: 'action' },
+    ];
+
+    const selectionOptions = {
+      difficulty: 'NORMAL' as const,
+      playerLevel: 1,
+      round: 1,
+      timeRemaining: 300,
+      previousWords: [],
+      avoidRecentWords: false,
+    };
+
+    it('should only offer phrases in phrase mode', () => {
+      const phraseManager = new WordManager({
+        sessionId: 'test',
+        packId: 'test',
+        difficulty: 'NORMAL',
+        words: [...mockWords, ...phrases],
+        promptMode: 'PHRASE',
+      }, createSeededRandom(1));
+
+      const selection = phraseManager.selectWords(selectionOptions);
+
+      expect(selection.attack.text).toContain(' ');
+      expect(selection.heal.text).toContain(' ');
+      expect(phraseManager.getWordPoolStats().totalWords).toBe(phrases.length);
+    });
+
+    it('should leave phrases out of word mode', () => {
+      const wordOnlyManager = new WordManager({
+        sessionId: 'test',
+        packId: 'test',
+        difficulty: 'NORMAL',
+        words: [...mockWords, ...phrases],
+      });
+
+      expect(wordOnlyManager.getWordPoolStats().totalWords).toBe(mockWords.length);
+    });
+
+    it('should normalize typographic punctuation in prompts', () => {
+      const phraseManager = new WordManager({
+        sessionId: 'test',
+        packId: 'test',
+        difficulty: 'NORMAL',
+        words: phrases,
+        promptMode: 'PHRASE',
+      });
+
+      const word = phraseManager.getWordById('p2');
+      expect(word?.text).toBe("Don't look back");
+      expect(word?.length).toBe(15);
+    });
+  });
+
+  describe('Enemy Preferences', () => {
+    const selectionOptions = {
+      difficulty: 'NORMAL' as const,
+      playerLevel: 1,
+      round: 1,
+      timeRemaining: 300,
+      previousWords: [],
+      avoidRecentWords: false,
+    };
+
+    it('should shift word levels by the enemy level bias', () => {
+      const harder = wordManager.selectWords({ ...selectionOptions, levelBias: 1 });
+      const easier = wordManager.selectWords({ ...selectionOptions, levelBias: -1 });
+
+      expect(harder.attack.level).toBeGreaterThanOrEqual(3);
+      expect(harder.heal.level).toBeGreaterThanOrEqual(3);
+      expect(easier.attack.level).toBeLessThanOrEqual(3);
+      expect(easier.heal.level).toBeLessThanOrEqual(3);
+    });
+
+    it('should ignore a level bias that leaves no words', () => {
+      // The only level 5 word is too long for NORMAL
+      const selection = wordManager.selectWords({ ...selectionOptions, levelBias: 3 });
+
+      expect(selection.attack.level).toBeLessThanOrEqual(4);
+    });
+
+    it('should offer words from the enemy categories', () => {
+      const selection = wordManager.selectWords({ ...selectionOptions, categories: ['defense'] });
+
+      expect(selection.attack.category).toBe('defense');
+      expect(selection.heal.category).toBe('defense');
+    });
+
+    it('should fall back to the whole pool for unknown categories', () => {
+      expect(() =>
+        wordManager.selectWords({ ...selectionOptions, categories: ['dragon-lore'] })
+      ).not.toThrow();
+    });
+  });
+
+  describe('Adaptive Difficulty', () => {
+    const selectionOptions = {
+      difficulty: 'NORMAL' as const,
+      playerLevel: 1,
+      round: 1,
+      timeRemaining: 300,
+      previousWords: [],
+      avoidRecentWords: false,
+    };
+
+    it('should move the level window and length range by the difficulty shift', () => {
+      const harder = wordManager.selectWords({ ...selectionOptions, difficultyShift: { level: 1, length: 2 } });
+      const easier = wordManager.selectWords({ ...selectionOptions, difficultyShift: { level: -2, length: -4 } });
+
+      [harder.attack, harder.heal].forEach(word => {
+        expect(word.level).toBeGreaterThanOrEqual(3);
+        expect(word.length).toBeGreaterThanOrEqual(6);
+      });
+      [easier.attack, easier.heal].forEach(word => {
+        expect(word.level).toBeLessThanOrEqual(2);
+        expect(word.length).toBeLessThanOrEqual(8);
+      });
+    });
+
+    it('should ignore a difficulty shift that leaves no words', () => {
+      const selection = wordManager.selectWords({ ...selectionOptions, difficultyShift: { level: 0, length: 20 } });
+
+      expect(selection.attack.length).toBeLessThanOrEqual(12);
+      expect(selection.heal.length).toBeLessThanOrEqual(12);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle limited word pool gracefully', () => {
       const limitedWords = mockWords.slice(0, 3); // Only 3 words
@@ -0,0 +1,39 @@
+import { CsvParseError, parseCsv } from '@/lib/packs/csv';
+
+describe('parseCsv', () => {
+  it('should split lines and fields', () => {
+    expect(parseCsv('text,level\napple,1\r\nbanana,2')).toEqual([
+      { line: 1, fields: ['text', 'level'] },
+      { line: 2, fields: ['apple', '1'] },
+      { line: 3, fields: ['banana', '2'] },
+    ]);
+  });
+
+  it('should handle quoted commas, quotes and line breaks', () => {
+    const records = parseCsv(
+      'run,1,,,"to move fast, on foot"\n' +
+        'quote,2,,,"say ""hi"""\n' +
+        'note,3,,,"two\nlines"\n' +
+        'next,1'
+    );
+
+    expect(records.map(record => record.fields[4])).toEqual([
+      'to move fast, on foot',
+      'say "hi"',
+      'two\nlines',
+      undefined,
+    ]);
+    expect(records[3].line).toBe(5);
+  });
+
+  it('should skip blank lines and a byte order mark', () => {
+    expect(parseCsv('﻿apple,1\n\n  \nbanana,2\n')).toEqual([
+      { line: 1, fields: ['apple', '1'] },
+      { line: 4, fields: ['banana', '2'] },
+    ]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('apple,1\n"banana,2')).toThrow(CsvParseError);
+  });
+});
@@ -0,0 +1,255 @@
+import { InMemoryGameRepository } from '@/lib/api/repository/InMemoryGameRepository';
+import {
+  buildImportReport,
+  detectPackFormat,
+  formatImportReport,
+  saveImportedPack,
+} from '@/lib/packs/packImport';
+import { PRD_MVP_COMBAT_PROFILE } from '@/lib/game/utils/combatProfile';
+
+describe('packImport', () => {
+  describe('detectPackFormat', () => {
+    it('should use the file extension, then the content', () => {
+      expect(detectPackFormat('ngsl.CSV')).toBe('csv');
+      expect(detectPackFormat('toeic.json')).toBe('json');
+      expect(detectPackFormat('pack.txt', '  [{"text":"a"}]')).toBe('json');
+      expect(detectPackFormat('pack.txt', 'apple,1')).toBe('csv');
+    });
+  });
+
+  describe('CSV packs', () => {
+    it('should import text,level lines without a header', () => {
+      const report = buildImportReport('apple,1\nbanana,L2\n', 'csv');
+
+      expect(report.valid).toBe(true);
+      expect(report.words).toEqual([
+        { text: 'apple', level: 1 },
+        { text: 'banana', level: 2 },
+      ]);
+      expect(report.summary).toMatchObject({ levelMin: 1, levelMax: 2 });
+    });
+
+    it('should read optional columns named in a header', () => {
+      const report = buildImportReport(
+        'meaning,text,level,category\n"a fruit, usually red",apple,1,NGSL\n',
+        'csv'
+      );
+
+      expect(report.words).toEqual([
+        {
+          text: 'apple',
+          level: 1,
+          category: 'NGSL',
+          meaning: 'a fruit, usually red',
+        },
+      ]);
+    });
+
+    it('should report each invalid line with its line number', () => {
+      const report = buildImportReport(
+        'text,level\napple,1\n,2\ncafé,2\nbanana,7\ncherry,high\ndate,\n',
+        'csv'
+      );
+
+      expect(report.valid).toBe(false);
+      expect(report.lines.filter(line => line.status === 'invalid')).toEqual([
+        { line: 3, text: null, status: 'invalid', messages: ['Text is empty'] },
+        {
+          line: 4,
+          text: 'café',
+          status: 'invalid',
+          messages: [
+            'Text may only contain letters, spaces, hyphens, apostrophes and basic punctuation',
+          ],
+        },
+        {
+          line: 5,
+          text: 'banana',
+          status: 'invalid',
+          messages: ['Level must be 1-5 or L1-L5, got "7"'],
+        },
+        {
+          line: 6,
+          text: 'cherry',
+          status: 'invalid',
+          messages: ['Level must be 1-5 or L1-L5, got "high"'],
+        },
+        {
+          line: 7,
+          text: 'date',
+          status: 'invalid',
+          messages: ['Level is missing'],
+        },
+      ]);
+      expect(report.summary).toMatchObject({
+        total: 6,
+        accepted: 1,
+        invalid: 5,
+      });
+    });
+
+    it('should flag lines with too many columns', () => {
+      const report = buildImportReport(
+        'text,level,meaning\napple,1,a fruit, usually red\n',
+        'csv'
+      );
+
+      expect(report.lines[0]).toMatchObject({
+        status: 'invalid',
+        messages: ['Expected at most 3 columns, got 4'],
+      });
+    });
+
+    it('should skip duplicates within the pack, ignoring case', () => {
+      const report = buildImportReport('apple,1\nbanana,1\nApple,2\n', 'csv');
+
+      expect(report.valid).toBe(true);
+      expect(report.words.map(word => word.text)).toEqual(['apple', 'banana']);
+      expect(report.lines[2]).toEqual({
+        line: 3,
+        text: 'Apple',
+        status: 'duplicate',
+        messages: ['Duplicate of line 1'],
+      });
+      expect(report.summary.duplicates).toBe(1);
+    });
+
+    it('should reject unknown or missing columns', () => {
+      expect(
+        buildImportReport('text,level,colour\napple,1,red', 'csv').errors
+      ).toEqual(['Unknown column(s): colour']);
+      expect(
+        buildImportReport('text,category\napple,NGSL', 'csv').errors
+      ).toEqual(['Missing required column: level']);
+    });
+
+    it('should reject an empty pack', () => {
+      const report = buildImportReport('text,level\n', 'csv');
+
+      expect(report.valid).toBe(false);
+      expect(report.errors).toEqual(['Pack has no words']);
+    });
+  });
+
+  describe('JSON packs', () => {
+    it('should read pack metadata and words', () => {
+      const report = buildImportReport(
+        JSON.stringify({
+          title: 'TOEIC Basics',
+          tags: ['toeic'],
+          words: [
+            { text: 'invoice', level: 3, pronunciation: '/ˈɪnvɔɪs/' },
+            { text: 'meeting', level: 'L2' },
+          ],
+        }),
+        'json'
+      );
+
+      expect(report.valid).toBe(true);
+      expect(report.pack).toEqual({ title: 'TOEIC Basics', tags: ['toeic'] });
+      expect(report.words).toEqual([
+        { text: 'invoice', level: 3, pronunciation: '/ˈɪnvɔɪs/' },
+        { text: 'meeting', level: 2 },
+      ]);
+    });
+
+    it('should report entries by index', () => {
+      const report = buildImportReport(
+        JSON.stringify([
+          { text: 'apple', level: 1 },
+          'banana',
+          { text: 42, level: 1.5 },
+        ]),
+        'json'
+      );
+
+      expect(report.lines.slice(1)).toEqual([
+        {
+          line: 2,
+          text: null,
+          status: 'invalid',
+          messages: ['Entry must be an object'],
+        },
+        {
+          line: 3,
+          text: null,
+          status: 'invalid',
+          messages: [
+            'Text must be a string',
+            'Level must be 1-5 or L1-L5, got 1.5',
+          ],
+        },
+      ]);
+    });
+
+    it('should read a combat profile for the pack', () => {
+      const withProfile = (combatProfile: unknown) =>
+        buildImportReport(
+          JSON.stringify({ combatProfile, words: [{ text: 'a', level: 1 }] }),
+          'json'
+        );
+
+      expect(withProfile('prd-mvp').pack.combatProfile).toBe(
+        PRD_MVP_COMBAT_PROFILE
+      );
+      expect(withProfile('overpowered')).toMatchObject({
+        valid: false,
+        errors: ['CombatProfile: Unknown profile: overpowered'],
+      });
+    });
+
+    it('should report malformed JSON as a file error', () => {
+      const report = buildImportReport('{"words": [', 'json');
+
+      expect(report.valid).toBe(false);
+      expect(report.errors[0]).toMatch(/^Invalid JSON/);
+    });
+  });
+
+  describe('formatImportReport', () => {
+    it('should print one row per line and a summary', () => {
+      const output = formatImportReport(
+        buildImportReport('apple,1\n,1\napple,1', 'csv')
+      );
+
+      expect(output.split('\n')).toEqual([
+        '    1  ok         "apple"',
+        '    2  invalid    - - Text is empty',
+        '    3  duplicate  "apple" - Duplicate of line 1',
+        '3 lines: 1 accepted, 1 invalid, 1 duplicates',
+      ]);
+    });
+  });
+
+  describe('saveImportedPack', () => {
+    it('should create the pack with the accepted words', async () => {
+      const repository = new InMemoryGameRepository();
+      const report = buildImportReport('apple,2\nbanana,4\nApple,1', 'csv');
+
+      const pack = await saveImportedPack(
+        repository,
+        report,
+        { title: 'Fruit' },
+        null
+      );
+
+      expect(pack).toMatchObject({ title: 'Fruit', isActive: true });
+      expect(
+        (await repository.listWords(pack.id)).map(word => word.text).sort()
+      ).toEqual(['apple', 'banana']);
+    });
+
+    it('should refuse an invalid report', async () => {
+      const report = buildImportReport('apple,9', 'csv');
+
+      await expect(
+        saveImportedPack(
+          new InMemoryGameRepository(),
+          report,
+          { title: 'Fruit' },
+          null
+        )
+      ).rejects.toThrow('packImport: Cannot save a pack with invalid lines');
+    });
+  });
+});
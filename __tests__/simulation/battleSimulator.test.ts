@@ -0,0 +1,215 @@
+import {
+  formatSimulationReport,
+  runSimulation,
+  simulateBattle,
+  summariseBattles,
+} from '@/lib/simulation/battleSimulator';
+import { BUILT_IN_TYPISTS, validateTypist } from '@/lib/simulation/typists';
+import { BattleOutcome } from '@/lib/simulation/types';
+import { PRD_MVP_COMBAT_PROFILE } from '@/lib/game/utils/combatProfile';
+
+const BATTLE = { difficulty: 'NORMAL' as const, durationSec: 60, seed: 42 };
+
+function createOutcome(overrides: Partial<BattleOutcome> = {}): BattleOutcome {
+  return {
+    result: 'WIN',
+    timedOut: false,
+    durationSec: 60,
+    damageDealt: 100,
+    healingDone: 20,
+    damageTaken: 30,
+    actions: 10,
+    criticals: 1,
+    enemyAttacks: 4,
+    guardedAttacks: 2,
+    wpm: 40,
+    accuracy: 0.95,
+    ...overrides,
+  };
+}
+
+describe('battleSimulator', () => {
+  describe('simulateBattle', () => {
+    it('should play a battle to a result', async () => {
+      const outcome = await simulateBattle(BUILT_IN_TYPISTS.average, BATTLE);
+
+      expect(['WIN', 'LOSE']).toContain(outcome.result);
+      expect(outcome.durationSec).toBeGreaterThan(0);
+      expect(outcome.durationSec).toBeLessThanOrEqual(60);
+      expect(outcome.damageDealt).toBeGreaterThan(0);
+      expect(outcome.actions).toBeGreaterThan(0);
+      expect(outcome.guardedAttacks).toBeLessThanOrEqual(outcome.enemyAttacks);
+    });
+
+    it('should repeat exactly for the same seed', async () => {
+      const first = await simulateBattle(BUILT_IN_TYPISTS.beginner, BATTLE);
+      const second = await simulateBattle(BUILT_IN_TYPISTS.beginner, BATTLE);
+
+      expect(second).toEqual(first);
+    });
+
+    it('should never guard when the typist ignores telegraphs', async () => {
+      const outcome = await simulateBattle(
+        { ...BUILT_IN_TYPISTS.average, guardPreference: 0 },
+        BATTLE
+      );
+
+      expect(outcome.enemyAttacks).toBeGreaterThan(0);
+      expect(outcome.guardedAttacks).toBe(0);
+    });
+
+    it('should measure accuracy from the keys the typist pressed', async () => {
+      const careful = await simulateBattle(
+        { ...BUILT_IN_TYPISTS.average, errorRate: 0 },
+        BATTLE
+      );
+      const sloppy = await simulateBattle(
+        { ...BUILT_IN_TYPISTS.average, errorRate: 0.2 },
+        BATTLE
+      );
+
+      expect(careful.accuracy).toBe(1);
+      expect(sloppy.accuracy).toBeLessThan(0.9);
+      expect(sloppy.accuracy).toBeGreaterThan(0.7);
+    });
+
+    it('should record no criticals on a profile without them', async () => {
+      const outcome = await simulateBattle(BUILT_IN_TYPISTS.fast, {
+        ...BATTLE,
+        combatProfile: PRD_MVP_COMBAT_PROFILE,
+      });
+
+      expect(outcome.criticals).toBe(0);
+    });
+  });
+
+  describe('runSimulation', () => {
+    it('should report one row per typist and difficulty', async () => {
+      const report = await runSimulation({
+        typists: [BUILT_IN_TYPISTS.beginner, BUILT_IN_TYPISTS.fast],
+        difficulties: ['EASY', 'HARD'],
+        battles: 2,
+        durationSec: 30,
+        seed: 7,
+      });
+
+      expect(report.combatProfile).toBe('classic');
+      expect(
+        report.results.map(result => [result.typist, result.difficulty])
+      ).toEqual([
+        ['beginner', 'EASY'],
+        ['beginner', 'HARD'],
+        ['fast', 'EASY'],
+        ['fast', 'HARD'],
+      ]);
+      report.results.forEach(result => {
+        expect(result.battles).toBe(2);
+        expect(result.winRate).toBeGreaterThanOrEqual(0);
+        expect(result.winRate).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('should reject a non-positive battle count', async () => {
+      await expect(
+        runSimulation({
+          typists: [BUILT_IN_TYPISTS.average],
+          difficulties: ['NORMAL'],
+          battles: 0,
+          durationSec: 30,
+          seed: 1,
+        })
+      ).rejects.toThrow('battleSimulator: battles must be a positive integer');
+    });
+  });
+
+  describe('summariseBattles', () => {
+    it('should aggregate rates and averages', () => {
+      const result = summariseBattles('average', 'NORMAL', [
+        createOutcome(),
+        createOutcome({
+          result: 'LOSE',
+          timedOut: true,
+          durationSec: 30,
+          damageDealt: 50,
+          healingDone: 0,
+          criticals: 0,
+          guardedAttacks: 0,
+        }),
+      ]);
+
+      expect(result).toMatchObject({
+        battles: 2,
+        winRate: 0.5,
+        timeoutRate: 0.5,
+        averageBattleSec: 45,
+        averageDamageDealt: 75,
+        averageHealingDone: 10,
+        damageHealRatio: 7.5,
+        critRate: 0.05,
+        guardRate: 0.25,
+      });
+    });
+
+    it('should leave the damage to healing ratio empty without healing', () => {
+      const result = summariseBattles('fast', 'EASY', [
+        createOutcome({ healingDone: 0 }),
+      ]);
+
+      expect(result.damageHealRatio).toBeNull();
+    });
+  });
+
+  describe('formatSimulationReport', () => {
+    const report = {
+      generatedAt: '2026-10-19T00:00:00.000Z',
+      seed: 1,
+      battles: 1,
+      durationSec: 60,
+      combatProfile: 'classic',
+      typists: [BUILT_IN_TYPISTS.average],
+      results: [
+        summariseBattles('average', 'NORMAL' as const, [createOutcome()]),
+      ],
+    };
+
+    it('should render a header and one line per row', () => {
+      const lines = formatSimulationReport(report).split('\n');
+
+      expect(lines).toHaveLength(4);
+      expect(lines[1]).toMatch(/^typist\s+difficulty\s+battles\s+win %/);
+      expect(lines[3]).toMatch(/^average\s+NORMAL\s+1\s+100\.0/);
+    });
+
+    it('should show the win rate change against a baseline', () => {
+      const baseline = {
+        ...report,
+        results: [{ ...report.results[0], winRate: 0.75 }],
+      };
+
+      expect(formatSimulationReport(report, baseline)).toMatch(/\+25\.0$/);
+    });
+  });
+});
+
+describe('validateTypist', () => {
+  it('should accept the built-in typists', () => {
+    Object.values(BUILT_IN_TYPISTS).forEach(typist => {
+      expect(validateTypist(typist)).toEqual({ valid: true, errors: [] });
+    });
+  });
+
+  it('should name each invalid field', () => {
+    const result = validateTypist({
+      ...BUILT_IN_TYPISTS.average,
+      name: '',
+      wpmMean: 0,
+      errorRate: 1.5,
+    });
+
+    expect(result.errors).toEqual([
+      'name must be a non-empty string',
+      'wpmMean must be a positive number',
+      'errorRate must be a number between 0 and 1',
+    ]);
+  });
+});
@@ -0,0 +1,9 @@
+import { getLeaderboard } from '@/lib/api/handlers';
+import { handleApiRequest } from '@/lib/api/http';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  return handleApiRequest(request, context =>
+    getLeaderboard(context, searchParams)
+  );
+}
@@ -0,0 +1,12 @@
+import { getSessionReport } from '@/lib/api/handlers';
+import { handleApiRequest } from '@/lib/api/http';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params;
+  return handleApiRequest(request, context =>
+    getSessionReport(context, sessionId)
+  );
+}
@@ -0,0 +1,6 @@
+import { createSession } from '@/lib/api/handlers';
+import { handleApiRequest } from '@/lib/api/http';
+
+export async function POST(request: Request) {
+  return handleApiRequest(request, createSession);
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import DashboardView from '@/components/dashboard/DashboardView';
+import KeyboardHeatmap from '@/components/game/KeyboardHeatmap';
+import type { DashboardResponse } from '@/lib/api/types';
+import { claimGuestSessions } from '@/lib/game/guest/claimGuestSessions';
+import { LocalStorageGuestSessionStore } from '@/lib/game/guest/guestSessionStore';
+import { SupabaseKeystrokeProfileStore } from '@/lib/game/keystrokes/SupabaseKeystrokeProfileStore';
+import { useSettings } from '@/lib/game/settings/settingsStore';
+import type { KeystrokeProfile } from '@/lib/game/types';
+import { createBrowserSupabaseClient } from '@/lib/supabase/client';
+
+type DashboardState =
+  | { status: 'loading' }
+  | { status: 'signed-out' }
+  | {
+      status: 'ready';
+      dashboard: DashboardResponse;
+      keystrokeProfile: KeystrokeProfile;
+    }
+  | { status: 'error'; message: string };
+
+/**
+ * The dashboard is only kept for signed-in learners; guests are asked to
+ * sign in
+ * Sessions played here as a guest are claimed first so they are included
+ */
+async function loadDashboard(): Promise<DashboardState> {
+  const client = createBrowserSupabaseClient();
+  if (!client) return { status: 'signed-out' };
+
+  const { data } = await client.auth.getSession();
+  const session = data.session;
+  if (!session) return { status: 'signed-out' };
+
+  await claimGuestSessions(
+    new LocalStorageGuestSessionStore(),
+    session.access_token
+  ).catch(error =>
+    console.warn('Dashboard: Failed to claim guest sessions', error)
+  );
+
+  const [response, keystrokeProfile] = await Promise.all([
+    fetch('/api/dashboard', {
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    }),
+    new SupabaseKeystrokeProfileStore(client, session.user.id).load(),
+  ]);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.message ?? 'Could not load the dashboard');
+  }
+
+  return {
+    status: 'ready',
+    dashboard: body as DashboardResponse,
+    keystrokeProfile,
+  };
+}
+
+export default function DashboardPage() {
+  const [state, setState] = useState<DashboardState>({ status: 'loading' });
+  const keyboardLayout = useSettings(settings => settings.keyboardLayout);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadDashboard()
+      .then(loaded => {
+        if (!cancelled) setState(loaded);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState({ status: 'error', message: (error as Error).message });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-10 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-white text-3xl font-bold mb-6">Dashboard</h1>
+        {state.status === 'loading' && (
+          <div className="text-white text-xl text-center">
+            Loading dashboard...
+          </div>
+        )}
+        {state.status === 'signed-out' && (
+          <div className="text-gray-300 text-center">
+            Sign in to keep your progress and see your dashboard
+          </div>
+        )}
+        {state.status === 'error' && (
+          <div className="text-center">
+            <div className="text-red-300 text-xl mb-2">
+              Dashboard unavailable
+            </div>
+            <div className="text-red-200 text-sm">{state.message}</div>
+          </div>
+        )}
+        {state.status === 'ready' && (
+          <>
+            <DashboardView dashboard={state.dashboard} />
+            <section className="mt-6">
+              <h2 className="text-white text-lg font-semibold mb-2">
+                Weak Keys
+              </h2>
+              <KeyboardHeatmap
+                profile={state.keystrokeProfile}
+                layout={keyboardLayout}
+              />
+            </section>
+          </>
+        )}
+
+        <div className="flex justify-center gap-3 mt-8">
+          <Link
+            href="/game"
+            className="inline-block px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Play
+          </Link>
+          <Link
+            href="/leaderboard"
+            className="inline-block px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-lg font-medium transition-colors"
+          >
+            Leaderboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
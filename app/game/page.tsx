@@ -1,7 +1,32 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import dynamic from 'next/dynamic';
+import BattleSetup, { BattleOptions } from '@/components/game/BattleSetup';
+import { SupabaseKeystrokeProfileStore } from '@/lib/game/keystrokes/SupabaseKeystrokeProfileStore';
+import {
+  KeystrokeProfileStore,
+  LocalStorageKeystrokeProfileStore,
+} from '@/lib/game/keystrokes/keystrokeProfileStore';
+import { useGuestSessionClaim } from '@/lib/game/guest/useGuestSessionClaim';
+import { SupabasePlayerStatsStore } from '@/lib/game/progression/SupabasePlayerStatsStore';
+import {
+  LocalStoragePlayerStatsStore,
+  PlayerStatsStore,
+} from '@/lib/game/progression/playerStatsStore';
+import { SupabaseReviewStore } from '@/lib/game/reviews/SupabaseReviewStore';
+import {
+  LocalStorageReviewStore,
+  ReviewStore,
+} from '@/lib/game/reviews/reviewStore';
+import { useSettings } from '@/lib/game/settings/settingsStore';
+import type { Word } from '@/lib/game/types';
+import { StoredWord, toSessionWords } from '@/lib/game/utils/packWords';
+import {
+  getBattleDurationSec,
+  toGameConfigSettings,
+} from '@/lib/game/utils/settings';
+import { createBrowserSupabaseClient } from '@/lib/supabase/client';
 
 const GameCanvas = dynamic(() => import('@/components/game/GameCanvas'), {
   ssr: false,
@@ -12,14 +37,136 @@ const GameCanvas = dynamic(() => import('@/components/game/GameCanvas'), {
   ),
 });
 
+interface LearnerStores {
+  reviews: ReviewStore;
+  keystrokeProfile: KeystrokeProfileStore;
+  playerStats: PlayerStatsStore;
+}
+
+/**
+ * A guest's progress is kept on this device
+ */
+function createGuestStores(): LearnerStores {
+  return {
+    reviews: new LocalStorageReviewStore(),
+    keystrokeProfile: new LocalStorageKeystrokeProfileStore(),
+    playerStats: new LocalStoragePlayerStatsStore(),
+  };
+}
+
+/**
+ * Where the learner's progress is kept: their account when signed in, this
+ * device otherwise
+ */
+async function loadLearnerStores(): Promise<LearnerStores> {
+  const client = createBrowserSupabaseClient();
+  const session = client ? (await client.auth.getSession()).data.session : null;
+  if (!client || !session) return createGuestStores();
+
+  return {
+    reviews: new SupabaseReviewStore(client, session.user.id),
+    keystrokeProfile: new SupabaseKeystrokeProfileStore(
+      client,
+      session.user.id
+    ),
+    playerStats: new SupabasePlayerStatsStore(client, session.user.id),
+  };
+}
+
+type PackState =
+  | { status: 'loading' }
+  | { status: 'ready'; packId: string; words: Word[] }
+  | { status: 'error'; message: string };
+
+/**
+ * The chosen pack's words; a pack that is not active, such as the default
+ * before one is picked in settings, falls back to the first active pack
+ */
+async function loadPack(packId: string): Promise<PackState> {
+  const client = createBrowserSupabaseClient();
+  if (!client) {
+    return { status: 'error', message: 'Word packs are not available' };
+  }
+
+  const { data: packs, error: packsError } = await client
+    .from('word_packs')
+    .select('id')
+    .eq('is_active', true)
+    .order('title');
+  if (packsError) throw new Error(packsError.message);
+
+  const pack = packs?.find(pack => pack.id === packId) ?? packs?.[0];
+  if (!pack) return { status: 'error', message: 'No word pack to play' };
+
+  const { data: words, error: wordsError } = await client
+    .from('words')
+    .select('id, text, level, category')
+    .eq('pack_id', pack.id)
+    .order('id');
+  if (wordsError) throw new Error(wordsError.message);
+
+  return {
+    status: 'ready',
+    packId: pack.id,
+    words: toSessionWords((words ?? []) as StoredWord[]),
+  };
+}
+
 export default function GamePage() {
   const [mounted, setMounted] = useState(false);
+  const [stores, setStores] = useState<LearnerStores | null>(null);
+  const [pack, setPack] = useState<PackState>({ status: 'loading' });
+  const [battle, setBattle] = useState<BattleOptions | null>(null);
+  const settings = useSettings(state => state);
+  const { a11y, sound, keyboardLayout } = settings;
+  // A new object on every render would remount the game
+  const configSettings = useMemo(
+    () => toGameConfigSettings({ a11y, sound, keyboardLayout }),
+    [a11y, sound, keyboardLayout]
+  );
+  // A guest who signs in keeps the battles they already played
+  useGuestSessionClaim();
 
   useEffect(() => {
     setMounted(true);
+
+    loadLearnerStores()
+      .then(setStores)
+      .catch(error => {
+        console.error('Failed to load learner progress:', error);
+        setStores(createGuestStores());
+      });
   }, []);
 
-  if (!mounted) {
+  useEffect(() => {
+    let cancelled = false;
+    setPack({ status: 'loading' });
+
+    loadPack(settings.packId)
+      .then(state => {
+        if (!cancelled) setPack(state);
+      })
+      .catch(error => {
+        console.error('Failed to load word pack:', error);
+        if (!cancelled) {
+          setPack({ status: 'error', message: 'Could not load the word pack' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.packId]);
+
+  if (pack.status === 'error') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        <div className="text-red-300 text-xl">{pack.message}</div>
+      </div>
+    );
+  }
+
+  if (!mounted || !stores || pack.status === 'loading') {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-900">
         <div className="text-white text-xl">Loading game...</div>
@@ -27,9 +174,35 @@ export default function GamePage() {
     );
   }
 
+  if (!battle) {
+    return (
+      <div className="min-h-screen bg-gray-900 py-10 px-4">
+        <div className="max-w-xl mx-auto">
+          <h1 className="text-white text-3xl font-bold mb-6">
+            Prepare for battle
+          </h1>
+          <BattleSetup onStart={setBattle} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-900">
-      <GameCanvas />
+      <GameCanvas
+        difficulty={settings.difficulty}
+        packId={pack.packId}
+        words={pack.words}
+        durationSec={getBattleDurationSec(settings)}
+        settings={configSettings}
+        promptMode={battle.promptMode}
+        campaign={battle.campaign}
+        skills={battle.skills}
+        adaptiveDifficulty={battle.adaptiveDifficulty}
+        reviewStore={stores.reviews}
+        keystrokeProfileStore={stores.keystrokeProfile}
+        playerStatsStore={stores.playerStats}
+      />
     </div>
   );
 }
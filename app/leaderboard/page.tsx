@@ -0,0 +1,262 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import LeaderboardView from '@/components/leaderboard/LeaderboardView';
+import type { PackOption } from '@/components/settings/SettingsForm';
+import type { LeaderboardResponse, LeaderboardWindow } from '@/lib/api/types';
+import { settingsStore } from '@/lib/game/settings/settingsStore';
+import type { GameDifficulty } from '@/lib/game/types';
+import { createBrowserSupabaseClient } from '@/lib/supabase/client';
+
+interface LeaderboardFilters {
+  packId: string;
+  difficulty: GameDifficulty;
+  window: LeaderboardWindow;
+  page: number;
+}
+
+type LeaderboardState =
+  | { status: 'loading' }
+  | { status: 'ready'; leaderboard: LeaderboardResponse }
+  | { status: 'error'; message: string };
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  daily: 'Today',
+  weekly: 'This Week',
+  'all-time': 'All Time',
+};
+
+const DIFFICULTY_LABELS: Record<GameDifficulty, string> = {
+  EASY: 'Easy',
+  NORMAL: 'Normal',
+  HARD: 'Hard',
+};
+
+const SELECT_CLASS =
+  'bg-gray-700 text-white rounded px-3 py-2 border border-gray-600';
+
+/**
+ * Active word packs to choose from, empty when Supabase is not configured
+ */
+async function loadPackOptions(): Promise<PackOption[]> {
+  const client = createBrowserSupabaseClient();
+  if (!client) return [];
+
+  const { data, error } = await client
+    .from('word_packs')
+    .select('id, title')
+    .eq('is_active', true)
+    .order('title');
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as PackOption[];
+}
+
+/**
+ * The signed-in player's access token, so the leaderboard includes their
+ * own rank; null for guests
+ */
+async function loadAccessToken(): Promise<string | null> {
+  const client = createBrowserSupabaseClient();
+  if (!client) return null;
+
+  const { data } = await client.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+async function loadLeaderboard(
+  filters: LeaderboardFilters,
+  accessToken: string | null
+): Promise<LeaderboardResponse> {
+  const query = new URLSearchParams({
+    packId: filters.packId,
+    difficulty: filters.difficulty,
+    window: filters.window,
+    page: String(filters.page),
+  });
+  const response = await fetch(`/api/leaderboard?${query}`, {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.message ?? 'Could not load the leaderboard');
+  }
+  return body as LeaderboardResponse;
+}
+
+export default function LeaderboardPage() {
+  const [packs, setPacks] = useState<PackOption[]>([]);
+  // Unset until mounted, since the stored settings are only readable in the
+  // browser; the access token is undefined until it has been looked up
+  const [filters, setFilters] = useState<LeaderboardFilters | null>(null);
+  const [accessToken, setAccessToken] = useState<string | null>();
+  const [state, setState] = useState<LeaderboardState>({ status: 'loading' });
+
+  useEffect(() => {
+    const { packId, difficulty } = settingsStore.getState();
+    setFilters({ packId, difficulty, window: 'weekly', page: 1 });
+
+    loadPackOptions()
+      .then(setPacks)
+      .catch(error => console.error('Failed to load word packs:', error));
+    loadAccessToken()
+      .then(setAccessToken)
+      .catch(() => setAccessToken(null));
+  }, []);
+
+  useEffect(() => {
+    if (!filters || accessToken === undefined) return;
+    let cancelled = false;
+    setState({ status: 'loading' });
+
+    loadLeaderboard(filters, accessToken)
+      .then(leaderboard => {
+        if (!cancelled) setState({ status: 'ready', leaderboard });
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState({ status: 'error', message: (error as Error).message });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, accessToken]);
+
+  // Changing the board starts again from its first page
+  const updateFilters = (changes: Partial<LeaderboardFilters>) =>
+    setFilters(current => current && { ...current, page: 1, ...changes });
+
+  const packOptions =
+    filters && !packs.some(pack => pack.id === filters.packId)
+      ? [{ id: filters.packId, title: filters.packId }, ...packs]
+      : packs;
+  const pageCount =
+    state.status === 'ready'
+      ? Math.max(
+          1,
+          Math.ceil(state.leaderboard.total / state.leaderboard.pageSize)
+        )
+      : 1;
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-10 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-white text-3xl font-bold mb-6">Leaderboard</h1>
+        {filters && (
+          <div className="flex flex-wrap gap-3 mb-6">
+            <select
+              aria-label="Word pack"
+              className={SELECT_CLASS}
+              value={filters.packId}
+              onChange={event => updateFilters({ packId: event.target.value })}
+            >
+              {packOptions.map(pack => (
+                <option key={pack.id} value={pack.id}>
+                  {pack.title}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="Difficulty"
+              className={SELECT_CLASS}
+              value={filters.difficulty}
+              onChange={event =>
+                updateFilters({
+                  difficulty: event.target.value as GameDifficulty,
+                })
+              }
+            >
+              {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <div className="flex rounded overflow-hidden border border-gray-600">
+              {Object.entries(WINDOW_LABELS).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={filters.window === value}
+                  className={`px-3 py-2 text-sm transition-colors ${
+                    filters.window === value
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  onClick={() =>
+                    updateFilters({ window: value as LeaderboardWindow })
+                  }
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {state.status === 'loading' && (
+          <div className="text-white text-xl text-center">
+            Loading leaderboard...
+          </div>
+        )}
+        {state.status === 'error' && (
+          <div className="text-center">
+            <div className="text-red-300 text-xl mb-2">
+              Leaderboard unavailable
+            </div>
+            <div className="text-red-200 text-sm">{state.message}</div>
+          </div>
+        )}
+        {state.status === 'ready' && (
+          <>
+            <LeaderboardView leaderboard={state.leaderboard} />
+            {filters && pageCount > 1 && (
+              <div className="flex justify-between items-center mt-4 text-sm text-gray-300">
+                <button
+                  type="button"
+                  className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                  disabled={filters.page <= 1}
+                  onClick={() =>
+                    setFilters({ ...filters, page: filters.page - 1 })
+                  }
+                >
+                  Previous
+                </button>
+                <span>
+                  Page {filters.page} of {pageCount}
+                </span>
+                <button
+                  type="button"
+                  className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                  disabled={filters.page >= pageCount}
+                  onClick={() =>
+                    setFilters({ ...filters, page: filters.page + 1 })
+                  }
+                >
+                  Next
+                </button>
+              </div>
+            )}
+            {!state.leaderboard.viewer && accessToken === null && (
+              <div className="text-gray-400 text-sm text-center mt-4">
+                Sign in to get on the leaderboard
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="text-center mt-8">
+          <Link
+            href="/game"
+            className="inline-block px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Play
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
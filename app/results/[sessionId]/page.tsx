@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import SessionReportView from '@/components/results/SessionReportView';
+import type { SessionReportResponse } from '@/lib/api/types';
+import { LocalStorageGuestSessionStore } from '@/lib/game/guest/guestSessionStore';
+import { LocalStorageSessionResultStore } from '@/lib/game/results/sessionResultStore';
+import type { SessionReport } from '@/lib/game/types';
+import { createSessionReport } from '@/lib/game/utils/sessionReport';
+import { getAccessToken } from '@/lib/supabase/client';
+
+type ReportState =
+  | { status: 'loading' }
+  | { status: 'ready'; report: SessionReport }
+  | { status: 'error'; message: string };
+
+/**
+ * Sessions played on this device are reported from local data, so guests
+ * and offline players see their results; others are fetched from the API,
+ * with the guest token when a guest created the session here
+ */
+async function loadSessionReport(sessionId: string): Promise<SessionReport> {
+  const local = await new LocalStorageSessionResultStore().load(sessionId);
+  if (local) return createSessionReport(local);
+
+  const [accessToken, guestToken] = await Promise.all([
+    getAccessToken(),
+    new LocalStorageGuestSessionStore().getToken(sessionId),
+  ]);
+  const response = await fetch(
+    `/api/session/${encodeURIComponent(sessionId)}`,
+    {
+      headers: {
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        ...(guestToken && { 'X-Guest-Token': guestToken }),
+      },
+    }
+  );
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.message ?? 'Could not load the session');
+  }
+
+  return (body as SessionReportResponse).report;
+}
+
+export default function ResultsPage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [state, setState] = useState<ReportState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSessionReport(sessionId)
+      .then(report => {
+        if (!cancelled) setState({ status: 'ready', report });
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState({ status: 'error', message: (error as Error).message });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-10 px-4">
+      <div className="max-w-3xl mx-auto">
+        {state.status === 'loading' && (
+          <div className="text-white text-xl text-center">
+            Loading results...
+          </div>
+        )}
+        {state.status === 'error' && (
+          <div className="text-center">
+            <div className="text-red-300 text-xl mb-2">Results unavailable</div>
+            <div className="text-red-200 text-sm">{state.message}</div>
+          </div>
+        )}
+        {state.status === 'ready' && (
+          <SessionReportView report={state.report} />
+        )}
+
+        <div className="text-center mt-8">
+          <Link
+            href="/game"
+            className="inline-block px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Play Again
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
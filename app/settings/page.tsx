@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import SettingsForm, { PackOption } from '@/components/settings/SettingsForm';
+import { useSettings } from '@/lib/game/settings/settingsStore';
+import { createBrowserSupabaseClient } from '@/lib/supabase/client';
+
+/**
+ * Active word packs to choose from, empty when Supabase is not configured
+ */
+async function loadPackOptions(): Promise<PackOption[]> {
+  const client = createBrowserSupabaseClient();
+  if (!client) return [];
+
+  const { data, error } = await client
+    .from('word_packs')
+    .select('id, title')
+    .eq('is_active', true)
+    .order('title');
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as PackOption[];
+}
+
+export default function SettingsPage() {
+  const [mounted, setMounted] = useState(false);
+  const [packs, setPacks] = useState<PackOption[]>([]);
+  const settings = useSettings(state => state);
+
+  useEffect(() => {
+    // Stored settings are only readable in the browser
+    setMounted(true);
+
+    loadPackOptions()
+      .then(setPacks)
+      .catch(error => console.error('Failed to load word packs:', error));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-10 px-4">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-white text-3xl font-bold mb-6">Settings</h1>
+        {mounted ? (
+          <SettingsForm settings={settings} packs={packs} />
+        ) : (
+          <div className="text-white text-xl text-center">
+            Loading settings...
+          </div>
+        )}
+
+        <div className="text-center mt-8">
+          <Link
+            href="/game"
+            className="inline-block px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Play
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
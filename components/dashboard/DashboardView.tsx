@@ -0,0 +1,164 @@
+import Link from 'next/link';
+import type { DashboardResponse } from '@/lib/api/types';
+import TrendChart from './TrendChart';
+
+interface DashboardViewProps {
+  dashboard: DashboardResponse;
+  className?: string;
+}
+
+const RESULT_COLORS = {
+  WIN: 'text-green-400',
+  LOSE: 'text-red-400',
+  ABORT: 'text-gray-400',
+};
+
+/**
+ * Learner dashboard: cumulative totals, weekly trends, results per pack and
+ * difficulty and the latest sessions
+ */
+export default function DashboardView({
+  dashboard,
+  className = '',
+}: DashboardViewProps) {
+  const { totals, weeks, packs, recentSessions } = dashboard;
+  const labels = weeks.map(week => week.weekStart);
+  const totalStats = [
+    { label: 'Sessions', value: totals.sessions },
+    { label: 'Win Rate', value: formatPercent(totals.winRate) },
+    { label: 'Average WPM', value: formatNumber(totals.averageWpm) },
+    {
+      label: 'Average Accuracy',
+      value:
+        totals.averageAccuracy !== null
+          ? formatPercent(totals.averageAccuracy)
+          : '-',
+    },
+    { label: 'Words Typed', value: totals.wordsTyped },
+    { label: 'Damage Dealt', value: totals.totalDamage },
+    { label: 'Healing Done', value: totals.totalHealing },
+    { label: 'Time Played', value: formatPlayTime(totals.timePlayedSec) },
+  ];
+
+  return (
+    <div className={`text-white space-y-6 ${className}`}>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {totalStats.map(stat => (
+          <div key={stat.label} className="bg-gray-800 rounded-lg p-3">
+            <div className="text-gray-400 text-xs">{stat.label}</div>
+            <div className="text-xl font-semibold">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid sm:grid-cols-3 gap-4">
+        <TrendChart
+          title="WPM per week"
+          labels={labels}
+          values={weeks.map(week => week.averageWpm)}
+          format={value => value.toFixed(1)}
+        />
+        <TrendChart
+          title="Accuracy per week"
+          labels={labels}
+          values={weeks.map(week => week.averageAccuracy)}
+          format={formatPercent}
+          color="#34d399"
+        />
+        <TrendChart
+          title="Sessions per week"
+          labels={labels}
+          values={weeks.map(week => week.sessions)}
+          format={value => String(value)}
+          color="#fbbf24"
+        />
+      </div>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-2">Packs</h2>
+        {packs.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left border-b border-gray-700">
+                <th className="py-2 pr-2">Pack</th>
+                <th className="py-2 pr-2">Difficulty</th>
+                <th className="py-2 pr-2 text-right">Sessions</th>
+                <th className="py-2 pr-2 text-right">Win Rate</th>
+                <th className="py-2 pr-2 text-right">WPM</th>
+                <th className="py-2 text-right">Accuracy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {packs.map(pack => (
+                <tr
+                  key={`${pack.packId}:${pack.difficulty}`}
+                  className="border-b border-gray-800"
+                >
+                  <td className="py-2 pr-2">{pack.packTitle ?? pack.packId}</td>
+                  <td className="py-2 pr-2">{pack.difficulty}</td>
+                  <td className="py-2 pr-2 text-right">{pack.sessions}</td>
+                  <td className="py-2 pr-2 text-right">
+                    {formatPercent(pack.winRate)}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    {formatNumber(pack.averageWpm)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {pack.averageAccuracy !== null
+                      ? formatPercent(pack.averageAccuracy)
+                      : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-gray-500 text-sm">No sessions yet</div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-2">Recent Sessions</h2>
+        {recentSessions.length > 0 ? (
+          <ul className="space-y-2">
+            {recentSessions.map(session => (
+              <li key={session.sessionId}>
+                <Link
+                  href={`/results/${encodeURIComponent(session.sessionId)}`}
+                  className="flex justify-between bg-gray-800 hover:bg-gray-700 rounded-lg px-4 py-2 transition-colors"
+                >
+                  <span>
+                    <span className={RESULT_COLORS[session.result]}>
+                      {session.result}
+                    </span>{' '}
+                    {session.packTitle ?? 'Unknown pack'} · {session.difficulty}
+                  </span>
+                  <span className="text-gray-400 text-sm">
+                    {formatNumber(session.wpm)} WPM ·{' '}
+                    {new Date(session.startedAt).toLocaleDateString()}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-gray-500 text-sm">No sessions yet</div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatNumber(value: number | null): string {
+  return value !== null ? value.toFixed(1) : '-';
+}
+
+function formatPlayTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
@@ -0,0 +1,76 @@
+interface TrendChartProps {
+  title: string;
+  labels: string[];
+  values: Array<number | null>; // null leaves a gap
+  format: (value: number) => string;
+  color?: string;
+  className?: string;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+const PADDING = 8;
+
+/**
+ * Line chart of one weekly value, with the latest value beside the title
+ * Weeks without a value are skipped rather than drawn as zero
+ */
+export default function TrendChart({
+  title,
+  labels,
+  values,
+  format,
+  color = '#60a5fa',
+  className = '',
+}: TrendChartProps) {
+  const known = values.filter((value): value is number => value !== null);
+  const latest = known.length > 0 ? known[known.length - 1] : null;
+  const min = Math.min(...known);
+  const range = Math.max(...known) - min || 1;
+
+  const points = values.flatMap((value, index) => {
+    if (value === null) return [];
+    const x =
+      PADDING +
+      (index / Math.max(1, values.length - 1)) * (WIDTH - 2 * PADDING);
+    const y =
+      HEIGHT - PADDING - ((value - min) / range) * (HEIGHT - 2 * PADDING);
+    return [{ x, y, label: labels[index], value }];
+  });
+
+  return (
+    <div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
+      <div className="flex justify-between mb-2">
+        <span className="text-gray-400 text-xs">{title}</span>
+        <span className="font-semibold">
+          {latest !== null ? format(latest) : '-'}
+        </span>
+      </div>
+      {points.length > 0 ? (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-24">
+          <polyline
+            points={points.map(point => `${point.x},${point.y}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+          />
+          {points.map(point => (
+            <circle
+              key={point.label}
+              cx={point.x}
+              cy={point.y}
+              r={3}
+              fill={color}
+            >
+              <title>{`${point.label}: ${format(point.value)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      ) : (
+        <div className="text-gray-500 text-sm h-24 flex items-center">
+          No sessions yet
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { MAX_EQUIPPED_SKILLS, SKILLS } from '@/lib/game/skills/skills';
+import type { Campaign, PromptMode, SkillId } from '@/lib/game/types';
+import { BUILT_IN_CAMPAIGNS } from '@/lib/game/utils/campaign';
+
+/**
+ * Choices made before a battle, passed through to GameCanvas
+ */
+export interface BattleOptions {
+  promptMode: PromptMode;
+  campaign?: Campaign; // A single battle without
+  skills: SkillId[]; // Equipped loadout, at most MAX_EQUIPPED_SKILLS
+  adaptiveDifficulty: boolean; // Tune word difficulty to the player's performance
+}
+
+interface BattleSetupProps {
+  onStart: (options: BattleOptions) => void;
+  className?: string;
+}
+
+const PROMPT_MODES: Array<{ mode: PromptMode; label: string }> = [
+  { mode: 'WORD', label: 'Words' },
+  { mode: 'PHRASE', label: 'Phrases' },
+];
+
+const CAMPAIGNS = Object.values(BUILT_IN_CAMPAIGNS);
+const SKILL_LIST = Object.values(SKILLS);
+
+const OPTION_CLASS = 'px-4 py-2 rounded font-medium transition-colors';
+
+/**
+ * The pre-battle screen: how to play the next battle
+ */
+export default function BattleSetup({
+  onStart,
+  className = '',
+}: BattleSetupProps) {
+  const [promptMode, setPromptMode] = useState<PromptMode>('WORD');
+  const [campaign, setCampaign] = useState<Campaign | undefined>();
+  const [skills, setSkills] = useState<SkillId[]>([]);
+  const [adaptiveDifficulty, setAdaptiveDifficulty] = useState(false);
+
+  const toggleSkill = (id: SkillId, equipped: boolean) =>
+    setSkills(current =>
+      equipped ? [...current, id] : current.filter(skill => skill !== id)
+    );
+
+  return (
+    <div className={`text-white space-y-6 ${className}`}>
+      <Section title="Battle">
+        <div className="flex flex-wrap gap-2">
+          <Option selected={!campaign} onClick={() => setCampaign(undefined)}>
+            Single battle
+          </Option>
+          {CAMPAIGNS.map(option => (
+            <Option
+              key={option.id}
+              selected={campaign?.id === option.id}
+              onClick={() => setCampaign(option)}
+            >
+              {option.name}
+            </Option>
+          ))}
+        </div>
+        {campaign && (
+          <ol className="list-decimal list-inside text-gray-300 text-sm">
+            {campaign.stages.map(stage => (
+              <li key={stage.id}>
+                {stage.name}: {stage.enemy.name}
+              </li>
+            ))}
+          </ol>
+        )}
+      </Section>
+
+      <Section title="Prompts">
+        <div className="flex gap-2">
+          {PROMPT_MODES.map(({ mode, label }) => (
+            <Option
+              key={mode}
+              selected={promptMode === mode}
+              onClick={() => setPromptMode(mode)}
+            >
+              {label}
+            </Option>
+          ))}
+        </div>
+        <p className="text-gray-400 text-sm">
+          {promptMode === 'PHRASE'
+            ? 'Type phrases and example sentences from the pack'
+            : 'Type single words from the pack'}
+        </p>
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-gray-300">Adaptive difficulty</span>
+          <input
+            type="checkbox"
+            checked={adaptiveDifficulty}
+            onChange={event => setAdaptiveDifficulty(event.target.checked)}
+          />
+        </label>
+        {adaptiveDifficulty && (
+          <p className="text-gray-400 text-sm">
+            Words get harder or easier with your speed and accuracy; the results
+            screen explains each change
+          </p>
+        )}
+      </Section>
+
+      <Section title={`Skills (${skills.length}/${MAX_EQUIPPED_SKILLS})`}>
+        {SKILL_LIST.map(skill => {
+          const equipped = skills.includes(skill.id);
+          return (
+            <label key={skill.id} className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={equipped}
+                disabled={!equipped && skills.length >= MAX_EQUIPPED_SKILLS}
+                onChange={event => toggleSkill(skill.id, event.target.checked)}
+              />
+              <span>
+                <span className="block">{skill.name}</span>
+                <span className="block text-gray-400 text-sm">
+                  {skill.description}
+                </span>
+              </span>
+            </label>
+          );
+        })}
+        {skills.length > 0 && (
+          <p className="text-yellow-300 text-sm">
+            Battles with skills are not ranked
+          </p>
+        )}
+      </Section>
+
+      <button
+        type="button"
+        onClick={() =>
+          onStart({ promptMode, campaign, skills, adaptiveDifficulty })
+        }
+        className={`${OPTION_CLASS} w-full bg-green-600 hover:bg-green-700`}
+      >
+        Start battle
+      </button>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="bg-gray-800 rounded-lg p-4 space-y-3">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Option({
+  selected,
+  onClick,
+  children,
+}: {
+  selected: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      onClick={onClick}
+      className={`${OPTION_CLASS} ${
+        selected ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
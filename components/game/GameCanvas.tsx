@@ -2,17 +2,47 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import type { GameAdapter } from '@/lib/game/GameAdapter';
-import type { GameState, GameConfig, SessionSeed, Word } from '@/lib/game/types';
+import type { Campaign, GameState, GameConfig, KeystrokeProfile, PromptMode, SessionSeed, SkillId, Word } from '@/lib/game/types';
+import { EMPTY_KEYSTROKE_PROFILE, addKeystrokeStats } from '@/lib/game/utils/keystrokeProfile';
+import { DEFAULT_GAME_SETTINGS, getBattleDurationSec, toGameConfigSettings } from '@/lib/game/utils/settings';
+import { SessionResultRecorder } from '@/lib/game/results/SessionResultRecorder';
+import { LocalStorageSessionResultStore } from '@/lib/game/results/sessionResultStore';
+import { Outbox } from '@/lib/game/outbox/Outbox';
+import { OutboxRecorder } from '@/lib/game/outbox/OutboxRecorder';
+import { createOutboxStore } from '@/lib/game/outbox/IndexedDbOutboxStore';
+import { LocalStorageGuestSessionStore } from '@/lib/game/guest/guestSessionStore';
+import { KeystrokeProfileTracker } from '@/lib/game/keystrokes/KeystrokeProfileTracker';
+import type { KeystrokeProfileStore } from '@/lib/game/keystrokes/keystrokeProfileStore';
+import { PlayerStatsTracker } from '@/lib/game/progression/PlayerStatsTracker';
+import type { PlayerStatsStore } from '@/lib/game/progression/playerStatsStore';
+import { ReplayRecorder } from '@/lib/game/replay/ReplayRecorder';
+import { ReviewTracker } from '@/lib/game/reviews/ReviewTracker';
+import type { ReviewStore } from '@/lib/game/reviews/reviewStore';
+import { getAccessToken } from '@/lib/supabase/client';
+import Link from 'next/link';
+import KeyboardHeatmap from './KeyboardHeatmap';
 
 interface GameCanvasProps {
   className?: string;
   // Optional props for configuration
   difficulty?: 'EASY' | 'NORMAL' | 'HARD';
-  packId?: string;
-  sessionId?: string;
+  packId: string;
+  words: Word[]; // The pack's words, from toSessionWords
+  durationSec?: number; // Battle length, 5 minutes without
+  settings?: GameConfig['settings']; // Accessibility, sound and keyboard layout from the settings store
+  promptMode?: PromptMode; // Single words or phrases, WORD without
+  campaign?: Campaign; // Play the campaign's stages instead of a single battle
+  skills?: SkillId[]; // Equipped skill loadout, at most three
+  adaptiveDifficulty?: boolean; // Tune word difficulty to the player's performance
+  reviewStore?: ReviewStore; // Where the learner's word reviews are kept, none without
+  keystrokeProfileStore?: KeystrokeProfileStore; // Where the learner's keystroke profile is kept, to drill their weak keys
+  playerStatsStore?: PlayerStatsStore; // Where the player's level and experience are kept, level 1 without
   onGameOver?: (result: 'WIN' | 'LOSE', stats: any) => void;
 }
 
+// Module level so the default keeps its identity between renders
+const DEFAULT_SETTINGS = toGameConfigSettings(DEFAULT_GAME_SETTINGS);
+
 interface GameStatus {
   status: 'LOADING' | 'READY' | 'PLAYING' | 'PAUSED' | 'ENDED' | 'ERROR';
   message?: string;
@@ -22,15 +52,30 @@ interface GameStatus {
 export default function GameCanvas({ 
   className = '',
   difficulty = 'NORMAL',
-  packId = 'default-pack',
-  sessionId = 'default-session',
+  packId,
+  words,
+  durationSec = getBattleDurationSec(DEFAULT_GAME_SETTINGS),
+  settings = DEFAULT_SETTINGS,
+  promptMode,
+  campaign,
+  skills,
+  adaptiveDifficulty,
+  reviewStore,
+  keystrokeProfileStore,
+  playerStatsStore,
   onGameOver
 }: GameCanvasProps) {
   const gameRef = useRef<HTMLDivElement>(null);
   const adapterRef = useRef<GameAdapter | null>(null);
+  const reviewTrackerRef = useRef<ReviewTracker | null>(null);
+  const keystrokeTrackerRef = useRef<KeystrokeProfileTracker | null>(null);
+  const statsTrackerRef = useRef<PlayerStatsTracker | null>(null);
+  const outboxRecorderRef = useRef<OutboxRecorder | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [gameStatus, setGameStatus] = useState<GameStatus>({ status: 'LOADING' });
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [currentInput, setCurrentInput] = useState('');
+  const [heatmapProfile, setHeatmapProfile] = useState<KeystrokeProfile>(EMPTY_KEYSTROKE_PROFILE);
 
   // =============================================================================
   // GAME ADAPTER INITIALIZATION
@@ -63,25 +108,9 @@ export default function GameCanvas({
         height: 600,
         difficulty,
         packId,
-        sessionId,
-        durationSec: 300, // 5 minutes
-        settings: {
-          a11y: {
-            highContrast: false,
-            openDyslexic: false,
-            reduceMotion: false,
-            fontSize: 'medium',
-            letterSpacing: 'normal',
-            soundEnabled: true,
-            voiceEnabled: false,
-          },
-          sound: {
-            enabled: true,
-            volume: 0.7,
-            effects: true,
-            music: true,
-          },
-        },
+        sessionId: crypto.randomUUID(), // Replaced by the server session's id in startGame
+        durationSec,
+        settings,
       };
 
       setGameStatus({ status: 'LOADING', message: 'Mounting game...' });
@@ -100,7 +129,7 @@ export default function GameCanvas({
         message: 'Failed to initialize game engine'
       });
     }
-  }, [difficulty, packId, sessionId]);
+  }, [difficulty, packId, words, durationSec, settings, reviewStore, keystrokeProfileStore, playerStatsStore]);
 
   // =============================================================================
   // EVENT HANDLERS
@@ -118,6 +147,46 @@ export default function GameCanvas({
       }
     });
 
+    // Keep the finished session on this device for the results screen
+    const resultRecorder = new SessionResultRecorder(adapter, new LocalStorageSessionResultStore());
+    resultRecorder.attach();
+
+    // Send the session and its attempts to the API, holding them while offline
+    const outbox = new Outbox(createOutboxStore(), {
+      getAccessToken,
+      guestSessions: new LocalStorageGuestSessionStore(),
+    });
+    const outboxRecorder = new OutboxRecorder(adapter, outbox);
+    outboxRecorder.attach();
+    outbox.start();
+    outboxRecorderRef.current = outboxRecorder;
+
+    // Update the learner's word reviews, keystroke profile and stats; attached in startGame once they load
+    const reviewTracker = reviewStore ? new ReviewTracker(adapter, reviewStore) : null;
+    reviewTrackerRef.current = reviewTracker;
+    const keystrokeTracker = keystrokeProfileStore ? new KeystrokeProfileTracker(adapter, keystrokeProfileStore) : null;
+    keystrokeTrackerRef.current = keystrokeTracker;
+    // Saves the player's new level and experience itself on game-over
+    const statsTracker = playerStatsStore ? new PlayerStatsTracker(adapter, playerStatsStore) : null;
+    statsTrackerRef.current = statsTracker;
+
+    // Recorded so the server can verify a battle played with its session's seed
+    const replayRecorder = new ReplayRecorder(adapter);
+
+    // PhaserAdapter has no session-ended, so end the session with the recorded result
+    adapter.on('game-over', () => {
+      const result = resultRecorder.getResult();
+      const seeded = adapter.getSessionSeed()?.rngSeed !== undefined;
+      if (result) outboxRecorder.recordEnd(result, seeded ? replayRecorder.getReplay() : undefined);
+
+      reviewTracker?.flush().catch(error =>
+        console.error('Failed to save word reviews:', error)
+      );
+      keystrokeTracker?.flush().catch(error =>
+        console.error('Failed to save keystroke profile:', error)
+      );
+    });
+
     // Game event listeners
     adapter.on('word-started', (data) => {
       console.log('Word started:', data);
@@ -126,6 +195,11 @@ export default function GameCanvas({
     adapter.on('word-completed', (data) => {
       console.log('Word completed:', data);
       setCurrentInput(''); // Clear input display
+
+      const keyStats = data.completedWord.keystrokePattern?.keyStats;
+      if (keyStats) {
+        setHeatmapProfile(profile => addKeystrokeStats(profile, keyStats));
+      }
     });
 
     adapter.on('word-failed', (data) => {
@@ -145,6 +219,14 @@ export default function GameCanvas({
     // Store cleanup functions
     (adapter as any)._cleanupListeners = () => {
       unsubscribeState();
+      resultRecorder.detach();
+      outboxRecorder.detach();
+      outbox.stop();
+      outboxRecorderRef.current = null;
+      replayRecorder.detach();
+      reviewTracker?.detach();
+      keystrokeTracker?.detach();
+      statsTracker?.detach();
     };
   };
 
@@ -154,12 +236,51 @@ export default function GameCanvas({
     try {
       setGameStatus({ status: 'LOADING', message: 'Starting game...' });
 
-      // Create mock session seed (in real app, this would come from API)
+      // Play without the learner's reviews, profile or stats rather than not at all
+      const reviewSchedule = await reviewTrackerRef.current?.attach().catch(error => {
+        console.warn('Failed to load word reviews:', error);
+        return undefined;
+      });
+      const keystrokeProfile = await keystrokeTrackerRef.current?.attach().catch(error => {
+        console.warn('Failed to load keystroke profile:', error);
+        return undefined;
+      });
+      if (keystrokeProfile) setHeatmapProfile(keystrokeProfile);
+      const playerStats = await statsTrackerRef.current?.attach().catch(error => {
+        console.warn('Failed to load player stats:', error);
+        return undefined;
+      });
+
+      // The server session sets the battle's id, seed and rules; offline the battle
+      // is played with a local id and queued until the server can take it
+      const serverSession = await outboxRecorderRef.current?.openSession({
+        packId,
+        difficulty,
+        durationSec,
+        promptMode,
+        skills,
+        campaignId: campaign?.id,
+        adaptiveDifficulty,
+      });
+      const startedSessionId = serverSession?.sessionId ?? crypto.randomUUID();
+      setSessionId(startedSessionId);
+      // The server replays the session with the learner data it was opened with
+      const learner = serverSession ?? { keystrokeProfile, playerStats, reviewSchedule };
+
       const sessionSeed: SessionSeed = {
-        sessionId,
+        sessionId: startedSessionId,
         packId,
         difficulty,
-        words: generateMockWords(), // Mock words for demo
+        words,
+        rngSeed: serverSession?.rngSeed,
+        combatProfile: serverSession?.combatProfile,
+        promptMode,
+        campaign,
+        skills: serverSession?.skills ?? skills,
+        adaptiveDifficulty,
+        keystrokeProfile: learner.keystrokeProfile,
+        playerStats: learner.playerStats,
+        reviewSchedule: learner.reviewSchedule,
       };
 
       await adapterRef.current.start(sessionSeed);
@@ -314,8 +435,22 @@ export default function GameCanvas({
                   <div>Accuracy: {(gameState.stats.accuracy * 100).toFixed(1)}%</div>
                   <div>WPM: {gameState.stats.wpm}</div>
                   <div>Max Combo: {gameState.stats.maxCombo}</div>
+                  {gameState.stage && (
+                    <div>
+                      Stage: {gameState.stage.index + 1}/{gameState.stage.total} ({gameState.stage.name})
+                    </div>
+                  )}
                 </div>
               )}
+              <KeyboardHeatmap profile={heatmapProfile} layout={settings?.keyboardLayout} className="mb-4" />
+              {sessionId && (
+                <Link
+                  href={`/results/${encodeURIComponent(sessionId)}`}
+                  className="inline-block mr-3 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  View Results
+                </Link>
+              )}
               <button
                 onClick={() => window.location.reload()}
                 className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
@@ -401,26 +536,3 @@ export default function GameCanvas({
     </div>
   );
 }
-
-// =============================================================================
-// MOCK DATA HELPERS (TODO: Replace with real API calls)
-// =============================================================================
-
-function generateMockWords(): Word[] {
-  const mockWords: Word[] = [
-    { id: '1', text: 'hello', level: 1, length: 5, category: 'basic' },
-    { id: '2', text: 'world', level: 1, length: 5, category: 'basic' },
-    { id: '3', text: 'typing', level: 2, length: 6, category: 'common' },
-    { id: '4', text: 'adventure', level: 3, length: 9, category: 'intermediate' },
-    { id: '5', text: 'challenge', level: 3, length: 9, category: 'intermediate' },
-    { id: '6', text: 'victory', level: 2, length: 7, category: 'common' },
-    { id: '7', text: 'quest', level: 2, length: 5, category: 'common' },
-    { id: '8', text: 'battle', level: 2, length: 6, category: 'action' },
-    { id: '9', text: 'healing', level: 2, length: 7, category: 'medical' },
-    { id: '10', text: 'defend', level: 2, length: 6, category: 'defense' },
-    // Add more words as needed
-  ];
-
-  // Shuffle and return
-  return mockWords.sort(() => Math.random() - 0.5);
-}
@@ -0,0 +1,74 @@
+import type {
+  KeyboardLayout,
+  KeystrokeProfile,
+  WeakSpot,
+} from '@/lib/game/types';
+import {
+  getKeyboardHeatmap,
+  getWeakSpots,
+} from '@/lib/game/utils/keystrokeProfile';
+
+interface KeyboardHeatmapProps {
+  profile: KeystrokeProfile;
+  layout?: KeyboardLayout; // Player's keyboard layout, qwerty without
+  className?: string;
+}
+
+// Row offsets of a physical keyboard, in key widths
+const ROW_OFFSETS = ['ml-0', 'ml-3', 'ml-6'];
+
+/**
+ * Keyboard coloured by the learner's slow and error-prone keys, with their
+ * weakest keys and bigrams listed below
+ * Used by the results screen and the dashboard
+ */
+export default function KeyboardHeatmap({
+  profile,
+  layout,
+  className = '',
+}: KeyboardHeatmapProps) {
+  const rows = getKeyboardHeatmap(profile, layout);
+  const weakSpots = getWeakSpots(profile, 5);
+
+  return (
+    <div className={`inline-block text-left ${className}`}>
+      {rows.map((row, index) => (
+        <div key={index} className={`flex gap-1 mb-1 ${ROW_OFFSETS[index]}`}>
+          {row.map(key => (
+            <div
+              key={key.key}
+              title={
+                key.count > 0
+                  ? `${key.key}: ${Math.round(key.errorRate * 100)}% errors, ${key.averageLatencyMs}ms`
+                  : `${key.key}: not typed yet`
+              }
+              className="w-6 h-6 flex items-center justify-center rounded text-xs font-mono text-white"
+              style={{ backgroundColor: getHeatColor(key.heat, key.count) }}
+            >
+              {key.key}
+            </div>
+          ))}
+        </div>
+      ))}
+      {weakSpots.length > 0 && (
+        <div className="text-gray-300 text-xs mt-2">
+          Practise: {weakSpots.map(formatWeakSpot).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Grey for untyped keys, then green through red as a key gets weaker
+ */
+function getHeatColor(heat: number, count: number): string {
+  if (count === 0) return 'rgb(55, 65, 81)';
+
+  const hue = Math.round(120 * (1 - heat));
+  return `hsl(${hue}, 70%, 40%)`;
+}
+
+function formatWeakSpot(spot: WeakSpot): string {
+  return `"${spot.sequence}" (${Math.round(spot.errorRate * 100)}% errors, ${spot.averageLatencyMs}ms)`;
+}
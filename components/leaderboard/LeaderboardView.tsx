@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import type { LeaderboardEntry, LeaderboardResponse } from '@/lib/api/types';
+
+interface LeaderboardViewProps {
+  leaderboard: LeaderboardResponse;
+  className?: string;
+}
+
+const RANK_COLORS: Record<number, string> = {
+  1: 'text-yellow-300',
+  2: 'text-gray-300',
+  3: 'text-amber-500',
+};
+
+/**
+ * One page of a leaderboard, with the viewer's own entry above it when they
+ * are ranked
+ */
+export default function LeaderboardView({
+  leaderboard,
+  className = '',
+}: LeaderboardViewProps) {
+  const { entries, viewer } = leaderboard;
+
+  return (
+    <div className={`text-white space-y-6 ${className}`}>
+      {viewer && (
+        <section className="bg-gray-800 rounded-lg p-4">
+          <h2 className="text-gray-400 text-xs mb-1">Your Rank</h2>
+          <div className="flex justify-between items-baseline">
+            <span className="text-2xl font-semibold">#{viewer.rank}</span>
+            <span className="text-gray-300 text-sm">
+              {formatScore(viewer.score)} · {formatPercent(viewer.accuracy)}{' '}
+              accuracy · <SessionLink entry={viewer} />
+            </span>
+          </div>
+        </section>
+      )}
+
+      {entries.length > 0 ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-left border-b border-gray-700">
+              <th className="py-2 pr-2">Rank</th>
+              <th className="py-2 pr-2">Player</th>
+              <th className="py-2 pr-2 text-right">Damage/min</th>
+              <th className="py-2 pr-2 text-right">Accuracy</th>
+              <th className="py-2 pr-2 text-right">WPM</th>
+              <th className="py-2 text-right">Date</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr
+                key={entry.sessionId}
+                className={`border-b border-gray-800 ${
+                  entry.sessionId === viewer?.sessionId ? 'bg-gray-800' : ''
+                }`}
+              >
+                <td
+                  className={`py-2 pr-2 font-semibold ${RANK_COLORS[entry.rank] ?? ''}`}
+                >
+                  {entry.rank}
+                </td>
+                <td className="py-2 pr-2">
+                  {entry.displayName ?? 'Anonymous player'}
+                </td>
+                <td className="py-2 pr-2 text-right">
+                  {entry.score.toFixed(1)}
+                </td>
+                <td className="py-2 pr-2 text-right">
+                  {formatPercent(entry.accuracy)}
+                </td>
+                <td className="py-2 pr-2 text-right">
+                  {entry.wpm !== null ? entry.wpm.toFixed(1) : '-'}
+                </td>
+                <td className="py-2 text-right text-gray-400">
+                  {new Date(entry.endedAt).toLocaleDateString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-gray-500 text-sm">
+          No ranked sessions in this period yet
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Players can open the results of their own session
+ */
+function SessionLink({ entry }: { entry: LeaderboardEntry }) {
+  return (
+    <Link
+      href={`/results/${encodeURIComponent(entry.sessionId)}`}
+      className="text-blue-400 hover:text-blue-300"
+    >
+      View session
+    </Link>
+  );
+}
+
+function formatScore(score: number): string {
+  return `${score.toFixed(1)} damage/min`;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,217 @@
+import type {
+  DifficultyAdjustment,
+  DifficultyEstimate,
+  ReportWord,
+  SessionReport,
+} from '@/lib/game/types';
+
+interface SessionReportViewProps {
+  report: SessionReport;
+  className?: string;
+}
+
+const RESULT_LABELS: Record<SessionReport['result'], string> = {
+  WIN: 'Victory!',
+  LOSE: 'Defeat',
+  ABORT: 'Session Ended',
+};
+
+const RESULT_COLORS: Record<SessionReport['result'], string> = {
+  WIN: 'text-green-400',
+  LOSE: 'text-red-400',
+  ABORT: 'text-gray-300',
+};
+
+const DIRECTION_LABELS: Record<DifficultyAdjustment['direction'], string> = {
+  UP: 'Harder',
+  DOWN: 'Easier',
+};
+
+const ACTION_LABELS: Record<ReportWord['type'], string> = {
+  ATTACK: 'Attack',
+  HEAL: 'Heal',
+  GUARD: 'Guard',
+};
+
+/**
+ * Results screen for a finished session: totals, the words to work on, a
+ * learning suggestion, why adaptive difficulty changed the words and every
+ * word with its combat breakdown
+ */
+export default function SessionReportView({
+  report,
+  className = '',
+}: SessionReportViewProps) {
+  const stats = [
+    { label: 'Accuracy', value: formatPercent(report.accuracy) },
+    { label: 'Average WPM', value: report.averageWpm.toFixed(1) },
+    { label: 'Longest Combo', value: report.longestCombo },
+    { label: 'Attacks', value: report.attackCount },
+    { label: 'Heals', value: report.healCount },
+    { label: 'Damage Dealt', value: report.damageDealt },
+    { label: 'Damage Taken', value: report.damageTaken },
+    { label: 'Guard Success', value: formatPercent(report.guardSuccessRate) },
+  ];
+
+  return (
+    <div className={`text-white ${className}`}>
+      <div className="text-center mb-6">
+        <div className={`text-3xl mb-1 ${RESULT_COLORS[report.result]}`}>
+          {RESULT_LABELS[report.result]}
+        </div>
+        <div className="text-gray-400 text-sm">
+          {formatDuration(report.durationSec)} played
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-gray-800 rounded-lg p-3">
+            <div className="text-gray-400 text-xs">{stat.label}</div>
+            <div className="text-xl font-semibold">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-indigo-900 bg-opacity-60 rounded-lg p-4 mb-6">
+        <div className="text-indigo-300 text-xs mb-1">Next time</div>
+        <div>{report.suggestion}</div>
+      </div>
+
+      {report.difficulty && (
+        <DifficultyChanges difficulty={report.difficulty} />
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-4 mb-6">
+        <WordList title="Slowest words" words={report.slowestWords}>
+          {word => `${word.wpm.toFixed(1)} WPM`}
+        </WordList>
+        <WordList title="Most missed words" words={report.mostMissedWords}>
+          {word => `${word.errors} ${word.errors === 1 ? 'error' : 'errors'}`}
+        </WordList>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-400 text-left border-b border-gray-700">
+            <th className="py-2 pr-2">#</th>
+            <th className="py-2 pr-2">Word</th>
+            <th className="py-2 pr-2">Action</th>
+            <th className="py-2 pr-2 text-right">Time</th>
+            <th className="py-2 pr-2 text-right">Errors</th>
+            <th className="py-2 pr-2 text-right">Accuracy</th>
+            <th className="py-2 pr-2 text-right">WPM</th>
+            <th className="py-2 text-right">Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.words.map((word, index) => (
+            <tr key={index} className="border-b border-gray-800 align-top">
+              <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+              <td className="py-2 pr-2">
+                <div className="font-mono">{word.text}</div>
+                {word.breakdown.length > 0 && (
+                  <details className="text-gray-400 text-xs mt-1">
+                    <summary className="cursor-pointer">Breakdown</summary>
+                    <ul className="mt-1 space-y-0.5">
+                      {word.breakdown.map((step, stepIndex) => (
+                        <li key={stepIndex}>{step}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </td>
+              <td className="py-2 pr-2">{ACTION_LABELS[word.type]}</td>
+              <td className="py-2 pr-2 text-right">
+                {(word.timeMs / 1000).toFixed(1)}s
+              </td>
+              <td className="py-2 pr-2 text-right">{word.errors}</td>
+              <td className="py-2 pr-2 text-right">
+                {formatPercent(word.accuracy)}
+              </td>
+              <td className="py-2 pr-2 text-right">{word.wpm.toFixed(1)}</td>
+              <td className="py-2 text-right">
+                {word.value}
+                {word.critical && <span className="text-yellow-400"> ★</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {report.words.length === 0 && (
+        <div className="text-gray-400 text-sm text-center py-4">
+          No words were completed
+        </div>
+      )}
+    </div>
+  );
+}
+
+function WordList({
+  title,
+  words,
+  children: describe,
+}: {
+  title: string;
+  words: ReportWord[];
+  children: (word: ReportWord) => string;
+}) {
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <div className="text-gray-400 text-xs mb-2">{title}</div>
+      {words.length > 0 ? (
+        <ul className="space-y-1">
+          {words.map((word, index) => (
+            <li key={index} className="flex justify-between">
+              <span className="font-mono">{word.text}</span>
+              <span className="text-gray-400 text-sm">{describe(word)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-gray-500 text-sm">None</div>
+      )}
+    </div>
+  );
+}
+
+function DifficultyChanges({ difficulty }: { difficulty: DifficultyEstimate }) {
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 mb-6">
+      <div className="text-gray-400 text-xs mb-2">Adaptive difficulty</div>
+      {difficulty.adjustments.length > 0 ? (
+        <ul className="space-y-2">
+          {difficulty.adjustments.map((adjustment, index) => (
+            <li key={index}>
+              <div>
+                {DIRECTION_LABELS[adjustment.direction]} after{' '}
+                {adjustment.wordsCompleted} words
+              </div>
+              <ul className="text-gray-400 text-sm">
+                {adjustment.reasons.map((reason, reasonIndex) => (
+                  <li key={reasonIndex}>{reason}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-gray-500 text-sm">Kept the same difficulty</div>
+      )}
+      {difficulty.reasons.length > 0 && (
+        <div className="text-gray-400 text-sm mt-2">
+          Last check: {difficulty.reasons.join('; ')}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import { useProfileSettingsSync } from '@/lib/game/settings/useProfileSettingsSync';
+
+/**
+ * Applies the signed-in player's profile settings on every page, not only
+ * on /settings; renders nothing
+ */
+export default function ProfileSettingsSync() {
+  useProfileSettingsSync();
+  return null;
+}
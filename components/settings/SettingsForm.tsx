@@ -0,0 +1,240 @@
+import type { ReactNode } from 'react';
+import type { SettingsState } from '@/lib/game/settings/settingsStore';
+import type {
+  A11ySettings,
+  GameDifficulty,
+  KeyboardLayout,
+} from '@/lib/game/types';
+import { BATTLE_LENGTHS, KEYBOARD_LAYOUTS } from '@/lib/game/utils/settings';
+
+export interface PackOption {
+  id: string;
+  title: string;
+}
+
+interface SettingsFormProps {
+  settings: SettingsState;
+  packs: PackOption[];
+  className?: string;
+}
+
+const DIFFICULTY_LABELS: Record<GameDifficulty, string> = {
+  EASY: 'Easy',
+  NORMAL: 'Normal',
+  HARD: 'Hard',
+};
+
+type A11yToggleField = Exclude<
+  keyof A11ySettings,
+  'fontSize' | 'letterSpacing'
+>;
+
+const A11Y_TOGGLES: Array<{ field: A11yToggleField; label: string }> = [
+  { field: 'highContrast', label: 'High contrast' },
+  { field: 'openDyslexic', label: 'OpenDyslexic font' },
+  { field: 'reduceMotion', label: 'Reduce motion' },
+  { field: 'soundEnabled', label: 'Sound cues' },
+  { field: 'voiceEnabled', label: 'Read words aloud' },
+];
+
+const SELECT_CLASS =
+  'bg-gray-700 text-white rounded px-3 py-2 border border-gray-600';
+
+/**
+ * Every player setting, saved to the settings store as it changes
+ */
+export default function SettingsForm({
+  settings,
+  packs,
+  className = '',
+}: SettingsFormProps) {
+  const packOptions = packs.some(pack => pack.id === settings.packId)
+    ? packs
+    : [{ id: settings.packId, title: settings.packId }, ...packs];
+
+  return (
+    <div className={`text-white space-y-6 ${className}`}>
+      <Section title="Game">
+        <Field label="Word pack">
+          <select
+            className={SELECT_CLASS}
+            value={settings.packId}
+            onChange={event => settings.setPackId(event.target.value)}
+          >
+            {packOptions.map(pack => (
+              <option key={pack.id} value={pack.id}>
+                {pack.title}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field label="Difficulty">
+          <select
+            className={SELECT_CLASS}
+            value={settings.difficulty}
+            onChange={event =>
+              settings.setDifficulty(event.target.value as GameDifficulty)
+            }
+          >
+            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field label="Battle length">
+          <div className="flex gap-2">
+            {BATTLE_LENGTHS.map(minutes => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => settings.setBattleLength(minutes)}
+                className={`px-4 py-2 rounded font-medium transition-colors ${
+                  settings.battleLength === minutes
+                    ? 'bg-blue-600'
+                    : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {minutes} min
+              </button>
+            ))}
+          </div>
+        </Field>
+        <Field label="Keyboard layout">
+          <select
+            className={SELECT_CLASS}
+            value={settings.keyboardLayout}
+            onChange={event =>
+              settings.setKeyboardLayout(event.target.value as KeyboardLayout)
+            }
+          >
+            {KEYBOARD_LAYOUTS.map(layout => (
+              <option key={layout} value={layout}>
+                {layout.toUpperCase()}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </Section>
+
+      <Section title="Accessibility">
+        {A11Y_TOGGLES.map(({ field, label }) => (
+          <Toggle
+            key={field}
+            label={label}
+            checked={settings.a11y[field]}
+            onChange={checked => settings.updateA11y({ [field]: checked })}
+          />
+        ))}
+        <Field label="Font size">
+          <select
+            className={SELECT_CLASS}
+            value={settings.a11y.fontSize}
+            onChange={event =>
+              settings.updateA11y({
+                fontSize: event.target.value as A11ySettings['fontSize'],
+              })
+            }
+          >
+            <option value="small">Small</option>
+            <option value="medium">Medium</option>
+            <option value="large">Large</option>
+          </select>
+        </Field>
+        <Field label="Letter spacing">
+          <select
+            className={SELECT_CLASS}
+            value={settings.a11y.letterSpacing}
+            onChange={event =>
+              settings.updateA11y({
+                letterSpacing: event.target
+                  .value as A11ySettings['letterSpacing'],
+              })
+            }
+          >
+            <option value="normal">Normal</option>
+            <option value="wide">Wide</option>
+          </select>
+        </Field>
+      </Section>
+
+      <Section title="Sound">
+        <Toggle
+          label="Sound"
+          checked={settings.sound.enabled}
+          onChange={enabled => settings.updateSound({ enabled })}
+        />
+        <Field label={`Volume (${Math.round(settings.sound.volume * 100)}%)`}>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.sound.volume}
+            onChange={event =>
+              settings.updateSound({ volume: Number(event.target.value) })
+            }
+          />
+        </Field>
+        <Toggle
+          label="Sound effects"
+          checked={settings.sound.effects}
+          onChange={effects => settings.updateSound({ effects })}
+        />
+        <Toggle
+          label="Music"
+          checked={settings.sound.music}
+          onChange={music => settings.updateSound({ music })}
+        />
+      </Section>
+
+      <button
+        type="button"
+        onClick={settings.resetSettings}
+        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded font-medium transition-colors"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="bg-gray-800 rounded-lg p-4 space-y-3">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex items-center justify-between gap-4">
+      <span className="text-gray-300">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function Toggle({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-4">
+      <span className="text-gray-300">{label}</span>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={event => onChange(event.target.checked)}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,28 @@
+import { forbidden, unauthorized } from './errors';
+import { ApiContext } from './types';
+
+/**
+ * Admin access for content management routes
+ * Admins are listed by user id in the server-only ADMIN_USER_IDS variable
+ * (comma separated); with it unset nobody is an admin
+ */
+
+export function getAdminUserIds(): string[] {
+  return (process.env.ADMIN_USER_IDS ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Return the caller's user id, or throw unless they are an admin
+ */
+export function requireAdmin(context: ApiContext): string {
+  if (context.userId === null) {
+    throw unauthorized('Authentication required for this operation');
+  }
+  if (!getAdminUserIds().includes(context.userId)) {
+    throw forbidden('Admin access required');
+  }
+  return context.userId;
+}
@@ -0,0 +1,173 @@
+import {
+  DashboardResponse,
+  DashboardTotals,
+  PackPerformance,
+  RecentSession,
+  SessionOutcome,
+  SessionSummaryRecord,
+  WeeklyTrend,
+} from './types';
+
+/**
+ * Learner dashboard aggregations over session_summary rows
+ * Totals and per-pack results cover every ended session, trends the last
+ * few weeks; weeks start on Monday in UTC
+ */
+
+export const DEFAULT_DASHBOARD_WEEKS = 12;
+export const MAX_DASHBOARD_WEEKS = 52;
+
+// Sessions listed under "recent sessions"
+const RECENT_SESSION_COUNT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export type EndedSessionSummary = SessionSummaryRecord & {
+  result: SessionOutcome;
+};
+
+/**
+ * Build the dashboard from a learner's ended sessions
+ */
+export function buildDashboard(
+  summaries: SessionSummaryRecord[],
+  now: number,
+  weeks: number = DEFAULT_DASHBOARD_WEEKS
+): DashboardResponse {
+  const ended = summaries
+    .filter(
+      (summary): summary is EndedSessionSummary => summary.result !== null
+    )
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  return {
+    totals: getDashboardTotals(ended),
+    weeks: getWeeklyTrends(ended, now, weeks),
+    packs: getPackPerformance(ended),
+    recentSessions: getRecentSessions(ended),
+  };
+}
+
+export function getDashboardTotals(
+  summaries: SessionSummaryRecord[]
+): DashboardTotals {
+  const wins = countWins(summaries);
+
+  return {
+    sessions: summaries.length,
+    wins,
+    winRate: summaries.length > 0 ? wins / summaries.length : 0,
+    averageWpm: mean(summaries.map(summary => summary.avgWpm)),
+    averageAccuracy: mean(summaries.map(summary => summary.avgAcc)),
+    totalDamage: sum(summaries.map(summary => summary.totalDamage)),
+    totalHealing: sum(summaries.map(summary => summary.totalHealing)),
+    wordsTyped: sum(summaries.map(summary => summary.totalAttempts)),
+    timePlayedSec: sum(summaries.map(summary => summary.durationSec ?? 0)),
+  };
+}
+
+/**
+ * One entry per week for the last `weeks` weeks, this week last
+ */
+export function getWeeklyTrends(
+  summaries: SessionSummaryRecord[],
+  now: number,
+  weeks: number = DEFAULT_DASHBOARD_WEEKS
+): WeeklyTrend[] {
+  const firstWeek = getWeekStart(now) - (weeks - 1) * WEEK_MS;
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const weekStart = firstWeek + index * WEEK_MS;
+    const inWeek = summaries.filter(summary => {
+      const startedAt = Date.parse(summary.startedAt);
+      return startedAt >= weekStart && startedAt < weekStart + WEEK_MS;
+    });
+
+    return {
+      weekStart: new Date(weekStart).toISOString().slice(0, 10),
+      sessions: inWeek.length,
+      wins: countWins(inWeek),
+      averageWpm: mean(inWeek.map(summary => summary.avgWpm)),
+      averageAccuracy: mean(inWeek.map(summary => summary.avgAcc)),
+    };
+  });
+}
+
+/**
+ * Results per pack and difficulty, most played first
+ */
+export function getPackPerformance(
+  summaries: SessionSummaryRecord[]
+): PackPerformance[] {
+  const groups = new Map<string, SessionSummaryRecord[]>();
+  for (const summary of summaries) {
+    const key = `${summary.packId}:${summary.difficulty}`;
+    groups.set(key, [...(groups.get(key) ?? []), summary]);
+  }
+
+  return Array.from(groups.values())
+    .map(group => {
+      const wins = countWins(group);
+      return {
+        packId: group[0].packId,
+        packTitle: group[0].packTitle,
+        difficulty: group[0].difficulty,
+        sessions: group.length,
+        wins,
+        winRate: wins / group.length,
+        averageWpm: mean(group.map(summary => summary.avgWpm)),
+        averageAccuracy: mean(group.map(summary => summary.avgAcc)),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.sessions - a.sessions ||
+        (a.packTitle ?? '').localeCompare(b.packTitle ?? '') ||
+        a.difficulty.localeCompare(b.difficulty)
+    );
+}
+
+/**
+ * The latest sessions, for summaries sorted newest first
+ */
+export function getRecentSessions(
+  summaries: EndedSessionSummary[],
+  count: number = RECENT_SESSION_COUNT
+): RecentSession[] {
+  return summaries.slice(0, count).map(summary => ({
+    sessionId: summary.sessionId,
+    packTitle: summary.packTitle,
+    difficulty: summary.difficulty,
+    result: summary.result,
+    startedAt: summary.startedAt,
+    durationSec: summary.durationSec,
+    wpm: summary.avgWpm,
+    accuracy: summary.avgAcc,
+  }));
+}
+
+/**
+ * Midnight UTC on the Monday of the week containing `time`
+ */
+export function getWeekStart(time: number): number {
+  const midnight = Math.floor(time / DAY_MS) * DAY_MS;
+  const daysSinceMonday = (new Date(midnight).getUTCDay() + 6) % 7;
+  return midnight - daysSinceMonday * DAY_MS;
+}
+
+function countWins(summaries: SessionSummaryRecord[]): number {
+  return summaries.filter(summary => summary.result === 'WIN').length;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Mean of the known values, null when there are none
+ */
+function mean(values: Array<number | null>): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? sum(known) / known.length : null;
+}
@@ -0,0 +1,100 @@
+/**
+ * API error types matching the ErrorResponse schema in docs/api/openapi.yaml
+ */
+
+export type ApiErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'INTERNAL_SERVER_ERROR';
+
+export interface ErrorResponse {
+  error: ApiErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+  timestamp: string;
+}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  INTERNAL_SERVER_ERROR: 500,
+};
+
+/**
+ * Thrown by handlers to return a documented error response
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.details = details;
+  }
+
+  toResponse(timestamp: string): ErrorResponse {
+    return {
+      error: this.code,
+      message: this.message,
+      ...(this.details && { details: this.details }),
+      timestamp,
+    };
+  }
+}
+
+// =============================================================================
+// FACTORIES
+// =============================================================================
+
+export function validationError(
+  message: string,
+  field: string,
+  constraint: string,
+  received?: unknown
+): ApiError {
+  return new ApiError('VALIDATION_ERROR', message, {
+    field,
+    constraint,
+    ...(received !== undefined && { received }),
+  });
+}
+
+export function unauthorized(message: string): ApiError {
+  return new ApiError('UNAUTHORIZED', message);
+}
+
+export function forbidden(
+  message: string,
+  details?: Record<string, unknown>
+): ApiError {
+  return new ApiError('FORBIDDEN', message, details);
+}
+
+export function notFound(
+  message: string,
+  resource: string,
+  id: string
+): ApiError {
+  return new ApiError('NOT_FOUND', message, { resource, id });
+}
+
+/**
+ * Wrap anything unexpected so internals never leak to the client
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  return new ApiError('INTERNAL_SERVER_ERROR', 'An unexpected error occurred');
+}
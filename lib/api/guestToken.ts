@@ -0,0 +1,46 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Guest tokens prove that a client created a guest session
+ * The token is an HMAC of the session id under the server-only
+ * GUEST_TOKEN_SECRET; the database keeps only its SHA-256 hash, which the
+ * RLS policies compare with the X-Guest-Token request header
+ */
+
+export const GUEST_TOKEN_HEADER = 'X-Guest-Token';
+
+export function getGuestTokenSecret(): string {
+  const secret = process.env.GUEST_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('GuestToken: GUEST_TOKEN_SECRET is not set');
+  }
+  return secret;
+}
+
+export function signGuestToken(
+  sessionId: string,
+  secret: string = getGuestTokenSecret()
+): string {
+  return createHmac('sha256', secret).update(sessionId).digest('base64url');
+}
+
+/**
+ * Whether the token was signed for this session, compared in constant time
+ */
+export function verifyGuestToken(
+  sessionId: string,
+  token: string,
+  secret: string = getGuestTokenSecret()
+): boolean {
+  const expected = Buffer.from(signGuestToken(sessionId, secret));
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * The value stored in sessions.guest_token_hash, hex like Postgres's
+ * encode(digest(token, 'sha256'), 'hex')
+ */
+export function hashGuestToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,695 @@
+import { DEFAULT_COMBAT_PROFILE } from '../game/utils/combatProfile';
+import { toSessionWords } from '../game/utils/packWords';
+import { generateRngSeed } from '../game/utils/random';
+import {
+  DEFAULT_GAME_SETTINGS,
+  getBattleDurationSec,
+} from '../game/utils/settings';
+import { buildImportReport, saveImportedPack } from '../packs/packImport';
+import { requireAdmin } from './admin';
+import { buildDashboard } from './dashboard';
+import {
+  ApiError,
+  forbidden,
+  notFound,
+  unauthorized,
+  validationError,
+} from './errors';
+import { hashGuestToken, signGuestToken, verifyGuestToken } from './guestToken';
+import { getLeaderboardWindowStart } from './leaderboard';
+import {
+  assessUnverifiedSession,
+  isImpossibleAttempt,
+  verifySession,
+} from './sessionVerification';
+import {
+  ApiContext,
+  ApiResult,
+  AttemptBatchItem,
+  AttemptBatchItemResult,
+  AttemptRecord,
+  ClaimGuestSessionsResponse,
+  CreateSessionResponse,
+  DashboardResponse,
+  EndSessionResponse,
+  GuestSessionTransfer,
+  ImportWordPackResponse,
+  LeaderboardEntry,
+  LeaderboardEntryRecord,
+  LeaderboardResponse,
+  RecordAttemptBatchResponse,
+  RecordAttemptResponse,
+  SessionRecord,
+  SessionReportResponse,
+  SettingsSnapshot,
+  WordRecord,
+} from './types';
+import { createStoredSessionReport } from './sessionReport';
+import {
+  isUuid,
+  validateClaimGuestSessionsRequest,
+  validateCreateSessionRequest,
+  validateDashboardQuery,
+  validateEndSessionRequest,
+  validateAttemptBatchItem,
+  validateImportWordPackRequest,
+  validateLeaderboardQuery,
+  validateRecordAttemptBatchRequest,
+  validateRecordAttemptRequest,
+} from './validation';
+
+/**
+ * Framework-free handlers for the session API
+ * Route files parse the request and resolve the user, then call these with
+ * a repository so the same logic runs against Supabase or in memory
+ */
+
+// =============================================================================
+// SESSIONS
+// =============================================================================
+
+/**
+ * POST /api/session (createSession)
+ */
+export async function createSession(
+  context: ApiContext,
+  body: unknown
+): Promise<ApiResult<CreateSessionResponse>> {
+  const request = validateCreateSessionRequest(body);
+
+  const pack = await context.repository.findWordPack(request.packId);
+  if (!pack || !pack.isActive) {
+    throw notFound(
+      'Word pack not found or inactive',
+      'word_pack',
+      request.packId
+    );
+  }
+
+  // A session's own profile beats the pack's; the one in play is snapshotted
+  // so later balance changes never rewrite how an old session was scored
+  const combatProfile =
+    request.combatProfile ?? pack.combatProfile ?? DEFAULT_COMBAT_PROFILE;
+  // Equipped skills are snapshotted too, so results stay comparable
+  const skills = request.skills ?? [];
+  // Leaderboards only compare battles fought with the pack's balance
+  const ranked = request.combatProfile === undefined && skills.length === 0;
+  // Replays are checked against the battle length set here
+  const durationSec =
+    request.durationSec ?? getBattleDurationSec(DEFAULT_GAME_SETTINGS);
+  // The seed is the server's, so a client cannot pick one that favours it
+  const rngSeed = generateRngSeed();
+  // So is the learner's progress: the replay is checked against it as stored
+  const learner = await loadLearnerSeed(context, request.packId);
+
+  // The id is chosen here so a guest's token can be signed before the insert
+  const sessionId = crypto.randomUUID();
+  const guestToken =
+    context.userId === null ? signGuestToken(sessionId) : undefined;
+
+  const session = await context.repository.createSession({
+    id: sessionId,
+    userId: context.userId,
+    packId: request.packId,
+    difficulty: request.difficulty,
+    settings: {
+      ...request.settingsSnapshot,
+      combatProfile,
+      skills,
+      durationSec,
+      rngSeed,
+      ranked,
+      promptMode: request.promptMode,
+      campaignId: request.campaignId,
+      adaptiveDifficulty: request.adaptiveDifficulty,
+      ...learner,
+    },
+    startedAt: new Date(context.clock.now()).toISOString(),
+    guestTokenHash: guestToken ? hashGuestToken(guestToken) : null,
+  });
+
+  return {
+    status: 201,
+    body: {
+      sessionId: session.id,
+      combatProfile,
+      skills,
+      durationSec,
+      rngSeed,
+      ...learner,
+      ...(guestToken && { guestToken }),
+      message: 'Session created successfully',
+    },
+  };
+}
+
+/**
+ * The signed-in learner's stats, profile and reviews of the pack's words as
+ * the session starts; guests play without them
+ */
+async function loadLearnerSeed(
+  context: ApiContext,
+  packId: string
+): Promise<
+  Pick<SettingsSnapshot, 'playerStats' | 'reviewSchedule' | 'keystrokeProfile'>
+> {
+  if (context.userId === null) {
+    // Cleared so a guest's settings snapshot cannot set them
+    return {
+      playerStats: undefined,
+      reviewSchedule: undefined,
+      keystrokeProfile: undefined,
+    };
+  }
+
+  const [learner, words] = await Promise.all([
+    context.repository.loadLearnerData(context.userId),
+    context.repository.listWords(packId),
+  ]);
+  const packWordIds = new Set(words.map(word => word.id));
+
+  return {
+    playerStats: learner.playerStats,
+    reviewSchedule: {
+      asOf: context.clock.now(),
+      reviews: learner.reviews.filter(review => packWordIds.has(review.wordId)),
+    },
+    keystrokeProfile: learner.keystrokeProfile,
+  };
+}
+
+/**
+ * POST /api/session/end (endSession)
+ */
+export async function endSession(
+  context: ApiContext,
+  body: unknown
+): Promise<ApiResult<EndSessionResponse>> {
+  const request = validateEndSessionRequest(body);
+  const session = await findOpenSession(context, request.sessionId);
+
+  const attempts = await context.repository.listAttempts(session.id);
+  const totalScore = attempts.reduce((sum, attempt) => sum + attempt.score, 0);
+
+  // The client's numbers are only trusted as far as the replay reproduces them
+  const claim = {
+    session,
+    result: request.result,
+    durationSec: request.durationSec,
+    stats: request.stats,
+    attempts,
+  };
+  const verification = request.replay
+    ? await verifySession(
+        request.replay,
+        claim,
+        toSessionWords(await context.repository.listWords(session.packId))
+      )
+    : assessUnverifiedSession(claim);
+
+  // A reproduced session is kept, and ranked, with the server's own numbers
+  const { durationSec, stats } = verification.replayed ?? request;
+
+  await context.repository.endSession(session.id, {
+    endedAt: new Date(context.clock.now()).toISOString(),
+    durationSec,
+    result: request.result,
+    stats,
+    riskLevel: verification.riskLevel,
+    riskFlags: verification.flags,
+  });
+
+  return {
+    status: 200,
+    body: {
+      sessionId: session.id,
+      finalStats: {
+        wpm: stats.wpm,
+        accuracy: stats.acc,
+        totalScore,
+        comboMax: stats.comboMax,
+      },
+      riskLevel: verification.riskLevel,
+      message: 'Session ended successfully',
+    },
+  };
+}
+
+/**
+ * GET /api/session/{sessionId} (getSessionReport)
+ * Results screen data for an ended session
+ */
+export async function getSessionReport(
+  context: ApiContext,
+  sessionId: string
+): Promise<ApiResult<SessionReportResponse>> {
+  if (!isUuid(sessionId)) {
+    throw validationError(
+      'Invalid UUID format',
+      'sessionId',
+      'format',
+      sessionId
+    );
+  }
+
+  const session = await findReadableSession(context, sessionId);
+  if (session.result === null) {
+    throw forbidden('Session has not ended yet', {
+      reason: 'SESSION_NOT_ENDED',
+      resource: 'session',
+    });
+  }
+
+  const attempts = await context.repository.listAttempts(session.id);
+
+  return {
+    status: 200,
+    body: {
+      report: createStoredSessionReport(
+        { ...session, result: session.result },
+        attempts
+      ),
+      riskLevel: session.riskLevel,
+    },
+  };
+}
+
+/**
+ * POST /api/session/claim (claimGuestSessions)
+ * Moves guest sessions to the signed-in user, who proves each one with the
+ * guest token it was created with; their attempts follow the session
+ */
+export async function claimGuestSessions(
+  context: ApiContext,
+  body: unknown
+): Promise<ApiResult<ClaimGuestSessionsResponse>> {
+  if (context.userId === null) {
+    throw unauthorized('Authentication required for this operation');
+  }
+
+  const request = validateClaimGuestSessionsRequest(body);
+  const transfers: GuestSessionTransfer[] = request.sessions
+    .filter(claim => verifyGuestToken(claim.sessionId, claim.guestToken))
+    .map(claim => ({
+      sessionId: claim.sessionId,
+      guestTokenHash: hashGuestToken(claim.guestToken),
+    }));
+
+  const claimed =
+    transfers.length > 0
+      ? await context.repository.claimGuestSessions(context.userId, transfers)
+      : [];
+  const verified = new Set(transfers.map(transfer => transfer.sessionId));
+
+  return {
+    status: 200,
+    body: {
+      claimed,
+      // Unknown, already claimed or belonging to a user
+      skipped: request.sessions
+        .filter(claim => !claimed.includes(claim.sessionId))
+        .map(claim => ({
+          sessionId: claim.sessionId,
+          reason: verified.has(claim.sessionId)
+            ? 'NOT_CLAIMABLE'
+            : 'INVALID_TOKEN',
+        })),
+      message: 'Guest sessions claimed',
+    },
+  };
+}
+
+// =============================================================================
+// ATTEMPTS
+// =============================================================================
+
+/**
+ * POST /api/attempt (recordAttempt)
+ */
+export async function recordAttempt(
+  context: ApiContext,
+  body: unknown
+): Promise<ApiResult<RecordAttemptResponse>> {
+  const request = validateRecordAttemptRequest(body);
+  if (isImpossibleAttempt(request.targetText, request.ms)) {
+    throw validationError(
+      'Attempt is faster than humanly possible',
+      'ms',
+      'plausibility',
+      request.ms
+    );
+  }
+
+  const session = await findOpenSession(context, request.sessionId);
+
+  const word = await context.repository.findWord(request.wordId);
+  if (!word || word.packId !== session.packId) {
+    throw notFound('Word not found in specified pack', 'word', request.wordId);
+  }
+
+  const attempt = await context.repository.createAttempt(request);
+
+  return {
+    status: 201,
+    body: {
+      attemptId: attempt.id,
+      wpm: attempt.wpm,
+      message: 'Attempt recorded successfully',
+    },
+  };
+}
+
+/**
+ * POST /api/attempts/batch (recordAttemptBatch)
+ * Items are checked one by one like single attempts; valid ones are stored
+ * together, and an item whose clientAttemptId the session already has is
+ * reported as a duplicate instead of being stored again
+ */
+export async function recordAttemptBatch(
+  context: ApiContext,
+  body: unknown
+): Promise<ApiResult<RecordAttemptBatchResponse>> {
+  const request = validateRecordAttemptBatchRequest(body);
+  const session = await findOpenSession(context, request.sessionId);
+
+  const stored = new Map<string, AttemptRecord>();
+  for (const attempt of await context.repository.listAttempts(session.id)) {
+    if (attempt.clientAttemptId) stored.set(attempt.clientAttemptId, attempt);
+  }
+
+  const words = new Map<string, WordRecord | null>();
+  const findWord = async (wordId: string) => {
+    if (!words.has(wordId)) {
+      words.set(wordId, await context.repository.findWord(wordId));
+    }
+    return words.get(wordId) ?? null;
+  };
+
+  const results: AttemptBatchItemResult[] = [];
+  const accepted: AttemptBatchItem[] = [];
+  const seen = new Set<string>();
+
+  for (const [index, input] of request.attempts.entries()) {
+    try {
+      const item = validateAttemptBatchItem(input, index);
+      const duplicate =
+        stored.has(item.clientAttemptId) || seen.has(item.clientAttemptId);
+
+      if (!duplicate) {
+        if (isImpossibleAttempt(item.targetText, item.ms)) {
+          throw validationError(
+            'Attempt is faster than humanly possible',
+            `attempts[${index}].ms`,
+            'plausibility',
+            item.ms
+          );
+        }
+        const word = await findWord(item.wordId);
+        if (!word || word.packId !== session.packId) {
+          throw notFound(
+            'Word not found in specified pack',
+            'word',
+            item.wordId
+          );
+        }
+
+        seen.add(item.clientAttemptId);
+        accepted.push(item);
+      }
+
+      results.push({
+        index,
+        clientAttemptId: item.clientAttemptId,
+        status: duplicate ? 'DUPLICATE' : 'CREATED',
+      });
+    } catch (error) {
+      if (!(error instanceof ApiError)) throw error;
+
+      results.push({
+        index,
+        clientAttemptId: readClientAttemptId(input),
+        status: 'INVALID',
+        error: {
+          error: error.code,
+          message: error.message,
+          ...(error.details && { details: error.details }),
+        },
+      });
+    }
+  }
+
+  const created = await context.repository.createAttempts(
+    accepted.map(item => ({ ...item, sessionId: session.id }))
+  );
+  const createdIds = new Set<string>();
+  for (const attempt of created) {
+    if (!attempt.clientAttemptId) continue;
+    createdIds.add(attempt.clientAttemptId);
+    stored.set(attempt.clientAttemptId, attempt);
+  }
+
+  for (const result of results) {
+    if (result.status === 'INVALID' || !result.clientAttemptId) continue;
+
+    // Skipped because a concurrent request stored the same id first
+    if (
+      result.status === 'CREATED' &&
+      !createdIds.has(result.clientAttemptId)
+    ) {
+      result.status = 'DUPLICATE';
+    }
+    const attempt = stored.get(result.clientAttemptId);
+    if (attempt) {
+      result.attemptId = attempt.id;
+      result.wpm = attempt.wpm;
+    }
+  }
+
+  const count = (status: AttemptBatchItemResult['status']) =>
+    results.filter(result => result.status === status).length;
+
+  return {
+    status: 200,
+    body: {
+      sessionId: session.id,
+      results,
+      created: count('CREATED'),
+      duplicates: count('DUPLICATE'),
+      invalid: count('INVALID'),
+      message: 'Attempt batch processed',
+    },
+  };
+}
+
+function readClientAttemptId(input: unknown): string | null {
+  const value =
+    typeof input === 'object' && input !== null
+      ? (input as Record<string, unknown>).clientAttemptId
+      : undefined;
+  return isUuid(value) ? value : null;
+}
+
+// =============================================================================
+// DASHBOARD
+// =============================================================================
+
+/**
+ * GET /api/dashboard (getDashboard)
+ * Trends and totals over the signed-in learner's ended sessions
+ */
+export async function getDashboard(
+  context: ApiContext,
+  query: URLSearchParams
+): Promise<ApiResult<DashboardResponse>> {
+  if (context.userId === null) {
+    throw unauthorized('Authentication required for this operation');
+  }
+
+  const { weeks } = validateDashboardQuery(query);
+  // Totals cover every session, so the whole history is loaded
+  const summaries = await context.repository.listSessionSummaries(
+    context.userId,
+    new Date(0).toISOString()
+  );
+
+  return {
+    status: 200,
+    body: buildDashboard(summaries, context.clock.now(), weeks),
+  };
+}
+
+// =============================================================================
+// LEADERBOARDS
+// =============================================================================
+
+/**
+ * GET /api/leaderboard (getLeaderboard)
+ * Open to guests; a signed-in caller also gets their own entry
+ */
+export async function getLeaderboard(
+  context: ApiContext,
+  query: URLSearchParams
+): Promise<ApiResult<LeaderboardResponse>> {
+  const request = validateLeaderboardQuery(query);
+  const scope = {
+    packId: request.packId,
+    difficulty: request.difficulty,
+    since: getLeaderboardWindowStart(request.window, context.clock.now()),
+  };
+
+  const [{ entries, total }, viewer] = await Promise.all([
+    context.repository.listLeaderboard(
+      scope,
+      request.pageSize,
+      (request.page - 1) * request.pageSize
+    ),
+    context.userId !== null
+      ? context.repository.findLeaderboardEntry(scope, context.userId)
+      : null,
+  ]);
+
+  return {
+    status: 200,
+    body: {
+      packId: request.packId,
+      difficulty: request.difficulty,
+      window: request.window,
+      since: scope.since,
+      entries: entries.map(toLeaderboardEntry),
+      page: request.page,
+      pageSize: request.pageSize,
+      total,
+      viewer: viewer ? toLeaderboardEntry(viewer) : null,
+    },
+  };
+}
+
+/**
+ * Player user ids stay on the server
+ */
+function toLeaderboardEntry(record: LeaderboardEntryRecord): LeaderboardEntry {
+  return {
+    rank: record.rank,
+    displayName: record.displayName,
+    sessionId: record.sessionId,
+    score: record.score,
+    accuracy: record.accuracy,
+    wpm: record.wpm,
+    damage: record.damage,
+    durationSec: record.durationSec,
+    endedAt: record.endedAt,
+  };
+}
+
+// =============================================================================
+// WORD PACKS
+// =============================================================================
+
+/**
+ * POST /api/admin/packs (importWordPack)
+ * Any invalid line rejects the whole pack; duplicates are reported and skipped
+ */
+export async function importWordPack(
+  context: ApiContext,
+  body: unknown
+): Promise<ApiResult<ImportWordPackResponse>> {
+  const createdBy = requireAdmin(context);
+  const request = validateImportWordPackRequest(body);
+
+  const report = buildImportReport(request.content, request.format);
+  const pack = { ...report.pack, ...request.pack };
+
+  if (request.dryRun) {
+    return {
+      status: 200,
+      body: { packId: null, report, message: 'Dry run, nothing was imported' },
+    };
+  }
+
+  if (!report.valid) {
+    throw new ApiError('VALIDATION_ERROR', 'Word pack has invalid lines', {
+      field: 'content',
+      constraint: 'wordPack',
+      report,
+    });
+  }
+  if (!pack.title) {
+    throw validationError('Missing required field', 'pack.title', 'required');
+  }
+
+  const record = await saveImportedPack(
+    context.repository,
+    report,
+    { ...pack, title: pack.title },
+    createdBy
+  );
+
+  return {
+    status: 201,
+    body: {
+      packId: record.id,
+      report,
+      message: 'Word pack imported successfully',
+    },
+  };
+}
+
+// =============================================================================
+// ACCESS CHECKS
+// =============================================================================
+
+/**
+ * Load a session the caller may read
+ * Guest sessions need the guest token they were created with, mirroring the
+ * RLS policies
+ */
+async function findReadableSession(
+  context: ApiContext,
+  sessionId: string
+): Promise<SessionRecord> {
+  const session = await context.repository.findSession(sessionId);
+  if (!session) {
+    throw notFound('Session not found', 'session', sessionId);
+  }
+
+  if (session.userId === null) {
+    if (
+      context.guestToken === null ||
+      !verifyGuestToken(session.id, context.guestToken)
+    ) {
+      throw forbidden('Guest token is missing or invalid', {
+        reason: 'GUEST_TOKEN_INVALID',
+        resource: 'session',
+      });
+    }
+    return session;
+  }
+
+  if (session.userId !== context.userId) {
+    if (context.userId === null) {
+      throw unauthorized('Authentication required for this operation');
+    }
+    throw forbidden('Cannot access session belonging to another user');
+  }
+
+  return session;
+}
+
+/**
+ * Load a session the caller may write to
+ */
+async function findOpenSession(
+  context: ApiContext,
+  sessionId: string
+): Promise<SessionRecord> {
+  const session = await findReadableSession(context, sessionId);
+
+  if (session.endedAt !== null) {
+    throw forbidden('Session has already ended', {
+      reason: 'SESSION_ENDED',
+      resource: 'session',
+    });
+  }
+
+  return session;
+}
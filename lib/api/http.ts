@@ -0,0 +1,149 @@
+import { GameClock, systemClock } from '../game/utils/clock';
+import { SupabaseGameRepository } from './repository/SupabaseGameRepository';
+import { createServerClient, getUserIdFromToken } from '../supabase/server';
+import { ApiError, toApiError, unauthorized, validationError } from './errors';
+import { GUEST_TOKEN_HEADER } from './guestToken';
+import { ApiContext, ApiResult, GameRepository } from './types';
+
+/**
+ * Adapts the framework-free handlers to Next.js route handlers
+ * Resolves the bearer token and the X-Guest-Token header, parses the JSON
+ * body (none for GET) and maps errors to the documented ErrorResponse shape
+ * A request with a body may carry an Idempotency-Key header; its successful
+ * response is stored and returned again when the request is retried
+ */
+
+export type ApiHandler<T> = (
+  context: ApiContext,
+  body: unknown
+) => Promise<ApiResult<T>>;
+
+export interface ApiDependencies {
+  authenticate: (accessToken: string) => Promise<string | null>;
+  createRepository: (
+    accessToken: string | null,
+    guestToken: string | null
+  ) => GameRepository;
+  clock?: GameClock;
+}
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+// Printable ASCII, e.g. a UUID generated by the client
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+export const supabaseApiDependencies: ApiDependencies = {
+  authenticate: getUserIdFromToken,
+  createRepository: () => new SupabaseGameRepository(createServerClient()),
+};
+
+export async function handleApiRequest<T>(
+  request: Request,
+  handler: ApiHandler<T>,
+  dependencies: ApiDependencies = supabaseApiDependencies
+): Promise<Response> {
+  const clock = dependencies.clock ?? systemClock;
+
+  try {
+    const accessToken = readAccessToken(request);
+    const userId = accessToken
+      ? await dependencies.authenticate(accessToken)
+      : null;
+
+    if (accessToken && !userId) {
+      throw unauthorized('Invalid or expired authentication token');
+    }
+
+    const guestToken = request.headers.get(GUEST_TOKEN_HEADER);
+    const repository = dependencies.createRepository(accessToken, guestToken);
+    const idempotencyKey = hasBody(request)
+      ? readIdempotencyKey(request)
+      : null;
+    const requestName = `${request.method} ${new URL(request.url).pathname}`;
+
+    if (idempotencyKey) {
+      const stored = await repository.findIdempotentResponse(idempotencyKey);
+      if (stored) {
+        if (stored.userId !== userId || stored.request !== requestName) {
+          throw validationError(
+            'Idempotency key was already used for another request',
+            'Idempotency-Key',
+            'unique'
+          );
+        }
+        return Response.json(stored.body, {
+          status: stored.status,
+          headers: { 'Idempotent-Replayed': 'true' },
+        });
+      }
+    }
+
+    const body = hasBody(request) ? await readJsonBody(request) : undefined;
+    const result = await handler(
+      { repository, userId, guestToken, clock },
+      body
+    );
+
+    if (idempotencyKey) {
+      await repository.saveIdempotentResponse({
+        key: idempotencyKey,
+        userId,
+        request: requestName,
+        status: result.status,
+        body: result.body,
+      });
+    }
+
+    return Response.json(result.body, { status: result.status });
+  } catch (error) {
+    const apiError = toApiError(error);
+    if (!(error instanceof ApiError)) {
+      console.error('API request failed:', error);
+    }
+
+    return Response.json(
+      apiError.toResponse(new Date(clock.now()).toISOString()),
+      { status: apiError.status }
+    );
+  }
+}
+
+/**
+ * Guests send no Authorization header; a malformed one is rejected
+ */
+function readAccessToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+
+  const match = BEARER_PATTERN.exec(header);
+  if (!match) {
+    throw unauthorized('Invalid or expired authentication token');
+  }
+  return match[1];
+}
+
+function readIdempotencyKey(request: Request): string | null {
+  const key = request.headers.get('idempotency-key');
+  if (key === null) return null;
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    throw validationError(
+      'Idempotency key must be 1-255 printable ASCII characters',
+      'Idempotency-Key',
+      'format',
+      key
+    );
+  }
+  return key;
+}
+
+function hasBody(request: Request): boolean {
+  return request.method !== 'GET' && request.method !== 'HEAD';
+}
+
+async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw validationError('Request body must be valid JSON', 'body', 'format');
+  }
+}
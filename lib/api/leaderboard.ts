@@ -0,0 +1,133 @@
+import { getWeekStart } from './dashboard';
+import {
+  LeaderboardEntryRecord,
+  LeaderboardScoreRecord,
+  LeaderboardWindow,
+  SessionRecord,
+} from './types';
+
+/**
+ * Leaderboard scoring, shared by InMemoryGameRepository and mirrored by the
+ * leaderboard_scores trigger in
+ * supabase/migrations/20261019240000_ranked_sessions.sql
+ * A session's score is the damage it dealt per minute; only signed-in
+ * players' sessions that passed server verification (risk level LOW) with
+ * enough accuracy, played with the pack's balance and no skills, count, and
+ * each player is ranked by their best session in the window. Verified
+ * sessions are stored with the numbers from the server's replay, so scores
+ * never rest on what the client reported
+ */
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = [
+  'daily',
+  'weekly',
+  'all-time',
+];
+
+// Mashing keys for damage should not beat careful typing
+export const LEADERBOARD_ACCURACY_FLOOR = 0.9;
+
+export const DEFAULT_LEADERBOARD_PAGE_SIZE = 20;
+export const MAX_LEADERBOARD_PAGE_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Damage per minute, rounded like numeric(8,2)
+ */
+export function calculateLeaderboardScore(
+  damage: number,
+  durationSec: number
+): number {
+  if (durationSec <= 0) return 0;
+  return Math.round(((damage * 60) / durationSec) * 100) / 100;
+}
+
+/**
+ * The session's leaderboard row, or null when it does not qualify
+ */
+export function toLeaderboardScore(
+  session: SessionRecord
+): LeaderboardScoreRecord | null {
+  const { damage, acc, wpm } = session.stats;
+  if (
+    session.userId === null ||
+    session.endedAt === null ||
+    session.riskLevel !== 'LOW' ||
+    session.settings.ranked !== true ||
+    session.durationSec === null ||
+    session.durationSec <= 0 ||
+    damage === undefined ||
+    acc === undefined ||
+    acc < LEADERBOARD_ACCURACY_FLOOR
+  ) {
+    return null;
+  }
+
+  return {
+    sessionId: session.id,
+    userId: session.userId,
+    packId: session.packId,
+    difficulty: session.difficulty,
+    endedAt: session.endedAt,
+    score: calculateLeaderboardScore(damage, session.durationSec),
+    damage,
+    durationSec: session.durationSec,
+    accuracy: acc,
+    wpm: wpm ?? null,
+  };
+}
+
+/**
+ * Start of the window containing `now`: midnight UTC for daily, Monday
+ * midnight UTC for weekly (as on the dashboard), null for all-time
+ */
+export function getLeaderboardWindowStart(
+  window: LeaderboardWindow,
+  now: number
+): string | null {
+  switch (window) {
+    case 'daily':
+      return new Date(Math.floor(now / DAY_MS) * DAY_MS).toISOString();
+    case 'weekly':
+      return new Date(getWeekStart(now)).toISOString();
+    case 'all-time':
+      return null;
+  }
+}
+
+/**
+ * Each player's best score, ranked; equal scores share a rank and the
+ * earlier one is listed first
+ */
+export function rankLeaderboard(
+  scores: LeaderboardScoreRecord[]
+): LeaderboardEntryRecord[] {
+  const best = new Map<string, LeaderboardScoreRecord>();
+  for (const score of scores) {
+    const current = best.get(score.userId);
+    if (!current || compareScores(score, current) < 0) {
+      best.set(score.userId, score);
+    }
+  }
+
+  const sorted = Array.from(best.values()).sort(compareScores);
+  let rank = 0;
+  return sorted.map((score, index) => {
+    if (index === 0 || score.score !== sorted[index - 1].score) {
+      rank = index + 1;
+    }
+    return { ...score, rank, displayName: null };
+  });
+}
+
+function compareScores(
+  a: LeaderboardScoreRecord,
+  b: LeaderboardScoreRecord
+): number {
+  return (
+    b.score - a.score ||
+    a.endedAt.localeCompare(b.endedAt) ||
+    a.userId.localeCompare(b.userId)
+  );
+}
@@ -0,0 +1,351 @@
+import { EMPTY_KEYSTROKE_PROFILE } from '../../game/utils/keystrokeProfile';
+import { DEFAULT_PLAYER_STATS } from '../../game/utils/progression';
+import { rankLeaderboard, toLeaderboardScore } from '../leaderboard';
+import {
+  AttemptRecord,
+  GameRepository,
+  GuestSessionTransfer,
+  IdempotentResponseRecord,
+  LearnerData,
+  LeaderboardEntryRecord,
+  LeaderboardScope,
+  LeaderboardScoreRecord,
+  NewAttempt,
+  NewSession,
+  NewWord,
+  NewWordPack,
+  SessionEndUpdate,
+  SessionRecord,
+  SessionSummaryRecord,
+  WordPackRecord,
+  WordRecord,
+} from '../types';
+
+/**
+ * GameRepository held in memory, for tests and local development without
+ * Supabase
+ * Mirrors the database defaults, including the generated wpm column
+ */
+export class InMemoryGameRepository implements GameRepository {
+  private wordPacks = new Map<string, WordPackRecord>();
+  private words = new Map<string, WordRecord>();
+  private sessions = new Map<string, SessionRecord>();
+  private guestTokenHashes = new Map<string, string>();
+  private attempts: AttemptRecord[] = [];
+  private nextAttemptId = 1;
+  private idempotentResponses = new Map<string, IdempotentResponseRecord>();
+  private learners = new Map<string, LearnerData>();
+
+  constructor(
+    seed: { wordPacks?: WordPackRecord[]; words?: WordRecord[] } = {}
+  ) {
+    seed.wordPacks?.forEach(pack => this.addWordPack(pack));
+    seed.words?.forEach(word => this.addWord(word));
+  }
+
+  // =============================================================================
+  // SEEDING
+  // =============================================================================
+
+  addWordPack(pack: WordPackRecord): void {
+    this.wordPacks.set(pack.id, { ...pack });
+  }
+
+  addWord(word: WordRecord): void {
+    this.words.set(word.id, { ...word });
+  }
+
+  setLearnerData(userId: string, data: Partial<LearnerData>): void {
+    this.learners.set(userId, { ...createLearnerData(), ...data });
+  }
+
+  // =============================================================================
+  // GAME REPOSITORY
+  // =============================================================================
+
+  async findWordPack(packId: string): Promise<WordPackRecord | null> {
+    const pack = this.wordPacks.get(packId);
+    return pack ? { ...pack } : null;
+  }
+
+  async findWord(wordId: string): Promise<WordRecord | null> {
+    const word = this.words.get(wordId);
+    return word ? { ...word } : null;
+  }
+
+  async createWordPack(
+    pack: NewWordPack,
+    words: NewWord[]
+  ): Promise<WordPackRecord> {
+    const record: WordPackRecord = {
+      id: crypto.randomUUID(),
+      title: pack.title,
+      isActive: true,
+      combatProfile: pack.combatProfile,
+    };
+    this.addWordPack(record);
+
+    words.forEach(word =>
+      this.addWord({
+        id: crypto.randomUUID(),
+        packId: record.id,
+        text: word.text,
+        level: word.level,
+        category: word.category,
+      })
+    );
+
+    return { ...record };
+  }
+
+  async listWords(packId: string): Promise<WordRecord[]> {
+    return Array.from(this.words.values())
+      .filter(word => word.packId === packId)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(word => ({ ...word }));
+  }
+
+  async findSession(sessionId: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  async loadLearnerData(userId: string): Promise<LearnerData> {
+    const data = this.learners.get(userId) ?? createLearnerData();
+    return { ...data, reviews: [...data.reviews] };
+  }
+
+  async createSession(session: NewSession): Promise<SessionRecord> {
+    if (!this.wordPacks.has(session.packId)) {
+      throw new Error(
+        `InMemoryGameRepository: Unknown word pack ${session.packId}`
+      );
+    }
+
+    const { guestTokenHash, ...fields } = session;
+    const record: SessionRecord = {
+      ...fields,
+      endedAt: null,
+      durationSec: null,
+      result: null,
+      stats: {},
+      riskLevel: null,
+      riskFlags: [],
+    };
+    this.sessions.set(record.id, record);
+    if (guestTokenHash) this.guestTokenHashes.set(record.id, guestTokenHash);
+
+    return { ...record };
+  }
+
+  async claimGuestSessions(
+    userId: string,
+    transfers: GuestSessionTransfer[]
+  ): Promise<string[]> {
+    const claimed: string[] = [];
+    for (const { sessionId, guestTokenHash } of transfers) {
+      const session = this.sessions.get(sessionId);
+      if (
+        !session ||
+        session.userId !== null ||
+        this.guestTokenHashes.get(sessionId) !== guestTokenHash
+      ) {
+        continue;
+      }
+
+      this.sessions.set(sessionId, { ...session, userId });
+      this.guestTokenHashes.delete(sessionId);
+      claimed.push(sessionId);
+    }
+
+    return claimed;
+  }
+
+  async endSession(
+    sessionId: string,
+    update: SessionEndUpdate
+  ): Promise<SessionRecord> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`InMemoryGameRepository: Unknown session ${sessionId}`);
+    }
+
+    const record = { ...session, ...update };
+    this.sessions.set(sessionId, record);
+
+    return { ...record };
+  }
+
+  async createAttempt(attempt: NewAttempt): Promise<AttemptRecord> {
+    if (!this.sessions.has(attempt.sessionId)) {
+      throw new Error(
+        `InMemoryGameRepository: Unknown session ${attempt.sessionId}`
+      );
+    }
+
+    const record: AttemptRecord = {
+      ...attempt,
+      id: this.nextAttemptId++,
+      wpm: calculateAttemptWpm(attempt.targetText, attempt.ms),
+      createdAt: new Date().toISOString(),
+    };
+    this.attempts.push(record);
+
+    return { ...record };
+  }
+
+  async createAttempts(attempts: NewAttempt[]): Promise<AttemptRecord[]> {
+    // Check everything first so a failing batch stores nothing
+    const unknown = attempts.find(
+      attempt => !this.sessions.has(attempt.sessionId)
+    );
+    if (unknown) {
+      throw new Error(
+        `InMemoryGameRepository: Unknown session ${unknown.sessionId}`
+      );
+    }
+
+    const created: AttemptRecord[] = [];
+    for (const attempt of attempts) {
+      const stored = this.attempts.some(
+        existing =>
+          attempt.clientAttemptId &&
+          existing.sessionId === attempt.sessionId &&
+          existing.clientAttemptId === attempt.clientAttemptId
+      );
+      if (!stored) created.push(await this.createAttempt(attempt));
+    }
+
+    return created;
+  }
+
+  async listAttempts(sessionId: string): Promise<AttemptRecord[]> {
+    return this.attempts
+      .filter(attempt => attempt.sessionId === sessionId)
+      .map(attempt => ({ ...attempt }));
+  }
+
+  async listSessionSummaries(
+    userId: string,
+    since: string
+  ): Promise<SessionSummaryRecord[]> {
+    return Array.from(this.sessions.values())
+      .filter(
+        session =>
+          session.userId === userId &&
+          session.endedAt !== null &&
+          session.startedAt >= since
+      )
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .map(session => this.summarizeSession(session));
+  }
+
+  async listLeaderboard(
+    scope: LeaderboardScope,
+    limit: number,
+    offset: number
+  ): Promise<{ entries: LeaderboardEntryRecord[]; total: number }> {
+    const ranked = this.rankLeaderboard(scope);
+    return {
+      entries: ranked.slice(offset, offset + limit),
+      total: ranked.length,
+    };
+  }
+
+  async findLeaderboardEntry(
+    scope: LeaderboardScope,
+    userId: string
+  ): Promise<LeaderboardEntryRecord | null> {
+    return (
+      this.rankLeaderboard(scope).find(entry => entry.userId === userId) ?? null
+    );
+  }
+
+  async findIdempotentResponse(
+    key: string
+  ): Promise<IdempotentResponseRecord | null> {
+    const response = this.idempotentResponses.get(key);
+    return response ? { ...response } : null;
+  }
+
+  async saveIdempotentResponse(
+    response: IdempotentResponseRecord
+  ): Promise<void> {
+    if (!this.idempotentResponses.has(response.key)) {
+      this.idempotentResponses.set(response.key, { ...response });
+    }
+  }
+
+  /**
+   * Scored like the leaderboard_scores table; there are no profiles here,
+   * so display names are null
+   */
+  private rankLeaderboard(scope: LeaderboardScope): LeaderboardEntryRecord[] {
+    const scores = Array.from(this.sessions.values())
+      .map(toLeaderboardScore)
+      .filter(
+        (score): score is LeaderboardScoreRecord =>
+          score !== null &&
+          score.packId === scope.packId &&
+          score.difficulty === scope.difficulty &&
+          (scope.since === null || score.endedAt >= scope.since)
+      );
+    return rankLeaderboard(scores);
+  }
+
+  /**
+   * Same columns as the session_summary view
+   */
+  private summarizeSession(session: SessionRecord): SessionSummaryRecord {
+    const attempts = this.attempts.filter(
+      attempt => attempt.sessionId === session.id
+    );
+    const total = (type: AttemptRecord['type']) =>
+      attempts
+        .filter(attempt => attempt.type === type)
+        .reduce((sum, attempt) => sum + attempt.score, 0);
+    const mean = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : null;
+
+    return {
+      sessionId: session.id,
+      userId: session.userId,
+      packId: session.packId,
+      packTitle: this.wordPacks.get(session.packId)?.title ?? null,
+      difficulty: session.difficulty,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      durationSec: session.durationSec,
+      result: session.result,
+      avgWpm: session.stats.wpm ?? mean(attempts.map(attempt => attempt.wpm)),
+      avgAcc:
+        session.stats.acc ?? mean(attempts.map(attempt => attempt.accuracy)),
+      maxCombo:
+        session.stats.comboMax ??
+        (attempts.length > 0
+          ? Math.max(...attempts.map(attempt => attempt.combo))
+          : null),
+      totalDamage: total('ATTACK'),
+      totalHealing: total('HEAL'),
+      totalAttempts: attempts.length,
+    };
+  }
+}
+
+/**
+ * Same formula as the attempts.wpm generated column, rounded to numeric(6,2)
+ */
+export function calculateAttemptWpm(targetText: string, ms: number): number {
+  if (ms <= 0) return 0;
+  return Math.round((targetText.length / 5 / (ms / 60000)) * 100) / 100;
+}
+
+function createLearnerData(): LearnerData {
+  return {
+    playerStats: DEFAULT_PLAYER_STATS,
+    reviews: [],
+    keystrokeProfile: EMPTY_KEYSTROKE_PROFILE,
+  };
+}
@@ -0,0 +1,549 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseKeystrokeProfileStore } from '../../game/keystrokes/SupabaseKeystrokeProfileStore';
+import { SupabasePlayerStatsStore } from '../../game/progression/SupabasePlayerStatsStore';
+import { SupabaseReviewStore } from '../../game/reviews/SupabaseReviewStore';
+import {
+  AttemptRecord,
+  GameRepository,
+  GuestSessionTransfer,
+  IdempotentResponseRecord,
+  LearnerData,
+  LeaderboardEntryRecord,
+  LeaderboardScope,
+  NewAttempt,
+  NewSession,
+  NewWord,
+  NewWordPack,
+  SessionEndUpdate,
+  SessionRecord,
+  SessionSummaryRecord,
+  WordPackRecord,
+  WordRecord,
+} from '../types';
+
+/**
+ * GameRepository backed by the Supabase tables in
+ * supabase/migrations/20250823170953_initial_schema.sql
+ */
+
+interface WordRow {
+  id: string;
+  pack_id: string;
+  text: string;
+  level: number;
+  category: string | null;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string | null;
+  pack_id: string;
+  difficulty: SessionRecord['difficulty'];
+  started_at: string;
+  ended_at: string | null;
+  duration_sec: number | null;
+  result: SessionRecord['result'];
+  stats: SessionRecord['stats'] | null;
+  settings: SessionRecord['settings'] | null;
+  risk_level: SessionRecord['riskLevel'];
+  risk_flags: string[] | null;
+}
+
+interface AttemptRow {
+  id: number;
+  session_id: string;
+  type: AttemptRecord['type'];
+  word_id: string;
+  target_text: string;
+  ms: number;
+  errors: number;
+  wpm: number | string; // numeric columns can arrive as strings
+  accuracy: number | string;
+  score: number;
+  combo: number;
+  breakdown: string[] | null;
+  client_attempt_id: string | null;
+  created_at: string;
+}
+
+interface LeaderboardRow {
+  rank: number | string; // bigint
+  user_id: string;
+  display_name: string | null;
+  session_id: string;
+  pack_id: string;
+  difficulty: SessionRecord['difficulty'];
+  ended_at: string;
+  score: number | string;
+  damage: number;
+  duration_sec: number;
+  accuracy: number | string;
+  wpm: number | string | null;
+}
+
+interface SessionSummaryRow {
+  session_id: string;
+  user_id: string | null;
+  pack_id: string;
+  pack_title: string | null;
+  difficulty: SessionRecord['difficulty'];
+  started_at: string;
+  ended_at: string | null;
+  duration_sec: number | null;
+  result: SessionRecord['result'];
+  avg_wpm: number | string | null;
+  avg_acc: number | string | null;
+  max_combo: number | null;
+  total_damage: number | string | null; // sums are bigint, sent as strings
+  total_healing: number | string | null;
+  attack_count: number | string;
+  heal_count: number | string;
+  guard_count: number | string;
+}
+
+const SESSION_COLUMNS =
+  'id, user_id, pack_id, difficulty, started_at, ended_at, duration_sec, result, stats, settings, risk_level, risk_flags';
+const ATTEMPT_COLUMNS =
+  'id, session_id, type, word_id, target_text, ms, errors, wpm, accuracy, score, combo, breakdown, client_attempt_id, created_at';
+const SESSION_SUMMARY_COLUMNS =
+  'session_id, user_id, pack_id, pack_title, difficulty, started_at, ended_at, duration_sec, result, avg_wpm, avg_acc, max_combo, total_damage, total_healing, attack_count, heal_count, guard_count';
+
+const UNIQUE_VIOLATION = '23505';
+
+export class SupabaseGameRepository implements GameRepository {
+  private client: SupabaseClient;
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  async findWordPack(packId: string): Promise<WordPackRecord | null> {
+    const { data, error } = await this.client
+      .from('word_packs')
+      .select('id, title, is_active, combat_profile')
+      .eq('id', packId)
+      .maybeSingle();
+
+    if (error) throw this.wrapError('findWordPack', error);
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      title: data.title,
+      isActive: data.is_active,
+      combatProfile: data.combat_profile,
+    };
+  }
+
+  async findWord(wordId: string): Promise<WordRecord | null> {
+    const { data, error } = await this.client
+      .from('words')
+      .select('id, pack_id, text, level, category')
+      .eq('id', wordId)
+      .maybeSingle();
+
+    if (error) throw this.wrapError('findWord', error);
+    return data ? toWordRecord(data as WordRow) : null;
+  }
+
+  async listWords(packId: string): Promise<WordRecord[]> {
+    const { data, error } = await this.client
+      .from('words')
+      .select('id, pack_id, text, level, category')
+      .eq('pack_id', packId)
+      .order('id');
+
+    if (error) throw this.wrapError('listWords', error);
+    return ((data ?? []) as WordRow[]).map(toWordRecord);
+  }
+
+  /**
+   * PostgREST has no transactions, so a pack whose words fail to insert is
+   * deleted again (words cascade)
+   */
+  async createWordPack(
+    pack: NewWordPack,
+    words: NewWord[]
+  ): Promise<WordPackRecord> {
+    const { data, error } = await this.client
+      .from('word_packs')
+      .insert({
+        title: pack.title,
+        description: pack.description,
+        lang: pack.lang,
+        tags: pack.tags,
+        level_min: pack.levelMin,
+        level_max: pack.levelMax,
+        combat_profile: pack.combatProfile,
+        created_by: pack.createdBy,
+      })
+      .select('id, title, is_active, combat_profile')
+      .single();
+
+    if (error) throw this.wrapError('createWordPack', error);
+
+    const { error: wordsError } = await this.client.from('words').insert(
+      words.map(word => ({
+        pack_id: data.id,
+        text: word.text,
+        level: word.level,
+        category: word.category,
+        pronunciation: word.pronunciation,
+        meaning: word.meaning,
+      }))
+    );
+
+    if (wordsError) {
+      await this.client.from('word_packs').delete().eq('id', data.id);
+      throw this.wrapError('createWordPack', wordsError);
+    }
+
+    return {
+      id: data.id,
+      title: data.title,
+      isActive: data.is_active,
+      combatProfile: data.combat_profile,
+    };
+  }
+
+  async findSession(sessionId: string): Promise<SessionRecord | null> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .select(SESSION_COLUMNS)
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) throw this.wrapError('findSession', error);
+    return data ? toSessionRecord(data as SessionRow) : null;
+  }
+
+  async createSession(session: NewSession): Promise<SessionRecord> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .insert({
+        id: session.id,
+        user_id: session.userId,
+        pack_id: session.packId,
+        difficulty: session.difficulty,
+        started_at: session.startedAt,
+        settings: session.settings,
+        guest_token_hash: session.guestTokenHash,
+      })
+      .select(SESSION_COLUMNS)
+      .single();
+
+    if (error) throw this.wrapError('createSession', error);
+    return toSessionRecord(data as SessionRow);
+  }
+
+  /**
+   * Read with the server's client through the learner's own stores, so the
+   * rows are the ones the game saved
+   */
+  async loadLearnerData(userId: string): Promise<LearnerData> {
+    const [playerStats, reviews, keystrokeProfile] = await Promise.all([
+      new SupabasePlayerStatsStore(this.client, userId).load(),
+      new SupabaseReviewStore(this.client, userId).load(),
+      new SupabaseKeystrokeProfileStore(this.client, userId).load(),
+    ]);
+    return { playerStats, reviews, keystrokeProfile };
+  }
+
+  /**
+   * claim_guest_sessions updates every matching session in one statement
+   */
+  async claimGuestSessions(
+    userId: string,
+    transfers: GuestSessionTransfer[]
+  ): Promise<string[]> {
+    const { data, error } = await this.client.rpc('claim_guest_sessions', {
+      p_user_id: userId,
+      p_claims: transfers.map(transfer => ({
+        session_id: transfer.sessionId,
+        guest_token_hash: transfer.guestTokenHash,
+      })),
+    });
+
+    if (error) throw this.wrapError('claimGuestSessions', error);
+    return data as string[];
+  }
+
+  async endSession(
+    sessionId: string,
+    update: SessionEndUpdate
+  ): Promise<SessionRecord> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .update({
+        ended_at: update.endedAt,
+        duration_sec: update.durationSec,
+        result: update.result,
+        stats: update.stats,
+        risk_level: update.riskLevel,
+        risk_flags: update.riskFlags,
+      })
+      .eq('id', sessionId)
+      .select(SESSION_COLUMNS)
+      .single();
+
+    if (error) throw this.wrapError('endSession', error);
+    return toSessionRecord(data as SessionRow);
+  }
+
+  async createAttempt(attempt: NewAttempt): Promise<AttemptRecord> {
+    const { data, error } = await this.client
+      .from('attempts')
+      .insert(toAttemptInsert(attempt))
+      .select(ATTEMPT_COLUMNS)
+      .single();
+
+    if (error) throw this.wrapError('createAttempt', error);
+    return toAttemptRecord(data as AttemptRow);
+  }
+
+  /**
+   * One insert statement, so the batch is stored as a whole or not at all;
+   * rows already stored under their (session_id, client_attempt_id) are
+   * skipped and not returned
+   */
+  async createAttempts(attempts: NewAttempt[]): Promise<AttemptRecord[]> {
+    if (attempts.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('attempts')
+      .upsert(attempts.map(toAttemptInsert), {
+        onConflict: 'session_id,client_attempt_id',
+        ignoreDuplicates: true,
+      })
+      .select(ATTEMPT_COLUMNS);
+
+    if (error) throw this.wrapError('createAttempts', error);
+    return (data as AttemptRow[]).map(toAttemptRecord);
+  }
+
+  async listAttempts(sessionId: string): Promise<AttemptRecord[]> {
+    const { data, error } = await this.client
+      .from('attempts')
+      .select(ATTEMPT_COLUMNS)
+      .eq('session_id', sessionId)
+      .order('id');
+
+    if (error) throw this.wrapError('listAttempts', error);
+    return (data as AttemptRow[]).map(toAttemptRecord);
+  }
+
+  async listSessionSummaries(
+    userId: string,
+    since: string
+  ): Promise<SessionSummaryRecord[]> {
+    const { data, error } = await this.client
+      .from('session_summary')
+      .select(SESSION_SUMMARY_COLUMNS)
+      .eq('user_id', userId)
+      .not('ended_at', 'is', null)
+      .gte('started_at', since)
+      .order('started_at', { ascending: false });
+
+    if (error) throw this.wrapError('listSessionSummaries', error);
+    return (data as SessionSummaryRow[]).map(toSessionSummaryRecord);
+  }
+
+  async listLeaderboard(
+    scope: LeaderboardScope,
+    limit: number,
+    offset: number
+  ): Promise<{ entries: LeaderboardEntryRecord[]; total: number }> {
+    const { data, error } = await this.client.rpc(
+      'leaderboard',
+      toLeaderboardParams(scope, { p_limit: limit, p_offset: offset })
+    );
+
+    if (error) throw this.wrapError('listLeaderboard', error);
+    const page = data as { entries: LeaderboardRow[]; total: number };
+    return {
+      entries: page.entries.map(toLeaderboardEntryRecord),
+      total: Number(page.total),
+    };
+  }
+
+  async findLeaderboardEntry(
+    scope: LeaderboardScope,
+    userId: string
+  ): Promise<LeaderboardEntryRecord | null> {
+    const { data, error } = await this.client.rpc(
+      'leaderboard',
+      toLeaderboardParams(scope, { p_user_id: userId, p_limit: 1 })
+    );
+
+    if (error) throw this.wrapError('findLeaderboardEntry', error);
+    const [row] = (data as { entries: LeaderboardRow[] }).entries;
+    return row ? toLeaderboardEntryRecord(row) : null;
+  }
+
+  async findIdempotentResponse(
+    key: string
+  ): Promise<IdempotentResponseRecord | null> {
+    const { data, error } = await this.client
+      .from('idempotency_keys')
+      .select('key, user_id, request, status, body')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw this.wrapError('findIdempotentResponse', error);
+    if (!data) return null;
+
+    return {
+      key: data.key,
+      userId: data.user_id,
+      request: data.request,
+      status: data.status,
+      body: data.body,
+    };
+  }
+
+  async saveIdempotentResponse(
+    response: IdempotentResponseRecord
+  ): Promise<void> {
+    const { error } = await this.client.from('idempotency_keys').insert({
+      key: response.key,
+      user_id: response.userId,
+      request: response.request,
+      status: response.status,
+      body: response.body,
+    });
+
+    // A concurrent retry stored its response first
+    if (error && error.code !== UNIQUE_VIOLATION) {
+      throw this.wrapError('saveIdempotentResponse', error);
+    }
+  }
+
+  private wrapError(operation: string, error: { message: string }): Error {
+    return new Error(
+      `SupabaseGameRepository: ${operation} failed: ${error.message}`
+    );
+  }
+}
+
+// =============================================================================
+// ROW MAPPING
+// =============================================================================
+
+function toWordRecord(row: WordRow): WordRecord {
+  return {
+    id: row.id,
+    packId: row.pack_id,
+    text: row.text,
+    level: row.level,
+    category: row.category,
+  };
+}
+
+function toSessionRecord(row: SessionRow): SessionRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    packId: row.pack_id,
+    difficulty: row.difficulty,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    durationSec: row.duration_sec,
+    result: row.result,
+    stats: row.stats ?? {},
+    settings: row.settings ?? {},
+    riskLevel: row.risk_level,
+    riskFlags: row.risk_flags ?? [],
+  };
+}
+
+function toAttemptInsert(attempt: NewAttempt) {
+  return {
+    session_id: attempt.sessionId,
+    type: attempt.type,
+    word_id: attempt.wordId,
+    target_text: attempt.targetText,
+    ms: attempt.ms,
+    errors: attempt.errors,
+    accuracy: attempt.accuracy,
+    score: attempt.score,
+    combo: attempt.combo,
+    breakdown: attempt.breakdown ?? [],
+    client_attempt_id: attempt.clientAttemptId ?? null,
+  };
+}
+
+function toAttemptRecord(row: AttemptRow): AttemptRecord {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    type: row.type,
+    wordId: row.word_id,
+    targetText: row.target_text,
+    ms: row.ms,
+    errors: row.errors,
+    wpm: Number(row.wpm),
+    accuracy: Number(row.accuracy),
+    score: row.score,
+    combo: row.combo,
+    breakdown: row.breakdown ?? [],
+    clientAttemptId: row.client_attempt_id,
+    createdAt: row.created_at,
+  };
+}
+
+function toLeaderboardParams(
+  scope: LeaderboardScope,
+  page: { p_user_id?: string; p_limit: number; p_offset?: number }
+) {
+  return {
+    p_pack_id: scope.packId,
+    p_difficulty: scope.difficulty,
+    p_since: scope.since,
+    ...page,
+  };
+}
+
+function toLeaderboardEntryRecord(row: LeaderboardRow): LeaderboardEntryRecord {
+  return {
+    rank: Number(row.rank),
+    displayName: row.display_name,
+    sessionId: row.session_id,
+    userId: row.user_id,
+    packId: row.pack_id,
+    difficulty: row.difficulty,
+    endedAt: row.ended_at,
+    score: Number(row.score),
+    damage: row.damage,
+    durationSec: row.duration_sec,
+    accuracy: Number(row.accuracy),
+    wpm: toNullableNumber(row.wpm),
+  };
+}
+
+function toSessionSummaryRecord(row: SessionSummaryRow): SessionSummaryRecord {
+  return {
+    sessionId: row.session_id,
+    userId: row.user_id,
+    packId: row.pack_id,
+    packTitle: row.pack_title,
+    difficulty: row.difficulty,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    durationSec: row.duration_sec,
+    result: row.result,
+    avgWpm: toNullableNumber(row.avg_wpm),
+    avgAcc: toNullableNumber(row.avg_acc),
+    maxCombo: row.max_combo,
+    totalDamage: Number(row.total_damage ?? 0),
+    totalHealing: Number(row.total_healing ?? 0),
+    // total_attempts counts the joined null row of a session without attempts
+    totalAttempts:
+      Number(row.attack_count) +
+      Number(row.heal_count) +
+      Number(row.guard_count),
+  };
+}
+
+function toNullableNumber(value: number | string | null): number | null {
+  return value === null ? null : Number(value);
+}
@@ -0,0 +1,54 @@
+import { ReportWord, SessionReport } from '../game/types';
+import { buildSessionReport } from '../game/utils/sessionReport';
+import { AttemptRecord, SessionOutcome, SessionRecord } from './types';
+
+/**
+ * Results screen report for a stored session
+ * Totals come from the stats sent when the session ended, falling back to
+ * the recorded attempts for any the client left out
+ */
+export function createStoredSessionReport(
+  session: SessionRecord & { result: SessionOutcome },
+  attempts: AttemptRecord[]
+): SessionReport {
+  const { stats } = session;
+  const count = (type: AttemptRecord['type']) =>
+    attempts.filter(attempt => attempt.type === type).length;
+  const mean = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : 0;
+
+  return buildSessionReport(
+    {
+      sessionId: session.id,
+      result: session.result,
+      durationSec: session.durationSec ?? 0,
+      accuracy: stats.acc ?? mean(attempts.map(attempt => attempt.accuracy)),
+      averageWpm: stats.wpm ?? mean(attempts.map(attempt => attempt.wpm)),
+      longestCombo:
+        stats.comboMax ??
+        Math.max(0, ...attempts.map(attempt => attempt.combo)),
+      attackCount: stats.atkCount ?? count('ATTACK'),
+      healCount: stats.healCount ?? count('HEAL'),
+      damageDealt: stats.damage ?? 0,
+      damageTaken: stats.damageTaken ?? 0,
+      guardSuccessRate: stats.guardRate ?? 0,
+    },
+    attempts.map(toReportWord)
+  );
+}
+
+function toReportWord(attempt: AttemptRecord): ReportWord {
+  return {
+    text: attempt.targetText,
+    type: attempt.type,
+    timeMs: attempt.ms,
+    errors: attempt.errors,
+    accuracy: attempt.accuracy,
+    wpm: attempt.wpm,
+    value: attempt.score,
+    critical: false, // Not recorded per attempt
+    breakdown: attempt.breakdown ?? [],
+  };
+}
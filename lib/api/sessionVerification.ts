@@ -0,0 +1,395 @@
+import { HeadlessAdapter } from '../game/HeadlessAdapter';
+import { GameConfig, SessionReplay, SessionSeed, Word } from '../game/types';
+import { getBuiltInCampaign } from '../game/utils/campaign';
+import { DEFAULT_VALIDATION_RULES } from '../game/utils/inputValidator';
+import { ManualClock } from '../game/utils/clock';
+import {
+  DEFAULT_GAME_SETTINGS,
+  getBattleDurationSec,
+} from '../game/utils/settings';
+import {
+  AttemptRecord,
+  RiskLevel,
+  SessionOutcome,
+  SessionRecord,
+  SessionStats,
+} from './types';
+
+/**
+ * Server-side verification of a finished session
+ * Replays the recorded keystrokes through HeadlessAdapter, which re-runs the
+ * InputValidator heuristics and combat formulas, then compares the outcome
+ * with what the client reported
+ */
+
+export interface SessionClaim {
+  session: SessionRecord;
+  result: SessionOutcome;
+  durationSec: number;
+  stats: SessionStats;
+  attempts: AttemptRecord[];
+}
+
+export interface SessionVerification {
+  riskLevel: RiskLevel;
+  flags: string[];
+  reproduced: boolean; // False when the replay could not be checked or diverged
+  replayed?: ReplayedSession; // Set when reproduced
+}
+
+/**
+ * What the server's own run of a reproduced replay came to, stored in place
+ * of the client's numbers
+ */
+export interface ReplayedSession {
+  durationSec: number;
+  stats: SessionStats;
+}
+
+export const VERIFICATION_FLAGS = {
+  UNVERIFIED: 'unverified',
+  REPLAY_MISMATCH: 'replay_session_mismatch',
+  REPLAY_FAILED: 'replay_failed',
+  REPLAY_OUT_OF_BOUNDS: 'replay_out_of_bounds',
+  RESULT_MISMATCH: 'result_mismatch',
+  DAMAGE_MISMATCH: 'damage_mismatch',
+  DAMAGE_TAKEN_MISMATCH: 'damage_taken_mismatch',
+  ACCURACY_MISMATCH: 'accuracy_mismatch',
+  WPM_MISMATCH: 'wpm_mismatch',
+  COMBO_MISMATCH: 'combo_mismatch',
+  DURATION_MISMATCH: 'duration_mismatch',
+  ACTION_COUNT_MISMATCH: 'action_count_mismatch',
+  ATTEMPT_MISMATCH: 'attempt_mismatch',
+  IMPOSSIBLE_SPEED: 'impossible_speed',
+} as const;
+
+// Pauses a replay may span on top of the battle length
+export const MAX_REPLAY_PAUSE_MS = 30 * 60_000;
+// Each pause adds a pause and a resume marker
+export const MAX_REPLAY_MARKERS = 200;
+
+// Phaser polls its timers, so totals can drift slightly from the headless run
+const DAMAGE_TOLERANCE = 0.05;
+const MIN_DAMAGE_TOLERANCE = 5;
+const COMBO_TOLERANCE = 1;
+// Phaser's timer counts whole seconds
+const DURATION_TOLERANCE_SEC = 2;
+// Typing speed and accuracy come from the same keystroke timings, so they
+// only differ by rounding
+const WPM_TOLERANCE = 0.5;
+const ACCURACY_TOLERANCE = 0.005;
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+/**
+ * Verify a session from its replay
+ * packWords are the session's word pack as stored, see toSessionWords
+ * Anything that does not reproduce is HIGH risk; otherwise the risk comes
+ * from the InputValidator heuristics on the real keystroke timings
+ */
+export async function verifySession(
+  replay: SessionReplay,
+  claim: SessionClaim,
+  packWords: Word[]
+): Promise<SessionVerification> {
+  // Sessions created before the server assigned seeds cannot be replayed
+  // faithfully
+  const rngSeed = claim.session.settings.rngSeed;
+  if (rngSeed === undefined) {
+    return assessUnverifiedSession(claim);
+  }
+
+  const flags = checkClaimedStats(claim);
+  const sessionSeed = getSessionSeed(claim.session, packWords, rngSeed);
+
+  if (!sameSeed(replay.sessionSeed, sessionSeed)) {
+    return highRisk([...flags, VERIFICATION_FLAGS.REPLAY_MISMATCH]);
+  }
+
+  // Replaying is simulated step by step, so anything longer than the
+  // battle could have lasted is refused before it runs
+  if (!withinReplayBounds(replay, getSessionDurationSec(claim.session))) {
+    return highRisk([...flags, VERIFICATION_FLAGS.REPLAY_OUT_OF_BOUNDS]);
+  }
+
+  // Only the keystrokes and pauses come from the client; everything else is
+  // what the server stored for the session
+  const serverReplay: SessionReplay = {
+    ...replay,
+    config: getReplayConfig(claim.session),
+    sessionSeed,
+  };
+
+  const adapter = new HeadlessAdapter({ clock: new ManualClock(0) });
+  try {
+    await adapter.playReplay(serverReplay);
+  } catch {
+    adapter.destroy();
+    return highRisk([...flags, VERIFICATION_FLAGS.REPLAY_FAILED]);
+  }
+
+  const { stats: replayed, timeLeft } = adapter.getState();
+  const sessionResult = adapter.getSessionResult();
+  const replayedResult = sessionResult?.result ?? 'ABORT';
+  const replayedDurationSec =
+    sessionResult?.duration ??
+    Math.round(getSessionDurationSec(claim.session) - timeLeft);
+  const replayedAttempts = adapter.getAttempts();
+  const antiCheat = adapter.getAntiCheatReport();
+  adapter.destroy();
+
+  if (replayedResult !== claim.result && claim.result !== 'ABORT') {
+    flags.push(VERIFICATION_FLAGS.RESULT_MISMATCH);
+  }
+  if (!withinTolerance(claim.stats.damage, replayed.totalDamage)) {
+    flags.push(VERIFICATION_FLAGS.DAMAGE_MISMATCH);
+  }
+  if (!withinTolerance(claim.stats.damageTaken, replayed.damageTaken)) {
+    flags.push(VERIFICATION_FLAGS.DAMAGE_TAKEN_MISMATCH);
+  }
+  if (Math.abs(claim.stats.acc - replayed.accuracy) > ACCURACY_TOLERANCE) {
+    flags.push(VERIFICATION_FLAGS.ACCURACY_MISMATCH);
+  }
+  if (Math.abs(claim.stats.wpm - replayed.wpm) > WPM_TOLERANCE) {
+    flags.push(VERIFICATION_FLAGS.WPM_MISMATCH);
+  }
+  if (Math.abs(claim.stats.comboMax - replayed.maxCombo) > COMBO_TOLERANCE) {
+    flags.push(VERIFICATION_FLAGS.COMBO_MISMATCH);
+  }
+  if (
+    Math.abs(claim.durationSec - replayedDurationSec) > DURATION_TOLERANCE_SEC
+  ) {
+    flags.push(VERIFICATION_FLAGS.DURATION_MISMATCH);
+  }
+  if (
+    claim.stats.atkCount !== replayed.attackCount ||
+    claim.stats.healCount !== replayed.healCount
+  ) {
+    flags.push(VERIFICATION_FLAGS.ACTION_COUNT_MISMATCH);
+  }
+  if (
+    claim.attempts.length > 0 &&
+    !sameWords(
+      claim.attempts.map(attempt => attempt.targetText),
+      replayedAttempts.map(attempt => attempt.text)
+    )
+  ) {
+    flags.push(VERIFICATION_FLAGS.ATTEMPT_MISMATCH);
+  }
+
+  if (flags.length > 0) {
+    return highRisk([...flags, ...Object.keys(antiCheat.flagBreakdown)]);
+  }
+
+  return {
+    riskLevel: antiCheat.riskLevel,
+    flags: Object.keys(antiCheat.flagBreakdown),
+    reproduced: true,
+    replayed: {
+      durationSec: Math.max(1, replayedDurationSec),
+      stats: {
+        ...claim.stats, // The guard rate is not replayed
+        wpm: replayed.wpm,
+        acc: replayed.accuracy,
+        comboMax: replayed.maxCombo,
+        atkCount: replayed.attackCount,
+        healCount: replayed.healCount,
+        damage: Math.round(replayed.totalDamage),
+        damageTaken: Math.round(replayed.damageTaken),
+      },
+    },
+  };
+}
+
+/**
+ * Assess a session the client sent no replay for
+ * Only the reported numbers can be checked, so the best it can be is MEDIUM
+ */
+export function assessUnverifiedSession(
+  claim: SessionClaim
+): SessionVerification {
+  const flags = checkClaimedStats(claim);
+  if (flags.length > 0) {
+    return highRisk(flags);
+  }
+
+  return {
+    riskLevel: 'MEDIUM',
+    flags: [VERIFICATION_FLAGS.UNVERIFIED],
+    reproduced: false,
+  };
+}
+
+/**
+ * Battle length a session was created with; sessions from before it was
+ * stored ran the default length
+ */
+export function getSessionDurationSec(session: SessionRecord): number {
+  return (
+    session.settings.durationSec ?? getBattleDurationSec(DEFAULT_GAME_SETTINGS)
+  );
+}
+
+/**
+ * Longest replay a battle of durationSec can record, pauses included
+ */
+export function getMaxReplayMs(durationSec: number): number {
+  return durationSec * 1000 + MAX_REPLAY_PAUSE_MS;
+}
+
+/**
+ * Most keystrokes a human can type in a battle of durationSec
+ */
+export function getMaxReplayKeystrokes(durationSec: number): number {
+  return Math.ceil((durationSec * 1000) / DEFAULT_VALIDATION_RULES.minCharTime);
+}
+
+/**
+ * Whether a single attempt is faster than any human could type it
+ */
+export function isImpossibleAttempt(targetText: string, ms: number): boolean {
+  const wpm = targetText.length / 5 / (ms / 60000);
+  return (
+    wpm > DEFAULT_VALIDATION_RULES.maxWPM ||
+    ms < targetText.length * DEFAULT_VALIDATION_RULES.minCharTime
+  );
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function checkClaimedStats(claim: SessionClaim): string[] {
+  const impossible =
+    claim.stats.wpm > DEFAULT_VALIDATION_RULES.maxWPM ||
+    claim.attempts.some(attempt =>
+      isImpossibleAttempt(attempt.targetText, attempt.ms)
+    );
+
+  return impossible ? [VERIFICATION_FLAGS.IMPOSSIBLE_SPEED] : [];
+}
+
+function withinReplayBounds(
+  replay: SessionReplay,
+  durationSec: number
+): boolean {
+  const { durationMs } = replay;
+  return (
+    durationMs <= getMaxReplayMs(durationSec) &&
+    replay.keystrokes.length <= getMaxReplayKeystrokes(durationSec) &&
+    replay.markers.length <= MAX_REPLAY_MARKERS &&
+    [...replay.keystrokes, ...replay.markers].every(
+      event => event.timestamp <= durationMs
+    )
+  );
+}
+
+/**
+ * The seed a session was started with, all from what the server stored
+ */
+function getSessionSeed(
+  session: SessionRecord,
+  words: Word[],
+  rngSeed: number
+): SessionSeed {
+  const { settings } = session;
+  const campaign =
+    settings.campaignId !== undefined
+      ? getBuiltInCampaign(settings.campaignId)
+      : null;
+
+  return {
+    sessionId: session.id,
+    packId: session.packId,
+    difficulty: session.difficulty,
+    words,
+    rngSeed,
+    combatProfile: settings.combatProfile,
+    skills: settings.skills,
+    promptMode: settings.promptMode,
+    adaptiveDifficulty: settings.adaptiveDifficulty,
+    playerStats: settings.playerStats,
+    reviewSchedule: settings.reviewSchedule,
+    keystrokeProfile: settings.keystrokeProfile,
+    ...(campaign && { campaign }),
+  };
+}
+
+/**
+ * Whether the client played with the seed the server stored; a field it
+ * changed, such as a higher level, would otherwise replay as honest
+ */
+function sameSeed(played: SessionSeed, stored: SessionSeed): boolean {
+  const { words, ...playedFields } = played;
+  const { words: storedWords, ...storedFields } = stored;
+
+  return (
+    sameWords(
+      words.map(word => `${word.id}:${word.text}`),
+      storedWords.map(word => `${word.id}:${word.text}`)
+    ) &&
+    (Object.keys(storedFields) as Array<keyof typeof storedFields>)
+      .concat(Object.keys(playedFields) as Array<keyof typeof playedFields>)
+      .every(field => sameValue(playedFields[field], storedFields[field]))
+  );
+}
+
+/**
+ * Compares JSON values, treating a missing value and undefined alike
+ */
+function sameValue(played: unknown, stored: unknown): boolean {
+  if (played === undefined || stored === undefined) {
+    return played === stored;
+  }
+  if (
+    typeof played !== 'object' ||
+    typeof stored !== 'object' ||
+    played === null ||
+    stored === null
+  ) {
+    return played === stored;
+  }
+  if (Array.isArray(played) !== Array.isArray(stored)) return false;
+
+  const keys = new Set([...Object.keys(played), ...Object.keys(stored)]);
+  return Array.from(keys).every(key =>
+    sameValue(
+      (played as Record<string, unknown>)[key],
+      (stored as Record<string, unknown>)[key]
+    )
+  );
+}
+
+function getReplayConfig(session: SessionRecord): GameConfig {
+  return {
+    // Headless play draws nothing; the size only has to be valid
+    width: 800,
+    height: 600,
+    difficulty: session.difficulty,
+    packId: session.packId,
+    sessionId: session.id,
+    durationSec: getSessionDurationSec(session),
+  };
+}
+
+function highRisk(flags: string[]): SessionVerification {
+  return {
+    riskLevel: 'HIGH',
+    flags: Array.from(new Set(flags)),
+    reproduced: false,
+  };
+}
+
+function withinTolerance(claimed: number, actual: number): boolean {
+  const tolerance = Math.max(MIN_DAMAGE_TOLERANCE, actual * DAMAGE_TOLERANCE);
+  return Math.abs(claimed - actual) <= tolerance;
+}
+
+function sameWords(claimed: string[], replayed: string[]): boolean {
+  return (
+    claimed.length === replayed.length &&
+    claimed.every((text, index) => text === replayed[index])
+  );
+}
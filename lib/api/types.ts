@@ -0,0 +1,512 @@
+import {
+  ActionType,
+  CombatProfile,
+  GameDifficulty,
+  KeystrokeProfile,
+  PlayerStats,
+  PromptMode,
+  ReviewSchedule,
+  SessionReplay,
+  SessionReport,
+  SkillId,
+  WordReview,
+} from '../game/types';
+import { GameClock } from '../game/utils/clock';
+import type { ErrorResponse } from './errors';
+import { PackFormat, PackImportReport, PackMetadata } from '../packs/types';
+
+/**
+ * Types for the session API in docs/api/openapi.yaml
+ * Request and response bodies mirror the OpenAPI schemas; records mirror the
+ * Supabase tables in camelCase
+ */
+
+// =============================================================================
+// REQUEST / RESPONSE BODIES
+// =============================================================================
+
+export type SessionOutcome = 'WIN' | 'LOSE' | 'ABORT';
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface SettingsSnapshot {
+  theme?: 'light' | 'dark' | 'high-contrast';
+  fontSize?: number;
+  soundEnabled?: boolean;
+  accessibilityMode?: boolean;
+  fontFamily?: 'default' | 'open-dyslexic' | 'roboto-mono';
+  combatProfile?: CombatProfile; // Set by the server to the profile in play
+  skills?: SkillId[]; // Set by the server to the equipped skills
+  durationSec?: number; // Set by the server to the battle length
+  rngSeed?: number; // Set by the server; seeds the session's random choices
+  ranked?: boolean; // Set by the server; false when a session profile or skills change the balance
+  promptMode?: PromptMode; // Set by the server to the requested mode
+  campaignId?: string; // Set by the server to the requested built-in campaign
+  adaptiveDifficulty?: boolean; // Set by the server to the requested setting
+  // Set by the server from the learner's stored data as the session started
+  playerStats?: PlayerStats;
+  reviewSchedule?: ReviewSchedule;
+  keystrokeProfile?: KeystrokeProfile;
+  [key: string]: unknown;
+}
+
+export interface CreateSessionRequest {
+  packId: string;
+  difficulty: GameDifficulty;
+  settingsSnapshot?: SettingsSnapshot;
+  combatProfile?: CombatProfile; // Built-in ids are resolved by validation
+  skills?: SkillId[];
+  durationSec?: number; // Battle length; one of the settings' lengths
+  promptMode?: PromptMode;
+  campaignId?: string; // A built-in campaign to fight instead of one battle
+  adaptiveDifficulty?: boolean;
+}
+
+export interface CreateSessionResponse {
+  sessionId: string;
+  combatProfile: CombatProfile; // Pass to the game in SessionSeed.combatProfile
+  skills: SkillId[]; // Pass to the game in SessionSeed.skills
+  durationSec: number; // Pass to the game in GameConfig.durationSec
+  rngSeed: number; // Pass to the game in SessionSeed.rngSeed
+  // Signed-in learners only; pass to the game in the SessionSeed fields of
+  // the same name, as the session is verified with them
+  playerStats?: PlayerStats;
+  reviewSchedule?: ReviewSchedule;
+  keystrokeProfile?: KeystrokeProfile;
+  guestToken?: string; // Guests only; send as X-Guest-Token to use the session
+  message: string;
+}
+
+export interface RecordAttemptRequest {
+  sessionId: string;
+  type: ActionType;
+  wordId: string;
+  targetText: string;
+  ms: number;
+  errors: number;
+  accuracy: number;
+  score: number;
+  combo: number;
+  breakdown?: string[]; // Combat calculation steps for the results screen
+}
+
+export interface RecordAttemptResponse {
+  attemptId: number;
+  wpm: number;
+  message: string;
+}
+
+export interface AttemptBatchItem
+  extends Omit<RecordAttemptRequest, 'sessionId'> {
+  clientAttemptId: string; // Generated by the client; a resent id is not recorded again
+}
+
+export interface RecordAttemptBatchRequest {
+  sessionId: string;
+  attempts: AttemptBatchItem[]; // In the order they were typed
+}
+
+export type AttemptBatchItemStatus = 'CREATED' | 'DUPLICATE' | 'INVALID';
+
+export interface AttemptBatchItemResult {
+  index: number;
+  clientAttemptId: string | null; // null when the item had no valid id
+  status: AttemptBatchItemStatus;
+  attemptId?: number; // Created, or the earlier attempt with the same id
+  wpm?: number;
+  error?: Omit<ErrorResponse, 'timestamp'>; // Why an item is INVALID
+}
+
+export interface RecordAttemptBatchResponse {
+  sessionId: string;
+  results: AttemptBatchItemResult[]; // One per item, in request order
+  created: number;
+  duplicates: number;
+  invalid: number;
+  message: string;
+}
+
+export interface SessionStats {
+  wpm: number;
+  acc: number;
+  comboMax: number;
+  atkCount: number;
+  healCount: number;
+  guardRate: number;
+  damage: number;
+  damageTaken: number;
+}
+
+export interface EndSessionRequest {
+  sessionId: string;
+  result: SessionOutcome;
+  durationSec: number;
+  stats: SessionStats;
+  replay?: SessionReplay; // Recorded keystrokes for server-side verification
+}
+
+export interface EndSessionResponse {
+  sessionId: string;
+  finalStats: {
+    wpm: number;
+    accuracy: number;
+    totalScore: number;
+    comboMax: number;
+  };
+  riskLevel: RiskLevel;
+  message: string;
+}
+
+export interface SessionReportResponse {
+  report: SessionReport;
+  riskLevel: RiskLevel | null;
+}
+
+export interface GuestSessionClaim {
+  sessionId: string;
+  guestToken: string; // From the guest's CreateSessionResponse
+}
+
+export interface ClaimGuestSessionsRequest {
+  sessions: GuestSessionClaim[];
+}
+
+export type GuestClaimSkipReason = 'INVALID_TOKEN' | 'NOT_CLAIMABLE';
+
+export interface ClaimGuestSessionsResponse {
+  claimed: string[]; // Session ids now owned by the caller
+  skipped: Array<{ sessionId: string; reason: GuestClaimSkipReason }>;
+  message: string;
+}
+
+export interface DashboardQuery {
+  weeks: number; // Weeks of trends, this week included
+}
+
+export interface DashboardResponse {
+  totals: DashboardTotals;
+  weeks: WeeklyTrend[]; // Oldest first, including weeks without sessions
+  packs: PackPerformance[];
+  recentSessions: RecentSession[];
+}
+
+export interface DashboardTotals {
+  sessions: number;
+  wins: number;
+  winRate: number;
+  averageWpm: number | null; // null before any session has a WPM
+  averageAccuracy: number | null;
+  totalDamage: number;
+  totalHealing: number;
+  wordsTyped: number;
+  timePlayedSec: number;
+}
+
+export interface WeeklyTrend {
+  weekStart: string; // Monday, YYYY-MM-DD in UTC
+  sessions: number;
+  wins: number;
+  averageWpm: number | null; // null for weeks without sessions
+  averageAccuracy: number | null;
+}
+
+export interface PackPerformance {
+  packId: string;
+  packTitle: string | null;
+  difficulty: GameDifficulty;
+  sessions: number;
+  wins: number;
+  winRate: number;
+  averageWpm: number | null;
+  averageAccuracy: number | null;
+}
+
+export interface RecentSession {
+  sessionId: string;
+  packTitle: string | null;
+  difficulty: GameDifficulty;
+  result: SessionOutcome;
+  startedAt: string;
+  durationSec: number | null;
+  wpm: number | null;
+  accuracy: number | null;
+}
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'all-time';
+
+export interface LeaderboardQuery {
+  packId: string;
+  difficulty: GameDifficulty;
+  window: LeaderboardWindow;
+  page: number; // From 1
+  pageSize: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number; // Equal scores share a rank
+  displayName: string | null; // null when the player has not set one
+  sessionId: string; // The player's best session in the window
+  score: number; // Damage per minute
+  accuracy: number;
+  wpm: number | null;
+  damage: number;
+  durationSec: number;
+  endedAt: string;
+}
+
+export interface LeaderboardResponse {
+  packId: string;
+  difficulty: GameDifficulty;
+  window: LeaderboardWindow;
+  since: string | null; // Start of the window, null for all-time
+  entries: LeaderboardEntry[];
+  page: number;
+  pageSize: number;
+  total: number; // Ranked players in the window
+  viewer: LeaderboardEntry | null; // The caller's own entry, on any page
+}
+
+export interface ImportWordPackRequest {
+  format: PackFormat;
+  content: string; // Raw CSV or JSON file contents
+  pack: Partial<PackMetadata>; // Overrides metadata found in a JSON file
+  dryRun: boolean;
+}
+
+export interface ImportWordPackResponse {
+  packId: string | null; // null for a dry run
+  report: PackImportReport;
+  message: string;
+}
+
+// =============================================================================
+// RECORDS
+// =============================================================================
+
+export interface WordPackRecord {
+  id: string;
+  title: string;
+  isActive: boolean;
+  combatProfile?: CombatProfile | null; // null uses the default balance
+}
+
+export interface WordRecord {
+  id: string;
+  packId: string;
+  text: string;
+  level: number;
+  category?: string | null;
+}
+
+export interface SessionRecord {
+  id: string;
+  userId: string | null; // null for guest sessions
+  packId: string;
+  difficulty: GameDifficulty;
+  startedAt: string;
+  endedAt: string | null;
+  durationSec: number | null;
+  result: SessionOutcome | null;
+  stats: Partial<SessionStats>;
+  settings: SettingsSnapshot;
+  riskLevel: RiskLevel | null; // null until the session has ended
+  riskFlags: string[];
+}
+
+export interface AttemptRecord {
+  id: number;
+  sessionId: string;
+  type: ActionType;
+  wordId: string;
+  targetText: string;
+  ms: number;
+  errors: number;
+  wpm: number; // Generated by the database
+  accuracy: number;
+  score: number;
+  combo: number;
+  breakdown?: string[];
+  clientAttemptId?: string | null; // Set for attempts sent in a batch
+  createdAt: string;
+}
+
+/**
+ * A row of the session_summary view: one session with its stats, falling
+ * back to averages over its attempts
+ */
+export interface SessionSummaryRecord {
+  sessionId: string;
+  userId: string | null;
+  packId: string;
+  packTitle: string | null;
+  difficulty: GameDifficulty;
+  startedAt: string;
+  endedAt: string | null;
+  durationSec: number | null;
+  result: SessionOutcome | null;
+  avgWpm: number | null;
+  avgAcc: number | null;
+  maxCombo: number | null;
+  totalDamage: number;
+  totalHealing: number;
+  totalAttempts: number;
+}
+
+/**
+ * A row of the leaderboard_scores table: one ended session that qualifies
+ * for the leaderboards
+ */
+export interface LeaderboardScoreRecord {
+  sessionId: string;
+  userId: string;
+  packId: string;
+  difficulty: GameDifficulty;
+  endedAt: string;
+  score: number;
+  damage: number;
+  durationSec: number;
+  accuracy: number;
+  wpm: number | null;
+}
+
+export type LeaderboardEntryRecord = LeaderboardScoreRecord & {
+  rank: number;
+  displayName: string | null;
+};
+
+/**
+ * The stored response to a request sent with an Idempotency-Key header,
+ * returned again when the request is retried
+ */
+export interface IdempotentResponseRecord {
+  key: string;
+  userId: string | null; // null for guests
+  request: string; // Method and path, e.g. "POST /api/attempt"
+  status: number;
+  body: unknown;
+}
+
+export type NewSession = Pick<
+  SessionRecord,
+  'id' | 'userId' | 'packId' | 'difficulty' | 'settings' | 'startedAt'
+> & {
+  guestTokenHash: string | null; // Set for guest sessions only
+};
+
+/**
+ * A guest session to move to an account, with the hash of its guest token
+ */
+export interface GuestSessionTransfer {
+  sessionId: string;
+  guestTokenHash: string;
+}
+
+export interface LeaderboardScope {
+  packId: string;
+  difficulty: GameDifficulty;
+  since: string | null; // Sessions ended at or after this; null for all-time
+}
+
+export type NewAttempt = Omit<AttemptRecord, 'id' | 'wpm' | 'createdAt'>;
+
+/**
+ * A signed-in learner's stored progress, which seeds their sessions
+ */
+export interface LearnerData {
+  playerStats: PlayerStats;
+  reviews: WordReview[];
+  keystrokeProfile: KeystrokeProfile;
+}
+
+export interface NewWordPack {
+  title: string;
+  description: string | null;
+  lang: string;
+  tags: string[];
+  levelMin: number;
+  levelMax: number;
+  combatProfile: CombatProfile | null;
+  createdBy: string | null;
+}
+
+export interface NewWord {
+  text: string;
+  level: number;
+  category: string | null;
+  pronunciation: string | null;
+  meaning: string | null;
+}
+
+export type SessionEndUpdate = Pick<
+  SessionRecord,
+  'endedAt' | 'durationSec' | 'result' | 'stats' | 'riskLevel' | 'riskFlags'
+>;
+
+// =============================================================================
+// REPOSITORY
+// =============================================================================
+
+/**
+ * Persistence used by the API handlers
+ * Implemented against Supabase and in memory for tests
+ */
+export interface GameRepository {
+  findWordPack(packId: string): Promise<WordPackRecord | null>;
+  findWord(wordId: string): Promise<WordRecord | null>;
+  // All of a pack's words, in id order
+  listWords(packId: string): Promise<WordRecord[]>;
+  createWordPack(pack: NewWordPack, words: NewWord[]): Promise<WordPackRecord>;
+  findSession(sessionId: string): Promise<SessionRecord | null>;
+  createSession(session: NewSession): Promise<SessionRecord>;
+  // Defaults for a learner who has stored nothing yet
+  loadLearnerData(userId: string): Promise<LearnerData>;
+  // In one transaction, give each guest session whose stored token hash
+  // matches to the user; returns the ids that moved
+  claimGuestSessions(
+    userId: string,
+    transfers: GuestSessionTransfer[]
+  ): Promise<string[]>;
+  endSession(
+    sessionId: string,
+    update: SessionEndUpdate
+  ): Promise<SessionRecord>;
+  createAttempt(attempt: NewAttempt): Promise<AttemptRecord>;
+  // All in one transaction; attempts whose clientAttemptId is already stored
+  // for their session are skipped and left out of the result
+  createAttempts(attempts: NewAttempt[]): Promise<AttemptRecord[]>;
+  listAttempts(sessionId: string): Promise<AttemptRecord[]>;
+  // Ended sessions started at or after `since`, newest first
+  listSessionSummaries(
+    userId: string,
+    since: string
+  ): Promise<SessionSummaryRecord[]>;
+  // Each player's best score in the scope, ranked, from `offset`
+  listLeaderboard(
+    scope: LeaderboardScope,
+    limit: number,
+    offset: number
+  ): Promise<{ entries: LeaderboardEntryRecord[]; total: number }>;
+  findLeaderboardEntry(
+    scope: LeaderboardScope,
+    userId: string
+  ): Promise<LeaderboardEntryRecord | null>;
+  findIdempotentResponse(key: string): Promise<IdempotentResponseRecord | null>;
+  // A key that is already stored keeps its first response
+  saveIdempotentResponse(response: IdempotentResponseRecord): Promise<void>;
+}
+
+// =============================================================================
+// HANDLER CONTEXT
+// =============================================================================
+
+export interface ApiContext {
+  repository: GameRepository;
+  userId: string | null; // null for guests
+  guestToken: string | null; // X-Guest-Token header, proves a guest session
+  clock: GameClock;
+}
+
+export interface ApiResult<T> {
+  status: number;
+  body: T;
+}
@@ -0,0 +1,734 @@
+import {
+  ActionType,
+  CombatProfile,
+  GameDifficulty,
+  PromptMode,
+  SessionReplay,
+  SkillId,
+} from '../game/types';
+import { isSessionReplay, validateReplay } from '../game/replay/replayFormat';
+import {
+  getBuiltInCombatProfile,
+  validateCombatProfile,
+} from '../game/utils/combatProfile';
+import { getBuiltInCampaign } from '../game/utils/campaign';
+import { BATTLE_LENGTHS } from '../game/utils/settings';
+import { validateLoadout } from '../game/skills/skills';
+import { PackFormat, PackMetadata } from '../packs/types';
+import {
+  MAX_PHRASE_TEXT_LENGTH,
+  MAX_WORD_TEXT_LENGTH,
+  WORD_TEXT_PATTERN,
+  getMaxTextLength,
+} from '../game/utils/wordValidation';
+import { DEFAULT_DASHBOARD_WEEKS, MAX_DASHBOARD_WEEKS } from './dashboard';
+import {
+  DEFAULT_LEADERBOARD_PAGE_SIZE,
+  LEADERBOARD_WINDOWS,
+  MAX_LEADERBOARD_PAGE_SIZE,
+} from './leaderboard';
+import { ApiError, validationError } from './errors';
+import {
+  getMaxReplayKeystrokes,
+  getMaxReplayMs,
+  MAX_REPLAY_MARKERS,
+} from './sessionVerification';
+import {
+  AttemptBatchItem,
+  ClaimGuestSessionsRequest,
+  CreateSessionRequest,
+  DashboardQuery,
+  EndSessionRequest,
+  ImportWordPackRequest,
+  LeaderboardQuery,
+  RecordAttemptRequest,
+  SessionOutcome,
+  SessionStats,
+  SettingsSnapshot,
+} from './types';
+
+/**
+ * Request body validation following the schemas in docs/api/openapi.yaml
+ * Each validator returns a typed request or throws a VALIDATION_ERROR naming
+ * the first field that failed
+ */
+
+type JsonObject = Record<string, unknown>;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DIFFICULTIES: GameDifficulty[] = ['EASY', 'NORMAL', 'HARD'];
+const ATTEMPT_TYPES: ActionType[] = ['ATTACK', 'HEAL', 'GUARD'];
+const PROMPT_MODES: PromptMode[] = ['WORD', 'PHRASE'];
+const SESSION_OUTCOMES: SessionOutcome[] = ['WIN', 'LOSE', 'ABORT'];
+const THEMES = ['light', 'dark', 'high-contrast'];
+const FONT_FAMILIES = ['default', 'open-dyslexic', 'roboto-mono'];
+const PACK_FORMATS: PackFormat[] = ['csv', 'json'];
+const BATTLE_DURATIONS_SEC = BATTLE_LENGTHS.map(minutes => minutes * 60);
+const MAX_BATTLE_DURATION_SEC = Math.max(...BATTLE_DURATIONS_SEC);
+
+// About 20k words of CSV; larger packs should be split or use the CLI
+const MAX_PACK_CONTENT_LENGTH = 1_000_000;
+
+// A 10-minute battle at a fast pace stays well under this
+export const MAX_BATCH_ATTEMPTS = 500;
+
+// More than a device plausibly keeps between sign-ins
+export const MAX_GUEST_CLAIMS = 100;
+// Base64url HMAC-SHA256 tokens are 43 characters
+const MAX_GUEST_TOKEN_LENGTH = 100;
+
+// Combat breakdowns have a line per modifier, each well under this
+const MAX_BREAKDOWN_STEPS = 20;
+const MAX_BREAKDOWN_STEP_LENGTH = 200;
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// =============================================================================
+// FIELD READERS
+// =============================================================================
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+function requireObject(value: unknown, field: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw validationError(`${field} must be an object`, field, 'type', value);
+  }
+  return value as JsonObject;
+}
+
+function requireField(body: JsonObject, field: string, path = field): unknown {
+  if (body[field] === undefined || body[field] === null) {
+    throw validationError('Missing required field', path, 'required');
+  }
+  return body[field];
+}
+
+function readUuid(body: JsonObject, field: string): string {
+  const value = requireField(body, field);
+  if (!isUuid(value)) {
+    throw validationError('Invalid UUID format', field, 'format', value);
+  }
+  return value;
+}
+
+function readEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  field: string,
+  message: string
+): T {
+  if (!allowed.includes(value as T)) {
+    throw validationError(message, field, 'enum', value);
+  }
+  return value as T;
+}
+
+function readNumber(value: unknown, field: string, range: NumberRange): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw validationError(`${field} must be a number`, field, 'type', value);
+  }
+  if (range.integer && !Number.isInteger(value)) {
+    throw validationError(`${field} must be an integer`, field, 'type', value);
+  }
+  if (range.min !== undefined && value < range.min) {
+    throw validationError(
+      `${field} must be at least ${range.min}`,
+      field,
+      'minimum',
+      value
+    );
+  }
+  if (range.max !== undefined && value > range.max) {
+    throw validationError(
+      `${field} must be at most ${range.max}`,
+      field,
+      'maximum',
+      value
+    );
+  }
+  return value;
+}
+
+function readTargetText(value: unknown): string {
+  // Single words up to 50 characters, phrases up to 200
+  if (
+    typeof value !== 'string' ||
+    value.length < 1 ||
+    value.length > getMaxTextLength(value)
+  ) {
+    throw validationError(
+      `targetText must be 1-${MAX_WORD_TEXT_LENGTH} characters (${MAX_PHRASE_TEXT_LENGTH} for phrases)`,
+      'targetText',
+      'length',
+      value
+    );
+  }
+  if (!WORD_TEXT_PATTERN.test(value)) {
+    throw validationError(
+      'targetText contains unsupported characters',
+      'targetText',
+      'pattern',
+      value
+    );
+  }
+  return value;
+}
+
+function readBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw validationError(`${field} must be a boolean`, field, 'type', value);
+  }
+  return value;
+}
+
+function readString(value: unknown, field: string, maxLength: number): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw validationError(
+      `${field} must be a non-empty string`,
+      field,
+      'type',
+      value
+    );
+  }
+  if (value.length > maxLength) {
+    throw validationError(
+      `${field} must be at most ${maxLength} characters`,
+      field,
+      'length'
+    );
+  }
+  return value.trim();
+}
+
+/**
+ * A built-in profile id such as "prd-mvp", or a full custom profile
+ */
+function readCombatProfile(value: unknown, field: string): CombatProfile {
+  if (typeof value === 'string') {
+    const profile = getBuiltInCombatProfile(value);
+    if (!profile) {
+      throw validationError('Unknown combat profile', field, 'enum', value);
+    }
+    return profile;
+  }
+
+  const validation = validateCombatProfile(value);
+  if (!validation.valid) {
+    throw validationError(
+      `Invalid combat profile: ${validation.errors[0]}`,
+      field,
+      'combatProfile'
+    );
+  }
+  return value as CombatProfile;
+}
+
+/**
+ * Skills equipped for a session, at most three and each once
+ */
+function readSkills(value: unknown, field: string): SkillId[] {
+  const validation = validateLoadout(value);
+  if (!validation.valid) {
+    throw validationError(
+      `Invalid skills: ${validation.errors[0]}`,
+      field,
+      'skills'
+    );
+  }
+  return value as SkillId[];
+}
+
+/**
+ * A built-in campaign id; custom campaigns cannot be verified
+ */
+function readCampaignId(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !getBuiltInCampaign(value)) {
+    throw validationError('Unknown campaign', field, 'enum', value);
+  }
+  return value;
+}
+
+/**
+ * Battle length in seconds, one of the lengths the settings offer
+ */
+function readBattleDuration(value: unknown, field: string): number {
+  if (!BATTLE_DURATIONS_SEC.includes(value as number)) {
+    throw validationError(
+      `${field} must be one of ${BATTLE_DURATIONS_SEC.join(', ')}`,
+      field,
+      'enum',
+      value
+    );
+  }
+  return value as number;
+}
+
+/**
+ * Combat calculation steps recorded with an attempt
+ */
+function readBreakdown(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length > MAX_BREAKDOWN_STEPS) {
+    throw validationError(
+      `breakdown must be an array of at most ${MAX_BREAKDOWN_STEPS} strings`,
+      'breakdown',
+      'type',
+      value
+    );
+  }
+  return value.map((step, index) =>
+    readString(step, `breakdown[${index}]`, MAX_BREAKDOWN_STEP_LENGTH)
+  );
+}
+
+// =============================================================================
+// REQUEST VALIDATORS
+// =============================================================================
+
+export function validateCreateSessionRequest(
+  input: unknown
+): CreateSessionRequest {
+  const body = requireObject(input, 'body');
+
+  const request: CreateSessionRequest = {
+    packId: readUuid(body, 'packId'),
+    difficulty: readEnum(
+      requireField(body, 'difficulty'),
+      DIFFICULTIES,
+      'difficulty',
+      'Invalid difficulty level'
+    ),
+  };
+
+  if (body.settingsSnapshot !== undefined) {
+    request.settingsSnapshot = validateSettingsSnapshot(body.settingsSnapshot);
+  }
+  if (body.combatProfile !== undefined) {
+    request.combatProfile = readCombatProfile(
+      body.combatProfile,
+      'combatProfile'
+    );
+  }
+  if (body.skills !== undefined) {
+    request.skills = readSkills(body.skills, 'skills');
+  }
+  if (body.durationSec !== undefined) {
+    request.durationSec = readBattleDuration(body.durationSec, 'durationSec');
+  }
+  if (body.promptMode !== undefined) {
+    request.promptMode = readEnum(
+      body.promptMode,
+      PROMPT_MODES,
+      'promptMode',
+      'Invalid prompt mode'
+    );
+  }
+  if (body.campaignId !== undefined) {
+    request.campaignId = readCampaignId(body.campaignId, 'campaignId');
+  }
+  if (body.adaptiveDifficulty !== undefined) {
+    request.adaptiveDifficulty = readBoolean(
+      body.adaptiveDifficulty,
+      'adaptiveDifficulty'
+    );
+  }
+
+  return request;
+}
+
+function validateSettingsSnapshot(input: unknown): SettingsSnapshot {
+  const settings = requireObject(input, 'settingsSnapshot');
+  const field = (name: string) => `settingsSnapshot.${name}`;
+
+  if (settings.theme !== undefined) {
+    readEnum(settings.theme, THEMES, field('theme'), 'Invalid theme');
+  }
+  if (settings.fontSize !== undefined) {
+    readNumber(settings.fontSize, field('fontSize'), {
+      min: 12,
+      max: 24,
+      integer: true,
+    });
+  }
+  if (settings.soundEnabled !== undefined) {
+    readBoolean(settings.soundEnabled, field('soundEnabled'));
+  }
+  if (settings.accessibilityMode !== undefined) {
+    readBoolean(settings.accessibilityMode, field('accessibilityMode'));
+  }
+  if (settings.fontFamily !== undefined) {
+    readEnum(
+      settings.fontFamily,
+      FONT_FAMILIES,
+      field('fontFamily'),
+      'Invalid font family'
+    );
+  }
+
+  // Unknown keys are allowed (additionalProperties: true)
+  return settings as SettingsSnapshot;
+}
+
+export function validateRecordAttemptRequest(
+  input: unknown
+): RecordAttemptRequest {
+  const body = requireObject(input, 'body');
+
+  return {
+    sessionId: readUuid(body, 'sessionId'),
+    ...readAttemptFields(body),
+  };
+}
+
+/**
+ * The session and raw items of a batch; each item is validated on its own
+ * with validateAttemptBatchItem so one bad item does not reject the rest
+ */
+export function validateRecordAttemptBatchRequest(input: unknown): {
+  sessionId: string;
+  attempts: unknown[];
+} {
+  const body = requireObject(input, 'body');
+  const sessionId = readUuid(body, 'sessionId');
+  const attempts = requireField(body, 'attempts');
+
+  if (
+    !Array.isArray(attempts) ||
+    attempts.length < 1 ||
+    attempts.length > MAX_BATCH_ATTEMPTS
+  ) {
+    throw validationError(
+      `attempts must be an array of 1-${MAX_BATCH_ATTEMPTS} attempts`,
+      'attempts',
+      'length'
+    );
+  }
+
+  return { sessionId, attempts };
+}
+
+/**
+ * One item of a batch; errors name the field as attempts[index].field
+ */
+export function validateAttemptBatchItem(
+  input: unknown,
+  index: number
+): AttemptBatchItem {
+  const path = `attempts[${index}]`;
+  const body = requireObject(input, path);
+
+  try {
+    return {
+      clientAttemptId: readUuid(body, 'clientAttemptId'),
+      ...readAttemptFields(body),
+    };
+  } catch (error) {
+    if (error instanceof ApiError && typeof error.details?.field === 'string') {
+      throw new ApiError(error.code, error.message, {
+        ...error.details,
+        field: `${path}.${error.details.field}`,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fields shared by single and batched attempts, following the attempts
+ * table constraints
+ */
+function readAttemptFields(
+  body: JsonObject
+): Omit<RecordAttemptRequest, 'sessionId'> {
+  return {
+    type: readEnum(
+      requireField(body, 'type'),
+      ATTEMPT_TYPES,
+      'type',
+      'Invalid attempt type'
+    ),
+    wordId: readUuid(body, 'wordId'),
+    targetText: readTargetText(requireField(body, 'targetText')),
+    ms: readNumber(requireField(body, 'ms'), 'ms', {
+      min: 1,
+      max: 60000,
+      integer: true,
+    }),
+    errors: readNumber(body.errors ?? 0, 'errors', { min: 0, integer: true }),
+    accuracy: readNumber(requireField(body, 'accuracy'), 'accuracy', {
+      min: 0,
+      max: 1,
+    }),
+    score: readNumber(requireField(body, 'score'), 'score', {
+      min: 0,
+      integer: true,
+    }),
+    combo: readNumber(body.combo ?? 0, 'combo', { min: 0, integer: true }),
+    ...(body.breakdown !== undefined && {
+      breakdown: readBreakdown(body.breakdown),
+    }),
+  };
+}
+
+export function validateEndSessionRequest(input: unknown): EndSessionRequest {
+  const body = requireObject(input, 'body');
+
+  return {
+    sessionId: readUuid(body, 'sessionId'),
+    result: readEnum(
+      requireField(body, 'result'),
+      SESSION_OUTCOMES,
+      'result',
+      'Invalid session result'
+    ),
+    durationSec: readNumber(requireField(body, 'durationSec'), 'durationSec', {
+      min: 1,
+      max: 3600,
+      integer: true,
+    }),
+    stats: validateSessionStats(requireField(body, 'stats')),
+    ...(body.replay !== undefined && {
+      replay: validateSessionReplay(body.replay),
+    }),
+  };
+}
+
+function validateSessionReplay(input: unknown): SessionReplay {
+  const replay = requireObject(input, 'replay');
+
+  if (!isSessionReplay(replay)) {
+    throw validationError(
+      `Invalid replay: ${validateReplay(replay).errors[0]}`,
+      'replay',
+      'format'
+    );
+  }
+
+  // The session's own battle length is checked during verification; no
+  // replay may be longer than the longest battle
+  const maxDurationMs = getMaxReplayMs(MAX_BATTLE_DURATION_SEC);
+  const maxKeystrokes = getMaxReplayKeystrokes(MAX_BATTLE_DURATION_SEC);
+  if (replay.durationMs > maxDurationMs) {
+    throw validationError(
+      `replay.durationMs must be at most ${maxDurationMs}`,
+      'replay.durationMs',
+      'maximum',
+      replay.durationMs
+    );
+  }
+  if (replay.keystrokes.length > maxKeystrokes) {
+    throw validationError(
+      `replay.keystrokes must have at most ${maxKeystrokes} items`,
+      'replay.keystrokes',
+      'maxItems'
+    );
+  }
+  if (replay.markers.length > MAX_REPLAY_MARKERS) {
+    throw validationError(
+      `replay.markers must have at most ${MAX_REPLAY_MARKERS} items`,
+      'replay.markers',
+      'maxItems'
+    );
+  }
+
+  // Without the seed the crits and word order cannot be reproduced
+  if (replay.sessionSeed.rngSeed === undefined) {
+    throw validationError(
+      'Missing required field',
+      'replay.sessionSeed.rngSeed',
+      'required'
+    );
+  }
+
+  return replay;
+}
+
+function validateSessionStats(input: unknown): SessionStats {
+  const stats = requireObject(input, 'stats');
+  const read = (name: keyof SessionStats, range: NumberRange) =>
+    readNumber(
+      requireField(stats, name, `stats.${name}`),
+      `stats.${name}`,
+      range
+    );
+
+  return {
+    wpm: read('wpm', { min: 0 }),
+    acc: read('acc', { min: 0, max: 1 }),
+    comboMax: read('comboMax', { min: 0, integer: true }),
+    atkCount: read('atkCount', { min: 0, integer: true }),
+    healCount: read('healCount', { min: 0, integer: true }),
+    guardRate: read('guardRate', { min: 0, max: 1 }),
+    damage: read('damage', { min: 0, integer: true }),
+    damageTaken: read('damageTaken', { min: 0, integer: true }),
+  };
+}
+
+/**
+ * Guest sessions to claim; errors name the field as sessions[index].field
+ */
+export function validateClaimGuestSessionsRequest(
+  input: unknown
+): ClaimGuestSessionsRequest {
+  const body = requireObject(input, 'body');
+  const sessions = requireField(body, 'sessions');
+
+  if (
+    !Array.isArray(sessions) ||
+    sessions.length < 1 ||
+    sessions.length > MAX_GUEST_CLAIMS
+  ) {
+    throw validationError(
+      `sessions must be an array of 1-${MAX_GUEST_CLAIMS} sessions`,
+      'sessions',
+      'length'
+    );
+  }
+
+  return {
+    sessions: sessions.map((input, index) => {
+      const path = `sessions[${index}]`;
+      const item = requireObject(input, path);
+
+      const sessionId = requireField(item, 'sessionId', `${path}.sessionId`);
+      if (!isUuid(sessionId)) {
+        throw validationError(
+          'Invalid UUID format',
+          `${path}.sessionId`,
+          'format',
+          sessionId
+        );
+      }
+
+      return {
+        sessionId,
+        guestToken: readString(
+          requireField(item, 'guestToken', `${path}.guestToken`),
+          `${path}.guestToken`,
+          MAX_GUEST_TOKEN_LENGTH
+        ),
+      };
+    }),
+  };
+}
+
+export function validateImportWordPackRequest(
+  input: unknown
+): ImportWordPackRequest {
+  const body = requireObject(input, 'body');
+
+  return {
+    format: readEnum(
+      requireField(body, 'format'),
+      PACK_FORMATS,
+      'format',
+      'Invalid pack format'
+    ),
+    content: readString(
+      requireField(body, 'content'),
+      'content',
+      MAX_PACK_CONTENT_LENGTH
+    ),
+    pack: body.pack === undefined ? {} : validatePackMetadata(body.pack),
+    dryRun:
+      body.dryRun === undefined ? false : readBoolean(body.dryRun, 'dryRun'),
+  };
+}
+
+/**
+ * Query parameters arrive as strings; numbers are parsed before checking
+ */
+export function validateDashboardQuery(query: URLSearchParams): DashboardQuery {
+  const weeks = query.get('weeks');
+
+  return {
+    weeks:
+      weeks === null
+        ? DEFAULT_DASHBOARD_WEEKS
+        : readNumber(Number(weeks), 'weeks', {
+            min: 1,
+            max: MAX_DASHBOARD_WEEKS,
+            integer: true,
+          }),
+  };
+}
+
+export function validateLeaderboardQuery(
+  query: URLSearchParams
+): LeaderboardQuery {
+  const params: JsonObject = Object.fromEntries(query);
+  const page = query.get('page');
+  const pageSize = query.get('pageSize');
+
+  return {
+    packId: readUuid(params, 'packId'),
+    difficulty: readEnum(
+      requireField(params, 'difficulty'),
+      DIFFICULTIES,
+      'difficulty',
+      'Invalid difficulty level'
+    ),
+    window: readEnum(
+      params.window ?? 'weekly',
+      LEADERBOARD_WINDOWS,
+      'window',
+      'Invalid leaderboard window'
+    ),
+    page:
+      page === null
+        ? 1
+        : readNumber(Number(page), 'page', { min: 1, integer: true }),
+    pageSize:
+      pageSize === null
+        ? DEFAULT_LEADERBOARD_PAGE_SIZE
+        : readNumber(Number(pageSize), 'pageSize', {
+            min: 1,
+            max: MAX_LEADERBOARD_PAGE_SIZE,
+            integer: true,
+          }),
+  };
+}
+
+function validatePackMetadata(input: unknown): Partial<PackMetadata> {
+  const body = requireObject(input, 'pack');
+  const pack: Partial<PackMetadata> = {};
+
+  if (body.title !== undefined) {
+    pack.title = readString(body.title, 'pack.title', 200);
+  }
+  if (body.description !== undefined) {
+    pack.description = readString(body.description, 'pack.description', 2000);
+  }
+  if (body.lang !== undefined) {
+    pack.lang = readString(body.lang, 'pack.lang', 10);
+  }
+  if (body.tags !== undefined) {
+    if (
+      !Array.isArray(body.tags) ||
+      !body.tags.every(tag => typeof tag === 'string')
+    ) {
+      throw validationError(
+        'pack.tags must be an array of strings',
+        'pack.tags',
+        'type',
+        body.tags
+      );
+    }
+    pack.tags = body.tags;
+  }
+  if (body.combatProfile !== undefined) {
+    pack.combatProfile = readCombatProfile(
+      body.combatProfile,
+      'pack.combatProfile'
+    );
+  }
+
+  return pack;
+}
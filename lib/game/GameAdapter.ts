@@ -9,7 +9,58 @@ import {
   HealResult,
   GuardResult,
   PerformanceMetrics,
+  SessionReplay,
+  ReplayPlaybackOptions,
+  CombatProfile,
+  Campaign,
+  CampaignResult,
+  EnemyAbility,
+  EnemyStatus,
+  ActionType,
+  SkillState,
+  ActionResult,
+  StatusEffect,
+  StatusEffectTarget,
+  StatusEffectType,
+  StatusEffectUnit,
+  DifficultyEstimate,
+  WordLock,
 } from './types';
+import { GameClock, systemClock } from './utils/clock';
+import { DEFAULT_COMBAT_PROFILE, validateCombatProfile } from './utils/combatProfile';
+import {
+  DEFAULT_ENEMY,
+  createCampaignResult,
+  getStageState,
+  validateCampaign,
+} from './utils/campaign';
+import { EnemyBehaviours, INITIAL_ENEMY_STATUS } from './enemies/EnemyBehaviours';
+import { applySkills, chargeSkills, getTypingFeats, validateLoadout } from './skills/skills';
+import { CombatConfig } from './utils/combatCalculations';
+import {
+  NO_STATUS_EFFECTS,
+  STATUS_EFFECT_TARGETS,
+  addStatusEffect,
+  getDamageTakenMultiplier,
+  getStatusEffectsForResult,
+  hasStatusEffect,
+  tickStatusEffects,
+} from './effects/statusEffects';
+import {
+  AdaptiveDifficulty,
+  validateAdaptiveDifficultySettings,
+} from './utils/adaptiveDifficulty';
+
+export type ActiveWordLock = Exclude<WordLock, null>;
+
+export const LOCK_ACTION_TYPES: Record<ActiveWordLock, ActionType> = {
+  attack: 'ATTACK',
+  heal: 'HEAL',
+  guard: 'GUARD',
+};
+
+// Guard is checked first so a pending guard word wins ties on the first letter
+const LOCK_PRIORITY: ActiveWordLock[] = ['guard', 'attack', 'heal'];
 
 /**
  * Abstract base class for all game adapters
@@ -22,11 +73,24 @@ export abstract class GameAdapter {
   protected mounted = false;
   protected running = false;
   protected element: HTMLElement | null = null;
+  protected clock: GameClock = systemClock;
 
   // Event listeners storage
   protected eventListeners: Map<GameEvent, Set<(data: any) => void>> = new Map();
   protected stateSubscribers: Set<(state: GameState) => void> = new Set();
 
+  // Runs the current enemy's behaviours; adapters attach it when a session starts
+  protected enemyBehaviours = new EnemyBehaviours({
+    on: (event, callback) => this.on(event, callback),
+    getState: () => this.state,
+    now: () => this.clock.now(),
+    useAbility: ability => this.applyEnemyAbility(ability),
+    clearScramble: () => this.setEnemyStatus({ scrambledUntil: null }),
+  });
+
+  // Set when a session starts with adaptive difficulty on
+  protected adaptiveDifficulty: AdaptiveDifficulty | null = null;
+
   constructor() {
     this.state = this.createInitialState();
     this.initializeEventSystem();
@@ -51,6 +115,15 @@ export abstract class GameAdapter {
   abstract executeHeal(wordData: CompletedWord): Promise<HealResult>;
   abstract executeGuard(wordData: CompletedWord): Promise<GuardResult>;
 
+  // =============================================================================
+  // REPLAY PLAYBACK (Abstract - adapter specific timing)
+  // =============================================================================
+
+  abstract playReplay(
+    replay: SessionReplay,
+    options?: ReplayPlaybackOptions
+  ): Promise<void>;
+
   // =============================================================================
   // PERFORMANCE MONITORING (Abstract - adapter specific)
   // =============================================================================
@@ -162,9 +235,17 @@ export abstract class GameAdapter {
         guardCount: 0,
         maxCombo: 0,
         wordsCompleted: 0,
+        damageTaken: 0,
+        damageBlocked: 0,
       },
       timeLeft: 300, // 5 minutes default
       round: 1,
+      enemyAttack: null,
+      enemy: DEFAULT_ENEMY,
+      stage: null,
+      enemyStatus: INITIAL_ENEMY_STATUS,
+      skills: [],
+      statusEffects: NO_STATUS_EFFECTS,
     };
   }
 
@@ -179,8 +260,19 @@ export abstract class GameAdapter {
       'damage-dealt',
       'healing-applied',
       'guard-executed',
+      'enemy-telegraph',
       'enemy-attack',
+      'stage-cleared',
+      'enemy-ability',
+      'skill-charged',
+      'skill-used',
+      'status-effect-applied',
+      'status-effect-tick',
+      'status-effect-expired',
+      'difficulty-adjusted',
       'combo-changed',
+      'keystroke',
+      'typing-progress',
       'game-over',
       'session-ended',
       'error'
@@ -216,6 +308,337 @@ export abstract class GameAdapter {
     if (!sessionSeed.packId) {
       throw new Error('GameAdapter: SessionSeed packId is required');
     }
+    if (sessionSeed.combatProfile) {
+      const validation = validateCombatProfile(sessionSeed.combatProfile);
+      if (!validation.valid) {
+        throw new Error(`GameAdapter: Invalid combat profile: ${validation.errors[0]}`);
+      }
+    }
+    if (sessionSeed.campaign) {
+      const validation = validateCampaign(sessionSeed.campaign);
+      if (!validation.valid) {
+        throw new Error(`GameAdapter: Invalid campaign: ${validation.errors[0]}`);
+      }
+    }
+    if (sessionSeed.skills) {
+      const validation = validateLoadout(sessionSeed.skills);
+      if (!validation.valid) {
+        throw new Error(`GameAdapter: Invalid skills: ${validation.errors[0]}`);
+      }
+    }
+    if (sessionSeed.playerStats) {
+      const { level } = sessionSeed.playerStats;
+      if (!Number.isInteger(level) || level < 1) {
+        throw new Error('GameAdapter: SessionSeed playerStats level must be a whole number of at least 1');
+      }
+    }
+    if (typeof sessionSeed.adaptiveDifficulty === 'object') {
+      const validation = validateAdaptiveDifficultySettings(sessionSeed.adaptiveDifficulty);
+      if (!validation.valid) {
+        throw new Error(`GameAdapter: Invalid adaptive difficulty: ${validation.errors[0]}`);
+      }
+    }
+  }
+
+  /**
+   * Balance profile for the current session's combat calculations
+   */
+  protected getCombatProfile(): CombatProfile {
+    return this.sessionSeed?.combatProfile ?? DEFAULT_COMBAT_PROFILE;
+  }
+
+  /**
+   * Player's stored level, 1 for players without stats
+   */
+  protected getPlayerLevel(): number {
+    return this.sessionSeed?.playerStats?.level ?? 1;
+  }
+
+  /**
+   * Offered word a first keystroke locks onto, if any
+   */
+  protected findWordToLock(key: string): ActiveWordLock | null {
+    for (const lockType of LOCK_PRIORITY) {
+      const word = this.state.currentWords[lockType];
+      if (word && word.text.startsWith(key)) {
+        return lockType;
+      }
+    }
+    return null;
+  }
+
+  // =============================================================================
+  // CAMPAIGN (Protected)
+  // =============================================================================
+
+  /**
+   * Campaign being played, null for a single battle
+   */
+  protected getCampaign(): Campaign | null {
+    return this.sessionSeed?.campaign ?? null;
+  }
+
+  /**
+   * Enemy, stage and HP for fighting a campaign stage
+   * A single battle always fights DEFAULT_ENEMY; the player's HP and status
+   * effects carry over
+   */
+  protected createEnemyState(
+    stageIndex = 0
+  ): Pick<GameState, 'enemy' | 'stage' | 'hp' | 'enemyStatus' | 'statusEffects'> {
+    const campaign = this.getCampaign();
+    const enemy = campaign ? campaign.stages[stageIndex].enemy : DEFAULT_ENEMY;
+
+    return {
+      enemy,
+      stage: campaign ? getStageState(campaign, stageIndex) : null,
+      hp: { ...this.state.hp, enemy: enemy.maxHp, enemyMax: enemy.maxHp },
+      enemyStatus: INITIAL_ENEMY_STATUS,
+      statusEffects: { player: this.state.statusEffects.player, enemy: [] },
+    };
+  }
+
+  protected hasNextStage(): boolean {
+    const { stage } = this.state;
+    return stage !== null && stage.index + 1 < stage.total;
+  }
+
+  /**
+   * Bring on the next stage's enemy; any telegraphed attack is called off
+   * Adapters override this to reset their attack timing and input
+   */
+  protected startNextStage(): void {
+    const stage = this.state.stage!;
+    const next = this.createEnemyState(stage.index + 1);
+
+    this.setState({
+      ...next,
+      enemyAttack: null,
+      currentWords: { ...this.state.currentWords, guard: undefined },
+    });
+
+    this.emit('stage-cleared', { stage, nextStage: next.stage! });
+  }
+
+  protected getCampaignResult(): CampaignResult | undefined {
+    if (!this.state.stage) return undefined;
+    return createCampaignResult(this.state.stage, this.state.hp.enemy <= 0);
+  }
+
+  // =============================================================================
+  // ENEMY BEHAVIOURS (Protected)
+  // =============================================================================
+
+  /**
+   * Take the share the enemy's shield blocks off an attack before it lands,
+   * from its damage, the enemy's HP after it and the attempt's score
+   */
+  protected shieldAttack(result: AttackResult): AttackResult {
+    const damageDealt = this.enemyBehaviours.shieldDamage(result.damageDealt, result.word);
+    if (damageDealt === result.damageDealt) return result;
+
+    return {
+      ...result,
+      value: damageDealt,
+      damageDealt,
+      enemyHpAfter: Math.max(0, result.enemyHpBefore - damageDealt),
+    };
+  }
+
+  /**
+   * Apply an ability fired by one of the enemy's behaviours
+   * Adapters override this to speed up their attack scheduler on enrage
+   */
+  protected applyEnemyAbility(ability: EnemyAbility): void {
+    const { hp } = this.state;
+
+    switch (ability.type) {
+      case 'enrage':
+        this.setEnemyStatus({ enraged: true });
+        break;
+      case 'shield':
+        // Already taken off the hit before it landed, see shieldAttack
+        break;
+      case 'regenerate':
+        this.setState({
+          hp: { ...hp, enemy: Math.min(hp.enemyMax, hp.enemy + ability.healed) },
+        });
+        break;
+      case 'scramble':
+        this.setEnemyStatus({ scrambledUntil: this.clock.now() + ability.durationMs });
+        break;
+    }
+
+    this.emit('enemy-ability', { enemyId: this.state.enemy.id, ability });
+  }
+
+  protected setEnemyStatus(updates: Partial<EnemyStatus>): void {
+    this.setState({ enemyStatus: { ...this.state.enemyStatus, ...updates } });
+  }
+
+  // =============================================================================
+  // SKILLS (Protected)
+  // =============================================================================
+
+  /**
+   * Add the equipped skills to an action's combat config, spending the
+   * charges of any active skills it uses
+   */
+  protected withSkills(config: CombatConfig, action: ActionType): CombatConfig {
+    const applied = applySkills(this.state.skills, action, config);
+
+    if (applied.spent.length > 0) {
+      this.setSkillStates(applied.skills);
+      applied.spent.forEach(skillId => this.emit('skill-used', { skillId, action }));
+    }
+    return applied.config;
+  }
+
+  /**
+   * Charge active skills from the typing feats of a completed word
+   */
+  protected recordTypingFeats(word: CompletedWord, oldCombo: number): void {
+    const feats = getTypingFeats(word, oldCombo, this.state.combo);
+    const { skills, charged } = chargeSkills(this.state.skills, feats);
+
+    if (charged.length > 0) {
+      this.setSkillStates(skills);
+      charged.forEach(data => this.emit('skill-charged', data));
+    }
+  }
+
+  protected setSkillStates(skills: SkillState[]): void {
+    this.setState({ skills });
+  }
+
+  // =============================================================================
+  // STATUS EFFECTS (Protected)
+  // =============================================================================
+
+  protected applyStatusEffect(target: StatusEffectTarget, type: StatusEffectType): void {
+    const { effects, effect } = addStatusEffect(this.state.statusEffects[target], type);
+
+    this.setStatusEffects(target, effects);
+    this.emit('status-effect-applied', { target, effect });
+  }
+
+  /**
+   * Count down a completed word and apply the effects of its action
+   */
+  protected recordStatusEffects(result: ActionResult): void {
+    this.tickStatusEffects('words');
+    getStatusEffectsForResult(result).forEach(({ target, type }) =>
+      this.applyStatusEffect(target, type)
+    );
+  }
+
+  /**
+   * Run one second or one completed word of the effects on both sides
+   * Adapters call this from their game timer once a second
+   */
+  protected tickStatusEffects(unit: StatusEffectUnit): void {
+    if (this.state.status !== 'PLAYING') return;
+
+    let hpChanged = false;
+    for (const target of STATUS_EFFECT_TARGETS) {
+      const current = this.state.statusEffects[target];
+      if (current.length === 0) continue;
+
+      const { effects, ticks, expired } = tickStatusEffects(current, unit);
+      ticks.forEach(({ type, hpChange }) => {
+        const applied = this.applyEffectHpChange(target, hpChange);
+        hpChanged = hpChanged || applied !== 0;
+        this.emit('status-effect-tick', { target, type, hpChange: applied, hp: this.state.hp[target] });
+      });
+
+      // Effects measured in the other unit are passed through unchanged
+      const counted = effects.length !== current.length || effects.some((effect, i) => effect !== current[i]);
+      if (counted) {
+        this.setStatusEffects(target, effects);
+      }
+      expired.forEach(type => this.emit('status-effect-expired', { target, type }));
+    }
+
+    // Damage over time can decide the battle
+    if (hpChanged) {
+      this.checkGameOver();
+    }
+  }
+
+  /**
+   * A stunned player cannot type and a stunned enemy holds its attacks
+   */
+  protected isStunned(target: StatusEffectTarget): boolean {
+    return hasStatusEffect(this.state.statusEffects[target], 'stun');
+  }
+
+  /**
+   * Add the enemy's vulnerability to an attack's combat config
+   */
+  protected withStatusEffects(config: CombatConfig, action: ActionType): CombatConfig {
+    if (action !== 'ATTACK') return config;
+
+    const targetMultiplier = getDamageTakenMultiplier(this.state.statusEffects.enemy);
+    return targetMultiplier === 1 ? config : { ...config, targetMultiplier };
+  }
+
+  /**
+   * Damage of an enemy attack after the player's vulnerability
+   */
+  protected getIncomingDamage(damage: number): number {
+    return Math.round(damage * getDamageTakenMultiplier(this.state.statusEffects.player));
+  }
+
+  protected setStatusEffects(target: StatusEffectTarget, effects: StatusEffect[]): void {
+    this.setState({ statusEffects: { ...this.state.statusEffects, [target]: effects } });
+  }
+
+  /**
+   * Apply a damage or heal over time tick, returning the change after HP limits
+   * Poison on the enemy counts as damage dealt, on the player as damage taken
+   */
+  protected applyEffectHpChange(target: StatusEffectTarget, hpChange: number): number {
+    const { hp, stats } = this.state;
+    const current = target === 'player' ? hp.player : hp.enemy;
+    const max = target === 'player' ? hp.playerMax : hp.enemyMax;
+    const next = Math.max(0, Math.min(max, current + hpChange));
+    const change = next - current;
+
+    const statsUpdate =
+      target === 'enemy'
+        ? { totalDamage: stats.totalDamage - Math.min(0, change) }
+        : change < 0
+          ? { damageTaken: stats.damageTaken - change }
+          : { totalHealing: stats.totalHealing + change };
+
+    this.setState({
+      hp: target === 'player' ? { ...hp, player: next } : { ...hp, enemy: next },
+      stats: { ...stats, ...statsUpdate },
+    });
+    return change;
+  }
+
+  // =============================================================================
+  // ADAPTIVE DIFFICULTY (Protected)
+  // =============================================================================
+
+  /**
+   * Let adaptive difficulty assess a completed word, announcing any adjustment
+   */
+  protected recordDifficulty(word: CompletedWord): void {
+    if (!this.adaptiveDifficulty) return;
+
+    const adjustment = this.adaptiveDifficulty.record(word);
+    if (adjustment) {
+      this.emit('difficulty-adjusted', { adjustment, estimate: this.adaptiveDifficulty.getEstimate() });
+    }
+  }
+
+  /**
+   * Shift for the next word selection, if adaptive difficulty is on
+   */
+  protected getDifficultyShift(): { level: number; length: number } | undefined {
+    return this.adaptiveDifficulty?.getShift();
   }
 
   // =============================================================================
@@ -245,16 +668,37 @@ export abstract class GameAdapter {
     });
   }
 
+  /**
+   * WPM and accuracy as the average over the words completed so far
+   */
+  protected updateTypingStats(attempts: CompletedWord[]): void {
+    const count = attempts.length;
+    if (count === 0) return;
+
+    const totalWPM = attempts.reduce((sum, word) => sum + word.wpm, 0);
+    const totalAccuracy = attempts.reduce((sum, word) => sum + word.accuracy, 0);
+
+    this.updateStats({
+      wpm: Math.round((totalWPM / count) * 100) / 100,
+      accuracy: totalAccuracy / count,
+    });
+  }
+
   protected checkGameOver(): void {
     if (this.state.hp.player <= 0) {
       this.setState({ status: 'ENDED' });
       this.emit('game-over', { result: 'LOSE', finalStats: this.state.stats });
     } else if (this.state.hp.enemy <= 0) {
+      if (this.hasNextStage()) {
+        this.startNextStage();
+        return;
+      }
       this.setState({ status: 'ENDED' });
       this.emit('game-over', { result: 'WIN', finalStats: this.state.stats });
     } else if (this.state.timeLeft <= 0) {
       this.setState({ status: 'ENDED' });
-      const result = this.state.hp.player > this.state.hp.enemy ? 'WIN' : 'LOSE';
+      // A campaign is only won by clearing every stage
+      const result = !this.state.stage && this.state.hp.player > this.state.hp.enemy ? 'WIN' : 'LOSE';
       this.emit('game-over', { result, finalStats: this.state.stats });
     }
   }
@@ -284,6 +728,17 @@ export abstract class GameAdapter {
     return this.sessionSeed;
   }
 
+  getClock(): GameClock {
+    return this.clock;
+  }
+
+  /**
+   * Adaptive difficulty's current estimate and reasons, or null when it is off
+   */
+  getDifficultyEstimate(): DifficultyEstimate | null {
+    return this.adaptiveDifficulty?.getEstimate() ?? null;
+  }
+
   // =============================================================================
   // CLEANUP
   // =============================================================================
@@ -297,6 +752,7 @@ export abstract class GameAdapter {
     this.state = this.createInitialState();
     this.config = null;
     this.sessionSeed = null;
+    this.adaptiveDifficulty = null;
     this.mounted = false;
     this.running = false;
     this.element = null;
@@ -0,0 +1,913 @@
+import { ActiveWordLock, GameAdapter, LOCK_ACTION_TYPES } from './GameAdapter';
+import {
+  GameConfig,
+  GameState,
+  SessionSeed,
+  SessionResult,
+  CompletedWord,
+  ActionResult,
+  AttackResult,
+  HealResult,
+  GuardResult,
+  PerformanceMetrics,
+  SessionReplay,
+  ActionType,
+  GameValidationRules,
+  Word,
+  EnemyAbility,
+  StatusEffect,
+  StatusEffectTarget,
+} from './types';
+import { GameStateManager } from './state/GameStateManager';
+import { EventBus } from './events/EventBus';
+import { WordManager, WordSelectionOptions } from './utils/wordManager';
+import { InputValidator, TypingSession } from './utils/inputValidator';
+import {
+  CombatConfig,
+  calculateAttackDamage,
+  calculateHealingAmount,
+  calculateGuardEffectiveness,
+  createAttackResult,
+  createHealResult,
+  createGuardResult,
+} from './utils/combatCalculations';
+import { ManualClock } from './utils/clock';
+import {
+  EnemyAttackProfile,
+  EnemyAttackScheduler,
+  ScheduledEnemyAttack,
+  getEnemyAttackProfile,
+} from './utils/enemyAttackScheduler';
+import {
+  RandomSource,
+  createSessionRandom,
+  defaultRandom,
+} from './utils/random';
+import { getReplaySteps, validateReplay } from './replay/replayFormat';
+import { getPhraseProgress, isTypeableCharacter } from './utils/phrase';
+import { createSkillStates } from './skills/skills';
+import { NO_STATUS_EFFECTS } from './effects/statusEffects';
+import { createAdaptiveDifficulty } from './utils/adaptiveDifficulty';
+
+/**
+ * Renderer-free implementation of GameAdapter
+ * Runs the full battle loop against a manually driven clock so complete
+ * sessions can be scripted in unit tests and balance simulations
+ */
+
+export interface HeadlessAdapterOptions {
+  clock?: ManualClock;
+  validationRules?: Partial<GameValidationRules>;
+  enemyAttack?: Partial<EnemyAttackProfile>; // Overrides the difficulty profile
+}
+
+const TICK_INTERVAL_MS = 100;
+
+export class HeadlessAdapter extends GameAdapter {
+  protected clock: ManualClock;
+  private stateManager: GameStateManager;
+  private eventBus: EventBus;
+  private wordManager: WordManager | null = null;
+  private inputValidator: InputValidator;
+  private currentTypingSession: TypingSession | null = null;
+  private enemyAttackScheduler: EnemyAttackScheduler | null = null;
+  private enemyAttackOverrides: Partial<EnemyAttackProfile>;
+  private random: RandomSource = defaultRandom;
+
+  // Input handling
+  private inputBuffer = '';
+
+  // Session timing
+  private startedAt = 0;
+  private lastTimerTick = 0;
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+
+  // Session results
+  private attempts: CompletedWord[] = [];
+  private actions: ActionResult[] = [];
+  private gameOverResult: 'WIN' | 'LOSE' | null = null;
+  private sessionResult: SessionResult | null = null;
+
+  constructor(options: HeadlessAdapterOptions = {}) {
+    super();
+
+    this.clock = options.clock || new ManualClock();
+    this.enemyAttackOverrides = options.enemyAttack || {};
+
+    this.eventBus = new EventBus({
+      enableLogging: false,
+      maxListeners: 100,
+    });
+
+    this.stateManager = new GameStateManager(
+      this.createInitialState(),
+      this.eventBus,
+      {
+        enableHistory: false,
+        validateTransitions: true,
+        enableLogging: false,
+      }
+    );
+
+    this.inputValidator = new InputValidator(
+      options.validationRules,
+      this.clock
+    );
+
+    this.setupEventListeners();
+  }
+
+  // =============================================================================
+  // LIFECYCLE METHODS
+  // =============================================================================
+
+  async mount(element: HTMLElement | null, config: GameConfig): Promise<void> {
+    try {
+      this.validateConfig(config);
+
+      this.config = config;
+      this.element = element;
+      this.mounted = true;
+
+      this.setState({ status: 'READY', timeLeft: config.durationSec });
+    } catch (error) {
+      this.emit('error', { error: error as Error, context: 'mount' });
+      throw error;
+    }
+  }
+
+  async start(sessionSeed: SessionSeed): Promise<void> {
+    try {
+      if (!this.mounted || !this.config) {
+        throw new Error(
+          'HeadlessAdapter: mount() must be called before start()'
+        );
+      }
+
+      this.validateSessionSeed(sessionSeed);
+      this.sessionSeed = sessionSeed;
+
+      this.random = createSessionRandom(sessionSeed);
+      this.wordManager = new WordManager(sessionSeed, this.random);
+      this.adaptiveDifficulty = createAdaptiveDifficulty(
+        sessionSeed.adaptiveDifficulty
+      );
+      this.inputValidator.reset();
+
+      this.startedAt = this.clock.now();
+      this.lastTimerTick = this.startedAt;
+      this.pausedAt = null;
+      this.pausedMs = 0;
+      this.attempts = [];
+      this.actions = [];
+      this.gameOverResult = null;
+      this.sessionResult = null;
+
+      this.setState({
+        status: 'PLAYING',
+        timeLeft: this.config.durationSec,
+        ...this.createEnemyState(),
+        skills: createSkillStates(sessionSeed.skills ?? []),
+        statusEffects: NO_STATUS_EFFECTS,
+      });
+
+      this.selectNewWords();
+      this.enemyBehaviours.attach();
+      this.startEnemyAttacks();
+      this.running = true;
+    } catch (error) {
+      this.emit('error', { error: error as Error, context: 'start' });
+      throw error;
+    }
+  }
+
+  pause(): void {
+    if (this.state.status === 'PLAYING') {
+      this.pausedAt = this.clock.now();
+      this.enemyAttackScheduler?.pause(this.pausedAt);
+      this.setState({ status: 'PAUSED' });
+    }
+  }
+
+  resume(): void {
+    if (this.state.status === 'PAUSED') {
+      // Shift the timer so paused time is not counted against the player
+      if (this.pausedAt !== null) {
+        const pausedFor = this.clock.now() - this.pausedAt;
+        this.lastTimerTick += pausedFor;
+        this.pausedMs += pausedFor;
+        this.pausedAt = null;
+      }
+      this.enemyAttackScheduler?.resume(this.clock.now());
+      this.setState({ status: 'PLAYING' });
+      this.holdEnemyAttacksWhileStunned();
+    }
+  }
+
+  destroy(): void {
+    this.running = false;
+
+    this.stateManager.destroy();
+    this.eventBus.destroy();
+    this.inputValidator.reset();
+    this.wordManager?.reset();
+    this.wordManager = null;
+    this.enemyAttackScheduler?.stop();
+    this.enemyAttackScheduler = null;
+    this.currentTypingSession = null;
+    this.inputBuffer = '';
+
+    this.cleanup();
+  }
+
+  // =============================================================================
+  // TIME CONTROL
+  // =============================================================================
+
+  /**
+   * Advance the game clock, running the game timer in small steps
+   */
+  advanceTime(ms: number): void {
+    let remaining = ms;
+    while (remaining > 0) {
+      const step = Math.min(TICK_INTERVAL_MS, remaining);
+      this.clock.advance(step);
+      this.update();
+      remaining -= step;
+    }
+  }
+
+  /**
+   * Process timer work due at the clock's current time
+   */
+  update(): void {
+    if (this.state.status !== 'PLAYING') return;
+
+    this.processEnemyAttacks();
+    if (this.state.status !== 'PLAYING') return;
+
+    const elapsedSeconds = Math.floor(
+      (this.clock.now() - this.lastTimerTick) / 1000
+    );
+    if (elapsedSeconds <= 0) return;
+
+    this.lastTimerTick += elapsedSeconds * 1000;
+    this.setState({
+      timeLeft: Math.max(0, this.state.timeLeft - elapsedSeconds),
+    });
+
+    for (let i = 0; i < elapsedSeconds; i++) {
+      this.tickStatusEffects('seconds');
+    }
+
+    if (this.state.status === 'PLAYING' && this.state.timeLeft <= 0) {
+      this.checkGameOver();
+    }
+  }
+
+  // =============================================================================
+  // GAME ACTIONS
+  // =============================================================================
+
+  async processKeystroke(key: string): Promise<void> {
+    if (!this.isRunning()) {
+      return;
+    }
+
+    this.emit('keystroke', {
+      key,
+      timestamp: this.clock.now(),
+      inputLength: this.inputBuffer.length,
+      isCorrection: key === 'Backspace',
+    });
+
+    // A stunned player's keystrokes do nothing
+    if (this.isStunned('player')) {
+      return;
+    }
+
+    try {
+      if (key === 'Backspace') {
+        this.handleBackspace();
+        return;
+      }
+
+      if (key === 'Enter') {
+        await this.handleEnterKey();
+        return;
+      }
+
+      // Same character set the Phaser adapter accepts
+      if (isTypeableCharacter(key)) {
+        await this.handleCharacterInput(key);
+      }
+    } catch (error) {
+      this.emit('error', {
+        error: error as Error,
+        context: 'processKeystroke',
+      });
+    }
+  }
+
+  /**
+   * Type a string one key at a time, advancing the clock between keys
+   */
+  async typeText(text: string, msPerKey: number = 150): Promise<void> {
+    for (const key of text) {
+      this.advanceTime(msPerKey);
+      await this.processKeystroke(key);
+    }
+  }
+
+  // =============================================================================
+  // REPLAY PLAYBACK
+  // =============================================================================
+
+  /**
+   * Replay a recorded session instantly against the manual clock
+   * Mounts and starts the adapter from the replay, so it must be fresh
+   */
+  async playReplay(replay: SessionReplay): Promise<void> {
+    const validation = validateReplay(replay);
+    if (!validation.valid) {
+      throw new Error(
+        `HeadlessAdapter: Invalid replay: ${validation.errors.join('; ')}`
+      );
+    }
+    if (this.state.status !== 'LOADING' && this.state.status !== 'READY') {
+      throw new Error(
+        'HeadlessAdapter: playReplay() needs an adapter that has not started'
+      );
+    }
+
+    await this.mount(this.element, replay.config);
+    await this.start(replay.sessionSeed);
+
+    // isRunning() is false while paused, so only stop once the session ends
+    for (const step of getReplaySteps(replay)) {
+      if (!this.running) break;
+
+      this.advanceTime(this.startedAt + step.at - this.clock.now());
+
+      if (step.type === 'keystroke') {
+        await this.processKeystroke(step.key);
+      } else if (step.type === 'pause') {
+        this.pause();
+      } else {
+        this.resume();
+      }
+    }
+
+    if (this.running) {
+      this.advanceTime(this.startedAt + replay.durationMs - this.clock.now());
+    }
+  }
+
+  async executeAttack(wordData: CompletedWord): Promise<AttackResult> {
+    try {
+      const calculation = calculateAttackDamage(
+        wordData,
+        this.createCombatConfig('ATTACK')
+      );
+      const result = this.shieldAttack(
+        createAttackResult(
+          wordData,
+          calculation,
+          this.state.hp.enemy,
+          this.state.combo + (calculation.isCritical ? 2 : 1),
+          this.getCombatProfile()
+        )
+      );
+
+      this.applyActionResult(result);
+
+      this.emit('action-executed', { result });
+      this.emit('damage-dealt', {
+        damage: result.damageDealt,
+        critical: result.critical,
+        enemyHp: result.enemyHpAfter,
+        word: wordData,
+      });
+
+      return result;
+    } catch (error) {
+      this.emit('error', { error: error as Error, context: 'executeAttack' });
+      throw error;
+    }
+  }
+
+  async executeHeal(wordData: CompletedWord): Promise<HealResult> {
+    try {
+      const calculation = calculateHealingAmount(
+        wordData,
+        this.createCombatConfig('HEAL')
+      );
+      const result = createHealResult(
+        wordData,
+        calculation,
+        this.state.hp.player,
+        this.state.hp.playerMax,
+        this.state.combo + (calculation.isCritical ? 2 : 1),
+        this.getCombatProfile()
+      );
+
+      this.applyActionResult(result);
+
+      this.emit('action-executed', { result });
+      this.emit('healing-applied', {
+        healing: result.healingDone,
+        critical: result.critical,
+        playerHp: result.playerHpAfter,
+      });
+
+      return result;
+    } catch (error) {
+      this.emit('error', { error: error as Error, context: 'executeHeal' });
+      throw error;
+    }
+  }
+
+  async executeGuard(wordData: CompletedWord): Promise<GuardResult> {
+    try {
+      const incomingDamage = this.state.enemyAttack?.damage ?? 0;
+      const calculation = calculateGuardEffectiveness(
+        wordData,
+        incomingDamage,
+        this.createCombatConfig('GUARD')
+      );
+      const result = createGuardResult(
+        wordData,
+        calculation,
+        incomingDamage,
+        this.state.combo + (calculation.isCritical ? 2 : 1),
+        this.getCombatProfile()
+      );
+
+      this.applyActionResult(result);
+
+      this.emit('action-executed', { result });
+      this.emit('guard-executed', {
+        blocked: result.blocked,
+        damageBlocked: result.damageBlocked,
+      });
+
+      // The guard resolves the telegraphed attack before it lands
+      if (this.enemyAttackScheduler?.resolvePendingAttack()) {
+        this.resolveEnemyAttack(
+          result.damageReceived,
+          incomingDamage - result.damageReceived,
+          true
+        );
+      }
+
+      return result;
+    } catch (error) {
+      this.emit('error', { error: error as Error, context: 'executeGuard' });
+      throw error;
+    }
+  }
+
+  // =============================================================================
+  // PERFORMANCE MONITORING
+  // =============================================================================
+
+  getPerformanceMetrics(): PerformanceMetrics {
+    // Nothing is rendered, so there is no frame data to report
+    return {
+      fps: 0,
+      averageFPS: 0,
+      memoryUsage: 0,
+      renderTime: 0,
+      updateTime: 0,
+    };
+  }
+
+  // =============================================================================
+  // PUBLIC HELPER METHODS
+  // =============================================================================
+
+  isMounted(): boolean {
+    return this.mounted;
+  }
+
+  getClock(): ManualClock {
+    return this.clock;
+  }
+
+  getInputBuffer(): string {
+    return this.inputBuffer;
+  }
+
+  getAttempts(): CompletedWord[] {
+    return [...this.attempts];
+  }
+
+  getSessionResult(): SessionResult | null {
+    return this.sessionResult;
+  }
+
+  getAntiCheatReport(): ReturnType<InputValidator['getSessionReport']> {
+    return this.inputValidator.getSessionReport();
+  }
+
+  getEnemyAttackScheduler(): EnemyAttackScheduler | null {
+    return this.enemyAttackScheduler;
+  }
+
+  // =============================================================================
+  // INPUT HANDLING
+  // =============================================================================
+
+  private async handleCharacterInput(key: string): Promise<void> {
+    if (!this.state.locked) {
+      const lockType = this.findWordToLock(key);
+      if (!lockType) {
+        return; // Key does not start any of the offered words
+      }
+      this.lockWord(lockType);
+    }
+
+    this.inputBuffer += key;
+
+    if (this.currentTypingSession) {
+      this.currentTypingSession = this.inputValidator.updateTypingSession(
+        this.currentTypingSession,
+        key,
+        this.inputBuffer
+      );
+    }
+
+    this.emitTypingProgress();
+
+    const targetWord = this.getCurrentTargetWord();
+    if (targetWord && this.inputBuffer === targetWord.text) {
+      await this.completeCurrentWord();
+    }
+  }
+
+  private handleBackspace(): void {
+    if (this.inputBuffer.length === 0) return;
+
+    this.inputBuffer = this.inputBuffer.slice(0, -1);
+
+    if (this.currentTypingSession) {
+      this.currentTypingSession = this.inputValidator.updateTypingSession(
+        this.currentTypingSession,
+        'Backspace',
+        this.inputBuffer
+      );
+    }
+
+    this.emitTypingProgress();
+  }
+
+  private emitTypingProgress(): void {
+    const word = this.getCurrentTargetWord();
+    if (!word || !this.state.locked) return;
+
+    this.emit('typing-progress', {
+      word,
+      type: LOCK_ACTION_TYPES[this.state.locked],
+      input: this.inputBuffer,
+      progress: getPhraseProgress(word.text, this.inputBuffer),
+    });
+  }
+
+  private async handleEnterKey(): Promise<void> {
+    if (this.getCurrentTargetWord() && this.inputBuffer.length > 0) {
+      await this.completeCurrentWord();
+    }
+  }
+
+  // =============================================================================
+  // WORD MANAGEMENT
+  // =============================================================================
+
+  private selectNewWords(): void {
+    if (!this.wordManager || !this.config) return;
+
+    const selection = this.wordManager.selectWords(
+      this.createWordSelectionOptions()
+    );
+
+    // Guard words only appear while an enemy attack is telegraphed
+    this.stateManager.updateCurrentWords({
+      attack: selection.attack,
+      heal: selection.heal,
+      guard: this.state.enemyAttack?.guardWord,
+    });
+  }
+
+  private createWordSelectionOptions(): WordSelectionOptions {
+    return {
+      difficulty: this.config!.difficulty,
+      playerLevel: this.getPlayerLevel(),
+      round: this.state.round,
+      timeRemaining: this.state.timeLeft,
+      previousWords: [],
+      avoidRecentWords: true,
+      levelBias: this.state.enemy.levelBias,
+      categories: this.state.enemy.categories,
+      difficultyShift: this.getDifficultyShift(),
+    };
+  }
+
+  private lockWord(lockType: ActiveWordLock): void {
+    const word = this.state.currentWords[lockType] as Word;
+    const actionType = LOCK_ACTION_TYPES[lockType];
+
+    this.stateManager.setWordLock(lockType);
+    this.currentTypingSession = this.inputValidator.createTypingSession(
+      word,
+      actionType
+    );
+
+    this.emit('word-started', { word, type: actionType });
+  }
+
+  private getCurrentTargetWord(): Word | null {
+    if (!this.state.locked) return null;
+    return this.state.currentWords[this.state.locked] || null;
+  }
+
+  private async completeCurrentWord(): Promise<void> {
+    if (!this.currentTypingSession || !this.state.locked) return;
+
+    const completedSession = this.inputValidator.completeTypingSession(
+      this.currentTypingSession
+    );
+    const metrics = this.inputValidator.validateCompletedWord(completedSession);
+    const completedWord = this.inputValidator.createCompletedWord(
+      completedSession,
+      metrics
+    );
+
+    const oldCombo = this.state.combo;
+    let result: ActionResult;
+    switch (LOCK_ACTION_TYPES[this.state.locked]) {
+      case 'ATTACK':
+        result = await this.executeAttack(completedWord);
+        break;
+      case 'HEAL':
+        result = await this.executeHeal(completedWord);
+        break;
+      case 'GUARD':
+        result = await this.executeGuard(completedWord);
+        break;
+    }
+    this.recordTypingFeats(completedWord, oldCombo);
+    this.recordStatusEffects(result);
+    this.recordDifficulty(completedWord);
+
+    this.attempts.push(completedWord);
+    this.actions.push(result);
+    this.inputBuffer = '';
+    this.currentTypingSession = null;
+    this.stateManager.setWordLock(null);
+    this.updateTypingStats(this.attempts);
+
+    this.emit('word-completed', { completedWord, result });
+
+    this.checkGameOver();
+    if (this.state.status === 'PLAYING') {
+      this.setState({ round: this.state.round + 1 });
+      this.selectNewWords();
+    }
+  }
+
+  // =============================================================================
+  // ENEMY ATTACKS
+  // =============================================================================
+
+  private startEnemyAttacks(): void {
+    this.enemyAttackScheduler = new EnemyAttackScheduler({
+      ...getEnemyAttackProfile(this.config!.difficulty, this.state.enemy),
+      ...this.enemyAttackOverrides,
+    });
+    this.enemyAttackScheduler.start(this.clock.now());
+  }
+
+  /**
+   * An enraged enemy attacks more often from its next attack on
+   */
+  protected applyEnemyAbility(ability: EnemyAbility): void {
+    super.applyEnemyAbility(ability);
+
+    if (ability.type === 'enrage' && this.enemyAttackScheduler) {
+      const { intervalMs } = this.enemyAttackScheduler.getProfile();
+      this.enemyAttackScheduler.setIntervalMs(
+        Math.round(intervalMs * ability.intervalMultiplier)
+      );
+    }
+  }
+
+  private processEnemyAttacks(): void {
+    if (!this.enemyAttackScheduler) return;
+
+    const now = this.clock.now();
+    for (const { phase, attack } of this.enemyAttackScheduler.update(now)) {
+      if (phase === 'telegraph') {
+        this.openGuardWindow(attack, now);
+      } else {
+        this.landEnemyAttack(attack);
+      }
+
+      if (this.state.status !== 'PLAYING') return;
+    }
+
+    const enemyAttack = this.state.enemyAttack;
+    const etaMs = this.enemyAttackScheduler.getTimeUntilImpact(now);
+    if (enemyAttack && etaMs !== null && etaMs !== enemyAttack.etaMs) {
+      this.setState({ enemyAttack: { ...enemyAttack, etaMs } });
+    }
+  }
+
+  private openGuardWindow(attack: ScheduledEnemyAttack, now: number): void {
+    if (!this.wordManager) return;
+
+    const { attack: attackWord, heal } = this.state.currentWords;
+    const guardWord = this.wordManager.selectGuardWord(
+      this.createWordSelectionOptions(),
+      [attackWord, heal]
+    );
+    const etaMs = Math.max(0, attack.impactAt - now);
+    const damage = this.getIncomingDamage(attack.damage);
+
+    this.stateManager.setEnemyAttack({
+      damage,
+      etaMs,
+      telegraphMs: attack.impactAt - attack.telegraphAt,
+      guardWord,
+    });
+
+    this.emit('enemy-telegraph', { damage, etaMs, guardWord });
+  }
+
+  private landEnemyAttack(attack: ScheduledEnemyAttack): void {
+    // A half-typed guard word no longer has anything to block
+    if (this.state.locked === 'guard') {
+      this.inputBuffer = '';
+      this.currentTypingSession = null;
+      this.stateManager.setWordLock(null);
+    }
+
+    this.resolveEnemyAttack(this.getIncomingDamage(attack.damage), 0, false);
+    this.checkGameOver();
+  }
+
+  private resolveEnemyAttack(
+    damageTaken: number,
+    damageBlocked: number,
+    guarded: boolean
+  ): void {
+    this.stateManager.setEnemyAttack(null);
+    this.stateManager.applyEnemyAttack(damageTaken, damageBlocked);
+
+    this.emit('enemy-attack', {
+      damage: damageTaken,
+      playerHp: this.state.hp.player,
+      guarded,
+    });
+  }
+
+  // =============================================================================
+  // STATUS EFFECTS
+  // =============================================================================
+
+  protected setStatusEffects(
+    target: StatusEffectTarget,
+    effects: StatusEffect[]
+  ): void {
+    super.setStatusEffects(target, effects);
+    if (target === 'enemy') {
+      this.holdEnemyAttacksWhileStunned();
+    }
+  }
+
+  /**
+   * A stunned enemy's attack timer stands still until the stun wears off
+   */
+  private holdEnemyAttacksWhileStunned(): void {
+    if (!this.enemyAttackScheduler || this.state.status !== 'PLAYING') return;
+
+    if (this.isStunned('enemy')) {
+      this.enemyAttackScheduler.pause(this.clock.now());
+    } else {
+      this.enemyAttackScheduler.resume(this.clock.now());
+    }
+  }
+
+  // =============================================================================
+  // CAMPAIGN
+  // =============================================================================
+
+  /**
+   * The next enemy starts its own attack cycle from now
+   */
+  protected startNextStage(): void {
+    super.startNextStage();
+    this.startEnemyAttacks();
+  }
+
+  // =============================================================================
+  // GAME LOGIC
+  // =============================================================================
+
+  private createCombatConfig(action: ActionType): CombatConfig {
+    const config = this.withSkills(
+      {
+        difficulty: this.config!.difficulty,
+        playerLevel: this.getPlayerLevel(),
+        combo: this.state.combo,
+        timeRemaining: this.state.timeLeft,
+        totalTime: this.config!.durationSec,
+        random: this.random,
+        profile: this.getCombatProfile(),
+      },
+      action
+    );
+    return this.withStatusEffects(config, action);
+  }
+
+  private applyActionResult(result: ActionResult): void {
+    const oldCombo = this.state.combo;
+    this.stateManager.applyActionResult(result);
+
+    if (result.combo !== oldCombo) {
+      this.emit('combo-changed', { oldCombo, newCombo: result.combo });
+    }
+  }
+
+  protected checkGameOver(): void {
+    if (this.sessionResult) return;
+
+    super.checkGameOver();
+
+    if (this.gameOverResult) {
+      this.endSession(this.gameOverResult);
+    }
+  }
+
+  private endSession(result: SessionResult['result']): void {
+    this.running = false;
+    this.enemyAttackScheduler?.stop();
+
+    const activeMs = this.clock.now() - this.startedAt - this.pausedMs;
+
+    this.sessionResult = {
+      sessionId: this.sessionSeed?.sessionId || this.config!.sessionId,
+      result,
+      finalStats: { ...this.state.stats },
+      duration: Math.round(activeMs / 1000),
+      attempts: [...this.attempts],
+      actions: [...this.actions],
+      campaign: this.getCampaignResult(),
+      difficulty: this.getDifficultyEstimate() ?? undefined,
+    };
+
+    this.emit('session-ended', { sessionResult: this.sessionResult });
+  }
+
+  // =============================================================================
+  // STATE SYNCHRONISATION
+  // =============================================================================
+
+  /**
+   * Route base-class state updates through the state manager so it stays
+   * the single source of truth
+   */
+  protected setState(updates: Partial<GameState>): void {
+    const validation = this.stateManager.updateState(updates, 'adapter');
+    if (!validation.valid) {
+      this.emit('error', {
+        error: new Error(validation.errors.join('; ')),
+        context: 'setState',
+      });
+    }
+  }
+
+  private setupEventListeners(): void {
+    this.eventBus.on(
+      'state-change',
+      ({ oldState, newState }) => {
+        this.state = newState;
+
+        this.stateSubscribers.forEach(callback => {
+          try {
+            callback(newState);
+          } catch (error) {
+            console.error('Error in state subscriber:', error);
+          }
+        });
+
+        this.emit('state-change', { oldState, newState });
+      },
+      { context: 'HeadlessAdapter' }
+    );
+
+    this.on('game-over', ({ result }) => {
+      this.gameOverResult = result;
+    });
+  }
+}
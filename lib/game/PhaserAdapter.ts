@@ -1,17 +1,26 @@
-import { GameAdapter } from './GameAdapter';
+import { ActiveWordLock, GameAdapter, LOCK_ACTION_TYPES } from './GameAdapter';
 import {
   GameConfig,
+  GameState,
   SessionSeed,
   CompletedWord,
   AttackResult,
   HealResult,
   GuardResult,
   PerformanceMetrics,
-  ActionType,
+  SessionReplay,
+  ReplayPlaybackOptions,
+  ActionResult,
+  Word,
+  EnemyAbility,
+  EnemyStatus,
+  SkillState,
+  StatusEffect,
+  StatusEffectTarget,
 } from './types';
 import { GameStateManager } from './state/GameStateManager';
 import { EventBus } from './events/EventBus';
-import { WordManager } from './utils/wordManager';
+import { WordManager, WordSelectionOptions } from './utils/wordManager';
 import { InputValidator, TypingSession } from './utils/inputValidator';
 import {
   calculateAttackDamage,
@@ -21,6 +30,23 @@ import {
   createHealResult,
   createGuardResult,
 } from './utils/combatCalculations';
+import {
+  EnemyAttackScheduler,
+  ScheduledEnemyAttack,
+  getEnemyAttackProfile,
+} from './utils/enemyAttackScheduler';
+import {
+  RandomSource,
+  createSessionRandom,
+  defaultRandom,
+  generateRngSeed,
+} from './utils/random';
+import { ScaledClock, systemClock } from './utils/clock';
+import { getReplaySteps, validateReplay } from './replay/replayFormat';
+import { getPhraseProgress, isTypeableCharacter } from './utils/phrase';
+import { createSkillStates } from './skills/skills';
+import { NO_STATUS_EFFECTS } from './effects/statusEffects';
+import { createAdaptiveDifficulty } from './utils/adaptiveDifficulty';
 // GameScene will be imported dynamically with Phaser
 import { PerformanceMonitor } from './utils/performanceMonitor';
 
@@ -37,13 +63,24 @@ export class PhaserAdapter extends GameAdapter {
   private wordManager: WordManager | null = null;
   private inputValidator: InputValidator;
   private currentTypingSession: TypingSession | null = null;
+  private attempts: CompletedWord[] = [];
   private performanceMonitor: PerformanceMonitor;
+  private enemyAttackScheduler: EnemyAttackScheduler | null = null;
+  private enemyAttackTimer: ReturnType<typeof setInterval> | null = null;
+  private gameTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTimerTick = 0;
+  private pausedAt: number | null = null;
+  private random: RandomSource = defaultRandom;
 
   // Input handling
   private inputBuffer = '';
   private keyboardEnabled = false;
   private resizeObserver: ResizeObserver | null = null;
 
+  // Replay playback
+  private replayMode = false;
+  private replayTimers: ReturnType<typeof setTimeout>[] = [];
+
   constructor() {
     super();
 
@@ -65,7 +102,11 @@ export class PhaserAdapter extends GameAdapter {
       }
     );
 
-    this.inputValidator = new InputValidator();
+    // Delegate so the validator follows the clock when a replay swaps it
+    this.inputValidator = new InputValidator(
+      {},
+      { now: () => this.clock.now() }
+    );
     this.performanceMonitor = new PerformanceMonitor();
 
     this.setupEventListeners();
@@ -215,16 +256,33 @@ export class PhaserAdapter extends GameAdapter {
   async start(sessionSeed: SessionSeed): Promise<void> {
     try {
       this.validateSessionSeed(sessionSeed);
-      this.sessionSeed = sessionSeed;
 
-      // Initialize word manager
-      this.wordManager = new WordManager(sessionSeed);
+      // Always seed the session so it can be recorded and replayed
+      this.sessionSeed = {
+        ...sessionSeed,
+        rngSeed: sessionSeed.rngSeed ?? generateRngSeed(),
+      };
+
+      this.attempts = [];
+
+      // Initialize word manager with the session's random source
+      this.random = createSessionRandom(this.sessionSeed);
+      this.wordManager = new WordManager(this.sessionSeed, this.random);
+      this.adaptiveDifficulty = createAdaptiveDifficulty(this.sessionSeed.adaptiveDifficulty);
 
       // Set up initial game state
       this.setState({
         status: 'PLAYING',
         timeLeft: this.config?.durationSec || 300,
       });
+      this.stateManager.updateState(
+        {
+          ...this.createEnemyState(),
+          skills: createSkillStates(this.sessionSeed.skills ?? []),
+          statusEffects: NO_STATUS_EFFECTS,
+        },
+        'stage-start'
+      );
 
       // Select initial words
       this.selectNewWords();
@@ -235,6 +293,10 @@ export class PhaserAdapter extends GameAdapter {
       // Start game timer
       this.startGameTimer();
 
+      // Start enemy attacks and behaviours
+      this.enemyBehaviours.attach();
+      this.startEnemyAttacks();
+
       this.running = true;
       console.log('PhaserAdapter started');
     } catch (error) {
@@ -245,9 +307,13 @@ export class PhaserAdapter extends GameAdapter {
   }
 
   pause(): void {
+    this.processDueEvents();
+
     if (this.state.status === 'PLAYING') {
+      this.pausedAt = this.clock.now();
       this.setState({ status: 'PAUSED' });
       this.disableInput();
+      this.enemyAttackScheduler?.pause(this.clock.now());
 
       if (this.gameScene) {
         this.gameScene.scene.pause();
@@ -257,8 +323,15 @@ export class PhaserAdapter extends GameAdapter {
 
   resume(): void {
     if (this.state.status === 'PAUSED') {
+      // Shift the timer so paused time is not counted against the player
+      if (this.pausedAt !== null) {
+        this.lastTimerTick += this.clock.now() - this.pausedAt;
+        this.pausedAt = null;
+      }
       this.setState({ status: 'PLAYING' });
       this.enableInput();
+      this.enemyAttackScheduler?.resume(this.clock.now());
+      this.holdEnemyAttacksWhileStunned();
 
       if (this.gameScene) {
         this.gameScene.scene.resume();
@@ -273,6 +346,13 @@ export class PhaserAdapter extends GameAdapter {
     // Stop performance monitoring
     this.stopPerformanceMonitoring();
 
+    // Stop the game timer and enemy attacks
+    this.stopGameTimer();
+    this.stopEnemyAttacks();
+
+    // Cancel any replay still playing
+    this.clearReplayTimers();
+
     // Clean up resize observer
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
@@ -309,6 +389,24 @@ export class PhaserAdapter extends GameAdapter {
       return;
     }
 
+    // Catch up on attacks the poll has not reached yet, as a replay would
+    this.processDueEvents();
+    if (!this.isRunning()) {
+      return;
+    }
+
+    this.emit('keystroke', {
+      key,
+      timestamp: this.clock.now(),
+      inputLength: this.inputBuffer.length,
+      isCorrection: key === 'Backspace',
+    });
+
+    // A stunned player's keystrokes do nothing
+    if (this.isStunned('player')) {
+      return;
+    }
+
     try {
       // Handle special keys
       if (key === 'Backspace') {
@@ -321,9 +419,9 @@ export class PhaserAdapter extends GameAdapter {
         return;
       }
 
-      // Handle regular character input (only English letters and space)
-      if (/^[a-zA-Z ]$/.test(key)) {
-        this.handleCharacterInput(key);
+      // Handle regular character input (letters, space and punctuation)
+      if (isTypeableCharacter(key)) {
+        await this.handleCharacterInput(key);
       }
     } catch (error) {
       this.emit('error', {
@@ -333,23 +431,101 @@ export class PhaserAdapter extends GameAdapter {
     }
   }
 
+  // =============================================================================
+  // REPLAY PLAYBACK
+  // =============================================================================
+
+  /**
+   * Play a recorded session back on screen, optionally sped up
+   * Resolves once the recorded duration has elapsed
+   */
+  async playReplay(
+    replay: SessionReplay,
+    options: ReplayPlaybackOptions = {}
+  ): Promise<void> {
+    if (!this.mounted || !this.config) {
+      throw new Error(
+        'PhaserAdapter: mount() must be called before playReplay()'
+      );
+    }
+
+    const validation = validateReplay(replay);
+    if (!validation.valid) {
+      throw new Error(
+        `PhaserAdapter: Invalid replay: ${validation.errors.join('; ')}`
+      );
+    }
+
+    const speed = options.speed ?? 1;
+    this.clearReplayTimers();
+    this.config = {
+      ...this.config,
+      sessionId: replay.config.sessionId,
+      difficulty: replay.config.difficulty,
+      durationSec: replay.config.durationSec,
+    };
+    this.clock = new ScaledClock(speed);
+    this.replayMode = true;
+
+    await this.start(replay.sessionSeed);
+
+    return new Promise(resolve => {
+      for (const step of getReplaySteps(replay)) {
+        this.replayTimers.push(
+          setTimeout(() => {
+            if (step.type === 'keystroke') {
+              this.processKeystroke(step.key);
+            } else if (step.type === 'pause') {
+              this.pause();
+            } else {
+              this.resume();
+            }
+          }, step.at / speed)
+        );
+      }
+
+      this.replayTimers.push(
+        setTimeout(() => {
+          this.clearReplayTimers();
+          resolve();
+        }, replay.durationMs / speed)
+      );
+    });
+  }
+
+  private clearReplayTimers(): void {
+    this.replayTimers.forEach(timer => clearTimeout(timer));
+    this.replayTimers = [];
+    this.replayMode = false;
+    this.clock = systemClock;
+  }
+
   async executeAttack(wordData: CompletedWord): Promise<AttackResult> {
     try {
-      const config = {
-        difficulty: this.config!.difficulty,
-        playerLevel: 1, // TODO: Get from player stats
-        combo: this.state.combo,
-        timeRemaining: this.state.timeLeft,
-        totalTime: this.config!.durationSec,
-      };
+      const config = this.withStatusEffects(
+        this.withSkills(
+          {
+            difficulty: this.config!.difficulty,
+            playerLevel: this.getPlayerLevel(),
+            combo: this.state.combo,
+            timeRemaining: this.state.timeLeft,
+            totalTime: this.config!.durationSec,
+            random: this.random,
+            profile: this.getCombatProfile(),
+          },
+          'ATTACK'
+        ),
+        'ATTACK'
+      );
 
       const calculation = calculateAttackDamage(wordData, config);
-      const result = createAttackResult(
+      const result = this.shieldAttack(createAttackResult(
         wordData,
         calculation,
         this.state.hp.enemy,
-        this.state.combo + (calculation.isCritical ? 2 : 1)
-      );
+        this.state.combo + (calculation.isCritical ? 2 : 1),
+        this.getCombatProfile()
+      ));
 
       // Apply result to state
       await this.stateManager.applyActionResult(result);
@@ -363,6 +539,7 @@ export class PhaserAdapter extends GameAdapter {
         damage: result.damageDealt,
         critical: result.critical,
         enemyHp: result.enemyHpAfter,
+        word: wordData,
       });
 
       return result;
@@ -374,13 +551,18 @@ export class PhaserAdapter extends GameAdapter {
 
   async executeHeal(wordData: CompletedWord): Promise<HealResult> {
     try {
-      const config = {
-        difficulty: this.config!.difficulty,
-        playerLevel: 1,
-        combo: this.state.combo,
-        timeRemaining: this.state.timeLeft,
-        totalTime: this.config!.durationSec,
-      };
+      const config = this.withSkills(
+        {
+          difficulty: this.config!.difficulty,
+          playerLevel: this.getPlayerLevel(),
+          combo: this.state.combo,
+          timeRemaining: this.state.timeLeft,
+          totalTime: this.config!.durationSec,
+          random: this.random,
+          profile: this.getCombatProfile(),
+        },
+        'HEAL'
+      );
 
       const calculation = calculateHealingAmount(wordData, config);
       const result = createHealResult(
@@ -388,7 +570,8 @@ export class PhaserAdapter extends GameAdapter {
         calculation,
         this.state.hp.player,
         this.state.hp.playerMax,
-        this.state.combo + (calculation.isCritical ? 2 : 1)
+        this.state.combo + (calculation.isCritical ? 2 : 1),
+        this.getCombatProfile()
       );
 
       // Apply result to state
@@ -414,14 +597,19 @@ export class PhaserAdapter extends GameAdapter {
 
   async executeGuard(wordData: CompletedWord): Promise<GuardResult> {
     try {
-      const incomingDamage = 25; // TODO: Calculate based on enemy attack
-      const config = {
-        difficulty: this.config!.difficulty,
-        playerLevel: 1,
-        combo: this.state.combo,
-        timeRemaining: this.state.timeLeft,
-        totalTime: this.config!.durationSec,
-      };
+      const incomingDamage = this.state.enemyAttack?.damage ?? 0;
+      const config = this.withSkills(
+        {
+          difficulty: this.config!.difficulty,
+          playerLevel: this.getPlayerLevel(),
+          combo: this.state.combo,
+          timeRemaining: this.state.timeLeft,
+          totalTime: this.config!.durationSec,
+          random: this.random,
+          profile: this.getCombatProfile(),
+        },
+        'GUARD'
+      );
 
       const calculation = calculateGuardEffectiveness(
         wordData,
@@ -432,7 +620,8 @@ export class PhaserAdapter extends GameAdapter {
         wordData,
         calculation,
         incomingDamage,
-        this.state.combo + (calculation.isCritical ? 2 : 1)
+        this.state.combo + (calculation.isCritical ? 2 : 1),
+        this.getCombatProfile()
       );
 
       // Apply result to state
@@ -441,15 +630,6 @@ export class PhaserAdapter extends GameAdapter {
       // Update combo
       this.updateCombo(result.combo);
 
-      // Apply remaining damage if guard wasn't perfect
-      if (result.damageReceived > 0) {
-        const newPlayerHp = Math.max(
-          0,
-          this.state.hp.player - result.damageReceived
-        );
-        await this.stateManager.updateHP({ player: newPlayerHp });
-      }
-
       // Emit events
       this.emit('action-executed', { result });
       this.emit('guard-executed', {
@@ -457,6 +637,16 @@ export class PhaserAdapter extends GameAdapter {
         damageBlocked: result.damageBlocked,
       });
 
+      // Resolve the telegraphed attack, applying any damage that got through
+      if (this.enemyAttackScheduler?.resolvePendingAttack()) {
+        this.resolveEnemyAttack(
+          result.damageReceived,
+          incomingDamage - result.damageReceived,
+          true
+        );
+        this.checkGameOver();
+      }
+
       return result;
     } catch (error) {
       this.emit('error', { error: error as Error, context: 'executeGuard' });
@@ -492,7 +682,8 @@ export class PhaserAdapter extends GameAdapter {
     keyboard?.removeAllListeners('keydown');
 
     keyboard?.on('keydown', (event: KeyboardEvent) => {
-      if (!this.keyboardEnabled) return;
+      // Replays feed their own keystrokes
+      if (!this.keyboardEnabled || this.replayMode) return;
 
       // Prevent default for game keys to avoid browser shortcuts
       if (this.shouldPreventDefault(event.key)) {
@@ -514,14 +705,17 @@ export class PhaserAdapter extends GameAdapter {
     }
   }
 
-  private handleCharacterInput(key: string): void {
-    this.inputBuffer += key;
-
-    // Update GameScene with current input
-    if (this.gameScene) {
-      this.gameScene.updateCurrentInput(this.inputBuffer);
+  private async handleCharacterInput(key: string): Promise<void> {
+    if (!this.state.locked) {
+      const lockType = this.findWordToLock(key);
+      if (!lockType) {
+        return; // Key does not start any of the offered words
+      }
+      this.lockWord(lockType);
     }
 
+    this.inputBuffer += key;
+
     // Update typing session
     if (this.currentTypingSession) {
       this.currentTypingSession = this.inputValidator.updateTypingSession(
@@ -531,10 +725,12 @@ export class PhaserAdapter extends GameAdapter {
       );
     }
 
+    this.updateTypingProgress();
+
     // Check for word completion
     const targetWord = this.getCurrentTargetWord();
     if (targetWord && this.inputBuffer === targetWord.text) {
-      this.completeCurrentWord();
+      await this.completeCurrentWord();
     }
   }
 
@@ -542,11 +738,6 @@ export class PhaserAdapter extends GameAdapter {
     if (this.inputBuffer.length > 0) {
       this.inputBuffer = this.inputBuffer.slice(0, -1);
 
-      // Update GameScene with current input
-      if (this.gameScene) {
-        this.gameScene.updateCurrentInput(this.inputBuffer);
-      }
-
       if (this.currentTypingSession) {
         this.currentTypingSession = this.inputValidator.updateTypingSession(
           this.currentTypingSession,
@@ -554,6 +745,31 @@ export class PhaserAdapter extends GameAdapter {
           this.inputBuffer
         );
       }
+
+      this.updateTypingProgress();
+    }
+  }
+
+  /**
+   * Show the current input and, for phrases, how many words are done
+   */
+  private updateTypingProgress(): void {
+    const targetWord = this.getCurrentTargetWord();
+    const progress = targetWord
+      ? getPhraseProgress(targetWord.text, this.inputBuffer)
+      : undefined;
+
+    if (this.gameScene) {
+      this.gameScene.updateCurrentInput(this.inputBuffer, progress);
+    }
+
+    if (targetWord && progress && this.state.locked) {
+      this.emit('typing-progress', {
+        word: targetWord,
+        type: LOCK_ACTION_TYPES[this.state.locked],
+        input: this.inputBuffer,
+        progress,
+      });
     }
   }
 
@@ -571,42 +787,52 @@ export class PhaserAdapter extends GameAdapter {
   private selectNewWords(): void {
     if (!this.wordManager || !this.config) return;
 
-    const selection = this.wordManager.selectWords({
-      difficulty: this.config.difficulty,
-      playerLevel: 1,
-      round: this.state.round,
-      timeRemaining: this.state.timeLeft,
-      previousWords: [],
-      avoidRecentWords: true,
-    });
+    const selection = this.wordManager.selectWords(
+      this.createWordSelectionOptions()
+    );
 
+    // Guard words only appear while an enemy attack is telegraphed
     this.stateManager.updateCurrentWords({
       attack: selection.attack,
       heal: selection.heal,
-      guard: selection.guard,
+      guard: this.state.enemyAttack?.guardWord,
     });
+  }
 
-    // Start typing session for first available word
-    const firstWord = selection.attack || selection.heal;
-    if (firstWord) {
-      this.currentTypingSession = this.inputValidator.createTypingSession(
-        firstWord,
-        selection.attack ? 'ATTACK' : 'HEAL'
-      );
-    }
+  private createWordSelectionOptions(): WordSelectionOptions {
+    return {
+      difficulty: this.config!.difficulty,
+      playerLevel: this.getPlayerLevel(),
+      round: this.state.round,
+      timeRemaining: this.state.timeLeft,
+      previousWords: [],
+      avoidRecentWords: true,
+      levelBias: this.state.enemy.levelBias,
+      categories: this.state.enemy.categories,
+      difficultyShift: this.getDifficultyShift(),
+    };
   }
 
-  private getCurrentTargetWord(): import('./types').Word | null {
-    if (this.state.locked) {
-      return this.state.currentWords[this.state.locked] || null;
-    }
+  private lockWord(lockType: ActiveWordLock): void {
+    const word = this.state.currentWords[lockType] as Word;
+    const actionType = LOCK_ACTION_TYPES[lockType];
+
+    this.stateManager.setWordLock(lockType);
+    this.currentTypingSession = this.inputValidator.createTypingSession(
+      word,
+      actionType
+    );
 
-    // Default to attack word if nothing is locked
-    return this.state.currentWords.attack || null;
+    this.emit('word-started', { word, type: actionType });
+  }
+
+  private getCurrentTargetWord(): Word | null {
+    if (!this.state.locked) return null;
+    return this.state.currentWords[this.state.locked] || null;
   }
 
   private async completeCurrentWord(): Promise<void> {
-    if (!this.currentTypingSession) return;
+    if (!this.currentTypingSession || !this.state.locked) return;
 
     const completedSession = this.inputValidator.completeTypingSession(
       this.currentTypingSession
@@ -617,12 +843,10 @@ export class PhaserAdapter extends GameAdapter {
       metrics
     );
 
-    // Determine action type
-    const actionType = this.getActionTypeForCurrentWord();
-
     // Execute the appropriate action
-    let result;
-    switch (actionType) {
+    const oldCombo = this.state.combo;
+    let result: ActionResult;
+    switch (LOCK_ACTION_TYPES[this.state.locked]) {
       case 'ATTACK':
         result = await this.executeAttack(completedWord);
         break;
@@ -633,20 +857,229 @@ export class PhaserAdapter extends GameAdapter {
         result = await this.executeGuard(completedWord);
         break;
     }
+    this.recordTypingFeats(completedWord, oldCombo);
+    this.recordStatusEffects(result);
+    this.recordDifficulty(completedWord);
+    this.attempts.push(completedWord);
 
-    // Clear input and select new words
+    // Clear input and release the word
     this.inputBuffer = '';
     this.currentTypingSession = null;
-    this.selectNewWords();
+    this.stateManager.setWordLock(null);
+    this.updateTypingStats(this.attempts);
+
+    if (this.gameScene) {
+      this.gameScene.updateCurrentInput(this.inputBuffer);
+    }
 
     this.emit('word-completed', { completedWord, result });
+
+    // Defeating an enemy either starts the next stage or ends the game
+    this.checkGameOver();
+    if (this.state.status === 'PLAYING') {
+      this.setState({ round: this.state.round + 1 });
+      this.selectNewWords();
+    }
+  }
+
+  // =============================================================================
+  // ENEMY ATTACKS
+  // =============================================================================
+
+  private startEnemyAttacks(): void {
+    if (!this.config) return;
+
+    this.stopEnemyAttacks();
+    this.enemyAttackScheduler = new EnemyAttackScheduler(
+      getEnemyAttackProfile(this.config.difficulty, this.state.enemy)
+    );
+    this.enemyAttackScheduler.start(this.clock.now());
+
+    // Poll often enough for a smooth telegraph countdown
+    this.enemyAttackTimer = setInterval(() => {
+      if (this.state.status === 'PLAYING') {
+        this.processDueEvents();
+      } else if (this.state.status === 'ENDED') {
+        this.stopEnemyAttacks();
+      }
+    }, 100);
+  }
+
+  private stopEnemyAttacks(): void {
+    if (this.enemyAttackTimer) {
+      clearInterval(this.enemyAttackTimer);
+      this.enemyAttackTimer = null;
+    }
+    this.enemyAttackScheduler?.stop();
+    this.enemyAttackScheduler = null;
+  }
+
+  /**
+   * Handle everything due by now, so nothing waits on the next poll
+   */
+  private processDueEvents(): void {
+    if (this.state.status !== 'PLAYING') return;
+
+    this.processEnemyAttacks(this.clock.now());
+    if (this.state.status !== 'PLAYING') return;
+
+    this.tickGameTimer();
+  }
+
+  private processEnemyAttacks(now: number): void {
+    if (!this.enemyAttackScheduler) return;
+
+    for (const { phase, attack } of this.enemyAttackScheduler.update(now)) {
+      if (phase === 'telegraph') {
+        this.openGuardWindow(attack, now);
+      } else {
+        this.landEnemyAttack(attack);
+      }
+
+      if (this.state.status !== 'PLAYING') return;
+    }
+
+    const enemyAttack = this.state.enemyAttack;
+    const etaMs = this.enemyAttackScheduler.getTimeUntilImpact(now);
+    if (enemyAttack && etaMs !== null && etaMs !== enemyAttack.etaMs) {
+      this.stateManager.updateState(
+        { enemyAttack: { ...enemyAttack, etaMs } },
+        'enemy-attack-countdown'
+      );
+    }
+  }
+
+  private openGuardWindow(attack: ScheduledEnemyAttack, now: number): void {
+    if (!this.wordManager || !this.config) return;
+
+    const { attack: attackWord, heal } = this.state.currentWords;
+    const guardWord = this.wordManager.selectGuardWord(
+      this.createWordSelectionOptions(),
+      [attackWord, heal]
+    );
+    const etaMs = Math.max(0, attack.impactAt - now);
+    const damage = this.getIncomingDamage(attack.damage);
+
+    this.stateManager.setEnemyAttack({
+      damage,
+      etaMs,
+      telegraphMs: attack.impactAt - attack.telegraphAt,
+      guardWord,
+    });
+
+    this.emit('enemy-telegraph', { damage, etaMs, guardWord });
+  }
+
+  private landEnemyAttack(attack: ScheduledEnemyAttack): void {
+    // A half-typed guard word no longer has anything to block
+    if (this.state.locked === 'guard') {
+      this.inputBuffer = '';
+      this.currentTypingSession = null;
+      this.stateManager.setWordLock(null);
+
+      if (this.gameScene) {
+        this.gameScene.updateCurrentInput(this.inputBuffer);
+      }
+    }
+
+    this.resolveEnemyAttack(this.getIncomingDamage(attack.damage), 0, false);
+    this.checkGameOver();
   }
 
-  private getActionTypeForCurrentWord(): ActionType {
-    if (this.state.locked) {
-      return this.state.locked as ActionType;
+  private resolveEnemyAttack(
+    damageTaken: number,
+    damageBlocked: number,
+    guarded: boolean
+  ): void {
+    this.stateManager.setEnemyAttack(null);
+    this.stateManager.applyEnemyAttack(damageTaken, damageBlocked);
+
+    this.emit('enemy-attack', {
+      damage: damageTaken,
+      playerHp: this.state.hp.player,
+      guarded,
+    });
+  }
+
+  /**
+   * Keep the state manager on the ability's effects; an enraged enemy
+   * attacks more often from its next attack on
+   */
+  protected applyEnemyAbility(ability: EnemyAbility): void {
+    super.applyEnemyAbility(ability);
+
+    const { hp, stats, enemyStatus } = this.state;
+    this.stateManager.updateState({ hp, stats, enemyStatus }, 'enemy-ability');
+
+    if (ability.type === 'enrage' && this.enemyAttackScheduler) {
+      const { intervalMs } = this.enemyAttackScheduler.getProfile();
+      this.enemyAttackScheduler.setIntervalMs(
+        Math.round(intervalMs * ability.intervalMultiplier)
+      );
     }
-    return 'ATTACK'; // Default
+  }
+
+  protected setSkillStates(skills: SkillState[]): void {
+    super.setSkillStates(skills);
+    this.stateManager.updateState({ skills }, 'skills');
+  }
+
+  protected setStatusEffects(target: StatusEffectTarget, effects: StatusEffect[]): void {
+    super.setStatusEffects(target, effects);
+    this.stateManager.updateState(
+      { statusEffects: this.state.statusEffects },
+      'status-effects'
+    );
+
+    if (target === 'enemy') {
+      this.holdEnemyAttacksWhileStunned();
+    }
+  }
+
+  protected applyEffectHpChange(target: StatusEffectTarget, hpChange: number): number {
+    const change = super.applyEffectHpChange(target, hpChange);
+    this.stateManager.updateState(
+      { hp: this.state.hp, stats: this.state.stats },
+      'status-effect-tick'
+    );
+    return change;
+  }
+
+  /**
+   * A stunned enemy's attack timer stands still until the stun wears off
+   */
+  private holdEnemyAttacksWhileStunned(): void {
+    if (!this.enemyAttackScheduler || this.state.status !== 'PLAYING') return;
+
+    if (this.isStunned('enemy')) {
+      this.enemyAttackScheduler.pause(this.clock.now());
+    } else {
+      this.enemyAttackScheduler.resume(this.clock.now());
+    }
+  }
+
+  protected setEnemyStatus(updates: Partial<EnemyStatus>): void {
+    super.setEnemyStatus(updates);
+    this.stateManager.updateState(
+      { enemyStatus: this.state.enemyStatus },
+      'enemy-status'
+    );
+  }
+
+  // =============================================================================
+  // CAMPAIGN
+  // =============================================================================
+
+  protected startNextStage(): void {
+    super.startNextStage();
+
+    // Keep the state manager on the new enemy, then restart its attack cycle
+    const { enemy, stage, hp, enemyStatus, statusEffects, currentWords } = this.state;
+    this.stateManager.updateState(
+      { enemy, stage, hp, enemyStatus, statusEffects, currentWords, enemyAttack: null },
+      'stage-start'
+    );
+    this.startEnemyAttacks();
   }
 
   // =============================================================================
@@ -681,20 +1114,62 @@ export class PhaserAdapter extends GameAdapter {
   private startGameTimer(): void {
     if (!this.config) return;
 
-    const interval = setInterval(() => {
-      if (this.state.status === 'PLAYING' && this.state.timeLeft > 0) {
-        this.setState({ timeLeft: this.state.timeLeft - 1 });
-      } else {
-        clearInterval(interval);
-        this.checkGameOver();
+    this.stopGameTimer();
+    this.lastTimerTick = this.clock.now();
+    this.pausedAt = null;
+
+    // Count down from the clock, so a pause or a late tick loses no time
+    this.gameTimer = setInterval(() => {
+      if (this.state.status === 'PLAYING') {
+        this.processDueEvents();
+      } else if (this.state.status === 'ENDED') {
+        this.stopGameTimer();
       }
-    }, 1000);
+    }, 100);
+  }
+
+  private stopGameTimer(): void {
+    if (this.gameTimer) {
+      clearInterval(this.gameTimer);
+      this.gameTimer = null;
+    }
+  }
+
+  /**
+   * Take off every whole second played since the last tick
+   */
+  private tickGameTimer(): void {
+    const elapsedSeconds = Math.floor(
+      (this.clock.now() - this.lastTimerTick) / 1000
+    );
+    if (elapsedSeconds <= 0) return;
+
+    this.lastTimerTick += elapsedSeconds * 1000;
+    this.setState({
+      timeLeft: Math.max(0, this.state.timeLeft - elapsedSeconds),
+    });
+
+    for (let i = 0; i < elapsedSeconds; i++) {
+      this.tickStatusEffects('seconds');
+    }
+
+    if (this.state.status === 'PLAYING' && this.state.timeLeft <= 0) {
+      this.checkGameOver();
+    }
+  }
+
+  /**
+   * Route every change through the state manager, so its own updates
+   * never roll the adapter's status or timer back
+   */
+  protected setState(updates: Partial<GameState>): void {
+    this.stateManager.updateState(updates, 'adapter');
   }
 
   private setupEventListeners(): void {
     // Listen to state changes from state manager
     this.stateManager.subscribe(state => {
-      this.state = state;
+      super.setState(state);
 
       // Update GameScene with new state
       if (this.gameScene) {
@@ -793,13 +1268,13 @@ export class PhaserAdapter extends GameAdapter {
   // =============================================================================
 
   private shouldPreventDefault(key: string): boolean {
-    // Prevent default for keys we handle in the game
-    const gameKeys = /^[a-zA-Z]$|^Backspace$|^Enter$|^Space$/;
-    return gameKeys.test(key);
+    // Prevent default for keys we handle in the game (space scrolls, ' and /
+    // open quick find in some browsers)
+    return this.isValidGameKeystroke(key);
   }
 
   private isValidGameKeystroke(key: string): boolean {
-    // Only allow English letters, Backspace, Enter, and Space
-    return /^[a-zA-Z]$/.test(key) || ['Backspace', 'Enter', ' '].includes(key);
+    // Printable characters for phrases, plus Backspace and Enter
+    return isTypeableCharacter(key) || ['Backspace', 'Enter'].includes(key);
   }
 }
@@ -0,0 +1,198 @@
+import {
+  ActionResult,
+  StatusEffect,
+  StatusEffectDefinition,
+  StatusEffectRule,
+  StatusEffects,
+  StatusEffectTarget,
+  StatusEffectType,
+  StatusEffectUnit,
+} from '../types';
+
+/**
+ * Status effects: lasting poison, stun, regen and vulnerability on the
+ * player or the enemy
+ * These functions only work out the effects; the adapter applies the HP
+ * changes and emits the events
+ */
+
+export const STATUS_EFFECT_TARGETS: StatusEffectTarget[] = ['player', 'enemy'];
+
+export const NO_STATUS_EFFECTS: StatusEffects = { player: [], enemy: [] };
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> =
+  {
+    poison: {
+      type: 'poison',
+      name: 'Poison',
+      unit: 'seconds',
+      duration: 4,
+      maxStacks: 3,
+      hpPerSecond: -2,
+    },
+    regen: {
+      type: 'regen',
+      name: 'Regen',
+      unit: 'seconds',
+      duration: 4,
+      maxStacks: 3,
+      hpPerSecond: 2,
+    },
+    stun: {
+      type: 'stun',
+      name: 'Stun',
+      unit: 'seconds',
+      duration: 2,
+      maxStacks: 1,
+    },
+    vulnerability: {
+      type: 'vulnerability',
+      name: 'Vulnerable',
+      unit: 'words',
+      duration: 3,
+      maxStacks: 2,
+      damageTakenPerStack: 0.25,
+    },
+  };
+
+/**
+ * Which successful actions apply an effect
+ */
+export const STATUS_EFFECT_RULES: StatusEffectRule[] = [
+  {
+    action: 'ATTACK',
+    critical: true,
+    target: 'enemy',
+    effect: 'vulnerability',
+  },
+  { action: 'ATTACK', category: 'action', target: 'enemy', effect: 'poison' },
+  { action: 'ATTACK', category: 'power', target: 'enemy', effect: 'stun' },
+  { action: 'HEAL', critical: true, target: 'player', effect: 'regen' },
+  { action: 'HEAL', category: 'medical', target: 'player', effect: 'regen' },
+];
+
+// =============================================================================
+// STACKING AND QUERIES
+// =============================================================================
+
+/**
+ * Apply an effect: a new one starts with one stack, an active one gains a
+ * stack up to its maximum and starts its duration again
+ */
+export function addStatusEffect(
+  effects: StatusEffect[],
+  type: StatusEffectType
+): { effects: StatusEffect[]; effect: StatusEffect } {
+  const { duration, maxStacks } = STATUS_EFFECTS[type];
+  const active = effects.find(effect => effect.type === type);
+
+  const effect: StatusEffect = {
+    type,
+    stacks: active ? Math.min(maxStacks, active.stacks + 1) : 1,
+    remaining: duration,
+  };
+
+  return {
+    effects: active
+      ? effects.map(existing => (existing === active ? effect : existing))
+      : [...effects, effect],
+    effect,
+  };
+}
+
+export function hasStatusEffect(
+  effects: StatusEffect[],
+  type: StatusEffectType
+): boolean {
+  return effects.some(effect => effect.type === type);
+}
+
+/**
+ * How much more damage a side takes, e.g. 1.25 with one vulnerability stack
+ */
+export function getDamageTakenMultiplier(effects: StatusEffect[]): number {
+  return effects.reduce(
+    (multiplier, { type, stacks }) =>
+      multiplier + (STATUS_EFFECTS[type].damageTakenPerStack ?? 0) * stacks,
+    1
+  );
+}
+
+// =============================================================================
+// TICKS
+// =============================================================================
+
+/**
+ * Run one second or one completed word of a side's effects
+ * Only effects measured in that unit count down; seconds also return the HP
+ * change of each damage or heal over time effect
+ */
+export function tickStatusEffects(
+  effects: StatusEffect[],
+  unit: StatusEffectUnit
+): {
+  effects: StatusEffect[];
+  ticks: { type: StatusEffectType; hpChange: number }[];
+  expired: StatusEffectType[];
+} {
+  const ticks: { type: StatusEffectType; hpChange: number }[] = [];
+  const expired: StatusEffectType[] = [];
+  const remaining: StatusEffect[] = [];
+
+  for (const effect of effects) {
+    const definition = STATUS_EFFECTS[effect.type];
+    if (definition.unit !== unit) {
+      remaining.push(effect);
+      continue;
+    }
+
+    if (definition.hpPerSecond) {
+      ticks.push({
+        type: effect.type,
+        hpChange: definition.hpPerSecond * effect.stacks,
+      });
+    }
+
+    if (effect.remaining > 1) {
+      remaining.push({ ...effect, remaining: effect.remaining - 1 });
+    } else {
+      expired.push(effect.type);
+    }
+  }
+
+  return { effects: remaining, ticks, expired };
+}
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+/**
+ * Effects a completed action applies, at most one of each per side
+ */
+export function getStatusEffectsForResult(
+  result: ActionResult,
+  rules: StatusEffectRule[] = STATUS_EFFECT_RULES
+): { target: StatusEffectTarget; type: StatusEffectType }[] {
+  if (!result.success) return [];
+
+  const applied: { target: StatusEffectTarget; type: StatusEffectType }[] = [];
+  for (const rule of rules) {
+    if (rule.action !== result.type) continue;
+    if (rule.critical !== undefined && rule.critical !== result.critical) {
+      continue;
+    }
+    if (rule.category !== undefined && rule.category !== result.word.category) {
+      continue;
+    }
+
+    const duplicate = applied.some(
+      ({ target, type }) => target === rule.target && type === rule.effect
+    );
+    if (!duplicate) {
+      applied.push({ target: rule.target, type: rule.effect });
+    }
+  }
+
+  return applied;
+}
@@ -0,0 +1,278 @@
+import {
+  EnemyAbility,
+  EnemyBehaviour,
+  EnemyBehaviourType,
+  EnemyStatus,
+  GameEvent,
+  GameEventData,
+  GameState,
+  ValidationResult,
+  Word,
+} from '../types';
+
+/**
+ * Enemy behaviours: the rules that decide when an enemy's abilities fire
+ * The adapter applies each ability, so replays and server verification see
+ * the same battle as the player
+ */
+
+export const INITIAL_ENEMY_STATUS: EnemyStatus = {
+  enraged: false,
+  scrambledUntil: null,
+};
+
+// =============================================================================
+// BEHAVIOUR RULES
+// =============================================================================
+
+type BehaviourOf<T extends EnemyBehaviourType> = Extract<
+  EnemyBehaviour,
+  { type: T }
+>;
+
+/**
+ * Enrage once, the first time the enemy's HP falls below the threshold
+ */
+export function checkEnrage(
+  behaviour: BehaviourOf<'enrage'>,
+  state: GameState
+): EnemyAbility | null {
+  const { hp, enemyStatus } = state;
+  if (enemyStatus.enraged || hp.enemy <= 0) return null;
+  if (hp.enemy / hp.enemyMax >= behaviour.hpThreshold) return null;
+
+  return { type: 'enrage', intervalMultiplier: behaviour.intervalMultiplier };
+}
+
+/**
+ * Damage the shield blocks from a hit by a short word
+ */
+export function checkShield(
+  behaviour: BehaviourOf<'shield'>,
+  damage: number,
+  word: Word | undefined
+): EnemyAbility | null {
+  if (!word || word.length >= behaviour.minWordLength) return null;
+
+  const absorbed = damage - Math.round(damage * behaviour.damageMultiplier);
+  return absorbed > 0 ? { type: 'shield', absorbed } : null;
+}
+
+/**
+ * Heal after attacking, never past full HP or back from defeat
+ */
+export function checkRegenerate(
+  behaviour: BehaviourOf<'regenerate'>,
+  state: GameState
+): EnemyAbility | null {
+  const { hp } = state;
+  if (hp.enemy <= 0) return null;
+
+  const healed = Math.min(behaviour.amount, hp.enemyMax - hp.enemy);
+  return healed > 0 ? { type: 'regenerate', healed } : null;
+}
+
+/**
+ * Scramble the player's words when an attack lands unguarded
+ */
+export function checkScramble(
+  behaviour: BehaviourOf<'scramble'>,
+  guarded: boolean
+): EnemyAbility | null {
+  return guarded
+    ? null
+    : { type: 'scramble', durationMs: behaviour.durationMs };
+}
+
+// =============================================================================
+// CONTROLLER
+// =============================================================================
+
+/**
+ * What the controller needs from its adapter
+ */
+export interface EnemyBehaviourHost {
+  on<T extends GameEvent>(
+    event: T,
+    callback: (data: GameEventData[T]) => void
+  ): () => void;
+  getState(): GameState;
+  now(): number;
+  useAbility(ability: EnemyAbility): void;
+  clearScramble(): void;
+}
+
+/**
+ * Runs the current enemy's behaviours off the adapter's events
+ * Behaviours are read from the state on every event, so a new campaign
+ * stage brings its enemy's behaviours with it
+ */
+export class EnemyBehaviours {
+  private host: EnemyBehaviourHost;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(host: EnemyBehaviourHost) {
+    this.host = host;
+  }
+
+  attach(): void {
+    this.detach();
+    this.unsubscribers.push(
+      this.host.on('damage-dealt', () => {
+        this.trigger('enrage', behaviour =>
+          checkEnrage(behaviour, this.host.getState())
+        );
+      }),
+      this.host.on('enemy-attack', ({ guarded }) => {
+        this.trigger('regenerate', behaviour =>
+          checkRegenerate(behaviour, this.host.getState())
+        );
+        this.trigger('scramble', behaviour =>
+          checkScramble(behaviour, guarded)
+        );
+      }),
+      this.host.on('state-change', ({ newState }) => {
+        const { scrambledUntil } = newState.enemyStatus;
+        if (scrambledUntil !== null && this.host.now() >= scrambledUntil) {
+          this.host.clearScramble();
+        }
+      })
+    );
+  }
+
+  /**
+   * Damage left of a hit once the enemy's shield has blocked its share
+   * Adapters call this before the hit lands, so a shield never brings a
+   * defeated enemy back
+   */
+  shieldDamage(damage: number, word: Word | undefined): number {
+    let absorbed = 0;
+    this.trigger('shield', behaviour => {
+      const ability = checkShield(behaviour, damage, word);
+      if (ability?.type === 'shield') absorbed += ability.absorbed;
+      return ability;
+    });
+    return damage - absorbed;
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private trigger<T extends EnemyBehaviourType>(
+    type: T,
+    check: (behaviour: BehaviourOf<T>) => EnemyAbility | null
+  ): void {
+    const state = this.host.getState();
+    if (state.status !== 'PLAYING') return;
+
+    for (const behaviour of state.enemy.behaviours ?? []) {
+      if (behaviour.type !== type) continue;
+
+      const ability = check(behaviour as BehaviourOf<T>);
+      if (ability) {
+        this.host.useAbility(ability);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const BEHAVIOUR_TYPES: EnemyBehaviourType[] = [
+  'enrage',
+  'shield',
+  'regenerate',
+  'scramble',
+];
+
+/**
+ * Check an enemy's behaviours list
+ * Errors name the field path, e.g. "enemy.behaviours[0].hpThreshold must be ..."
+ */
+export function validateEnemyBehaviours(
+  value: unknown,
+  path = 'behaviours'
+): ValidationResult {
+  if (!Array.isArray(value)) {
+    return { valid: false, errors: [`${path} must be an array`] };
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  value.forEach((item: unknown, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push(`${itemPath} must be an object`);
+      return;
+    }
+
+    const behaviour = item as Record<string, unknown>;
+    const type = behaviour.type as EnemyBehaviourType;
+    if (!BEHAVIOUR_TYPES.includes(type)) {
+      errors.push(
+        `${itemPath}.type must be one of: ${BEHAVIOUR_TYPES.join(', ')}`
+      );
+      return;
+    }
+    if (seen.has(type)) {
+      errors.push(`${itemPath}.type ${type} is used by an earlier behaviour`);
+    }
+    seen.add(type);
+
+    switch (type) {
+      case 'enrage':
+        checkFraction(behaviour.hpThreshold, `${itemPath}.hpThreshold`, errors);
+        checkFraction(
+          behaviour.intervalMultiplier,
+          `${itemPath}.intervalMultiplier`,
+          errors
+        );
+        break;
+      case 'shield':
+        checkPositiveInteger(
+          behaviour.minWordLength,
+          `${itemPath}.minWordLength`,
+          errors
+        );
+        checkFraction(
+          behaviour.damageMultiplier,
+          `${itemPath}.damageMultiplier`,
+          errors
+        );
+        break;
+      case 'regenerate':
+        checkPositiveInteger(behaviour.amount, `${itemPath}.amount`, errors);
+        break;
+      case 'scramble':
+        checkPositiveInteger(
+          behaviour.durationMs,
+          `${itemPath}.durationMs`,
+          errors
+        );
+        break;
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+function checkFraction(value: unknown, path: string, errors: string[]): void {
+  if (typeof value !== 'number' || !(value > 0 && value < 1)) {
+    errors.push(`${path} must be a number between 0 and 1`);
+  }
+}
+
+function checkPositiveInteger(
+  value: unknown,
+  path: string,
+  errors: string[]
+): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    errors.push(`${path} must be a positive integer`);
+  }
+}
@@ -281,8 +281,18 @@ export class EventBus {
       'damage-dealt',
       'healing-applied',
       'guard-executed',
+      'enemy-telegraph',
       'enemy-attack',
+      'stage-cleared',
+      'enemy-ability',
+      'skill-charged',
+      'skill-used',
+      'status-effect-applied',
+      'status-effect-tick',
+      'status-effect-expired',
+      'difficulty-adjusted',
       'combo-changed',
+      'keystroke',
       'game-over',
       'session-ended',
       'error',
@@ -0,0 +1,45 @@
+import type { ClaimGuestSessionsResponse } from '../../api/types';
+import { GuestSessionStore } from './guestSessionStore';
+
+export interface ClaimGuestSessionsOptions {
+  fetch?: typeof fetch;
+  baseUrl?: string;
+}
+
+/**
+ * Move the guest sessions kept on this device to the signed-in user
+ * Claimed and skipped sessions are forgotten, since sending them again
+ * cannot change the outcome; a failed request keeps them for next time
+ * Resolves to null when there was nothing to claim
+ */
+export async function claimGuestSessions(
+  store: GuestSessionStore,
+  accessToken: string,
+  options: ClaimGuestSessionsOptions = {}
+): Promise<ClaimGuestSessionsResponse | null> {
+  const sessions = await store.list();
+  if (sessions.length === 0) return null;
+
+  const send = options.fetch ?? ((input, init) => fetch(input, init));
+  const response = await send(`${options.baseUrl ?? ''}/api/session/claim`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ sessions }),
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(
+      `claimGuestSessions: Claim failed with ${response.status}: ${body.message}`
+    );
+  }
+
+  const result = body as ClaimGuestSessionsResponse;
+  await store.remove([
+    ...result.claimed,
+    ...result.skipped.map(skipped => skipped.sessionId),
+  ]);
+  return result;
+}
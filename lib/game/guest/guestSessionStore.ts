@@ -0,0 +1,68 @@
+import type { GuestSessionClaim } from '../../api/types';
+import { LocalStorageJson } from '../utils/localStorageJson';
+
+/**
+ * Guest tokens for the sessions a guest created on this device
+ * The API needs a session's token to use it while it belongs to no one, and
+ * POST /api/session/claim moves the sessions to an account after sign-in
+ */
+export interface GuestSessionStore {
+  list(): Promise<GuestSessionClaim[]>; // Oldest first
+  getToken(sessionId: string): Promise<string | null>;
+  save(claim: GuestSessionClaim): Promise<void>;
+  remove(sessionIds: string[]): Promise<void>;
+}
+
+export const LOCAL_GUEST_SESSIONS_KEY = 'typing-quest:guest-sessions';
+
+// Sessions one claim request accepts; older ones are dropped
+const MAX_LOCAL_GUEST_SESSIONS = 100;
+
+/**
+ * Keeps guest tokens in localStorage as one list, oldest first
+ */
+export class LocalStorageGuestSessionStore implements GuestSessionStore {
+  private entry: LocalStorageJson;
+
+  constructor(
+    storage?: Storage | null,
+    key: string = LOCAL_GUEST_SESSIONS_KEY
+  ) {
+    this.entry = new LocalStorageJson(key, storage);
+  }
+
+  async list(): Promise<GuestSessionClaim[]> {
+    return this.entry.readList(isGuestSessionClaim);
+  }
+
+  async getToken(sessionId: string): Promise<string | null> {
+    const claims = await this.list();
+    return (
+      claims.find(claim => claim.sessionId === sessionId)?.guestToken ?? null
+    );
+  }
+
+  async save(claim: GuestSessionClaim): Promise<void> {
+    const others = (await this.list()).filter(
+      stored => stored.sessionId !== claim.sessionId
+    );
+    this.entry.write([...others, claim].slice(-MAX_LOCAL_GUEST_SESSIONS));
+  }
+
+  async remove(sessionIds: string[]): Promise<void> {
+    const claims = await this.list();
+    this.entry.write(
+      claims.filter(claim => !sessionIds.includes(claim.sessionId))
+    );
+  }
+}
+
+function isGuestSessionClaim(value: unknown): value is GuestSessionClaim {
+  const claim = value as GuestSessionClaim;
+  return (
+    typeof claim === 'object' &&
+    claim !== null &&
+    typeof claim.sessionId === 'string' &&
+    typeof claim.guestToken === 'string'
+  );
+}
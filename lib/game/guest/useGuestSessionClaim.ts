@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { createBrowserSupabaseClient } from '../../supabase/client';
+import { claimGuestSessions } from './claimGuestSessions';
+import { LocalStorageGuestSessionStore } from './guestSessionStore';
+
+/**
+ * Claim the guest sessions played on this device for the signed-in player,
+ * on mount and whenever they sign in while the component is mounted
+ */
+export function useGuestSessionClaim(): void {
+  useEffect(() => {
+    const client = createBrowserSupabaseClient();
+    if (!client) return;
+
+    const store = new LocalStorageGuestSessionStore();
+    const claim = (accessToken: string) =>
+      claimGuestSessions(store, accessToken).catch(error =>
+        console.warn('useGuestSessionClaim: Failed to claim sessions', error)
+      );
+
+    // INITIAL_SESSION fires on subscribing, for a player already signed in
+    const { data } = client.auth.onAuthStateChange((event, session) => {
+      if (session && (event === 'INITIAL_SESSION' || event === 'SIGNED_IN')) {
+        claim(session.access_token);
+      }
+    });
+
+    return () => data.subscription.unsubscribe();
+  }, []);
+}
@@ -0,0 +1,92 @@
+import { GameAdapter } from '../GameAdapter';
+import { KeystrokeProfile } from '../types';
+import {
+  EMPTY_KEYSTROKE_PROFILE,
+  addKeystrokeStats,
+} from '../utils/keystrokeProfile';
+import { KeystrokeProfileStore } from './keystrokeProfileStore';
+
+/**
+ * Adds an adapter's completed words to a learner's keystroke profile and
+ * saves it to a KeystrokeProfileStore when the session ends
+ * Also keeps this session's keystrokes on their own for the results screen
+ */
+export class KeystrokeProfileTracker {
+  private adapter: GameAdapter;
+  private store: KeystrokeProfileStore;
+  private profile: KeystrokeProfile = EMPTY_KEYSTROKE_PROFILE;
+  private sessionProfile: KeystrokeProfile = EMPTY_KEYSTROKE_PROFILE;
+  private changed = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(adapter: GameAdapter, store: KeystrokeProfileStore) {
+    this.adapter = adapter;
+    this.store = store;
+  }
+
+  /**
+   * Load the stored profile and start listening
+   * Returns the profile to pass as the session seed's keystrokeProfile
+   */
+  async attach(): Promise<KeystrokeProfile> {
+    this.profile = await this.store.load();
+    this.sessionProfile = EMPTY_KEYSTROKE_PROFILE;
+    this.changed = false;
+
+    this.detach();
+    this.unsubscribers.push(
+      this.adapter.on('word-completed', ({ completedWord }) => {
+        const keyStats = completedWord.keystrokePattern?.keyStats;
+        if (!keyStats) return;
+
+        this.profile = addKeystrokeStats(this.profile, keyStats);
+        this.sessionProfile = addKeystrokeStats(this.sessionProfile, keyStats);
+        this.changed = true;
+      }),
+      this.adapter.on('session-ended', () => {
+        this.flush().catch(error =>
+          console.error(
+            'KeystrokeProfileTracker: Failed to save profile',
+            error
+          )
+        );
+      })
+    );
+
+    return this.profile;
+  }
+
+  /**
+   * Save the profile if it changed since the last flush
+   */
+  async flush(): Promise<void> {
+    if (!this.changed) return;
+
+    this.changed = false;
+    try {
+      await this.store.save(this.profile);
+    } catch (error) {
+      this.changed = true;
+      throw error;
+    }
+  }
+
+  /**
+   * The learner's profile across sessions, including this one
+   */
+  getProfile(): KeystrokeProfile {
+    return this.profile;
+  }
+
+  /**
+   * This session's keystrokes only
+   */
+  getSessionProfile(): KeystrokeProfile {
+    return this.sessionProfile;
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
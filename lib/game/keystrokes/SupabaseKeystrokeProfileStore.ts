@@ -0,0 +1,67 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { KeystrokeProfile } from '../types';
+import { EMPTY_KEYSTROKE_PROFILE } from '../utils/keystrokeProfile';
+import {
+  KeystrokeProfileStore,
+  isKeystrokeProfile,
+} from './keystrokeProfileStore';
+
+/**
+ * Keeps a signed-in learner's keystroke profile in the keystroke_profiles
+ * table, one row per learner
+ * The client must be authenticated as the learner; RLS limits rows to them
+ */
+
+interface KeystrokeProfileRow {
+  user_id: string;
+  keys: unknown;
+  bigrams: unknown;
+  updated_at: string;
+}
+
+export class SupabaseKeystrokeProfileStore implements KeystrokeProfileStore {
+  private client: SupabaseClient;
+  private userId: string;
+
+  constructor(client: SupabaseClient, userId: string) {
+    this.client = client;
+    this.userId = userId;
+  }
+
+  async load(): Promise<KeystrokeProfile> {
+    const { data, error } = await this.client
+      .from('keystroke_profiles')
+      .select('user_id, keys, bigrams, updated_at')
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(
+        `SupabaseKeystrokeProfileStore: load failed: ${error.message}`
+      );
+    }
+
+    const row = data as KeystrokeProfileRow | null;
+    const profile = row ? { keys: row.keys, bigrams: row.bigrams } : null;
+    return isKeystrokeProfile(profile) ? profile : EMPTY_KEYSTROKE_PROFILE;
+  }
+
+  async save(profile: KeystrokeProfile): Promise<void> {
+    const row: KeystrokeProfileRow = {
+      user_id: this.userId,
+      keys: profile.keys,
+      bigrams: profile.bigrams,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await this.client
+      .from('keystroke_profiles')
+      .upsert(row, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(
+        `SupabaseKeystrokeProfileStore: save failed: ${error.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { KeyStats, KeystrokeProfile } from '../types';
+import { EMPTY_KEYSTROKE_PROFILE } from '../utils/keystrokeProfile';
+import { LocalStorageJson } from '../utils/localStorageJson';
+
+/**
+ * Persistence for a learner's keystroke profile
+ * Signed-in learners use SupabaseKeystrokeProfileStore, guests
+ * LocalStorageKeystrokeProfileStore
+ */
+export interface KeystrokeProfileStore {
+  load(): Promise<KeystrokeProfile>;
+  save(profile: KeystrokeProfile): Promise<void>; // Replaces the stored profile
+}
+
+export const LOCAL_KEYSTROKE_PROFILE_KEY = 'typing-quest:keystroke-profile';
+
+/**
+ * Keeps a guest's keystroke profile in localStorage
+ */
+export class LocalStorageKeystrokeProfileStore
+  implements KeystrokeProfileStore
+{
+  private entry: LocalStorageJson;
+
+  constructor(
+    storage?: Storage | null,
+    key: string = LOCAL_KEYSTROKE_PROFILE_KEY
+  ) {
+    this.entry = new LocalStorageJson(key, storage);
+  }
+
+  async load(): Promise<KeystrokeProfile> {
+    return this.entry.read(isKeystrokeProfile, EMPTY_KEYSTROKE_PROFILE);
+  }
+
+  async save(profile: KeystrokeProfile): Promise<void> {
+    this.entry.write(profile);
+  }
+}
+
+export function isKeystrokeProfile(value: unknown): value is KeystrokeProfile {
+  const profile = value as KeystrokeProfile;
+  return (
+    typeof profile === 'object' &&
+    profile !== null &&
+    isStatsTable(profile.keys) &&
+    isStatsTable(profile.bigrams)
+  );
+}
+
+function isStatsTable(value: unknown): value is Record<string, KeyStats> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.values(value).every(
+      (stats: KeyStats) =>
+        typeof stats === 'object' &&
+        stats !== null &&
+        typeof stats.count === 'number' &&
+        typeof stats.errors === 'number' &&
+        typeof stats.totalLatencyMs === 'number' &&
+        typeof stats.timedCount === 'number'
+    )
+  );
+}
@@ -0,0 +1,162 @@
+import {
+  MemoryOutboxStore,
+  NewOutboxEntry,
+  OutboxEntry,
+  OutboxStore,
+  ServerSession,
+} from './outboxStore';
+
+export const OUTBOX_DATABASE_NAME = 'typing-quest-outbox';
+
+const DATABASE_VERSION = 1;
+const ENTRIES = 'entries';
+const SESSIONS = 'sessions';
+
+interface SessionRow {
+  localSessionId: string;
+  serverSessionId: string;
+  guestToken?: string | null; // Missing in rows stored before guest tokens
+}
+
+/**
+ * OutboxStore in IndexedDB, so queued requests survive reloads
+ * Entries use an auto-incremented key, which keeps them in the order they
+ * were added; the IDBFactory can be swapped for a fake one in tests
+ */
+export class IndexedDbOutboxStore implements OutboxStore {
+  private factory: IDBFactory | null;
+  private databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    factory: IDBFactory | null = typeof indexedDB !== 'undefined'
+      ? indexedDB
+      : null,
+    databaseName: string = OUTBOX_DATABASE_NAME
+  ) {
+    this.factory = factory;
+    this.databaseName = databaseName;
+  }
+
+  async add(entry: NewOutboxEntry): Promise<OutboxEntry> {
+    const id = await this.run(ENTRIES, 'readwrite', store => store.add(entry));
+    return { ...entry, id: id as number } as OutboxEntry;
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return this.run(ENTRIES, 'readonly', store => store.getAll());
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.run(ENTRIES, 'readwrite', store => store.delete(id));
+  }
+
+  async getServerSession(
+    localSessionId: string
+  ): Promise<ServerSession | null> {
+    const row: SessionRow | undefined = await this.run(
+      SESSIONS,
+      'readonly',
+      store => store.get(localSessionId)
+    );
+    return row
+      ? { sessionId: row.serverSessionId, guestToken: row.guestToken ?? null }
+      : null;
+  }
+
+  async setServerSession(
+    localSessionId: string,
+    session: ServerSession
+  ): Promise<void> {
+    const row: SessionRow = {
+      localSessionId,
+      serverSessionId: session.sessionId,
+      guestToken: session.guestToken,
+    };
+    await this.run(SESSIONS, 'readwrite', store => store.put(row));
+  }
+
+  async removeSession(localSessionId: string): Promise<void> {
+    await this.run(SESSIONS, 'readwrite', store =>
+      store.delete(localSessionId)
+    );
+  }
+
+  close(): void {
+    this.database
+      ?.then(database => database.close())
+      .catch(() => {
+        // Never opened
+      });
+    this.database = null;
+  }
+
+  // =============================================================================
+  // DATABASE
+  // =============================================================================
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const factory = this.factory;
+      if (!factory) {
+        return Promise.reject(
+          new Error('IndexedDbOutboxStore: IndexedDB is not available')
+        );
+      }
+
+      this.database = new Promise((resolve, reject) => {
+        const request = factory.open(this.databaseName, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (!database.objectStoreNames.contains(ENTRIES)) {
+            database.createObjectStore(ENTRIES, {
+              keyPath: 'id',
+              autoIncrement: true,
+            });
+          }
+          if (!database.objectStoreNames.contains(SESSIONS)) {
+            database.createObjectStore(SESSIONS, {
+              keyPath: 'localSessionId',
+            });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Run one request in its own transaction, resolving once it has committed
+   */
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * The device's outbox: IndexedDB when the browser has it, otherwise one
+ * that only lasts as long as the page
+ */
+export function createOutboxStore(): OutboxStore {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDbOutboxStore(indexedDB)
+    : new MemoryOutboxStore();
+}
@@ -0,0 +1,342 @@
+import type {
+  CreateSessionRequest,
+  CreateSessionResponse,
+} from '../../api/types';
+import { GuestSessionStore } from '../guest/guestSessionStore';
+import { GameClock, systemClock } from '../utils/clock';
+import {
+  OutboxEntry,
+  OutboxMessage,
+  OutboxStore,
+  ServerSession,
+} from './outboxStore';
+
+export interface OutboxOptions {
+  fetch?: typeof fetch;
+  getAccessToken?: () => Promise<string | null>; // null sends as a guest
+  clock?: GameClock;
+  createKey?: () => string;
+  baseUrl?: string;
+  retryDelayMs?: number; // Delay after the first failure, doubled after each
+  maxRetryDelayMs?: number;
+  connectivity?: EventTarget | null; // Fires 'online', usually window
+  guestSessions?: GuestSessionStore | null; // Keeps guest tokens for claiming
+}
+
+type SendOutcome = 'sent' | 'dropped' | 'retry';
+
+const ENDPOINTS: Record<OutboxEntry['kind'], string> = {
+  'session-start': '/api/session',
+  attempt: '/api/attempt',
+  'session-end': '/api/session/end',
+};
+
+/**
+ * Sends queued session API requests in the order they were added
+ * Each request carries its entry's idempotency key, so one that reached the
+ * server before the connection dropped is not applied twice. A failed send
+ * stops the queue and retries with exponential backoff, or straight away
+ * when the browser comes back online. Attempts and the session end are
+ * queued under a local session id and sent with the server's id, and a
+ * guest's token, once the session start has gone through
+ */
+export class Outbox {
+  private store: OutboxStore;
+  private fetch: typeof fetch;
+  private getAccessToken: () => Promise<string | null>;
+  private clock: GameClock;
+  private createKey: () => string;
+  private baseUrl: string;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+  private connectivity: EventTarget | null;
+  private guestSessions: GuestSessionStore | null;
+
+  private failures = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private flushRequested = false;
+  private started = false;
+
+  constructor(store: OutboxStore, options: OutboxOptions = {}) {
+    this.store = store;
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.getAccessToken = options.getAccessToken ?? (async () => null);
+    this.clock = options.clock ?? systemClock;
+    this.createKey = options.createKey ?? (() => crypto.randomUUID());
+    this.baseUrl = options.baseUrl ?? '';
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60000;
+    this.connectivity =
+      options.connectivity !== undefined
+        ? options.connectivity
+        : typeof window !== 'undefined'
+          ? window
+          : null;
+    this.guestSessions = options.guestSessions ?? null;
+  }
+
+  // =============================================================================
+  // LIFECYCLE
+  // =============================================================================
+
+  /**
+   * Send whatever an earlier page left behind and resend on reconnect
+   */
+  start(): void {
+    if (this.started) return;
+
+    this.started = true;
+    this.connectivity?.addEventListener('online', this.handleOnline);
+    this.flushInBackground();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.connectivity?.removeEventListener('online', this.handleOnline);
+    this.clearRetry();
+  }
+
+  private handleOnline = (): void => {
+    this.failures = 0;
+    this.flushInBackground();
+  };
+
+  // =============================================================================
+  // QUEUE
+  // =============================================================================
+
+  /**
+   * Queue a request and try to send it
+   */
+  async enqueue(
+    localSessionId: string,
+    message: OutboxMessage
+  ): Promise<OutboxEntry> {
+    return this.add(localSessionId, message, this.createKey());
+  }
+
+  /**
+   * Create the server session now, so the battle can be played with its id,
+   * seed and rules
+   * Returns null when that is not possible: a start the server could not
+   * take yet is queued like any other, one it rejects is dropped
+   */
+  async openSession(
+    localSessionId: string,
+    request: CreateSessionRequest
+  ): Promise<CreateSessionResponse | null> {
+    const message: OutboxMessage = { kind: 'session-start', payload: request };
+    const idempotencyKey = this.createKey();
+
+    const response = await this.post(message, idempotencyKey, null);
+    if (response?.ok) {
+      const created: CreateSessionResponse = await response.json();
+      await this.recordSessionStart(localSessionId, created);
+      return created;
+    }
+
+    if (response && !isRetryable(response.status)) {
+      console.warn(
+        `Outbox: Dropped session-start of session ${localSessionId}, rejected with ${response.status}`
+      );
+      return null;
+    }
+
+    // Sent again with the same key, in case it did reach the server
+    await this.add(localSessionId, message, idempotencyKey);
+    return null;
+  }
+
+  private async add(
+    localSessionId: string,
+    message: OutboxMessage,
+    idempotencyKey: string
+  ): Promise<OutboxEntry> {
+    const entry = await this.store.add({
+      ...message,
+      localSessionId,
+      idempotencyKey,
+      createdAt: this.clock.now(),
+    });
+
+    if (this.started && !this.retryTimer) this.flushInBackground();
+    return entry;
+  }
+
+  /**
+   * Requests still waiting to be sent
+   */
+  async getPending(): Promise<OutboxEntry[]> {
+    return this.store.list();
+  }
+
+  /**
+   * Send queued requests until the queue is empty or a send fails
+   * Calls made while a flush is running share it
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushRequested = true;
+      return this.flushing;
+    }
+
+    this.clearRetry();
+    const flushing = this.sendQueued().finally(() => {
+      this.flushing = null;
+    });
+    this.flushing = flushing;
+    return flushing;
+  }
+
+  private flushInBackground(): void {
+    this.flush().catch(error =>
+      console.error('Outbox: Failed to send queued requests', error)
+    );
+  }
+
+  private async sendQueued(): Promise<void> {
+    for (;;) {
+      this.flushRequested = false;
+      const [entry] = await this.store.list();
+      if (!entry) {
+        // Something was queued while the list was read
+        if (this.flushRequested) continue;
+        break;
+      }
+
+      const outcome = await this.send(entry);
+      if (outcome === 'retry') {
+        this.scheduleRetry();
+        return;
+      }
+
+      this.failures = 0;
+      await this.store.remove(entry.id);
+      if (entry.kind === 'session-end') {
+        await this.store.removeSession(entry.localSessionId);
+      }
+    }
+  }
+
+  private async send(entry: OutboxEntry): Promise<SendOutcome> {
+    const session =
+      entry.kind === 'session-start'
+        ? null
+        : await this.store.getServerSession(entry.localSessionId);
+    if (entry.kind !== 'session-start' && !session) {
+      console.warn(
+        `Outbox: Dropped ${entry.kind} of session ${entry.localSessionId}, which never started`
+      );
+      return 'dropped';
+    }
+
+    const response = await this.post(entry, entry.idempotencyKey, session);
+    if (!response) return 'retry';
+
+    if (response.ok) {
+      if (entry.kind === 'session-start') {
+        await this.recordSessionStart(
+          entry.localSessionId,
+          await response.json()
+        );
+      }
+      return 'sent';
+    }
+
+    if (isRetryable(response.status)) return 'retry';
+
+    console.warn(
+      `Outbox: Dropped ${entry.kind} of session ${entry.localSessionId}, rejected with ${response.status}`
+    );
+    return 'dropped';
+  }
+
+  /**
+   * POST a message, with the server session's id for all but the session
+   * start; null when the server could not be reached
+   */
+  private async post(
+    message: OutboxMessage,
+    idempotencyKey: string,
+    session: ServerSession | null
+  ): Promise<Response | null> {
+    try {
+      const accessToken = await this.getAccessToken();
+      return await this.fetch(`${this.baseUrl}${ENDPOINTS[message.kind]}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey,
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+          ...(session?.guestToken && { 'X-Guest-Token': session.guestToken }),
+        },
+        body: JSON.stringify(
+          session
+            ? { ...message.payload, sessionId: session.sessionId }
+            : message.payload
+        ),
+      });
+    } catch {
+      return null; // Offline or the server could not be reached
+    }
+  }
+
+  /**
+   * Remember the server session for the battle's later entries; a guest's
+   * token is also kept for claiming the session after sign-in
+   */
+  private async recordSessionStart(
+    localSessionId: string,
+    response: CreateSessionResponse
+  ): Promise<void> {
+    const session: ServerSession = {
+      sessionId: response.sessionId,
+      guestToken: response.guestToken ?? null,
+    };
+    await this.store.setServerSession(localSessionId, session);
+
+    if (session.guestToken) {
+      await this.guestSessions?.save({
+        sessionId: session.sessionId,
+        guestToken: session.guestToken,
+      });
+    }
+  }
+
+  // =============================================================================
+  // RETRIES
+  // =============================================================================
+
+  private scheduleRetry(): void {
+    this.failures++;
+    if (!this.started) return;
+
+    this.clearRetry();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flushInBackground();
+    }, this.getRetryDelay());
+  }
+
+  /**
+   * Delay before the next retry after the failures so far
+   */
+  getRetryDelay(): number {
+    const exponent = Math.max(0, this.failures - 1);
+    return Math.min(this.maxRetryDelayMs, this.retryDelayMs * 2 ** exponent);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+}
+
+/**
+ * Statuses that may succeed later: timeouts, rate limits, server errors and
+ * an expired token that the next attempt refreshes
+ */
+function isRetryable(status: number): boolean {
+  return status === 401 || status === 408 || status === 429 || status >= 500;
+}
@@ -0,0 +1,146 @@
+import type {
+  CreateSessionRequest,
+  CreateSessionResponse,
+  SessionStats,
+} from '../../api/types';
+import { GameAdapter } from '../GameAdapter';
+import { GuardResult, SessionReplay, SessionResult } from '../types';
+import { Outbox } from './Outbox';
+import { OutboxMessage } from './outboxStore';
+
+/**
+ * Queues a battle in an Outbox from an adapter's events: the session start
+ * when play begins, each word-completed as an attempt and session-ended as
+ * the session end
+ * Attach before the session starts; a battle opened with openSession is not
+ * started again
+ */
+export class OutboxRecorder {
+  private adapter: GameAdapter;
+  private outbox: Outbox;
+  private createId: () => string;
+  private localSessionId: string | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    adapter: GameAdapter,
+    outbox: Outbox,
+    createId: () => string = () => crypto.randomUUID()
+  ) {
+    this.adapter = adapter;
+    this.outbox = outbox;
+    this.createId = createId;
+  }
+
+  attach(): void {
+    this.detach();
+    this.unsubscribers.push(
+      this.adapter.on('state-change', ({ oldState, newState }) => {
+        if (oldState.status === 'READY' && newState.status === 'PLAYING') {
+          this.recordStart();
+        }
+      }),
+      this.adapter.on('word-completed', ({ completedWord, result }) => {
+        if (!this.localSessionId) return;
+
+        this.queue(this.localSessionId, {
+          kind: 'attempt',
+          payload: {
+            type: result.type,
+            wordId: completedWord.id,
+            targetText: completedWord.text,
+            ms: Math.round(completedWord.timeMs),
+            errors: completedWord.errors,
+            accuracy: completedWord.accuracy,
+            score: Math.round(result.value),
+            combo: result.combo,
+            ...(result.breakdown && { breakdown: result.breakdown }),
+          },
+        });
+      }),
+      this.adapter.on('session-ended', ({ sessionResult }) =>
+        this.recordEnd(sessionResult)
+      )
+    );
+  }
+
+  /**
+   * Create the server session before the battle starts, for the id, seed and
+   * rules to play it with; null when it has to wait in the outbox
+   */
+  openSession(
+    request: CreateSessionRequest
+  ): Promise<CreateSessionResponse | null> {
+    this.localSessionId = this.createId();
+    return this.outbox.openSession(this.localSessionId, request);
+  }
+
+  private recordStart(): void {
+    const config = this.adapter.getConfig();
+    if (!config || this.localSessionId) return;
+
+    this.localSessionId = this.createId();
+    this.queue(this.localSessionId, {
+      kind: 'session-start',
+      payload: { packId: config.packId, difficulty: config.difficulty },
+    });
+  }
+
+  /**
+   * Queue the end of the battle being recorded
+   * For adapters that do not emit session-ended, call with the result built
+   * by a SessionResultRecorder. A replay lets the server verify the battle;
+   * only send one for a battle played with the server session's seed
+   */
+  recordEnd(sessionResult: SessionResult, replay?: SessionReplay): void {
+    if (!this.localSessionId) return;
+
+    this.queue(this.localSessionId, {
+      kind: 'session-end',
+      payload: {
+        result: sessionResult.result,
+        durationSec: Math.max(1, sessionResult.duration),
+        stats: toSessionStats(sessionResult),
+        ...(replay && { replay }),
+      },
+    });
+    this.localSessionId = null;
+  }
+
+  private queue(localSessionId: string, message: OutboxMessage): void {
+    this.outbox
+      .enqueue(localSessionId, message)
+      .catch(error =>
+        console.error(`OutboxRecorder: Failed to queue ${message.kind}`, error)
+      );
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
+
+/**
+ * The stats sent with POST /api/session/end
+ */
+export function toSessionStats(sessionResult: SessionResult): SessionStats {
+  const stats = sessionResult.finalStats;
+  const guards = sessionResult.actions.filter(
+    (action): action is GuardResult => action.type === 'GUARD'
+  );
+
+  return {
+    wpm: stats.wpm,
+    acc: stats.accuracy,
+    comboMax: stats.maxCombo,
+    atkCount: stats.attackCount,
+    healCount: stats.healCount,
+    guardRate:
+      guards.length > 0
+        ? guards.filter(guard => guard.blocked).length / guards.length
+        : 0,
+    damage: Math.round(stats.totalDamage),
+    damageTaken: Math.round(stats.damageTaken),
+  };
+}
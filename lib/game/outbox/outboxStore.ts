@@ -0,0 +1,104 @@
+import type {
+  CreateSessionRequest,
+  EndSessionRequest,
+  RecordAttemptRequest,
+} from '../../api/types';
+
+/**
+ * Session API requests waiting to be sent, kept on the device so a battle
+ * played offline reaches the server once the connection is back
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A request body for the session API; attempts and the session end leave out
+ * the session id, which is only known once the session start has been sent
+ */
+export type OutboxMessage =
+  | { kind: 'session-start'; payload: CreateSessionRequest }
+  | { kind: 'attempt'; payload: Omit<RecordAttemptRequest, 'sessionId'> }
+  | { kind: 'session-end'; payload: Omit<EndSessionRequest, 'sessionId'> };
+
+export type OutboxEntryKind = OutboxMessage['kind'];
+
+export type NewOutboxEntry = OutboxMessage & {
+  localSessionId: string; // Groups the entries of one battle
+  idempotencyKey: string; // Sent as the Idempotency-Key header
+  createdAt: number;
+};
+
+export type OutboxEntry = NewOutboxEntry & {
+  id: number; // Increases in the order entries were added
+};
+
+/**
+ * What the session start returned for a battle
+ */
+export interface ServerSession {
+  sessionId: string;
+  guestToken: string | null; // Sent as X-Guest-Token; null for players
+}
+
+/**
+ * Storage for outbox entries and the server session of each battle
+ */
+export interface OutboxStore {
+  add(entry: NewOutboxEntry): Promise<OutboxEntry>;
+  list(): Promise<OutboxEntry[]>; // Oldest first
+  remove(id: number): Promise<void>;
+  getServerSession(localSessionId: string): Promise<ServerSession | null>;
+  setServerSession(
+    localSessionId: string,
+    session: ServerSession
+  ): Promise<void>;
+  removeSession(localSessionId: string): Promise<void>;
+}
+
+// =============================================================================
+// IN MEMORY
+// =============================================================================
+
+/**
+ * OutboxStore that lasts as long as the page, for tests and browsers
+ * without IndexedDB
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private entries: OutboxEntry[] = [];
+  private sessions = new Map<string, ServerSession>();
+  private nextId = 1;
+
+  async add(entry: NewOutboxEntry): Promise<OutboxEntry> {
+    const stored = { ...entry, id: this.nextId++ } as OutboxEntry;
+    this.entries.push(stored);
+    return { ...stored };
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  async remove(id: number): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== id);
+  }
+
+  async getServerSession(
+    localSessionId: string
+  ): Promise<ServerSession | null> {
+    const session = this.sessions.get(localSessionId);
+    return session ? { ...session } : null;
+  }
+
+  async setServerSession(
+    localSessionId: string,
+    session: ServerSession
+  ): Promise<void> {
+    this.sessions.set(localSessionId, { ...session });
+  }
+
+  async removeSession(localSessionId: string): Promise<void> {
+    this.sessions.delete(localSessionId);
+  }
+}
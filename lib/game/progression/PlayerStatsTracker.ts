@@ -0,0 +1,78 @@
+import { GameAdapter } from '../GameAdapter';
+import { ExperienceGain, LevelCurve, PlayerStats } from '../types';
+import {
+  DEFAULT_LEVEL_CURVE,
+  DEFAULT_PLAYER_STATS,
+  applySessionResult,
+} from '../utils/progression';
+import { PlayerStatsStore } from './playerStatsStore';
+
+/**
+ * Awards experience for an adapter's finished battles and saves the player's
+ * stats to a PlayerStatsStore
+ * Listens for game-over, which every adapter emits when a session is won or
+ * lost; aborted sessions earn nothing
+ */
+export class PlayerStatsTracker {
+  private adapter: GameAdapter;
+  private store: PlayerStatsStore;
+  private curve: LevelCurve;
+  private stats: PlayerStats = DEFAULT_PLAYER_STATS;
+  private lastGain: ExperienceGain | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    adapter: GameAdapter,
+    store: PlayerStatsStore,
+    curve: LevelCurve = DEFAULT_LEVEL_CURVE
+  ) {
+    this.adapter = adapter;
+    this.store = store;
+    this.curve = curve;
+  }
+
+  /**
+   * Load the stored stats and start listening
+   * Returns the stats to pass as the session seed's playerStats
+   */
+  async attach(): Promise<PlayerStats> {
+    this.stats = await this.store.load();
+    this.lastGain = null;
+
+    this.detach();
+    this.unsubscribers.push(
+      this.adapter.on('game-over', ({ result, finalStats }) => {
+        this.lastGain = applySessionResult(
+          this.stats,
+          { result, finalStats },
+          this.curve
+        );
+        this.stats = this.lastGain.stats;
+
+        this.store
+          .save(this.stats)
+          .catch(error =>
+            console.error('PlayerStatsTracker: Failed to save stats', error)
+          );
+      })
+    );
+
+    return this.stats;
+  }
+
+  getStats(): PlayerStats {
+    return this.stats;
+  }
+
+  /**
+   * Experience and levels from the last finished session, null before one ends
+   */
+  getLastGain(): ExperienceGain | null {
+    return this.lastGain;
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
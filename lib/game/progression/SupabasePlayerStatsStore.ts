@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PlayerStats } from '../types';
+import { DEFAULT_PLAYER_STATS } from '../utils/progression';
+import { PlayerStatsStore, isPlayerStats } from './playerStatsStore';
+
+/**
+ * Keeps a signed-in player's stats in the player_stats table, one row per
+ * profile
+ * The client must be authenticated as the player; RLS limits rows to them
+ */
+
+interface PlayerStatsRow {
+  user_id: string;
+  level: number;
+  experience: number;
+  average_wpm: number;
+  average_accuracy: number;
+  games_played: number;
+  games_won: number;
+  updated_at: string;
+}
+
+export class SupabasePlayerStatsStore implements PlayerStatsStore {
+  private client: SupabaseClient;
+  private userId: string;
+
+  constructor(client: SupabaseClient, userId: string) {
+    this.client = client;
+    this.userId = userId;
+  }
+
+  async load(): Promise<PlayerStats> {
+    const { data, error } = await this.client
+      .from('player_stats')
+      .select(
+        'user_id, level, experience, average_wpm, average_accuracy, games_played, games_won, updated_at'
+      )
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(
+        `SupabasePlayerStatsStore: load failed: ${error.message}`
+      );
+    }
+
+    const row = data as PlayerStatsRow | null;
+    const stats = row ? fromRow(row) : null;
+    return isPlayerStats(stats) ? stats : DEFAULT_PLAYER_STATS;
+  }
+
+  async save(stats: PlayerStats): Promise<void> {
+    const row: PlayerStatsRow = {
+      user_id: this.userId,
+      level: stats.level,
+      experience: stats.experience,
+      average_wpm: stats.averageWPM,
+      average_accuracy: stats.averageAccuracy,
+      games_played: stats.gamesPlayed,
+      games_won: stats.gamesWon,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await this.client
+      .from('player_stats')
+      .upsert(row, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(
+        `SupabasePlayerStatsStore: save failed: ${error.message}`
+      );
+    }
+  }
+}
+
+function fromRow(row: PlayerStatsRow): PlayerStats {
+  return {
+    level: row.level,
+    experience: row.experience,
+    averageWPM: row.average_wpm,
+    averageAccuracy: row.average_accuracy,
+    gamesPlayed: row.games_played,
+    gamesWon: row.games_won,
+  };
+}
@@ -0,0 +1,49 @@
+import { PlayerStats } from '../types';
+import { LocalStorageJson } from '../utils/localStorageJson';
+import { DEFAULT_PLAYER_STATS } from '../utils/progression';
+
+/**
+ * Persistence for a player's level, experience and averages
+ * Signed-in players use SupabasePlayerStatsStore, guests
+ * LocalStoragePlayerStatsStore
+ */
+export interface PlayerStatsStore {
+  load(): Promise<PlayerStats>;
+  save(stats: PlayerStats): Promise<void>; // Replaces the stored stats
+}
+
+export const LOCAL_PLAYER_STATS_KEY = 'typing-quest:player-stats';
+
+/**
+ * Keeps a guest's player stats in localStorage
+ */
+export class LocalStoragePlayerStatsStore implements PlayerStatsStore {
+  private entry: LocalStorageJson;
+
+  constructor(storage?: Storage | null, key: string = LOCAL_PLAYER_STATS_KEY) {
+    this.entry = new LocalStorageJson(key, storage);
+  }
+
+  async load(): Promise<PlayerStats> {
+    return this.entry.read(isPlayerStats, DEFAULT_PLAYER_STATS);
+  }
+
+  async save(stats: PlayerStats): Promise<void> {
+    this.entry.write(stats);
+  }
+}
+
+export function isPlayerStats(value: unknown): value is PlayerStats {
+  const stats = value as PlayerStats;
+  return (
+    typeof stats === 'object' &&
+    stats !== null &&
+    Number.isInteger(stats.level) &&
+    stats.level >= 1 &&
+    typeof stats.experience === 'number' &&
+    typeof stats.averageWPM === 'number' &&
+    typeof stats.averageAccuracy === 'number' &&
+    typeof stats.gamesPlayed === 'number' &&
+    typeof stats.gamesWon === 'number'
+  );
+}
@@ -0,0 +1,150 @@
+import { GameAdapter } from '../GameAdapter';
+import {
+  GameConfig,
+  GameEventData,
+  KeystrokeEvent,
+  ReplayMarker,
+  SessionReplay,
+  SessionResult,
+  SessionSeed,
+} from '../types';
+import { REPLAY_FORMAT_VERSION } from './replayFormat';
+
+/**
+ * Records a session from an adapter's events into a SessionReplay
+ * Attach before start() so the session seed and start time are captured
+ */
+export class ReplayRecorder {
+  private adapter: GameAdapter;
+  private unsubscribers: Array<() => void> = [];
+
+  private startedAt: number | null = null;
+  private config: GameConfig | null = null;
+  private sessionSeed: SessionSeed | null = null;
+  private keystrokes: KeystrokeEvent[] = [];
+  private markers: ReplayMarker[] = [];
+  private durationMs: number | null = null;
+  private result: SessionResult['result'] | undefined;
+
+  constructor(adapter: GameAdapter) {
+    this.adapter = adapter;
+
+    this.unsubscribers.push(
+      adapter.on('state-change', data => this.handleStateChange(data)),
+      adapter.on('keystroke', keystroke => this.handleKeystroke(keystroke)),
+      adapter.on('session-ended', ({ sessionResult }) =>
+        this.finish(sessionResult.result)
+      )
+    );
+  }
+
+  // =============================================================================
+  // RECORDING
+  // =============================================================================
+
+  private handleStateChange({
+    oldState,
+    newState,
+  }: GameEventData['state-change']): void {
+    if (oldState.status === newState.status) return;
+
+    if (oldState.status === 'READY' && newState.status === 'PLAYING') {
+      this.begin();
+    } else if (newState.status === 'PAUSED') {
+      this.addMarker('pause');
+    } else if (oldState.status === 'PAUSED' && newState.status === 'PLAYING') {
+      this.addMarker('resume');
+    } else if (newState.status === 'ENDED') {
+      this.finish();
+    }
+  }
+
+  private begin(): void {
+    const config = this.adapter.getConfig();
+    const sessionSeed = this.adapter.getSessionSeed();
+    if (!config || !sessionSeed) return;
+
+    this.startedAt = this.adapter.getClock().now();
+    this.config = { ...config };
+    this.sessionSeed = { ...sessionSeed };
+    this.keystrokes = [];
+    this.markers = [];
+    this.durationMs = null;
+    this.result = undefined;
+  }
+
+  private handleKeystroke(keystroke: KeystrokeEvent): void {
+    if (!this.isRecording()) return;
+
+    this.keystrokes.push({
+      ...keystroke,
+      timestamp: this.elapsed(keystroke.timestamp),
+    });
+  }
+
+  private addMarker(type: ReplayMarker['type']): void {
+    if (!this.isRecording()) return;
+
+    this.markers.push({
+      type,
+      timestamp: this.elapsed(this.adapter.getClock().now()),
+    });
+  }
+
+  private finish(result?: SessionResult['result']): void {
+    if (this.startedAt === null) return;
+
+    if (this.durationMs === null) {
+      this.durationMs = this.elapsed(this.adapter.getClock().now());
+    }
+    if (result) {
+      this.result = result;
+    }
+  }
+
+  private elapsed(timestamp: number): number {
+    return Math.max(0, timestamp - (this.startedAt ?? timestamp));
+  }
+
+  // =============================================================================
+  // PUBLIC ACCESS METHODS
+  // =============================================================================
+
+  /**
+   * True between the session starting and ending
+   */
+  isRecording(): boolean {
+    return this.startedAt !== null && this.durationMs === null;
+  }
+
+  /**
+   * Build the replay recorded so far
+   * Can be called mid-session, e.g. to attach to a bug report
+   */
+  getReplay(): SessionReplay {
+    if (this.startedAt === null || !this.config || !this.sessionSeed) {
+      throw new Error('ReplayRecorder: No session has been recorded');
+    }
+
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      recordedAt: new Date().toISOString(),
+      config: this.config,
+      sessionSeed: this.sessionSeed,
+      keystrokes: [...this.keystrokes],
+      markers: [...this.markers],
+      durationMs:
+        this.durationMs ?? this.elapsed(this.adapter.getClock().now()),
+      result: this.result,
+    };
+  }
+
+  /**
+   * Stop listening to the adapter
+   */
+  detach(): void {
+    this.finish();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
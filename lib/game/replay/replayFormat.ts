@@ -0,0 +1,181 @@
+import { SessionReplay, ValidationResult } from '../types';
+
+/**
+ * Helpers for the SessionReplay format
+ * Validation, JSON round-tripping and flattening a replay into the ordered
+ * steps an adapter plays back
+ */
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+export type ReplayStep =
+  | { at: number; type: 'keystroke'; key: string }
+  | { at: number; type: 'pause' | 'resume' };
+
+// Keys cannot arrive while paused, so on a timestamp tie a resume comes
+// before the key and a pause after it
+const STEP_ORDER: Record<ReplayStep['type'], number> = {
+  resume: 0,
+  keystroke: 1,
+  pause: 2,
+};
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Check a replay is well formed and can be played back
+ * Takes untrusted input, e.g. a replay posted to the API
+ */
+export function validateReplay(replay: unknown): ValidationResult {
+  if (!isRecord(replay)) {
+    return { valid: false, errors: ['Replay must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { config, sessionSeed, keystrokes, markers, durationMs } = replay;
+
+  if (replay.version !== REPLAY_FORMAT_VERSION) {
+    errors.push(`Unsupported replay version: ${replay.version}`);
+  }
+  if (
+    !isRecord(config) ||
+    typeof config.sessionId !== 'string' ||
+    !config.sessionId
+  ) {
+    errors.push('Replay config is missing a sessionId');
+  }
+  if (!isRecord(sessionSeed) || !Array.isArray(sessionSeed.words)) {
+    errors.push('Replay sessionSeed is missing its words');
+  } else if (sessionSeed.words.length === 0) {
+    errors.push('Replay sessionSeed has no words');
+  } else {
+    sessionSeed.words.forEach((word: unknown, index) => {
+      if (
+        !isRecord(word) ||
+        typeof word.id !== 'string' ||
+        typeof word.text !== 'string'
+      ) {
+        errors.push(`Replay word ${index} needs a string id and text`);
+      }
+    });
+  }
+  if (!Array.isArray(keystrokes)) {
+    errors.push('Replay keystrokes must be an array');
+  }
+  if (!Array.isArray(markers)) {
+    errors.push('Replay markers must be an array');
+  }
+  if (!isTimestamp(durationMs)) {
+    errors.push(`Invalid replay duration: ${durationMs}`);
+  }
+
+  if (Array.isArray(keystrokes)) {
+    let previous = 0;
+    keystrokes.forEach((keystroke: unknown, index) => {
+      if (!isRecord(keystroke)) {
+        errors.push(`Keystroke ${index} must be an object`);
+        return;
+      }
+      if (typeof keystroke.key !== 'string' || keystroke.key.length === 0) {
+        errors.push(`Keystroke ${index} has no key`);
+      }
+      if (!isTimestamp(keystroke.timestamp)) {
+        errors.push(`Keystroke ${index} has an invalid timestamp`);
+      } else if (keystroke.timestamp < previous) {
+        errors.push(`Keystroke ${index} is out of order`);
+      } else {
+        previous = keystroke.timestamp;
+      }
+    });
+  }
+
+  if (Array.isArray(markers)) {
+    markers.forEach((marker: unknown, index) => {
+      if (!isRecord(marker)) {
+        errors.push(`Marker ${index} must be an object`);
+        return;
+      }
+      if (marker.type !== 'pause' && marker.type !== 'resume') {
+        errors.push(`Marker ${index} has an invalid type`);
+      }
+      if (!isTimestamp(marker.timestamp)) {
+        errors.push(`Marker ${index} has an invalid timestamp`);
+      }
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Type guard for a replay that passes validateReplay
+ */
+export function isSessionReplay(value: unknown): value is SessionReplay {
+  return validateReplay(value).valid;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+export function serializeReplay(replay: SessionReplay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a replay from JSON
+ */
+export function parseReplay(json: string): SessionReplay {
+  let replay: SessionReplay;
+  try {
+    replay = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`parseReplay: Invalid JSON: ${(error as Error).message}`);
+  }
+
+  const validation = validateReplay(replay);
+  if (!validation.valid) {
+    throw new Error(`parseReplay: ${validation.errors.join('; ')}`);
+  }
+
+  return replay;
+}
+
+// =============================================================================
+// PLAYBACK
+// =============================================================================
+
+/**
+ * Merge keystrokes and pause markers into one timeline
+ */
+export function getReplaySteps(replay: SessionReplay): ReplayStep[] {
+  const steps: ReplayStep[] = [
+    ...replay.keystrokes.map(keystroke => ({
+      at: keystroke.timestamp,
+      type: 'keystroke' as const,
+      key: keystroke.key,
+    })),
+    ...replay.markers.map(marker => ({
+      at: marker.timestamp,
+      type: marker.type,
+    })),
+  ];
+
+  // Array.prototype.sort is stable, so recorded order survives within a type
+  return steps.sort(
+    (a, b) => a.at - b.at || STEP_ORDER[a.type] - STEP_ORDER[b.type]
+  );
+}
@@ -0,0 +1,96 @@
+import { GameAdapter } from '../GameAdapter';
+import {
+  ActionResult,
+  CompletedWord,
+  GameEventData,
+  SessionResult,
+} from '../types';
+import { SessionResultStore } from './sessionResultStore';
+
+/**
+ * Builds a SessionResult from an adapter's events and saves it to a
+ * SessionResultStore when the battle ends
+ * Works with adapters that do not produce a SessionResult themselves; when
+ * one does (session-ended), its result replaces the recorded one
+ */
+export class SessionResultRecorder {
+  private adapter: GameAdapter;
+  private store: SessionResultStore;
+  private attempts: CompletedWord[] = [];
+  private actions: ActionResult[] = [];
+  private result: SessionResult | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(adapter: GameAdapter, store: SessionResultStore) {
+    this.adapter = adapter;
+    this.store = store;
+  }
+
+  /**
+   * Start listening; attach before the session starts
+   */
+  attach(): void {
+    this.detach();
+    this.unsubscribers.push(
+      this.adapter.on('state-change', ({ oldState, newState }) => {
+        if (oldState.status === 'READY' && newState.status === 'PLAYING') {
+          this.attempts = [];
+          this.actions = [];
+          this.result = null;
+        }
+      }),
+      this.adapter.on('word-completed', ({ completedWord, result }) => {
+        this.attempts.push(completedWord);
+        this.actions.push(result);
+      }),
+      this.adapter.on('game-over', data => this.finish(this.buildResult(data))),
+      this.adapter.on('session-ended', ({ sessionResult }) =>
+        this.finish(sessionResult)
+      )
+    );
+  }
+
+  private buildResult({
+    result,
+    finalStats,
+  }: GameEventData['game-over']): SessionResult | null {
+    const config = this.adapter.getConfig();
+    if (!config) return null;
+
+    return {
+      sessionId: this.adapter.getSessionSeed()?.sessionId ?? config.sessionId,
+      result,
+      finalStats: { ...finalStats },
+      // The timer stops while paused, so this is the time actually played
+      duration: Math.round(
+        config.durationSec - this.adapter.getState().timeLeft
+      ),
+      attempts: [...this.attempts],
+      actions: [...this.actions],
+      difficulty: this.adapter.getDifficultyEstimate() ?? undefined,
+    };
+  }
+
+  private finish(result: SessionResult | null): void {
+    if (!result) return;
+
+    this.result = result;
+    this.store
+      .save(result)
+      .catch(error =>
+        console.error('SessionResultRecorder: Failed to save result', error)
+      );
+  }
+
+  /**
+   * The finished session's result, null while it is being played
+   */
+  getResult(): SessionResult | null {
+    return this.result;
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
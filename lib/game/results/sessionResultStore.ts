@@ -0,0 +1,86 @@
+import { CompletedWord, SessionResult } from '../types';
+import { LocalStorageJson } from '../utils/localStorageJson';
+
+/**
+ * Session results kept on this device, so the results screen works for
+ * guests and without a connection
+ * Signed-in players' sessions are also stored server-side through the API
+ */
+export interface SessionResultStore {
+  load(sessionId: string): Promise<SessionResult | null>;
+  list(): Promise<SessionResult[]>; // Newest first
+  save(result: SessionResult): Promise<void>; // Replaces a result with the same id
+}
+
+export const LOCAL_SESSION_RESULTS_KEY = 'typing-quest:session-results';
+
+// Results kept in localStorage; older ones are dropped
+const MAX_LOCAL_RESULTS = 20;
+
+/**
+ * Keeps the latest session results in localStorage
+ */
+export class LocalStorageSessionResultStore implements SessionResultStore {
+  private entry: LocalStorageJson;
+
+  constructor(
+    storage?: Storage | null,
+    key: string = LOCAL_SESSION_RESULTS_KEY
+  ) {
+    this.entry = new LocalStorageJson(key, storage);
+  }
+
+  async load(sessionId: string): Promise<SessionResult | null> {
+    const results = await this.list();
+    return results.find(result => result.sessionId === sessionId) ?? null;
+  }
+
+  async list(): Promise<SessionResult[]> {
+    return this.entry.readList(isSessionResult);
+  }
+
+  async save(result: SessionResult): Promise<void> {
+    const others = (await this.list()).filter(
+      stored => stored.sessionId !== result.sessionId
+    );
+    this.entry.write(
+      [compactResult(result), ...others].slice(0, MAX_LOCAL_RESULTS)
+    );
+  }
+}
+
+/**
+ * Keystroke patterns are dropped to stay within storage limits; the
+ * keystroke profile keeps what matters from them
+ */
+function compactResult(result: SessionResult): SessionResult {
+  const compactWord = (completedWord: CompletedWord): CompletedWord => {
+    const word = { ...completedWord };
+    delete word.keystrokePattern;
+    return word;
+  };
+
+  return {
+    ...result,
+    attempts: result.attempts.map(compactWord),
+    actions: result.actions.map(action => ({
+      ...action,
+      word: compactWord(action.word),
+    })),
+  };
+}
+
+export function isSessionResult(value: unknown): value is SessionResult {
+  const result = value as SessionResult;
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    typeof result.sessionId === 'string' &&
+    ['WIN', 'LOSE', 'ABORT'].includes(result.result) &&
+    typeof result.finalStats === 'object' &&
+    result.finalStats !== null &&
+    typeof result.duration === 'number' &&
+    Array.isArray(result.attempts) &&
+    Array.isArray(result.actions)
+  );
+}
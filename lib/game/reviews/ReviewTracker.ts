@@ -0,0 +1,82 @@
+import { GameAdapter } from '../GameAdapter';
+import { ReviewSchedule, WordReview } from '../types';
+import { reviewCompletedWord } from '../utils/spacedRepetition';
+import { ReviewStore } from './reviewStore';
+
+/**
+ * Updates a learner's word reviews from an adapter's completed words and
+ * saves them to a ReviewStore when the session ends
+ */
+export class ReviewTracker {
+  private adapter: GameAdapter;
+  private store: ReviewStore;
+  private reviews = new Map<string, WordReview>();
+  private changed = new Set<string>();
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(adapter: GameAdapter, store: ReviewStore) {
+    this.adapter = adapter;
+    this.store = store;
+  }
+
+  /**
+   * Load stored reviews and start listening
+   * Returns the schedule to pass as the session seed's reviewSchedule
+   */
+  async attach(): Promise<ReviewSchedule> {
+    const stored = await this.store.load();
+    this.reviews = new Map(stored.map(review => [review.wordId, review]));
+    this.changed.clear();
+
+    this.detach();
+    this.unsubscribers.push(
+      this.adapter.on('word-completed', ({ completedWord }) => {
+        const now = this.adapter.getClock().now();
+        this.reviews.set(
+          completedWord.id,
+          reviewCompletedWord(
+            this.reviews.get(completedWord.id),
+            completedWord,
+            now
+          )
+        );
+        this.changed.add(completedWord.id);
+      }),
+      this.adapter.on('session-ended', () => {
+        this.flush().catch(error =>
+          console.error('ReviewTracker: Failed to save reviews', error)
+        );
+      })
+    );
+
+    return { asOf: this.adapter.getClock().now(), reviews: stored };
+  }
+
+  /**
+   * Save reviews changed since the last flush
+   */
+  async flush(): Promise<void> {
+    if (this.changed.size === 0) return;
+
+    const pending = Array.from(this.changed).map(
+      wordId => this.reviews.get(wordId)!
+    );
+    this.changed.clear();
+
+    try {
+      await this.store.save(pending);
+    } catch (error) {
+      pending.forEach(review => this.changed.add(review.wordId));
+      throw error;
+    }
+  }
+
+  getReviews(): WordReview[] {
+    return Array.from(this.reviews.values());
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
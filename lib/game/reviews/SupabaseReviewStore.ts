@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { WordReview } from '../types';
+import { ReviewStore } from './reviewStore';
+
+/**
+ * Keeps a signed-in learner's reviews in the word_reviews table
+ * The client must be authenticated as the learner; RLS limits rows to them
+ */
+
+interface WordReviewRow {
+  user_id: string;
+  word_id: string;
+  ease_factor: number | string; // numeric columns can arrive as strings
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string;
+}
+
+export class SupabaseReviewStore implements ReviewStore {
+  private client: SupabaseClient;
+  private userId: string;
+
+  constructor(client: SupabaseClient, userId: string) {
+    this.client = client;
+    this.userId = userId;
+  }
+
+  async load(): Promise<WordReview[]> {
+    const { data, error } = await this.client
+      .from('word_reviews')
+      .select(
+        'user_id, word_id, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at'
+      )
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new Error(`SupabaseReviewStore: load failed: ${error.message}`);
+    }
+    return (data as WordReviewRow[]).map(toWordReview);
+  }
+
+  async save(reviews: WordReview[]): Promise<void> {
+    if (reviews.length === 0) return;
+
+    const { error } = await this.client.from('word_reviews').upsert(
+      reviews.map(review => toRow(review, this.userId)),
+      { onConflict: 'user_id,word_id' }
+    );
+
+    if (error) {
+      throw new Error(`SupabaseReviewStore: save failed: ${error.message}`);
+    }
+  }
+}
+
+// =============================================================================
+// ROW MAPPING
+// =============================================================================
+
+function toWordReview(row: WordReviewRow): WordReview {
+  return {
+    wordId: row.word_id,
+    easeFactor: Number(row.ease_factor),
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: Date.parse(row.due_at),
+    lastReviewedAt: Date.parse(row.last_reviewed_at),
+  };
+}
+
+function toRow(review: WordReview, userId: string): WordReviewRow {
+  return {
+    user_id: userId,
+    word_id: review.wordId,
+    ease_factor: review.easeFactor,
+    interval_days: review.intervalDays,
+    repetitions: review.repetitions,
+    lapses: review.lapses,
+    due_at: new Date(review.dueAt).toISOString(),
+    last_reviewed_at: new Date(review.lastReviewedAt).toISOString(),
+  };
+}
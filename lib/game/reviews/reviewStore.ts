@@ -0,0 +1,50 @@
+import { WordReview } from '../types';
+import { LocalStorageJson } from '../utils/localStorageJson';
+
+/**
+ * Persistence for a learner's word reviews
+ * Signed-in learners use SupabaseReviewStore, guests LocalStorageReviewStore
+ */
+export interface ReviewStore {
+  load(): Promise<WordReview[]>;
+  save(reviews: WordReview[]): Promise<void>; // Upserts by wordId
+}
+
+export const LOCAL_REVIEWS_KEY = 'typing-quest:word-reviews';
+
+/**
+ * Keeps guest reviews in localStorage as one list, merged by word on save
+ */
+export class LocalStorageReviewStore implements ReviewStore {
+  private entry: LocalStorageJson;
+
+  constructor(storage?: Storage | null, key: string = LOCAL_REVIEWS_KEY) {
+    this.entry = new LocalStorageJson(key, storage);
+  }
+
+  async load(): Promise<WordReview[]> {
+    return this.entry.readList(isWordReview);
+  }
+
+  async save(reviews: WordReview[]): Promise<void> {
+    const merged = new Map(
+      (await this.load()).map(review => [review.wordId, review])
+    );
+    reviews.forEach(review => merged.set(review.wordId, review));
+
+    this.entry.write(Array.from(merged.values()));
+  }
+}
+
+function isWordReview(value: unknown): value is WordReview {
+  const review = value as WordReview;
+  return (
+    typeof review === 'object' &&
+    review !== null &&
+    typeof review.wordId === 'string' &&
+    typeof review.easeFactor === 'number' &&
+    typeof review.intervalDays === 'number' &&
+    typeof review.repetitions === 'number' &&
+    typeof review.dueAt === 'number'
+  );
+}
@@ -1,4 +1,5 @@
-import { GameState, Word, PerformanceMetrics } from '../types';
+import { GameState, Word, PerformanceMetrics, PhraseProgress, StatusEffect } from '../types';
+import { STATUS_EFFECTS } from '../effects/statusEffects';
 
 /**
  * Main game scene for Phaser 3
@@ -17,6 +18,8 @@ export interface GameSceneElements {
   playerHPBackground: Phaser.GameObjects.Graphics;
   enemyHPBar: Phaser.GameObjects.Graphics;
   enemyHPBackground: Phaser.GameObjects.Graphics;
+  playerEffectsText: Phaser.GameObjects.Text;
+  enemyEffectsText: Phaser.GameObjects.Text;
   
   // Word Displays
   attackWordText: Phaser.GameObjects.Text;
@@ -27,6 +30,7 @@ export interface GameSceneElements {
   // Characters
   playerSprite: Phaser.GameObjects.Sprite;
   enemySprite: Phaser.GameObjects.Sprite;
+  enemyNameText: Phaser.GameObjects.Text;
   
   // Effects
   particleManager?: Phaser.GameObjects.Particles.ParticleEmitter;
@@ -37,11 +41,13 @@ export class GameScene extends Phaser.Scene {
   private elements: Partial<GameSceneElements> = {};
   private gameState: GameState | null = null;
   private currentInput = '';
+  private wordsScrambled = false;
   private animationTweens: Phaser.Tweens.Tween[] = [];
 
   // Scene configuration
   private readonly SCENE_WIDTH = 800;
   private readonly SCENE_HEIGHT = 600;
+  private readonly WORD_WRAP_WIDTH = 220;
   
   // Layout constants
   private readonly LAYOUT = {
@@ -198,6 +204,17 @@ export class GameScene extends Phaser.Scene {
       fontSize: '14px',
       color: '#ffffff',
     }).setOrigin(0);
+
+    // Status effects under each HP bar
+    const effectsY = this.LAYOUT.ENEMY_HP_Y + this.LAYOUT.HP_BAR_HEIGHT + 8;
+    this.elements.playerEffectsText = this.add.text(this.LAYOUT.PLAYER_HP_X, effectsY, '', {
+      fontSize: '12px',
+      color: '#f1c40f',
+    });
+    this.elements.enemyEffectsText = this.add.text(this.LAYOUT.ENEMY_HP_X, effectsY, '', {
+      fontSize: '12px',
+      color: '#f1c40f',
+    });
   }
 
   private createWordDisplays(): void {
@@ -208,6 +225,8 @@ export class GameScene extends Phaser.Scene {
       fontFamily: 'Courier New',
       backgroundColor: '#2c3e50',
       padding: { x: 8, y: 4 },
+      align: 'center',
+      wordWrap: { width: this.WORD_WRAP_WIDTH },
     }).setOrigin(0.5);
 
     this.add.text(this.LAYOUT.ATTACK_WORD_X, this.LAYOUT.ATTACK_WORD_Y - 30, 'ATTACK', {
@@ -223,6 +242,8 @@ export class GameScene extends Phaser.Scene {
       fontFamily: 'Courier New',
       backgroundColor: '#2c3e50',
       padding: { x: 8, y: 4 },
+      align: 'center',
+      wordWrap: { width: this.WORD_WRAP_WIDTH },
     }).setOrigin(0.5);
 
     this.add.text(this.LAYOUT.HEAL_WORD_X, this.LAYOUT.HEAL_WORD_Y - 30, 'HEAL', {
@@ -238,6 +259,8 @@ export class GameScene extends Phaser.Scene {
       fontFamily: 'Courier New',
       backgroundColor: '#2c3e50',
       padding: { x: 8, y: 4 },
+      align: 'center',
+      wordWrap: { width: this.WORD_WRAP_WIDTH },
     }).setOrigin(0.5);
 
     this.add.text(this.LAYOUT.GUARD_WORD_X, this.LAYOUT.GUARD_WORD_Y - 30, 'GUARD', {
@@ -264,10 +287,11 @@ export class GameScene extends Phaser.Scene {
       color: '#ffffff',
     }).setOrigin(0.5);
 
-    this.add.text(this.LAYOUT.ENEMY_X, this.LAYOUT.ENEMY_Y + 60, 'Enemy', {
+    this.elements.enemyNameText = this.add.text(this.LAYOUT.ENEMY_X, this.LAYOUT.ENEMY_Y + 60, 'Enemy', {
       fontSize: '14px',
       color: '#ffffff',
-    }).setOrigin(0.5);
+      align: 'center',
+    }).setOrigin(0.5, 0);
   }
 
   private createEffects(): void {
@@ -301,12 +325,32 @@ export class GameScene extends Phaser.Scene {
 
   updateGameState(state: GameState): void {
     this.gameState = state;
+
+    // Campaign battles show the stage under the enemy's name
+    if (this.elements.enemyNameText) {
+      const { enemy, stage, enemyStatus } = state;
+      const name = enemyStatus.enraged ? `${enemy.name} (Enraged)` : enemy.name;
+      this.elements.enemyNameText.setText(
+        stage ? `${name}\nStage ${stage.index + 1}/${stage.total}` : name
+      );
+    }
+
+    if (this.elements.enemySprite) {
+      this.elements.enemySprite.setTint(
+        Phaser.Display.Color.HexStringToColor(state.enemy.color ?? '#e74c3c').color
+      );
+    }
   }
 
-  updateCurrentInput(input: string): void {
+  updateCurrentInput(input: string, progress?: PhraseProgress): void {
     this.currentInput = input;
     if (this.elements.inputText) {
-      this.elements.inputText.setText(input);
+      // Phrases show which word the player is on, e.g. "quick br  [2/4]"
+      const showProgress = progress && progress.totalWords > 1;
+      this.elements.inputText.setText(
+        showProgress ? `${input}  [${Math.min(progress.currentWordIndex + 1, progress.totalWords)}/${progress.totalWords}]` : input
+      );
+      this.elements.inputText.setColor(progress?.hasError ? '#e74c3c' : '#ffffff');
     }
   }
 
@@ -445,10 +489,34 @@ export class GameScene extends Phaser.Scene {
     // Update HP bars
     this.updateHPBars();
 
+    // Update status effects
+    if (this.elements.playerEffectsText) {
+      this.elements.playerEffectsText.setText(this.formatStatusEffects(this.gameState.statusEffects.player));
+    }
+    if (this.elements.enemyEffectsText) {
+      this.elements.enemyEffectsText.setText(this.formatStatusEffects(this.gameState.statusEffects.enemy));
+    }
+
     // Update word displays
     this.updateWordDisplays();
   }
 
+  /**
+   * e.g. "Poison x2 (3s)  Vulnerable (2 words)"
+   */
+  private formatStatusEffects(effects: StatusEffect[]): string {
+    return effects
+      .map(({ type, stacks, remaining }) => {
+        const { name, unit } = STATUS_EFFECTS[type];
+        const stackText = stacks > 1 ? ` x${stacks}` : '';
+        const remainingText = unit === 'seconds'
+          ? `${remaining}s`
+          : `${remaining} word${remaining === 1 ? '' : 's'}`;
+        return `${name}${stackText} (${remainingText})`;
+      })
+      .join('  ');
+  }
+
   private updateHPBars(): void {
     if (!this.gameState || !this.elements.playerHPBar || !this.elements.enemyHPBar) return;
 
@@ -534,6 +602,21 @@ export class GameScene extends Phaser.Scene {
         this.elements.guardWordText.setStyle({ backgroundColor: '#2c3e50' });
       }
     }
+
+    // A scrambling enemy blurs the words for a moment (WebGL only)
+    const scrambled = this.gameState.enemyStatus.scrambledUntil !== null;
+    if (scrambled !== this.wordsScrambled) {
+      this.wordsScrambled = scrambled;
+      [this.elements.attackWordText, this.elements.healWordText, this.elements.guardWordText].forEach(text => {
+        if (!text) return;
+        if (scrambled) {
+          text.postFX?.addBlur(1, 2, 2, 1.5);
+        } else {
+          text.postFX?.clear();
+        }
+        text.setAlpha(scrambled ? 0.5 : 1);
+      });
+    }
   }
 
   private updateEffects(delta: number): void {
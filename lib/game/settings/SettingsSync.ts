@@ -0,0 +1,83 @@
+import type { StoreApi } from 'zustand/vanilla';
+import { GameSettings } from '../types';
+import { normalizeGameSettings } from '../utils/settings';
+import { SettingsState, getGameSettings } from './settingsStore';
+
+/**
+ * Persistence for a signed-in player's settings outside the device
+ */
+export interface ProfileSettingsStore {
+  load(): Promise<GameSettings | null>; // Null when none are saved yet
+  save(settings: GameSettings): Promise<void>;
+}
+
+/**
+ * Keeps a settings store in step with the player's profile
+ * On attach the profile's settings replace the local ones, or the local
+ * ones are saved to a profile that has none; later changes are saved after
+ * a short delay so dragging a slider saves once
+ */
+export class SettingsSync {
+  private store: StoreApi<SettingsState>;
+  private profile: ProfileSettingsStore;
+  private delayMs: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    store: StoreApi<SettingsState>,
+    profile: ProfileSettingsStore,
+    delayMs: number = 500
+  ) {
+    this.store = store;
+    this.profile = profile;
+    this.delayMs = delayMs;
+  }
+
+  /**
+   * Load the profile's settings and start saving changes
+   * Returns the settings in use
+   */
+  async attach(): Promise<GameSettings> {
+    this.detach();
+
+    const stored = await this.profile.load();
+    if (stored) {
+      this.store.getState().replaceSettings(normalizeGameSettings(stored));
+    } else {
+      await this.save();
+    }
+
+    this.unsubscribers.push(
+      this.store.subscribe(() => this.scheduleSave()),
+      () => {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+      }
+    );
+
+    return getGameSettings(this.store.getState());
+  }
+
+  private scheduleSave(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.save().catch(error =>
+        console.error('SettingsSync: Failed to save settings', error)
+      );
+    }, this.delayMs);
+  }
+
+  private save(): Promise<void> {
+    return this.profile.save(getGameSettings(this.store.getState()));
+  }
+
+  /**
+   * Stop saving changes; a change still waiting to be saved is dropped
+   */
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
@@ -0,0 +1,64 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GameSettings } from '../types';
+import { normalizeGameSettings } from '../utils/settings';
+import { ProfileSettingsStore } from './SettingsSync';
+
+/**
+ * Keeps a signed-in player's settings in profiles.settings
+ * The client must be authenticated as the player; RLS limits rows to them
+ */
+
+interface ProfileSettingsRow {
+  user_id: string;
+  settings: GameSettings;
+  updated_at: string;
+}
+
+export class SupabaseProfileSettingsStore implements ProfileSettingsStore {
+  private client: SupabaseClient;
+  private userId: string;
+
+  constructor(client: SupabaseClient, userId: string) {
+    this.client = client;
+    this.userId = userId;
+  }
+
+  async load(): Promise<GameSettings | null> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('settings')
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(
+        `SupabaseProfileSettingsStore: load failed: ${error.message}`
+      );
+    }
+
+    const settings = (data as Pick<ProfileSettingsRow, 'settings'> | null)
+      ?.settings;
+    // Profiles start with an empty settings object
+    if (!settings || Object.keys(settings).length === 0) return null;
+
+    return normalizeGameSettings(settings);
+  }
+
+  async save(settings: GameSettings): Promise<void> {
+    const row: ProfileSettingsRow = {
+      user_id: this.userId,
+      settings,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await this.client
+      .from('profiles')
+      .upsert(row, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(
+        `SupabaseProfileSettingsStore: save failed: ${error.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { useStore } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { StateCreator, StoreApi, createStore } from 'zustand/vanilla';
+import {
+  A11ySettings,
+  BattleLength,
+  GameDifficulty,
+  GameSettings,
+  KeyboardLayout,
+  SoundSettings,
+} from '../types';
+import {
+  DEFAULT_GAME_SETTINGS,
+  normalizeGameSettings,
+} from '../utils/settings';
+
+/**
+ * Zustand store for the player's settings
+ * Persisted to localStorage on every change; signed-in players' settings are
+ * also synced to their profile by SettingsSync
+ */
+
+export interface SettingsState extends GameSettings {
+  setPackId(packId: string): void;
+  setDifficulty(difficulty: GameDifficulty): void;
+  setBattleLength(battleLength: BattleLength): void;
+  setKeyboardLayout(keyboardLayout: KeyboardLayout): void;
+  updateA11y(changes: Partial<A11ySettings>): void;
+  updateSound(changes: Partial<SoundSettings>): void;
+  replaceSettings(settings: GameSettings): void;
+  resetSettings(): void;
+}
+
+export const LOCAL_SETTINGS_KEY = 'typing-quest:settings';
+
+/**
+ * Create a settings store persisted to the given storage
+ * Without storage (SSR, private mode) the settings only last for the page
+ */
+export function createSettingsStore(
+  storage?: Storage | null,
+  key: string = LOCAL_SETTINGS_KEY
+): StoreApi<SettingsState> {
+  const resolvedStorage =
+    storage !== undefined
+      ? storage
+      : typeof window !== 'undefined'
+        ? window.localStorage
+        : null;
+
+  const initializer: StateCreator<SettingsState> = set => ({
+    ...DEFAULT_GAME_SETTINGS,
+    setPackId: packId => set({ packId }),
+    setDifficulty: difficulty => set({ difficulty }),
+    setBattleLength: battleLength => set({ battleLength }),
+    setKeyboardLayout: keyboardLayout => set({ keyboardLayout }),
+    updateA11y: changes =>
+      set(state => ({ a11y: { ...state.a11y, ...changes } })),
+    updateSound: changes =>
+      set(state => ({ sound: { ...state.sound, ...changes } })),
+    replaceSettings: settings => set(normalizeGameSettings(settings)),
+    resetSettings: () => set(DEFAULT_GAME_SETTINGS),
+  });
+
+  if (!resolvedStorage) return createStore(initializer);
+
+  return createStore(
+    persist(initializer, {
+      name: key,
+      version: 1,
+      storage: createJSONStorage(() => resolvedStorage),
+      partialize: getGameSettings,
+      // Stored settings may be corrupt or from an older version
+      merge: (persisted, current) => ({
+        ...current,
+        ...normalizeGameSettings(persisted),
+      }),
+    })
+  );
+}
+
+/**
+ * The settings without the store's actions, for saving or building the game
+ * configuration
+ */
+export function getGameSettings(state: GameSettings): GameSettings {
+  return {
+    packId: state.packId,
+    difficulty: state.difficulty,
+    battleLength: state.battleLength,
+    keyboardLayout: state.keyboardLayout,
+    a11y: state.a11y,
+    sound: state.sound,
+  };
+}
+
+/**
+ * The app's settings store
+ */
+export const settingsStore = createSettingsStore();
+
+/**
+ * Read the app's settings in a component
+ */
+export function useSettings<T>(selector: (state: SettingsState) => T): T {
+  return useStore(settingsStore, selector);
+}
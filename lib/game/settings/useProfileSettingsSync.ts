@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { createBrowserSupabaseClient } from '../../supabase/client';
+import { SettingsSync } from './SettingsSync';
+import { SupabaseProfileSettingsStore } from './SupabaseProfileSettingsStore';
+import { settingsStore } from './settingsStore';
+
+/**
+ * Sync the app's settings with the signed-in player's profile while the
+ * component is mounted
+ * Guests keep their settings in localStorage only
+ */
+export function useProfileSettingsSync(): void {
+  useEffect(() => {
+    const client = createBrowserSupabaseClient();
+    if (!client) return;
+
+    let sync: SettingsSync | null = null;
+    let cancelled = false;
+
+    client.auth
+      .getUser()
+      .then(({ data }) => {
+        if (cancelled || !data.user) return;
+
+        sync = new SettingsSync(
+          settingsStore,
+          new SupabaseProfileSettingsStore(client, data.user.id)
+        );
+        return sync.attach();
+      })
+      .then(() => {
+        // Unmounted while the profile's settings were loading
+        if (cancelled) sync?.detach();
+      })
+      .catch(error =>
+        console.error('useProfileSettingsSync: Failed to sync settings', error)
+      );
+
+    return () => {
+      cancelled = true;
+      sync?.detach();
+    };
+  }, []);
+}
@@ -0,0 +1,183 @@
+import {
+  ActionType,
+  CompletedWord,
+  SkillDefinition,
+  SkillId,
+  SkillState,
+  SkillTrigger,
+  ValidationResult,
+} from '../types';
+import { CombatConfig } from '../utils/combatCalculations';
+
+/**
+ * Player skills and loadouts
+ * Skills change the CombatConfig passed to the combat calculations, so the
+ * balance profile stays the single source of the formulas
+ */
+
+export const MAX_EQUIPPED_SKILLS = 3;
+
+// Every multiple of this combo is a combo-10 feat
+const COMBO_FEAT_STEP = 10;
+
+export const SKILLS: Record<SkillId, SkillDefinition> = {
+  'keen-edge': {
+    id: 'keen-edge',
+    name: 'Keen Edge',
+    description: 'Attacks deal 10% more damage',
+    action: 'ATTACK',
+    trigger: null,
+    multiplier: 1.1,
+  },
+  'heal-boost': {
+    id: 'heal-boost',
+    name: 'Heal Boost',
+    description: 'Heals restore 25% more HP',
+    action: 'HEAL',
+    trigger: null,
+    multiplier: 1.25,
+  },
+  'power-strike': {
+    id: 'power-strike',
+    name: 'Power Strike',
+    description: 'A perfect word doubles the damage of your next attack',
+    action: 'ATTACK',
+    trigger: 'perfect-word',
+    multiplier: 2,
+  },
+  'auto-guard': {
+    id: 'auto-guard',
+    name: 'Auto Guard',
+    description: 'Every 10-combo makes your next guard block the whole attack',
+    action: 'GUARD',
+    trigger: 'combo-10',
+    perfectGuard: true,
+  },
+};
+
+export function getSkill(id: string): SkillDefinition | null {
+  return Object.prototype.hasOwnProperty.call(SKILLS, id)
+    ? SKILLS[id as SkillId]
+    : null;
+}
+
+/**
+ * Check that a value is a list of skills the player can equip
+ */
+export function validateLoadout(value: unknown): ValidationResult {
+  if (!Array.isArray(value)) {
+    return { valid: false, errors: ['skills must be an array'] };
+  }
+
+  const errors: string[] = [];
+  if (value.length > MAX_EQUIPPED_SKILLS) {
+    errors.push(`skills can hold at most ${MAX_EQUIPPED_SKILLS} skills`);
+  }
+
+  const seen = new Set<string>();
+  value.forEach((id: unknown, index) => {
+    if (typeof id !== 'string' || !getSkill(id)) {
+      errors.push(
+        `skills[${index}] must be one of: ${Object.keys(SKILLS).join(', ')}`
+      );
+      return;
+    }
+    if (seen.has(id)) {
+      errors.push(`skills[${index}] is already equipped`);
+    }
+    seen.add(id);
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+// =============================================================================
+// CHARGES
+// =============================================================================
+
+/**
+ * Skill state at the start of a battle: active skills start uncharged
+ */
+export function createSkillStates(loadout: SkillId[]): SkillState[] {
+  return loadout.map(id => ({ id, charged: SKILLS[id].trigger === null }));
+}
+
+/**
+ * Typing feats achieved by a completed word
+ */
+export function getTypingFeats(
+  word: CompletedWord,
+  oldCombo: number,
+  newCombo: number
+): SkillTrigger[] {
+  const feats: SkillTrigger[] = [];
+
+  if (word.errors === 0 && word.accuracy >= 1) {
+    feats.push('perfect-word');
+  }
+  if (
+    Math.floor(newCombo / COMBO_FEAT_STEP) >
+    Math.floor(oldCombo / COMBO_FEAT_STEP)
+  ) {
+    feats.push('combo-10');
+  }
+
+  return feats;
+}
+
+/**
+ * Charge the active skills whose trigger is among the feats
+ * A skill holds one charge at a time
+ */
+export function chargeSkills(
+  skills: SkillState[],
+  feats: SkillTrigger[]
+): {
+  skills: SkillState[];
+  charged: { skillId: SkillId; trigger: SkillTrigger }[];
+} {
+  const charged: { skillId: SkillId; trigger: SkillTrigger }[] = [];
+
+  const updated = skills.map(skill => {
+    const { trigger } = SKILLS[skill.id];
+    if (skill.charged || trigger === null || !feats.includes(trigger)) {
+      return skill;
+    }
+    charged.push({ skillId: skill.id, trigger });
+    return { ...skill, charged: true };
+  });
+
+  return { skills: updated, charged };
+}
+
+/**
+ * Add the skills that modify an action to its combat config
+ * Returns the config and the skill state with spent charges removed
+ */
+export function applySkills(
+  skills: SkillState[],
+  action: ActionType,
+  config: CombatConfig
+): { config: CombatConfig; skills: SkillState[]; spent: SkillId[] } {
+  const spent: SkillId[] = [];
+  let skillMultiplier = config.skillMultiplier ?? 1;
+  let perfectGuard = config.perfectGuard ?? false;
+
+  const updated = skills.map(skill => {
+    const definition = SKILLS[skill.id];
+    if (definition.action !== action || !skill.charged) return skill;
+
+    skillMultiplier *= definition.multiplier ?? 1;
+    perfectGuard = perfectGuard || definition.perfectGuard === true;
+
+    if (definition.trigger === null) return skill;
+    spent.push(skill.id);
+    return { ...skill, charged: false };
+  });
+
+  return {
+    config: { ...config, skillMultiplier, perfectGuard },
+    skills: updated,
+    spent,
+  };
+}
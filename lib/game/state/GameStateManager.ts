@@ -9,8 +9,13 @@ import {
   GameStats,
   Word,
   ActionType,
+  EnemyAttackState,
 } from '../types';
 import { EventBus } from '../events/EventBus';
+import { validateWord } from '../utils/wordValidation';
+import { DEFAULT_ENEMY } from '../utils/campaign';
+import { INITIAL_ENEMY_STATUS } from '../enemies/EnemyBehaviours';
+import { NO_STATUS_EFFECTS } from '../effects/statusEffects';
 
 /**
  * Centralized game state management with validation and history tracking
@@ -229,6 +234,41 @@ export class GameStateManager {
     return this.updateState(updates, `${result.type.toLowerCase()}-result`);
   }
 
+  /**
+   * Open or close the guard window for a telegraphed enemy attack
+   */
+  setEnemyAttack(enemyAttack: EnemyAttackState | null): ValidationResult {
+    return this.updateState(
+      {
+        enemyAttack,
+        currentWords: {
+          ...this.currentState.currentWords,
+          guard: enemyAttack?.guardWord,
+        },
+      },
+      enemyAttack ? 'enemy-telegraph' : 'guard-window-closed'
+    );
+  }
+
+  /**
+   * Apply enemy attack damage to the player
+   */
+  applyEnemyAttack(damageTaken: number, damageBlocked: number = 0): ValidationResult {
+    const { hp, stats } = this.currentState;
+
+    return this.updateState(
+      {
+        hp: { ...hp, player: Math.max(0, hp.player - damageTaken) },
+        stats: {
+          ...stats,
+          damageTaken: stats.damageTaken + damageTaken,
+          damageBlocked: stats.damageBlocked + damageBlocked,
+        },
+      },
+      'enemy-attack'
+    );
+  }
+
   /**
    * Lock/unlock word selection
    */
@@ -316,19 +356,7 @@ export class GameStateManager {
   }
 
   private validateWords(words: Word[]): ValidationResult {
-    const errors: string[] = [];
-
-    for (const word of words) {
-      if (!word.text || word.text.length === 0) {
-        errors.push(`Word has empty text: ${word.id}`);
-      }
-      if (word.level < 1 || word.level > 5) {
-        errors.push(`Word level out of bounds: ${word.level}`);
-      }
-      if (word.length !== word.text.length) {
-        errors.push(`Word length mismatch: expected ${word.text.length}, got ${word.length}`);
-      }
-    }
+    const errors = words.flatMap(word => validateWord(word).errors);
 
     return {
       valid: errors.length === 0,
@@ -467,9 +495,17 @@ export class GameStateManager {
         guardCount: 0,
         maxCombo: 0,
         wordsCompleted: 0,
+        damageTaken: 0,
+        damageBlocked: 0,
       },
       timeLeft: 300,
       round: 1,
+      enemyAttack: null,
+      enemy: DEFAULT_ENEMY,
+      stage: null,
+      enemyStatus: INITIAL_ENEMY_STATUS,
+      skills: [],
+      statusEffects: NO_STATUS_EFFECTS,
     };
   }
 }
\ No newline at end of file
@@ -17,6 +17,7 @@ export interface GameConfig {
   settings?: {
     a11y?: A11ySettings;
     sound?: SoundSettings;
+    keyboardLayout?: KeyboardLayout;
   };
 }
 
@@ -52,6 +53,12 @@ export interface GameState {
   stats: GameStats;
   timeLeft: number;
   round: number;
+  enemyAttack: EnemyAttackState | null; // Telegraphed attack, null outside guard windows
+  enemy: EnemyDefinition; // Enemy being fought
+  stage: StageState | null; // Campaign stage, null in a single battle
+  enemyStatus: EnemyStatus; // Effects of the enemy's behaviours
+  skills: SkillState[]; // Equipped skills, empty without a loadout
+  statusEffects: StatusEffects; // Lasting effects on each side
 }
 
 export type GameStatus = 'LOADING' | 'READY' | 'PLAYING' | 'PAUSED' | 'ENDED';
@@ -71,6 +78,13 @@ export interface CurrentWords {
 
 export type WordLock = 'heal' | 'attack' | 'guard' | null;
 
+export interface EnemyAttackState {
+  damage: number;
+  etaMs: number; // Time until the attack lands
+  telegraphMs: number; // Total length of the guard window
+  guardWord: Word;
+}
+
 export interface GameStats {
   wpm: number;
   accuracy: number;
@@ -81,6 +95,8 @@ export interface GameStats {
   guardCount: number;
   maxCombo: number;
   wordsCompleted: number;
+  damageTaken: number;
+  damageBlocked: number;
 }
 
 // =============================================================================
@@ -98,6 +114,16 @@ export interface Word {
 
 export type WordLevel = 1 | 2 | 3 | 4 | 5;
 
+export type PromptMode = 'WORD' | 'PHRASE'; // Single words, or phrases and example sentences
+
+export interface PhraseProgress {
+  totalWords: number;
+  completedWords: number; // Words typed correctly, including the space after them
+  currentWordIndex: number;
+  correctLength: number; // Length of the typed prefix that matches the target
+  hasError: boolean; // Input has diverged from the target
+}
+
 export interface CompletedWord extends Word {
   typedText: string;
   timeMs: number;
@@ -113,6 +139,7 @@ export interface KeystrokePattern {
   corrections: number;
   backspaceCount: number;
   perfectStreak: number;
+  keyStats: KeystrokeProfile; // This word's timings and errors per key and bigram
 }
 
 // =============================================================================
@@ -127,6 +154,7 @@ export interface ActionResult {
   critical: boolean;
   combo: number;
   message?: string;
+  breakdown?: string[]; // How the value was calculated, for the results screen
 }
 
 export interface AttackResult extends ActionResult {
@@ -161,12 +189,20 @@ export interface SessionSeed {
   packId: string;
   difficulty: GameDifficulty;
   words: Word[];
-  playerStats?: PlayerStats;
+  playerStats?: PlayerStats; // Stored stats; the level scales combat and word difficulty
+  rngSeed?: number; // Seeds every random decision so the session can be replayed
+  reviewSchedule?: ReviewSchedule; // Biases word selection toward due and weak words
+  keystrokeProfile?: KeystrokeProfile; // Biases word selection toward the learner's weak keys
+  promptMode?: PromptMode; // Defaults to WORD
+  combatProfile?: CombatProfile; // Defaults to the classic profile
+  campaign?: Campaign; // Fight its stages in order instead of a single battle
+  skills?: SkillId[]; // Equipped skills, at most MAX_EQUIPPED_SKILLS
+  adaptiveDifficulty?: boolean | Partial<AdaptiveDifficultySettings>; // Tune word difficulty to live performance
 }
 
 export interface PlayerStats {
   level: number;
-  experience: number;
+  experience: number; // Total earned across sessions
   averageWPM: number;
   averageAccuracy: number;
   gamesPlayed: number;
@@ -179,6 +215,9 @@ export interface SessionResult {
   finalStats: GameStats;
   duration: number;
   attempts: CompletedWord[];
+  actions: ActionResult[]; // What each attempt did, in the same order
+  campaign?: CampaignResult; // How far a campaign run got
+  difficulty?: DifficultyEstimate; // Adaptive difficulty's final estimate and adjustments
 }
 
 // =============================================================================
@@ -194,8 +233,19 @@ export type GameEvent =
   | 'damage-dealt'
   | 'healing-applied'
   | 'guard-executed'
+  | 'enemy-telegraph'
   | 'enemy-attack'
+  | 'stage-cleared'
+  | 'enemy-ability'
+  | 'skill-charged'
+  | 'skill-used'
+  | 'status-effect-applied'
+  | 'status-effect-tick'
+  | 'status-effect-expired'
+  | 'difficulty-adjusted'
   | 'combo-changed'
+  | 'keystroke'
+  | 'typing-progress'
   | 'game-over'
   | 'session-ended'
   | 'error';
@@ -206,11 +256,22 @@ export interface GameEventData {
   'word-completed': { completedWord: CompletedWord; result: ActionResult };
   'word-failed': { word: Word; typedText: string; errors: number };
   'action-executed': { result: ActionResult };
-  'damage-dealt': { damage: number; critical: boolean; enemyHp: number };
+  'damage-dealt': { damage: number; critical: boolean; enemyHp: number; word?: Word };
   'healing-applied': { healing: number; critical: boolean; playerHp: number };
   'guard-executed': { blocked: boolean; damageBlocked: number };
-  'enemy-attack': { damage: number; playerHp: number };
+  'enemy-telegraph': { damage: number; etaMs: number; guardWord: Word };
+  'enemy-attack': { damage: number; playerHp: number; guarded: boolean };
+  'stage-cleared': { stage: StageState; nextStage: StageState };
+  'enemy-ability': { enemyId: string; ability: EnemyAbility };
+  'skill-charged': { skillId: SkillId; trigger: SkillTrigger };
+  'skill-used': { skillId: SkillId; action: ActionType };
+  'status-effect-applied': { target: StatusEffectTarget; effect: StatusEffect };
+  'status-effect-tick': { target: StatusEffectTarget; type: StatusEffectType; hpChange: number; hp: number };
+  'status-effect-expired': { target: StatusEffectTarget; type: StatusEffectType };
+  'difficulty-adjusted': { adjustment: DifficultyAdjustment; estimate: DifficultyEstimate };
   'combo-changed': { oldCombo: number; newCombo: number };
+  'keystroke': KeystrokeEvent;
+  'typing-progress': { word: Word; type: ActionType; input: string; progress: PhraseProgress };
   'game-over': { result: 'WIN' | 'LOSE'; finalStats: GameStats };
   'session-ended': { sessionResult: SessionResult };
   'error': { error: Error; context: string };
@@ -237,6 +298,502 @@ export interface KeystrokeEvent {
   isCorrection: boolean;
 }
 
+// =============================================================================
+// REPLAY TYPES
+// =============================================================================
+
+export interface SessionReplay {
+  version: number;
+  recordedAt: string; // ISO timestamp
+  config: GameConfig;
+  sessionSeed: SessionSeed; // Needs an rngSeed to replay exactly
+  keystrokes: KeystrokeEvent[]; // Timestamps are ms since the session started
+  markers: ReplayMarker[];
+  durationMs: number;
+  result?: SessionResult['result'];
+}
+
+export interface ReplayMarker {
+  type: 'pause' | 'resume';
+  timestamp: number; // ms since the session started
+}
+
+export interface ReplayPlaybackOptions {
+  speed?: number; // 1 = original speed, 2 = twice as fast
+}
+
+// =============================================================================
+// COMBAT PROFILE TYPES
+// =============================================================================
+
+/**
+ * Balance numbers behind every combat calculation
+ * Plain JSON so designers can tune it per pack or per session without code
+ * changes; built-in profiles live in utils/combatProfile.ts
+ */
+export interface CombatProfile {
+  id: string;
+  name: string;
+  attack: ActionBalance;
+  heal: ActionBalance;
+  guard: GuardBalance;
+  critical: CriticalBalance | null; // null turns critical hits off
+  difficultyMultipliers: Record<GameDifficulty, number>;
+  expectedWpm: ExpectedWpmBalance;
+  phrase: PhraseBalance;
+  successAccuracy: number; // Actions below this accuracy count as failed
+}
+
+/**
+ * Attack or heal scaling
+ */
+export interface ActionBalance {
+  base: BaseValueBalance;
+  accuracy: AccuracyBalance;
+  speed: SpeedBalance;
+  combo: ComboBalance | null; // null ignores the combo
+  levelBonus: number; // Per player level above 1
+  critical: { chanceScale: number; multiplier: number };
+}
+
+/**
+ * base = byLevel[L] + perLevel * L + perChar * len
+ */
+export interface BaseValueBalance {
+  byLevel: Record<WordLevel, number>;
+  perLevel: number;
+  perChar: number; // Phrases use their average word length
+}
+
+export type AccuracyBalance =
+  // Scales with accuracy, with a flat penalty below minAccuracy
+  | {
+      kind: 'accuracy';
+      minAccuracy: number;
+      belowMin: number;
+      atMin: number;
+      nearPerfect: number; // Value approached as accuracy reaches 100%
+      perfect: number;
+    }
+  // max(min, 1 - perError * errors)
+  | { kind: 'errors'; perError: number; min: number };
+
+export type SpeedBalance =
+  // Compares WPM with the word's expected WPM
+  | {
+      kind: 'ratio';
+      slowRatio: number;
+      slow: number;
+      fastRatio: number;
+      perRatio: number;
+      max: number;
+    }
+  // 1 + clamp((wpm - baselineWpm) / wpmRange, min, max)
+  | {
+      kind: 'wpm';
+      baselineWpm: number;
+      wpmRange: number;
+      min: number;
+      max: number;
+    };
+
+export type ComboBalance =
+  | {
+      kind: 'tiers';
+      thresholds: number[];
+      multipliers: number[];
+      scaling: number; // Share of each tier's bonus that applies
+    }
+  // 1 + min(max, combo * perCombo)
+  | { kind: 'linear'; perCombo: number; max: number };
+
+export type GuardBalance =
+  // base + perLevel * L, plus accuracy and speed bonuses
+  | {
+      kind: 'additive';
+      base: number;
+      perLevel: number;
+      accuracyPivot: number;
+      perAccuracy: number;
+      speedBonus: number; // Added when faster than the expected WPM
+      min: number;
+      max: number;
+      perfectAccuracy: number | null; // Error-free guards at or above this block everything
+    }
+  // (base + perLevel * L) * accuracy factor * speed factor
+  | {
+      kind: 'multiplicative';
+      base: number;
+      perLevel: number;
+      minAccuracyFactor: number;
+      speed: {
+        baselineWpm: number;
+        wpmRange: number;
+        min: number;
+        max: number;
+      };
+      min: number;
+      max: number;
+      perfectAccuracy: number | null;
+    };
+
+export interface CriticalBalance {
+  baseChance: number;
+  highAccuracy: number;
+  highAccuracyBonus: number;
+  perfectBonus: number; // Error-free and 100% accurate
+  fastRatio: number; // Of the expected WPM
+  fastBonus: number;
+  perCombo: number;
+  maxComboBonus: number;
+  maxChance: number;
+}
+
+export interface ExpectedWpmBalance {
+  byLevel: Record<WordLevel, number>;
+  longWordLength: number;
+  perExtraChar: number; // WPM taken off per character above longWordLength
+  min: number;
+}
+
+export interface PhraseBalance {
+  perExtraWord: number;
+  max: number;
+}
+
+// =============================================================================
+// CAMPAIGN TYPES
+// =============================================================================
+
+export interface EnemyDefinition {
+  id: string;
+  name: string;
+  maxHp: number;
+  attackPower: number; // Damage per landed attack at NORMAL difficulty
+  attackIntervalMs: number; // Time between attacks at NORMAL difficulty
+  levelBias: number; // Shifts the word levels offered, -4 to 4
+  categories: string[]; // Word categories to offer, empty for any
+  color?: string; // Sprite tint as #rrggbb, red when unset
+  behaviours?: EnemyBehaviour[];
+}
+
+/**
+ * How an enemy changes the typing challenge
+ * - enrage: attacks come faster once its HP falls below hpThreshold (0-1)
+ * - shield: words shorter than minWordLength only deal damageMultiplier
+ * - regenerate: heals itself each time it attacks
+ * - scramble: blurs the player's words for a moment after each attack
+ */
+export type EnemyBehaviour =
+  | { type: 'enrage'; hpThreshold: number; intervalMultiplier: number }
+  | { type: 'shield'; minWordLength: number; damageMultiplier: number }
+  | { type: 'regenerate'; amount: number }
+  | { type: 'scramble'; durationMs: number };
+
+export type EnemyBehaviourType = EnemyBehaviour['type'];
+
+/**
+ * A behaviour taking effect, applied by the adapter
+ */
+export type EnemyAbility =
+  | { type: 'enrage'; intervalMultiplier: number }
+  | { type: 'shield'; absorbed: number }
+  | { type: 'regenerate'; healed: number }
+  | { type: 'scramble'; durationMs: number };
+
+export interface EnemyStatus {
+  enraged: boolean;
+  scrambledUntil: number | null; // Clock time the player's words clear up
+}
+
+export interface CampaignStage {
+  id: string;
+  name: string;
+  enemy: EnemyDefinition;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  stages: CampaignStage[];
+}
+
+export interface StageState {
+  campaignId: string;
+  index: number; // 0-based
+  total: number;
+  id: string;
+  name: string;
+}
+
+export interface CampaignResult {
+  campaignId: string;
+  totalStages: number;
+  stagesCleared: number;
+  reachedStageId: string; // Stage being fought when the run ended
+  completed: boolean;
+}
+
+// =============================================================================
+// SKILL TYPES
+// =============================================================================
+
+export type SkillId = 'keen-edge' | 'heal-boost' | 'power-strike' | 'auto-guard';
+
+export type SkillTrigger = 'perfect-word' | 'combo-10';
+
+/**
+ * A skill the player can equip before a battle
+ * Passive skills always apply; active skills are charged by a typing feat
+ * and spent on the next action they modify
+ */
+export interface SkillDefinition {
+  id: SkillId;
+  name: string;
+  description: string;
+  action: ActionType; // The action whose combat calculation the skill modifies
+  trigger: SkillTrigger | null; // Feat that charges an active skill, null for passive
+  multiplier?: number; // Scales damage or healing
+  perfectGuard?: boolean; // The guard blocks the whole attack
+}
+
+export interface SkillState {
+  id: SkillId;
+  charged: boolean; // Always true for passive skills
+}
+
+// =============================================================================
+// STATUS EFFECT TYPES
+// =============================================================================
+
+export type StatusEffectType = 'poison' | 'stun' | 'regen' | 'vulnerability';
+
+export type StatusEffectTarget = 'player' | 'enemy';
+
+export type StatusEffectUnit = 'seconds' | 'words'; // Words count the player's completed words
+
+/**
+ * A lasting effect on the player or the enemy
+ * Reapplying an active effect adds a stack, up to maxStacks, and restarts
+ * its duration
+ */
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+  name: string;
+  unit: StatusEffectUnit;
+  duration: number; // In the effect's unit
+  maxStacks: number;
+  hpPerSecond?: number; // Per stack; negative for damage over time
+  damageTakenPerStack?: number; // Extra share of damage the target takes
+}
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  stacks: number;
+  remaining: number; // In the effect's unit
+}
+
+export interface StatusEffects {
+  player: StatusEffect[];
+  enemy: StatusEffect[];
+}
+
+/**
+ * Applies an effect when a successful action matches
+ */
+export interface StatusEffectRule {
+  action: ActionType;
+  category?: string; // Matches the completed word's category
+  critical?: boolean; // Matches critical hits and heals
+  target: StatusEffectTarget;
+  effect: StatusEffectType;
+}
+
+// =============================================================================
+// ADAPTIVE DIFFICULTY TYPES
+// =============================================================================
+
+export interface AdaptiveDifficultySettings {
+  targetAccuracy: { min: number; max: number }; // Success band to keep the player in
+  minWpm: number; // Slower than this is too hard, however accurate
+  maxWordTimeMs: number; // Longer than this per word is too hard
+  windowSize: number; // Recent words the estimate is made from
+  minSamples: number; // Words at the current difficulty before it can change
+  maxShift: number; // Furthest the level window moves either way
+}
+
+/**
+ * Where adaptive difficulty has moved the word pool, and why
+ */
+export interface DifficultyEstimate {
+  levelShift: number; // Added to the word level window
+  lengthShift: number; // Added to the word length range
+  wpm: number; // Rolling averages over the recent words
+  accuracy: number;
+  averageWordTimeMs: number;
+  sampleSize: number;
+  reasons: string[]; // Why the last check kept or changed the difficulty
+  adjustments: DifficultyAdjustment[];
+}
+
+export interface DifficultyAdjustment {
+  direction: 'UP' | 'DOWN';
+  wordsCompleted: number; // Words the player had completed at the time
+  levelShift: number; // Level shift after the adjustment
+  reasons: string[];
+}
+
+// =============================================================================
+// SPACED REPETITION TYPES
+// =============================================================================
+
+/**
+ * SM-2 review state for one word and one learner
+ */
+export interface WordReview {
+  wordId: string;
+  easeFactor: number; // >= 1.3, lower means the word is harder for this learner
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times the word was failed after being learned
+  dueAt: number; // Epoch ms
+  lastReviewedAt: number; // Epoch ms
+}
+
+export interface ReviewSchedule {
+  asOf: number; // Epoch ms used to decide what is due, fixed so replays match
+  reviews: WordReview[];
+}
+
+// =============================================================================
+// KEYSTROKE PROFILE TYPES
+// =============================================================================
+
+export interface KeyStats {
+  count: number; // Times the key or bigram was expected
+  errors: number; // Times it was mistyped
+  totalLatencyMs: number; // Time from the previous correct key, summed
+  timedCount: number; // Keystrokes counted in totalLatencyMs
+}
+
+/**
+ * A learner's typing per character and per pair of characters (bigram),
+ * lower-cased and accumulated across sessions
+ */
+export interface KeystrokeProfile {
+  keys: Record<string, KeyStats>;
+  bigrams: Record<string, KeyStats>;
+}
+
+export interface WeakSpot {
+  sequence: string; // A key or a bigram
+  weakness: number; // 0 for no trouble, higher is slower or more error-prone
+  errorRate: number;
+  averageLatencyMs: number;
+  count: number;
+}
+
+export interface KeyboardHeatmapKey {
+  key: string;
+  count: number;
+  errorRate: number;
+  averageLatencyMs: number;
+  heat: number; // 0-1 relative to the learner's weakest key
+}
+
+// =============================================================================
+// PROGRESSION TYPES
+// =============================================================================
+
+/**
+ * Experience needed per level: level 1 to 2 takes baseXp, and each level
+ * after takes growth times the one before
+ */
+export interface LevelCurve {
+  baseXp: number;
+  growth: number;
+  maxLevel: number;
+}
+
+export interface LevelProgress {
+  level: number;
+  experienceIntoLevel: number;
+  experienceForNextLevel: number; // 0 at the max level
+}
+
+export interface ExperienceGain {
+  experience: number; // Awarded for the session
+  previousLevel: number;
+  level: number;
+  stats: PlayerStats; // Player stats with the session added
+}
+
+// =============================================================================
+// SESSION REPORT TYPES
+// =============================================================================
+
+export interface ReportWord {
+  text: string;
+  type: ActionType;
+  category?: string;
+  timeMs: number;
+  errors: number;
+  accuracy: number;
+  wpm: number;
+  value: number; // Damage dealt, healing done or damage blocked
+  critical: boolean;
+  breakdown: string[]; // Combat calculation steps, empty when not recorded
+}
+
+/**
+ * What the results screen shows for a finished session, built from a local
+ * SessionResult or from the stored session and attempts
+ */
+export interface SessionReport {
+  sessionId: string;
+  result: SessionResult['result'];
+  durationSec: number;
+  accuracy: number;
+  averageWpm: number;
+  longestCombo: number;
+  attackCount: number;
+  healCount: number;
+  damageDealt: number;
+  damageTaken: number;
+  guardSuccessRate: number; // Share of guards that blocked the whole attack
+  words: ReportWord[];
+  slowestWords: ReportWord[];
+  mostMissedWords: ReportWord[];
+  suggestion: string;
+  difficulty?: DifficultyEstimate; // Adaptive difficulty's changes, for sessions played on this device
+}
+
+export type SessionReportSummary = Omit<
+  SessionReport,
+  'words' | 'slowestWords' | 'mostMissedWords' | 'suggestion'
+>;
+
+// =============================================================================
+// SETTINGS TYPES
+// =============================================================================
+
+export type KeyboardLayout = 'qwerty' | 'qwertz' | 'azerty' | 'dvorak';
+
+export type BattleLength = 3 | 5 | 10; // Minutes
+
+/**
+ * Player settings chosen on the settings screen and used by the game route
+ * Kept in localStorage, and in profiles.settings when signed in
+ */
+export interface GameSettings {
+  packId: string;
+  difficulty: GameDifficulty;
+  battleLength: BattleLength;
+  keyboardLayout: KeyboardLayout;
+  a11y: A11ySettings;
+  sound: SoundSettings;
+}
+
 // =============================================================================
 // GAME ADAPTER INTERFACE
 // =============================================================================
@@ -255,6 +812,9 @@ export interface GameAdapter {
   executeHeal(wordData: CompletedWord): Promise<HealResult>;
   executeGuard(wordData: CompletedWord): Promise<GuardResult>;
 
+  // Replay playback
+  playReplay(replay: SessionReplay, options?: ReplayPlaybackOptions): Promise<void>;
+
   // State management
   getState(): GameState;
   subscribe(callback: (state: GameState) => void): () => void;
@@ -0,0 +1,274 @@
+import {
+  AdaptiveDifficultySettings,
+  CompletedWord,
+  DifficultyAdjustment,
+  DifficultyEstimate,
+  ValidationResult,
+} from '../types';
+
+/**
+ * Adaptive difficulty: moves the word level window and length range with the
+ * player's recent WPM, accuracy and time per word, to keep them in a target
+ * success band
+ * The shift is passed to WordManager through WordSelectionOptions
+ */
+
+export const DEFAULT_ADAPTIVE_DIFFICULTY: AdaptiveDifficultySettings = {
+  targetAccuracy: { min: 0.85, max: 0.92 },
+  minWpm: 20,
+  maxWordTimeMs: 5000,
+  windowSize: 8,
+  minSamples: 4,
+  maxShift: 2,
+};
+
+// Characters the length range moves for each level of shift
+const LENGTH_STEP = 2;
+
+/**
+ * Check adaptive difficulty settings, naming each invalid field
+ */
+export function validateAdaptiveDifficultySettings(
+  value: unknown
+): ValidationResult {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, errors: ['adaptiveDifficulty must be an object'] };
+  }
+
+  const settings = value as Partial<
+    Record<keyof AdaptiveDifficultySettings, unknown>
+  >;
+  const errors: string[] = [];
+  const isPositiveInteger = (n: unknown) =>
+    Number.isInteger(n) && (n as number) > 0;
+
+  if (settings.targetAccuracy !== undefined) {
+    const band = settings.targetAccuracy as { min?: unknown; max?: unknown };
+    const isRatio = (n: unknown) => typeof n === 'number' && n >= 0 && n <= 1;
+    if (
+      !band ||
+      typeof band !== 'object' ||
+      !isRatio(band.min) ||
+      !isRatio(band.max)
+    ) {
+      errors.push(
+        'adaptiveDifficulty.targetAccuracy must have min and max between 0 and 1'
+      );
+    } else if ((band.min as number) > (band.max as number)) {
+      errors.push(
+        'adaptiveDifficulty.targetAccuracy.min must not be above max'
+      );
+    }
+  }
+  (['minWpm', 'maxWordTimeMs'] as const).forEach(field => {
+    const n = settings[field];
+    if (n !== undefined && (typeof n !== 'number' || !(n > 0))) {
+      errors.push(`adaptiveDifficulty.${field} must be a positive number`);
+    }
+  });
+  (['windowSize', 'minSamples'] as const).forEach(field => {
+    if (settings[field] !== undefined && !isPositiveInteger(settings[field])) {
+      errors.push(`adaptiveDifficulty.${field} must be a positive integer`);
+    }
+  });
+  if (
+    settings.maxShift !== undefined &&
+    !(Number.isInteger(settings.maxShift) && (settings.maxShift as number) >= 0)
+  ) {
+    errors.push('adaptiveDifficulty.maxShift must be a non-negative integer');
+  }
+
+  const windowSize =
+    settings.windowSize ?? DEFAULT_ADAPTIVE_DIFFICULTY.windowSize;
+  const minSamples =
+    settings.minSamples ?? DEFAULT_ADAPTIVE_DIFFICULTY.minSamples;
+  if (
+    isPositiveInteger(windowSize) &&
+    isPositiveInteger(minSamples) &&
+    (minSamples as number) > (windowSize as number)
+  ) {
+    errors.push('adaptiveDifficulty.minSamples must not be above windowSize');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Adaptive difficulty for a session from its SessionSeed setting, or null
+ * when it is off
+ */
+export function createAdaptiveDifficulty(
+  setting: boolean | Partial<AdaptiveDifficultySettings> | undefined
+): AdaptiveDifficulty | null {
+  if (!setting) return null;
+  return new AdaptiveDifficulty(setting === true ? {} : setting);
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export class AdaptiveDifficulty {
+  private settings: AdaptiveDifficultySettings;
+  private recent: CompletedWord[] = [];
+  private wordsCompleted = 0;
+  private wordsSinceShift = 0; // Words completed since the last adjustment
+  private levelShift = 0;
+  private reasons: string[] = [];
+  private adjustments: DifficultyAdjustment[] = [];
+
+  constructor(settings: Partial<AdaptiveDifficultySettings> = {}) {
+    const validation = validateAdaptiveDifficultySettings(settings);
+    if (!validation.valid) {
+      throw new Error(`AdaptiveDifficulty: ${validation.errors[0]}`);
+    }
+
+    this.settings = { ...DEFAULT_ADAPTIVE_DIFFICULTY, ...settings };
+  }
+
+  /**
+   * Add a completed word and move the difficulty if the player has been
+   * outside the target band for long enough
+   * Returns the adjustment, or null when the difficulty stays
+   */
+  record(word: CompletedWord): DifficultyAdjustment | null {
+    const { windowSize, minSamples, maxShift } = this.settings;
+
+    this.recent = [...this.recent, word].slice(-windowSize);
+    this.wordsCompleted++;
+    this.wordsSinceShift++;
+
+    // Only words typed at the current difficulty say whether to move it again
+    const sample = this.recent.slice(
+      -Math.min(this.wordsSinceShift, windowSize)
+    );
+    if (sample.length < minSamples) {
+      this.reasons = [
+        `${sample.length} of ${minSamples} words typed at this difficulty`,
+      ];
+      return null;
+    }
+
+    const { tooHard, tooEasy, reasons } = this.assess(sample);
+    const direction = tooHard ? 'DOWN' : tooEasy ? 'UP' : null;
+
+    if (direction === 'DOWN' && this.levelShift <= -maxShift) {
+      this.reasons = [...reasons, 'Words are already at the easiest allowed'];
+      return null;
+    }
+    if (direction === 'UP' && this.levelShift >= maxShift) {
+      this.reasons = [...reasons, 'Words are already at the hardest allowed'];
+      return null;
+    }
+
+    this.reasons = reasons;
+    if (!direction) return null;
+
+    this.levelShift += direction === 'UP' ? 1 : -1;
+    this.wordsSinceShift = 0;
+
+    const adjustment: DifficultyAdjustment = {
+      direction,
+      wordsCompleted: this.wordsCompleted,
+      levelShift: this.levelShift,
+      reasons,
+    };
+    this.adjustments = [...this.adjustments, adjustment];
+    return adjustment;
+  }
+
+  /**
+   * Shift to apply to the word level window and length range
+   */
+  getShift(): { level: number; length: number } {
+    return { level: this.levelShift, length: this.levelShift * LENGTH_STEP };
+  }
+
+  /**
+   * Current estimate over the recent words, with the reasons for the
+   * difficulty and every adjustment so far
+   */
+  getEstimate(): DifficultyEstimate {
+    const { wpm, accuracy, averageWordTimeMs } = this.average(this.recent);
+
+    return {
+      levelShift: this.levelShift,
+      lengthShift: this.getShift().length,
+      wpm,
+      accuracy,
+      averageWordTimeMs,
+      sampleSize: this.recent.length,
+      reasons: [...this.reasons],
+      adjustments: [...this.adjustments],
+    };
+  }
+
+  getSettings(): AdaptiveDifficultySettings {
+    return { ...this.settings };
+  }
+
+  // =============================================================================
+  // ASSESSMENT
+  // =============================================================================
+
+  /**
+   * Too hard when accuracy is under the band or the player is slow; too easy
+   * when accuracy is over the band at a fluent pace
+   */
+  private assess(sample: CompletedWord[]): {
+    tooHard: boolean;
+    tooEasy: boolean;
+    reasons: string[];
+  } {
+    const { targetAccuracy, minWpm, maxWordTimeMs } = this.settings;
+    const { wpm, accuracy, averageWordTimeMs } = this.average(sample);
+    const band = `${percent(targetAccuracy.min)}-${percent(targetAccuracy.max)}`;
+    const reasons: string[] = [];
+
+    const lowAccuracy = accuracy < targetAccuracy.min;
+    const slow = wpm < minWpm;
+    const slowWords = averageWordTimeMs > maxWordTimeMs;
+
+    if (lowAccuracy) {
+      reasons.push(`Accuracy ${percent(accuracy)} is below the ${band} target`);
+    } else if (accuracy > targetAccuracy.max) {
+      reasons.push(`Accuracy ${percent(accuracy)} is above the ${band} target`);
+    } else {
+      reasons.push(
+        `Accuracy ${percent(accuracy)} is within the ${band} target`
+      );
+    }
+    if (slow) {
+      reasons.push(`${wpm} WPM is below ${minWpm} WPM`);
+    }
+    if (slowWords) {
+      reasons.push(
+        `Words take ${(averageWordTimeMs / 1000).toFixed(1)}s on average, over ${(maxWordTimeMs / 1000).toFixed(1)}s`
+      );
+    }
+
+    const tooHard = lowAccuracy || slow || slowWords;
+    return {
+      tooHard,
+      tooEasy: !tooHard && accuracy > targetAccuracy.max,
+      reasons,
+    };
+  }
+
+  private average(words: CompletedWord[]): {
+    wpm: number;
+    accuracy: number;
+    averageWordTimeMs: number;
+  } {
+    if (words.length === 0) {
+      return { wpm: 0, accuracy: 0, averageWordTimeMs: 0 };
+    }
+
+    const sum = (value: (word: CompletedWord) => number) =>
+      words.reduce((total, word) => total + value(word), 0);
+
+    return {
+      wpm: Math.round(sum(word => word.wpm) / words.length),
+      accuracy: sum(word => word.accuracy) / words.length,
+      averageWordTimeMs: Math.round(sum(word => word.timeMs) / words.length),
+    };
+  }
+}
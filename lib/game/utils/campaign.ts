@@ -0,0 +1,277 @@
+import {
+  Campaign,
+  CampaignResult,
+  EnemyDefinition,
+  StageState,
+  ValidationResult,
+} from '../types';
+import { validateEnemyBehaviours } from '../enemies/EnemyBehaviours';
+
+/**
+ * Enemy roster, built-in campaigns and validation for custom campaigns
+ * A session without a campaign is a single battle against DEFAULT_ENEMY
+ */
+
+// =============================================================================
+// ENEMIES
+// =============================================================================
+
+/**
+ * The enemy of a single battle, matching the game's original balance
+ */
+export const DEFAULT_ENEMY: EnemyDefinition = {
+  id: 'enemy',
+  name: 'Enemy',
+  maxHp: 100,
+  attackPower: 14,
+  attackIntervalMs: 4500,
+  levelBias: 0,
+  categories: [],
+};
+
+export const ENEMY_ROSTER: Record<string, EnemyDefinition> = {
+  slime: {
+    id: 'slime',
+    name: 'Slime',
+    maxHp: 60,
+    attackPower: 8,
+    attackIntervalMs: 6000,
+    levelBias: -1,
+    categories: [],
+    color: '#2ecc71',
+    behaviours: [{ type: 'regenerate', amount: 4 }],
+  },
+  goblin: {
+    id: 'goblin',
+    name: 'Goblin',
+    maxHp: 90,
+    attackPower: 12,
+    attackIntervalMs: 5000,
+    levelBias: 0,
+    categories: [],
+    color: '#e67e22',
+    behaviours: [{ type: 'scramble', durationMs: 1500 }],
+  },
+  knight: {
+    id: 'knight',
+    name: 'Dark Knight',
+    maxHp: 120,
+    attackPower: 16,
+    attackIntervalMs: 4500,
+    levelBias: 1,
+    categories: [],
+    color: '#95a5a6',
+    behaviours: [{ type: 'shield', minWordLength: 6, damageMultiplier: 0.5 }],
+  },
+  dragon: {
+    id: 'dragon',
+    name: 'Dragon',
+    maxHp: 160,
+    attackPower: 20,
+    attackIntervalMs: 4000,
+    levelBias: 2,
+    categories: [],
+    color: '#c0392b',
+    behaviours: [{ type: 'enrage', hpThreshold: 0.3, intervalMultiplier: 0.6 }],
+  },
+};
+
+// =============================================================================
+// BUILT-IN CAMPAIGNS
+// =============================================================================
+
+export const TOWER_CAMPAIGN: Campaign = {
+  id: 'tower',
+  name: 'The Tower',
+  stages: [
+    { id: 'gate', name: 'Tower Gate', enemy: ENEMY_ROSTER.slime },
+    { id: 'hall', name: 'Great Hall', enemy: ENEMY_ROSTER.goblin },
+    { id: 'armory', name: 'Armory', enemy: ENEMY_ROSTER.knight },
+    { id: 'summit', name: 'Summit', enemy: ENEMY_ROSTER.dragon },
+  ],
+};
+
+export const BUILT_IN_CAMPAIGNS: Record<string, Campaign> = {
+  [TOWER_CAMPAIGN.id]: TOWER_CAMPAIGN,
+};
+
+export function getBuiltInCampaign(id: string): Campaign | null {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_CAMPAIGNS, id)
+    ? BUILT_IN_CAMPAIGNS[id]
+    : null;
+}
+
+/**
+ * Load a campaign from a built-in id or a custom campaign object
+ */
+export function loadCampaign(value: unknown): Campaign {
+  if (typeof value === 'string') {
+    const campaign = getBuiltInCampaign(value);
+    if (!campaign) {
+      throw new Error(`Campaign: Unknown campaign: ${value}`);
+    }
+    return campaign;
+  }
+
+  const validation = validateCampaign(value);
+  if (!validation.valid) {
+    throw new Error(`Campaign: Invalid campaign: ${validation.errors[0]}`);
+  }
+  return value as Campaign;
+}
+
+// =============================================================================
+// PROGRESS
+// =============================================================================
+
+export function getStageState(campaign: Campaign, index: number): StageState {
+  const stage = campaign.stages[index];
+  if (!stage) {
+    throw new Error(`Campaign: No stage ${index} in ${campaign.id}`);
+  }
+
+  return {
+    campaignId: campaign.id,
+    index,
+    total: campaign.stages.length,
+    id: stage.id,
+    name: stage.name,
+  };
+}
+
+/**
+ * Summarise how far a run got
+ * The final stage counts as cleared once its enemy is defeated
+ */
+export function createCampaignResult(
+  stage: StageState,
+  enemyDefeated: boolean
+): CampaignResult {
+  const stagesCleared = stage.index + (enemyDefeated ? 1 : 0);
+
+  return {
+    campaignId: stage.campaignId,
+    totalStages: stage.total,
+    stagesCleared,
+    reachedStageId: stage.id,
+    completed: stagesCleared === stage.total,
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const MAX_LEVEL_BIAS = 4;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Check that a value is a playable campaign
+ * Errors name the field path, e.g. "stages[1].enemy.maxHp must be ..."
+ */
+export function validateCampaign(value: unknown): ValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { valid: false, errors: ['campaign must be an object'] };
+  }
+
+  const campaign = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  checkName(campaign.id, 'id', errors);
+  checkName(campaign.name, 'name', errors);
+
+  if (!Array.isArray(campaign.stages) || campaign.stages.length === 0) {
+    errors.push('stages must be a non-empty array');
+    return { valid: false, errors };
+  }
+
+  const stageIds = new Set<string>();
+  campaign.stages.forEach((value: unknown, index) => {
+    const path = `stages[${index}]`;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    const stage = value as Record<string, unknown>;
+    checkName(stage.id, `${path}.id`, errors);
+    checkName(stage.name, `${path}.name`, errors);
+    if (typeof stage.id === 'string') {
+      if (stageIds.has(stage.id)) {
+        errors.push(`${path}.id is used by an earlier stage`);
+      }
+      stageIds.add(stage.id);
+    }
+
+    errors.push(...validateEnemy(stage.enemy, `${path}.enemy`).errors);
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+export function validateEnemy(
+  value: unknown,
+  path = 'enemy'
+): ValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { valid: false, errors: [`${path} must be an object`] };
+  }
+
+  const enemy = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  checkName(enemy.id, `${path}.id`, errors);
+  checkName(enemy.name, `${path}.name`, errors);
+  checkPositiveInteger(enemy.maxHp, `${path}.maxHp`, errors);
+  checkPositiveInteger(enemy.attackPower, `${path}.attackPower`, errors);
+  checkPositiveInteger(
+    enemy.attackIntervalMs,
+    `${path}.attackIntervalMs`,
+    errors
+  );
+
+  if (
+    typeof enemy.levelBias !== 'number' ||
+    !Number.isInteger(enemy.levelBias) ||
+    Math.abs(enemy.levelBias) > MAX_LEVEL_BIAS
+  ) {
+    errors.push(
+      `${path}.levelBias must be an integer from -${MAX_LEVEL_BIAS} to ${MAX_LEVEL_BIAS}`
+    );
+  }
+  if (
+    !Array.isArray(enemy.categories) ||
+    enemy.categories.some(category => typeof category !== 'string')
+  ) {
+    errors.push(`${path}.categories must be an array of strings`);
+  }
+  if (
+    enemy.color !== undefined &&
+    (typeof enemy.color !== 'string' || !HEX_COLOR.test(enemy.color))
+  ) {
+    errors.push(`${path}.color must be a #rrggbb colour`);
+  }
+  if (enemy.behaviours !== undefined) {
+    errors.push(
+      ...validateEnemyBehaviours(enemy.behaviours, `${path}.behaviours`).errors
+    );
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+function checkName(value: unknown, path: string, errors: string[]): void {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    errors.push(`${path} must be a non-empty string`);
+  }
+}
+
+function checkPositiveInteger(
+  value: unknown,
+  path: string,
+  errors: string[]
+): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    errors.push(`${path} must be a positive integer`);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Time sources for the game engine
+ * Lets game logic run against wall-clock time or a manually driven clock
+ */
+
+export interface GameClock {
+  now(): number;
+}
+
+/**
+ * Wall-clock time, used by the browser adapters
+ */
+export const systemClock: GameClock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock that runs faster or slower than its source, for replay playback
+ */
+export class ScaledClock implements GameClock {
+  private source: GameClock;
+  private origin: number;
+  private speed: number;
+
+  constructor(speed: number, source: GameClock = systemClock) {
+    if (!(speed > 0)) {
+      throw new Error(`ScaledClock: Speed must be positive, got ${speed}`);
+    }
+    this.source = source;
+    this.origin = source.now();
+    this.speed = speed;
+  }
+
+  now(): number {
+    return this.origin + (this.source.now() - this.origin) * this.speed;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+}
+
+/**
+ * Clock that only moves when told to, for tests and simulations
+ */
+export class ManualClock implements GameClock {
+  private time: number;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Move the clock forward by the given number of milliseconds
+   */
+  advance(ms: number): number {
+    if (ms < 0) {
+      throw new Error('ManualClock: Cannot move time backwards');
+    }
+    this.time += ms;
+    return this.time;
+  }
+
+  /**
+   * Jump the clock to an absolute time
+   */
+  set(time: number): void {
+    if (time < this.time) {
+      throw new Error('ManualClock: Cannot move time backwards');
+    }
+    this.time = time;
+  }
+}
@@ -4,9 +4,15 @@ import {
   AttackResult,
   HealResult,
   GuardResult,
-  ActionType,
-  WordLevel,
+  ActionBalance,
+  AccuracyBalance,
+  ComboBalance,
+  CombatProfile,
+  SpeedBalance,
 } from '../types';
+import { RandomSource, defaultRandom } from './random';
+import { getPhraseLengthMultiplier, getTypingUnitLength } from './phrase';
+import { DEFAULT_COMBAT_PROFILE } from './combatProfile';
 
 /**
  * Combat calculation utilities for the typing RPG
@@ -19,6 +25,11 @@ export interface CombatConfig {
   combo: number;
   timeRemaining: number;
   totalTime: number;
+  random?: RandomSource; // Defaults to Math.random
+  profile?: CombatProfile; // Defaults to the classic profile
+  skillMultiplier?: number; // From equipped skills, scales damage or healing
+  perfectGuard?: boolean; // From a charged auto-guard skill
+  targetMultiplier?: number; // From status effects on the enemy, e.g. vulnerability
 }
 
 export interface DamageModifiers {
@@ -29,6 +40,7 @@ export interface DamageModifiers {
   critical: number;
   level: number;
   difficulty: number;
+  phrase: number; // Phrase length scaling, 1 for single words
 }
 
 export interface CombatCalculationResult {
@@ -39,42 +51,6 @@ export interface CombatCalculationResult {
   breakdown: string[];
 }
 
-// =============================================================================
-// CORE CALCULATION CONSTANTS
-// =============================================================================
-
-const DIFFICULTY_MODIFIERS: Record<GameDifficulty, number> = {
-  EASY: 1.2,
-  NORMAL: 1.0,
-  HARD: 0.8,
-};
-
-const WORD_LEVEL_BASE_DAMAGE: Record<WordLevel, number> = {
-  1: 15,  // Basic words
-  2: 20,  // Common words  
-  3: 25,  // Intermediate words
-  4: 30,  // Advanced words
-  5: 35,  // Expert words
-};
-
-const WORD_LEVEL_BASE_HEALING: Record<WordLevel, number> = {
-  1: 12,
-  2: 16,
-  3: 20,
-  4: 24,
-  5: 28,
-};
-
-const COMBO_THRESHOLDS = [0, 5, 10, 20, 35, 50];
-const COMBO_MULTIPLIERS = [1.0, 1.1, 1.2, 1.4, 1.7, 2.0];
-
-const CRITICAL_HIT_CHANCE_BASE = 0.05; // 5% base
-const CRITICAL_HIT_DAMAGE_MULTIPLIER = 1.8;
-
-const MIN_ACCURACY_FOR_SUCCESS = 0.7;
-const PERFECT_ACCURACY_BONUS = 1.3;
-const SPEED_BONUS_THRESHOLD = 1.2; // 20% above expected WPM
-
 // =============================================================================
 // MAIN CALCULATION FUNCTIONS
 // =============================================================================
@@ -86,21 +62,24 @@ export function calculateAttackDamage(
   completedWord: CompletedWord,
   config: CombatConfig
 ): CombatCalculationResult {
+  const profile = config.profile ?? DEFAULT_COMBAT_PROFILE;
+  const balance = profile.attack;
   const breakdown: string[] = [];
   
   // Base damage from word level
-  const baseDamage = WORD_LEVEL_BASE_DAMAGE[completedWord.level];
+  const baseDamage = calculateBaseValue(completedWord, balance);
   breakdown.push(`Base damage (L${completedWord.level}): ${baseDamage}`);
 
   // Calculate modifiers
   const modifiers: DamageModifiers = {
     base: baseDamage,
-    accuracy: calculateAccuracyModifier(completedWord.accuracy),
-    speed: calculateSpeedModifier(completedWord.wpm, completedWord.expectedWPM || getExpectedWPM(completedWord)),
-    combo: calculateComboModifier(config.combo),
+    accuracy: calculateAccuracyModifier(completedWord, balance.accuracy),
+    speed: calculateSpeedModifier(completedWord, balance.speed, profile),
+    combo: calculateComboModifier(config.combo, balance.combo),
     critical: 1.0,
-    level: calculateLevelModifier(config.playerLevel),
-    difficulty: DIFFICULTY_MODIFIERS[config.difficulty],
+    level: calculateLevelModifier(config.playerLevel, balance.levelBonus),
+    difficulty: profile.difficultyMultipliers[config.difficulty],
+    phrase: getPhraseLengthMultiplier(completedWord, profile.phrase),
   };
 
   breakdown.push(`Accuracy modifier (${(completedWord.accuracy * 100).toFixed(1)}%): ×${modifiers.accuracy.toFixed(2)}`);
@@ -108,14 +87,27 @@ export function calculateAttackDamage(
   breakdown.push(`Combo modifier (×${config.combo}): ×${modifiers.combo.toFixed(2)}`);
   breakdown.push(`Level modifier (Lv${config.playerLevel}): ×${modifiers.level.toFixed(2)}`);
   breakdown.push(`Difficulty modifier (${config.difficulty}): ×${modifiers.difficulty.toFixed(2)}`);
+  if (modifiers.phrase > 1) {
+    breakdown.push(`Phrase modifier: ×${modifiers.phrase.toFixed(2)}`);
+  }
 
   // Check for critical hit
-  const criticalChance = calculateCriticalHitChance(completedWord, config);
-  const isCritical = Math.random() < criticalChance;
+  const criticalChance = calculateCriticalHitChance(completedWord, config, profile) * balance.critical.chanceScale;
+  const isCritical = criticalChance > 0 && (config.random ?? defaultRandom)() < criticalChance;
   
   if (isCritical) {
-    modifiers.critical = CRITICAL_HIT_DAMAGE_MULTIPLIER;
-    breakdown.push(`CRITICAL HIT: ×${CRITICAL_HIT_DAMAGE_MULTIPLIER.toFixed(2)}`);
+    modifiers.critical = balance.critical.multiplier;
+    breakdown.push(`CRITICAL HIT: ×${modifiers.critical.toFixed(2)}`);
+  }
+
+  const skillMultiplier = config.skillMultiplier ?? 1;
+  if (skillMultiplier !== 1) {
+    breakdown.push(`Skill modifier: ×${skillMultiplier.toFixed(2)}`);
+  }
+
+  const targetMultiplier = config.targetMultiplier ?? 1;
+  if (targetMultiplier !== 1) {
+    breakdown.push(`Target modifier: ×${targetMultiplier.toFixed(2)}`);
   }
 
   // Calculate final damage
@@ -125,7 +117,10 @@ export function calculateAttackDamage(
     modifiers.combo * 
     modifiers.level * 
     modifiers.difficulty * 
-    modifiers.critical;
+    modifiers.phrase *
+    modifiers.critical *
+    skillMultiplier *
+    targetMultiplier;
 
   // Minimum damage (can't go below 1)
   finalDamage = Math.max(1, Math.round(finalDamage));
@@ -146,37 +141,48 @@ export function calculateHealingAmount(
   completedWord: CompletedWord,
   config: CombatConfig
 ): CombatCalculationResult {
+  const profile = config.profile ?? DEFAULT_COMBAT_PROFILE;
+  const balance = profile.heal;
   const breakdown: string[] = [];
   
   // Base healing from word level
-  const baseHealing = WORD_LEVEL_BASE_HEALING[completedWord.level];
+  const baseHealing = calculateBaseValue(completedWord, balance);
   breakdown.push(`Base healing (L${completedWord.level}): ${baseHealing}`);
 
-  // Calculate modifiers (similar to damage but with different scaling)
+  // Calculate modifiers (same shape as damage, the profile sets the scaling)
   const modifiers: DamageModifiers = {
     base: baseHealing,
-    accuracy: calculateAccuracyModifier(completedWord.accuracy, true),
-    speed: calculateSpeedModifier(completedWord.wpm, completedWord.expectedWPM || getExpectedWPM(completedWord), true),
-    combo: calculateComboModifier(config.combo, 0.7), // Lower combo scaling for healing
+    accuracy: calculateAccuracyModifier(completedWord, balance.accuracy),
+    speed: calculateSpeedModifier(completedWord, balance.speed, profile),
+    combo: calculateComboModifier(config.combo, balance.combo),
     critical: 1.0,
-    level: calculateLevelModifier(config.playerLevel, 0.8), // Lower level scaling
-    difficulty: DIFFICULTY_MODIFIERS[config.difficulty],
+    level: calculateLevelModifier(config.playerLevel, balance.levelBonus),
+    difficulty: profile.difficultyMultipliers[config.difficulty],
+    phrase: getPhraseLengthMultiplier(completedWord, profile.phrase),
   };
 
   breakdown.push(`Accuracy modifier: ×${modifiers.accuracy.toFixed(2)}`);
   breakdown.push(`Speed modifier: ×${modifiers.speed.toFixed(2)}`);
   breakdown.push(`Combo modifier: ×${modifiers.combo.toFixed(2)}`);
   breakdown.push(`Level modifier: ×${modifiers.level.toFixed(2)}`);
+  if (modifiers.phrase > 1) {
+    breakdown.push(`Phrase modifier: ×${modifiers.phrase.toFixed(2)}`);
+  }
 
-  // Critical healing check (lower chance than damage)
-  const criticalChance = calculateCriticalHitChance(completedWord, config) * 0.6;
-  const isCritical = Math.random() < criticalChance;
+  // Critical healing check (classic heals crit less often than attacks)
+  const criticalChance = calculateCriticalHitChance(completedWord, config, profile) * balance.critical.chanceScale;
+  const isCritical = criticalChance > 0 && (config.random ?? defaultRandom)() < criticalChance;
   
   if (isCritical) {
-    modifiers.critical = 1.5; // Lower critical multiplier for healing
+    modifiers.critical = balance.critical.multiplier;
     breakdown.push(`CRITICAL HEAL: ×${modifiers.critical.toFixed(2)}`);
   }
 
+  const skillMultiplier = config.skillMultiplier ?? 1;
+  if (skillMultiplier !== 1) {
+    breakdown.push(`Skill modifier: ×${skillMultiplier.toFixed(2)}`);
+  }
+
   // Calculate final healing
   let finalHealing = baseHealing * 
     modifiers.accuracy * 
@@ -184,7 +190,9 @@ export function calculateHealingAmount(
     modifiers.combo * 
     modifiers.level * 
     modifiers.difficulty * 
-    modifiers.critical;
+    modifiers.phrase *
+    modifiers.critical *
+    skillMultiplier;
 
   finalHealing = Math.max(1, Math.round(finalHealing));
 
@@ -205,28 +213,45 @@ export function calculateGuardEffectiveness(
   incomingDamage: number,
   config: CombatConfig
 ): CombatCalculationResult {
+  const profile = config.profile ?? DEFAULT_COMBAT_PROFILE;
+  const balance = profile.guard;
   const breakdown: string[] = [];
   
   // Base guard effectiveness (percentage of damage blocked)
-  const baseEffectiveness = 0.4 + (completedWord.level * 0.1); // 50-90% base
+  const baseEffectiveness = balance.base + (completedWord.level * balance.perLevel);
   breakdown.push(`Base guard (L${completedWord.level}): ${(baseEffectiveness * 100).toFixed(1)}%`);
 
   // Modifiers affect how much damage is blocked
-  const accuracyBonus = (completedWord.accuracy - MIN_ACCURACY_FOR_SUCCESS) * 0.5;
-  const speedBonus = completedWord.wpm > (completedWord.expectedWPM || getExpectedWPM(completedWord)) ? 0.1 : 0;
-  
-  let finalEffectiveness = baseEffectiveness + accuracyBonus + speedBonus;
-  finalEffectiveness = Math.min(0.95, Math.max(0.1, finalEffectiveness)); // 10-95% range
+  let accuracyBonus: number;
+  let speedBonus: number;
+  let finalEffectiveness: number;
+  if (balance.kind === 'additive') {
+    accuracyBonus = (completedWord.accuracy - balance.accuracyPivot) * balance.perAccuracy;
+    speedBonus = completedWord.wpm > (completedWord.expectedWPM || getExpectedWPM(completedWord, profile)) ? balance.speedBonus : 0;
+    finalEffectiveness = baseEffectiveness + accuracyBonus + speedBonus;
+
+    breakdown.push(`Accuracy bonus: +${(accuracyBonus * 100).toFixed(1)}%`);
+    if (speedBonus > 0) {
+      breakdown.push(`Speed bonus: +${(speedBonus * 100).toFixed(1)}%`);
+    }
+  } else {
+    accuracyBonus = clamp(completedWord.accuracy, balance.minAccuracyFactor, 1);
+    speedBonus = 1 + calculateWpmBoost(completedWord.wpm, balance.speed);
+    finalEffectiveness = baseEffectiveness * accuracyBonus * speedBonus;
 
-  breakdown.push(`Accuracy bonus: +${(accuracyBonus * 100).toFixed(1)}%`);
-  if (speedBonus > 0) {
-    breakdown.push(`Speed bonus: +${(speedBonus * 100).toFixed(1)}%`);
+    breakdown.push(`Accuracy factor: ×${accuracyBonus.toFixed(2)}`);
+    breakdown.push(`Speed factor: ×${speedBonus.toFixed(2)}`);
   }
 
+  finalEffectiveness = clamp(finalEffectiveness, balance.min, balance.max);
+
   const damageBlocked = Math.round(incomingDamage * finalEffectiveness);
-  const damageReceived = incomingDamage - damageBlocked;
 
-  const isCritical = completedWord.accuracy >= 0.98 && completedWord.errors === 0;
+  const isCritical = config.perfectGuard === true || (
+    balance.perfectAccuracy !== null &&
+    completedWord.accuracy >= balance.perfectAccuracy &&
+    completedWord.errors === 0
+  );
   if (isCritical) {
     breakdown.push('PERFECT GUARD: Full damage blocked!');
   }
@@ -243,6 +268,7 @@ export function calculateGuardEffectiveness(
       critical: isCritical ? 1.0 : 0,
       level: 0,
       difficulty: 1.0,
+      phrase: 1.0,
     },
     breakdown,
   };
@@ -252,91 +278,119 @@ export function calculateGuardEffectiveness(
 // MODIFIER CALCULATION HELPERS
 // =============================================================================
 
-function calculateAccuracyModifier(accuracy: number, isHealing: boolean = false): number {
-  if (accuracy < MIN_ACCURACY_FOR_SUCCESS) {
-    return 0.5; // Heavily penalize low accuracy
+function calculateBaseValue(word: CompletedWord, balance: ActionBalance): number {
+  // Phrases are scaled by word count, so length counts per word
+  return balance.base.byLevel[word.level] +
+    balance.base.perLevel * word.level +
+    balance.base.perChar * getTypingUnitLength(word);
+}
+
+function calculateAccuracyModifier(word: CompletedWord, balance: AccuracyBalance): number {
+  if (balance.kind === 'errors') {
+    return Math.max(balance.min, 1 - balance.perError * word.errors);
+  }
+
+  if (word.accuracy < balance.minAccuracy) {
+    return balance.belowMin; // Heavily penalize low accuracy
   }
   
-  if (accuracy >= 1.0) {
-    return isHealing ? PERFECT_ACCURACY_BONUS * 0.8 : PERFECT_ACCURACY_BONUS;
+  if (word.accuracy >= 1.0) {
+    return balance.perfect;
   }
   
-  // Linear scaling from 0.7 to 1.0 accuracy
-  const normalizedAccuracy = (accuracy - MIN_ACCURACY_FOR_SUCCESS) / (1.0 - MIN_ACCURACY_FOR_SUCCESS);
-  return 0.8 + (normalizedAccuracy * 0.5);
+  // Linear scaling from minimum to perfect accuracy
+  const normalizedAccuracy = (word.accuracy - balance.minAccuracy) / (1.0 - balance.minAccuracy);
+  return balance.atMin + (normalizedAccuracy * (balance.nearPerfect - balance.atMin));
 }
 
-function calculateSpeedModifier(actualWPM: number, expectedWPM: number, isHealing: boolean = false): number {
-  const speedRatio = actualWPM / expectedWPM;
+function calculateSpeedModifier(word: CompletedWord, balance: SpeedBalance, profile: CombatProfile): number {
+  if (balance.kind === 'wpm') {
+    return 1 + calculateWpmBoost(word.wpm, balance);
+  }
+
+  const speedRatio = word.wpm / (word.expectedWPM || getExpectedWPM(word, profile));
   
-  if (speedRatio < 0.8) {
-    return 0.7; // Penalty for slow typing
+  if (speedRatio < balance.slowRatio) {
+    return balance.slow; // Penalty for slow typing
   }
   
-  if (speedRatio >= SPEED_BONUS_THRESHOLD) {
-    const bonus = isHealing ? 1.2 : 1.3;
-    return Math.min(bonus, 1.0 + (speedRatio - 1.0) * 0.5);
+  if (speedRatio >= balance.fastRatio) {
+    return Math.min(balance.max, 1.0 + (speedRatio - 1.0) * balance.perRatio);
   }
   
   return 1.0;
 }
 
-function calculateComboModifier(combo: number, scaling: number = 1.0): number {
+function calculateWpmBoost(
+  wpm: number,
+  balance: { baselineWpm: number; wpmRange: number; min: number; max: number }
+): number {
+  return clamp((wpm - balance.baselineWpm) / balance.wpmRange, balance.min, balance.max);
+}
+
+function calculateComboModifier(combo: number, balance: ComboBalance | null): number {
+  if (!balance) return 1.0;
+
+  if (balance.kind === 'linear') {
+    return 1.0 + Math.min(balance.max, combo * balance.perCombo);
+  }
+
   let multiplierIndex = 0;
   
-  for (let i = COMBO_THRESHOLDS.length - 1; i >= 0; i--) {
-    if (combo >= COMBO_THRESHOLDS[i]) {
+  for (let i = balance.thresholds.length - 1; i >= 0; i--) {
+    if (combo >= balance.thresholds[i]) {
       multiplierIndex = i;
       break;
     }
   }
   
-  const baseMultiplier = COMBO_MULTIPLIERS[multiplierIndex];
-  return 1.0 + (baseMultiplier - 1.0) * scaling;
+  const baseMultiplier = balance.multipliers[multiplierIndex];
+  return 1.0 + (baseMultiplier - 1.0) * balance.scaling;
 }
 
-function calculateLevelModifier(playerLevel: number, scaling: number = 1.0): number {
-  const baseBonus = 1.0 + (playerLevel - 1) * 0.05; // 5% per level
-  return 1.0 + (baseBonus - 1.0) * scaling;
+function calculateLevelModifier(playerLevel: number, bonusPerLevel: number): number {
+  return 1.0 + (playerLevel - 1) * bonusPerLevel;
 }
 
-function calculateCriticalHitChance(completedWord: CompletedWord, config: CombatConfig): number {
-  let critChance = CRITICAL_HIT_CHANCE_BASE;
+function calculateCriticalHitChance(completedWord: CompletedWord, config: CombatConfig, profile: CombatProfile): number {
+  const balance = profile.critical;
+  if (!balance) return 0;
+
+  let critChance = balance.baseChance;
   
   // Accuracy bonus
-  if (completedWord.accuracy >= 0.95) {
-    critChance += 0.1;
+  if (completedWord.accuracy >= balance.highAccuracy) {
+    critChance += balance.highAccuracyBonus;
   }
   
   // Perfect typing bonus
   if (completedWord.errors === 0 && completedWord.accuracy >= 1.0) {
-    critChance += 0.15;
+    critChance += balance.perfectBonus;
   }
   
   // Speed bonus
-  const expectedWPM = completedWord.expectedWPM || getExpectedWPM(completedWord);
-  if (completedWord.wpm > expectedWPM * 1.3) {
-    critChance += 0.08;
+  const expectedWPM = completedWord.expectedWPM || getExpectedWPM(completedWord, profile);
+  if (completedWord.wpm > expectedWPM * balance.fastRatio) {
+    critChance += balance.fastBonus;
   }
   
   // Combo bonus
-  critChance += Math.min(0.2, config.combo * 0.01);
+  critChance += Math.min(balance.maxComboBonus, config.combo * balance.perCombo);
   
-  return Math.min(0.5, critChance); // Cap at 50%
+  return Math.min(balance.maxChance, critChance);
 }
 
-function getExpectedWPM(word: CompletedWord): number {
+function getExpectedWPM(word: CompletedWord, profile: CombatProfile): number {
   // Estimate expected WPM based on word characteristics
-  const baseDifficulty: Record<WordLevel, number> = {
-    1: 45, // Easy words
-    2: 40, // Common words
-    3: 35, // Intermediate
-    4: 30, // Advanced  
-    5: 25, // Expert
-  };
-  
-  const lengthPenalty = Math.max(0, word.length - 6) * 2; // Penalty for long words
-  return Math.max(20, baseDifficulty[word.level] - lengthPenalty);
+  const balance = profile.expectedWpm;
+
+  // Penalty for long words; phrases use their average word length
+  const lengthPenalty = Math.max(0, getTypingUnitLength(word) - balance.longWordLength) * balance.perExtraChar;
+  return Math.max(balance.min, balance.byLevel[word.level] - lengthPenalty);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
 }
 
 // =============================================================================
@@ -350,13 +404,14 @@ export function createAttackResult(
   completedWord: CompletedWord,
   calculation: CombatCalculationResult,
   enemyHpBefore: number,
-  combo: number
+  combo: number,
+  profile: CombatProfile = DEFAULT_COMBAT_PROFILE
 ): AttackResult {
   const damageDealt = calculation.finalValue;
   const enemyHpAfter = Math.max(0, enemyHpBefore - damageDealt);
 
   return {
-    success: completedWord.accuracy >= MIN_ACCURACY_FOR_SUCCESS,
+    success: completedWord.accuracy >= profile.successAccuracy,
     type: 'ATTACK',
     word: completedWord,
     value: damageDealt,
@@ -366,6 +421,7 @@ export function createAttackResult(
     enemyHpAfter,
     damageDealt,
     message: calculation.isCritical ? 'Critical Hit!' : undefined,
+    breakdown: calculation.breakdown,
   };
 }
 
@@ -377,13 +433,14 @@ export function createHealResult(
   calculation: CombatCalculationResult,
   playerHpBefore: number,
   playerMaxHp: number,
-  combo: number
+  combo: number,
+  profile: CombatProfile = DEFAULT_COMBAT_PROFILE
 ): HealResult {
   const healingDone = calculation.finalValue;
   const playerHpAfter = Math.min(playerMaxHp, playerHpBefore + healingDone);
 
   return {
-    success: completedWord.accuracy >= MIN_ACCURACY_FOR_SUCCESS,
+    success: completedWord.accuracy >= profile.successAccuracy,
     type: 'HEAL',
     word: completedWord,
     value: healingDone,
@@ -393,6 +450,7 @@ export function createHealResult(
     playerHpAfter,
     healingDone,
     message: calculation.isCritical ? 'Critical Heal!' : undefined,
+    breakdown: calculation.breakdown,
   };
 }
 
@@ -403,14 +461,15 @@ export function createGuardResult(
   completedWord: CompletedWord,
   calculation: CombatCalculationResult,
   incomingDamage: number,
-  combo: number
+  combo: number,
+  profile: CombatProfile = DEFAULT_COMBAT_PROFILE
 ): GuardResult {
   const damageBlocked = calculation.finalValue;
   const damageReceived = Math.max(0, incomingDamage - damageBlocked);
   const blocked = calculation.isCritical || damageReceived === 0;
 
   return {
-    success: completedWord.accuracy >= MIN_ACCURACY_FOR_SUCCESS,
+    success: completedWord.accuracy >= profile.successAccuracy,
     type: 'GUARD',
     word: completedWord,
     value: damageBlocked,
@@ -420,5 +479,6 @@ export function createGuardResult(
     damageBlocked,
     damageReceived,
     message: calculation.isCritical ? 'Perfect Guard!' : undefined,
+    breakdown: calculation.breakdown,
   };
 }
\ No newline at end of file
@@ -0,0 +1,508 @@
+import {
+  AccuracyBalance,
+  CombatProfile,
+  ComboBalance,
+  GuardBalance,
+  SpeedBalance,
+  ValidationResult,
+} from '../types';
+import { MAX_WORD_LEVEL, MIN_WORD_LEVEL } from './wordValidation';
+
+/**
+ * Built-in combat balance profiles and validation for custom ones
+ * Profiles are plain JSON, so a pack or a session can carry its own and the
+ * active one can be snapshotted with the session
+ */
+
+// =============================================================================
+// BUILT-IN PROFILES
+// =============================================================================
+
+/**
+ * The balance the game shipped with
+ */
+export const CLASSIC_COMBAT_PROFILE: CombatProfile = {
+  id: 'classic',
+  name: 'Classic',
+  attack: {
+    base: {
+      byLevel: { 1: 15, 2: 20, 3: 25, 4: 30, 5: 35 },
+      perLevel: 0,
+      perChar: 0,
+    },
+    accuracy: {
+      kind: 'accuracy',
+      minAccuracy: 0.7,
+      belowMin: 0.5,
+      atMin: 0.8,
+      nearPerfect: 1.3,
+      perfect: 1.3,
+    },
+    speed: {
+      kind: 'ratio',
+      slowRatio: 0.8,
+      slow: 0.7,
+      fastRatio: 1.2,
+      perRatio: 0.5,
+      max: 1.3,
+    },
+    combo: {
+      kind: 'tiers',
+      thresholds: [0, 5, 10, 20, 35, 50],
+      multipliers: [1.0, 1.1, 1.2, 1.4, 1.7, 2.0],
+      scaling: 1.0,
+    },
+    levelBonus: 0.05,
+    critical: { chanceScale: 1.0, multiplier: 1.8 },
+  },
+  heal: {
+    base: {
+      byLevel: { 1: 12, 2: 16, 3: 20, 4: 24, 5: 28 },
+      perLevel: 0,
+      perChar: 0,
+    },
+    accuracy: {
+      kind: 'accuracy',
+      minAccuracy: 0.7,
+      belowMin: 0.5,
+      atMin: 0.8,
+      nearPerfect: 1.3,
+      perfect: 1.04,
+    },
+    speed: {
+      kind: 'ratio',
+      slowRatio: 0.8,
+      slow: 0.7,
+      fastRatio: 1.2,
+      perRatio: 0.5,
+      max: 1.2,
+    },
+    combo: {
+      kind: 'tiers',
+      thresholds: [0, 5, 10, 20, 35, 50],
+      multipliers: [1.0, 1.1, 1.2, 1.4, 1.7, 2.0],
+      scaling: 0.7,
+    },
+    levelBonus: 0.04,
+    critical: { chanceScale: 0.6, multiplier: 1.5 },
+  },
+  guard: {
+    kind: 'additive',
+    base: 0.4,
+    perLevel: 0.1,
+    accuracyPivot: 0.7,
+    perAccuracy: 0.5,
+    speedBonus: 0.1,
+    min: 0.1,
+    max: 0.95,
+    perfectAccuracy: 0.98,
+  },
+  critical: {
+    baseChance: 0.05,
+    highAccuracy: 0.95,
+    highAccuracyBonus: 0.1,
+    perfectBonus: 0.15,
+    fastRatio: 1.3,
+    fastBonus: 0.08,
+    perCombo: 0.01,
+    maxComboBonus: 0.2,
+    maxChance: 0.5,
+  },
+  difficultyMultipliers: { EASY: 1.2, NORMAL: 1.0, HARD: 0.8 },
+  expectedWpm: {
+    byLevel: { 1: 45, 2: 40, 3: 35, 4: 30, 5: 25 },
+    longWordLength: 6,
+    perExtraChar: 2,
+    min: 20,
+  },
+  phrase: { perExtraWord: 0.35, max: 3 },
+  successAccuracy: 0.7,
+};
+
+/**
+ * The MVP formulas from docs/prd.md section 5.2
+ * No criticals, and difficulty is left to the enemy rather than the player
+ */
+export const PRD_MVP_COMBAT_PROFILE: CombatProfile = {
+  id: 'prd-mvp',
+  name: 'PRD MVP',
+  attack: {
+    // 5 + 0.8*L + 0.2*len
+    base: {
+      byLevel: { 1: 5, 2: 5, 3: 5, 4: 5, 5: 5 },
+      perLevel: 0.8,
+      perChar: 0.2,
+    },
+    accuracy: { kind: 'errors', perError: 0.15, min: 0.4 },
+    speed: { kind: 'wpm', baselineWpm: 35, wpmRange: 65, min: 0, max: 0.3 },
+    combo: { kind: 'linear', perCombo: 0.05, max: 0.5 },
+    levelBonus: 0,
+    critical: { chanceScale: 0, multiplier: 1.0 },
+  },
+  heal: {
+    // 4 + 0.6*L + 0.15*len
+    base: {
+      byLevel: { 1: 4, 2: 4, 3: 4, 4: 4, 5: 4 },
+      perLevel: 0.6,
+      perChar: 0.15,
+    },
+    accuracy: { kind: 'errors', perError: 0.12, min: 0.5 },
+    speed: { kind: 'wpm', baselineWpm: 30, wpmRange: 70, min: 0, max: 0.25 },
+    combo: null,
+    levelBonus: 0,
+    critical: { chanceScale: 0, multiplier: 1.0 },
+  },
+  guard: {
+    kind: 'multiplicative',
+    base: 0.35,
+    perLevel: 0.05,
+    minAccuracyFactor: 0.2,
+    speed: { baselineWpm: 30, wpmRange: 60, min: -0.1, max: 0.2 },
+    min: 0.1,
+    max: 0.85,
+    perfectAccuracy: null,
+  },
+  critical: null,
+  difficultyMultipliers: { EASY: 1.0, NORMAL: 1.0, HARD: 1.0 },
+  expectedWpm: CLASSIC_COMBAT_PROFILE.expectedWpm,
+  phrase: CLASSIC_COMBAT_PROFILE.phrase,
+  successAccuracy: 0.7,
+};
+
+export const BUILT_IN_COMBAT_PROFILES: Record<string, CombatProfile> = {
+  [CLASSIC_COMBAT_PROFILE.id]: CLASSIC_COMBAT_PROFILE,
+  [PRD_MVP_COMBAT_PROFILE.id]: PRD_MVP_COMBAT_PROFILE,
+};
+
+export const DEFAULT_COMBAT_PROFILE = CLASSIC_COMBAT_PROFILE;
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+export function getBuiltInCombatProfile(id: string): CombatProfile | null {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_COMBAT_PROFILES, id)
+    ? BUILT_IN_COMBAT_PROFILES[id]
+    : null;
+}
+
+/**
+ * Load a profile from a built-in id or a custom profile object
+ */
+export function loadCombatProfile(value: unknown): CombatProfile {
+  if (typeof value === 'string') {
+    const profile = getBuiltInCombatProfile(value);
+    if (!profile) {
+      throw new Error(`CombatProfile: Unknown profile: ${value}`);
+    }
+    return profile;
+  }
+
+  const validation = validateCombatProfile(value);
+  if (!validation.valid) {
+    throw new Error(`CombatProfile: Invalid profile: ${validation.errors[0]}`);
+  }
+  return value as CombatProfile;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Check that a value is a complete, sensible profile
+ * Errors name the field path, e.g. "attack.speed.max must be at least 0"
+ */
+export function validateCombatProfile(value: unknown): ValidationResult {
+  const errors: string[] = [];
+  const profile = readObject(value, 'profile', errors);
+  if (!profile) return { valid: false, errors };
+
+  if (typeof profile.id !== 'string' || profile.id.trim().length === 0) {
+    errors.push('id must be a non-empty string');
+  }
+  if (typeof profile.name !== 'string' || profile.name.trim().length === 0) {
+    errors.push('name must be a non-empty string');
+  }
+
+  validateActionBalance(profile.attack, 'attack', errors);
+  validateActionBalance(profile.heal, 'heal', errors);
+  validateGuardBalance(profile.guard, errors);
+
+  if (profile.critical !== null) {
+    const critical = readObject(profile.critical, 'critical', errors);
+    if (critical) {
+      checkNumbers(critical, 'critical', errors, [
+        'baseChance',
+        'highAccuracy',
+        'highAccuracyBonus',
+        'perfectBonus',
+        'fastBonus',
+        'perCombo',
+        'maxComboBonus',
+      ]);
+      checkNumber(critical.fastRatio, 'critical.fastRatio', errors);
+      checkNumber(critical.maxChance, 'critical.maxChance', errors, 0, 1);
+    }
+  }
+
+  const difficulty = readObject(
+    profile.difficultyMultipliers,
+    'difficultyMultipliers',
+    errors
+  );
+  if (difficulty) {
+    checkNumbers(difficulty, 'difficultyMultipliers', errors, [
+      'EASY',
+      'NORMAL',
+      'HARD',
+    ]);
+  }
+
+  const expectedWpm = readObject(profile.expectedWpm, 'expectedWpm', errors);
+  if (expectedWpm) {
+    checkLevelTable(expectedWpm.byLevel, 'expectedWpm.byLevel', errors, 1);
+    checkNumbers(expectedWpm, 'expectedWpm', errors, [
+      'longWordLength',
+      'perExtraChar',
+    ]);
+    checkNumber(expectedWpm.min, 'expectedWpm.min', errors, 1);
+  }
+
+  const phrase = readObject(profile.phrase, 'phrase', errors);
+  if (phrase) {
+    checkNumber(phrase.perExtraWord, 'phrase.perExtraWord', errors);
+    checkNumber(phrase.max, 'phrase.max', errors, 1);
+  }
+
+  checkNumber(profile.successAccuracy, 'successAccuracy', errors, 0, 1);
+
+  return { valid: errors.length === 0, errors };
+}
+
+function validateActionBalance(
+  value: unknown,
+  path: string,
+  errors: string[]
+): void {
+  const action = readObject(value, path, errors);
+  if (!action) return;
+
+  const base = readObject(action.base, `${path}.base`, errors);
+  if (base) {
+    checkLevelTable(base.byLevel, `${path}.base.byLevel`, errors);
+    checkNumbers(base, `${path}.base`, errors, ['perLevel', 'perChar']);
+  }
+
+  validateAccuracyBalance(action.accuracy, `${path}.accuracy`, errors);
+  validateSpeedBalance(action.speed, `${path}.speed`, errors);
+  if (action.combo !== null) {
+    validateComboBalance(action.combo, `${path}.combo`, errors);
+  }
+  checkNumber(action.levelBonus, `${path}.levelBonus`, errors);
+
+  const critical = readObject(action.critical, `${path}.critical`, errors);
+  if (critical) {
+    checkNumber(critical.chanceScale, `${path}.critical.chanceScale`, errors);
+    checkNumber(critical.multiplier, `${path}.critical.multiplier`, errors, 1);
+  }
+}
+
+function validateAccuracyBalance(
+  value: unknown,
+  path: string,
+  errors: string[]
+): void {
+  const accuracy = readObject(value, path, errors);
+  if (!accuracy) return;
+
+  const kind = accuracy.kind as AccuracyBalance['kind'];
+  if (kind === 'accuracy') {
+    checkNumber(accuracy.minAccuracy, `${path}.minAccuracy`, errors, 0, 0.99);
+    checkNumbers(accuracy, path, errors, [
+      'belowMin',
+      'atMin',
+      'nearPerfect',
+      'perfect',
+    ]);
+  } else if (kind === 'errors') {
+    checkNumbers(accuracy, path, errors, ['perError', 'min']);
+  } else {
+    errors.push(`${path}.kind must be one of: accuracy, errors`);
+  }
+}
+
+function validateSpeedBalance(
+  value: unknown,
+  path: string,
+  errors: string[]
+): void {
+  const speed = readObject(value, path, errors);
+  if (!speed) return;
+
+  const kind = speed.kind as SpeedBalance['kind'];
+  if (kind === 'ratio') {
+    checkNumbers(speed, path, errors, ['slowRatio', 'slow', 'perRatio', 'max']);
+    checkNumber(speed.fastRatio, `${path}.fastRatio`, errors, 1);
+  } else if (kind === 'wpm') {
+    checkLinearWpm(speed, path, errors);
+  } else {
+    errors.push(`${path}.kind must be one of: ratio, wpm`);
+  }
+}
+
+function validateComboBalance(
+  value: unknown,
+  path: string,
+  errors: string[]
+): void {
+  const combo = readObject(value, path, errors);
+  if (!combo) return;
+
+  const kind = combo.kind as ComboBalance['kind'];
+  if (kind === 'tiers') {
+    const { thresholds, multipliers } = combo;
+    if (
+      !isNumberList(thresholds) ||
+      thresholds.length === 0 ||
+      thresholds[0] !== 0 ||
+      thresholds.some((threshold, i) => i > 0 && threshold <= thresholds[i - 1])
+    ) {
+      errors.push(
+        `${path}.thresholds must be increasing numbers starting at 0`
+      );
+    }
+    if (
+      !isNumberList(multipliers) ||
+      !Array.isArray(thresholds) ||
+      multipliers.length !== thresholds.length
+    ) {
+      errors.push(`${path}.multipliers must have one number per threshold`);
+    }
+    checkNumber(combo.scaling, `${path}.scaling`, errors);
+  } else if (kind === 'linear') {
+    checkNumbers(combo, path, errors, ['perCombo', 'max']);
+  } else {
+    errors.push(`${path}.kind must be one of: tiers, linear`);
+  }
+}
+
+function validateGuardBalance(value: unknown, errors: string[]): void {
+  const guard = readObject(value, 'guard', errors);
+  if (!guard) return;
+
+  const kind = guard.kind as GuardBalance['kind'];
+  if (kind === 'additive') {
+    checkNumbers(guard, 'guard', errors, [
+      'base',
+      'perLevel',
+      'accuracyPivot',
+      'perAccuracy',
+      'speedBonus',
+    ]);
+  } else if (kind === 'multiplicative') {
+    checkNumbers(guard, 'guard', errors, ['base', 'perLevel']);
+    checkNumber(
+      guard.minAccuracyFactor,
+      'guard.minAccuracyFactor',
+      errors,
+      0,
+      1
+    );
+    const speed = readObject(guard.speed, 'guard.speed', errors);
+    if (speed) checkLinearWpm(speed, 'guard.speed', errors);
+  } else {
+    errors.push('guard.kind must be one of: additive, multiplicative');
+    return;
+  }
+
+  checkNumber(guard.min, 'guard.min', errors, 0, 1);
+  checkNumber(guard.max, 'guard.max', errors, 0, 1);
+  if (
+    typeof guard.min === 'number' &&
+    typeof guard.max === 'number' &&
+    guard.min > guard.max
+  ) {
+    errors.push('guard.min must not be greater than guard.max');
+  }
+  if (guard.perfectAccuracy !== null) {
+    checkNumber(guard.perfectAccuracy, 'guard.perfectAccuracy', errors, 0, 1);
+  }
+}
+
+// =============================================================================
+// FIELD CHECKS
+// =============================================================================
+
+function readObject(
+  value: unknown,
+  path: string,
+  errors: string[]
+): JsonObject | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  return value as JsonObject;
+}
+
+function checkNumber(
+  value: unknown,
+  path: string,
+  errors: string[],
+  min = 0,
+  max = Infinity
+): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path} must be a number`);
+  } else if (value < min) {
+    errors.push(`${path} must be at least ${min}`);
+  } else if (value > max) {
+    errors.push(`${path} must be at most ${max}`);
+  }
+}
+
+function checkNumbers(
+  object: JsonObject,
+  path: string,
+  errors: string[],
+  fields: string[]
+): void {
+  fields.forEach(field =>
+    checkNumber(object[field], `${path}.${field}`, errors)
+  );
+}
+
+function checkLevelTable(
+  value: unknown,
+  path: string,
+  errors: string[],
+  min = 0
+): void {
+  const table = readObject(value, path, errors);
+  if (!table) return;
+
+  for (let level = MIN_WORD_LEVEL; level <= MAX_WORD_LEVEL; level++) {
+    checkNumber(table[level], `${path}.${level}`, errors, min);
+  }
+}
+
+function checkLinearWpm(
+  speed: JsonObject,
+  path: string,
+  errors: string[]
+): void {
+  checkNumber(speed.baselineWpm, `${path}.baselineWpm`, errors);
+  checkNumber(speed.wpmRange, `${path}.wpmRange`, errors, 1);
+  checkNumber(speed.min, `${path}.min`, errors, -1, 1);
+  checkNumber(speed.max, `${path}.max`, errors, -1, 1);
+}
+
+function isNumberList(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every(item => typeof item === 'number' && Number.isFinite(item))
+  );
+}
@@ -0,0 +1,225 @@
+import { EnemyDefinition, GameDifficulty } from '../types';
+
+/**
+ * Enemy attack scheduling for the battle loop
+ * Decides when an attack is telegraphed and when it lands, driven by
+ * timestamps passed in by the adapter so it works with any GameClock
+ */
+
+export interface EnemyAttackProfile {
+  damage: number;
+  intervalMs: number; // Time between attacks landing
+  telegraphMs: number; // Warning time before an attack lands
+}
+
+export interface ScheduledEnemyAttack {
+  id: number;
+  damage: number;
+  telegraphAt: number;
+  impactAt: number;
+}
+
+export type EnemyAttackPhase = 'telegraph' | 'impact';
+
+export interface EnemyAttackUpdate {
+  phase: EnemyAttackPhase;
+  attack: ScheduledEnemyAttack;
+}
+
+// =============================================================================
+// ENEMY ATTACK CONSTANTS (PRD 11.2)
+// =============================================================================
+
+const ENEMY_BASE_ATTACK = 14;
+
+const ENEMY_ATTACK_SCALING: Record<GameDifficulty, number> = {
+  EASY: 0.8,
+  NORMAL: 1.0,
+  HARD: 1.25,
+};
+
+const ENEMY_ATTACK_INTERVAL_MS: Record<GameDifficulty, number> = {
+  EASY: 6000,
+  NORMAL: 4500,
+  HARD: 3500,
+};
+
+const ENEMY_TELEGRAPH_MS: Record<GameDifficulty, number> = {
+  EASY: 2500,
+  NORMAL: 2000,
+  HARD: 1500,
+};
+
+/**
+ * Get the enemy attack timing and damage for a difficulty
+ * An enemy's attack power and interval are NORMAL values, scaled the same
+ * way as the base enemy's
+ */
+export function getEnemyAttackProfile(
+  difficulty: GameDifficulty,
+  enemy?: Pick<EnemyDefinition, 'attackPower' | 'attackIntervalMs'>
+): EnemyAttackProfile {
+  const attackPower = enemy?.attackPower ?? ENEMY_BASE_ATTACK;
+  const intervalMs = enemy
+    ? Math.round(
+        (enemy.attackIntervalMs * ENEMY_ATTACK_INTERVAL_MS[difficulty]) /
+          ENEMY_ATTACK_INTERVAL_MS.NORMAL
+      )
+    : ENEMY_ATTACK_INTERVAL_MS[difficulty];
+
+  return {
+    damage: Math.round(attackPower * ENEMY_ATTACK_SCALING[difficulty]),
+    intervalMs,
+    telegraphMs: Math.min(ENEMY_TELEGRAPH_MS[difficulty], intervalMs),
+  };
+}
+
+// =============================================================================
+// SCHEDULER
+// =============================================================================
+
+export class EnemyAttackScheduler {
+  private profile: EnemyAttackProfile;
+  private current: ScheduledEnemyAttack | null = null;
+  private telegraphed = false;
+  private nextId = 1;
+  private pausedAt: number | null = null;
+
+  constructor(profile: EnemyAttackProfile) {
+    if (profile.intervalMs <= 0) {
+      throw new Error('EnemyAttackScheduler: intervalMs must be positive');
+    }
+    if (profile.telegraphMs < 0 || profile.telegraphMs > profile.intervalMs) {
+      throw new Error(
+        'EnemyAttackScheduler: telegraphMs must be between 0 and intervalMs'
+      );
+    }
+
+    this.profile = { ...profile };
+  }
+
+  /**
+   * Start the attack cycle; the first attack lands one interval after now
+   */
+  start(now: number): void {
+    this.nextId = 1;
+    this.pausedAt = null;
+    this.scheduleAttack(now + this.profile.intervalMs);
+  }
+
+  stop(): void {
+    this.current = null;
+    this.telegraphed = false;
+    this.pausedAt = null;
+  }
+
+  /**
+   * Return every telegraph and impact that is due at the given time,
+   * in the order they happened
+   */
+  update(now: number): EnemyAttackUpdate[] {
+    const updates: EnemyAttackUpdate[] = [];
+    if (this.pausedAt !== null) return updates;
+
+    while (this.current) {
+      const attack = this.current;
+
+      if (!this.telegraphed) {
+        if (now < attack.telegraphAt) break;
+        this.telegraphed = true;
+        updates.push({ phase: 'telegraph', attack });
+      }
+
+      if (now < attack.impactAt) break;
+      updates.push({ phase: 'impact', attack });
+      this.scheduleAttack(attack.impactAt + this.profile.intervalMs);
+    }
+
+    return updates;
+  }
+
+  /**
+   * Resolve the telegraphed attack early (it was guarded)
+   * The next attack keeps the regular rhythm
+   */
+  resolvePendingAttack(): ScheduledEnemyAttack | null {
+    const attack = this.getPendingAttack();
+    if (!attack) return null;
+
+    this.scheduleAttack(attack.impactAt + this.profile.intervalMs);
+    return attack;
+  }
+
+  /**
+   * Change the time between attacks
+   * The attack already scheduled keeps its timing; the ones after it use the
+   * new interval, with the telegraph shortened to fit if needed
+   */
+  setIntervalMs(intervalMs: number): void {
+    if (intervalMs <= 0) {
+      throw new Error('EnemyAttackScheduler: intervalMs must be positive');
+    }
+
+    this.profile = {
+      ...this.profile,
+      intervalMs,
+      telegraphMs: Math.min(this.profile.telegraphMs, intervalMs),
+    };
+  }
+
+  pause(now: number): void {
+    if (this.pausedAt === null) {
+      this.pausedAt = now;
+    }
+  }
+
+  resume(now: number): void {
+    if (this.pausedAt === null) return;
+
+    // Push the schedule back so paused time does not count
+    const pausedFor = now - this.pausedAt;
+    if (this.current) {
+      this.current.telegraphAt += pausedFor;
+      this.current.impactAt += pausedFor;
+    }
+    this.pausedAt = null;
+  }
+
+  // =============================================================================
+  // PUBLIC ACCESS METHODS
+  // =============================================================================
+
+  /**
+   * The attack whose telegraph has started, if any
+   */
+  getPendingAttack(): ScheduledEnemyAttack | null {
+    return this.telegraphed ? this.current : null;
+  }
+
+  /**
+   * Milliseconds until the current attack lands (frozen while paused)
+   */
+  getTimeUntilImpact(now: number): number | null {
+    if (!this.current) return null;
+    const effectiveNow = this.pausedAt ?? now;
+    return Math.max(0, this.current.impactAt - effectiveNow);
+  }
+
+  getProfile(): EnemyAttackProfile {
+    return { ...this.profile };
+  }
+
+  isPaused(): boolean {
+    return this.pausedAt !== null;
+  }
+
+  private scheduleAttack(impactAt: number): void {
+    this.current = {
+      id: this.nextId++,
+      damage: this.profile.damage,
+      telegraphAt: impactAt - this.profile.telegraphMs,
+      impactAt,
+    };
+    this.telegraphed = false;
+  }
+}
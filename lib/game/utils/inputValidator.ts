@@ -7,6 +7,9 @@ import {
   Word,
   ActionType,
 } from '../types';
+import { GameClock, systemClock } from './clock';
+import { getTypingUnitLength, isTypeableCharacter, splitPhrase } from './phrase';
+import { getKeystrokeStats } from './keystrokeProfile';
 
 /**
  * Input validation utilities for typing accuracy, speed, and anti-cheat measures
@@ -44,7 +47,7 @@ export interface AntiCheatFlags {
 // VALIDATION CONSTANTS
 // =============================================================================
 
-const DEFAULT_VALIDATION_RULES: GameValidationRules = {
+export const DEFAULT_VALIDATION_RULES: GameValidationRules = {
   maxWPM: 250,           // Human typing limit
   minCharTime: 50,       // Minimum 50ms per character
   maxConsecutivePerfect: 15, // Max perfect words in a row
@@ -67,9 +70,14 @@ export class InputValidator {
   private rules: GameValidationRules;
   private perfectWordCount = 0;
   private sessionFlags = new Set<string>();
+  private clock: GameClock;
 
-  constructor(rules: Partial<GameValidationRules> = {}) {
+  constructor(
+    rules: Partial<GameValidationRules> = {},
+    clock: GameClock = systemClock
+  ) {
     this.rules = { ...DEFAULT_VALIDATION_RULES, ...rules };
+    this.clock = clock;
   }
 
   // =============================================================================
@@ -86,7 +94,7 @@ export class InputValidator {
     const timeMs = session.endTime - session.startTime;
     const wpm = this.calculateWPM(session.word.text, timeMs);
     const accuracy = this.calculateAccuracy(session.word.text, session.currentInput, session.errors);
-    const keystrokePattern = this.analyzeKeystrokePattern(session.keystrokes);
+    const keystrokePattern = this.analyzeKeystrokePattern(session.keystrokes, session.word.text);
 
     // Speed validation
     if (wpm > this.rules.maxWPM) {
@@ -196,13 +204,16 @@ export class InputValidator {
     return Math.max(0, Math.min(1, penaltyAccuracy));
   }
 
-  private analyzeKeystrokePattern(keystrokes: KeystrokeEvent[]): KeystrokePattern {
+  private analyzeKeystrokePattern(keystrokes: KeystrokeEvent[], text: string): KeystrokePattern {
+    const keyStats = getKeystrokeStats(text, keystrokes);
+
     if (keystrokes.length < 2) {
       return {
         intervals: {},
         corrections: 0,
         backspaceCount: 0,
         perfectStreak: 0,
+        keyStats,
       };
     }
 
@@ -237,6 +248,7 @@ export class InputValidator {
       corrections,
       backspaceCount,
       perfectStreak,
+      keyStats,
     };
   }
 
@@ -286,12 +298,14 @@ export class InputValidator {
 
   private calculateWordComplexity(word: Word): number {
     let complexity = 0;
+    // Phrases are scored per word so a sentence is not automatically "complex"
+    const wordCount = Math.max(1, splitPhrase(word.text).length);
     
     // Length complexity
-    complexity += Math.min(0.3, word.length / 20);
+    complexity += Math.min(0.3, getTypingUnitLength(word) / 20);
     
     // Character variety complexity
-    const uniqueChars = new Set(word.text.toLowerCase()).size;
+    const uniqueChars = new Set(word.text.toLowerCase().replace(/\s/g, '')).size;
     complexity += Math.min(0.3, uniqueChars / 15);
     
     // Level complexity
@@ -300,7 +314,7 @@ export class InputValidator {
     // Special characters complexity
     const specialChars = word.text.match(/[^a-zA-Z\s]/g);
     if (specialChars) {
-      complexity += specialChars.length * 0.05;
+      complexity += (specialChars.length / wordCount) * 0.05;
     }
     
     return Math.min(1.0, complexity);
@@ -311,8 +325,8 @@ export class InputValidator {
   // =============================================================================
 
   private isValidCharacter(char: string): boolean {
-    // Allow letters, numbers, common punctuation, space, and control keys
-    return /^[a-zA-Z0-9\s\-'.,!?;:()\[\]"@#$%&*+=/_\\|`~]$/.test(char) ||
+    // Allow printable ASCII (letters, numbers, punctuation, space) and control keys
+    return isTypeableCharacter(char) ||
            ['Backspace', 'Delete', 'Tab', 'Enter'].includes(char);
   }
 
@@ -361,7 +375,7 @@ export class InputValidator {
     };
     
     const baseWPM = baseSpeeds[word.level] || 35;
-    const lengthPenalty = Math.max(0, word.length - 6) * 2;
+    const lengthPenalty = Math.max(0, getTypingUnitLength(word) - 6) * 2;
     
     return Math.max(20, baseWPM - lengthPenalty);
   }
@@ -376,7 +390,7 @@ export class InputValidator {
   createTypingSession(word: Word, actionType: ActionType): TypingSession {
     return {
       word,
-      startTime: Date.now(),
+      startTime: this.clock.now(),
       endTime: 0,
       keystrokes: [],
       currentInput: '',
@@ -394,7 +408,7 @@ export class InputValidator {
     key: string, 
     newInput: string
   ): TypingSession {
-    const timestamp = Date.now();
+    const timestamp = this.clock.now();
     const isCorrection = key === 'Backspace' || 
                         (newInput.length > session.currentInput.length && 
                          newInput[newInput.length - 1] !== session.word.text[newInput.length - 1]);
@@ -421,7 +435,7 @@ export class InputValidator {
   completeTypingSession(session: TypingSession): TypingSession {
     return {
       ...session,
-      endTime: Date.now(),
+      endTime: this.clock.now(),
     };
   }
 
@@ -0,0 +1,272 @@
+import {
+  KeyboardHeatmapKey,
+  KeyboardLayout,
+  KeyStats,
+  KeystrokeEvent,
+  KeystrokeProfile,
+  WeakSpot,
+} from '../types';
+
+/**
+ * Keystroke profiles: a learner's speed and errors per key and per bigram
+ * Each completed word adds its keystrokes; the weakest keys bias word
+ * selection and colour the keyboard heatmap
+ */
+
+export const EMPTY_KEYSTROKE_PROFILE: KeystrokeProfile = {
+  keys: {},
+  bigrams: {},
+};
+
+export const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+// Letter rows of each supported layout, top to bottom
+export const KEYBOARD_LAYOUT_ROWS: Record<KeyboardLayout, string[]> = {
+  qwerty: KEYBOARD_ROWS,
+  qwertz: ['qwertzuiop', 'asdfghjkl', 'yxcvbnm'],
+  azerty: ['azertyuiop', 'qsdfghjklm', 'wxcvbn'],
+  dvorak: ['pyfgcrl', 'aoeuidhtns', 'qjkxbmwvz'],
+};
+
+// =============================================================================
+// WEAKNESS CONSTANTS
+// =============================================================================
+
+// Fewer samples than this say too little about a key
+const MIN_SAMPLES = 5;
+
+// A key that is always mistyped is as weak as one taking 3x the average time
+const ERROR_WEIGHT = 2;
+
+// Weak spots word selection drills at a time
+const MAX_WEAK_SPOTS = 8;
+
+// Most a word's selection weight can grow from the weak spots it contains
+const MAX_WEAK_SPOT_BOOST = 1;
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+const emptyStats = (): KeyStats => ({
+  count: 0,
+  errors: 0,
+  totalLatencyMs: 0,
+  timedCount: 0,
+});
+
+function recordKey(
+  table: Record<string, KeyStats>,
+  sequence: string,
+  error: boolean,
+  latencyMs: number | null
+): void {
+  const stats = table[sequence] ?? (table[sequence] = emptyStats());
+
+  stats.count++;
+  if (error) stats.errors++;
+  if (latencyMs !== null) {
+    stats.totalLatencyMs += latencyMs;
+    stats.timedCount++;
+  }
+}
+
+/**
+ * Key and bigram stats for one typed word or phrase
+ * Each character keystroke counts toward the character the target expected
+ * at that position; latency and bigrams only count straight after a correct
+ * key, so corrections do not skew them
+ */
+export function getKeystrokeStats(
+  text: string,
+  keystrokes: KeystrokeEvent[]
+): KeystrokeProfile {
+  const profile: KeystrokeProfile = { keys: {}, bigrams: {} };
+  const target = text.toLowerCase();
+  let previous: KeystrokeEvent | null = null;
+
+  for (const keystroke of keystrokes) {
+    const position = keystroke.inputLength - 1;
+    const expected = target[position];
+
+    if (keystroke.key.length === 1 && expected !== undefined) {
+      const afterCorrectKey =
+        previous !== null &&
+        previous.key.length === 1 &&
+        !previous.isCorrection &&
+        previous.inputLength === position;
+      const latencyMs =
+        afterCorrectKey && previous
+          ? keystroke.timestamp - previous.timestamp
+          : null;
+
+      recordKey(profile.keys, expected, keystroke.isCorrection, latencyMs);
+      if (afterCorrectKey && position > 0) {
+        recordKey(
+          profile.bigrams,
+          target.slice(position - 1, position + 1),
+          keystroke.isCorrection,
+          latencyMs
+        );
+      }
+    }
+
+    previous = keystroke;
+  }
+
+  return profile;
+}
+
+/**
+ * Add one word's stats to a profile
+ */
+export function addKeystrokeStats(
+  profile: KeystrokeProfile,
+  stats: KeystrokeProfile
+): KeystrokeProfile {
+  return {
+    keys: mergeStats(profile.keys, stats.keys),
+    bigrams: mergeStats(profile.bigrams, stats.bigrams),
+  };
+}
+
+function mergeStats(
+  table: Record<string, KeyStats>,
+  added: Record<string, KeyStats>
+): Record<string, KeyStats> {
+  const merged = { ...table };
+
+  Object.entries(added).forEach(([sequence, stats]) => {
+    const current = merged[sequence] ?? emptyStats();
+    merged[sequence] = {
+      count: current.count + stats.count,
+      errors: current.errors + stats.errors,
+      totalLatencyMs: current.totalLatencyMs + stats.totalLatencyMs,
+      timedCount: current.timedCount + stats.timedCount,
+    };
+  });
+
+  return merged;
+}
+
+// =============================================================================
+// WEAK SPOTS
+// =============================================================================
+
+function getAverageLatency(table: Record<string, KeyStats>): number {
+  let totalLatencyMs = 0;
+  let timedCount = 0;
+  Object.values(table).forEach(stats => {
+    totalLatencyMs += stats.totalLatencyMs;
+    timedCount += stats.timedCount;
+  });
+
+  return timedCount > 0 ? totalLatencyMs / timedCount : 0;
+}
+
+function toWeakSpot(
+  sequence: string,
+  stats: KeyStats,
+  baselineMs: number
+): WeakSpot {
+  const errorRate = stats.count > 0 ? stats.errors / stats.count : 0;
+  const averageLatencyMs =
+    stats.timedCount > 0 ? stats.totalLatencyMs / stats.timedCount : 0;
+  const slowness =
+    baselineMs > 0 && stats.timedCount > 0
+      ? Math.max(0, averageLatencyMs / baselineMs - 1)
+      : 0;
+
+  return {
+    sequence,
+    weakness: errorRate * ERROR_WEIGHT + slowness,
+    errorRate,
+    averageLatencyMs: Math.round(averageLatencyMs),
+    count: stats.count,
+  };
+}
+
+function rankStats(table: Record<string, KeyStats>): WeakSpot[] {
+  const baselineMs = getAverageLatency(table);
+
+  return Object.entries(table)
+    .filter(([, stats]) => stats.count >= MIN_SAMPLES)
+    .map(([sequence, stats]) => toWeakSpot(sequence, stats, baselineMs));
+}
+
+/**
+ * The learner's weakest keys and bigrams, weakest first
+ * Speed is judged against the learner's own average, so a slow typist is
+ * not weak everywhere
+ */
+export function getWeakSpots(
+  profile: KeystrokeProfile,
+  limit: number = MAX_WEAK_SPOTS
+): WeakSpot[] {
+  return [...rankStats(profile.keys), ...rankStats(profile.bigrams)]
+    .filter(spot => spot.weakness > 0)
+    .sort((a, b) => b.weakness - a.weakness)
+    .slice(0, limit);
+}
+
+// =============================================================================
+// SELECTION BIAS
+// =============================================================================
+
+/**
+ * How strongly word selection should favour a word
+ * Words without any of the weak spots are neutral; each one in the word adds
+ * its weakness, up to double weight
+ */
+export function getKeystrokeWeight(
+  text: string,
+  weakSpots: WeakSpot[]
+): number {
+  const target = text.toLowerCase();
+  const boost = weakSpots
+    .filter(spot => target.includes(spot.sequence))
+    .reduce((total, spot) => total + spot.weakness, 0);
+
+  return 1 + Math.min(MAX_WEAK_SPOT_BOOST, boost);
+}
+
+// =============================================================================
+// HEATMAP
+// =============================================================================
+
+/**
+ * Keyboard rows with each letter's stats and heat, for the results screen
+ * and dashboard
+ * Keys with too few samples stay cold
+ */
+export function getKeyboardHeatmap(
+  profile: KeystrokeProfile,
+  layout: KeyboardLayout = 'qwerty'
+): KeyboardHeatmapKey[][] {
+  const spots = new Map(
+    rankStats(profile.keys).map(spot => [spot.sequence, spot])
+  );
+  const maxWeakness = Math.max(
+    0,
+    ...Array.from(spots.values()).map(spot => spot.weakness)
+  );
+
+  return KEYBOARD_LAYOUT_ROWS[layout].map(row =>
+    row.split('').map(key => {
+      const stats = profile.keys[key];
+      const spot = spots.get(key);
+      const averageLatencyMs =
+        stats && stats.timedCount > 0
+          ? Math.round(stats.totalLatencyMs / stats.timedCount)
+          : 0;
+
+      return {
+        key,
+        count: stats?.count ?? 0,
+        errorRate: stats && stats.count > 0 ? stats.errors / stats.count : 0,
+        averageLatencyMs,
+        heat: spot && maxWeakness > 0 ? spot.weakness / maxWeakness : 0,
+      };
+    })
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * One JSON value kept in localStorage under a key, for the LocalStorage
+ * stores
+ * Where storage is unavailable (SSR, private mode) reads give the fallback
+ * and writes do nothing; stored data that is corrupt or fails its check
+ * reads as the fallback rather than blocking the game
+ */
+export class LocalStorageJson {
+  private storage: Storage | null;
+  private key: string;
+
+  /**
+   * Uses window.localStorage unless a storage is given; null stores nothing
+   */
+  constructor(key: string, storage?: Storage | null) {
+    this.storage =
+      storage !== undefined
+        ? storage
+        : typeof window !== 'undefined'
+          ? window.localStorage
+          : null;
+    this.key = key;
+  }
+
+  /**
+   * The stored value if it passes isValue, otherwise fallback
+   */
+  read<T>(isValue: (value: unknown) => value is T, fallback: T): T {
+    const stored = this.parse();
+    return isValue(stored) ? stored : fallback;
+  }
+
+  /**
+   * The stored items that pass isItem; anything but an array reads as empty
+   */
+  readList<T>(isItem: (value: unknown) => value is T): T[] {
+    const stored = this.parse();
+    return Array.isArray(stored) ? stored.filter(isItem) : [];
+  }
+
+  /**
+   * Replaces the stored value; a full storage is logged, not thrown
+   */
+  write(value: unknown): void {
+    if (!this.storage) return;
+
+    try {
+      this.storage.setItem(this.key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`LocalStorageJson: Failed to save ${this.key}`, error);
+    }
+  }
+
+  private parse(): unknown {
+    if (!this.storage) return null;
+
+    try {
+      return JSON.parse(this.storage.getItem(this.key) ?? 'null');
+    } catch {
+      return null;
+    }
+  }
+}
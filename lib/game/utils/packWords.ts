@@ -0,0 +1,29 @@
+import { Word, WordLevel } from '../types';
+
+/**
+ * A word pack's stored words as the game plays them
+ * Both the client and the server replaying its session build the word list
+ * here, so the same pack always gives the same list in the same order
+ */
+
+export interface StoredWord {
+  id: string;
+  text: string;
+  level: number;
+  category?: string | null;
+}
+
+/**
+ * Words in id order, the order the database lists them in
+ */
+export function toSessionWords(words: StoredWord[]): Word[] {
+  return [...words]
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map(word => ({
+      id: word.id,
+      text: word.text,
+      level: word.level as WordLevel,
+      length: word.text.length,
+      ...(word.category ? { category: word.category } : {}),
+    }));
+}
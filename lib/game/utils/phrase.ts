@@ -0,0 +1,127 @@
+import { PhraseBalance, PhraseProgress, Word } from '../types';
+
+/**
+ * Helpers for multi-word prompts (phrases and example sentences)
+ * A single word is treated as a one-word phrase, so these are safe to call on
+ * any prompt
+ */
+
+// =============================================================================
+// PHRASE CONSTANTS
+// =============================================================================
+
+// Printable ASCII: letters, digits, space and punctuation
+const TYPEABLE_CHARACTER_PATTERN = /^[ -~]$/;
+
+// Typographic characters from copied sentences, mapped to what a keyboard types
+const TYPOGRAPHIC_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[‘’‚′]/g, "'"],
+  [/[“”„″]/g, '"'],
+  [/[‐‑‒–—]/g, '-'],
+  [/…/g, '...'],
+];
+
+// Each extra word adds 35% damage or healing, up to 3x for a long sentence
+// Combat profiles can override this
+const DEFAULT_PHRASE_BALANCE: PhraseBalance = { perExtraWord: 0.35, max: 3 };
+
+// =============================================================================
+// TEXT HANDLING
+// =============================================================================
+
+/**
+ * True for a key that can appear in a prompt
+ */
+export function isTypeableCharacter(key: string): boolean {
+  return TYPEABLE_CHARACTER_PATTERN.test(key);
+}
+
+/**
+ * Replace curly quotes, dashes and odd whitespace so every prompt can be
+ * typed on a standard keyboard
+ */
+export function normalizePromptText(text: string): string {
+  const replaced = TYPOGRAPHIC_REPLACEMENTS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text
+  );
+  return replaced.replace(/\s+/g, ' ').trim();
+}
+
+export function splitPhrase(text: string): string[] {
+  return text.split(' ').filter(Boolean);
+}
+
+export function isPhrase(word: Pick<Word, 'text'>): boolean {
+  return splitPhrase(word.text).length > 1;
+}
+
+/**
+ * Average word length, so per-word expectations (speed, complexity) still
+ * hold for a whole sentence
+ */
+export function getTypingUnitLength(
+  word: Pick<Word, 'text' | 'length'>
+): number {
+  const words = splitPhrase(word.text);
+  if (words.length <= 1) return word.length;
+
+  const letters = words.reduce((sum, part) => sum + part.length, 0);
+  return letters / words.length;
+}
+
+// =============================================================================
+// PROGRESS AND SCALING
+// =============================================================================
+
+/**
+ * Work out how far through a prompt the player is, word by word
+ */
+export function getPhraseProgress(
+  target: string,
+  input: string
+): PhraseProgress {
+  let correctLength = 0;
+  while (
+    correctLength < input.length &&
+    correctLength < target.length &&
+    input[correctLength] === target[correctLength]
+  ) {
+    correctLength++;
+  }
+
+  const words = splitPhrase(target);
+  let completedWords = 0;
+  let end = 0;
+  for (let i = 0; i < words.length; i++) {
+    end += words[i].length;
+    const isLast = i === words.length - 1;
+
+    // A word only counts once the space after it is typed too
+    if (correctLength < (isLast ? end : end + 1)) break;
+    completedWords++;
+    end++;
+  }
+
+  return {
+    totalWords: words.length,
+    completedWords,
+    currentWordIndex: Math.min(completedWords, Math.max(0, words.length - 1)),
+    correctLength,
+    hasError: correctLength < input.length,
+  };
+}
+
+/**
+ * Damage and healing multiplier for the number of words in a prompt
+ */
+export function getPhraseLengthMultiplier(
+  word: Pick<Word, 'text'>,
+  balance: PhraseBalance = DEFAULT_PHRASE_BALANCE
+): number {
+  const words = splitPhrase(word.text).length;
+  return Math.min(
+    balance.max,
+    1 + Math.max(0, words - 1) * balance.perExtraWord
+  );
+}
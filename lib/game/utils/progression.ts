@@ -0,0 +1,206 @@
+import {
+  ExperienceGain,
+  LevelCurve,
+  LevelProgress,
+  PlayerStats,
+  SessionResult,
+  ValidationResult,
+} from '../types';
+
+/**
+ * Player progression: experience earned from finished sessions and the level
+ * it reaches on a configurable curve
+ * The level feeds combat calculations and word selection through the
+ * session seed's playerStats
+ */
+
+export const DEFAULT_LEVEL_CURVE: LevelCurve = {
+  baseXp: 100,
+  growth: 1.2,
+  maxLevel: 50,
+};
+
+export const DEFAULT_PLAYER_STATS: PlayerStats = {
+  level: 1,
+  experience: 0,
+  averageWPM: 0,
+  averageAccuracy: 0,
+  gamesPlayed: 0,
+  gamesWon: 0,
+};
+
+// =============================================================================
+// EXPERIENCE CONSTANTS
+// =============================================================================
+
+// Experience for each completed word, scaled by the session's accuracy
+const XP_PER_WORD = 10;
+
+// Extra experience for winning the battle or campaign
+const WIN_BONUS_XP = 50;
+
+/**
+ * Check a level curve, naming each invalid field
+ */
+export function validateLevelCurve(value: unknown): ValidationResult {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, errors: ['levelCurve must be an object'] };
+  }
+
+  const curve = value as Partial<Record<keyof LevelCurve, unknown>>;
+  const errors: string[] = [];
+
+  if (
+    typeof curve.baseXp !== 'number' ||
+    !Number.isFinite(curve.baseXp) ||
+    curve.baseXp <= 0
+  ) {
+    errors.push('levelCurve.baseXp must be a positive number');
+  }
+  if (
+    typeof curve.growth !== 'number' ||
+    !Number.isFinite(curve.growth) ||
+    curve.growth < 1
+  ) {
+    errors.push('levelCurve.growth must be a number of at least 1');
+  }
+  if (
+    typeof curve.maxLevel !== 'number' ||
+    !Number.isInteger(curve.maxLevel) ||
+    curve.maxLevel < 1
+  ) {
+    errors.push('levelCurve.maxLevel must be a whole number of at least 1');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// =============================================================================
+// LEVEL CURVE
+// =============================================================================
+
+/**
+ * Experience needed to go from a level to the next one
+ */
+export function getExperienceForLevelUp(
+  level: number,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE
+): number {
+  return Math.round(curve.baseXp * Math.pow(curve.growth, level - 1));
+}
+
+/**
+ * Total experience needed to reach a level from level 1
+ */
+export function getExperienceForLevel(
+  level: number,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE
+): number {
+  let total = 0;
+  for (let current = 1; current < level; current++) {
+    total += getExperienceForLevelUp(current, curve);
+  }
+  return total;
+}
+
+/**
+ * Level reached with a total amount of experience, and how far into it
+ */
+export function getLevelProgress(
+  experience: number,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE
+): LevelProgress {
+  let level = 1;
+  let remaining = Math.max(0, experience);
+
+  while (level < curve.maxLevel) {
+    const needed = getExperienceForLevelUp(level, curve);
+    if (remaining < needed) {
+      return {
+        level,
+        experienceIntoLevel: remaining,
+        experienceForNextLevel: needed,
+      };
+    }
+    remaining -= needed;
+    level++;
+  }
+
+  return { level, experienceIntoLevel: remaining, experienceForNextLevel: 0 };
+}
+
+export function getLevelForExperience(
+  experience: number,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE
+): number {
+  return getLevelProgress(experience, curve).level;
+}
+
+// =============================================================================
+// SESSION EXPERIENCE
+// =============================================================================
+
+/**
+ * Experience a finished session earns: completed words scaled by accuracy,
+ * plus a bonus for a win
+ * Aborted sessions earn nothing
+ */
+export function calculateSessionExperience(
+  session: Pick<SessionResult, 'result' | 'finalStats'>
+): number {
+  if (session.result === 'ABORT') return 0;
+
+  const { wordsCompleted, accuracy } = session.finalStats;
+  const wordXp = wordsCompleted * XP_PER_WORD * Math.min(1, accuracy);
+
+  return Math.round(wordXp) + (session.result === 'WIN' ? WIN_BONUS_XP : 0);
+}
+
+/**
+ * Add a finished session to a player's stats
+ * Averages are over every counted game; aborted sessions leave the stats
+ * unchanged
+ */
+export function applySessionResult(
+  stats: PlayerStats,
+  session: Pick<SessionResult, 'result' | 'finalStats'>,
+  curve: LevelCurve = DEFAULT_LEVEL_CURVE
+): ExperienceGain {
+  if (session.result === 'ABORT') {
+    return {
+      experience: 0,
+      previousLevel: stats.level,
+      level: stats.level,
+      stats,
+    };
+  }
+
+  const experience = calculateSessionExperience(session);
+  const totalExperience = stats.experience + experience;
+  const gamesPlayed = stats.gamesPlayed + 1;
+  const average = (current: number, added: number) =>
+    (current * stats.gamesPlayed + added) / gamesPlayed;
+
+  // Levels are never lost, even if the curve gets steeper
+  const level = Math.max(
+    stats.level,
+    getLevelForExperience(totalExperience, curve)
+  );
+
+  return {
+    experience,
+    previousLevel: stats.level,
+    level,
+    stats: {
+      level,
+      experience: totalExperience,
+      averageWPM: average(stats.averageWPM, session.finalStats.wpm),
+      averageAccuracy: average(
+        stats.averageAccuracy,
+        session.finalStats.accuracy
+      ),
+      gamesPlayed,
+      gamesWon: stats.gamesWon + (session.result === 'WIN' ? 1 : 0),
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { SessionSeed } from '../types';
+
+/**
+ * Random number sources for the game engine
+ * Every random decision goes through a RandomSource so a session can be
+ * replayed exactly from its seed
+ */
+
+/**
+ * Returns a float in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Unseeded source backed by Math.random
+ * Looks Math.random up on every call so test spies still apply
+ */
+export const defaultRandom: RandomSource = () => Math.random();
+
+/**
+ * Create a deterministic source from a 32-bit seed (mulberry32)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  if (!Number.isInteger(seed)) {
+    throw new Error(`createSeededRandom: Seed must be an integer, got ${seed}`);
+  }
+
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create the random source for a session
+ * Seeded when the session carries an rngSeed, Math.random otherwise
+ */
+export function createSessionRandom(sessionSeed: SessionSeed): RandomSource {
+  return sessionSeed.rngSeed !== undefined
+    ? createSeededRandom(sessionSeed.rngSeed)
+    : defaultRandom;
+}
+
+/**
+ * Generate a fresh seed for a new session
+ */
+export function generateRngSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
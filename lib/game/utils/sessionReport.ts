@@ -0,0 +1,155 @@
+import {
+  ActionResult,
+  GuardResult,
+  ReportWord,
+  SessionReport,
+  SessionReportSummary,
+  SessionResult,
+} from '../types';
+
+/**
+ * Session reports: the results screen's view of a finished session
+ * Local sessions are reported from their SessionResult; stored ones are
+ * summarised by the API and finished here the same way
+ */
+
+// Words listed as slowest and most missed
+const MAX_LISTED_WORDS = 3;
+
+// A category needs this many words before it can be called weak
+const MIN_CATEGORY_WORDS = 2;
+
+// Categories typed at least this accurately are not suggested
+const WEAK_CATEGORY_ACCURACY = 0.95;
+
+/**
+ * Add the word lists and learning suggestion to a session summary
+ */
+export function buildSessionReport(
+  summary: SessionReportSummary,
+  words: ReportWord[]
+): SessionReport {
+  const slowestWords = [...words]
+    .sort((a, b) => a.wpm - b.wpm)
+    .slice(0, MAX_LISTED_WORDS);
+  const mostMissedWords = words
+    .filter(word => word.errors > 0)
+    .sort((a, b) => b.errors - a.errors || a.accuracy - b.accuracy)
+    .slice(0, MAX_LISTED_WORDS);
+
+  return {
+    ...summary,
+    words,
+    slowestWords,
+    mostMissedWords,
+    suggestion: getLearningSuggestion(words, mostMissedWords),
+  };
+}
+
+/**
+ * Report for a session played on this device, with adaptive difficulty's
+ * reasons when it was on
+ */
+export function createSessionReport(result: SessionResult): SessionReport {
+  const { finalStats } = result;
+  const guards = result.actions.filter(
+    (action): action is GuardResult => action.type === 'GUARD'
+  );
+  const blocked = guards.filter(guard => guard.blocked).length;
+
+  return buildSessionReport(
+    {
+      sessionId: result.sessionId,
+      result: result.result,
+      durationSec: result.duration,
+      accuracy: finalStats.accuracy,
+      averageWpm: finalStats.wpm,
+      longestCombo: finalStats.maxCombo,
+      attackCount: finalStats.attackCount,
+      healCount: finalStats.healCount,
+      damageDealt: finalStats.totalDamage,
+      damageTaken: finalStats.damageTaken,
+      guardSuccessRate: guards.length > 0 ? blocked / guards.length : 0,
+      ...(result.difficulty && { difficulty: result.difficulty }),
+    },
+    result.actions.map(toReportWord)
+  );
+}
+
+function toReportWord(action: ActionResult): ReportWord {
+  const { word } = action;
+
+  return {
+    text: word.text,
+    type: action.type,
+    category: word.category,
+    timeMs: word.timeMs,
+    errors: word.errors,
+    accuracy: word.accuracy,
+    wpm: word.wpm,
+    value: action.value,
+    critical: action.critical,
+    breakdown: action.breakdown ?? [],
+  };
+}
+
+// =============================================================================
+// LEARNING SUGGESTION
+// =============================================================================
+
+/**
+ * What to practise next: the least accurate word category, else the missed
+ * words themselves
+ */
+function getLearningSuggestion(
+  words: ReportWord[],
+  mostMissedWords: ReportWord[]
+): string {
+  if (words.length === 0) {
+    return 'Complete a few words to get a suggestion for next time';
+  }
+
+  const weakCategory = getWeakestCategory(words);
+  if (weakCategory) {
+    return `Practise "${weakCategory.category}" words next: ${Math.round(
+      weakCategory.accuracy * 100
+    )}% accuracy across ${weakCategory.count} words`;
+  }
+
+  if (mostMissedWords.length > 0) {
+    return `Review the words you missed: ${mostMissedWords
+      .map(word => word.text)
+      .join(', ')}`;
+  }
+
+  return 'No mistakes this time, try a harder difficulty';
+}
+
+function getWeakestCategory(
+  words: ReportWord[]
+): { category: string; accuracy: number; count: number } | null {
+  const categories = new Map<string, { total: number; count: number }>();
+
+  words.forEach(word => {
+    if (!word.category) return;
+
+    const entry = categories.get(word.category) ?? { total: 0, count: 0 };
+    entry.total += word.accuracy;
+    entry.count++;
+    categories.set(word.category, entry);
+  });
+
+  let weakest: { category: string; accuracy: number; count: number } | null =
+    null;
+  for (const [category, { total, count }] of Array.from(categories)) {
+    const accuracy = total / count;
+    if (count < MIN_CATEGORY_WORDS || accuracy >= WEAK_CATEGORY_ACCURACY) {
+      continue;
+    }
+    if (!weakest || accuracy < weakest.accuracy) {
+      weakest = { category, accuracy, count };
+    }
+  }
+
+  return weakest;
+}
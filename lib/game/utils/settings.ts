@@ -0,0 +1,150 @@
+import {
+  A11ySettings,
+  BattleLength,
+  GameConfig,
+  GameDifficulty,
+  GameSettings,
+  KeyboardLayout,
+  SoundSettings,
+} from '../types';
+
+/**
+ * Player settings: defaults, reading stored settings and turning them into
+ * the game configuration
+ * Stored settings can come from an older version or another device, so
+ * they are read field by field and anything missing or invalid keeps its
+ * default
+ */
+
+export const BATTLE_LENGTHS: BattleLength[] = [3, 5, 10];
+
+export const KEYBOARD_LAYOUTS: KeyboardLayout[] = [
+  'qwerty',
+  'qwertz',
+  'azerty',
+  'dvorak',
+];
+
+const DIFFICULTIES: GameDifficulty[] = ['EASY', 'NORMAL', 'HARD'];
+const FONT_SIZES: A11ySettings['fontSize'][] = ['small', 'medium', 'large'];
+const LETTER_SPACINGS: A11ySettings['letterSpacing'][] = ['normal', 'wide'];
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  packId: 'default-pack',
+  difficulty: 'NORMAL',
+  battleLength: 5,
+  keyboardLayout: 'qwerty',
+  a11y: {
+    highContrast: false,
+    openDyslexic: false,
+    reduceMotion: false,
+    fontSize: 'medium',
+    letterSpacing: 'normal',
+    soundEnabled: true,
+    voiceEnabled: false,
+  },
+  sound: {
+    enabled: true,
+    volume: 0.7,
+    effects: true,
+    music: true,
+  },
+};
+
+/**
+ * Stored settings merged over the defaults
+ */
+export function normalizeGameSettings(value: unknown): GameSettings {
+  const stored = isObject(value) ? value : {};
+  const defaults = DEFAULT_GAME_SETTINGS;
+
+  return {
+    packId:
+      typeof stored.packId === 'string' && stored.packId.trim() !== ''
+        ? stored.packId
+        : defaults.packId,
+    difficulty: pickOption(
+      stored.difficulty,
+      DIFFICULTIES,
+      defaults.difficulty
+    ),
+    battleLength: pickOption(
+      stored.battleLength,
+      BATTLE_LENGTHS,
+      defaults.battleLength
+    ),
+    keyboardLayout: pickOption(
+      stored.keyboardLayout,
+      KEYBOARD_LAYOUTS,
+      defaults.keyboardLayout
+    ),
+    a11y: normalizeA11ySettings(stored.a11y),
+    sound: normalizeSoundSettings(stored.sound),
+  };
+}
+
+function normalizeA11ySettings(value: unknown): A11ySettings {
+  const stored = isObject(value) ? value : {};
+  const defaults = DEFAULT_GAME_SETTINGS.a11y;
+
+  return {
+    highContrast: pickBoolean(stored.highContrast, defaults.highContrast),
+    openDyslexic: pickBoolean(stored.openDyslexic, defaults.openDyslexic),
+    reduceMotion: pickBoolean(stored.reduceMotion, defaults.reduceMotion),
+    fontSize: pickOption(stored.fontSize, FONT_SIZES, defaults.fontSize),
+    letterSpacing: pickOption(
+      stored.letterSpacing,
+      LETTER_SPACINGS,
+      defaults.letterSpacing
+    ),
+    soundEnabled: pickBoolean(stored.soundEnabled, defaults.soundEnabled),
+    voiceEnabled: pickBoolean(stored.voiceEnabled, defaults.voiceEnabled),
+  };
+}
+
+function normalizeSoundSettings(value: unknown): SoundSettings {
+  const stored = isObject(value) ? value : {};
+  const defaults = DEFAULT_GAME_SETTINGS.sound;
+
+  return {
+    enabled: pickBoolean(stored.enabled, defaults.enabled),
+    volume:
+      typeof stored.volume === 'number' && Number.isFinite(stored.volume)
+        ? Math.min(1, Math.max(0, stored.volume))
+        : defaults.volume,
+    effects: pickBoolean(stored.effects, defaults.effects),
+    music: pickBoolean(stored.music, defaults.music),
+  };
+}
+
+/**
+ * Battle length in seconds, for GameConfig.durationSec
+ */
+export function getBattleDurationSec(settings: GameSettings): number {
+  return settings.battleLength * 60;
+}
+
+/**
+ * The part of the settings the game adapters read from GameConfig
+ */
+export function toGameConfigSettings(
+  settings: Pick<GameSettings, 'a11y' | 'sound' | 'keyboardLayout'>
+): NonNullable<GameConfig['settings']> {
+  return {
+    a11y: settings.a11y,
+    sound: settings.sound,
+    keyboardLayout: settings.keyboardLayout,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pickBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+function pickOption<T>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
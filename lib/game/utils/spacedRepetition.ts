@@ -0,0 +1,175 @@
+import { CompletedWord, ReviewSchedule, WordReview } from '../types';
+
+/**
+ * Spaced repetition (SM-2) scheduling for words a learner has typed
+ * Each completed word is graded from its errors, accuracy and speed, and the
+ * grade sets when the word should come back
+ */
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+// =============================================================================
+// SM-2 CONSTANTS
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const PASSING_QUALITY = 3;
+
+// 40 WPM, a comfortable pace for the learners we target
+const EXPECTED_MS_PER_CHAR = 300;
+
+// Selection weights applied on top of WordManager's own scoring
+const DUE_WEIGHT = 1.5;
+const OVERDUE_WEIGHT_PER_DAY = 0.1;
+const MAX_OVERDUE_DAYS = 7;
+const NOT_DUE_WEIGHT = 0.6;
+
+// =============================================================================
+// GRADING
+// =============================================================================
+
+/**
+ * Grade a completed word on the SM-2 0-5 scale
+ * Below 3 counts as a failed recall and resets the word's interval
+ */
+export function gradeCompletedWord(word: CompletedWord): ReviewQuality {
+  if (word.accuracy < 0.6 || word.errors >= 3) return 1;
+  if (word.accuracy < 0.8 || word.errors === 2) return 2;
+
+  const expectedMs = word.text.length * EXPECTED_MS_PER_CHAR;
+  if (word.errors === 1 || word.timeMs > expectedMs * 2) return 3;
+  if (word.timeMs > expectedMs) return 4;
+
+  return 5;
+}
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+export function createWordReview(wordId: string, now: number): WordReview {
+  return {
+    wordId,
+    easeFactor: INITIAL_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+    lastReviewedAt: now,
+  };
+}
+
+/**
+ * Apply one graded review to a word's state
+ */
+export function scheduleReview(
+  review: WordReview,
+  quality: ReviewQuality,
+  now: number
+): WordReview {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    review.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < PASSING_QUALITY) {
+    return {
+      ...review,
+      easeFactor,
+      intervalDays: 1,
+      repetitions: 0,
+      lapses: review.repetitions > 0 ? review.lapses + 1 : review.lapses,
+      dueAt: now + DAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  const repetitions = review.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(review.intervalDays * review.easeFactor);
+  }
+
+  return {
+    ...review,
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+}
+
+/**
+ * Grade a completed word and update its review, creating one if needed
+ */
+export function reviewCompletedWord(
+  review: WordReview | undefined,
+  word: CompletedWord,
+  now: number
+): WordReview {
+  return scheduleReview(
+    review ?? createWordReview(word.id, now),
+    gradeCompletedWord(word),
+    now
+  );
+}
+
+// =============================================================================
+// SELECTION BIAS
+// =============================================================================
+
+/**
+ * How strongly word selection should favour a word
+ * Unseen words are neutral, due and weak words are boosted, words that are
+ * learned and not yet due are played down
+ */
+export function getReviewWeight(
+  review: WordReview | undefined,
+  now: number
+): number {
+  if (!review) return 1;
+
+  // Ease drops toward 1.3 as a word keeps causing trouble
+  const weakness = 1 + (INITIAL_EASE_FACTOR - review.easeFactor);
+
+  if (review.dueAt <= now) {
+    const overdueDays = Math.min(
+      MAX_OVERDUE_DAYS,
+      (now - review.dueAt) / DAY_MS
+    );
+    return (DUE_WEIGHT + overdueDays * OVERDUE_WEIGHT_PER_DAY) * weakness;
+  }
+
+  return NOT_DUE_WEIGHT * weakness;
+}
+
+/**
+ * Index a schedule's reviews by word id
+ */
+export function indexReviews(
+  schedule: ReviewSchedule | undefined
+): Map<string, WordReview> {
+  return new Map(
+    (schedule?.reviews ?? []).map(review => [review.wordId, review])
+  );
+}
+
+/**
+ * Words that are due at the given time, most overdue first
+ */
+export function getDueReviews(
+  reviews: WordReview[],
+  now: number
+): WordReview[] {
+  return reviews
+    .filter(review => review.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt);
+}
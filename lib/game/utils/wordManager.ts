@@ -6,7 +6,15 @@ import {
   WordLock,
   SessionSeed,
   ActionType,
+  WordReview,
+  PromptMode,
+  WeakSpot,
 } from '../types';
+import { RandomSource, createSessionRandom } from './random';
+import { getReviewWeight, indexReviews } from './spacedRepetition';
+import { getKeystrokeWeight, getWeakSpots } from './keystrokeProfile';
+import { isWordLevel } from './wordValidation';
+import { isPhrase, normalizePromptText, splitPhrase } from './phrase';
 
 /**
  * Word management utilities for selecting, locking, and managing game words
@@ -25,6 +33,9 @@ export interface WordSelectionOptions {
   timeRemaining: number;
   previousWords: Word[];
   avoidRecentWords: boolean;
+  levelBias?: number; // Enemy's shift of the level range
+  categories?: string[]; // Enemy's word categories, empty for any
+  difficultyShift?: { level: number; length: number }; // From adaptive difficulty
 }
 
 export interface WordLockManager {
@@ -41,6 +52,8 @@ export interface WordPoolConfig {
   categoryWeights: Record<string, number>;
   lengthRange: { min: number; max: number };
   excludeIds: Set<string>;
+  categories: Set<string>;
+  round: number;
 }
 
 // =============================================================================
@@ -59,6 +72,13 @@ const DIFFICULTY_LENGTH_RANGES: Record<GameDifficulty, { min: number; max: numbe
   HARD: { min: 5, max: 15 },
 };
 
+// Phrase mode limits prompts by word count instead of characters
+const DIFFICULTY_PHRASE_WORD_RANGES: Record<GameDifficulty, { min: number; max: number }> = {
+  EASY: { min: 2, max: 4 },
+  NORMAL: { min: 2, max: 7 },
+  HARD: { min: 3, max: 12 },
+};
+
 const LEVEL_WEIGHTS_BY_ROUND: Record<number, Record<WordLevel, number>> = {
   1: { 1: 0.4, 2: 0.3, 3: 0.2, 4: 0.1, 5: 0.0 },
   2: { 1: 0.3, 2: 0.3, 3: 0.3, 4: 0.1, 5: 0.0 },
@@ -99,9 +119,22 @@ export class WordManager {
   private currentSelection: WordSelection | null = null;
   private lockState: WordLock = null;
   private lockStartTime = 0;
-
-  constructor(sessionSeed: SessionSeed) {
-    this.wordPool = [...sessionSeed.words];
+  private random: RandomSource;
+  private reviews: Map<string, WordReview>; // wordId -> learner's SRS state
+  private reviewsAsOf: number;
+  private weakSpots: WeakSpot[]; // Learner's slowest and most error-prone keys
+  private promptMode: PromptMode;
+
+  constructor(
+    sessionSeed: SessionSeed,
+    random: RandomSource = createSessionRandom(sessionSeed)
+  ) {
+    this.promptMode = sessionSeed.promptMode ?? 'WORD';
+    this.wordPool = this.createPromptPool(sessionSeed.words);
+    this.random = random;
+    this.reviews = indexReviews(sessionSeed.reviewSchedule);
+    this.reviewsAsOf = sessionSeed.reviewSchedule?.asOf ?? 0;
+    this.weakSpots = sessionSeed.keystrokeProfile ? getWeakSpots(sessionSeed.keystrokeProfile) : [];
     this.validateWordPool();
   }
 
@@ -131,17 +164,46 @@ export class WordManager {
     return selection;
   }
 
+  /**
+   * Select a guard word for a telegraphed enemy attack
+   * Avoids the words already on screen so the first key picks one word
+   */
+  selectGuardWord(options: WordSelectionOptions, onScreen: Word[] = []): Word {
+    const config = this.createWordPoolConfig(options, onScreen);
+    const usedLetters = new Set(onScreen.map(word => word.text[0]));
+
+    const guard = this.selectWordForType(
+      'GUARD',
+      config,
+      word => !usedLetters.has(word.text[0])
+    );
+
+    if (this.currentSelection) {
+      this.currentSelection = { ...this.currentSelection, guard };
+    }
+    this.recentWords.set(guard.id, options.round);
+
+    return guard;
+  }
+
   /**
    * Select a word for a specific action type
+   * A preference filter narrows the candidates when it leaves any
    */
-  private selectWordForType(type: ActionType, config: WordPoolConfig): Word {
-    const candidates = this.filterWordPool(config);
+  private selectWordForType(
+    type: ActionType,
+    config: WordPoolConfig,
+    prefer?: (word: Word) => boolean
+  ): Word {
+    const pool = this.filterByCategory(this.filterWordPool(config), config);
+    const preferred = prefer ? pool.filter(prefer) : pool;
+    const candidates = preferred.length > 0 ? preferred : pool;
     const typePrefs = WORD_TYPE_PREFERENCES[type];
     
     // Score each candidate word
     const scoredCandidates = candidates.map(word => ({
       word,
-      score: this.scoreWordForType(word, type, typePrefs),
+      score: this.scoreWordForType(word, type, typePrefs, config.round),
     }));
 
     // Sort by score (higher is better)
@@ -156,11 +218,16 @@ export class WordManager {
   /**
    * Score a word for how suitable it is for a specific action type
    */
-  private scoreWordForType(word: Word, type: ActionType, preferences: typeof WORD_TYPE_PREFERENCES[ActionType]): number {
+  private scoreWordForType(word: Word, type: ActionType, preferences: typeof WORD_TYPE_PREFERENCES[ActionType], round: number): number {
     let score = 100; // Base score
 
     // Length preference
-    if (preferences.preferShorter) {
+    if (this.promptMode === 'PHRASE') {
+      const words = splitPhrase(word.text).length;
+      score += preferences.preferShorter
+        ? Math.max(0, 8 - words) * 4 // Bonus for shorter phrases
+        : Math.min(8, words) * 3; // Bonus for longer phrases
+    } else if (preferences.preferShorter) {
       score += Math.max(0, 15 - word.length) * 2; // Bonus for shorter words
     } else {
       score += Math.min(15, word.length) * 1.5; // Bonus for longer words
@@ -176,12 +243,22 @@ export class WordManager {
 
     // Avoid recent words
     if (this.recentWords.has(word.id)) {
-      const roundsAgo = Date.now() - (this.recentWords.get(word.id) || 0);
+      const roundsAgo = round - (this.recentWords.get(word.id) || 0);
       score *= Math.max(0.3, 1.0 - (5 - roundsAgo) * 0.1);
     }
 
+    // Favour words the learner has due or keeps getting wrong
+    if (this.reviews.size > 0) {
+      score *= getReviewWeight(this.reviews.get(word.id), this.reviewsAsOf);
+    }
+
+    // Favour words that drill the learner's weak keys and bigrams
+    if (this.weakSpots.length > 0) {
+      score *= getKeystrokeWeight(word.text, this.weakSpots);
+    }
+
     // Add some randomness
-    score *= 0.8 + Math.random() * 0.4;
+    score *= 0.8 + this.random() * 0.4;
 
     return score;
   }
@@ -255,32 +332,84 @@ export class WordManager {
   // WORD POOL MANAGEMENT
   // =============================================================================
 
-  private createWordPoolConfig(options: WordSelectionOptions): WordPoolConfig {
+  private createWordPoolConfig(options: WordSelectionOptions, onScreen: Word[] = []): WordPoolConfig {
     const difficultyRange = DIFFICULTY_LEVEL_RANGES[options.difficulty];
-    const lengthRange = DIFFICULTY_LENGTH_RANGES[options.difficulty];
+    const lengthRange = this.promptMode === 'PHRASE'
+      ? DIFFICULTY_PHRASE_WORD_RANGES[options.difficulty]
+      : DIFFICULTY_LENGTH_RANGES[options.difficulty];
 
     // Adjust ranges based on player level and round
     const levelAdjustment = Math.floor(options.playerLevel / 5);
     const roundAdjustment = Math.floor(options.round / 3);
 
-    const adjustedMinLevel = Math.max(1, difficultyRange.min + levelAdjustment) as WordLevel;
     const adjustedMaxLevel = Math.min(5, difficultyRange.max + roundAdjustment) as WordLevel;
+    const adjustedMinLevel = Math.min(adjustedMaxLevel, Math.max(1, difficultyRange.min + levelAdjustment)) as WordLevel;
 
-    const excludeIds = new Set<string>();
+    const excludeIds = new Set<string>(onScreen.map(word => word.id));
+    const excludeRecentIds = new Set<string>(excludeIds);
     if (options.avoidRecentWords) {
       this.recentWords.forEach((round, wordId) => {
         if (options.round - round < 3) { // Avoid words used in last 3 rounds
-          excludeIds.add(wordId);
+          excludeRecentIds.add(wordId);
         }
       });
     }
 
-    return {
+    let config: WordPoolConfig = {
       minLevel: adjustedMinLevel,
       maxLevel: adjustedMaxLevel,
       categoryWeights: this.calculateCategoryWeights(options),
       lengthRange,
       excludeIds,
+      categories: new Set(options.categories ?? []),
+      round: options.round,
+    };
+
+    // High player levels drop the easiest words, but only as many as the pack allows
+    while (config.minLevel > difficultyRange.min && this.filterWordPool(config).length === 0) {
+      config = { ...config, minLevel: (config.minLevel - 1) as WordLevel };
+    }
+
+    // Recent words are only avoided while there are others to offer
+    // (guard words keep using them up within a round)
+    if (this.filterWordPool({ ...config, excludeIds: excludeRecentIds }).length > 0) {
+      config = { ...config, excludeIds: excludeRecentIds };
+    }
+
+    // Adaptive difficulty moves the ranges with the player's performance,
+    // unless that leaves nothing to offer
+    const shift = options.difficultyShift;
+    if (shift && (shift.level !== 0 || shift.length !== 0)) {
+      const shifted = this.shiftWordPoolConfig(config, shift.level, shift.length);
+      if (this.filterWordPool(shifted).length > 0) {
+        config = shifted;
+      }
+    }
+
+    // An enemy's level bias shifts the range on top, with the same fallback
+    const levelBias = options.levelBias ?? 0;
+    if (levelBias !== 0) {
+      const biased = this.shiftWordPoolConfig(config, levelBias, 0);
+      if (this.filterWordPool(biased).length > 0) {
+        return biased;
+      }
+    }
+
+    return config;
+  }
+
+  private shiftWordPoolConfig(config: WordPoolConfig, levelShift: number, lengthShift: number): WordPoolConfig {
+    const clampLevel = (level: number) => Math.min(5, Math.max(1, level)) as WordLevel;
+    const minLength = Math.max(1, config.lengthRange.min + lengthShift);
+
+    return {
+      ...config,
+      minLevel: clampLevel(config.minLevel + levelShift),
+      maxLevel: clampLevel(config.maxLevel + levelShift),
+      lengthRange: {
+        min: minLength,
+        max: Math.max(minLength, config.lengthRange.max + lengthShift),
+      },
     };
   }
 
@@ -291,8 +420,9 @@ export class WordManager {
         return false;
       }
 
-      // Length filter
-      if (word.length < config.lengthRange.min || word.length > config.lengthRange.max) {
+      // Length filter (words in a phrase, characters in a word)
+      const length = this.promptMode === 'PHRASE' ? splitPhrase(word.text).length : word.length;
+      if (length < config.lengthRange.min || length > config.lengthRange.max) {
         return false;
       }
 
@@ -305,6 +435,19 @@ export class WordManager {
     });
   }
 
+  /**
+   * Keep the words in the enemy's categories
+   * A pack with none of them is used as it is
+   */
+  private filterByCategory(pool: Word[], config: WordPoolConfig): Word[] {
+    if (config.categories.size === 0) return pool;
+
+    const matching = pool.filter(
+      word => word.category !== undefined && config.categories.has(word.category)
+    );
+    return matching.length > 0 ? matching : pool;
+  }
+
   private calculateCategoryWeights(options: WordSelectionOptions): Record<string, number> {
     const baseWeights: Record<string, number> = {
       'basic': 1.0,
@@ -342,7 +485,7 @@ export class WordManager {
     if (options.playerLevel >= 5) return true;
     
     // Random chance for normal difficulty
-    return options.difficulty === 'NORMAL' && Math.random() < 0.3;
+    return options.difficulty === 'NORMAL' && this.random() < 0.3;
   }
 
   private weightedRandomSelect<T>(items: T[], weights: number[]): T {
@@ -351,7 +494,7 @@ export class WordManager {
     }
 
     const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-    let random = Math.random() * totalWeight;
+    let random = this.random() * totalWeight;
 
     for (let i = 0; i < items.length; i++) {
       random -= weights[i];
@@ -380,6 +523,24 @@ export class WordManager {
     });
   }
 
+  /**
+   * Keep the prompts that suit the mode: phrases in PHRASE mode, single words
+   * otherwise. A pack with none of the right kind is used as it is
+   */
+  private createPromptPool(words: Word[]): Word[] {
+    const normalized = words.map(word => {
+      if (typeof word.text !== 'string') return { ...word }; // Rejected by validateWordPool
+      const text = normalizePromptText(word.text);
+      return text === word.text ? { ...word } : { ...word, text, length: text.length };
+    });
+
+    const wantPhrases = this.promptMode === 'PHRASE';
+    const matching = normalized.filter(
+      word => typeof word.text === 'string' && isPhrase(word) === wantPhrases
+    );
+    return matching.length > 0 ? matching : normalized;
+  }
+
   private validateWordPool(): void {
     if (this.wordPool.length === 0) {
       throw new Error('WordManager: Empty word pool');
@@ -391,7 +552,7 @@ export class WordManager {
         throw new Error(`WordManager: Invalid word structure: ${JSON.stringify(word)}`);
       }
       
-      if (word.level < 1 || word.level > 5) {
+      if (!isWordLevel(word.level)) {
         throw new Error(`WordManager: Invalid word level: ${word.level} for word ${word.id}`);
       }
 
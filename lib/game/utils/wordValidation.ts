@@ -0,0 +1,53 @@
+import { ValidationResult, Word, WordLevel } from '../types';
+import { isPhrase } from './phrase';
+
+/**
+ * Word rules shared by the game (WordManager, GameStateManager), the API and
+ * the word pack importer, so a pack that imports cleanly also plays cleanly
+ */
+
+export const MIN_WORD_LEVEL = 1;
+export const MAX_WORD_LEVEL = 5;
+
+// Length and characters the attempt API accepts in targetText
+// Punctuation is for phrase mode's example sentences
+export const MAX_WORD_TEXT_LENGTH = 50;
+export const MAX_PHRASE_TEXT_LENGTH = 200;
+export const WORD_TEXT_PATTERN = /^[a-zA-Z\s\-'.,!?;:"()]+$/;
+
+export function isWordLevel(value: unknown): value is WordLevel {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= MIN_WORD_LEVEL &&
+    value <= MAX_WORD_LEVEL
+  );
+}
+
+export function getMaxTextLength(text: string): number {
+  return isPhrase({ text }) ? MAX_PHRASE_TEXT_LENGTH : MAX_WORD_TEXT_LENGTH;
+}
+
+/**
+ * Check a single word's text, level and length
+ */
+export function validateWord(word: Word): ValidationResult {
+  const errors: string[] = [];
+
+  if (!word.text || word.text.length === 0) {
+    errors.push(`Word has empty text: ${word.id}`);
+  }
+  if (!isWordLevel(word.level)) {
+    errors.push(`Word level out of bounds: ${word.level}`);
+  }
+  if (word.length !== word.text.length) {
+    errors.push(
+      `Word length mismatch: expected ${word.text.length}, got ${word.length}`
+    );
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Minimal RFC 4180 CSV reader for word pack files
+ * Handles quoted fields with commas, escaped quotes and line breaks, and keeps
+ * the line each record starts on so import reports can point at it
+ */
+
+export interface CsvRecord {
+  line: number; // 1-based line the record starts on
+  fields: string[];
+}
+
+export class CsvParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`CSV: ${message} (line ${line})`);
+    this.name = 'CsvParseError';
+    this.line = line;
+  }
+}
+
+/**
+ * Split CSV text into records, skipping blank lines
+ */
+export function parseCsv(content: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  const text = content.replace(/^﻿/, ''); // Spreadsheet exports add a BOM
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+  };
+
+  const endRecord = () => {
+    endField();
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError('Unterminated quoted field', recordLine);
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
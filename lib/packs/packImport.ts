@@ -0,0 +1,423 @@
+import { GameRepository, WordPackRecord } from '../api/types';
+import { WordLevel } from '../game/types';
+import { loadCombatProfile } from '../game/utils/combatProfile';
+import { normalizePromptText } from '../game/utils/phrase';
+import {
+  WORD_TEXT_PATTERN,
+  getMaxTextLength,
+  isWordLevel,
+} from '../game/utils/wordValidation';
+import { CsvParseError, parseCsv } from './csv';
+import {
+  ImportedWord,
+  ImportLineReport,
+  PackFormat,
+  PackImportReport,
+  PackMetadata,
+} from './types';
+
+/**
+ * Word pack import pipeline shared by scripts/import-pack.ts and the admin
+ * route
+ * Parses CSV (`text,level[,category,pronunciation,meaning]`) or JSON, checks
+ * every word with the rules the game applies at runtime, and reports each line
+ * before anything is written
+ */
+
+type RawEntry = Partial<Record<WordColumn, unknown>>;
+
+interface ParsedEntry {
+  line: number;
+  entry: RawEntry | null; // null when a JSON entry is not an object
+  problems?: string[];
+}
+
+type WordColumn = (typeof WORD_COLUMNS)[number];
+
+// Column order assumed when a CSV file has no header row
+const WORD_COLUMNS = [
+  'text',
+  'level',
+  'category',
+  'pronunciation',
+  'meaning',
+] as const;
+
+const LEVEL_PATTERN = /^L?([0-9]+)$/i;
+
+// =============================================================================
+// ENTRY POINTS
+// =============================================================================
+
+/**
+ * Guess the format from a file name, falling back to the content
+ */
+export function detectPackFormat(fileName: string, content = ''): PackFormat {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+
+  const start = content.trimStart()[0];
+  return start === '[' || start === '{' ? 'json' : 'csv';
+}
+
+/**
+ * Parse and validate a pack file without writing anything
+ */
+export function buildImportReport(
+  content: string,
+  format: PackFormat
+): PackImportReport {
+  return format === 'json' ? buildJsonReport(content) : buildCsvReport(content);
+}
+
+/**
+ * Render a report as plain text, one line per word
+ */
+export function formatImportReport(report: PackImportReport): string {
+  const output = report.errors.map(error => `error: ${error}`);
+
+  for (const line of report.lines) {
+    const text = line.text === null ? '-' : JSON.stringify(line.text);
+    const messages = line.messages.length
+      ? ` - ${line.messages.join('; ')}`
+      : '';
+    output.push(
+      `${String(line.line).padStart(5)}  ${line.status.padEnd(9)}  ${text}${messages}`
+    );
+  }
+
+  const { summary } = report;
+  output.push(
+    `${summary.total} lines: ${summary.accepted} accepted, ${summary.invalid} invalid, ${summary.duplicates} duplicates`
+  );
+
+  return output.join('\n');
+}
+
+/**
+ * Insert the accepted words of a valid report as a new pack
+ * The pack's level range is taken from the words
+ */
+export async function saveImportedPack(
+  repository: GameRepository,
+  report: PackImportReport,
+  pack: PackMetadata,
+  createdBy: string | null
+): Promise<WordPackRecord> {
+  if (!report.valid) {
+    throw new Error('packImport: Cannot save a pack with invalid lines');
+  }
+
+  return repository.createWordPack(
+    {
+      title: pack.title,
+      description: pack.description ?? null,
+      lang: pack.lang ?? 'en',
+      tags: pack.tags ?? [],
+      levelMin: report.summary.levelMin ?? 1,
+      levelMax: report.summary.levelMax ?? 5,
+      combatProfile: pack.combatProfile ?? null,
+      createdBy,
+    },
+    report.words.map(word => ({
+      text: word.text,
+      level: word.level,
+      category: word.category ?? null,
+      pronunciation: word.pronunciation ?? null,
+      meaning: word.meaning ?? null,
+    }))
+  );
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+function buildCsvReport(content: string): PackImportReport {
+  let records;
+  try {
+    records = parseCsv(content);
+  } catch (error) {
+    if (error instanceof CsvParseError) {
+      return createReport('csv', {}, [], [error.message]);
+    }
+    throw error;
+  }
+
+  let columns: WordColumn[] = [...WORD_COLUMNS];
+  const header = records[0]?.fields.map(field => field.trim().toLowerCase());
+  if (header?.includes('text')) {
+    const unknown = header.filter(
+      name => !WORD_COLUMNS.includes(name as WordColumn)
+    );
+    if (unknown.length > 0) {
+      return createReport(
+        'csv',
+        {},
+        [],
+        [`Unknown column(s): ${unknown.join(', ')}`]
+      );
+    }
+    if (!header.includes('level')) {
+      return createReport('csv', {}, [], ['Missing required column: level']);
+    }
+    columns = header as WordColumn[];
+    records = records.slice(1);
+  }
+
+  const entries = records.map(record => {
+    const entry: RawEntry = {};
+    columns.forEach((column, index) => {
+      const value = record.fields[index]?.trim();
+      if (value) entry[column] = value;
+    });
+
+    // Usually an unquoted comma inside a meaning
+    const problems =
+      record.fields.length > columns.length
+        ? [
+            `Expected at most ${columns.length} columns, got ${record.fields.length}`,
+          ]
+        : [];
+
+    return { line: record.line, entry, problems };
+  });
+
+  return validateEntries('csv', {}, entries, []);
+}
+
+// =============================================================================
+// JSON
+// =============================================================================
+
+/**
+ * Accepts a bare array of words, or an object with pack metadata and `words`
+ */
+function buildJsonReport(content: string): PackImportReport {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return createReport(
+      'json',
+      {},
+      [],
+      [`Invalid JSON: ${(error as Error).message}`]
+    );
+  }
+
+  const isObject = typeof data === 'object' && data !== null;
+  const words = Array.isArray(data)
+    ? data
+    : isObject
+      ? (data as Record<string, unknown>).words
+      : undefined;
+  if (!Array.isArray(words)) {
+    return createReport(
+      'json',
+      {},
+      [],
+      ['Expected an array of words or an object with a words array']
+    );
+  }
+
+  const errors: string[] = [];
+  const pack = Array.isArray(data)
+    ? {}
+    : readPackMetadata(data as Record<string, unknown>, errors);
+  const entries = words.map((entry, index) => ({
+    line: index + 1,
+    entry:
+      typeof entry === 'object' && entry !== null && !Array.isArray(entry)
+        ? (entry as RawEntry)
+        : null,
+  }));
+
+  return validateEntries('json', pack, entries, errors);
+}
+
+function readPackMetadata(
+  data: Record<string, unknown>,
+  errors: string[]
+): Partial<PackMetadata> {
+  const pack: Partial<PackMetadata> = {};
+
+  if (typeof data.title === 'string') pack.title = data.title.trim();
+  if (typeof data.description === 'string') {
+    pack.description = data.description.trim();
+  }
+  if (typeof data.lang === 'string') pack.lang = data.lang.trim();
+  if (
+    Array.isArray(data.tags) &&
+    data.tags.every(tag => typeof tag === 'string')
+  ) {
+    pack.tags = data.tags;
+  }
+  // A built-in profile id or a full custom profile
+  if (data.combatProfile !== undefined) {
+    try {
+      pack.combatProfile = loadCombatProfile(data.combatProfile);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  return pack;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function validateEntries(
+  format: PackFormat,
+  pack: Partial<PackMetadata>,
+  entries: ParsedEntry[],
+  errors: string[]
+): PackImportReport {
+  const lines: ImportLineReport[] = [];
+  const words: ImportedWord[] = [];
+  const firstLineByText = new Map<string, number>();
+
+  for (const { line, entry, problems = [] } of entries) {
+    if (!entry) {
+      lines.push({
+        line,
+        text: null,
+        status: 'invalid',
+        messages: ['Entry must be an object'],
+      });
+      continue;
+    }
+
+    const text = typeof entry.text === 'string' ? entry.text.trim() : null;
+    const { word, messages } = validateEntry(entry);
+    if (!word || problems.length > 0) {
+      lines.push({
+        line,
+        text,
+        status: 'invalid',
+        messages: [...problems, ...messages],
+      });
+      continue;
+    }
+
+    // Typing is case-insensitive, so "Apple" and "apple" are the same word
+    const key = word.text.toLowerCase();
+    const firstLine = firstLineByText.get(key);
+    if (firstLine !== undefined) {
+      lines.push({
+        line,
+        text,
+        status: 'duplicate',
+        messages: [`Duplicate of line ${firstLine}`],
+      });
+      continue;
+    }
+
+    firstLineByText.set(key, line);
+    words.push(word);
+    lines.push({ line, text, status: 'ok', messages: [] });
+  }
+
+  if (entries.length === 0 && errors.length === 0) {
+    errors.push('Pack has no words');
+  }
+
+  return createReport(format, pack, lines, errors, words);
+}
+
+function validateEntry(entry: RawEntry): {
+  word?: ImportedWord;
+  messages: string[];
+} {
+  const messages: string[] = [];
+
+  // Curly quotes and dashes from spreadsheets become typeable characters
+  const text =
+    typeof entry.text === 'string' ? normalizePromptText(entry.text) : '';
+  if (entry.text !== undefined && typeof entry.text !== 'string') {
+    messages.push('Text must be a string');
+  } else if (text.length === 0) {
+    messages.push('Text is empty');
+  } else if (text.length > getMaxTextLength(text)) {
+    messages.push(`Text is longer than ${getMaxTextLength(text)} characters`);
+  } else if (!WORD_TEXT_PATTERN.test(text)) {
+    messages.push(
+      'Text may only contain letters, spaces, hyphens, apostrophes and basic punctuation'
+    );
+  }
+
+  const level = parseLevel(entry.level);
+  if (entry.level === undefined || entry.level === '') {
+    messages.push('Level is missing');
+  } else if (!isWordLevel(level)) {
+    messages.push(
+      `Level must be 1-5 or L1-L5, got ${JSON.stringify(entry.level)}`
+    );
+  }
+
+  const optional: Partial<
+    Pick<ImportedWord, 'category' | 'pronunciation' | 'meaning'>
+  > = {};
+  for (const field of ['category', 'pronunciation', 'meaning'] as const) {
+    const value = entry[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string') {
+      messages.push(`${field} must be a string`);
+    } else if (value.trim()) {
+      optional[field] = value.trim();
+    }
+  }
+
+  if (messages.length > 0 || !isWordLevel(level)) {
+    return { messages };
+  }
+
+  return { word: { text, level, ...optional }, messages };
+}
+
+function parseLevel(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+
+  const match = LEVEL_PATTERN.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+// =============================================================================
+// REPORT
+// =============================================================================
+
+function createReport(
+  format: PackFormat,
+  pack: Partial<PackMetadata>,
+  lines: ImportLineReport[],
+  errors: string[],
+  words: ImportedWord[] = []
+): PackImportReport {
+  const invalid = lines.filter(line => line.status === 'invalid').length;
+
+  return {
+    format,
+    valid: errors.length === 0 && invalid === 0 && words.length > 0,
+    pack,
+    errors,
+    lines,
+    words,
+    summary: {
+      total: lines.length,
+      accepted: words.length,
+      invalid,
+      duplicates: lines.filter(line => line.status === 'duplicate').length,
+      levelMin: words.reduce<WordLevel | null>(
+        (min, word) => (min === null || word.level < min ? word.level : min),
+        null
+      ),
+      levelMax: words.reduce<WordLevel | null>(
+        (max, word) => (max === null || word.level > max ? word.level : max),
+        null
+      ),
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { CombatProfile, WordLevel } from '../game/types';
+
+/**
+ * Types for importing word packs from CSV or JSON files
+ */
+
+// =============================================================================
+// PACK CONTENT
+// =============================================================================
+
+export type PackFormat = 'csv' | 'json';
+
+export interface PackMetadata {
+  title: string;
+  description?: string;
+  lang?: string; // Defaults to 'en' in the database
+  tags?: string[];
+  combatProfile?: CombatProfile; // Balance for sessions on this pack
+}
+
+export interface ImportedWord {
+  text: string;
+  level: WordLevel;
+  category?: string; // NGSL, TOEIC, etc.
+  pronunciation?: string;
+  meaning?: string;
+}
+
+// =============================================================================
+// IMPORT REPORT
+// =============================================================================
+
+export type ImportLineStatus = 'ok' | 'invalid' | 'duplicate';
+
+export interface ImportLineReport {
+  line: number; // CSV line number, or 1-based entry index for JSON
+  text: string | null;
+  status: ImportLineStatus;
+  messages: string[];
+}
+
+export interface PackImportReport {
+  format: PackFormat;
+  valid: boolean; // True when the words can be inserted as they are
+  pack: Partial<PackMetadata>; // Metadata found in the file (JSON only)
+  errors: string[]; // Problems with the file as a whole
+  lines: ImportLineReport[];
+  words: ImportedWord[]; // Accepted words, duplicates removed
+  summary: {
+    total: number;
+    accepted: number;
+    invalid: number;
+    duplicates: number;
+    levelMin: WordLevel | null;
+    levelMax: WordLevel | null;
+  };
+}
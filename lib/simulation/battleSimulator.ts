@@ -0,0 +1,407 @@
+import { HeadlessAdapter } from '../game/HeadlessAdapter';
+import { GameDifficulty, GameState, Word } from '../game/types';
+import { DEFAULT_COMBAT_PROFILE } from '../game/utils/combatProfile';
+import { createSeededRandom, RandomSource } from '../game/utils/random';
+import { SAMPLE_WORDS } from './sampleWords';
+import {
+  BattleOutcome,
+  BattleSettings,
+  SimulatedTypist,
+  SimulationOptions,
+  SimulationReport,
+  SimulationResult,
+} from './types';
+
+/**
+ * Battle balance simulator
+ * Plays complete sessions on the HeadlessAdapter with simulated typists, so
+ * the real word selection, combat and enemy attack code decide every outcome
+ */
+
+const MIN_WPM = 5;
+const WRONG_KEYS = 'abcdefghijklmnopqrstuvwxyz';
+
+// Mixed into the battle seed so the typist does not mirror the session's draws
+const TYPIST_SEED_SALT = 0x5bd1e995;
+
+// =============================================================================
+// TYPIST BEHAVIOUR
+// =============================================================================
+
+/**
+ * Sample a normal distribution (Box-Muller)
+ */
+function sampleNormal(
+  random: RandomSource,
+  mean: number,
+  stdDev: number
+): number {
+  const u = 1 - random(); // (0, 1] so the log is finite
+  const v = random();
+  return (
+    mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  );
+}
+
+function pickWrongKey(random: RandomSource, expected: string): string {
+  const key = WRONG_KEYS[Math.floor(random() * WRONG_KEYS.length)];
+  return key === expected.toLowerCase() ? (key === 'a' ? 'b' : 'a') : key;
+}
+
+class TypistDriver {
+  // The guard decision is made once per telegraphed attack
+  private guardDecision: { word: Word; guard: boolean } | null = null;
+  private keysPressed = 0;
+  private wrongKeys = 0;
+
+  constructor(
+    private adapter: HeadlessAdapter,
+    private typist: SimulatedTypist,
+    private random: RandomSource
+  ) {}
+
+  async playWord(): Promise<void> {
+    this.adapter.advanceTime(this.typist.reactionMs);
+    if (!this.adapter.isRunning()) return;
+
+    const target = this.chooseWord(this.adapter.getState());
+    const wpm = Math.max(
+      MIN_WPM,
+      sampleNormal(this.random, this.typist.wpmMean, this.typist.wpmStdDev)
+    );
+    const msPerKey = 12000 / wpm; // Five characters per word
+
+    if (!(await this.press(target.text[0], msPerKey))) return;
+
+    // Guard wins lock ties, so the word being typed may not be the one chosen
+    const locked = this.adapter.getState().locked;
+    if (!locked) return;
+    const text = this.adapter.getState().currentWords[locked]?.text ?? '';
+
+    for (let i = 1; i < text.length; i++) {
+      if (this.random() < this.typist.errorRate) {
+        const wrongKey = pickWrongKey(this.random, text[i]);
+        if (!(await this.press(wrongKey, msPerKey, true))) return;
+        if (!(await this.press('Backspace', msPerKey))) return;
+      }
+      if (!(await this.press(text[i], msPerKey))) return;
+
+      // A landed enemy attack clears a half-typed guard word
+      if (this.adapter.getState().locked !== locked) return;
+    }
+  }
+
+  /**
+   * Share of the keys pressed, corrections aside, that were right
+   * The game scores words on their final text, which is always right once
+   * corrected, so its own accuracy cannot tell typists apart
+   */
+  getAccuracy(): number {
+    return this.keysPressed > 0
+      ? (this.keysPressed - this.wrongKeys) / this.keysPressed
+      : 1;
+  }
+
+  private chooseWord(state: GameState): Word {
+    const { currentWords, enemyAttack, hp } = state;
+
+    if (enemyAttack && currentWords.guard) {
+      if (this.guardDecision?.word.id !== currentWords.guard.id) {
+        this.guardDecision = {
+          word: currentWords.guard,
+          guard: this.random() < this.typist.guardPreference,
+        };
+      }
+      if (this.guardDecision.guard) {
+        return currentWords.guard;
+      }
+    }
+
+    if (hp.player / hp.playerMax < this.typist.healThreshold) {
+      return currentWords.heal;
+    }
+    return currentWords.attack;
+  }
+
+  /**
+   * Wait for the key, then press it
+   * Returns false once the battle is over
+   */
+  private async press(
+    key: string,
+    delayMs: number,
+    wrong = false
+  ): Promise<boolean> {
+    this.adapter.advanceTime(delayMs);
+    if (!this.adapter.isRunning()) return false;
+
+    if (key !== 'Backspace') this.keysPressed++;
+    if (wrong) this.wrongKeys++;
+    await this.adapter.processKeystroke(key);
+    return this.adapter.isRunning();
+  }
+}
+
+// =============================================================================
+// SIMULATION
+// =============================================================================
+
+/**
+ * Play one battle to the end and collect its numbers
+ */
+export async function simulateBattle(
+  typist: SimulatedTypist,
+  settings: BattleSettings
+): Promise<BattleOutcome> {
+  const sessionId = `simulation-${settings.seed}`;
+  const adapter = new HeadlessAdapter();
+
+  let actions = 0;
+  let criticals = 0;
+  let enemyAttacks = 0;
+  let guardedAttacks = 0;
+
+  adapter.on('action-executed', ({ result }) => {
+    if (result.type === 'GUARD') return;
+    actions++;
+    if (result.critical) criticals++;
+  });
+  adapter.on('enemy-attack', ({ guarded }) => {
+    enemyAttacks++;
+    if (guarded) guardedAttacks++;
+  });
+
+  try {
+    await adapter.mount(null, {
+      width: 800,
+      height: 600,
+      difficulty: settings.difficulty,
+      packId: 'simulation',
+      sessionId,
+      durationSec: settings.durationSec,
+    });
+    await adapter.start({
+      sessionId,
+      packId: 'simulation',
+      difficulty: settings.difficulty,
+      words: settings.words ?? SAMPLE_WORDS,
+      rngSeed: settings.seed,
+      combatProfile: settings.combatProfile,
+    });
+
+    const driver = new TypistDriver(
+      adapter,
+      typist,
+      createSeededRandom((settings.seed ^ TYPIST_SEED_SALT) >>> 0)
+    );
+    while (adapter.isRunning()) {
+      await driver.playWord();
+    }
+
+    const sessionResult = adapter.getSessionResult();
+    if (!sessionResult) {
+      throw new Error('battleSimulator: Battle ended without a result');
+    }
+
+    const { hp } = adapter.getState();
+    const { finalStats } = sessionResult;
+
+    return {
+      result: sessionResult.result,
+      timedOut: hp.player > 0 && hp.enemy > 0,
+      durationSec: sessionResult.duration,
+      damageDealt: finalStats.totalDamage,
+      healingDone: finalStats.totalHealing,
+      damageTaken: finalStats.damageTaken,
+      actions,
+      criticals,
+      enemyAttacks,
+      guardedAttacks,
+      wpm: finalStats.wpm,
+      accuracy: driver.getAccuracy(),
+    };
+  } finally {
+    adapter.destroy();
+  }
+}
+
+/**
+ * Play every typist against every difficulty
+ * Each row uses the same battle seeds, so rows differ only by typist and
+ * difficulty, and reruns with the same seed are comparable
+ */
+export async function runSimulation(
+  options: SimulationOptions
+): Promise<SimulationReport> {
+  if (!Number.isInteger(options.battles) || options.battles <= 0) {
+    throw new Error('battleSimulator: battles must be a positive integer');
+  }
+
+  const results: SimulationResult[] = [];
+
+  for (const typist of options.typists) {
+    for (const difficulty of options.difficulties) {
+      const seeds = createSeededRandom(options.seed);
+      const outcomes: BattleOutcome[] = [];
+
+      for (let i = 0; i < options.battles; i++) {
+        outcomes.push(
+          await simulateBattle(typist, {
+            difficulty,
+            durationSec: options.durationSec,
+            seed: Math.floor(seeds() * 0x100000000),
+            words: options.words,
+            combatProfile: options.combatProfile,
+          })
+        );
+      }
+
+      results.push(summariseBattles(typist.name, difficulty, outcomes));
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    seed: options.seed,
+    battles: options.battles,
+    durationSec: options.durationSec,
+    combatProfile: (options.combatProfile ?? DEFAULT_COMBAT_PROFILE).id,
+    typists: options.typists,
+    results,
+  };
+}
+
+// =============================================================================
+// REPORTING
+// =============================================================================
+
+function round(value: number, places = 3): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function share(count: number, total: number): number {
+  return total > 0 ? round(count / total) : 0;
+}
+
+export function summariseBattles(
+  typist: string,
+  difficulty: GameDifficulty,
+  outcomes: BattleOutcome[]
+): SimulationResult {
+  const total = (pick: (outcome: BattleOutcome) => number) =>
+    outcomes.reduce((sum, outcome) => sum + pick(outcome), 0);
+  const average = (pick: (outcome: BattleOutcome) => number) =>
+    outcomes.length > 0 ? round(total(pick) / outcomes.length, 2) : 0;
+
+  const damage = total(outcome => outcome.damageDealt);
+  const healing = total(outcome => outcome.healingDone);
+
+  return {
+    typist,
+    difficulty,
+    battles: outcomes.length,
+    winRate: share(
+      outcomes.filter(outcome => outcome.result === 'WIN').length,
+      outcomes.length
+    ),
+    timeoutRate: share(
+      outcomes.filter(outcome => outcome.timedOut).length,
+      outcomes.length
+    ),
+    averageBattleSec: average(outcome => outcome.durationSec),
+    averageDamageDealt: average(outcome => outcome.damageDealt),
+    averageHealingDone: average(outcome => outcome.healingDone),
+    averageDamageTaken: average(outcome => outcome.damageTaken),
+    damageHealRatio: healing > 0 ? round(damage / healing, 2) : null,
+    critRate: share(
+      total(outcome => outcome.criticals),
+      total(outcome => outcome.actions)
+    ),
+    guardRate: share(
+      total(outcome => outcome.guardedAttacks),
+      total(outcome => outcome.enemyAttacks)
+    ),
+    averageWpm: average(outcome => outcome.wpm),
+    averageAccuracy: round(
+      total(outcome => outcome.accuracy) / Math.max(1, outcomes.length)
+    ),
+  };
+}
+
+const TABLE_COLUMNS: {
+  header: string;
+  value: (result: SimulationResult) => string;
+}[] = [
+  { header: 'typist', value: result => result.typist },
+  { header: 'difficulty', value: result => result.difficulty },
+  { header: 'battles', value: result => String(result.battles) },
+  { header: 'win %', value: result => percent(result.winRate) },
+  { header: 'timeout %', value: result => percent(result.timeoutRate) },
+  { header: 'avg sec', value: result => result.averageBattleSec.toFixed(1) },
+  { header: 'damage', value: result => result.averageDamageDealt.toFixed(1) },
+  { header: 'healing', value: result => result.averageHealingDone.toFixed(1) },
+  { header: 'taken', value: result => result.averageDamageTaken.toFixed(1) },
+  {
+    header: 'dmg/heal',
+    value: result =>
+      result.damageHealRatio === null ? '-' : result.damageHealRatio.toFixed(2),
+  },
+  { header: 'crit %', value: result => percent(result.critRate) },
+  { header: 'guard %', value: result => percent(result.guardRate) },
+  { header: 'wpm', value: result => result.averageWpm.toFixed(1) },
+  { header: 'acc %', value: result => percent(result.averageAccuracy) },
+];
+
+function percent(fraction: number): string {
+  return (fraction * 100).toFixed(1);
+}
+
+/**
+ * Render the report as a plain text table
+ * With a baseline report, adds the change in win rate for matching rows
+ */
+export function formatSimulationReport(
+  report: SimulationReport,
+  baseline?: SimulationReport
+): string {
+  const columns = [...TABLE_COLUMNS];
+  if (baseline) {
+    columns.push({
+      header: 'win % vs base',
+      value: result => {
+        const before = baseline.results.find(
+          row =>
+            row.typist === result.typist && row.difficulty === result.difficulty
+        );
+        if (!before) return '-';
+        const delta = (result.winRate - before.winRate) * 100;
+        return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}`;
+      },
+    });
+  }
+
+  const rows = [
+    columns.map(column => column.header),
+    ...report.results.map(result =>
+      columns.map(column => column.value(result))
+    ),
+  ];
+  const widths = columns.map((_, index) =>
+    Math.max(...rows.map(row => row[index].length))
+  );
+  // Text columns line up left, numbers right
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, index) =>
+        index < 2 ? cell.padEnd(widths[index]) : cell.padStart(widths[index])
+      )
+      .join('  ');
+
+  return [
+    `${report.battles} battles per row, ${report.durationSec}s limit, combat profile ${report.combatProfile}, seed ${report.seed}`,
+    formatRow(rows[0]),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...rows.slice(1).map(formatRow),
+  ].join('\n');
+}
@@ -0,0 +1,90 @@
+import { Word, WordLevel } from '../game/types';
+
+/**
+ * Default word list for simulated battles
+ * Mirrors the seeded demo packs so results match what players see without
+ * a database; pass a pack file to the simulator to balance against others
+ */
+
+const SAMPLE_WORD_TEXTS: Record<WordLevel, string[]> = {
+  1: ['the', 'and', 'you', 'for', 'are', 'with', 'his', 'that', 'was', 'they'],
+  2: [
+    'have',
+    'this',
+    'will',
+    'your',
+    'from',
+    'there',
+    'been',
+    'time',
+    'very',
+    'when',
+    'business',
+    'company',
+    'office',
+    'meeting',
+    'project',
+  ],
+  3: [
+    'people',
+    'think',
+    'other',
+    'after',
+    'first',
+    'well',
+    'work',
+    'life',
+    'only',
+    'schedule',
+    'deadline',
+    'budget',
+    'client',
+    'report',
+    'contract',
+    'invoice',
+    'profit',
+    'market',
+    'training',
+    'analysis',
+    'approach',
+    'concept',
+    'create',
+  ],
+  4: [
+    'negotiation',
+    'implementation',
+    'productivity',
+    'conference',
+    'investment',
+    'establish',
+    'evidence',
+    'factor',
+    'function',
+    'identify',
+    'indicate',
+    'method',
+    'occur',
+    'percent',
+    'research',
+  ],
+  5: [
+    'constitute',
+    'hypothesis',
+    'interpret',
+    'paradigm',
+    'parameters',
+    'phenomenon',
+    'significant',
+  ],
+};
+
+export const SAMPLE_WORDS: Word[] = (
+  Object.entries(SAMPLE_WORD_TEXTS) as [string, string[]][]
+).flatMap(([level, texts]) =>
+  texts.map(text => ({
+    id: `sample-${text}`,
+    text,
+    level: Number(level) as WordLevel,
+    length: text.length,
+  }))
+);
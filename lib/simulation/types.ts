@@ -0,0 +1,92 @@
+import {
+  CombatProfile,
+  GameDifficulty,
+  SessionResult,
+  Word,
+} from '../game/types';
+
+/**
+ * Types for the battle balance simulator
+ */
+
+// =============================================================================
+// SIMULATED TYPISTS
+// =============================================================================
+
+export interface SimulatedTypist {
+  name: string;
+  wpmMean: number;
+  wpmStdDev: number; // Spread of speed from one word to the next
+  errorRate: number; // Chance of a wrong key per character, corrected with Backspace
+  guardPreference: number; // Chance of guarding a telegraphed attack
+  healThreshold: number; // Heals while HP is below this share of max HP
+  reactionMs: number; // Pause before starting each word
+}
+
+// =============================================================================
+// OPTIONS
+// =============================================================================
+
+export interface SimulationOptions {
+  typists: SimulatedTypist[];
+  difficulties: GameDifficulty[];
+  battles: number; // Per typist and difficulty
+  durationSec: number;
+  seed: number;
+  words?: Word[]; // Defaults to the built-in sample words
+  combatProfile?: CombatProfile; // Defaults to the classic profile
+}
+
+export interface BattleSettings {
+  difficulty: GameDifficulty;
+  durationSec: number;
+  seed: number; // Seeds both the session and the typist
+  words?: Word[];
+  combatProfile?: CombatProfile;
+}
+
+// =============================================================================
+// RESULTS
+// =============================================================================
+
+export interface BattleOutcome {
+  result: SessionResult['result'];
+  timedOut: boolean; // Decided on HP when time ran out
+  durationSec: number;
+  damageDealt: number;
+  healingDone: number;
+  damageTaken: number;
+  actions: number; // Attacks and heals
+  criticals: number;
+  enemyAttacks: number;
+  guardedAttacks: number;
+  wpm: number;
+  accuracy: number; // Right keys over all keys pressed, corrections aside
+}
+
+export interface SimulationResult {
+  typist: string;
+  difficulty: GameDifficulty;
+  battles: number;
+  winRate: number;
+  timeoutRate: number;
+  averageBattleSec: number;
+  averageDamageDealt: number;
+  averageHealingDone: number;
+  averageDamageTaken: number;
+  damageHealRatio: number | null; // null when nothing was healed
+  critRate: number; // Share of attacks and heals that were critical
+  guardRate: number; // Share of enemy attacks that were guarded
+  averageWpm: number;
+  averageAccuracy: number;
+}
+
+export interface SimulationReport {
+  generatedAt: string;
+  seed: number;
+  battles: number;
+  durationSec: number;
+  combatProfile: string; // Profile id
+  typists: SimulatedTypist[];
+  results: SimulationResult[];
+}
@@ -0,0 +1,88 @@
+import { ValidationResult } from '../game/types';
+import { SimulatedTypist } from './types';
+
+/**
+ * Built-in simulated typists and validation for custom ones
+ */
+
+// =============================================================================
+// BUILT-IN TYPISTS
+// =============================================================================
+
+export const BUILT_IN_TYPISTS: Record<string, SimulatedTypist> = {
+  beginner: {
+    name: 'beginner',
+    wpmMean: 25,
+    wpmStdDev: 6,
+    errorRate: 0.08,
+    guardPreference: 0.5,
+    healThreshold: 0.4,
+    reactionMs: 700,
+  },
+  average: {
+    name: 'average',
+    wpmMean: 40,
+    wpmStdDev: 8,
+    errorRate: 0.04,
+    guardPreference: 0.75,
+    healThreshold: 0.35,
+    reactionMs: 450,
+  },
+  fast: {
+    name: 'fast',
+    wpmMean: 70,
+    wpmStdDev: 10,
+    errorRate: 0.02,
+    guardPreference: 0.9,
+    healThreshold: 0.3,
+    reactionMs: 300,
+  },
+};
+
+export function getBuiltInTypist(name: string): SimulatedTypist | null {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_TYPISTS, name)
+    ? BUILT_IN_TYPISTS[name]
+    : null;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const FRACTION_FIELDS = [
+  'errorRate',
+  'guardPreference',
+  'healThreshold',
+] as const;
+
+export function validateTypist(value: unknown): ValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { valid: false, errors: ['Typist must be an object'] };
+  }
+
+  const typist = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const isNumber = (field: string) =>
+    typeof typist[field] === 'number' && Number.isFinite(typist[field]);
+
+  if (typeof typist.name !== 'string' || typist.name.trim().length === 0) {
+    errors.push('name must be a non-empty string');
+  }
+  if (!isNumber('wpmMean') || (typist.wpmMean as number) <= 0) {
+    errors.push('wpmMean must be a positive number');
+  }
+  if (!isNumber('wpmStdDev') || (typist.wpmStdDev as number) < 0) {
+    errors.push('wpmStdDev must be a number of at least 0');
+  }
+  if (!isNumber('reactionMs') || (typist.reactionMs as number) < 0) {
+    errors.push('reactionMs must be a number of at least 0');
+  }
+  FRACTION_FIELDS.forEach(field => {
+    const fraction = typist[field] as number;
+    if (!isNumber(field) || fraction < 0 || fraction > 1) {
+      errors.push(`${field} must be a number between 0 and 1`);
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
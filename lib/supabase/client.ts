@@ -0,0 +1,27 @@
+import { createBrowserClient } from '@supabase/ssr';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Supabase client for client components, sharing the signed-in user's
+ * session through cookies
+ * Returns null when Supabase is not configured, so pages can fall back to
+ * data kept on the device
+ */
+export function createBrowserSupabaseClient(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) return null;
+
+  return createBrowserClient(url, anonKey);
+}
+
+/**
+ * Bearer token for the API, or null for guests
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const client = createBrowserSupabaseClient();
+  if (!client) return null;
+
+  const { data } = await client.auth.getSession();
+  return data.session?.access_token ?? null;
+}
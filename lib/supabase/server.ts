@@ -0,0 +1,62 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Supabase clients for route handlers
+ * Reads NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY and the
+ * server-only SUPABASE_SERVICE_ROLE_KEY
+ */
+
+function getSupabaseUrl(): string {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (!url) {
+    throw new Error('Supabase: NEXT_PUBLIC_SUPABASE_URL is not set');
+  }
+  return url;
+}
+
+function getAnonKey(): string {
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!key) {
+    throw new Error('Supabase: NEXT_PUBLIC_SUPABASE_ANON_KEY is not set');
+  }
+  return key;
+}
+
+function getServiceRoleKey(): string {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) {
+    throw new Error('Supabase: SUPABASE_SERVICE_ROLE_KEY is not set');
+  }
+  return key;
+}
+
+const SERVER_AUTH_OPTIONS = {
+  persistSession: false,
+  autoRefreshToken: false,
+};
+
+/**
+ * Client for the API's database access, using the service role
+ * Only the service role may write a session's outcome, so the handlers
+ * enforce the ownership rules of the RLS policies themselves
+ */
+export function createServerClient(): SupabaseClient {
+  return createClient(getSupabaseUrl(), getServiceRoleKey(), {
+    auth: SERVER_AUTH_OPTIONS,
+  });
+}
+
+/**
+ * Resolve a Supabase access token to its user id, or null if it is invalid
+ */
+export async function getUserIdFromToken(
+  accessToken: string
+): Promise<string | null> {
+  const client = createClient(getSupabaseUrl(), getAnonKey(), {
+    auth: SERVER_AUTH_OPTIONS,
+  });
+  const { data, error } = await client.auth.getUser(accessToken);
+
+  if (error || !data.user) return null;
+  return data.user.id;
+}
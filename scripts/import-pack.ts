@@ -0,0 +1,109 @@
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { SupabaseGameRepository } from '../lib/api/repository/SupabaseGameRepository';
+import {
+  buildImportReport,
+  detectPackFormat,
+  formatImportReport,
+  saveImportedPack,
+} from '../lib/packs/packImport';
+import { PackFormat } from '../lib/packs/types';
+import { createServerClient } from '../lib/supabase/server';
+
+/**
+ * Import a word pack file into Supabase
+ *
+ *   npm run import-pack -- packs/ngsl.csv --title "NGSL Core" --tags ngsl,core
+ *   npm run import-pack -- packs/toeic.json --dry-run
+ *
+ * Prints the line-by-line report and only inserts when every line is valid.
+ * Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ */
+
+const USAGE = `Usage: import-pack <file.csv|file.json> [options]
+
+  --title <title>          Pack title (required unless set in a JSON file)
+  --description <text>     Pack description
+  --lang <code>            Language code (default: en)
+  --tags <a,b,c>           Comma separated tags
+  --format <csv|json>      Override format detection
+  --dry-run                Validate and print the report without inserting`;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      title: { type: 'string' },
+      description: { type: 'string' },
+      lang: { type: 'string' },
+      tags: { type: 'string' },
+      format: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [file] = positionals;
+  if (!file || values.help) {
+    console.log(USAGE);
+    return file ? 0 : 1;
+  }
+  if (values.format && values.format !== 'csv' && values.format !== 'json') {
+    console.error(`Unknown format: ${values.format}`);
+    return 1;
+  }
+
+  const content = await readFile(file, 'utf8');
+  const format =
+    (values.format as PackFormat | undefined) ??
+    detectPackFormat(basename(file), content);
+  const report = buildImportReport(content, format);
+
+  console.log(formatImportReport(report));
+
+  if (!report.valid) {
+    console.error('Pack has errors, nothing was imported');
+    return 1;
+  }
+  if (values['dry-run']) {
+    console.log('Dry run, nothing was imported');
+    return 0;
+  }
+
+  const title = values.title ?? report.pack.title;
+  if (!title) {
+    console.error('A --title is required');
+    return 1;
+  }
+
+  const pack = await saveImportedPack(
+    new SupabaseGameRepository(createServerClient()),
+    report,
+    {
+      title,
+      description: values.description ?? report.pack.description,
+      lang: values.lang ?? report.pack.lang,
+      tags: values.tags
+        ? values.tags
+            .split(',')
+            .map(tag => tag.trim())
+            .filter(Boolean)
+        : report.pack.tags,
+    },
+    null
+  );
+
+  console.log(
+    `Imported ${report.words.length} words into "${pack.title}" (${pack.id})`
+  );
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,204 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { CombatProfile, GameDifficulty, Word } from '../lib/game/types';
+import {
+  DEFAULT_COMBAT_PROFILE,
+  loadCombatProfile,
+} from '../lib/game/utils/combatProfile';
+import { buildImportReport, detectPackFormat } from '../lib/packs/packImport';
+import {
+  formatSimulationReport,
+  runSimulation,
+} from '../lib/simulation/battleSimulator';
+import { SimulatedTypist, SimulationReport } from '../lib/simulation/types';
+import {
+  BUILT_IN_TYPISTS,
+  getBuiltInTypist,
+  validateTypist,
+} from '../lib/simulation/typists';
+
+/**
+ * Run headless battles with simulated typists and report balance numbers
+ *
+ *   npm run simulate-battles -- --battles 2000
+ *   npm run simulate-battles -- --profile prd-mvp --out after.json --baseline before.json
+ *
+ * Prints a table per typist and difficulty; --out saves the JSON report so a
+ * later run can be compared against it with --baseline.
+ */
+
+const DIFFICULTIES: GameDifficulty[] = ['EASY', 'NORMAL', 'HARD'];
+
+const USAGE = `Usage: simulate-battles [options]
+
+  --battles <n>            Battles per typist and difficulty (default: 1000)
+  --difficulty <a,b>       Difficulties to play (default: EASY,NORMAL,HARD)
+  --typists <a,b>          Built-in typists: ${Object.keys(BUILT_IN_TYPISTS).join(', ')} (default: all)
+  --typist-file <file>     JSON file with a typist or an array of typists
+  --profile <id|file>      Combat profile id or JSON file (default: ${DEFAULT_COMBAT_PROFILE.id})
+  --words <file>           Word pack file (CSV or JSON) instead of the sample words
+  --duration <seconds>     Battle time limit (default: 300)
+  --seed <n>               Seed for every battle (default: 1)
+  --out <file>             Save the JSON report
+  --baseline <file>        Compare win rates with a saved JSON report
+  --json                   Print the JSON report instead of the table`;
+
+function parseInteger(
+  value: string | undefined,
+  name: string,
+  fallback: number
+): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`--${name} must be an integer, got ${value}`);
+  }
+  return parsed;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+async function readJson(file: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+async function loadTypists(
+  names: string | undefined,
+  file: string | undefined
+): Promise<SimulatedTypist[]> {
+  const typists: SimulatedTypist[] = [];
+
+  if (names || !file) {
+    const builtIn = names ? splitList(names) : Object.keys(BUILT_IN_TYPISTS);
+    for (const name of builtIn) {
+      const typist = getBuiltInTypist(name);
+      if (!typist) {
+        throw new Error(`Unknown typist: ${name}`);
+      }
+      typists.push(typist);
+    }
+  }
+
+  if (file) {
+    const data = await readJson(file);
+    const custom: unknown[] = Array.isArray(data) ? data : [data];
+    for (const [index, typist] of custom.entries()) {
+      const validation = validateTypist(typist);
+      if (!validation.valid) {
+        throw new Error(
+          `${file}: Typist ${index + 1}: ${validation.errors.join('; ')}`
+        );
+      }
+      typists.push(typist as SimulatedTypist);
+    }
+  }
+
+  return typists;
+}
+
+async function loadProfile(value: string | undefined): Promise<CombatProfile> {
+  if (!value) return DEFAULT_COMBAT_PROFILE;
+  return loadCombatProfile(
+    value.endsWith('.json') ? await readJson(value) : value
+  );
+}
+
+async function loadWords(file: string): Promise<Word[]> {
+  const content = await readFile(file, 'utf8');
+  const report = buildImportReport(
+    content,
+    detectPackFormat(basename(file), content)
+  );
+  if (!report.valid) {
+    throw new Error(
+      `${file}: Pack has errors, check it with scripts/import-pack.ts --dry-run`
+    );
+  }
+
+  return report.words.map((word, index) => ({
+    id: `${basename(file)}-${index + 1}`,
+    text: word.text,
+    level: word.level,
+    category: word.category,
+    length: word.text.length,
+  }));
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      battles: { type: 'string' },
+      difficulty: { type: 'string' },
+      typists: { type: 'string' },
+      'typist-file': { type: 'string' },
+      profile: { type: 'string' },
+      words: { type: 'string' },
+      duration: { type: 'string' },
+      seed: { type: 'string' },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const difficulties = values.difficulty
+    ? splitList(values.difficulty.toUpperCase())
+    : DIFFICULTIES;
+  const unknown = difficulties.find(
+    difficulty => !DIFFICULTIES.includes(difficulty as GameDifficulty)
+  );
+  if (unknown) {
+    console.error(`Unknown difficulty: ${unknown}`);
+    return 1;
+  }
+
+  const report = await runSimulation({
+    typists: await loadTypists(values.typists, values['typist-file']),
+    difficulties: difficulties as GameDifficulty[],
+    battles: parseInteger(values.battles, 'battles', 1000),
+    durationSec: parseInteger(values.duration, 'duration', 300),
+    seed: parseInteger(values.seed, 'seed', 1),
+    words: values.words ? await loadWords(values.words) : undefined,
+    combatProfile: await loadProfile(values.profile),
+  });
+
+  if (values.out) {
+    await writeFile(values.out, `${JSON.stringify(report, null, 2)}\n`);
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    const baseline = values.baseline
+      ? ((await readJson(values.baseline)) as SimulationReport)
+      : undefined;
+    console.log(formatSimulationReport(report, baseline));
+  }
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,43 @@
+-- Server-side session verification
+-- Stores the outcome of replaying a session's keystrokes on the server so
+-- leaderboards can exclude suspicious runs
+
+alter table public.sessions
+  add column if not exists risk_level text
+    check (risk_level in ('LOW','MEDIUM','HIGH')), -- null until the session ends
+  add column if not exists risk_flags text[] not null default '{}';
+
+create index if not exists idx_sessions_risk_level on public.sessions(risk_level);
+
+-- Expose the risk level to dashboard queries
+create or replace view public.session_summary as
+select 
+  s.id as session_id,
+  s.user_id,
+  s.pack_id,
+  wp.title as pack_title,
+  s.difficulty,
+  s.started_at,
+  s.ended_at,
+  s.duration_sec,
+  s.result,
+  -- Use stats JSON if available, otherwise calculate from attempts
+  coalesce((s.stats->>'wpm')::numeric, avg(a.wpm)) as avg_wpm,
+  coalesce((s.stats->>'acc')::numeric, avg(a.accuracy)) as avg_acc,
+  coalesce((s.stats->>'comboMax')::int, max(a.combo)) as max_combo,
+  -- Calculated metrics from attempts
+  sum(case when a.type = 'ATTACK' then a.score else 0 end) as total_damage,
+  sum(case when a.type = 'HEAL' then a.score else 0 end) as total_healing,
+  count(*) filter (where a.type = 'ATTACK') as attack_count,
+  count(*) filter (where a.type = 'HEAL') as heal_count,
+  count(*) filter (where a.type = 'GUARD') as guard_count,
+  count(*) as total_attempts,
+  avg(a.ms) as avg_time_ms,
+  s.risk_level
+from public.sessions s
+left join public.attempts a on a.session_id = s.id
+left join public.word_packs wp on wp.id = s.pack_id
+group by s.id, wp.title;
+
+comment on column public.sessions.risk_level is 'Server verification result: LOW, MEDIUM (unverified or minor flags) or HIGH';
+comment on column public.sessions.risk_flags is 'Verification flags raised for the session';
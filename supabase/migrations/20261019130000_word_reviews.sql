@@ -0,0 +1,32 @@
+-- word_reviews table
+-- Per-learner spaced repetition (SM-2) state for each word they have typed
+create table if not exists public.word_reviews (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  word_id uuid not null references public.words(id) on delete cascade,
+  ease_factor numeric(4,2) not null default 2.5 check (ease_factor >= 1.3),
+  interval_days int not null default 0 check (interval_days >= 0),
+  repetitions int not null default 0 check (repetitions >= 0),
+  lapses int not null default 0 check (lapses >= 0),
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz not null default now(),
+  
+  primary key (user_id, word_id)
+);
+
+-- Selection loads a learner's due words first
+create index if not exists idx_word_reviews_user_due on public.word_reviews(user_id, due_at);
+
+alter table public.word_reviews enable row level security;
+
+-- Reviews are private to their learner
+create policy "word_reviews_select_own" on public.word_reviews for select
+  using (auth.uid() = user_id);
+create policy "word_reviews_insert_own" on public.word_reviews for insert
+  with check (auth.uid() = user_id);
+create policy "word_reviews_update_own" on public.word_reviews for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+comment on table public.word_reviews is 'Spaced repetition schedule per learner and word';
+
+grant all on public.word_reviews to authenticated;
@@ -0,0 +1,8 @@
+-- Word categories for imported packs
+-- The pack importer accepts an optional category per word (NGSL, TOEIC, etc.),
+-- matching Word.category in the game
+
+alter table public.words
+  add column if not exists category text;
+
+create index if not exists idx_words_pack_category on public.words(pack_id, category);
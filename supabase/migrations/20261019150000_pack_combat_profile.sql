@@ -0,0 +1,11 @@
+-- Combat balance profile per word pack
+-- A CombatProfile (lib/game/types.ts) that replaces the default balance for
+-- sessions played on the pack; null keeps the default. The profile a session
+-- actually used is snapshotted into sessions.settings.combatProfile
+
+alter table public.word_packs
+  add column if not exists combat_profile jsonb;
+
+alter table public.word_packs
+  add constraint word_packs_combat_profile_object
+  check (combat_profile is null or jsonb_typeof(combat_profile) = 'object');
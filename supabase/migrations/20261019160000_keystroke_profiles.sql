@@ -0,0 +1,25 @@
+-- keystroke_profiles table
+-- Per-learner typing speed and errors per key and bigram, accumulated across sessions
+create table if not exists public.keystroke_profiles (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  keys jsonb not null default '{}'::jsonb,
+  bigrams jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.keystroke_profiles enable row level security;
+
+-- Profiles are private to their learner
+create policy "keystroke_profiles_select_own" on public.keystroke_profiles for select
+  using (auth.uid() = user_id);
+create policy "keystroke_profiles_insert_own" on public.keystroke_profiles for insert
+  with check (auth.uid() = user_id);
+create policy "keystroke_profiles_update_own" on public.keystroke_profiles for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+comment on table public.keystroke_profiles is 'Keystroke latency and error counts per learner, key and bigram';
+comment on column public.keystroke_profiles.keys is 'Character -> {count, errors, totalLatencyMs, timedCount}';
+comment on column public.keystroke_profiles.bigrams is 'Pair of characters -> {count, errors, totalLatencyMs, timedCount}';
+
+grant all on public.keystroke_profiles to authenticated;
@@ -0,0 +1,29 @@
+-- player_stats table
+-- Per-learner level, experience and averages, updated after each finished battle
+create table if not exists public.player_stats (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  level integer not null default 1 check (level >= 1),
+  experience integer not null default 0 check (experience >= 0),
+  average_wpm numeric not null default 0,
+  average_accuracy numeric not null default 0,
+  games_played integer not null default 0,
+  games_won integer not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.player_stats enable row level security;
+
+-- Stats are private to their learner
+create policy "player_stats_select_own" on public.player_stats for select
+  using (auth.uid() = user_id);
+create policy "player_stats_insert_own" on public.player_stats for insert
+  with check (auth.uid() = user_id);
+create policy "player_stats_update_own" on public.player_stats for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+comment on table public.player_stats is 'Level progression and running averages per learner';
+comment on column public.player_stats.experience is 'Total experience earned across sessions';
+comment on column public.player_stats.average_accuracy is 'Mean session accuracy, 0-1';
+
+grant all on public.player_stats to authenticated;
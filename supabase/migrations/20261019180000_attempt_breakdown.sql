@@ -0,0 +1,6 @@
+-- Combat breakdown per attempt
+-- The steps of the damage, healing or guard calculation, shown on the results screen
+alter table public.attempts
+  add column if not exists breakdown text[] not null default '{}';
+
+comment on column public.attempts.breakdown is 'Combat calculation steps, e.g. "Combo modifier (5): ×1.10"';
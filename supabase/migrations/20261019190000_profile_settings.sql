@@ -0,0 +1,11 @@
+-- Player settings per profile
+-- GameSettings (lib/game/types.ts): word pack, difficulty, battle length,
+-- keyboard layout, accessibility and sound. Guests keep theirs in
+-- localStorage; an empty object means the player has not saved any yet
+
+alter table public.profiles
+  add column if not exists settings jsonb not null default '{}'::jsonb;
+
+alter table public.profiles
+  add constraint profiles_settings_object
+  check (jsonb_typeof(settings) = 'object');
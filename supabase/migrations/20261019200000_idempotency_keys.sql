@@ -0,0 +1,28 @@
+-- idempotency_keys table
+-- Responses to API requests sent with an Idempotency-Key header, so a
+-- retried request (e.g. from the offline outbox) is not applied twice
+create table if not exists public.idempotency_keys (
+  key text primary key,
+  user_id uuid references auth.users(id) on delete cascade, -- null for guests
+  request text not null,
+  status smallint not null,
+  body jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idempotency_keys_created_at_idx
+  on public.idempotency_keys (created_at);
+
+alter table public.idempotency_keys enable row level security;
+
+-- Guest keys are only reachable with the service role, like guest sessions
+create policy "idempotency_keys_select_own" on public.idempotency_keys for select
+  using (auth.uid() = user_id);
+create policy "idempotency_keys_insert_own" on public.idempotency_keys for insert
+  with check (auth.uid() = user_id);
+
+comment on table public.idempotency_keys is 'Stored API responses per client-generated Idempotency-Key';
+comment on column public.idempotency_keys.request is 'Method and path the key was first used for, e.g. POST /api/attempt';
+comment on column public.idempotency_keys.created_at is 'Rows older than a few days can be deleted once clients no longer retry them';
+
+grant select, insert on public.idempotency_keys to authenticated;
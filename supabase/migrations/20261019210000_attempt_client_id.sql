@@ -0,0 +1,11 @@
+-- Client-generated attempt ids
+-- POST /api/attempts/batch stores attempts under the id the client gave them,
+-- so a batch that is sent again skips the attempts already stored
+alter table public.attempts
+  add column if not exists client_attempt_id uuid;
+
+-- Also the conflict target of the batch insert; attempts without an id never conflict
+create unique index if not exists attempts_session_client_attempt_idx
+  on public.attempts (session_id, client_attempt_id);
+
+comment on column public.attempts.client_attempt_id is 'Id generated by the client for batched attempts, unique per session';
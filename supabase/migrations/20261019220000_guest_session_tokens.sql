@@ -0,0 +1,135 @@
+-- Guest session tokens
+-- A guest session can only be used with the token the API signed for it when
+-- it was created, sent as the X-Guest-Token header. Only its SHA-256 hash is
+-- stored. After sign-in, claim_guest_sessions moves the guest's sessions (and
+-- with them their attempts) to the new account
+create extension if not exists pgcrypto with schema extensions;
+
+alter table public.sessions
+  add column if not exists guest_token_hash text;
+
+comment on column public.sessions.guest_token_hash is 'Hex SHA-256 of the guest token; null for user sessions and once claimed';
+
+-- Hash of the X-Guest-Token header sent to PostgREST, or null without one
+create or replace function public.request_guest_token_hash()
+returns text
+language sql
+stable
+as $$
+  select encode(
+    extensions.digest(
+      nullif(current_setting('request.headers', true)::json->>'x-guest-token', ''),
+      'sha256'
+    ),
+    'hex'
+  );
+$$;
+
+-- Sessions: own sessions, or guest sessions whose token was sent
+drop policy if exists "sessions_select_own" on public.sessions;
+drop policy if exists "sessions_insert_own" on public.sessions;
+drop policy if exists "sessions_update_own" on public.sessions;
+
+create policy "sessions_select_own" on public.sessions for select
+  using (
+    auth.uid() = user_id
+    or (user_id is null and guest_token_hash = public.request_guest_token_hash())
+  );
+create policy "sessions_insert_own" on public.sessions for insert
+  with check (
+    auth.uid() = user_id
+    or (user_id is null and guest_token_hash = public.request_guest_token_hash())
+  );
+create policy "sessions_update_own" on public.sessions for update
+  using (
+    auth.uid() = user_id
+    or (user_id is null and guest_token_hash = public.request_guest_token_hash())
+  )
+  with check (
+    auth.uid() = user_id
+    or (user_id is null and guest_token_hash = public.request_guest_token_hash())
+  );
+
+-- Attempts: through a session the caller may use
+drop policy if exists "attempts_select_via_session" on public.attempts;
+drop policy if exists "attempts_insert_via_session" on public.attempts;
+drop policy if exists "attempts_update_via_session" on public.attempts;
+
+create policy "attempts_select_via_session" on public.attempts for select
+  using (
+    exists (
+      select 1 from public.sessions s
+      where s.id = session_id
+      and (
+        s.user_id = auth.uid()
+        or (s.user_id is null and s.guest_token_hash = public.request_guest_token_hash())
+      )
+    )
+  );
+create policy "attempts_insert_via_session" on public.attempts for insert
+  with check (
+    exists (
+      select 1 from public.sessions s
+      where s.id = session_id
+      and (
+        s.user_id = auth.uid()
+        or (s.user_id is null and s.guest_token_hash = public.request_guest_token_hash())
+      )
+    )
+  );
+create policy "attempts_update_via_session" on public.attempts for update
+  using (
+    exists (
+      select 1 from public.sessions s
+      where s.id = session_id
+      and (
+        s.user_id = auth.uid()
+        or (s.user_id is null and s.guest_token_hash = public.request_guest_token_hash())
+      )
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.sessions s
+      where s.id = session_id
+      and (
+        s.user_id = auth.uid()
+        or (s.user_id is null and s.guest_token_hash = public.request_guest_token_hash())
+      )
+    )
+  );
+
+-- The view ran as its owner, which skips RLS and exposed every session
+alter view public.session_summary set (security_invoker = true);
+
+-- Give guest sessions to a user in one statement
+-- p_claims is a JSON array of {session_id, guest_token_hash}; sessions that
+-- are unknown, already owned or whose hash differs are left alone. Returns
+-- the ids that moved
+create or replace function public.claim_guest_sessions(p_user_id uuid, p_claims jsonb)
+returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- The service role claims for any user; others only for themselves
+  if auth.role() <> 'service_role' and p_user_id is distinct from auth.uid() then
+    raise exception 'claim_guest_sessions: cannot claim for another user'
+      using errcode = '42501';
+  end if;
+
+  return query
+    update public.sessions s
+       set user_id = p_user_id,
+           guest_token_hash = null
+      from jsonb_to_recordset(p_claims) as c(session_id uuid, guest_token_hash text)
+     where s.id = c.session_id
+       and s.user_id is null
+       and s.guest_token_hash = c.guest_token_hash
+    returning s.id;
+end;
+$$;
+
+revoke execute on function public.claim_guest_sessions(uuid, jsonb) from public, anon;
+grant execute on function public.claim_guest_sessions(uuid, jsonb) to authenticated, service_role;
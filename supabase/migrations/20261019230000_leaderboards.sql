@@ -0,0 +1,151 @@
+-- Leaderboards per pack, difficulty and time window
+-- leaderboard_scores keeps one row per ended session that qualifies: a
+-- signed-in player's session that passed server verification (risk_level
+-- LOW) with an accuracy of at least 0.9. The score is damage per minute.
+-- A trigger on sessions keeps the table current, including when a claimed
+-- guest session gets its user. Scoring matches lib/api/leaderboard.ts
+create table if not exists public.leaderboard_scores (
+  session_id uuid primary key references public.sessions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  pack_id uuid not null references public.word_packs(id) on delete cascade,
+  difficulty text not null check (difficulty in ('EASY','NORMAL','HARD')),
+  ended_at timestamptz not null,
+  score numeric(8,2) not null check (score >= 0),
+  damage int not null check (damage >= 0),
+  duration_sec int2 not null check (duration_sec > 0),
+  accuracy numeric(5,4) not null,
+  wpm numeric(6,2)
+);
+
+create index if not exists leaderboard_scores_board_idx
+  on public.leaderboard_scores (pack_id, difficulty, score desc, ended_at);
+create index if not exists leaderboard_scores_ended_at_idx
+  on public.leaderboard_scores (pack_id, difficulty, ended_at);
+
+comment on table public.leaderboard_scores is 'Sessions that count for the leaderboards, maintained by sync_leaderboard_score';
+comment on column public.leaderboard_scores.score is 'Damage per minute: stats.damage * 60 / duration_sec';
+
+-- The row a session should have, or none
+create or replace function public.sync_leaderboard_score()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.leaderboard_scores where session_id = new.id;
+
+  if new.user_id is not null
+     and new.ended_at is not null
+     and new.risk_level = 'LOW'
+     and new.duration_sec > 0
+     and new.stats ? 'damage'
+     and (new.stats->>'acc')::numeric >= 0.9 then
+    insert into public.leaderboard_scores (
+      session_id, user_id, pack_id, difficulty, ended_at,
+      score, damage, duration_sec, accuracy, wpm
+    ) values (
+      new.id,
+      new.user_id,
+      new.pack_id,
+      new.difficulty,
+      new.ended_at,
+      round((new.stats->>'damage')::numeric * 60 / new.duration_sec, 2),
+      round((new.stats->>'damage')::numeric)::int,
+      new.duration_sec,
+      (new.stats->>'acc')::numeric,
+      (new.stats->>'wpm')::numeric
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger sessions_sync_leaderboard_score
+  after insert or update of user_id, ended_at, duration_sec, stats, risk_level
+  on public.sessions
+  for each row execute function public.sync_leaderboard_score();
+
+-- Score the sessions that ended before this migration
+insert into public.leaderboard_scores (
+  session_id, user_id, pack_id, difficulty, ended_at,
+  score, damage, duration_sec, accuracy, wpm
+)
+select
+  s.id,
+  s.user_id,
+  s.pack_id,
+  s.difficulty,
+  s.ended_at,
+  round((s.stats->>'damage')::numeric * 60 / s.duration_sec, 2),
+  round((s.stats->>'damage')::numeric)::int,
+  s.duration_sec,
+  (s.stats->>'acc')::numeric,
+  (s.stats->>'wpm')::numeric
+from public.sessions s
+where s.user_id is not null
+  and s.ended_at is not null
+  and s.risk_level = 'LOW'
+  and s.duration_sec > 0
+  and s.stats ? 'damage'
+  and (s.stats->>'acc')::numeric >= 0.9
+on conflict (session_id) do nothing;
+
+alter table public.leaderboard_scores enable row level security;
+
+-- Scores are public; rows are only written by the trigger
+create policy "leaderboard_scores_select_all" on public.leaderboard_scores for select
+  using (true);
+
+grant select on public.leaderboard_scores to anon, authenticated;
+
+-- One page of a leaderboard: each player's best session since p_since (all
+-- time when null), ranked by score with ties sharing a rank and the earlier
+-- session listed first. With p_user_id, only that player's entry is returned.
+-- Runs as its owner to read display names, which profiles' RLS hides
+create or replace function public.leaderboard(
+  p_pack_id uuid,
+  p_difficulty text,
+  p_since timestamptz default null,
+  p_user_id uuid default null,
+  p_limit int default 20,
+  p_offset int default 0
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with best as (
+    select distinct on (l.user_id) l.*
+    from public.leaderboard_scores l
+    where l.pack_id = p_pack_id
+      and l.difficulty = p_difficulty
+      and (p_since is null or l.ended_at >= p_since)
+    order by l.user_id, l.score desc, l.ended_at
+  ),
+  ranked as (
+    select b.*, rank() over (order by b.score desc) as rank
+    from best b
+  ),
+  page as (
+    select r.*, p.display_name
+    from ranked r
+    left join public.profiles p on p.user_id = r.user_id
+    where p_user_id is null or r.user_id = p_user_id
+    order by r.rank, r.ended_at, r.user_id
+    limit least(greatest(p_limit, 0), 100)
+    offset greatest(p_offset, 0)
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from ranked),
+    'entries', coalesce(
+      (select jsonb_agg(to_jsonb(page) order by page.rank, page.ended_at, page.user_id) from page),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+grant execute on function public.leaderboard(uuid, text, timestamptz, uuid, int, int) to anon, authenticated;
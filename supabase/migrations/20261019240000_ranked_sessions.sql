@@ -0,0 +1,48 @@
+-- Only rank sessions played with the pack's balance
+-- createSession sets settings.ranked to false when the session brought its
+-- own combat profile or equipped skills, which change how much damage the
+-- same typing deals. Sessions without the flag predate it and are not ranked.
+-- Scoring matches lib/api/leaderboard.ts
+
+create or replace function public.sync_leaderboard_score()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.leaderboard_scores where session_id = new.id;
+
+  if new.user_id is not null
+     and new.ended_at is not null
+     and new.risk_level = 'LOW'
+     and coalesce((new.settings->>'ranked')::boolean, false)
+     and new.duration_sec > 0
+     and new.stats ? 'damage'
+     and (new.stats->>'acc')::numeric >= 0.9 then
+    insert into public.leaderboard_scores (
+      session_id, user_id, pack_id, difficulty, ended_at,
+      score, damage, duration_sec, accuracy, wpm
+    ) values (
+      new.id,
+      new.user_id,
+      new.pack_id,
+      new.difficulty,
+      new.ended_at,
+      round((new.stats->>'damage')::numeric * 60 / new.duration_sec, 2),
+      round((new.stats->>'damage')::numeric)::int,
+      new.duration_sec,
+      (new.stats->>'acc')::numeric,
+      (new.stats->>'wpm')::numeric
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Drop the scores of sessions that no longer qualify
+delete from public.leaderboard_scores l
+using public.sessions s
+where s.id = l.session_id
+  and not coalesce((s.settings->>'ranked')::boolean, false);
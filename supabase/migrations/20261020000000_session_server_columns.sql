@@ -0,0 +1,15 @@
+-- Only the server writes a session's outcome
+-- The initial schema granted every privilege on sessions to authenticated,
+-- so a player could PATCH their own session through PostgREST and set
+-- risk_level = 'LOW', their own stats, settings.ranked or ended_at, and
+-- reach the leaderboard. Clients may now only open a session with the
+-- columns below; the API writes everything else with the service role, and
+-- claim_guest_sessions runs as its owner
+
+revoke insert, update on public.sessions from anon, authenticated;
+
+grant insert (id, user_id, pack_id, difficulty, started_at, guest_token_hash)
+  on public.sessions to authenticated;
+
+-- No client role can update a session any more
+drop policy if exists "sessions_update_own" on public.sessions;
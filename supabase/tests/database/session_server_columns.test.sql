@@ -0,0 +1,109 @@
+-- Clients cannot write a session's outcome
+-- Run with `supabase test db`
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(10);
+
+insert into auth.users (id, email)
+values ('a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a01', 'player@example.com');
+
+insert into public.word_packs (id, title)
+values ('a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a02', 'Session columns test pack');
+
+insert into public.sessions (id, user_id, pack_id, difficulty)
+values (
+  'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03',
+  'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a01',
+  'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a02',
+  'NORMAL'
+);
+
+-- The player, signed in
+set local role authenticated;
+select set_config(
+  'request.jwt.claims',
+  '{"sub": "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a01", "role": "authenticated"}',
+  true
+);
+
+select throws_ok(
+  $$update public.sessions set risk_level = 'LOW'
+    where id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03'$$,
+  '42501', null, 'A player cannot set their risk level'
+);
+select throws_ok(
+  $$update public.sessions set risk_flags = '{}'
+    where id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03'$$,
+  '42501', null, 'A player cannot clear their risk flags'
+);
+select throws_ok(
+  $$update public.sessions set stats = '{"damage": 99999, "acc": 1}'
+    where id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03'$$,
+  '42501', null, 'A player cannot write their stats'
+);
+select throws_ok(
+  $$update public.sessions set settings = '{"ranked": true}'
+    where id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03'$$,
+  '42501', null, 'A player cannot rank their session'
+);
+select throws_ok(
+  $$update public.sessions set ended_at = now(), duration_sec = 60
+    where id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03'$$,
+  '42501', null, 'A player cannot end their session'
+);
+select throws_ok(
+  $$insert into public.sessions (user_id, pack_id, difficulty, settings, risk_level)
+    values (
+      'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a01',
+      'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a02',
+      'NORMAL',
+      '{"ranked": true}',
+      'LOW'
+    )$$,
+  '42501', null, 'A player cannot open a session with its outcome set'
+);
+select lives_ok(
+  $$insert into public.sessions (user_id, pack_id, difficulty)
+    values (
+      'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a01',
+      'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a02',
+      'NORMAL'
+    )$$,
+  'A player can still open a session'
+);
+
+-- A guest
+set local role anon;
+select set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+select throws_ok(
+  $$update public.sessions set risk_level = 'LOW'
+    where id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03'$$,
+  '42501', null, 'A guest cannot write a session'
+);
+
+-- The API
+set local role service_role;
+select set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+select lives_ok(
+  $$update public.sessions
+       set ended_at = now(), duration_sec = 60, result = 'WIN',
+           stats = '{"damage": 300, "acc": 0.95}', risk_level = 'LOW'
+     where id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03'$$,
+  'The service role ends sessions'
+);
+
+reset role;
+
+select is(
+  (select risk_level from public.sessions
+    where id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a03'),
+  'LOW',
+  'The service role''s update was applied'
+);
+
+select * from finish();
+rollback;